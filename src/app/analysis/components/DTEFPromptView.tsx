@@ -0,0 +1,209 @@
+'use client';
+
+import React, { useEffect, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { getModelDisplayLabel } from '@/app/utils/modelIdUtils';
+import { IDEAL_MODEL_ID } from '@/app/utils/calculationUtils';
+import { getHybridScoreColorClass } from '@/app/analysis/utils/colorUtils';
+import { compareDistribution, DTEFPromptDistributions } from '@/app/utils/dtefPromptUtils';
+import { useAnalysis } from '../context/AnalysisContext';
+import ModelResponseCardGrid from './ModelResponseCardGrid';
+
+const SERIES = [
+    { key: 'expected', label: 'Actual', className: 'bg-emerald-500' },
+    { key: 'predicted', label: 'Predicted', className: 'bg-blue-500' },
+    { key: 'marginal', label: 'Population marginal', className: 'bg-slate-400 dark:bg-slate-500' },
+] as const;
+
+function Legend({ showMarginal }: { showMarginal: boolean }) {
+    return (
+        <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+            {SERIES.filter(s => showMarginal || s.key !== 'marginal').map(s => (
+                <span key={s.key} className="flex items-center gap-1.5">
+                    <span className={`inline-block w-3 h-3 rounded-sm ${s.className}`} />
+                    {s.label}
+                </span>
+            ))}
+        </div>
+    );
+}
+
+function Bar({ value, scale, className, title }: { value: number; scale: number; className: string; title: string }) {
+    return (
+        <div className="flex items-center gap-2" title={title}>
+            <div className="flex-1 h-2.5 bg-muted rounded-sm overflow-hidden">
+                <div className={`h-full ${className}`} style={{ width: `${Math.min(100, (value / scale) * 100)}%` }} />
+            </div>
+            <span className="w-11 text-right tabular-nums text-[11px] text-muted-foreground">{value.toFixed(1)}%</span>
+        </div>
+    );
+}
+
+interface DTEFModelCardProps {
+    modelId: string;
+    distributions: DTEFPromptDistributions;
+}
+
+const DTEFModelCard: React.FC<DTEFModelCardProps> = ({ modelId, distributions }) => {
+    const {
+        data,
+        currentPromptId,
+        getCachedResponse,
+        fetchModalResponse,
+        isLoadingResponse,
+    } = useAnalysis();
+
+    const promptId = currentPromptId ?? '';
+    const response = getCachedResponse(promptId, modelId) || data?.allFinalAssistantResponses?.[promptId]?.[modelId];
+    const isLoading = isLoadingResponse(promptId, modelId);
+
+    useEffect(() => {
+        if (promptId && !response && !isLoading) {
+            fetchModalResponse(promptId, modelId);
+        }
+    }, [promptId, modelId, response, isLoading, fetchModalResponse]);
+
+    const comparison = useMemo(
+        () => (response ? compareDistribution(response, distributions) : null),
+        [response, distributions],
+    );
+
+    const coverage = data?.evaluationResults?.llmCoverageScores?.[promptId]?.[modelId];
+    const score = coverage && !('error' in coverage) ? coverage.avgCoverageExtent : undefined;
+
+    // Shared axis so bars compare across options within the card
+    const scale = useMemo(() => {
+        const values = [
+            ...distributions.expected,
+            ...(comparison?.predicted ?? []),
+            ...(distributions.marginal ?? []),
+        ];
+        return Math.max(1, ...values);
+    }, [distributions, comparison]);
+
+    const meanError = comparison?.rows.length
+        ? comparison.rows.reduce((sum, r) => sum + r.accuracy.error, 0) / comparison.rows.length
+        : null;
+
+    return (
+        <Card className="flex flex-col h-full shadow-md border-border dark:border-border/80">
+            <CardHeader>
+                <div className="flex justify-between items-start">
+                    <CardTitle className="text-base font-semibold" title={modelId}>{getModelDisplayLabel(modelId)}</CardTitle>
+                    {typeof score === 'number' && (
+                        <div className={`text-lg font-bold ${getHybridScoreColorClass(score)}`}>
+                            {(score * 100).toFixed(1)}%
+                        </div>
+                    )}
+                </div>
+                {meanError !== null && (
+                    <CardDescription className="text-xs">
+                        Mean absolute error: {meanError.toFixed(1)}pp
+                    </CardDescription>
+                )}
+            </CardHeader>
+            <CardContent className="flex-grow space-y-4">
+                {isLoading ? (
+                    <div className="space-y-2">
+                        <Skeleton className="h-4 w-full" />
+                        <Skeleton className="h-4 w-5/6" />
+                        <Skeleton className="h-4 w-4/5" />
+                    </div>
+                ) : !comparison ? (
+                    <span className="text-muted-foreground italic">No response generated.</span>
+                ) : comparison.error ? (
+                    <p className="text-sm text-destructive">{comparison.error}</p>
+                ) : (
+                    <>
+                        <div className="space-y-3">
+                            {comparison.rows.map(row => (
+                                <div key={row.index} className="space-y-1">
+                                    <div className="text-xs font-medium truncate" title={row.label}>
+                                        {String.fromCharCode(97 + row.index)}. {row.label}
+                                    </div>
+                                    <Bar value={row.expected} scale={scale} className={SERIES[0].className} title={`Actual: ${row.expected.toFixed(1)}%`} />
+                                    <Bar value={row.predicted} scale={scale} className={SERIES[1].className} title={`Predicted: ${row.predicted.toFixed(1)}%`} />
+                                    {row.marginal !== null && (
+                                        <Bar value={row.marginal} scale={scale} className={SERIES[2].className} title={`Population marginal: ${row.marginal.toFixed(1)}%`} />
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="text-muted-foreground border-b border-border">
+                                    <th className="text-left font-medium py-1">Option</th>
+                                    <th className="text-right font-medium py-1">Error</th>
+                                    <th className="text-right font-medium py-1">Tolerance</th>
+                                    <th className="text-right font-medium py-1">Score</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {comparison.rows.map(row => {
+                                    const signed = row.predicted - row.expected;
+                                    return (
+                                        <tr key={row.index} className="border-b border-border/50 last:border-0">
+                                            <td className="py-1">{String.fromCharCode(97 + row.index)}</td>
+                                            <td className={`py-1 text-right tabular-nums ${signed > 0 ? 'text-red-600 dark:text-red-400' : signed < 0 ? 'text-blue-600 dark:text-blue-400' : ''}`}>
+                                                {signed > 0 ? '+' : ''}{signed.toFixed(1)}pp
+                                            </td>
+                                            <td className="py-1 text-right tabular-nums text-muted-foreground">
+                                                ±{row.accuracy.tolerance.toFixed(1)}
+                                            </td>
+                                            <td className={`py-1 text-right tabular-nums font-medium ${getHybridScoreColorClass(row.accuracy.score)}`}>
+                                                {row.accuracy.score.toFixed(2)}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </>
+                )}
+
+                {response && (
+                    <details className="text-xs">
+                        <summary className="cursor-pointer text-muted-foreground">Raw response</summary>
+                        <pre className="mt-2 whitespace-pre-wrap break-words font-mono text-[11px] bg-muted/50 rounded p-2 max-h-48 overflow-y-auto">
+                            {response}
+                        </pre>
+                    </details>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
+
+interface DTEFPromptViewProps {
+    distributions: DTEFPromptDistributions;
+}
+
+/**
+ * Prompt view for DTEF results: each model's parsed distribution drawn
+ * against the segment's actual distribution and the population marginal,
+ * with the per-option errors per_option_accuracy would assign.
+ */
+export const DTEFPromptView: React.FC<DTEFPromptViewProps> = ({ distributions }) => {
+    const { displayedModels } = useAnalysis();
+    const models = displayedModels.filter(m => m !== IDEAL_MODEL_ID);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm text-muted-foreground">
+                    Predicted vs actual distribution
+                    {distributions.segmentLabel ? <> for <span className="font-medium text-foreground">{distributions.segmentLabel}</span></> : null}
+                    {' '}on <span className="font-mono text-xs">{distributions.questionId}</span>
+                </p>
+                <Legend showMarginal={distributions.marginal !== null} />
+            </div>
+            <ModelResponseCardGrid>
+                {models.map(modelId => (
+                    <DTEFModelCard key={modelId} modelId={modelId} distributions={distributions} />
+                ))}
+            </ModelResponseCardGrid>
+        </div>
+    );
+};
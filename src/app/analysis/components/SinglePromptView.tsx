@@ -4,10 +4,12 @@ import React, { useMemo } from 'react';
 import { useAnalysis } from '@/app/analysis/context/AnalysisContext';
 import { getModelDisplayLabel } from '@/app/utils/modelIdUtils';
 import { IDEAL_MODEL_ID } from '@/app/utils/calculationUtils';
+import { getDTEFPromptDistributions } from '@/app/utils/dtefPromptUtils';
 
 import ModelResponseCard from './ModelResponseCard';
 import PromptResponsesConsistency from './PromptResponsesConsistency';
 import ModelResponseCardGrid from './ModelResponseCardGrid';
+import { DTEFPromptView } from './DTEFPromptView';
 
 export const SinglePromptView: React.FC = () => {
     const {
@@ -17,10 +19,20 @@ export const SinglePromptView: React.FC = () => {
         canonicalModels,
     } = useAnalysis();
 
+    // DTEF prompts are scored on a parsed distribution, so show that instead of the raw text
+    const dtefDistributions = useMemo(
+        () => (data && currentPromptId ? getDTEFPromptDistributions(data, currentPromptId) : null),
+        [data, currentPromptId],
+    );
+
     if (!data || !currentPromptId) {
         return null;
     }
 
+    if (dtefDistributions) {
+        return <DTEFPromptView distributions={dtefDistributions} />;
+    }
+
     return (
         <div className="space-y-8">
             <ModelResponseCardGrid>
@@ -0,0 +1,56 @@
+/**
+ * Demographics Heatmap API Endpoint
+ *
+ * Serves the per-survey segment × question score matrices built alongside
+ * the DTEF summaries, for the heatmap explorer on the demographics page.
+ */
+
+import { NextResponse } from 'next/server';
+import { getJsonFile } from '@/lib/storageService';
+import type { DTEFHeatmap, DTEFHeatmapIndex } from '@/cli/utils/dtefSummaryUtils';
+
+export const dynamic = 'force-dynamic';
+
+const HEATMAP_INDEX_KEY = 'live/aggregates/dtef_heatmap_index.json';
+
+/**
+ * GET /api/demographics/heatmap
+ *
+ * Query params:
+ *   - surveyId: return that survey's heatmap
+ *   - (none): return the index of surveys with a heatmap
+ */
+export async function GET(request: Request) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const surveyId = searchParams.get('surveyId');
+
+        if (!surveyId) {
+            const index = await getJsonFile<DTEFHeatmapIndex>(HEATMAP_INDEX_KEY);
+            return NextResponse.json(index ?? { generatedAt: null, surveys: [] });
+        }
+
+        if (!/^[\w.-]+$/.test(surveyId)) {
+            return NextResponse.json(
+                { error: `Invalid survey ID "${surveyId}"` },
+                { status: 400 }
+            );
+        }
+
+        const heatmap = await getJsonFile<DTEFHeatmap>(`live/aggregates/dtef_heatmap_${surveyId}.json`);
+        if (heatmap) {
+            return NextResponse.json(heatmap);
+        }
+
+        return NextResponse.json(
+            { error: `No heatmap for survey "${surveyId}". Run \`pnpm cli dtef-rebuild\` to build it.` },
+            { status: 404 }
+        );
+    } catch (error) {
+        console.error('[API/demographics/heatmap] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
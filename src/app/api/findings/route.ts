@@ -0,0 +1,65 @@
+/**
+ * Findings API Endpoint
+ *
+ * Serves the statistical findings artifact published by `dtef findings`
+ * for the Findings page, along with the history of past snapshots.
+ */
+
+import { NextResponse } from 'next/server';
+import { getJsonFile, FINDINGS_KEY, FINDINGS_HISTORY_KEY, getFindingsSnapshotKey } from '@/lib/storageService';
+import type { DTEFFindings, DTEFFindingsHistory } from '@/types/findings';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/findings
+ *
+ * Query params:
+ *   - version: return a specific past snapshot
+ *   - history: when "true", return the snapshot history index
+ *   - (none): return the latest findings
+ */
+export async function GET(request: Request) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const version = searchParams.get('version');
+
+        if (searchParams.get('history') === 'true') {
+            const history = await getJsonFile<DTEFFindingsHistory>(FINDINGS_HISTORY_KEY);
+            return NextResponse.json(history ?? { snapshots: [], lastUpdated: null });
+        }
+
+        if (version) {
+            if (!/^\d+$/.test(version)) {
+                return NextResponse.json(
+                    { error: `Invalid findings version "${version}"` },
+                    { status: 400 }
+                );
+            }
+            const snapshot = await getJsonFile<DTEFFindings>(getFindingsSnapshotKey(Number(version)));
+            if (snapshot) {
+                return NextResponse.json(snapshot);
+            }
+            return NextResponse.json(
+                { error: `Findings version ${version} not found` },
+                { status: 404 }
+            );
+        }
+
+        const findings = await getJsonFile<DTEFFindings>(FINDINGS_KEY);
+        if (findings) {
+            return NextResponse.json(findings);
+        }
+
+        return NextResponse.json(
+            { error: 'No findings have been published yet. Run `pnpm cli dtef findings` to generate them.' },
+            { status: 404 }
+        );
+    } catch (error) {
+        console.error('[API/findings] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -84,7 +84,9 @@ async function runPipeline(requestPayload: any) {
 
   // Embedding eval disabled — contributes 0% to hybrid score, adds log noise + API calls.
   // To re-enable: ['embedding', 'llm-coverage']
-  const evalMethods: EvaluationMethod[] = ['llm-coverage'];
+  // Open-ended prompts (with referenceResponses) are scored by the embedding evaluator, so keep it for those.
+  const hasOpenEndedPrompts = config.prompts.some(p => (p.referenceResponses?.length ?? 0) > 0);
+  const evalMethods: EvaluationMethod[] = hasOpenEndedPrompts ? ['embedding', 'llm-coverage'] : ['llm-coverage'];
   const useCache = true;
 
   // Per-call timeout: defaults to 30s (HTTP client default) if not set.
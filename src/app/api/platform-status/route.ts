@@ -2,8 +2,9 @@ import { NextResponse } from 'next/server';
 import axios from 'axios';
 import { ListObjectsV2Command } from '@aws-sdk/client-s3';
 import { BLUEPRINT_CONFIG_REPO_SLUG } from '@/lib/configConstants';
-import { getS3Client, getBucketName, getAllBlueprintsSummary, getHomepageSummary, getLatestRunsSummary, LatestRunSummaryItem } from '@/lib/storageService';
+import { getS3Client, getBucketName, getAllBlueprintsSummary, getHomepageSummary, getLatestRunsSummary, LatestRunSummaryItem, FINDINGS_KEY, FINDINGS_HISTORY_KEY } from '@/lib/storageService';
 import { fromSafeTimestamp } from '@/lib/timestampUtils';
+import { estimateModelCost } from '@/lib/model-cost';
 import { generateBlueprintIdFromPath } from '@/app/utils/blueprintIdUtils';
 import { getQueueStatus } from '@/lib/evaluation-queue';
 import type { PlatformStatusResponse, BlueprintStatusItem, SummaryFileItem, ProgressStats, QueueStatus, TimingInsights, TimingRunPoint, ModelSpeedEntry, UsageInsights, DailyUsagePoint, UsageModelTotal } from '@/app/components/platform-status/types';
@@ -41,6 +42,16 @@ const KNOWN_SUMMARY_FILES: Record<string, CoreFileInfo> = {
     description: 'Aggregated demographic evaluation results showing model accuracy across demographic segments.',
     pageLinks: [{ label: 'Demographics', href: '/demographics' }],
   },
+  [FINDINGS_KEY]: {
+    name: 'DTEF Findings',
+    description: 'Latest statistical validity findings (baselines, pairwise significance, noise floors, context responsiveness) from `dtef findings`.',
+    pageLinks: [{ label: 'Findings', href: '/findings' }],
+  },
+  [FINDINGS_HISTORY_KEY]: {
+    name: 'DTEF Findings History',
+    description: 'Index of every published findings snapshot, newest first.',
+    pageLinks: [{ label: 'Findings', href: '/findings' }],
+  },
   'live/aggregates/search-index.json': {
     name: 'Search Index',
     description: 'Full-text search index for blueprint configs and metadata, powered by Fuse.js.',
@@ -246,35 +257,6 @@ function computeTimingInsights(runs: LatestRunSummaryItem[]): TimingInsights | n
   };
 }
 
-// Rough per-1M-input-token pricing for cost estimation when API doesn't report cost
-const ESTIMATED_COST_PER_1M_INPUT: Record<string, number> = {
-  'gpt-4o-mini': 0.15, 'gpt-4.1-mini': 0.40, 'gpt-4.1-nano': 0.10,
-  'gpt-4.1': 2.00, 'gpt-4o': 2.50, 'gpt-4-turbo': 10.00,
-  'claude-3-5-haiku': 0.80, 'claude-3-5-sonnet': 3.00, 'claude-3-haiku': 0.25,
-  'claude-3-sonnet': 3.00, 'claude-3-opus': 15.00,
-  'gemini-2.0-flash': 0.10, 'gemini-2.5-flash': 0.15, 'gemini-1.5-flash': 0.075,
-  'gemini-1.5-pro': 1.25, 'gemini-2.5-pro': 1.25,
-  'gemma-3': 0.10, 'llama-3': 0.20, 'mistral': 0.25,
-  'deepseek-chat': 0.14, 'deepseek-r1': 0.55,
-};
-const DEFAULT_COST_PER_1M_INPUT = 1.00;
-const OUTPUT_TO_INPUT_COST_RATIO = 3; // output tokens typically ~3x input cost
-
-function estimateModelCost(modelId: string, inputTokens: number, outputTokens: number): number {
-  // Find best matching key (model IDs often have prefixes like "openrouter:")
-  const cleanId = modelId.replace(/^openrouter:/, '').replace(/^[^/]+\//, '');
-  let rate = DEFAULT_COST_PER_1M_INPUT;
-  for (const [key, val] of Object.entries(ESTIMATED_COST_PER_1M_INPUT)) {
-    if (cleanId.includes(key) || key.includes(cleanId)) {
-      rate = val;
-      break;
-    }
-  }
-  const inputCost = (inputTokens / 1_000_000) * rate;
-  const outputCost = (outputTokens / 1_000_000) * rate * OUTPUT_TO_INPUT_COST_RATIO;
-  return inputCost + outputCost;
-}
-
 function computeUsageInsights(runs: LatestRunSummaryItem[]): UsageInsights | null {
   const usageRuns = runs.filter(r => (r as any).usageSummary);
   if (usageRuns.length === 0) return null;
@@ -7,7 +7,10 @@ import {
     getSegmentPrefix as sharedGetSegmentPrefix,
     getSegmentValueLabel as sharedGetSegmentValueLabel,
     getCategoryLabel,
+    getIntersectionLevel,
+    isKnownCategory,
 } from '@/lib/segmentUtils';
+import SegmentQuestionHeatmap from './SegmentQuestionHeatmap';
 
 // --- Types ---
 
@@ -27,7 +30,10 @@ interface SegmentScore {
     modelId: string;
     avgCoverageExtent: number;
     promptCount: number;
+    metricScores?: Record<string, number>;
     runs?: RunScore[];
+    normalizedScore?: number;
+    reliable?: boolean;
 }
 
 interface ModelResult {
@@ -36,11 +42,42 @@ interface ModelResult {
     segmentCount: number;
     totalPrompts: number;
     segmentStdDev: number;
+    variantStdDev?: number;
+    paraphraseStdDev?: number;
+    optionOrderStdDev?: number;
+    variantPromptCount?: number;
     segmentScores: SegmentScore[];
     bestSegment?: { id: string; label: string; score: number };
     worstSegment?: { id: string; label: string; score: number };
+    metricScores?: Record<string, number>;
+    normalizedScore?: number;
 }
 
+interface DisparityEntry {
+    modelId: string;
+    category?: string;
+    categoryLabel?: string;
+    segmentCount?: number;
+    absoluteGap: number;
+    bestSegment: { id: string; label: string; score: number };
+    worstSegment: { id: string; label: string; score: number };
+    normalized?: {
+        absoluteGap: number;
+        bestSegment: { id: string; label: string; score: number };
+        worstSegment: { id: string; label: string; score: number };
+    };
+}
+
+interface ModelDPDEntry {
+    modelId: string;
+    overallDPD: number;
+    dimensionDPD: Array<{ dimension: string; dimensionLabel: string; dpd: number; normalizedDpd?: number }>;
+    normalizedOverallDPD?: number;
+}
+
+/** Raw JSD similarity, or rescaled between the population marginal (0) and the sampling-noise ceiling (1) */
+type ScoreView = 'raw' | 'normalized';
+
 interface ContextResponsivenessModel {
     modelId: string;
     displayName: string;
@@ -72,9 +109,17 @@ interface FullModelResponsiveness {
     segmentResponsiveness: FullSegmentResponsiveness[];
 }
 
+interface ContextStrategyCurve {
+    modelId: string;
+    strategy: string;
+    points: Array<{ contextCount: number; score: number; segmentCount: number }>;
+    slope: number;
+}
+
 interface FullContextAnalysis {
     models: FullModelResponsiveness[];
     contextLevelsFound: number[];
+    strategyCurves?: ContextStrategyCurve[];
 }
 
 interface BaselineScores {
@@ -82,6 +127,90 @@ interface BaselineScores {
     populationMarginal?: number;
     /** Uniform baseline: predicts equal probability for all options */
     uniform?: number;
+    /** MRP baseline: attribute model fitted to other segments' individual answers */
+    mrp?: number;
+}
+
+interface ReliabilityBin {
+    lower: number;
+    upper: number;
+    count: number;
+    meanConfidence: number;
+    accuracy: number;
+}
+
+interface ModelCalibration {
+    modelId: string;
+    forecastCount: number;
+    brierScore: number;
+    logLoss: number;
+    expectedCalibrationError: number;
+    accuracy: number;
+    meanConfidence: number;
+    reliability: ReliabilityBin[];
+}
+
+interface OrdinalErrorProfile {
+    optionCount: number;
+    meanSignedError: number[];
+    pairCount: number;
+}
+
+interface ModelBiasDirection {
+    modelId: string;
+    pairCount: number;
+    majorityOptionError: number | null;
+    extremityError: number | null;
+    ordinalProfiles: OrdinalErrorProfile[];
+    predictedEntropy: number;
+    trueEntropy: number;
+    entropyGap: number;
+    shift?: {
+        avgDirectionalAccuracy: number;
+        avgMagnitudeRatio: number;
+        pairCount: number;
+    };
+    ownAnswerCorrelation: number | null;
+    ownAnswerPairCount: number;
+}
+
+interface ModelRoundGeneralisation {
+    modelId: string;
+    knowledgeCutoff: string;
+    cutoffSource: 'knowledge-cutoff' | 'release-date';
+    preCutoffScore?: number;
+    preCutoffRounds: string[];
+    preCutoffResultCount: number;
+    postCutoffScore?: number;
+    postCutoffRounds: string[];
+    postCutoffResultCount: number;
+    gap?: number;
+    contaminationFlag: boolean;
+}
+
+interface ConfidenceInterval {
+    mean: number;
+    ci95Low: number;
+    ci95High: number;
+}
+
+interface PairwiseComparison {
+    modelA: string;
+    modelB: string;
+    meanDiff: number;
+    pValue: number;
+    adjustedPValue: number;
+    significant: boolean;
+    sharedUnits: number;
+}
+
+interface SignificanceMatrix {
+    modelIds: string[];
+    comparisons: PairwiseComparison[];
+    confidenceIntervals: Record<string, ConfidenceInterval>;
+    tiers: Record<string, number>;
+    alpha: number;
+    iterations: number;
 }
 
 interface DemographicsData {
@@ -109,27 +238,24 @@ interface DemographicsData {
     contextResponsiveness?: ContextResponsivenessData;
     aggregation?: {
         modelResults?: ModelResult[];
-        disparities?: Array<{
-            modelId: string;
-            category?: string;
-            categoryLabel?: string;
-            segmentCount?: number;
-            absoluteGap: number;
-            bestSegment: { id: string; label: string; score: number };
-            worstSegment: { id: string; label: string; score: number };
-        }>;
+        disparities?: DisparityEntry[];
         contextAnalysis?: FullContextAnalysis;
-        modelDPDs?: Array<{
-            modelId: string;
-            overallDPD: number;
-            dimensionDPD: Array<{ dimension: string; dimensionLabel: string; dpd: number }>;
-        }>;
+        modelDPDs?: ModelDPDEntry[];
         stereotypeScores?: Array<{
             modelId: string;
             zeroContextScore: number;
             fullContextScore: number;
             improvementRatio: number;
         }>;
+        calibration?: ModelCalibration[];
+        biasDirection?: ModelBiasDirection[];
+        roundGeneralisation?: ModelRoundGeneralisation[];
+        significance?: {
+            overall: SignificanceMatrix;
+            byCategory?: Record<string, SignificanceMatrix>;
+            bySurvey?: Record<string, SignificanceMatrix>;
+        };
+        reliabilityThreshold?: number;
     };
 }
 
@@ -211,8 +337,14 @@ function SortIndicator({ active, direction }: { active: boolean; direction: Sort
 
 // --- Shared UI Components ---
 
-function ScoreBar({ score, maxScore = 1, baselines }: { score: number; maxScore?: number; baselines?: BaselineScores }) {
-    const pct = Math.min(100, (score / maxScore) * 100);
+function ScoreBar({ score, maxScore = 1, baselines, ci }: {
+    score: number;
+    maxScore?: number;
+    baselines?: BaselineScores;
+    /** Bootstrap 95% CI, drawn as a band over the bar */
+    ci?: ConfidenceInterval;
+}) {
+    const pct = Math.max(0, Math.min(100, (score / maxScore) * 100));
     const marginalScore = baselines?.populationMarginal;
     // Color relative to baselines when available: green only if above population marginal
     const color = marginalScore != null
@@ -237,8 +369,26 @@ function ScoreBar({ score, maxScore = 1, baselines }: { score: number; maxScore?
                         title={`Uniform baseline: ${(baselines.uniform * 100).toFixed(1)}%`}
                     />
                 )}
+                {baselines?.mrp != null && (
+                    <div
+                        className="absolute top-0 h-full w-0.5 bg-violet-500/70"
+                        style={{ left: `${Math.min(100, (baselines.mrp / maxScore) * 100)}%` }}
+                        title={`MRP baseline: ${(baselines.mrp * 100).toFixed(1)}%`}
+                    />
+                )}
+                {ci && (
+                    <div
+                        className="absolute top-0 h-full bg-foreground/25"
+                        style={{
+                            left: `${Math.min(100, (ci.ci95Low / maxScore) * 100)}%`,
+                            width: `${Math.max(0.5, Math.min(100, ((ci.ci95High - ci.ci95Low) / maxScore) * 100))}%`,
+                        }}
+                        title={`95% CI: ${(ci.ci95Low * 100).toFixed(1)}–${(ci.ci95High * 100).toFixed(1)}%`}
+                    />
+                )}
             </div>
-            <span className="text-xs text-muted-foreground w-12 text-right">
+            <span className="text-xs text-muted-foreground w-12 text-right"
+                title={ci ? `95% CI: ${(ci.ci95Low * 100).toFixed(1)}–${(ci.ci95High * 100).toFixed(1)}%` : undefined}>
                 {(score * 100).toFixed(1)}%
             </span>
         </div>
@@ -257,6 +407,18 @@ function RankBadge({ rank }: { rank: number }) {
     );
 }
 
+function TierBadge({ tier, tiedCount }: { tier: number; tiedCount: number }) {
+    const cls = tier === 1 ? 'bg-primary/15 text-primary' : 'bg-muted text-muted-foreground';
+    const title = tiedCount > 1
+        ? `Tier ${tier}: statistically tied with ${tiedCount - 1} other model${tiedCount > 2 ? 's' : ''}`
+        : `Tier ${tier}: significantly different from the models around it`;
+    return (
+        <span className={`inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium ${cls}`} title={title}>
+            T{tier}
+        </span>
+    );
+}
+
 function CategoryBadge({ label }: { label: string }) {
     const colorMap: Record<string, string> = {
         Age: 'bg-blue-500/10 text-blue-600 dark:text-blue-400',
@@ -304,13 +466,90 @@ function SegmentCategoryTabs({
             )}
             {segmentTypes.map(type => (
                 <button key={type} onClick={() => onSelect(type)} className={buttonClass(activeType === type)}>
-                    {SEGMENT_TYPE_LABELS[type] || type}
+                    {getCategoryLabel(type)}
                 </button>
             ))}
         </div>
     );
 }
 
+/** Display names for the metrics recorded by distribution_metric */
+const DISTRIBUTION_METRIC_LABELS: Record<string, string> = {
+    'js-divergence': 'JSD',
+    'cosine': 'Cosine',
+    'earth-mover': 'Earth mover',
+    'hellinger': 'Hellinger',
+    'total-variation': 'Total variation',
+    'kl-divergence': 'KL (smoothed)',
+    'wasserstein': 'Wasserstein',
+};
+
+/** Metric picker for re-ranking the leaderboard by a recorded distribution metric */
+function MetricSelector({
+    metrics,
+    active,
+    onSelect,
+}: {
+    metrics: string[];
+    active: string;
+    onSelect: (metric: string) => void;
+}) {
+    const buttonClass = (isActive: boolean) =>
+        `px-2 py-0.5 text-xs rounded-full border transition-colors ${
+            isActive
+                ? 'bg-foreground/10 text-foreground border-foreground/30'
+                : 'border-border text-muted-foreground hover:text-foreground'
+        }`;
+
+    return (
+        <div className="flex flex-wrap items-center justify-center gap-1.5 -mt-3 mb-6">
+            <span className="text-xs text-muted-foreground mr-1">Rank by:</span>
+            <button onClick={() => onSelect('default')} className={buttonClass(active === 'default')}>
+                Score
+            </button>
+            {metrics.map(metric => (
+                <button key={metric} onClick={() => onSelect(metric)} className={buttonClass(active === metric)}>
+                    {DISTRIBUTION_METRIC_LABELS[metric] || metric}
+                </button>
+            ))}
+        </div>
+    );
+}
+
+/** Switch between raw and noise-ceiling-normalized scores */
+function ScoreViewToggle({ view, onChange }: { view: ScoreView; onChange: (view: ScoreView) => void }) {
+    const buttonClass = (isActive: boolean) =>
+        `px-2 py-0.5 text-xs rounded-full border transition-colors ${
+            isActive
+                ? 'bg-foreground/10 text-foreground border-foreground/30'
+                : 'border-border text-muted-foreground hover:text-foreground'
+        }`;
+
+    return (
+        <div className="flex items-center justify-center gap-1.5 -mt-3 mb-6">
+            <span className="text-xs text-muted-foreground mr-1">Scores:</span>
+            <button onClick={() => onChange('raw')} className={buttonClass(view === 'raw')}
+                title="JSD similarity to the segment's real answers">
+                Raw
+            </button>
+            <button onClick={() => onChange('normalized')} className={buttonClass(view === 'normalized')}
+                title="0% = population marginal, 100% = best achievable given the segment's sample size">
+                Normalized
+            </button>
+        </div>
+    );
+}
+
+const UNRELIABLE_SEGMENT_TITLE = 'Low reliability: the sample is too small for this segment\'s scores to be trusted';
+
+/** Text color for a segment score: raw scores on absolute thresholds, normalized scores around the marginal */
+function segmentScoreColor(score: number, view: ScoreView): string {
+    const [good, fair] = view === 'normalized' ? [0.5, 0] : [0.8, 0.6];
+    return score >= good ? 'text-green-600 dark:text-green-400'
+        : score >= fair ? 'text-yellow-600 dark:text-yellow-400'
+        : 'text-red-600 dark:text-red-400';
+}
+
 /** Reusable show all / show top N toggle */
 function ShowAllToggle({
     totalCount,
@@ -470,21 +709,29 @@ function RunScoreDrillDown({ runs }: { runs?: RunScore[] }) {
 // --- Leaderboard Sub-components ---
 
 /** Expandable segment breakdown for a single model */
-function ModelSegmentBreakdown({ model, filterCategory }: { model: ModelResult; filterCategory?: string }) {
+function ModelSegmentBreakdown({ model, filterCategory, scoreView = 'raw' }: {
+    model: ModelResult;
+    filterCategory?: string;
+    scoreView?: ScoreView;
+}) {
+    const valueOf = useCallback((seg: SegmentScore) =>
+        scoreView === 'normalized' ? seg.normalizedScore : seg.avgCoverageExtent,
+    [scoreView]);
     const grouped = useMemo(() => {
         const groups = new Map<string, SegmentScore[]>();
         for (const seg of model.segmentScores || []) {
             const prefix = getSegmentPrefix(seg.segmentId);
             if (!SEGMENT_TYPE_LABELS[prefix]) continue;
             if (filterCategory && prefix !== filterCategory) continue;
+            if (valueOf(seg) == null) continue;
             if (!groups.has(prefix)) groups.set(prefix, []);
             groups.get(prefix)!.push(seg);
         }
         for (const scores of groups.values()) {
-            scores.sort((a, b) => b.avgCoverageExtent - a.avgCoverageExtent);
+            scores.sort((a, b) => valueOf(b)! - valueOf(a)!);
         }
         return groups;
-    }, [model.segmentScores, filterCategory]);
+    }, [model.segmentScores, filterCategory, valueOf]);
 
     if (grouped.size === 0) {
         return <p className="text-sm text-muted-foreground italic px-4 py-2">No segment data available</p>;
@@ -499,14 +746,12 @@ function ModelSegmentBreakdown({ model, filterCategory }: { model: ModelResult;
                     </h5>
                     <ul className="space-y-1">
                         {scores.map(seg => (
-                            <li key={seg.segmentId} className="flex justify-between items-center text-sm">
+                            <li key={seg.segmentId}
+                                className={`flex justify-between items-center text-sm ${seg.reliable === false ? 'opacity-40' : ''}`}
+                                title={seg.reliable === false ? UNRELIABLE_SEGMENT_TITLE : undefined}>
                                 <span className="truncate mr-2">{getSegmentValueLabel(seg.segmentLabel)}</span>
-                                <span className={`font-mono text-xs flex-shrink-0 ${
-                                    seg.avgCoverageExtent >= 0.8 ? 'text-green-600 dark:text-green-400'
-                                    : seg.avgCoverageExtent >= 0.6 ? 'text-yellow-600 dark:text-yellow-400'
-                                    : 'text-red-600 dark:text-red-400'
-                                }`}>
-                                    {(seg.avgCoverageExtent * 100).toFixed(1)}%
+                                <span className={`font-mono text-xs flex-shrink-0 ${segmentScoreColor(valueOf(seg)!, scoreView)}`}>
+                                    {(valueOf(seg)! * 100).toFixed(1)}%
                                 </span>
                             </li>
                         ))}
@@ -847,6 +1092,67 @@ interface ContextRow {
     allModels: Array<{ modelId: string; slope: number }>;
 }
 
+const CONTEXT_STRATEGY_LABELS: Record<string, string> = {
+    order: 'List order',
+    embedding: 'Embedding similarity',
+    correlation: 'Answer correlation',
+    random: 'Random',
+};
+
+/**
+ * Slope and best score per model under each context selection strategy,
+ * so ranked context can be compared with the first-N default.
+ */
+function ContextStrategyTable({ curves }: { curves: ContextStrategyCurve[] }) {
+    const strategies = Array.from(new Set(curves.map(c => c.strategy))).sort();
+    const modelIds = Array.from(new Set(curves.map(c => c.modelId)));
+    const curveFor = (modelId: string, strategy: string) =>
+        curves.find(c => c.modelId === modelId && c.strategy === strategy);
+
+    return (
+        <div className="mt-6">
+            <h4 className="text-sm font-semibold mb-2">By Context Selection Strategy</h4>
+            <div className="bg-card border border-border/50 rounded-lg overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="border-b border-border/50 bg-muted/30">
+                            <th className="px-4 py-2 text-left font-medium text-muted-foreground">Model</th>
+                            {strategies.map(strategy => (
+                                <th key={strategy} className="px-4 py-2 text-right font-medium text-muted-foreground">
+                                    {CONTEXT_STRATEGY_LABELS[strategy] || strategy}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {modelIds.map(modelId => (
+                            <tr key={modelId} className="border-b border-border/30 last:border-0">
+                                <td className="px-4 py-2 font-medium text-foreground truncate max-w-[220px]">{formatModelName(modelId)}</td>
+                                {strategies.map(strategy => {
+                                    const curve = curveFor(modelId, strategy);
+                                    if (!curve) return <td key={strategy} className="px-4 py-2 text-right text-muted-foreground">—</td>;
+                                    const best = curve.points.reduce((a, b) => (b.score > a.score ? b : a));
+                                    return (
+                                        <td key={strategy} className="px-4 py-2 text-right tabular-nums"
+                                            title={curve.points.map(p => `c${p.contextCount}: ${(p.score * 100).toFixed(1)}%`).join(', ')}>
+                                            <span className={curve.slope >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}>
+                                                {curve.slope >= 0 ? '+' : ''}{(curve.slope * 100).toFixed(2)}pp/q
+                                            </span>
+                                            <span className="text-xs text-muted-foreground ml-2">
+                                                best {(best.score * 100).toFixed(1)}% @ c{best.contextCount}
+                                            </span>
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
+
 function ContextResponsivenessSection({
     data,
     contextAnalysis,
@@ -1098,6 +1404,10 @@ function ContextResponsivenessSection({
                 </>
             )}
 
+            {contextAnalysis?.strategyCurves && contextAnalysis.strategyCurves.length > 0 && (
+                <ContextStrategyTable curves={contextAnalysis.strategyCurves} />
+            )}
+
             <p className="text-xs text-muted-foreground mt-3 text-center">
                 Slope = linear regression of accuracy vs. context count. Positive = improves with more context.
                 {hasSegmentData && ' Click a row to see all model rankings.'}
@@ -1109,8 +1419,8 @@ function ContextResponsivenessSection({
 // --- Fairness Analysis ---
 
 function GapBar({ worst, best }: { worst: number; best: number }) {
-    const worstPct = Math.min(100, worst * 100);
-    const gapPct = Math.min(100 - worstPct, (best - worst) * 100);
+    const worstPct = Math.max(0, Math.min(100, worst * 100));
+    const gapPct = Math.max(0, Math.min(100 - worstPct, (best - worst) * 100));
     return (
         <div className="flex items-center gap-2 w-full">
             <div className="flex-1 bg-muted rounded-full h-2.5 overflow-hidden flex">
@@ -1124,8 +1434,8 @@ function GapBar({ worst, best }: { worst: number; best: number }) {
     );
 }
 
-function FairnessDrillDown({ modelResult, categoryPrefix, runsLookup }: {
-    modelResult: ModelResult; categoryPrefix: string; runsLookup: Map<string, RunScore[]>;
+function FairnessDrillDown({ modelResult, categoryPrefix, runsLookup, scoreView = 'raw' }: {
+    modelResult: ModelResult; categoryPrefix: string; runsLookup: Map<string, RunScore[]>; scoreView?: ScoreView;
 }) {
     const [expandedSegment, setExpandedSegment] = useState<string | null>(null);
 
@@ -1135,9 +1445,11 @@ function FairnessDrillDown({ modelResult, categoryPrefix, runsLookup }: {
             .map(s => ({
                 ...s,
                 runs: s.runs || runsLookup.get(`${modelResult.modelId}::${s.segmentId}`),
+                displayScore: scoreView === 'normalized' ? s.normalizedScore : s.avgCoverageExtent,
             }))
-            .sort((a, b) => b.avgCoverageExtent - a.avgCoverageExtent);
-    }, [modelResult, categoryPrefix, runsLookup]);
+            .filter((s): s is typeof s & { displayScore: number } => s.displayScore != null)
+            .sort((a, b) => b.displayScore - a.displayScore);
+    }, [modelResult, categoryPrefix, runsLookup, scoreView]);
 
     if (segments.length === 0) return null;
 
@@ -1153,7 +1465,8 @@ function FairnessDrillDown({ modelResult, categoryPrefix, runsLookup }: {
                     return (
                         <li key={seg.segmentId}>
                             <div
-                                className={`flex items-center gap-3 text-sm py-0.5 ${hasRuns ? 'cursor-pointer hover:opacity-80' : ''}`}
+                                className={`flex items-center gap-3 text-sm py-0.5 ${hasRuns ? 'cursor-pointer hover:opacity-80' : ''} ${seg.reliable === false ? 'opacity-40' : ''}`}
+                                title={seg.reliable === false ? UNRELIABLE_SEGMENT_TITLE : undefined}
                                 onClick={() => hasRuns && setExpandedSegment(isExpanded ? null : seg.segmentId)}
                             >
                                 <span className="w-28 truncate text-foreground">
@@ -1162,7 +1475,7 @@ function FairnessDrillDown({ modelResult, categoryPrefix, runsLookup }: {
                                         <span className={`text-muted-foreground text-xs ml-1 inline-block transition-transform ${isExpanded ? 'rotate-180' : ''}`}>▾</span>
                                     )}
                                 </span>
-                                <div className="flex-1"><ScoreBar score={seg.avgCoverageExtent} /></div>
+                                <div className="flex-1"><ScoreBar score={seg.displayScore} /></div>
                             </div>
                             {isExpanded && (
                                 <div className="ml-6 pl-4 border-l-2 border-border/30 mb-1">
@@ -1183,18 +1496,15 @@ function FairnessAnalysisTable({
     disparities,
     modelResults,
     runsLookup,
+    scoreView,
+    onScoreViewChange,
 }: {
-    disparities: Array<{
-        modelId: string;
-        category?: string;
-        categoryLabel?: string;
-        segmentCount?: number;
-        absoluteGap: number;
-        bestSegment: { id: string; label: string; score: number };
-        worstSegment: { id: string; label: string; score: number };
-    }>;
+    disparities: DisparityEntry[];
     modelResults: ModelResult[];
     runsLookup: Map<string, RunScore[]>;
+    scoreView: ScoreView;
+    /** Present when normalized scores are available */
+    onScoreViewChange?: (view: ScoreView) => void;
 }) {
     const modelResultMap = useMemo(() => new Map(modelResults.map(m => [m.modelId, m])), [modelResults]);
     const [sort, toggleSort] = useSort<FairnessSortKey>('gap');
@@ -1202,23 +1512,28 @@ function FairnessAnalysisTable({
     const [showAll, setShowAll] = useState(false);
     const [activeCategory, setActiveCategory] = useState('all');
 
-    const rows = useMemo(() => disparities.map(d => {
-        const cat = d.category || getSegmentPrefix(d.bestSegment.id);
-        return {
-            ...d,
-            category: cat,
-            categoryLabel: d.categoryLabel || getCategoryLabel(cat),
-            rowKey: `${d.modelId}::${cat}`,
-        };
-    }), [disparities]);
+    const rows = useMemo(() => disparities
+        .filter(d => scoreView === 'raw' || d.normalized)
+        .map(d => {
+            const cat = d.category || getSegmentPrefix(d.bestSegment.id);
+            return {
+                ...d,
+                ...(scoreView === 'normalized' ? d.normalized : {}),
+                category: cat,
+                categoryLabel: d.categoryLabel || getCategoryLabel(cat),
+                rowKey: `${d.modelId}::${cat}`,
+            };
+        }), [disparities, scoreView]);
 
-    // Get unique categories from the disparities
+    // Get unique categories from the disparities (single-attribute first, then crossed)
     const segmentTypes = useMemo(() => {
         const types = new Set<string>();
         for (const row of rows) {
-            if (SEGMENT_TYPE_LABELS[row.category]) types.add(row.category);
+            if (isKnownCategory(row.category)) types.add(row.category);
         }
-        return Array.from(types).sort();
+        return Array.from(types).sort((a, b) =>
+            getIntersectionLevel(a) - getIntersectionLevel(b) || a.localeCompare(b),
+        );
     }, [rows]);
 
     // Filter by active category
@@ -1262,6 +1577,8 @@ function FairnessAnalysisTable({
                 />
             )}
 
+            {onScoreViewChange && <ScoreViewToggle view={scoreView} onChange={onScoreViewChange} />}
+
             <div className="bg-card border border-border/50 rounded-lg overflow-hidden">
                 <table className="w-full">
                     <thead>
@@ -1316,7 +1633,7 @@ function FairnessAnalysisTable({
                                     {isExpanded && fullModel && (
                                         <tr>
                                             <td colSpan={colSpan} className="p-0 border-b border-border/30 bg-muted/10">
-                                                <FairnessDrillDown modelResult={fullModel} categoryPrefix={d.category} runsLookup={runsLookup} />
+                                                <FairnessDrillDown modelResult={fullModel} categoryPrefix={d.category} runsLookup={runsLookup} scoreView={scoreView} />
                                             </td>
                                         </tr>
                                     )}
@@ -1334,6 +1651,7 @@ function FairnessAnalysisTable({
             <ShowAllToggle totalCount={sortedRows.length} isShowingAll={showAll} onToggle={() => setShowAll(!showAll)} />
             <p className="text-xs text-muted-foreground mt-3 text-center">
                 Gap = best segment score minus worst segment score within a demographic category. Click a row to see all segment scores.
+                {scoreView === 'normalized' && ' Normalized gaps compare reliable segments only, so small-sample noise does not masquerade as unfairness.'}
             </p>
         </section>
     );
@@ -1356,18 +1674,27 @@ function DPDBar({ dpd }: { dpd: number }) {
     );
 }
 
-function DPDSummaryCard({ modelDPDs }: {
-    modelDPDs: Array<{
-        modelId: string;
-        overallDPD: number;
-        dimensionDPD: Array<{ dimension: string; dimensionLabel: string; dpd: number }>;
-    }>;
+function DPDSummaryCard({ modelDPDs, scoreView, onScoreViewChange }: {
+    modelDPDs: ModelDPDEntry[];
+    scoreView: ScoreView;
+    /** Present when normalized scores are available */
+    onScoreViewChange?: (view: ScoreView) => void;
 }) {
     const [expandedModel, setExpandedModel] = useState<string | null>(null);
 
     if (!modelDPDs || modelDPDs.length === 0) return null;
 
-    const sorted = [...modelDPDs].sort((a, b) => a.overallDPD - b.overallDPD);
+    const normalized = scoreView === 'normalized';
+    const sorted = modelDPDs
+        .filter(m => !normalized || m.normalizedOverallDPD != null)
+        .map(m => ({
+            ...m,
+            overallDPD: normalized ? m.normalizedOverallDPD! : m.overallDPD,
+            dimensionDPD: m.dimensionDPD
+                .filter(d => !normalized || d.normalizedDpd != null)
+                .map(d => ({ ...d, dpd: normalized ? d.normalizedDpd! : d.dpd })),
+        }))
+        .sort((a, b) => a.overallDPD - b.overallDPD);
 
     return (
         <section>
@@ -1377,6 +1704,7 @@ function DPDSummaryCard({ modelDPDs }: {
                     Overall fairness gap per model (lower is fairer)
                 </p>
             </div>
+            {onScoreViewChange && <ScoreViewToggle view={scoreView} onChange={onScoreViewChange} />}
             <div className="bg-card border border-border/50 rounded-lg overflow-hidden">
                 <table className="w-full">
                     <thead>
@@ -1436,6 +1764,7 @@ function DPDSummaryCard({ modelDPDs }: {
             <p className="text-xs text-muted-foreground mt-3 text-center">
                 DPD = max accuracy gap between best and worst segments. Green (&lt;5%), Yellow (5-15%), Red (&gt;15%).
                 Click a row to see per-dimension breakdown.
+                {normalized && ' Normalized DPD compares reliable segments only.'}
             </p>
         </section>
     );
@@ -1516,6 +1845,272 @@ function StereotypeScoreCard({ stereotypeScores }: {
     );
 }
 
+// --- Bias Direction Section ---
+
+function formatSignedPP(value: number | null): string {
+    if (value === null) return '—';
+    return `${value >= 0 ? '+' : ''}${value.toFixed(1)}pp`;
+}
+
+/** Signed error at each scale position: bars above the axis are over-predicted, below under-predicted */
+function OrdinalErrorChart({ profile }: { profile: OrdinalErrorProfile }) {
+    const W = 260, H = 140;
+    const pad = { top: 10, right: 8, bottom: 24, left: 36 };
+    const pW = W - pad.left - pad.right;
+    const pH = H - pad.top - pad.bottom;
+    const extent = Math.max(2, ...profile.meanSignedError.map(Math.abs));
+    const y = (v: number) => pad.top + pH / 2 - (v / extent) * (pH / 2);
+    const slot = pW / profile.optionCount;
+
+    return (
+        <svg width={W} height={H} viewBox={`0 0 ${W} ${H}`} className="block mx-auto">
+            <line x1={pad.left} y1={y(0)} x2={pad.left + pW} y2={y(0)} stroke="currentColor" opacity={0.25} />
+            {profile.meanSignedError.map((e, i) => (
+                <rect key={i}
+                    x={pad.left + i * slot + slot * 0.2} width={slot * 0.6}
+                    y={Math.min(y(0), y(e))} height={Math.abs(y(e) - y(0))}
+                    fill={e >= 0 ? '#ef4444' : '#3b82f6'} opacity={0.75}>
+                    <title>{`Position ${i + 1}: ${formatSignedPP(e)}`}</title>
+                </rect>
+            ))}
+            {profile.meanSignedError.map((_, i) => (
+                <text key={`x-${i}`} x={pad.left + (i + 0.5) * slot} y={H - 8} textAnchor="middle" fontSize={9} fill="#94a3b8">{i + 1}</text>
+            ))}
+            {[extent, 0, -extent].map(v => (
+                <text key={v} x={pad.left - 4} y={y(v) + 3} textAnchor="end" fontSize={9} fill="#94a3b8">
+                    {v > 0 ? '+' : ''}{v.toFixed(0)}
+                </text>
+            ))}
+        </svg>
+    );
+}
+
+function BiasDirectionSection({ biasDirection }: { biasDirection: ModelBiasDirection[] }) {
+    const models = useMemo(() => biasDirection.filter(b => !b.modelId.startsWith('baseline:')), [biasDirection]);
+    const [selectedModel, setSelectedModel] = useState<string | null>(null);
+    if (models.length === 0) return null;
+
+    const selected = models.find(m => m.modelId === selectedModel) || models[0];
+    const signedClass = (v: number | null, threshold: number) => v === null || Math.abs(v) < threshold
+        ? 'text-muted-foreground'
+        : v > 0 ? 'text-red-600 dark:text-red-400' : 'text-blue-600 dark:text-blue-400';
+
+    return (
+        <section>
+            <div className="text-center mb-6">
+                <h3 className="text-xl font-semibold tracking-tight">Bias Direction</h3>
+                <p className="text-muted-foreground text-sm mt-1">
+                    Which way are predictions wrong: toward the majority, toward the extremes, or toward the model&apos;s own answer?
+                </p>
+            </div>
+            <div className="grid md:grid-cols-[1fr_auto] gap-6 items-start">
+                <div className="bg-card border border-border/50 rounded-lg overflow-x-auto">
+                    <table className="w-full">
+                        <thead>
+                            <tr className="border-b border-border/50 bg-muted/30">
+                                <th className="px-4 py-3 text-xs font-medium uppercase tracking-wider text-left text-muted-foreground">Model</th>
+                                <th className="px-4 py-3 text-xs font-medium uppercase tracking-wider text-right text-muted-foreground"
+                                    title="Mean predicted − actual share of the population's most common answer. Positive = pushes segments toward the majority">Majority</th>
+                                <th className="px-4 py-3 text-xs font-medium uppercase tracking-wider text-right text-muted-foreground"
+                                    title="Mean predicted − actual share of the two ends of ordinal scales. Positive = pushes toward extremes">Extremes</th>
+                                <th className="px-4 py-3 text-xs font-medium uppercase tracking-wider text-right text-muted-foreground"
+                                    title="Mean normalized entropy of predictions minus that of the survey distributions. Negative = over-confident, positive = under-confident">Entropy Gap</th>
+                                <th className="px-4 py-3 text-xs font-medium uppercase tracking-wider text-right text-muted-foreground"
+                                    title="How far the model moves away from the population marginal relative to how far the segment really does (1 = right amount, below 1 = shrinks toward the population)">Shift Ratio</th>
+                                <th className="px-4 py-3 text-xs font-medium uppercase tracking-wider text-right text-muted-foreground"
+                                    title="Correlation between each option's error and the model's own zero-context answer's deviation from the truth. Positive = errors lean toward the model's own answer">Own-Answer r</th>
+                                <th className="px-4 py-3 text-xs font-medium uppercase tracking-wider text-right text-muted-foreground">N</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {models.map(m => (
+                                <tr key={m.modelId}
+                                    onClick={() => setSelectedModel(m.modelId)}
+                                    className={`border-b border-border/30 last:border-0 cursor-pointer transition-colors ${
+                                        m.modelId === selected.modelId ? 'bg-muted/40' : 'hover:bg-muted/20'
+                                    }`}>
+                                    <td className="px-4 py-3 text-sm font-medium text-foreground truncate max-w-[250px]">
+                                        {formatModelName(m.modelId)}
+                                    </td>
+                                    <td className={`px-4 py-3 text-right text-sm font-mono ${signedClass(m.majorityOptionError, 2)}`}>
+                                        {formatSignedPP(m.majorityOptionError)}
+                                    </td>
+                                    <td className={`px-4 py-3 text-right text-sm font-mono ${signedClass(m.extremityError, 2)}`}>
+                                        {formatSignedPP(m.extremityError)}
+                                    </td>
+                                    <td className={`px-4 py-3 text-right text-sm font-mono ${signedClass(m.entropyGap, 0.03)}`}>
+                                        {m.entropyGap >= 0 ? '+' : ''}{m.entropyGap.toFixed(3)}
+                                    </td>
+                                    <td className="px-4 py-3 text-right text-sm text-muted-foreground font-mono">
+                                        {m.shift && m.shift.pairCount > 0 ? m.shift.avgMagnitudeRatio.toFixed(2) : '—'}
+                                    </td>
+                                    <td className="px-4 py-3 text-right text-sm text-muted-foreground font-mono"
+                                        title={`${m.ownAnswerPairCount} predictions with a zero-context answer from other segments`}>
+                                        {m.ownAnswerCorrelation !== null ? m.ownAnswerCorrelation.toFixed(2) : '—'}
+                                    </td>
+                                    <td className="px-4 py-3 text-right text-sm text-muted-foreground font-mono">
+                                        {m.pairCount}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                {selected.ordinalProfiles.length > 0 && (
+                    <div className="bg-card border border-border/50 rounded-lg p-4 space-y-3">
+                        <p className="text-sm font-medium text-foreground text-center truncate max-w-[260px]">
+                            {formatModelName(selected.modelId)}
+                        </p>
+                        {selected.ordinalProfiles.map(profile => (
+                            <div key={profile.optionCount}>
+                                <p className="text-xs text-muted-foreground text-center">
+                                    {profile.optionCount}-point scales ({profile.pairCount} predictions)
+                                </p>
+                                <OrdinalErrorChart profile={profile} />
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+            <p className="text-xs text-muted-foreground mt-3 text-center">
+                Errors are predicted minus actual percentage points, from each segment&apos;s highest-context prediction.
+                Red is over-predicted, blue under-predicted. Select a model to see its error at each position of ordinal scales.
+            </p>
+        </section>
+    );
+}
+
+// --- Calibration Section ---
+
+/** Reliability diagram: observed accuracy vs. stated confidence per bin, dot size by forecast count */
+function ReliabilityDiagram({ bins }: { bins: ReliabilityBin[] }) {
+    const W = 260, H = 220;
+    const pad = { top: 10, right: 12, bottom: 30, left: 40 };
+    const pW = W - pad.left - pad.right;
+    const pH = H - pad.top - pad.bottom;
+    const x = (v: number) => pad.left + v * pW;
+    const y = (v: number) => pad.top + pH - v * pH;
+    const maxCount = Math.max(1, ...bins.map(b => b.count));
+
+    return (
+        <svg width={W} height={H} viewBox={`0 0 ${W} ${H}`} className="block mx-auto">
+            {/* Axes */}
+            <line x1={x(0)} y1={y(0)} x2={x(0)} y2={y(1)} stroke="currentColor" opacity={0.15} />
+            <line x1={x(0)} y1={y(0)} x2={x(1)} y2={y(0)} stroke="currentColor" opacity={0.15} />
+            {/* Perfect calibration */}
+            <line x1={x(0)} y1={y(0)} x2={x(1)} y2={y(1)} stroke="#94a3b8" strokeWidth={1} strokeDasharray="4 2" />
+            {/* Gap bars from the diagonal to observed accuracy */}
+            {bins.map((b, i) => (
+                <line key={`gap-${i}`}
+                    x1={x(b.meanConfidence)} y1={y(b.meanConfidence)}
+                    x2={x(b.meanConfidence)} y2={y(b.accuracy)}
+                    stroke={b.accuracy < b.meanConfidence ? '#ef4444' : '#3b82f6'} strokeWidth={2} opacity={0.4} />
+            ))}
+            <polyline
+                points={bins.map(b => `${x(b.meanConfidence)},${y(b.accuracy)}`).join(' ')}
+                fill="none" stroke="#3b82f6" strokeWidth={1.5}
+            />
+            {bins.map((b, i) => (
+                <circle key={i} cx={x(b.meanConfidence)} cy={y(b.accuracy)} r={3 + 4 * Math.sqrt(b.count / maxCount)}
+                    fill="#3b82f6" stroke="white" strokeWidth={1.5}>
+                    <title>{`Confidence ${(b.lower * 100).toFixed(0)}–${(b.upper * 100).toFixed(0)}%: ${b.count} forecasts, mean confidence ${(b.meanConfidence * 100).toFixed(1)}%, accuracy ${(b.accuracy * 100).toFixed(1)}%`}</title>
+                </circle>
+            ))}
+            {/* Axis labels */}
+            {[0, 0.5, 1].map(v => (
+                <Fragment key={v}>
+                    <text x={x(v)} y={y(0) + 14} textAnchor="middle" fontSize={9} fill="#94a3b8">{(v * 100).toFixed(0)}%</text>
+                    <text x={x(0) - 4} y={y(v) + 3} textAnchor="end" fontSize={9} fill="#94a3b8">{(v * 100).toFixed(0)}%</text>
+                </Fragment>
+            ))}
+            <text x={x(0.5)} y={H - 2} textAnchor="middle" fontSize={10} fill="#94a3b8">Stated confidence</text>
+            <text x={10} y={y(0.5)} textAnchor="middle" fontSize={10} fill="#94a3b8" transform={`rotate(-90 10 ${y(0.5)})`}>Accuracy</text>
+        </svg>
+    );
+}
+
+function CalibrationSection({ calibration }: { calibration: ModelCalibration[] }) {
+    const models = useMemo(() => calibration.filter(c => !c.modelId.startsWith('baseline:')), [calibration]);
+    const [selectedModel, setSelectedModel] = useState<string | null>(null);
+    if (models.length === 0) return null;
+
+    const selected = models.find(m => m.modelId === selectedModel) || models[0];
+
+    return (
+        <section>
+            <div className="text-center mb-6">
+                <h3 className="text-xl font-semibold tracking-tight">Calibration</h3>
+                <p className="text-muted-foreground text-sm mt-1">
+                    When a model predicts an individual&apos;s answer, does its stated confidence match how often it is right?
+                </p>
+            </div>
+            <div className="grid md:grid-cols-[1fr_auto] gap-6 items-start">
+                <div className="bg-card border border-border/50 rounded-lg overflow-hidden">
+                    <table className="w-full">
+                        <thead>
+                            <tr className="border-b border-border/50 bg-muted/30">
+                                <th className="px-4 py-3 text-xs font-medium uppercase tracking-wider text-left text-muted-foreground">Model</th>
+                                <th className="px-4 py-3 text-xs font-medium uppercase tracking-wider text-right text-muted-foreground"
+                                    title="How often the most likely answer was the one given">Accuracy</th>
+                                <th className="px-4 py-3 text-xs font-medium uppercase tracking-wider text-right text-muted-foreground"
+                                    title="Mean squared error of the probabilities (0 = perfect, lower is better)">Brier</th>
+                                <th className="px-4 py-3 text-xs font-medium uppercase tracking-wider text-right text-muted-foreground"
+                                    title="Mean negative log probability of the actual answer (lower is better)">Log Loss</th>
+                                <th className="px-4 py-3 text-xs font-medium uppercase tracking-wider text-right text-muted-foreground"
+                                    title="Expected calibration error: weighted gap between confidence and accuracy (lower is better)">ECE</th>
+                                <th className="px-4 py-3 text-xs font-medium uppercase tracking-wider text-right text-muted-foreground">N</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {models.map(m => {
+                                const eceClass = m.expectedCalibrationError < 0.05 ? 'text-green-600 dark:text-green-400'
+                                    : m.expectedCalibrationError < 0.15 ? 'text-yellow-600 dark:text-yellow-400'
+                                    : 'text-red-600 dark:text-red-400';
+                                return (
+                                    <tr key={m.modelId}
+                                        onClick={() => setSelectedModel(m.modelId)}
+                                        className={`border-b border-border/30 last:border-0 cursor-pointer transition-colors ${
+                                            m.modelId === selected.modelId ? 'bg-muted/40' : 'hover:bg-muted/20'
+                                        }`}>
+                                        <td className="px-4 py-3 text-sm font-medium text-foreground truncate max-w-[250px]">
+                                            {formatModelName(m.modelId)}
+                                        </td>
+                                        <td className="px-4 py-3 text-right text-sm text-muted-foreground font-mono">
+                                            {(m.accuracy * 100).toFixed(1)}%
+                                        </td>
+                                        <td className="px-4 py-3 text-right text-sm text-muted-foreground font-mono">
+                                            {m.brierScore.toFixed(3)}
+                                        </td>
+                                        <td className="px-4 py-3 text-right text-sm text-muted-foreground font-mono">
+                                            {m.logLoss.toFixed(3)}
+                                        </td>
+                                        <td className={`px-4 py-3 text-right text-sm font-mono ${eceClass}`}>
+                                            {m.expectedCalibrationError.toFixed(3)}
+                                        </td>
+                                        <td className="px-4 py-3 text-right text-sm text-muted-foreground font-mono">
+                                            {m.forecastCount}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="bg-card border border-border/50 rounded-lg p-4">
+                    <p className="text-sm font-medium text-foreground text-center mb-2 truncate max-w-[260px]">
+                        {formatModelName(selected.modelId)}
+                    </p>
+                    <ReliabilityDiagram bins={selected.reliability} />
+                </div>
+            </div>
+            <p className="text-xs text-muted-foreground mt-3 text-center">
+                Points on the dashed diagonal are perfectly calibrated. Points below it are overconfident; above it, underconfident.
+                Select a model to see its reliability diagram.
+            </p>
+        </section>
+    );
+}
+
 // --- Methodology Section ---
 
 function MethodologySection({ baselines }: { baselines?: BaselineScores }) {
@@ -1543,7 +2138,7 @@ function MethodologySection({ baselines }: { baselines?: BaselineScores }) {
                     <div>
                         <h4 className="font-medium text-foreground mb-1">Baseline comparisons</h4>
                         <p>
-                            Two reference baselines provide context for model scores:
+                            Reference baselines provide context for model scores:
                         </p>
                         <ul className="list-disc list-inside mt-1 space-y-1">
                             <li>
@@ -1554,6 +2149,13 @@ function MethodologySection({ baselines }: { baselines?: BaselineScores }) {
                                 <strong>Uniform</strong>{baselines?.uniform != null && ` (${(baselines.uniform * 100).toFixed(1)}%)`}: predicts equal probability for all options.
                                 The gap between uniform and population marginal reflects question difficulty.
                             </li>
+                            {baselines?.mrp != null && (
+                                <li>
+                                    <strong>MRP</strong> ({(baselines.mrp * 100).toFixed(1)}%): a statistical model of how each demographic
+                                    attribute shifts answers, fitted to individual respondents outside the segment and weighted to the
+                                    segment&apos;s own make-up. A model that beats it knows more than the survey&apos;s other segments imply.
+                                </li>
+                            )}
                         </ul>
                     </div>
                     <div>
@@ -1592,6 +2194,7 @@ export default function DemographicLeaderboard() {
     const [lbSort, toggleLbSort] = useSort<LeaderboardSortKey>('score');
     const [lbCategory, setLbCategory] = useState('overall');
     const [showAllLeaderboard, setShowAllLeaderboard] = useState(false);
+    const [scoreView, setScoreView] = useState<ScoreView>('raw');
 
     useEffect(() => {
         async function fetchData() {
@@ -1619,6 +2222,10 @@ export default function DemographicLeaderboard() {
         [data?.aggregation?.disparities]
     );
     const baselines = data?.baselines;
+    // Normalized scores exist once summaries are built with survey data
+    const hasNormalized = useMemo(() => modelResults.some(m => m.normalizedScore != null), [modelResults]);
+    const onScoreViewChange = hasNormalized ? setScoreView : undefined;
+    const activeScoreView: ScoreView = hasNormalized ? scoreView : 'raw';
 
     // Build a runs lookup from contextAnalysis (fallback for data generated before pipeline update)
     const runsLookup = useMemo(() => {
@@ -1701,10 +2308,14 @@ export default function DemographicLeaderboard() {
                 showAll={showAllLeaderboard}
                 setShowAll={setShowAllLeaderboard}
                 baselines={baselines}
+                scoreView={activeScoreView}
+                onScoreViewChange={onScoreViewChange}
             />
 
             {modelResults.length > 0 && <SegmentExplorer modelResults={modelResults} runsLookup={runsLookup} />}
 
+            <SegmentQuestionHeatmap />
+
             {data.contextResponsiveness && data.contextResponsiveness.models.length > 0 && (
                 <ContextResponsivenessSection
                     data={data.contextResponsiveness}
@@ -1713,17 +2324,31 @@ export default function DemographicLeaderboard() {
             )}
 
             {disparities.length > 0 && (
-                <FairnessAnalysisTable disparities={disparities} modelResults={modelResults} runsLookup={runsLookup} />
+                <FairnessAnalysisTable
+                    disparities={disparities}
+                    modelResults={modelResults}
+                    runsLookup={runsLookup}
+                    scoreView={activeScoreView}
+                    onScoreViewChange={onScoreViewChange}
+                />
             )}
 
             {data.aggregation?.modelDPDs && data.aggregation.modelDPDs.length > 0 && (
-                <DPDSummaryCard modelDPDs={data.aggregation.modelDPDs} />
+                <DPDSummaryCard modelDPDs={data.aggregation.modelDPDs} scoreView={activeScoreView} onScoreViewChange={onScoreViewChange} />
             )}
 
             {data.aggregation?.stereotypeScores && data.aggregation.stereotypeScores.length > 0 && (
                 <StereotypeScoreCard stereotypeScores={data.aggregation.stereotypeScores} />
             )}
 
+            {data.aggregation?.biasDirection && data.aggregation.biasDirection.length > 0 && (
+                <BiasDirectionSection biasDirection={data.aggregation.biasDirection} />
+            )}
+
+            {data.aggregation?.calibration && data.aggregation.calibration.length > 0 && (
+                <CalibrationSection calibration={data.aggregation.calibration} />
+            )}
+
             <MethodologySection baselines={baselines} />
         </div>
     );
@@ -1731,6 +2356,31 @@ export default function DemographicLeaderboard() {
 
 // --- Leaderboard Section ---
 
+/** Contamination-robust score cell: post-cutoff score, flagged when far below the pre-cutoff score */
+function UnseenRoundsCell({ generalisation }: { generalisation?: ModelRoundGeneralisation }) {
+    if (!generalisation || generalisation.postCutoffScore == null) {
+        return <td className="px-4 py-3 text-right text-sm text-muted-foreground">—</td>;
+    }
+    const cutoffLabel = generalisation.cutoffSource === 'knowledge-cutoff' ? 'knowledge cutoff' : 'release date (cutoff unknown)';
+    const title = [
+        `${cutoffLabel}: ${generalisation.knowledgeCutoff}`,
+        `Unseen: ${generalisation.postCutoffRounds.join(', ')} (${generalisation.postCutoffResultCount} results)`,
+        generalisation.preCutoffScore != null
+            ? `Possibly seen: ${generalisation.preCutoffRounds.join(', ')} at ${(generalisation.preCutoffScore * 100).toFixed(1)}%`
+            : 'No pre-cutoff rounds evaluated',
+    ].join('\n');
+    return (
+        <td className={`px-4 py-3 text-right text-sm font-mono tabular-nums ${
+            generalisation.contaminationFlag ? 'text-red-600 dark:text-red-400' : 'text-muted-foreground'
+        }`} title={title}>
+            {(generalisation.postCutoffScore * 100).toFixed(1)}%
+            {generalisation.contaminationFlag && generalisation.gap != null && (
+                <span className="ml-1 text-xs">⚠ −{(generalisation.gap * 100).toFixed(1)}</span>
+            )}
+        </td>
+    );
+}
+
 function LeaderboardSection({
     data,
     modelResults,
@@ -1743,6 +2393,8 @@ function LeaderboardSection({
     showAll,
     setShowAll,
     baselines,
+    scoreView,
+    onScoreViewChange,
 }: {
     data: DemographicsData;
     modelResults: ModelResult[];
@@ -1755,6 +2407,9 @@ function LeaderboardSection({
     showAll: boolean;
     setShowAll: (v: boolean) => void;
     baselines?: BaselineScores;
+    scoreView: ScoreView;
+    /** Present when normalized scores are available */
+    onScoreViewChange?: (view: ScoreView) => void;
 }) {
     // Derive available segment types from model results
     const segmentTypes = useMemo(() => {
@@ -1774,9 +2429,26 @@ function LeaderboardSection({
         setShowAll(false);
     }, [lbCategory, setExpandedModel, setShowAll]);
 
-    // Compute per-model scores based on active category
+    // Metrics recorded alongside the primary score (present for newer runs)
+    const availableMetrics = useMemo(() => {
+        const names = new Set<string>();
+        for (const model of modelResults) {
+            for (const name of Object.keys(model.metricScores || {})) names.add(name);
+        }
+        return Object.keys(DISTRIBUTION_METRIC_LABELS).filter(n => names.has(n))
+            .concat(Array.from(names).filter(n => !DISTRIBUTION_METRIC_LABELS[n]).sort());
+    }, [modelResults]);
+    const [lbMetric, setLbMetric] = useState('default');
+    // Normalization applies to the primary score only; unreliable segments are left out of normalized means
+    const normalized = scoreView === 'normalized' && lbMetric === 'default';
+    const segmentScore = useCallback((s: SegmentScore): number | undefined => {
+        if (normalized) return s.reliable ? s.normalizedScore : undefined;
+        return lbMetric === 'default' ? s.avgCoverageExtent : s.metricScores?.[lbMetric];
+    }, [lbMetric, normalized]);
+
+    // Compute per-model scores based on active category and metric
     const lbData = useMemo(() => {
-        if (lbCategory === 'overall') {
+        if (lbCategory === 'overall' && lbMetric === 'default' && !normalized) {
             return modelResults.map(m => ({
                 modelId: m.modelId,
                 score: m.overallScore,
@@ -1786,20 +2458,61 @@ function LeaderboardSection({
         }
         return modelResults
             .map(m => {
-                const catScores = (m.segmentScores || []).filter(s => getSegmentPrefix(s.segmentId) === lbCategory);
+                const catScores = (m.segmentScores || [])
+                    .filter(s => lbCategory === 'overall' || getSegmentPrefix(s.segmentId) === lbCategory)
+                    .map(segmentScore)
+                    .filter((v): v is number => v != null);
                 if (catScores.length === 0) return null;
-                const avg = catScores.reduce((sum, s) => sum + s.avgCoverageExtent, 0) / catScores.length;
+                const avg = catScores.reduce((sum, v) => sum + v, 0) / catScores.length;
                 const stdDev = catScores.length > 1
-                    ? Math.sqrt(catScores.reduce((sum, s) => sum + (s.avgCoverageExtent - avg) ** 2, 0) / catScores.length)
+                    ? Math.sqrt(catScores.reduce((sum, v) => sum + (v - avg) ** 2, 0) / catScores.length)
                     : 0;
                 return { modelId: m.modelId, score: avg, segmentCount: catScores.length, segmentStdDev: stdDev };
             })
             .filter((m): m is NonNullable<typeof m> => m !== null);
-    }, [modelResults, lbCategory]);
+    }, [modelResults, lbCategory, lbMetric, normalized, segmentScore]);
 
     // Full model data lookup for expandable rows
     const modelResultMap = useMemo(() => new Map(modelResults.map(m => [m.modelId, m])), [modelResults]);
 
+    // Scores on rounds released after each model's knowledge cutoff (present when results carry round dates)
+    const generalisationMap = useMemo(() => new Map(
+        (data.aggregation?.roundGeneralisation || [])
+            .filter(g => g.postCutoffScore != null)
+            .map(g => [g.modelId, g]),
+    ), [data.aggregation?.roundGeneralisation]);
+    const showUnseenRounds = generalisationMap.size > 0;
+
+    // Score spread across paraphrases and option orders (present when variants were run)
+    const showWording = modelResults.some(m => m.variantStdDev != null);
+
+    // Tied-rank tiers and bootstrap CIs only apply to the primary score the tests were run on
+    const significance = useMemo(() => {
+        const sig = data.aggregation?.significance;
+        if (!sig || lbMetric !== 'default' || normalized) return undefined;
+        return lbCategory === 'overall' ? sig.overall : sig.byCategory?.[lbCategory];
+    }, [data.aggregation?.significance, lbCategory, lbMetric, normalized]);
+    const tierSizes = useMemo(() => {
+        const sizes = new Map<number, number>();
+        for (const tier of Object.values(significance?.tiers || {})) sizes.set(tier, (sizes.get(tier) || 0) + 1);
+        return sizes;
+    }, [significance]);
+    const showTiers = !!significance;
+    // Models in the top tier of each survey, when the ranking was also tested survey by survey
+    const surveyTopTiers = useMemo(() => {
+        const bySurvey = data.aggregation?.significance?.bySurvey;
+        if (!bySurvey || lbCategory !== 'overall' || lbMetric !== 'default' || normalized) return [];
+        return Object.entries(bySurvey)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([surveyId, matrix]) => ({
+                surveyId,
+                models: matrix.modelIds.filter(id => matrix.tiers[id] === 1).map(formatModelName),
+            }));
+    }, [data.aggregation?.significance?.bySurvey, lbCategory, lbMetric, normalized]);
+    // Tier boundaries are only meaningful when rows are in score order
+    const showTierDividers = showTiers && lbSort.key === 'score' && lbSort.direction === 'desc';
+    const columnCount = 5 + (showTiers ? 1 : 0) + (showWording ? 1 : 0) + (showUnseenRounds ? 1 : 0);
+
     // Rank by score descending, then apply user sort
     const rankedModels = useMemo(() => {
         const byScore = [...lbData].sort((a, b) => b.score - a.score);
@@ -1844,6 +2557,14 @@ function LeaderboardSection({
                 />
             )}
 
+            {availableMetrics.length > 0 && (
+                <MetricSelector metrics={availableMetrics} active={lbMetric} onSelect={setLbMetric} />
+            )}
+
+            {onScoreViewChange && lbMetric === 'default' && (
+                <ScoreViewToggle view={scoreView} onChange={onScoreViewChange} />
+            )}
+
             {displayedModels.length > 0 ? (
                 <>
                     <div className="bg-card border border-border/50 rounded-lg overflow-hidden">
@@ -1852,6 +2573,12 @@ function LeaderboardSection({
                                 <tr className="border-b border-border/50 bg-muted/30">
                                     <SortableHeader label="Rank" sortKey="score" current={lbSort} onSort={toggleLbSort} className="w-12"
                                         tooltip="Position based on score" />
+                                    {showTiers && (
+                                        <th className="px-4 py-3 text-xs font-medium uppercase tracking-wider text-left text-muted-foreground w-12"
+                                            title="Models in the same tier are not significantly different from the tier's top model">
+                                            Tier
+                                        </th>
+                                    )}
                                     <SortableHeader label="Model" sortKey="model" current={lbSort} onSort={toggleLbSort}
                                         tooltip="AI model evaluated" />
                                     <SortableHeader label={`Score${categoryLabel}`} sortKey="score" current={lbSort} onSort={toggleLbSort} className="w-1/4"
@@ -1861,23 +2588,43 @@ function LeaderboardSection({
                                         } />
                                     <SortableHeader label="Consistency" sortKey="consistency" current={lbSort} onSort={toggleLbSort} align="right"
                                         tooltip="Standard deviation of scores across segments. Lower = more consistent" />
+                                    {showWording && (
+                                        <th className="px-4 py-3 text-xs font-medium uppercase tracking-wider text-right text-muted-foreground"
+                                            title="Standard deviation of a prompt's score across paraphrased wordings and option orders. Lower = more robust">
+                                            Wording
+                                        </th>
+                                    )}
                                     <SortableHeader label="Segments" sortKey="segments" current={lbSort} onSort={toggleLbSort} align="right"
                                         tooltip="Number of demographic segments evaluated" />
+                                    {showUnseenRounds && (
+                                        <th className="px-4 py-3 text-xs font-medium uppercase tracking-wider text-right text-muted-foreground"
+                                            title="Score on survey rounds released after the model's knowledge cutoff, which cannot be in its training data">
+                                            Unseen Rounds
+                                        </th>
+                                    )}
                                 </tr>
                             </thead>
                             <tbody>
-                                {displayedModels.map((model) => {
+                                {displayedModels.map((model, idx) => {
                                     const fullData = modelResultMap.get(model.modelId);
                                     const isExpanded = expandedModel === model.modelId;
                                     const hasDetails = fullData && fullData.segmentScores?.length > 0;
+                                    const tier = significance?.tiers[model.modelId];
+                                    const startsTier = showTierDividers && idx > 0 && tier != null
+                                        && tier !== significance?.tiers[displayedModels[idx - 1].modelId];
 
                                     return (
                                         <Fragment key={model.modelId}>
                                             <tr
-                                                className={`border-b border-border/30 last:border-0 hover:bg-muted/20 transition-colors ${hasDetails ? 'cursor-pointer' : ''}`}
+                                                className={`border-b border-border/30 last:border-0 hover:bg-muted/20 transition-colors ${hasDetails ? 'cursor-pointer' : ''} ${startsTier ? 'border-t-2 border-t-border' : ''}`}
                                                 onClick={() => hasDetails && setExpandedModel(isExpanded ? null : model.modelId)}
                                             >
                                                 <td className="px-4 py-3 text-sm"><RankBadge rank={model.scoreRank} /></td>
+                                                {showTiers && (
+                                                    <td className="px-4 py-3 text-sm">
+                                                        {tier != null ? <TierBadge tier={tier} tiedCount={tierSizes.get(tier) || 1} /> : <span className="text-muted-foreground">—</span>}
+                                                    </td>
+                                                )}
                                                 <td className="px-4 py-3">
                                                     <div className="flex items-center gap-2 min-w-0">
                                                         <span className="text-sm font-medium text-foreground truncate">
@@ -1888,20 +2635,40 @@ function LeaderboardSection({
                                                         )}
                                                     </div>
                                                 </td>
-                                                <td className="px-4 py-3"><ScoreBar score={model.score} baselines={baselines} /></td>
+                                                <td className="px-4 py-3">
+                                                    <ScoreBar
+                                                        score={model.score}
+                                                        baselines={normalized ? { populationMarginal: 0 } : lbMetric === 'default' ? baselines : undefined}
+                                                        ci={significance?.confidenceIntervals[model.modelId]}
+                                                    />
+                                                </td>
                                                 <td className="px-4 py-3 text-right text-sm text-muted-foreground tabular-nums">
                                                     ±{(model.segmentStdDev * 100).toFixed(1)}%
                                                 </td>
+                                                {showWording && (
+                                                    <td className="px-4 py-3 text-right text-sm text-muted-foreground tabular-nums"
+                                                        title={fullData?.variantStdDev != null ? [
+                                                            fullData.paraphraseStdDev != null ? `Paraphrases: ±${(fullData.paraphraseStdDev * 100).toFixed(1)}%` : null,
+                                                            fullData.optionOrderStdDev != null ? `Option orders: ±${(fullData.optionOrderStdDev * 100).toFixed(1)}%` : null,
+                                                            `${fullData.variantPromptCount} prompts`,
+                                                        ].filter(Boolean).join(' · ') : undefined}>
+                                                        {fullData?.variantStdDev != null ? `±${(fullData.variantStdDev * 100).toFixed(1)}%` : '—'}
+                                                    </td>
+                                                )}
                                                 <td className="px-4 py-3 text-right text-sm text-muted-foreground">
                                                     {model.segmentCount}
                                                 </td>
+                                                {showUnseenRounds && (
+                                                    <UnseenRoundsCell generalisation={generalisationMap.get(model.modelId)} />
+                                                )}
                                             </tr>
                                             {isExpanded && fullData && (
                                                 <tr>
-                                                    <td colSpan={5} className="p-0 border-b border-border/30 bg-muted/10">
+                                                    <td colSpan={columnCount} className="p-0 border-b border-border/30 bg-muted/10">
                                                         <ModelSegmentBreakdown
                                                             model={fullData}
                                                             filterCategory={lbCategory !== 'overall' ? lbCategory : undefined}
+                                                            scoreView={normalized ? 'normalized' : 'raw'}
                                                         />
                                                     </td>
                                                 </tr>
@@ -1913,7 +2680,7 @@ function LeaderboardSection({
                         </table>
                     </div>
                     <ShowAllToggle totalCount={rankedModels.length} isShowingAll={showAll} onToggle={() => setShowAll(!showAll)} />
-                    {baselines && (baselines.populationMarginal != null || baselines.uniform != null) && (
+                    {lbMetric === 'default' && !normalized && baselines && (baselines.populationMarginal != null || baselines.uniform != null || baselines.mrp != null) && (
                         <div className="flex items-center justify-center gap-6 mt-3 text-xs text-muted-foreground">
                             {baselines.populationMarginal != null && (
                                 <span className="inline-flex items-center gap-1.5">
@@ -1927,11 +2694,26 @@ function LeaderboardSection({
                                     Uniform: {(baselines.uniform * 100).toFixed(1)}%
                                 </span>
                             )}
+                            {baselines.mrp != null && (
+                                <span className="inline-flex items-center gap-1.5">
+                                    <span className="inline-block w-3 h-0.5 bg-violet-500/70" />
+                                    MRP: {(baselines.mrp * 100).toFixed(1)}%
+                                </span>
+                            )}
                         </div>
                     )}
+                    {surveyTopTiers.length > 0 && (
+                        <p className="text-xs text-muted-foreground mt-3 text-center">
+                            Top tier by survey: {surveyTopTiers.map(t => `${t.surveyId}: ${t.models.join(', ')}`).join(' · ')}
+                        </p>
+                    )}
                     <p className="text-xs text-muted-foreground mt-3 text-center">
-                        Score = JSD similarity{lbCategory !== 'overall' ? ` across ${SEGMENT_TYPE_LABELS[lbCategory]} segments` : ' across all demographic segments'}.
+                        Score = {normalized ? 'normalized JSD' : lbMetric === 'default' ? 'JSD' : DISTRIBUTION_METRIC_LABELS[lbMetric] || lbMetric} similarity{lbCategory !== 'overall' ? ` across ${SEGMENT_TYPE_LABELS[lbCategory]} segments` : ' across all demographic segments'}.
                         Consistency = standard deviation (lower is better). Click a row to see per-segment breakdown.
+                        {normalized && ` Normalized: 0% = population marginal, 100% = the sampling-noise ceiling for the segment's sample size; only segments with a ceiling of at least ${data.aggregation?.reliabilityThreshold ?? 0.7} count, and low-reliability segments are greyed out in the breakdown.`}
+                        {showTiers && significance && ` Tier = models not significantly different from the tier's top model (paired permutation test across segments, Holm-Bonferroni corrected, α = ${significance.alpha}); shaded bands show bootstrap 95% CIs.`}
+                        {showWording && ' Wording = standard deviation of each prompt\'s score across paraphrases of the question and reorderings of its options (lower is more robust).'}
+                        {showUnseenRounds && ' Unseen Rounds = overall score on rounds released after the model\'s knowledge cutoff; ⚠ marks models scoring much lower there than on rounds they may have seen.'}
                     </p>
                 </>
             ) : (
@@ -0,0 +1,403 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { getModelDisplayLabel } from '@/app/utils/modelIdUtils';
+import { clusterOrder, transpose } from '@/app/utils/heatmapClustering';
+import { getSegmentPrefix, getSegmentValueLabel, getCategoryLabel, isKnownCategory } from '@/lib/segmentUtils';
+import type { DTEFHeatmap, DTEFHeatmapIndex } from '@/cli/utils/dtefSummaryUtils';
+
+type ColorBy = 'score' | 'error';
+
+const LABEL_WIDTH = 140;
+const HEADER_HEIGHT = 60;
+const MISSING_COLOR = 'rgba(148, 163, 184, 0.15)';
+
+function formatModelName(modelId: string): string {
+    return getModelDisplayLabel(modelId, {
+        hideProvider: true,
+        hideModelMaker: true,
+        prettifyModelName: true,
+    });
+}
+
+/**
+ * Predicted minus actual share of one option, in percentage points.
+ * Single-choice distributions (summing to ~100) are compared after
+ * rescaling the prediction to 100; multi-select shares are compared as-is.
+ */
+function signedError(predicted: number[] | null | undefined, expected: number[] | null | undefined, option: number): number | null {
+    if (!predicted || !expected || option >= expected.length || predicted.length !== expected.length) return null;
+    const expectedTotal = expected.reduce((a, b) => a + b, 0);
+    const predictedTotal = predicted.reduce((a, b) => a + b, 0);
+    const scale = Math.abs(expectedTotal - 100) < 5 && predictedTotal > 0 ? 100 / predictedTotal : 1;
+    return predicted[option] * scale - expected[option];
+}
+
+/** Red → amber → green for scores across [low, high] */
+function sequentialColor(value: number, low: number, high: number): string {
+    const t = high > low ? Math.min(1, Math.max(0, (value - low) / (high - low))) : 0.5;
+    return `hsl(${Math.round(t * 120)}, 65%, 45%)`;
+}
+
+/** Blue (negative) → neutral → red (positive), symmetric around zero */
+function divergingColor(value: number, extent: number): string {
+    const t = extent > 0 ? Math.min(1, Math.abs(value) / extent) : 0;
+    const hue = value >= 0 ? 0 : 215;
+    return `hsl(${hue}, ${Math.round(20 + t * 60)}%, ${Math.round(92 - t * 47)}%)`;
+}
+
+function quantile(sorted: number[], q: number): number {
+    if (sorted.length === 0) return 0;
+    return sorted[Math.min(sorted.length - 1, Math.max(0, Math.floor(q * (sorted.length - 1))))];
+}
+
+interface HoverCell {
+    row: number;
+    col: number;
+    x: number;
+    y: number;
+}
+
+/**
+ * Canvas heatmap of per-question scores: segments down the side, questions
+ * across the top, for one model or the difference between two.
+ */
+export default function SegmentQuestionHeatmap() {
+    const [index, setIndex] = useState<DTEFHeatmapIndex | null>(null);
+    const [surveyId, setSurveyId] = useState('');
+    const [heatmap, setHeatmap] = useState<DTEFHeatmap | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const [modelA, setModelA] = useState('');
+    const [modelB, setModelB] = useState('');
+    const [colorBy, setColorBy] = useState<ColorBy>('score');
+    const [option, setOption] = useState(0);
+    const [category, setCategory] = useState('all');
+    const [clustered, setClustered] = useState(false);
+    const [hover, setHover] = useState<HoverCell | null>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        fetch('/api/demographics/heatmap')
+            .then(res => res.ok ? res.json() : null)
+            .then((json: DTEFHeatmapIndex | null) => {
+                if (!json || json.surveys.length === 0) return;
+                setIndex(json);
+                setSurveyId(json.surveys[0].surveyId);
+            })
+            .catch(() => { /* no heatmaps yet: the section stays hidden */ });
+    }, []);
+
+    useEffect(() => {
+        if (!surveyId) return;
+        setLoading(true);
+        setError(null);
+        fetch(`/api/demographics/heatmap?surveyId=${encodeURIComponent(surveyId)}`)
+            .then(async res => {
+                const json = await res.json();
+                if (!res.ok) throw new Error(json.error || 'Failed to fetch');
+                return json as DTEFHeatmap;
+            })
+            .then(json => {
+                setHeatmap(json);
+                const models = json.models.filter(m => !m.modelId.startsWith('baseline:'));
+                setModelA((models[0] ?? json.models[0])?.modelId ?? '');
+                setModelB('');
+                setCategory('all');
+            })
+            .catch(e => setError(e.message))
+            .finally(() => setLoading(false));
+    }, [surveyId]);
+
+    const modelsById = useMemo(() => new Map((heatmap?.models ?? []).map(m => [m.modelId, m])), [heatmap]);
+    const a = modelsById.get(modelA);
+    const b = modelB ? modelsById.get(modelB) : undefined;
+    const errorAvailable = !!heatmap?.expected && !!a?.predicted && (!modelB || !!b?.predicted);
+    const activeColorBy: ColorBy = errorAvailable ? colorBy : 'score';
+
+    const categories = useMemo(() => {
+        const prefixes = new Set((heatmap?.segments ?? []).map(seg => getSegmentPrefix(seg.id)));
+        return Array.from(prefixes).filter(isKnownCategory).sort();
+    }, [heatmap]);
+
+    const optionCount = useMemo(() =>
+        Math.max(0, ...(heatmap?.questions ?? []).map(q => q.options?.length ?? 0)),
+    [heatmap]);
+
+    // Value of one cell: a score, a signed error, or A minus B of either
+    const cellValue = useCallback((row: number, col: number): number | null => {
+        if (!a) return null;
+        if (activeColorBy === 'score') {
+            const scoreA = a.scores[row][col];
+            if (!b) return scoreA;
+            const scoreB = b.scores[row][col];
+            return scoreA != null && scoreB != null ? scoreA - scoreB : null;
+        }
+        const expected = heatmap?.expected?.[row][col];
+        const errA = signedError(a.predicted?.[row][col], expected, option);
+        if (!b) return errA;
+        const errB = signedError(b.predicted?.[row][col], expected, option);
+        // Positive when A's prediction is closer to the real share than B's
+        return errA != null && errB != null ? Math.abs(errB) - Math.abs(errA) : null;
+    }, [a, b, activeColorBy, heatmap, option]);
+
+    const matrix = useMemo(() => {
+        if (!heatmap || !a) return null;
+        const rows = heatmap.segments
+            .map((_, i) => i)
+            .filter(i => category === 'all' || getSegmentPrefix(heatmap.segments[i].id) === category);
+        const cols = heatmap.questions.map((_, i) => i);
+        const values = rows.map(r => cols.map(c => cellValue(r, c)));
+
+        // Drop segments and questions with nothing to show
+        const keepRows = rows.map((_, i) => values[i].some(v => v != null));
+        const keepCols = cols.map((_, j) => values.some(row => row[j] != null));
+        let rowIdx = rows.filter((_, i) => keepRows[i]);
+        let colIdx = cols.filter((_, j) => keepCols[j]);
+        let grid = values.filter((_, i) => keepRows[i]).map(row => row.filter((_, j) => keepCols[j]));
+
+        if (clustered && grid.length > 0) {
+            const rowOrder = clusterOrder(grid);
+            const colOrder = clusterOrder(transpose(grid));
+            rowIdx = rowOrder.map(i => rowIdx[i]);
+            colIdx = colOrder.map(j => colIdx[j]);
+            grid = rowOrder.map(i => colOrder.map(j => grid[i][j]));
+        }
+
+        const finite = grid.flat().filter((v): v is number => v != null).sort((x, y) => x - y);
+        return {
+            rowIdx,
+            colIdx,
+            grid,
+            low: quantile(finite, 0.05),
+            high: quantile(finite, 0.95),
+            extent: Math.max(Math.abs(quantile(finite, 0.02)), Math.abs(quantile(finite, 0.98))),
+        };
+    }, [heatmap, a, category, cellValue, clustered]);
+
+    const diverging = activeColorBy === 'error' || !!b;
+    const colorFor = useCallback((value: number | null) => {
+        if (value == null || !matrix) return MISSING_COLOR;
+        return diverging ? divergingColor(value, matrix.extent) : sequentialColor(value, matrix.low, matrix.high);
+    }, [diverging, matrix]);
+
+    const rowCount = matrix?.rowIdx.length ?? 0;
+    const colCount = matrix?.colIdx.length ?? 0;
+    const cellW = colCount > 0 ? Math.max(4, Math.min(24, Math.floor(900 / colCount))) : 0;
+    const cellH = rowCount > 0 ? Math.max(3, Math.min(18, Math.floor(640 / rowCount))) : 0;
+    const showRowLabels = cellH >= 10;
+    const showColLabels = cellW >= 12;
+    const left = showRowLabels ? LABEL_WIDTH : 0;
+    const top = showColLabels ? HEADER_HEIGHT : 0;
+    const width = left + colCount * cellW;
+    const height = top + rowCount * cellH;
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx || !matrix || !heatmap) return;
+
+        ctx.clearRect(0, 0, width, height);
+        const textColor = getComputedStyle(canvas).color || '#64748b';
+
+        for (let r = 0; r < rowCount; r++) {
+            for (let c = 0; c < colCount; c++) {
+                ctx.fillStyle = colorFor(matrix.grid[r][c]);
+                ctx.fillRect(left + c * cellW, top + r * cellH, cellW - (cellW > 6 ? 1 : 0), cellH - (cellH > 6 ? 1 : 0));
+            }
+        }
+
+        ctx.fillStyle = textColor;
+        ctx.font = '10px ui-sans-serif, system-ui, sans-serif';
+        if (showRowLabels) {
+            ctx.textAlign = 'right';
+            ctx.textBaseline = 'middle';
+            matrix.rowIdx.forEach((segIdx, r) => {
+                const label = getSegmentValueLabel(heatmap.segments[segIdx].label);
+                ctx.fillText(label.length > 22 ? `${label.slice(0, 21)}…` : label, left - 6, top + r * cellH + cellH / 2, LABEL_WIDTH - 8);
+            });
+        }
+        if (showColLabels) {
+            ctx.textAlign = 'left';
+            ctx.textBaseline = 'middle';
+            matrix.colIdx.forEach((qIdx, c) => {
+                ctx.save();
+                ctx.translate(left + c * cellW + cellW / 2, top - 4);
+                ctx.rotate(-Math.PI / 3);
+                const label = heatmap.questions[qIdx].id;
+                ctx.fillText(label.length > 12 ? `${label.slice(0, 11)}…` : label, 0, 0);
+                ctx.restore();
+            });
+        }
+    }, [matrix, heatmap, rowCount, colCount, cellW, cellH, left, top, width, height, showRowLabels, showColLabels, colorFor]);
+
+    const cellAt = useCallback((e: React.MouseEvent<HTMLCanvasElement>): HoverCell | null => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const x = e.clientX - rect.left;
+        const y = e.clientY - rect.top;
+        const col = Math.floor((x - left) / cellW);
+        const row = Math.floor((y - top) / cellH);
+        if (x < left || y < top || row >= rowCount || col >= colCount) return null;
+        return { row, col, x, y };
+    }, [left, top, cellW, cellH, rowCount, colCount]);
+
+    const runHref = useCallback((cell: HoverCell): string | undefined => {
+        if (!heatmap || !matrix || !a) return undefined;
+        const segIdx = matrix.rowIdx[cell.row];
+        const qIdx = matrix.colIdx[cell.col];
+        const runIdx = a.runIndex[segIdx][qIdx];
+        const run = runIdx != null ? heatmap.runs[runIdx] : undefined;
+        if (!run?.configId || !run.runLabel || !run.timestamp) return undefined;
+        const promptId = `${heatmap.questions[qIdx].id}-${heatmap.segments[segIdx].id}`;
+        return `/analysis/${encodeURIComponent(run.configId)}/${encodeURIComponent(run.runLabel)}/${encodeURIComponent(run.timestamp)}?prompt=${encodeURIComponent(promptId)}`;
+    }, [heatmap, matrix, a]);
+
+    if (!index) return null;
+
+    const selectClass = 'bg-card border border-border rounded px-2 py-1 text-sm';
+    const buttonClass = (isActive: boolean) =>
+        `px-2 py-0.5 text-xs rounded-full border transition-colors ${
+            isActive
+                ? 'bg-foreground/10 text-foreground border-foreground/30'
+                : 'border-border text-muted-foreground hover:text-foreground'
+        }`;
+
+    const hovered = hover && matrix && heatmap && a ? (() => {
+        const segIdx = matrix.rowIdx[hover.row];
+        const qIdx = matrix.colIdx[hover.col];
+        const question = heatmap.questions[qIdx];
+        const expected = heatmap.expected?.[segIdx][qIdx];
+        return {
+            segment: heatmap.segments[segIdx],
+            question,
+            scoreA: a.scores[segIdx][qIdx],
+            scoreB: b?.scores[segIdx][qIdx],
+            errA: signedError(a.predicted?.[segIdx][qIdx], expected, option),
+            errB: b ? signedError(b.predicted?.[segIdx][qIdx], expected, option) : null,
+            actual: expected?.[option],
+        };
+    })() : null;
+
+    const legend = diverging
+        ? activeColorBy === 'error'
+            ? b
+                ? `Blue: ${formatModelName(modelB)} closer · Red: ${formatModelName(modelA)} closer (±${matrix?.extent.toFixed(1)} pts)`
+                : `Blue: under-predicted · Red: over-predicted (±${matrix?.extent.toFixed(1)} pts)`
+            : `Blue: ${formatModelName(modelB)} better · Red: ${formatModelName(modelA)} better (±${((matrix?.extent ?? 0) * 100).toFixed(1)} pts)`
+        : `Red ${((matrix?.low ?? 0) * 100).toFixed(0)}% → green ${((matrix?.high ?? 0) * 100).toFixed(0)}% (5th–95th percentile)`;
+
+    return (
+        <section>
+            <div className="text-center mb-6">
+                <h3 className="text-xl font-semibold tracking-tight">Segment × Question Heatmap</h3>
+                <p className="text-muted-foreground text-sm mt-1">
+                    Where does a model fail across both demographic segments and questions?
+                </p>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-center gap-3 mb-4 text-sm">
+                {index.surveys.length > 1 && (
+                    <select className={selectClass} value={surveyId} onChange={e => setSurveyId(e.target.value)}>
+                        {index.surveys.map(s => (
+                            <option key={s.surveyId} value={s.surveyId}>{s.surveyName || s.surveyId}</option>
+                        ))}
+                    </select>
+                )}
+                <select className={selectClass} value={modelA} onChange={e => setModelA(e.target.value)}>
+                    {heatmap?.models.map(m => <option key={m.modelId} value={m.modelId}>{formatModelName(m.modelId)}</option>)}
+                </select>
+                <span className="text-muted-foreground">vs</span>
+                <select className={selectClass} value={modelB} onChange={e => setModelB(e.target.value)}>
+                    <option value="">(none)</option>
+                    {heatmap?.models.filter(m => m.modelId !== modelA).map(m => (
+                        <option key={m.modelId} value={m.modelId}>{formatModelName(m.modelId)}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-center gap-1.5 mb-4">
+                <span className="text-xs text-muted-foreground mr-1">Colour by:</span>
+                <button onClick={() => setColorBy('score')} className={buttonClass(activeColorBy === 'score')}>Score</button>
+                <button onClick={() => setColorBy('error')} className={buttonClass(activeColorBy === 'error')}
+                    disabled={!errorAvailable}
+                    title={errorAvailable ? 'Predicted minus actual share of the chosen option' : 'No parsed predictions in this heatmap'}>
+                    Signed error
+                </button>
+                {activeColorBy === 'error' && (
+                    <select className={`${selectClass} text-xs`} value={option} onChange={e => setOption(Number(e.target.value))}>
+                        {Array.from({ length: optionCount }, (_, i) => (
+                            <option key={i} value={i}>Option {String.fromCharCode(97 + i)}</option>
+                        ))}
+                    </select>
+                )}
+                <span className="text-xs text-muted-foreground ml-3 mr-1">Order:</span>
+                <button onClick={() => setClustered(false)} className={buttonClass(!clustered)}>Survey</button>
+                <button onClick={() => setClustered(true)} className={buttonClass(clustered)}
+                    title="Group similar segments and questions (average-linkage clustering)">
+                    Clustered
+                </button>
+            </div>
+
+            {categories.length > 1 && (
+                <div className="flex flex-wrap justify-center gap-1.5 mb-4">
+                    <button onClick={() => setCategory('all')} className={buttonClass(category === 'all')}>All segments</button>
+                    {categories.map(cat => (
+                        <button key={cat} onClick={() => setCategory(cat)} className={buttonClass(category === cat)}>
+                            {getCategoryLabel(cat)}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <div className="bg-card border border-border/50 rounded-lg p-4">
+                {loading && <p className="text-center text-muted-foreground py-6 text-sm animate-pulse">Loading heatmap...</p>}
+                {error && <p className="text-center text-red-500 py-6 text-sm">{error}</p>}
+                {!loading && !error && rowCount === 0 && (
+                    <p className="text-center text-muted-foreground py-6 text-sm">No per-question scores for this selection.</p>
+                )}
+                {!loading && !error && rowCount > 0 && (
+                    <div className="relative overflow-auto max-h-[760px]">
+                        <canvas
+                            ref={canvasRef}
+                            width={width}
+                            height={height}
+                            className="text-muted-foreground cursor-pointer"
+                            onMouseMove={e => setHover(cellAt(e))}
+                            onMouseLeave={() => setHover(null)}
+                            onClick={e => {
+                                const cell = cellAt(e);
+                                const href = cell ? runHref(cell) : undefined;
+                                if (href) window.open(href, '_blank', 'noopener,noreferrer');
+                            }}
+                        />
+                        {hover && hovered && (
+                            <div
+                                className="absolute z-10 pointer-events-none bg-popover text-popover-foreground border border-border rounded-md shadow-md p-2 text-xs max-w-xs"
+                                style={{ left: Math.min(hover.x + 12, Math.max(0, width - 260)), top: hover.y + 12 }}
+                            >
+                                <p className="font-medium">{getSegmentValueLabel(hovered.segment.label)}</p>
+                                <p className="text-muted-foreground mb-1">{hovered.question.text || hovered.question.id}</p>
+                                <p>{formatModelName(modelA)}: {hovered.scoreA != null ? `${(hovered.scoreA * 100).toFixed(1)}%` : '—'}
+                                    {activeColorBy === 'error' && hovered.errA != null && ` (${hovered.errA >= 0 ? '+' : ''}${hovered.errA.toFixed(1)} pts)`}</p>
+                                {b && (
+                                    <p>{formatModelName(modelB)}: {hovered.scoreB != null ? `${(hovered.scoreB * 100).toFixed(1)}%` : '—'}
+                                        {activeColorBy === 'error' && hovered.errB != null && ` (${hovered.errB >= 0 ? '+' : ''}${hovered.errB.toFixed(1)} pts)`}</p>
+                                )}
+                                {activeColorBy === 'error' && hovered.actual != null && (
+                                    <p className="text-muted-foreground">
+                                        Actual share of {hovered.question.options?.[option] ?? `option ${String.fromCharCode(97 + option)}`}: {hovered.actual.toFixed(1)}%
+                                    </p>
+                                )}
+                                <p className="text-muted-foreground mt-1">Click to open the run</p>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+            <p className="text-xs text-muted-foreground mt-3 text-center">
+                {rowCount} segments × {colCount} questions. {legend}. Grey cells were not evaluated.
+            </p>
+        </section>
+    );
+}
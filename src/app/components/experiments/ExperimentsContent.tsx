@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useEffect, useState } from 'react';
-import type { ExperimentRecord, ExperimentIndex, ExperimentStatus } from '@/types/experiment';
+import type { ExperimentRecord, ExperimentIndex, ExperimentStatus, ExperimentProgress, ExperimentMixedModel } from '@/types/experiment';
 
 type StatusFilter = 'all' | ExperimentStatus;
 
@@ -30,7 +30,7 @@ function ScoreBar({ score, label, maxScore = 1.0 }: { score: number; label: stri
     const pct = Math.min(100, (score / maxScore) * 100);
     return (
         <div className="flex items-center gap-3 text-sm">
-            <span className="w-32 text-muted-foreground truncate">{label}</span>
+            <span className="w-32 text-muted-foreground truncate" title={label}>{label}</span>
             <div className="flex-1 h-4 bg-muted/30 rounded-full overflow-hidden">
                 <div
                     className="h-full bg-primary/70 rounded-full transition-all"
@@ -42,6 +42,187 @@ function ScoreBar({ score, label, maxScore = 1.0 }: { score: number; label: stri
     );
 }
 
+function ProgressSummary({ progress }: { progress: ExperimentProgress }) {
+    const pct = progress.totalConfigs > 0 ? (progress.completedConfigs / progress.totalConfigs) * 100 : 0;
+    return (
+        <div>
+            <h4 className="text-sm font-medium text-muted-foreground mb-2">Progress</h4>
+            <div className="flex items-center gap-3 text-sm">
+                <div className="flex-1 h-2 bg-muted/30 rounded-full overflow-hidden">
+                    <div className="h-full bg-primary/70 rounded-full transition-all" style={{ width: `${pct}%` }} />
+                </div>
+                <span className="font-mono text-xs">
+                    {progress.completedConfigs}/{progress.totalConfigs} configs evaluated
+                </span>
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+                {progress.enqueuedConfigs} enqueued · updated {new Date(progress.updatedAt).toLocaleString()}
+            </p>
+        </div>
+    );
+}
+
+const TRACE_COLORS = ['#3b82f6', '#ef4444', '#22c55e', '#eab308', '#a855f7', '#14b8a6'];
+
+function formatP(p: number): string {
+    return p < 0.001 ? '<0.001' : p.toFixed(3);
+}
+
+function EffectsTable({ model }: { model: ExperimentMixedModel }) {
+    const references = Object.entries(model.referenceLevels).map(([f, level]) => `${f}=${level}`).join(', ');
+    return (
+        <div className="space-y-3">
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-xs text-muted-foreground border-b border-border/50">
+                            <th className="py-1.5 pr-3 font-medium">Term</th>
+                            <th className="py-1.5 px-3 font-medium text-right">Estimate</th>
+                            <th className="py-1.5 px-3 font-medium text-right">95% CI</th>
+                            <th className="py-1.5 pl-3 font-medium text-right">p</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {model.coefficients.map(c => {
+                            const significant = c.factors.length > 0 && c.pValue < 0.05;
+                            return (
+                                <tr key={c.term} className={`border-b border-border/30 ${c.factors.length > 1 ? 'bg-muted/10' : ''}`}>
+                                    <td className="py-1.5 pr-3 font-mono text-xs">{c.term}</td>
+                                    <td className={`py-1.5 px-3 font-mono text-xs text-right ${significant ? 'font-semibold' : ''}`}>
+                                        {c.factors.length > 0 && c.estimate >= 0 ? '+' : ''}{c.estimate.toFixed(4)}
+                                    </td>
+                                    <td className="py-1.5 px-3 font-mono text-xs text-right text-muted-foreground">
+                                        [{c.ci95Low.toFixed(4)}, {c.ci95High.toFixed(4)}]
+                                    </td>
+                                    <td className={`py-1.5 pl-3 font-mono text-xs text-right ${significant ? 'text-green-600 dark:text-green-400' : 'text-muted-foreground'}`}>
+                                        {c.factors.length > 0 ? formatP(c.pValue) : ''}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            {model.terms.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {model.terms.map(t => (
+                        <span key={t.term} className={`px-2 py-0.5 rounded text-xs font-mono ${t.pValue < 0.05 ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' : 'bg-muted/30 text-muted-foreground'}`}>
+                            {t.term}: χ²({t.df})={t.chiSquare.toFixed(2)}, p={formatP(t.pValue)}
+                        </span>
+                    ))}
+                </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+                {model.formula} · n={model.observations.toLocaleString()} · effects relative to {references}.
+                Variance: question {model.varianceComponents.question.toExponential(2)}, segment {model.varianceComponents.segment.toExponential(2)}, residual {model.varianceComponents.residual.toExponential(2)}
+                {!model.converged && ' · did not converge'}
+            </p>
+        </div>
+    );
+}
+
+/** Mean score per level of one factor, one line per level of another; non-parallel lines indicate an interaction */
+function InteractionPlot({ model, factors }: { model: ExperimentMixedModel; factors: Record<string, Array<string | number>> }) {
+    const factorNames = Object.keys(factors);
+    const [xFactor, setXFactor] = useState(factorNames[0]);
+    const [traceFactor, setTraceFactor] = useState<string | null>(factorNames[1] ?? null);
+
+    const mean = (match: Record<string, string | number>) => {
+        let sum = 0;
+        let n = 0;
+        for (const cell of model.cellMeans) {
+            if (Object.entries(match).every(([f, level]) => cell.levels[f] === level)) {
+                sum += cell.mean * cell.n;
+                n += cell.n;
+            }
+        }
+        return n > 0 ? sum / n : null;
+    };
+
+    const xLevels = factors[xFactor] ?? [];
+    const traceLevels: Array<string | number | null> = traceFactor ? factors[traceFactor] : [null];
+    const lines = traceLevels.map(trace => ({
+        trace,
+        points: xLevels.map(x => mean(traceFactor && trace !== null ? { [xFactor]: x, [traceFactor]: trace } : { [xFactor]: x })),
+    }));
+    const values = lines.flatMap(l => l.points).filter((v): v is number => v !== null);
+    if (values.length === 0) return null;
+
+    const W = 360, H = 200;
+    const pad = { top: 12, right: 16, bottom: 32, left: 48 };
+    const pW = W - pad.left - pad.right;
+    const pH = H - pad.top - pad.bottom;
+    const span = Math.max(...values) - Math.min(...values) || 0.01;
+    const yMin = Math.min(...values) - span * 0.15;
+    const yMax = Math.max(...values) + span * 0.15;
+    const x = (i: number) => pad.left + (xLevels.length > 1 ? (i / (xLevels.length - 1)) * pW : pW / 2);
+    const y = (v: number) => pad.top + pH - ((v - yMin) / (yMax - yMin)) * pH;
+
+    return (
+        <div className="space-y-2">
+            {factorNames.length > 1 && (
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <label>
+                        x-axis{' '}
+                        <select className="bg-muted/30 rounded px-1 py-0.5" value={xFactor}
+                            onChange={e => {
+                                setXFactor(e.target.value);
+                                if (traceFactor === e.target.value) setTraceFactor(factorNames.find(f => f !== e.target.value) ?? null);
+                            }}>
+                            {factorNames.map(f => <option key={f} value={f}>{f}</option>)}
+                        </select>
+                    </label>
+                    <label>
+                        lines{' '}
+                        <select className="bg-muted/30 rounded px-1 py-0.5" value={traceFactor ?? ''}
+                            onChange={e => setTraceFactor(e.target.value || null)}>
+                            {factorNames.filter(f => f !== xFactor).map(f => <option key={f} value={f}>{f}</option>)}
+                        </select>
+                    </label>
+                </div>
+            )}
+            <svg width={W} height={H} viewBox={`0 0 ${W} ${H}`} className="block">
+                <line x1={pad.left} y1={pad.top} x2={pad.left} y2={pad.top + pH} stroke="currentColor" opacity={0.15} />
+                <line x1={pad.left} y1={pad.top + pH} x2={pad.left + pW} y2={pad.top + pH} stroke="currentColor" opacity={0.15} />
+                {[yMin, (yMin + yMax) / 2, yMax].map(v => (
+                    <text key={v} x={pad.left - 6} y={y(v) + 3} textAnchor="end" fontSize={9} fill="currentColor" opacity={0.5}>{v.toFixed(3)}</text>
+                ))}
+                {xLevels.map((level, i) => (
+                    <text key={String(level)} x={x(i)} y={H - pad.bottom + 14} textAnchor="middle" fontSize={10} fill="currentColor" opacity={0.7}>{String(level)}</text>
+                ))}
+                {lines.map((line, li) => {
+                    const color = TRACE_COLORS[li % TRACE_COLORS.length];
+                    const pts = line.points.map((v, i) => (v === null ? null : { cx: x(i), cy: y(v), v }));
+                    return (
+                        <g key={String(line.trace)}>
+                            <polyline
+                                points={pts.filter(p => p !== null).map(p => `${p!.cx},${p!.cy}`).join(' ')}
+                                fill="none" stroke={color} strokeWidth={1.5}
+                            />
+                            {pts.map((p, i) => p && (
+                                <circle key={i} cx={p.cx} cy={p.cy} r={3.5} fill={color} stroke="white" strokeWidth={1}>
+                                    <title>{`${xFactor}=${xLevels[i]}${traceFactor ? `, ${traceFactor}=${line.trace}` : ''}: ${p.v.toFixed(4)}`}</title>
+                                </circle>
+                            ))}
+                        </g>
+                    );
+                })}
+                <text x={pad.left + pW / 2} y={H - 4} textAnchor="middle" fontSize={10} fill="currentColor" opacity={0.6}>{xFactor}</text>
+            </svg>
+            {traceFactor && (
+                <div className="flex flex-wrap gap-3 text-xs">
+                    {traceLevels.map((level, li) => (
+                        <span key={String(level)} className="inline-flex items-center gap-1">
+                            <span className="inline-block w-3 h-0.5" style={{ backgroundColor: TRACE_COLORS[li % TRACE_COLORS.length] }} />
+                            {traceFactor}={String(level)}
+                        </span>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
 function ExperimentCard({ experiment, expanded, onToggle }: {
     experiment: ExperimentRecord;
     expanded: boolean;
@@ -101,16 +282,27 @@ function ExperimentCard({ experiment, expanded, onToggle }: {
                         <div>
                             <h4 className="text-sm font-medium text-muted-foreground mb-2">Conditions</h4>
                             <div className="flex flex-wrap gap-2">
-                                {Object.entries(experiment.design.conditionMap).map(([name, configIds]) => (
-                                    <span key={name} className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-muted/30 text-sm">
-                                        <span className="font-mono text-xs">{name}</span>
-                                        <span className="text-muted-foreground text-xs">({(configIds as string[]).length} configs)</span>
-                                    </span>
-                                ))}
+                                {Object.entries(experiment.design.conditionMap).map(([name, configIds]) => {
+                                    const conditionProgress = experiment.progress?.byCondition[name];
+                                    return (
+                                        <span key={name} className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-muted/30 text-sm">
+                                            <span className="font-mono text-xs">{name}</span>
+                                            <span className="text-muted-foreground text-xs">
+                                                {conditionProgress
+                                                    ? `(${conditionProgress.completed}/${conditionProgress.total} evaluated)`
+                                                    : `(${(configIds as string[]).length} configs)`}
+                                            </span>
+                                        </span>
+                                    );
+                                })}
                             </div>
                         </div>
                     )}
 
+                    {experiment.progress && experiment.progress.completedConfigs < experiment.progress.totalConfigs && (
+                        <ProgressSummary progress={experiment.progress} />
+                    )}
+
                     {experiment.results?.conditionScores && (
                         <div>
                             <h4 className="text-sm font-medium text-muted-foreground mb-2">Score Comparison</h4>
@@ -122,6 +314,21 @@ function ExperimentCard({ experiment, expanded, onToggle }: {
                         </div>
                     )}
 
+                    {experiment.results?.mixedModel && (
+                        <div className="grid grid-cols-1 lg:grid-cols-[3fr_2fr] gap-6">
+                            <div>
+                                <h4 className="text-sm font-medium text-muted-foreground mb-2">Effects (mixed model)</h4>
+                                <EffectsTable model={experiment.results.mixedModel} />
+                            </div>
+                            {experiment.design.factors && (
+                                <div>
+                                    <h4 className="text-sm font-medium text-muted-foreground mb-2">Interaction Plot</h4>
+                                    <InteractionPlot model={experiment.results.mixedModel} factors={experiment.design.factors} />
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {experiment.results && (
                         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                             {experiment.results.summary && (
@@ -1,77 +1,37 @@
 'use client';
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { getModelDisplayLabel } from '@/app/utils/modelIdUtils';
+import { getCategoryLabel } from '@/lib/segmentUtils';
+import type { DTEFFindings, DTEFFindingsHistory } from '@/types/findings';
+
+type Baselines = DTEFFindings['baselines'];
+
+function formatModelName(modelId: string): string {
+    return getModelDisplayLabel(modelId, {
+        hideProvider: true,
+        hideModelMaker: true,
+        prettifyModelName: true,
+    });
+}
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Updatable data constants — edit these when new analysis runs complete
-// ─────────────────────────────────────────────────────────────────────────────
+function formatAnalysisDate(iso: string): string {
+    return new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
 
-const STATS = {
-    /** Date the underlying statistical analysis was generated */
-    analysisDate: 'February 2026',
-    /** Number of survey rounds evaluated */
-    surveyRounds: 8,
-    /** Total number of AI models evaluated */
-    modelCount: 24,
-    /** Total evaluation results processed */
-    resultCount: 1308,
-    /** Total segment-question score data points */
-    scoreDataPoints: '929,597',
-    /** Baselines — computed from baselineGeneratorService.ts across all GD rounds */
-    baselines: {
-        uniform: 0.647,
-        populationMarginal: 0.833,
-        /** Cross-segment similarity: avg JSD between each segment and all other
-         *  segments on the same question. See baselineGeneratorService.ts "shuffled" type.
-         *  This is NOT a shuffled-question baseline (same segment, different question). */
-        shuffled: 0.761,
-    },
-    /** Best model score and name */
-    bestModel: { name: 'Claude Sonnet 4.5', score: 0.767 },
-    /** Average model score */
-    avgModelScore: 0.730,
-    /** Pairwise significance */
-    pairwise: {
-        significantPairs: 237,
-        totalPairs: 273,
-        percentage: 86.8,
-    },
-    /** Context responsive models (overall significant) */
-    contextResponsiveModels: 9,
-    /** Category-level significant model x category pairs */
-    significantModelCategoryPairs: 19,
-    totalModelCategoryPairs: 93,
-    /** Data quality by category */
-    categories: [
-        { name: 'Gender', avgSampleSize: 516, noiseFloor: 0.928, reliable: 99.3 },
-        { name: 'AI Concern', avgSampleSize: 350, noiseFloor: 0.899, reliable: 100 },
-        { name: 'Environment', avgSampleSize: 350, noiseFloor: 0.888, reliable: 100 },
-        { name: 'Age', avgSampleSize: 203, noiseFloor: 0.850, reliable: 94.7 },
-        { name: 'Religion', avgSampleSize: 149, noiseFloor: 0.781, reliable: 73.6 },
-        { name: 'Country', avgSampleSize: 33, noiseFloor: 0.640, reliable: 30.7 },
-    ],
-    /** Top models for context responsiveness */
-    topContextModels: [
-        { name: 'GPT-5', slope: 0.00387, categories: ['Country', 'Religion', 'Environment'] },
-        { name: 'Qwen3-32B', slope: 0.00318, categories: ['Country', 'Environment'] },
-        { name: 'Claude 3.7 Sonnet', slope: 0.00152, categories: ['Gender', 'Country', 'Environment', 'Religion'] },
-    ],
-    /** Top 10 models for the leaderboard display */
-    topModels: [
-        { name: 'Claude Sonnet 4.5', score: 0.767 },
-        { name: 'Claude 3.7 Sonnet', score: 0.765 },
-        { name: 'Claude Sonnet 4', score: 0.761 },
-        { name: 'GPT-5.1', score: 0.761 },
-        { name: 'Claude Haiku 4.5', score: 0.754 },
-        { name: 'GPT-4.1', score: 0.753 },
-        { name: 'GPT-4o', score: 0.749 },
-        { name: 'GPT-5', score: 0.749 },
-        { name: 'Mistral Medium 3', score: 0.742 },
-        { name: 'GPT-4.1 Mini', score: 0.742 },
-    ],
-};
+/** "GD1–GD7" for a contiguous set of round IDs, otherwise a comma-separated list */
+function formatSurveyRange(surveyIds: string[]): string {
+    const ids = [...surveyIds].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    const labels = ids.map(id => id.toUpperCase());
+    if (ids.length <= 2) return labels.join(', ');
+
+    // Contiguous means one shared prefix with consecutive round numbers, e.g. gd1, gd2, gd3
+    const parts = ids.map(id => id.match(/^(.*?)(\d+)$/));
+    const contiguous = parts.every((m, i) => m && m[1] === parts[0]![1] && Number(m[2]) === Number(parts[0]![2]) + i);
+    return contiguous ? `${labels[0]}\u2013${labels[labels.length - 1]}` : labels.join(', ');
+}
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Helper components
@@ -87,11 +47,12 @@ function StatCard({ value, label, sublabel }: { value: string; label: string; su
     );
 }
 
-function ScoreBar({ score, label, color, showBaselines }: {
+function ScoreBar({ score, label, color, baselines }: {
     score: number;
     label: string;
     color: string;
-    showBaselines?: boolean;
+    /** Draws baseline markers when provided */
+    baselines?: Baselines;
 }) {
     const pct = Math.max(0, Math.min(100, score * 100));
     return (
@@ -102,16 +63,16 @@ function ScoreBar({ score, label, color, showBaselines }: {
                     className={`h-full rounded-full transition-all duration-700 ${color}`}
                     style={{ width: `${pct}%` }}
                 />
-                {showBaselines && (
+                {baselines && (
                     <>
                         <div
                             className="absolute top-0 h-full w-px bg-foreground/40"
-                            style={{ left: `${STATS.baselines.populationMarginal * 100}%` }}
+                            style={{ left: `${baselines.populationMarginal * 100}%` }}
                             title="Population Marginal Baseline"
                         />
                         <div
                             className="absolute top-0 h-full w-px bg-foreground/20 border-dashed"
-                            style={{ left: `${STATS.baselines.uniform * 100}%` }}
+                            style={{ left: `${baselines.uniform * 100}%` }}
                             title="Uniform Baseline"
                         />
                     </>
@@ -147,15 +108,140 @@ function QualityDot({ pct }: { pct: number }) {
     return <span className={`inline-block w-2.5 h-2.5 rounded-full ${color}`} />;
 }
 
+function ProvenancePanel({ findings, history, selectedVersion, onSelectVersion }: {
+    findings: DTEFFindings;
+    history: DTEFFindingsHistory | null;
+    selectedVersion: number | null;
+    onSelectVersion: (version: number | null) => void;
+}) {
+    const { provenance } = findings;
+    const latestVersion = history?.snapshots[0]?.version ?? findings.version;
+    return (
+        <div className="bg-muted/20 rounded-lg ring-1 ring-border/50 p-4 text-xs text-muted-foreground space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <span>
+                    Analysis v{findings.version} &middot; generated {formatAnalysisDate(findings.generatedAt)}
+                    {findings.version !== latestVersion && (
+                        <span className="ml-2 text-amber-600 dark:text-amber-400">(viewing a past snapshot)</span>
+                    )}
+                </span>
+                {history && history.snapshots.length > 1 && (
+                    <label className="flex items-center gap-2">
+                        <span>Snapshot</span>
+                        <select
+                            className="bg-background rounded-md ring-1 ring-border/50 px-2 py-1 text-xs text-foreground"
+                            value={selectedVersion ?? ''}
+                            onChange={e => onSelectVersion(e.target.value ? Number(e.target.value) : null)}
+                        >
+                            <option value="">Latest</option>
+                            {history.snapshots.map(snap => (
+                                <option key={snap.version} value={snap.version}>
+                                    v{snap.version} &middot; {new Date(snap.generatedAt).toLocaleDateString()} &middot; {snap.modelCount} models
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+            </div>
+            <p>
+                Data: {provenance.surveys.map(s => s.surveyName || s.surveyId).join(', ')} &middot;{' '}
+                {provenance.resultCount.toLocaleString()} evaluation results from {provenance.configCount.toLocaleString()} blueprints &middot;{' '}
+                {provenance.groundTruthPairs.toLocaleString()} ground-truth segment-question pairs &middot;{' '}
+                {provenance.iterations.permutation.toLocaleString()} permutation / {provenance.iterations.bootstrap.toLocaleString()} bootstrap iterations
+            </p>
+        </div>
+    );
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Main content
 // ─────────────────────────────────────────────────────────────────────────────
 
 export default function FindingsContent() {
     const [methodOpen, setMethodOpen] = React.useState(false);
+    const [findings, setFindings] = useState<DTEFFindings | null>(null);
+    const [history, setHistory] = useState<DTEFFindingsHistory | null>(null);
+    const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        async function fetchHistory() {
+            try {
+                const res = await fetch('/api/findings?history=true');
+                if (res.ok) setHistory(await res.json());
+            } catch {
+                // The snapshot picker is optional; the latest findings still render
+            }
+        }
+        fetchHistory();
+    }, []);
+
+    useEffect(() => {
+        async function fetchFindings() {
+            setLoading(true);
+            try {
+                const res = await fetch(selectedVersion ? `/api/findings?version=${selectedVersion}` : '/api/findings');
+                if (!res.ok) {
+                    const body = await res.json().catch(() => null);
+                    throw new Error(body?.error || `HTTP ${res.status}`);
+                }
+                setFindings(await res.json());
+                setError(null);
+            } catch (e: any) {
+                setError(e.message);
+            } finally {
+                setLoading(false);
+            }
+        }
+        fetchFindings();
+    }, [selectedVersion]);
+
+    if (loading && !findings) {
+        return (
+            <div className="text-center py-12 text-muted-foreground">
+                Loading findings...
+            </div>
+        );
+    }
+
+    if (error || !findings) {
+        return (
+            <div className="text-center py-12 text-red-500">
+                Error loading findings: {error}
+            </div>
+        );
+    }
+
+    const { baselines, bestModel, pairwise, context, categories } = findings;
+    const analysisDate = formatAnalysisDate(findings.generatedAt);
+    const surveyRange = formatSurveyRange(findings.provenance.surveys.map(s => s.surveyId));
+    const surveyRounds = findings.provenance.surveys.length;
+    const beatsMarginal = !!bestModel && bestModel.score > baselines.populationMarginal;
+    const topModelsAboveMarginal = findings.topModels.filter(m => m.score > baselines.populationMarginal).length;
+    const topModelsAboveUniform = findings.topModels.filter(m => m.score > baselines.uniform).length;
+    // categories are ordered by sample size, largest first
+    const largestCategory = categories[0];
+    const smallestCategory = categories[categories.length - 1];
+    const leastReliableCategory = [...categories].sort((a, b) => a.percentReliable - b.percentReliable)[0];
+    const maxContextSlope = Math.max(0, ...context.topModels.map(m => m.slope));
+    const broadestContextModel = [...context.topModels].sort((a, b) => b.categories.length - a.categories.length)[0];
+
+    // Leaderboard bars span the visible score range rather than 0-1 so small gaps stay legible
+    const barScores = [...findings.topModels.map(m => m.score), baselines.populationMarginal];
+    const barMin = Math.floor((Math.min(...barScores) - 0.02) * 100) / 100;
+    const barMax = Math.ceil((Math.max(...barScores) + 0.02) * 100) / 100;
+    const toBarPct = (score: number) => Math.max(0, Math.min(100, ((score - barMin) / (barMax - barMin)) * 100));
 
     return (
         <div className="space-y-14">
+            <ProvenancePanel
+                findings={findings}
+                history={history}
+                selectedVersion={selectedVersion}
+                onSelectVersion={setSelectedVersion}
+            />
+
             {/* ── Intro: What is a Digital Twin? ────────────────────────────── */}
             <section className="bg-card/40 backdrop-blur-sm rounded-lg ring-1 ring-border/50 p-6 sm:p-8 space-y-4">
                 <h2 className="text-xl sm:text-2xl font-semibold tracking-tight">
@@ -174,8 +260,8 @@ export default function FindingsContent() {
                     </p>
                     <p>
                         The Digital Twin Evaluation Framework (DTEF) is an early-stage research project that attempts to answer that question. Using real survey data from
-                        the <a href="https://globaldialogues.ai/" target="_blank" rel="noopener noreferrer" className="text-primary hover:text-primary/80 transition-colors underline">Global Dialogues</a> project &mdash; {STATS.surveyRounds} rounds
-                        of surveys covering topics from AI governance to social values &mdash; we test {STATS.modelCount} AI models on their
+                        the <a href="https://globaldialogues.ai/" target="_blank" rel="noopener noreferrer" className="text-primary hover:text-primary/80 transition-colors underline">Global Dialogues</a> project &mdash; {surveyRounds} rounds
+                        of surveys covering topics from AI governance to social values &mdash; we test {findings.modelCount} AI models on their
                         ability to predict how specific demographic groups actually responded. These are preliminary findings from an ongoing investigation.
                     </p>
                 </div>
@@ -183,10 +269,10 @@ export default function FindingsContent() {
 
             {/* ── Summary Stats ─────────────────────────────────────────────── */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                <StatCard value={String(STATS.modelCount)} label="AI Models Tested" sublabel="across major providers" />
-                <StatCard value={String(STATS.surveyRounds)} label="Survey Rounds" sublabel="Global Dialogues GD1-GD7" />
-                <StatCard value={STATS.scoreDataPoints} label="Data Points" sublabel="segment-question scores" />
-                <StatCard value={`${STATS.pairwise.percentage}%`} label="Pairs Significant" sublabel="statistically distinguishable" />
+                <StatCard value={String(findings.modelCount)} label="AI Models Tested" sublabel="across major providers" />
+                <StatCard value={String(surveyRounds)} label="Survey Rounds" sublabel={`Global Dialogues ${surveyRange}`} />
+                <StatCard value={findings.scoreDataPoints.toLocaleString()} label="Data Points" sublabel="segment-question scores" />
+                <StatCard value={`${pairwise.percentage}%`} label="Pairs Significant" sublabel="statistically distinguishable" />
             </div>
 
             {/* ── Finding 1: The Baseline Challenge ─────────────────────────── */}
@@ -198,34 +284,46 @@ export default function FindingsContent() {
                     </p>
 
                     <div className="space-y-2.5 max-w-3xl">
-                        <ScoreBar score={STATS.baselines.populationMarginal} label="Population Marginal" color="bg-amber-500/80" />
-                        <ScoreBar score={STATS.baselines.shuffled} label="Random Segment" color="bg-slate-400/60" />
-                        <ScoreBar score={STATS.bestModel.score} label={STATS.bestModel.name} color="bg-primary/80" showBaselines />
-                        <ScoreBar score={STATS.avgModelScore} label="Average Model" color="bg-primary/50" showBaselines />
-                        <ScoreBar score={STATS.baselines.uniform} label="Uniform (Random)" color="bg-red-400/50" />
+                        <ScoreBar score={baselines.populationMarginal} label="Population Marginal" color="bg-amber-500/80" />
+                        <ScoreBar score={baselines.shuffled} label="Random Segment" color="bg-slate-400/60" />
+                        {bestModel && (
+                            <ScoreBar score={bestModel.score} label={formatModelName(bestModel.modelId)} color="bg-primary/80" baselines={baselines} />
+                        )}
+                        {findings.avgModelScore !== null && (
+                            <ScoreBar score={findings.avgModelScore} label="Average Model" color="bg-primary/50" baselines={baselines} />
+                        )}
+                        <ScoreBar score={baselines.uniform} label="Uniform (Random)" color="bg-red-400/50" />
                     </div>
 
                     <div className="mt-4 space-y-3">
-                        <div className="bg-amber-500/10 border border-amber-500/30 rounded-md p-4">
-                            <p className="text-sm font-medium text-foreground">
-                                Key finding: No AI model yet outperforms the population marginal baseline.
-                            </p>
-                            <p className="text-xs text-muted-foreground mt-1.5 leading-relaxed">
-                                The <strong>population marginal</strong> simply predicts the overall population&rsquo;s answer distribution, ignoring demographics entirely.
-                                Its score of <span className="font-mono">{STATS.baselines.populationMarginal.toFixed(3)}</span> means
-                                that knowing &ldquo;what people in general think&rdquo; is still a better predictor than any AI model&rsquo;s attempt
-                                to account for demographic differences.
-                                The best model ({STATS.bestModel.name}) scores <span className="font-mono">{STATS.bestModel.score.toFixed(3)}</span> &mdash;
-                                a gap of <span className="font-mono">{(STATS.baselines.populationMarginal - STATS.bestModel.score).toFixed(3)}</span>.
-                            </p>
-                        </div>
+                        {bestModel && (
+                            <div className="bg-amber-500/10 border border-amber-500/30 rounded-md p-4">
+                                <p className="text-sm font-medium text-foreground">
+                                    {beatsMarginal
+                                        ? `Key finding: ${formatModelName(bestModel.modelId)} now outperforms the population marginal baseline.`
+                                        : 'Key finding: No AI model yet outperforms the population marginal baseline.'}
+                                </p>
+                                <p className="text-xs text-muted-foreground mt-1.5 leading-relaxed">
+                                    The <strong>population marginal</strong> simply predicts the overall population&rsquo;s answer distribution, ignoring demographics entirely.
+                                    Its score of <span className="font-mono">{baselines.populationMarginal.toFixed(3)}</span> means
+                                    that knowing &ldquo;what people in general think&rdquo; is {beatsMarginal ? 'a strong' : 'still a better'} predictor
+                                    {beatsMarginal ? ' that only the best models edge past' : ' than any AI model\u2019s attempt to account for demographic differences'}.
+                                    The best model ({formatModelName(bestModel.modelId)}) scores <span className="font-mono">{bestModel.score.toFixed(3)}</span> &mdash;
+                                    a gap of <span className="font-mono">{Math.abs(baselines.populationMarginal - bestModel.score).toFixed(3)}</span>.
+                                </p>
+                            </div>
+                        )}
 
                         <p className="text-xs text-muted-foreground leading-relaxed">
-                            The <strong>random segment</strong> baseline ({STATS.baselines.shuffled.toFixed(3)}) shuffles which demographic group&rsquo;s
+                            The <strong>random segment</strong> baseline ({baselines.shuffled.toFixed(3)}) shuffles which demographic group&rsquo;s
                             answers go with which question &mdash; it measures how well you&rsquo;d score if group identity were irrelevant.
-                            All models significantly outperform the <strong>uniform baseline</strong> ({STATS.baselines.uniform.toFixed(3)}),
-                            which guesses equal probability for every option. Models have learned <em>what people in general think</em>,
-                            but not yet <em>how specific demographics differ from the average</em>.
+                            {topModelsAboveUniform === findings.topModels.length
+                                ? `All ${findings.topModels.length} top models outperform`
+                                : `${topModelsAboveUniform} of the ${findings.topModels.length} top models outperform`} the <strong>uniform baseline</strong> ({baselines.uniform.toFixed(3)}),
+                            which guesses equal probability for every option.
+                            {beatsMarginal
+                                ? <> Beyond <em>what people in general think</em>, the best models are starting to capture <em>how specific demographics differ from the average</em>.</>
+                                : <> Models have learned <em>what people in general think</em>, but not yet <em>how specific demographics differ from the average</em>.</>}
                         </p>
                     </div>
                 </div>
@@ -235,10 +333,12 @@ export default function FindingsContent() {
             <FindingSection number={2} title="Model Differences Are Statistically Meaningful">
                 <div className="bg-card/40 backdrop-blur-sm rounded-lg ring-1 ring-border/50 p-6 space-y-5">
                     <p className="text-sm text-foreground/80 leading-relaxed max-w-4xl">
-                        Despite all models falling below the population marginal baseline, their differences appear
-                        statistically meaningful. Permutation testing (10,000 iterations) with Holm-Bonferroni correction
-                        suggests that <strong>{STATS.pairwise.significantPairs} of {STATS.pairwise.totalPairs}</strong> model
-                        pairs ({STATS.pairwise.percentage}%) are significantly different at the 0.05 level. However,
+                        {beatsMarginal
+                            ? `With ${topModelsAboveMarginal} of the top ${findings.topModels.length} models above the population marginal baseline, model differences appear`
+                            : 'Despite all models falling below the population marginal baseline, their differences appear'}
+                        {' '}statistically meaningful. Permutation testing ({findings.provenance.iterations.permutation.toLocaleString()} iterations) with Holm-Bonferroni correction
+                        suggests that <strong>{pairwise.significantPairs} of {pairwise.totalPairs}</strong> model
+                        pairs ({pairwise.percentage}%) are significantly different at the {pairwise.alpha} level. However,
                         statistical significance does not necessarily imply practical importance &mdash; many differences are small.
                     </p>
 
@@ -253,23 +353,23 @@ export default function FindingsContent() {
                                 </tr>
                             </thead>
                             <tbody>
-                                {STATS.topModels.map((m, i) => {
-                                    const pct = ((m.score - 0.63) / (0.85 - 0.63)) * 100;
-                                    const margPct = ((STATS.baselines.populationMarginal - 0.63) / (0.85 - 0.63)) * 100;
+                                {findings.topModels.map((m, i) => {
+                                    const pct = toBarPct(m.score);
+                                    const margPct = toBarPct(baselines.populationMarginal);
                                     return (
-                                        <tr key={m.name} className="border-b border-border/20 last:border-0">
+                                        <tr key={m.modelId} className="border-b border-border/20 last:border-0">
                                             <td className="py-2.5 pr-4 font-mono text-muted-foreground">{i + 1}</td>
-                                            <td className="py-2.5 pr-4 font-medium">{m.name}</td>
+                                            <td className="py-2.5 pr-4 font-medium">{formatModelName(m.modelId)}</td>
                                             <td className="py-2.5 pr-4 text-right font-mono">{m.score.toFixed(3)}</td>
                                             <td className="py-2.5">
                                                 <div className="relative h-4 bg-muted/30 rounded-full overflow-visible">
                                                     <div
                                                         className="h-full rounded-full bg-primary/70"
-                                                        style={{ width: `${Math.max(0, Math.min(100, pct))}%` }}
+                                                        style={{ width: `${pct}%` }}
                                                     />
                                                     <div
                                                         className="absolute top-0 h-full w-0.5 bg-amber-500/80"
-                                                        style={{ left: `${Math.max(0, Math.min(100, margPct))}%` }}
+                                                        style={{ left: `${margPct}%` }}
                                                         title="Population Marginal"
                                                     />
                                                 </div>
@@ -282,7 +382,7 @@ export default function FindingsContent() {
                     </div>
 
                     <p className="text-xs text-muted-foreground text-center">
-                        Top 10 of {STATS.modelCount} models. Amber line = population marginal baseline ({STATS.baselines.populationMarginal.toFixed(3)}).
+                        Top {findings.topModels.length} of {findings.modelCount} models. Amber line = population marginal baseline ({baselines.populationMarginal.toFixed(3)}).
                         Full rankings on the <Link href="/demographics" className="text-primary hover:text-primary/80 underline">demographics page</Link>.
                     </p>
                 </div>
@@ -293,9 +393,14 @@ export default function FindingsContent() {
                 <div className="bg-card/40 backdrop-blur-sm rounded-lg ring-1 ring-border/50 p-6 space-y-5">
                     <p className="text-sm text-foreground/80 leading-relaxed max-w-4xl">
                         The reliability of these evaluations depends heavily on how many survey respondents we have per demographic
-                        segment. Categories like <strong>gender</strong> (avg. 516 respondents) produce relatively stable benchmarks,
-                        while <strong>country-level</strong> segments (avg. 33 respondents) have enough sampling noise that
-                        apparent model differences may not be real. This is a significant limitation of the current dataset.
+                        segment.
+                        {largestCategory && smallestCategory && largestCategory !== smallestCategory && (
+                            <>
+                                {' '}Categories like <strong>{getCategoryLabel(largestCategory.category).toLowerCase()}</strong> (avg. {Math.round(largestCategory.avgSampleSize)} respondents) produce relatively stable benchmarks,
+                                while <strong>{getCategoryLabel(smallestCategory.category).toLowerCase()}</strong> segments (avg. {Math.round(smallestCategory.avgSampleSize)} respondents) have enough sampling noise that
+                                apparent model differences may not be real. This is a significant limitation of the current dataset.
+                            </>
+                        )}
                     </p>
 
                     <div className="overflow-x-auto">
@@ -310,13 +415,13 @@ export default function FindingsContent() {
                                 </tr>
                             </thead>
                             <tbody>
-                                {STATS.categories.map(c => (
-                                    <tr key={c.name} className="border-b border-border/20 last:border-0">
-                                        <td className="py-2.5 pr-4 font-medium">{c.name}</td>
-                                        <td className="py-2.5 pr-4 text-right font-mono">{c.avgSampleSize}</td>
+                                {categories.map(c => (
+                                    <tr key={c.category} className="border-b border-border/20 last:border-0">
+                                        <td className="py-2.5 pr-4 font-medium">{getCategoryLabel(c.category)}</td>
+                                        <td className="py-2.5 pr-4 text-right font-mono">{Math.round(c.avgSampleSize)}</td>
                                         <td className="py-2.5 pr-4 text-right font-mono">{c.noiseFloor.toFixed(3)}</td>
-                                        <td className="py-2.5 pr-4 text-center"><QualityDot pct={c.reliable} /></td>
-                                        <td className="py-2.5 text-right font-mono">{c.reliable.toFixed(1)}%</td>
+                                        <td className="py-2.5 pr-4 text-center"><QualityDot pct={c.percentReliable} /></td>
+                                        <td className="py-2.5 text-right font-mono">{c.percentReliable.toFixed(1)}%</td>
                                     </tr>
                                 ))}
                             </tbody>
@@ -337,9 +442,16 @@ export default function FindingsContent() {
                         <CollapsibleContent>
                             <p className="text-xs text-muted-foreground mt-2 leading-relaxed max-w-3xl">
                                 The noise floor measures how similar two random samples from the <em>same</em> population would
-                                look, given the sample size. A noise floor of 0.928 (gender) means that even perfect predictions
-                                would only score ~0.93 due to sampling uncertainty. When the noise floor is low (0.64 for country),
-                                random sampling variation alone could explain apparent differences between models. We use the formula:
+                                look, given the sample size.
+                                {largestCategory && smallestCategory && (
+                                    <>
+                                        {' '}A noise floor of {largestCategory.noiseFloor.toFixed(3)} ({getCategoryLabel(largestCategory.category).toLowerCase()}) means that even perfect predictions
+                                        would only score ~{largestCategory.noiseFloor.toFixed(2)} due to sampling uncertainty. When the noise floor is low
+                                        ({smallestCategory.noiseFloor.toFixed(2)} for {getCategoryLabel(smallestCategory.category).toLowerCase()}),
+                                        random sampling variation alone could explain apparent differences between models.
+                                    </>
+                                )}
+                                {' '}We use the formula:
                                 <span className="font-mono ml-1">1 - sqrt((k-1) / (2n * ln2))</span>.
                             </p>
                         </CollapsibleContent>
@@ -376,18 +488,18 @@ export default function FindingsContent() {
 
                     <div className="space-y-4 mt-2">
                         <p className="text-sm font-medium text-foreground">
-                            Only {STATS.contextResponsiveModels} of {STATS.modelCount} models show statistically significant improvement with more context:
+                            Only {context.responsiveModels} of {context.testedModels} models show statistically significant improvement with more context:
                         </p>
 
                         <div className="space-y-3">
-                            {STATS.topContextModels.map(m => (
-                                <div key={m.name} className="flex items-start gap-3">
-                                    <div className="w-40 sm:w-48 text-sm font-medium shrink-0">{m.name}</div>
+                            {context.topModels.map(m => (
+                                <div key={m.modelId} className="flex items-start gap-3">
+                                    <div className="w-40 sm:w-48 text-sm font-medium shrink-0">{formatModelName(m.modelId)}</div>
                                     <div className="flex-1">
                                         <div className="relative h-5 bg-muted/30 rounded-full overflow-hidden">
                                             <div
                                                 className="h-full rounded-full bg-indigo-500/70"
-                                                style={{ width: `${Math.min(100, (m.slope / 0.004) * 100)}%` }}
+                                                style={{ width: `${maxContextSlope > 0 ? Math.min(100, (m.slope / maxContextSlope) * 100) : 0}%` }}
                                             />
                                         </div>
                                         <div className="flex items-center justify-between mt-1">
@@ -408,11 +520,11 @@ export default function FindingsContent() {
                                 Most models don&rsquo;t benefit from additional context.
                             </p>
                             <p className="text-xs text-muted-foreground mt-1.5 leading-relaxed">
-                                Of the {STATS.modelCount} models tested, 15 show flat or <em>negative</em> slopes &mdash; meaning
+                                Of the {context.testedModels} models tested, {context.nonPositiveSlopeModels} show flat or <em>negative</em> slopes &mdash; meaning
                                 more demographic evidence doesn&rsquo;t help (or slightly hurts) their predictions. One interpretation is
                                 that these models may rely on fixed assumptions about demographic groups rather than reasoning
                                 from the provided data, though other explanations are possible.
-                                At the category level, only <strong>{STATS.significantModelCategoryPairs}</strong> of {STATS.totalModelCategoryPairs} model-category
+                                At the category level, only <strong>{context.significantModelCategoryPairs}</strong> of {context.totalModelCategoryPairs} model-category
                                 pairs survive joint statistical correction.
                             </p>
                         </div>
@@ -424,23 +536,25 @@ export default function FindingsContent() {
             <FindingSection number={5} title="Confidence in the Rankings">
                 <div className="bg-card/40 backdrop-blur-sm rounded-lg ring-1 ring-border/50 p-6 space-y-5">
                     <p className="text-sm text-foreground/80 leading-relaxed max-w-4xl">
-                        Bootstrap resampling (1,000 iterations) shows that while model <em>ranks</em> are broadly stable,
+                        Bootstrap resampling ({findings.provenance.iterations.bootstrap.toLocaleString()} iterations) shows that while model <em>ranks</em> are broadly stable,
                         the score differences between adjacent models are small enough that their confidence intervals overlap.
                     </p>
 
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                         <div className="bg-muted/20 rounded-md p-4 space-y-1">
-                            <div className="text-2xl font-bold text-primary">22 of 23</div>
+                            <div className="text-2xl font-bold text-primary">{findings.bootstrap.overlappingAdjacentPairs} of {findings.bootstrap.adjacentPairs}</div>
                             <div className="text-sm text-foreground/80">adjacent model pairs have overlapping 95% CIs</div>
                             <div className="text-xs text-muted-foreground mt-1">
                                 Adjacent models&rsquo; score differences may not be meaningful given survey sampling uncertainty.
                             </div>
                         </div>
                         <div className="bg-muted/20 rounded-md p-4 space-y-1">
-                            <div className="text-2xl font-bold text-primary">0</div>
+                            <div className="text-2xl font-bold text-primary">{findings.weightedRankChanges}</div>
                             <div className="text-sm text-foreground/80">rank changes from sample-size weighting</div>
                             <div className="text-xs text-muted-foreground mt-1">
-                                Rankings appear stable: weighting by respondent count (&#8730;n) produces no rank changes in this dataset.
+                                {findings.weightedRankChanges === 0
+                                    ? <>Rankings appear stable: weighting by respondent count (&#8730;n) produces no rank changes in this dataset.</>
+                                    : <>Weighting by respondent count (&#8730;n) reorders {findings.weightedRankChanges} of {findings.modelCount} models.</>}
                             </div>
                         </div>
                     </div>
@@ -462,9 +576,13 @@ export default function FindingsContent() {
                     <div className="bg-card/40 backdrop-blur-sm rounded-lg ring-1 ring-border/50 p-6 space-y-3">
                         <h3 className="text-base font-semibold text-foreground">The Gap Is Measurable</h3>
                         <p className="text-sm text-foreground/80 leading-relaxed">
-                            In our tests, AI models appear to know what people in general think, but haven&rsquo;t yet learned how specific
-                            demographics <em>differ</em> from that average. The gap between the best model ({STATS.bestModel.score.toFixed(3)})
-                            and the population marginal baseline ({STATS.baselines.populationMarginal.toFixed(3)}) gives us a concrete
+                            {beatsMarginal
+                                ? <>In our tests, the best AI models are beginning to learn how specific demographics <em>differ</em> from what
+                                    people in general think, though only narrowly.</>
+                                : <>In our tests, AI models appear to know what people in general think, but haven&rsquo;t yet learned how specific
+                                    demographics <em>differ</em> from that average.</>}
+                            {' '}The gap between the best model ({bestModel?.score.toFixed(3) ?? '\u2014'})
+                            and the population marginal baseline ({baselines.populationMarginal.toFixed(3)}) gives us a concrete
                             metric to track over time.
                         </p>
                     </div>
@@ -472,7 +590,7 @@ export default function FindingsContent() {
                     <div className="bg-card/40 backdrop-blur-sm rounded-lg ring-1 ring-border/50 p-6 space-y-3">
                         <h3 className="text-base font-semibold text-foreground">Progress May Be Trackable</h3>
                         <p className="text-sm text-foreground/80 leading-relaxed">
-                            With {STATS.pairwise.percentage}% of model pairs being statistically distinguishable, the
+                            With {pairwise.percentage}% of model pairs being statistically distinguishable, the
                             rankings appear to carry signal. As new model versions are released, this framework could help
                             measure whether they&rsquo;re getting better at representing diverse perspectives &mdash; though
                             more work is needed to validate that the metric reliably captures real-world representational quality.
@@ -483,16 +601,24 @@ export default function FindingsContent() {
                         <h3 className="text-base font-semibold text-foreground">Some Models Appear to Learn</h3>
                         <p className="text-sm text-foreground/80 leading-relaxed">
                             The context responsiveness test attempts to distinguish models that reason from evidence
-                            vs. those relying on fixed priors. In our data, only a few models (notably Claude 3.7 Sonnet across 4 categories)
-                            consistently improve when given more information about a demographic group. These results warrant further investigation.
+                            vs. those relying on fixed priors. In our data, only a few models
+                            {broadestContextModel && broadestContextModel.categories.length > 0 && (
+                                <> (notably {formatModelName(broadestContextModel.modelId)} across {broadestContextModel.categories.length} {broadestContextModel.categories.length === 1 ? 'category' : 'categories'})</>
+                            )}
+                            {' '}consistently improve when given more information about a demographic group. These results warrant further investigation.
                         </p>
                     </div>
 
                     <div className="bg-card/40 backdrop-blur-sm rounded-lg ring-1 ring-border/50 p-6 space-y-3">
                         <h3 className="text-base font-semibold text-foreground">Better Data Needed</h3>
                         <p className="text-sm text-foreground/80 leading-relaxed">
-                            Country-level evaluation is currently unreliable (only 30.7% of data points meet quality
-                            thresholds). For this framework to meaningfully assess cross-cultural representation, larger and more diverse
+                            {leastReliableCategory && (
+                                <>
+                                    {getCategoryLabel(leastReliableCategory.category)}-level evaluation is currently the least reliable (only {leastReliableCategory.percentReliable.toFixed(1)}% of data points meet quality
+                                    thresholds).{' '}
+                                </>
+                            )}
+                            For this framework to meaningfully assess cross-cultural representation, larger and more diverse
                             survey samples would be needed &mdash; particularly at the country and religion level.
                         </p>
                     </div>
@@ -504,7 +630,7 @@ export default function FindingsContent() {
                 <h2 className="text-xl sm:text-2xl font-semibold tracking-tight">What&rsquo;s Next</h2>
                 <div className="text-sm text-foreground/80 leading-relaxed space-y-3 max-w-4xl">
                     <p>
-                        DTEF is an early-stage, ongoing research project. These findings are preliminary and represent a snapshot from {STATS.analysisDate}.
+                        DTEF is an early-stage, ongoing research project. These findings are preliminary and represent a snapshot from {analysisDate}.
                         The methodology, metrics, and interpretations are all subject to revision as we learn more.
                     </p>
                     <ul className="space-y-2 ml-4">
@@ -558,17 +684,20 @@ export default function FindingsContent() {
                             <div className="space-y-2">
                                 <h4 className="font-medium text-foreground">Statistical Testing</h4>
                                 <p>
-                                    Pairwise permutation tests (10,000 iterations) with Holm-Bonferroni correction for multiple
+                                    Pairwise permutation tests ({findings.provenance.iterations.permutation.toLocaleString()} iterations) with Holm-Bonferroni correction for multiple
                                     comparisons. Context responsiveness tested via regression slope with permutation null.
-                                    Bootstrap resampling (1,000 iterations) for confidence intervals.
+                                    Bootstrap resampling ({findings.provenance.iterations.bootstrap.toLocaleString()} iterations) for confidence intervals.
                                 </p>
                             </div>
                             <div className="space-y-2">
                                 <h4 className="font-medium text-foreground">Data Source</h4>
                                 <p>
                                     Survey data from <a href="https://globaldialogues.ai/" target="_blank" rel="noopener noreferrer" className="text-primary hover:text-primary/80 underline">Global Dialogues</a>,
-                                    rounds GD1&ndash;GD7. Demographics include age, gender, country, religion, environment (urban/rural),
-                                    and AI concern level. Sample sizes range from ~33 (country) to ~516 (gender) respondents per segment.
+                                    rounds {surveyRange}. Demographics include age, gender, country, religion, environment (urban/rural),
+                                    and AI concern level.
+                                    {largestCategory && smallestCategory && (
+                                        <> Sample sizes range from ~{Math.round(smallestCategory.avgSampleSize)} ({getCategoryLabel(smallestCategory.category).toLowerCase()}) to ~{Math.round(largestCategory.avgSampleSize)} ({getCategoryLabel(largestCategory.category).toLowerCase()}) respondents per segment.</>
+                                    )}
                                 </p>
                             </div>
                         </div>
@@ -0,0 +1,110 @@
+import { extractOptionLabels, getDTEFPromptDistributions, compareDistribution, toPercentages } from '../dtefPromptUtils';
+import type { WevalResult } from '@/types/shared';
+
+const PROMPT = [
+    'Context: how this group answered other questions.',
+    'Q: Do you trust scientists?',
+    '  a. A lot: 62.0%',
+    '  b. Not much: 38.0%',
+    '',
+    'Question: Should AI be regulated?',
+    '  a. Strongly agree',
+    '  b. Agree',
+    '  c. Disagree',
+    '',
+    'Respond with a distribution.',
+].join('\n');
+
+function makeResult(overrides: Partial<WevalResult> = {}): WevalResult {
+    return {
+        configId: 'dtef-test',
+        configTitle: 'DTEF test',
+        runLabel: 'run',
+        timestamp: '2026-01-01T00-00-00-000Z',
+        config: {
+            models: ['m'],
+            prompts: [],
+            tags: ['dtef'],
+            context: {
+                dtef: {
+                    surveyId: 's1',
+                    segmentId: 'age:18-29',
+                    segmentLabel: 'Age 18-29',
+                    groundTruthDistributions: { 'q7-age:18-29': [50, 30, 20] },
+                    populationMarginals: { q7: [40, 35, 25] },
+                },
+            },
+        } as any,
+        evalMethodsUsed: ['llm-coverage'],
+        effectiveModels: ['m'],
+        promptIds: ['q7-age:18-29'],
+        promptContexts: { 'q7-age:18-29': PROMPT },
+        evaluationResults: {},
+        ...overrides,
+    } as WevalResult;
+}
+
+describe('dtefPromptUtils', () => {
+    describe('extractOptionLabels', () => {
+        it('reads the target question options and skips context percentages', () => {
+            expect(extractOptionLabels(PROMPT, 3)).toEqual(['Strongly agree', 'Agree', 'Disagree']);
+        });
+
+        it('reads the last user message of a conversation', () => {
+            const messages = [
+                { role: 'user' as const, content: 'earlier\n  a. Old\n  b. Older' },
+                { role: 'assistant' as const, content: '[50, 50]' },
+                { role: 'user' as const, content: PROMPT },
+            ];
+            expect(extractOptionLabels(messages, 3)).toEqual(['Strongly agree', 'Agree', 'Disagree']);
+        });
+
+        it('falls back to letters when the count does not match', () => {
+            expect(extractOptionLabels(PROMPT, 4)).toEqual(['a', 'b', 'c', 'd']);
+            expect(extractOptionLabels(undefined, 2)).toEqual(['a', 'b']);
+        });
+    });
+
+    describe('getDTEFPromptDistributions', () => {
+        it('returns ground truth, marginal and options for a single-question prompt', () => {
+            const dist = getDTEFPromptDistributions(makeResult(), 'q7-age:18-29');
+            expect(dist).toEqual({
+                questionId: 'q7',
+                segmentLabel: 'Age 18-29',
+                expected: [50, 30, 20],
+                marginal: [40, 35, 25],
+                options: ['Strongly agree', 'Agree', 'Disagree'],
+            });
+        });
+
+        it('returns null for non-DTEF results and prompts without ground truth', () => {
+            const plain = makeResult({ config: { models: ['m'], prompts: [] } as any });
+            expect(getDTEFPromptDistributions(plain, 'q7-age:18-29')).toBeNull();
+            expect(getDTEFPromptDistributions(makeResult(), 'batch-0-age:18-29')).toBeNull();
+        });
+    });
+
+    describe('compareDistribution', () => {
+        const dist = { expected: [50, 30, 20], marginal: [40, 35, 25], options: ['A', 'B', 'C'] };
+
+        it('rescales proportions and scores each option', () => {
+            const comparison = compareDistribution('[0.6, 0.3, 0.1]', dist);
+            expect(comparison.predicted).toEqual(toPercentages([0.6, 0.3, 0.1]));
+            expect(comparison.rows.map(r => r.label)).toEqual(['A', 'B', 'C']);
+            expect(comparison.rows[0].accuracy.error).toBeCloseTo(10, 5);
+            expect(comparison.rows[0].accuracy.score).toBeCloseTo(1 - 10 / 15, 5);
+            expect(comparison.rows[2].marginal).toBe(25);
+        });
+
+        it('compares multi-select shares without rescaling', () => {
+            const comparison = compareDistribution('[60, 40]', { expected: [70, 45], marginal: null, options: [] });
+            expect(comparison.predicted).toEqual([60, 40]);
+            expect(comparison.rows[1].marginal).toBeNull();
+        });
+
+        it('reports unparseable or mismatched responses', () => {
+            expect(compareDistribution('no numbers here', dist).error).toMatch(/Could not parse/);
+            expect(compareDistribution('[50, 50]', dist).error).toMatch(/Expected 3 values/);
+        });
+    });
+});
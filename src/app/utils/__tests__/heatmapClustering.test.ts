@@ -0,0 +1,42 @@
+import { clusterOrder, transpose } from '../heatmapClustering';
+
+describe('heatmapClustering', () => {
+    describe('clusterOrder', () => {
+        it('places similar rows next to each other', () => {
+            const rows = [
+                [0.9, 0.8, 0.9],
+                [0.2, 0.1, 0.3],
+                [0.88, 0.82, 0.91],
+                [0.25, 0.15, 0.2],
+            ];
+            const order = clusterOrder(rows);
+
+            expect([...order].sort()).toEqual([0, 1, 2, 3]);
+            const position = (i: number) => order.indexOf(i);
+            expect(Math.abs(position(0) - position(2))).toBe(1);
+            expect(Math.abs(position(1) - position(3))).toBe(1);
+        });
+
+        it('compares rows only on the columns both have', () => {
+            const rows = [
+                [0.9, null, 0.1],
+                [0.5, 0.5, 0.5],
+                [null, 0.3, 0.1],
+                [0.9, 0.3, null],
+            ];
+            const order = clusterOrder(rows);
+            // Rows 0, 2 and 3 agree wherever they overlap
+            expect(Math.abs(order.indexOf(1) - 1.5)).toBe(1.5);
+        });
+
+        it('leaves tiny inputs in their original order', () => {
+            expect(clusterOrder([])).toEqual([]);
+            expect(clusterOrder([[1], [0]])).toEqual([0, 1]);
+        });
+    });
+
+    it('transposes a matrix', () => {
+        expect(transpose([[1, 2, 3], [4, 5, 6]])).toEqual([[1, 4], [2, 5], [3, 6]]);
+        expect(transpose([])).toEqual([]);
+    });
+});
@@ -0,0 +1,146 @@
+/**
+ * Helpers for the DTEF prompt view: pull the ground truth and population
+ * marginal for a prompt out of a result's DTEF metadata, and line a model's
+ * parsed prediction up against them option by option.
+ */
+
+import type { WevalResult, ConversationMessage } from '@/types/shared';
+import { isDTEFResult, questionIdFromPromptId } from '@/lib/dtefResultUtils';
+import { parseDistribution } from '@/point-functions/distribution_metric';
+import { computeOptionAccuracy, OptionAccuracy } from '@/point-functions/per_option_accuracy';
+
+export interface DTEFPromptDistributions {
+    questionId: string;
+    segmentLabel?: string;
+    /** Ground-truth distribution for the segment, in percentages */
+    expected: number[];
+    /** Population-wide distribution for the question, when the blueprint recorded it */
+    marginal: number[] | null;
+    options: string[];
+}
+
+export interface OptionComparisonRow {
+    index: number;
+    label: string;
+    expected: number;
+    predicted: number;
+    marginal: number | null;
+    accuracy: OptionAccuracy;
+}
+
+export interface DistributionComparison {
+    /** Prediction on the same scale as the ground truth, or null when it could not be used */
+    predicted: number[] | null;
+    rows: OptionComparisonRow[];
+    error?: string;
+}
+
+/** Rescale to sum to 100, so proportion-style answers line up with percentages */
+export function toPercentages(dist: number[]): number[] {
+    const sum = dist.reduce((a, b) => a + b, 0);
+    if (sum <= 0) return dist.map(() => 0);
+    return dist.map(v => (v / sum) * 100);
+}
+
+/**
+ * Read the option labels of the target question from the prompt text. The
+ * prompt assembler lists them last as "  a. Label" lines; context questions
+ * above them carry a percentage ("  a. Label: 45%") and are skipped.
+ */
+export function extractOptionLabels(
+    promptContext: string | ConversationMessage[] | undefined,
+    optionCount: number,
+): string[] {
+    const text = typeof promptContext === 'string'
+        ? promptContext
+        : [...(promptContext ?? [])].reverse().find(m => m.role === 'user')?.content ?? '';
+
+    let labels: string[] = [];
+    let current: string[] = [];
+    for (const line of text.split('\n')) {
+        const match = line.match(/^\s+([a-z])\.\s+(.+?)\s*$/);
+        if (match && !/:\s*[\d.]+%$/.test(match[2])) {
+            current.push(match[2]);
+            continue;
+        }
+        if (current.length > 0) {
+            labels = current;
+            current = [];
+        }
+    }
+    if (current.length > 0) labels = current;
+
+    if (labels.length !== optionCount) {
+        return Array.from({ length: optionCount }, (_, i) => String.fromCharCode(97 + i));
+    }
+    return labels;
+}
+
+/**
+ * Ground truth and marginal for a single-question DTEF prompt. Returns null
+ * for prompts without a flat ground-truth distribution (batched, ranking and
+ * open-ended prompts), which keep the default response view.
+ */
+export function getDTEFPromptDistributions(
+    result: WevalResult,
+    promptId: string,
+): DTEFPromptDistributions | null {
+    if (!isDTEFResult(result)) return null;
+
+    const dtef = (result.config?.context as any)?.dtef;
+    const segmentId: string | undefined = dtef?.segmentId ?? result.dtefMetadata?.segmentIds?.[0];
+    const questionId = (segmentId && questionIdFromPromptId(promptId, segmentId)) || promptId;
+
+    // Blueprints key ground truth by prompt ID; generated baselines key it by question ID
+    const groundTruth: Record<string, number[]> | undefined = dtef?.groundTruthDistributions
+        ?? result.dtefMetadata?.groundTruthDistributions;
+    const expected = groundTruth?.[promptId] ?? groundTruth?.[questionId];
+    if (!Array.isArray(expected) || expected.length === 0) return null;
+
+    const marginal: number[] | undefined = dtef?.populationMarginals?.[questionId];
+
+    return {
+        questionId,
+        segmentLabel: dtef?.segmentLabel ?? result.dtefMetadata?.segmentLabels?.[0],
+        expected,
+        marginal: Array.isArray(marginal) && marginal.length === expected.length ? marginal : null,
+        options: extractOptionLabels(result.promptContexts?.[promptId], expected.length),
+    };
+}
+
+/**
+ * Parse a model response and score each option the way per_option_accuracy
+ * does. Single-choice predictions are rescaled to 100 first; multi-select
+ * shares don't sum to 100 and are compared as-is.
+ */
+export function compareDistribution(
+    responseText: string,
+    distributions: Pick<DTEFPromptDistributions, 'expected' | 'marginal' | 'options'>,
+): DistributionComparison {
+    const { expected, marginal, options } = distributions;
+    const parsed = parseDistribution(responseText);
+
+    if (!parsed) {
+        return { predicted: null, rows: [], error: 'Could not parse a distribution from the response.' };
+    }
+    if (parsed.length !== expected.length) {
+        return {
+            predicted: null,
+            rows: [],
+            error: `Expected ${expected.length} values, got ${parsed.length}.`,
+        };
+    }
+
+    const expectedTotal = expected.reduce((a, b) => a + b, 0);
+    const predicted = Math.abs(expectedTotal - 100) < 5 ? toPercentages(parsed) : parsed;
+    const rows = expected.map((exp, index) => ({
+        index,
+        label: options[index] ?? String.fromCharCode(97 + index),
+        expected: exp,
+        predicted: predicted[index],
+        marginal: marginal?.[index] ?? null,
+        accuracy: computeOptionAccuracy(predicted, expected, index),
+    }));
+
+    return { predicted, rows };
+}
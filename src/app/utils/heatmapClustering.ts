@@ -0,0 +1,86 @@
+/**
+ * Row ordering for heatmaps by average-linkage hierarchical clustering.
+ *
+ * Rows are vectors with gaps (a segment may not have been asked every
+ * question), so the distance between two rows is the mean squared
+ * difference over the columns both have. Rows with no columns in common
+ * are treated as maximally distant.
+ */
+
+type Vector = ReadonlyArray<number | null | undefined>;
+
+function rowDistance(a: Vector, b: Vector): number | null {
+    let sum = 0;
+    let count = 0;
+    for (let i = 0; i < a.length; i++) {
+        const x = a[i];
+        const y = b[i];
+        if (x == null || y == null) continue;
+        sum += (x - y) ** 2;
+        count++;
+    }
+    return count > 0 ? sum / count : null;
+}
+
+/**
+ * Returns row indices in dendrogram leaf order, so similar rows end up
+ * next to each other. Ties merge the lowest indices first, which keeps the
+ * ordering deterministic.
+ */
+export function clusterOrder(rows: Vector[]): number[] {
+    const n = rows.length;
+    if (n <= 2) return rows.map((_, i) => i);
+
+    const dist: number[][] = [];
+    let maxDistance = 0;
+    for (let i = 0; i < n; i++) {
+        dist.push(new Array(n).fill(0));
+        for (let j = 0; j < i; j++) {
+            const d = rowDistance(rows[i], rows[j]);
+            dist[i][j] = dist[j][i] = d ?? NaN;
+            if (d != null && d > maxDistance) maxDistance = d;
+        }
+    }
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+            if (isNaN(dist[i][j])) dist[i][j] = maxDistance + 1;
+        }
+    }
+
+    const active = rows.map((_, i) => i);
+    const sizes = new Array(n).fill(1);
+    const leaves: number[][] = rows.map((_, i) => [i]);
+
+    while (active.length > 1) {
+        let bestA = 0;
+        let bestB = 1;
+        for (let a = 0; a < active.length; a++) {
+            for (let b = a + 1; b < active.length; b++) {
+                if (dist[active[a]][active[b]] < dist[active[bestA]][active[bestB]]) {
+                    bestA = a;
+                    bestB = b;
+                }
+            }
+        }
+
+        const i = active[bestA];
+        const j = active[bestB];
+        // Lance-Williams update for average linkage
+        for (const k of active) {
+            if (k === i || k === j) continue;
+            const merged = (sizes[i] * dist[i][k] + sizes[j] * dist[j][k]) / (sizes[i] + sizes[j]);
+            dist[i][k] = dist[k][i] = merged;
+        }
+        sizes[i] += sizes[j];
+        leaves[i] = [...leaves[i], ...leaves[j]];
+        active.splice(bestB, 1);
+    }
+
+    return leaves[active[0]];
+}
+
+/** Transpose a row-major matrix so columns can be clustered as rows */
+export function transpose<T>(matrix: T[][]): T[][] {
+    if (matrix.length === 0) return [];
+    return matrix[0].map((_, col) => matrix.map(row => row[col]));
+}
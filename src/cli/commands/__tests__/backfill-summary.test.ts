@@ -0,0 +1,108 @@
+import { jest } from '@jest/globals';
+import { dtefRebuildCommand } from '../backfill-summary';
+import * as storageService from '@/lib/storageService';
+import * as dtefSummaryUtils from '@/cli/utils/dtefSummaryUtils';
+import { DTEFSurveyData } from '@/types/dtef';
+
+jest.mock('@/lib/storageService');
+jest.mock('@/cli/utils/dtefSummaryUtils', () => ({
+  ...(jest.requireActual('@/cli/utils/dtefSummaryUtils') as object),
+  loadSurveyData: jest.fn(),
+}));
+
+const mockedStorage = storageService as jest.Mocked<typeof storageService>;
+const mockedLoadSurveyData = dtefSummaryUtils.loadSurveyData as jest.MockedFunction<typeof dtefSummaryUtils.loadSurveyData>;
+
+const survey: DTEFSurveyData = {
+  surveyId: 'gd1',
+  surveyName: 'GD1',
+  questions: { q1: { text: 'Q1', type: 'single-select', options: ['A', 'B', 'C'], ordinalPositions: [1, 2, 3] } },
+  segments: [
+    { id: 'country:us', label: 'US', attributes: { country: 'US' }, sampleSize: 100, responses: [{ questionId: 'q1', distribution: [50, 30, 20] }] },
+    { id: 'country:de', label: 'DE', attributes: { country: 'DE' }, sampleSize: 100, responses: [{ questionId: 'q1', distribution: [20, 30, 50] }] },
+  ],
+};
+
+/** A full stored result for one segment's q1 prompt, answered by m1 */
+function storedResult(segmentId: string, expected: number[], response: string, dtef: Record<string, unknown> = {}) {
+  const configId = `dtef-global-dialogues-gd1-${segmentId}`;
+  const promptId = `q1-${segmentId}`;
+  return {
+    configId,
+    configTitle: configId,
+    runLabel: 'r1',
+    timestamp: '2025-01-01T00-00-00-000Z',
+    config: {
+      id: configId,
+      models: ['m1'],
+      tags: ['dtef'],
+      prompts: [{
+        id: promptId,
+        promptText: 'Predict the distribution',
+        points: [{ fn: 'distribution_metric', fnArgs: { expected, ordinalPositions: [1, 2, 3] } }],
+      }],
+      context: { dtef: { surveyId: 'gd1', segmentId, segmentLabel: segmentId, segmentAttributes: {}, contextQuestionCount: 0, ...dtef } },
+    },
+    promptIds: [promptId],
+    effectiveModels: ['m1'],
+    evalMethodsUsed: ['llm-coverage'],
+    evaluationResults: {
+      similarityMatrix: {},
+      llmCoverageScores: { [promptId]: { m1: { avgCoverageExtent: 0.8, pointAssessments: [{ keyPointText: 'p', coverageExtent: 0.8, reflection: 'long judge text' }] } } },
+    },
+    allFinalAssistantResponses: { [promptId]: { m1: response } },
+    fullConversationHistories: { [promptId]: { m1: [{ role: 'assistant', content: response }] } },
+  };
+}
+
+const stored: Record<string, ReturnType<typeof storedResult>> = Object.fromEntries([
+  storedResult('country:us', [50, 30, 20], '[40, 30, 30]'),
+  storedResult('country:de', [20, 30, 50], '[35, 30, 35]'),
+  storedResult('self', [40, 30, 30], '[40, 30, 30]', { evalType: 'own-opinion' }),
+].map(r => [r.configId, r]));
+
+describe('dtef-rebuild', () => {
+  const saved = () => new Map(mockedStorage.saveJsonFile.mock.calls.map(([key, data]) => [key, data as any]));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockedLoadSurveyData.mockReturnValue([survey]);
+    mockedStorage.listConfigIds.mockResolvedValue(Object.keys(stored));
+    mockedStorage.listRunsForConfig.mockResolvedValue([{ runLabel: 'r1', timestamp: '2025-01-01T00-00-00-000Z', fileName: 'r1_2025-01-01T00-00-00-000Z_comparison.json' }]);
+    mockedStorage.getResultByFileName.mockImplementation(async (configId: string) => structuredClone(stored[configId]));
+    mockedStorage.saveJsonFile.mockResolvedValue(undefined as any);
+    mockedStorage.getHomepageSummary.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports the direction of errors from the stored model responses', async () => {
+    await dtefRebuildCommand.parseAsync(['node', 'test']);
+
+    const summary = saved().get('live/aggregates/dtef_summary_gd1.json');
+    expect(summary.aggregation.resultCount).toBe(2);
+    expect(summary.aggregation.biasDirection).toHaveLength(1);
+    expect(summary.aggregation.biasDirection[0]).toMatchObject({ modelId: 'm1', pairCount: 2 });
+  });
+
+  it('measures homogenization against the own-opinion probe', async () => {
+    await dtefRebuildCommand.parseAsync(['node', 'test']);
+
+    const summary = saved().get('live/aggregates/dtef_summary_gd1.json');
+    expect(summary.aggregation.homogenization).toHaveLength(1);
+    expect(summary.aggregation.homogenization[0]).toMatchObject({ modelId: 'm1', ownOpinionPairCount: 2 });
+    expect(summary.aggregation.biasDirection[0].ownAnswerPairCount).toBe(2);
+  });
+
+  it('stores predicted distributions in the heatmap for signed errors', async () => {
+    await dtefRebuildCommand.parseAsync(['node', 'test']);
+
+    const heatmap = saved().get(dtefSummaryUtils.getHeatmapKey('gd1'));
+    expect(heatmap.segments.map((s: { id: string }) => s.id)).toEqual(['country:us', 'country:de']);
+    expect(heatmap.models[0].predicted).toEqual([[[40, 30, 30]], [[35, 30, 35]]]);
+    expect(heatmap.expected).toEqual([[[50, 30, 20]], [[20, 30, 50]]]);
+  });
+});
@@ -6,7 +6,6 @@ import {
     listConfigIds,
     listRunsForConfig,
     getResultByFileName,
-    getCoreResult,
     getConfigSummary,
     saveHomepageSummary,
     getHomepageSummary,
@@ -37,10 +36,22 @@ import { fromSafeTimestamp } from '../../lib/timestampUtils';
 import { ModelRunPerformance, ModelSummary } from '@/types/shared';
 import { parseModelIdForDisplay, getModelDisplayLabel } from '@/app/utils/modelIdUtils';
 import { normalizeTag } from '@/app/utils/tagUtils';
-import { buildDTEFSummary, buildAllDTEFSummaries, DTEFSummary } from '@/cli/utils/dtefSummaryUtils';
+import {
+    buildDTEFSummary,
+    buildAllDTEFSummaries,
+    buildAllDTEFHeatmaps,
+    buildDTEFHeatmap,
+    buildHeatmapIndex,
+    getHeatmapKey,
+    HEATMAP_INDEX_KEY,
+    loadSurveyData,
+    DTEFSummary,
+    DTEFHeatmap,
+} from '@/cli/utils/dtefSummaryUtils';
+import { DemographicAggregationService } from '@/cli/services/demographicAggregationService';
 import { BASELINE_MODEL_IDS } from '@/cli/services/baselineGeneratorService';
 
-async function actionBackfillSummary(options: { verbose?: boolean; configId?: string; dryRun?: boolean }) {
+async function actionBackfillSummary(options: { verbose?: boolean; configId?: string; dryRun?: boolean; significanceBreakdowns?: boolean }) {
     const { logger } = getConfig();
     logger.info('Starting homepage summary backfill process (v3 hybrid summary)...');
     if (options.dryRun) {
@@ -375,8 +386,14 @@ async function actionBackfillSummary(options: { verbose?: boolean; configId?: st
             let combinedDTEFSummary = null;
             if (allDTEFResults.length > 0) {
                 logger.info(`Building DTEF summaries from ${allDTEFResults.length} DTEF-tagged results...`);
-                const perSurveySummaries = buildAllDTEFSummaries(allDTEFResults);
-                combinedDTEFSummary = buildDTEFSummary(allDTEFResults);
+                const surveys = loadSurveyData();
+                const segmentReliability = DemographicAggregationService.computeSegmentReliability(surveys);
+                logger.info(`Loaded segment reliability for ${Object.keys(segmentReliability).length} survey(s) for score normalization.`);
+                const populationMarginals = DemographicAggregationService.computePopulationMarginalsBySurvey(surveys);
+                const perSurveySummaries = buildAllDTEFSummaries(allDTEFResults, segmentReliability, populationMarginals);
+                combinedDTEFSummary = buildDTEFSummary(allDTEFResults, segmentReliability, populationMarginals, {
+                    significanceBreakdowns: options.significanceBreakdowns,
+                });
                 logger.info(`Built ${perSurveySummaries.size} per-survey summaries and 1 combined summary.`);
 
                 if (!options.dryRun) {
@@ -388,6 +405,13 @@ async function actionBackfillSummary(options: { verbose?: boolean; configId?: st
                         await saveJsonFile('live/aggregates/dtef_summary.json', combinedDTEFSummary);
                         logger.info('Saved combined DTEF summary.');
                     }
+
+                    const { heatmaps, index } = buildAllDTEFHeatmaps(allDTEFResults, surveys);
+                    for (const [surveyId, heatmap] of heatmaps) {
+                        await saveJsonFile(getHeatmapKey(surveyId), heatmap);
+                    }
+                    await saveJsonFile(HEATMAP_INDEX_KEY, index);
+                    logger.info(`Saved ${heatmaps.size} segment × question heatmap(s).`);
                 } else {
                     logger.info(`[DRY RUN] Would save ${perSurveySummaries.size} per-survey DTEF summaries.`);
                     if (combinedDTEFSummary) {
@@ -810,6 +834,7 @@ export const backfillSummaryCommand = new Command('backfill-summary')
     .option('-v, --verbose', 'Enable verbose logging for detailed processing steps.')
     .option('--config-id <id>', 'Only backfill for a specific configuration ID.')
     .option('--dry-run', 'Log what would be saved without writing any files.')
+    .option('--significance-breakdowns', 'Also test the DTEF leaderboard ranking within each segment category and survey (slower; needed for per-category and per-survey tiers).')
     .action(actionBackfillSummary);
 
 export const lightweightBackfillCommand = new Command('lightweight-backfill')
@@ -1003,15 +1028,51 @@ export const streamingSummariesCommand = new Command('streaming-summaries')
     .option('--dry-run', 'Log what would be saved without writing.')
     .action(streamingPerConfigSummaries);
 
+/**
+ * Drop what DTEF aggregation never reads from a full result: conversation
+ * histories, prompt text, similarity matrices and judge reflections. Final responses and the
+ * prompts' scoring points stay for the response-parsing analyses.
+ */
+function slimForDTEFAggregation(resultData: FetchedComparisonData): FetchedComparisonData {
+    const data = resultData as any;
+    delete data.allResponses;
+    delete data.allConversationHistories;
+    delete data.fullConversationHistories;
+    if (Array.isArray(data.config?.prompts)) {
+        // Older results without a recorded context count are counted from the first prompt's text
+        data.config.prompts = data.config.prompts.map((p: any, i: number) => ({
+            id: p.id,
+            ...(p.points ? { points: p.points } : {}),
+            ...(i === 0 && p.promptText ? { promptText: p.promptText } : {}),
+        }));
+    }
+    const coverage = data.evaluationResults?.llmCoverageScores;
+    for (const promptScores of Object.values(coverage ?? {}) as any[]) {
+        for (const score of Object.values(promptScores ?? {}) as any[]) {
+            for (const assessment of score?.pointAssessments ?? []) {
+                delete assessment.reflection;
+                delete assessment.individualJudgements;
+            }
+        }
+    }
+    data.evaluationResults = {
+        llmCoverageScores: coverage ?? {},
+        ...(data.evaluationResults?.openEndedScores ? { openEndedScores: data.evaluationResults.openEndedScores } : {}),
+    };
+    return resultData;
+}
+
 /**
  * DTEF-only summary rebuild. Processes one survey round at a time to keep
  * memory low (~20MB per round vs 500MB+ for full backfill-summary).
  *
  * Groups DTEF config IDs by survey round, fetches latest run for each config
  * in that round, builds the summary, saves to S3, then releases memory
- * before processing the next round.
+ * before processing the next round. Final responses are kept until the
+ * round's summary and heatmap are built: bias direction, homogenization and
+ * the heatmap's signed errors all parse them.
  */
-async function rebuildDTEFSummary(options: { dryRun?: boolean }): Promise<void> {
+async function rebuildDTEFSummary(options: { dryRun?: boolean; significanceBreakdowns?: boolean }): Promise<void> {
     const startMs = Date.now();
     console.log('[dtef-rebuild] Starting DTEF-only summary rebuild...');
 
@@ -1043,8 +1104,14 @@ async function rebuildDTEFSummary(options: { dryRun?: boolean }): Promise<void>
 
     console.log(`[dtef-rebuild] Grouped into ${surveyGroups.size} survey rounds: ${Array.from(surveyGroups.keys()).join(', ')}`);
 
+    const surveys = loadSurveyData();
+    const segmentReliability = DemographicAggregationService.computeSegmentReliability(surveys);
+    console.log(`[dtef-rebuild] Loaded segment reliability for ${Object.keys(segmentReliability).length} survey(s) for score normalization.`);
+    const populationMarginals = DemographicAggregationService.computePopulationMarginalsBySurvey(surveys);
+
     // Process each survey round independently to limit memory
     const allSurveyResults: DTEFSummary[] = [];
+    const savedHeatmaps: DTEFHeatmap[] = [];
     let totalFetched = 0;
     let totalFailed = 0;
     let totalNoRuns = 0;
@@ -1069,17 +1136,11 @@ async function rebuildDTEFSummary(options: { dryRun?: boolean }): Promise<void>
                         new Date(fromSafeTimestamp(b.timestamp ?? '')).getTime() - new Date(fromSafeTimestamp(a.timestamp ?? '')).getTime()
                     );
                     const latest = sorted[0];
-                    // Use getCoreResult (reads lightweight core.json ~98KB) instead of
-                    // getResultByFileName (reads full comparison.json ~240KB+) to save memory
-                    const resultData = await getCoreResult(
-                        configId, latest.runLabel, latest.timestamp ?? ''
-                    ) as FetchedComparisonData;
+                    // core.json has neither the model responses nor the prompts' scoring
+                    // points, so read the full result and keep only what aggregation uses
+                    const resultData = await getResultByFileName(configId, latest.fileName) as FetchedComparisonData;
                     if (!resultData) { failed++; return; }
-                    // Strip fields not needed by aggregation to further reduce memory
-                    delete (resultData as any).allFinalAssistantResponses;
-                    delete (resultData as any).allResponses;
-                    delete (resultData as any).allConversationHistories;
-                    roundResults.push(resultData);
+                    roundResults.push(slimForDTEFAggregation(resultData));
                 } catch (err: any) {
                     console.error(`[dtef-rebuild] Error fetching ${configId}: ${err.message}`);
                     failed++;
@@ -1097,7 +1158,9 @@ async function rebuildDTEFSummary(options: { dryRun?: boolean }): Promise<void>
             continue;
         }
 
-        const summary = buildDTEFSummary(roundResults);
+        const summary = buildDTEFSummary(roundResults, segmentReliability, populationMarginals, {
+            significanceBreakdowns: options.significanceBreakdowns,
+        });
         if (!summary) {
             console.log(`[dtef-rebuild]   ${surveyKey}: could not build summary. Skipping.`);
             continue;
@@ -1105,12 +1168,19 @@ async function rebuildDTEFSummary(options: { dryRun?: boolean }): Promise<void>
 
         console.log(`[dtef-rebuild]   ${surveyKey}: ${roundResults.length} results, ${summary.topModels.length} models, score range ${summary.topModels[summary.topModels.length - 1]?.overallScore?.toFixed(3)}–${summary.topModels[0]?.overallScore?.toFixed(3)}`);
         if (summary.baselines) {
-            console.log(`[dtef-rebuild]   Baselines: pop-marginal=${summary.baselines.populationMarginal?.toFixed(4)}, uniform=${summary.baselines.uniform?.toFixed(4)}`);
+            console.log(`[dtef-rebuild]   Baselines: pop-marginal=${summary.baselines.populationMarginal?.toFixed(4)}, uniform=${summary.baselines.uniform?.toFixed(4)}, mrp=${summary.baselines.mrp?.toFixed(4)}`);
         }
 
         if (!options.dryRun) {
             await saveJsonFile(`live/aggregates/dtef_summary_${summary.surveyId}.json`, summary);
             console.log(`[dtef-rebuild]   Saved dtef_summary_${summary.surveyId}.json`);
+
+            const heatmap = buildDTEFHeatmap(roundResults, surveys.find(s => s.surveyId === summary.surveyId));
+            if (heatmap) {
+                await saveJsonFile(getHeatmapKey(heatmap.surveyId), heatmap);
+                savedHeatmaps.push(heatmap);
+                console.log(`[dtef-rebuild]   Saved dtef_heatmap_${heatmap.surveyId}.json`);
+            }
         }
 
         allSurveyResults.push(summary);
@@ -1141,7 +1211,7 @@ async function rebuildDTEFSummary(options: { dryRun?: boolean }): Promise<void>
 
         // Compute combined baselines across all surveys (weighted average by segment count)
         const combinedBaselines: DTEFSummary['baselines'] = {};
-        let pmTotal = 0, pmCount = 0, uTotal = 0, uCount = 0;
+        let pmTotal = 0, pmCount = 0, uTotal = 0, uCount = 0, mrpTotal = 0, mrpCount = 0;
         for (const summary of allSurveyResults) {
             if (summary.baselines?.populationMarginal != null) {
                 const segs = summary.aggregation?.modelResults?.find(
@@ -1157,9 +1227,17 @@ async function rebuildDTEFSummary(options: { dryRun?: boolean }): Promise<void>
                 uTotal += summary.baselines.uniform * segs;
                 uCount += segs;
             }
+            if (summary.baselines?.mrp != null) {
+                const segs = summary.aggregation?.modelResults?.find(
+                    m => m.modelId === BASELINE_MODEL_IDS.MRP
+                )?.segmentCount || 1;
+                mrpTotal += summary.baselines.mrp * segs;
+                mrpCount += segs;
+            }
         }
         if (pmCount > 0) combinedBaselines.populationMarginal = pmTotal / pmCount;
         if (uCount > 0) combinedBaselines.uniform = uTotal / uCount;
+        if (mrpCount > 0) combinedBaselines.mrp = mrpTotal / mrpCount;
 
         // Exclude baseline models from the leaderboard topModels
         const combinedTopModels = Array.from(allModelScores.entries())
@@ -1185,6 +1263,9 @@ async function rebuildDTEFSummary(options: { dryRun?: boolean }): Promise<void>
         await saveJsonFile('live/aggregates/dtef_summary.json', combinedSummary);
         console.log('[dtef-rebuild] Saved combined dtef_summary.json');
 
+        await saveJsonFile(HEATMAP_INDEX_KEY, buildHeatmapIndex(savedHeatmaps));
+        console.log(`[dtef-rebuild] Saved heatmap index (${savedHeatmaps.length} surveys)`);
+
         // Also update homepage_summary.json with the DTEF summary
         try {
             const homepageSummary = await getHomepageSummary();
@@ -1210,6 +1291,7 @@ async function rebuildDTEFSummary(options: { dryRun?: boolean }): Promise<void>
 export const dtefRebuildCommand = new Command('dtef-rebuild')
     .description('Rebuild DTEF demographic summary in S3 (memory-efficient, DTEF-only).')
     .option('--dry-run', 'Log what would be saved without writing.')
+    .option('--significance-breakdowns', 'Also test the ranking within each segment category (slower; needed for per-category tiers).')
     .action(rebuildDTEFSummary);
 
 // Export the core function so other commands can use the exact same logic
@@ -9,7 +9,14 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { DemographicBlueprintService } from '../services/demographicBlueprintService';
 import { validateDTEFSurveyData } from '@/lib/dtef-validation';
-import { DTEFSurveyData, DTEFBlueprintConfig, DTEFEvalType, DTEFContextFormat, DTEFReasoningMode, DTEFIndividualData } from '@/types/dtef';
+import { DTEFSurveyData, DTEFBlueprintConfig, DTEFEvalType, DTEFContextFormat, DTEFContextSelection, DTEFFewShotSelection, DTEFReasoningMode, DTEFPromptTemplate, DTEFIndividualData, DTEFQuestionParaphrase } from '@/types/dtef';
+import { computeEmbeddingRelevance, ContextRelevance, DEFAULT_CONTEXT_SELECTION_SEED } from '../services/blueprint/contextSelection';
+import { loadPromptTemplate } from '../services/promptTemplateRegistry';
+import { distinctOptionOrderCount, listQuestionVariants } from '../services/blueprint/questionVariants';
+import { DEFAULT_PARAPHRASE_MODEL, paraphraseQuestions } from '../services/questionParaphraseService';
+import { DEFAULT_THEME_MODEL, extractOpenEndedThemes } from '../services/openEndedThemeService';
+import { getModelResponse } from '../services/llm-service';
+import { getEmbedding } from '../services/embedding-service';
 import * as yaml from 'js-yaml';
 import {
     convertGlobalDialogues,
@@ -18,6 +25,8 @@ import {
     loadIndividualData,
     summarizeDataset,
 } from '../services/adapters/globalDialoguesAdapter';
+import { loadCsvSurvey, CsvSurveyImport } from '../services/adapters/csvSurveyAdapter';
+import { recomputeSegmentsFromIndividuals, buildIntersectionalSegments, attachOpenEndedResponses, attachRankDistributions } from '../services/adapters/individualAggregation';
 import {
     generateBaselineResults,
     getBaselineMeanScore,
@@ -26,11 +35,23 @@ import {
 } from '../services/baselineGeneratorService';
 import { saveResult, getJsonFile, saveJsonFile, listRunsForConfig, getResultByFileName, getConfigSummary } from '@/lib/storageService';
 import { toSafeTimestamp } from '@/lib/timestampUtils';
+import {
+    runStatisticalAnalysis,
+    renderStatisticalReport,
+    buildStatisticalSummary,
+    buildFindingsArtifact,
+    publishFindings,
+} from '../services/statisticalValidityService';
 import type {
     ExperimentRecord,
     ExperimentIndex,
     ExperimentStatus,
     ExperimentConclusion,
+    ExperimentMixedModel,
+    ExperimentSequentialDecision,
+    ExperimentSequentialMethod,
+    ExperimentSequentialDesign,
+    ExperimentPowerAnalysis,
 } from '@/types/experiment';
 import {
     buildCurationPrompt,
@@ -42,6 +63,24 @@ import {
 import { welchTTest, cohensD, stddev, interpretEffectSize } from '../utils/statisticalTests';
 import { calculateHybridScore, IDEAL_MODEL_ID } from '@/app/utils/calculationUtils';
 import { generateBlueprintIdFromPath } from '@/app/utils/blueprintIdUtils';
+import { parseAndNormalizeBlueprint } from '@/lib/blueprint-parser';
+import { callBackgroundFunction } from '@/lib/background-function-client';
+import {
+    loadFactorialDesign,
+    expandConditionMatrix,
+    buildConditionBlueprintConfig,
+    conditionConfigId,
+    conditionSlug,
+    computeExperimentProgress,
+    extractResultObservations,
+    fitFactorialMixedModel,
+    pairConditionCells,
+    evaluateSequentialLook,
+    estimateScoreVariability,
+    buildPowerAnalysis,
+    FactorialDesign,
+    FactorialObservation,
+} from '../services/experimentDesignService';
 import type { WevalResult } from '@/types/shared';
 
 export const dtefCommand = new Command('dtef')
@@ -63,12 +102,21 @@ dtefCommand
     .option('--context-questions <ids>', 'Comma-separated question IDs to use as context, or "all" for all non-target questions')
     .option('--context-levels <levels>', 'Generate blueprints at multiple context levels (e.g., "0,5,10,all")')
     .option('--token-budget <tokens>', 'Token budget per prompt (controls context question inclusion)', '4096')
+    .option('--context-selection <strategy>', 'How distribution-context prompts pick context questions: order, embedding, correlation, or random', 'order')
+    .option('--context-seed <n>', 'Seed for --context-selection random and --few-shot-selection random (recorded in the configId)')
+    .option('--embedding-model <id>', 'Embedding model for --context-selection embedding', 'openai:text-embedding-3-small')
     .option('--batch-size <n>', 'Number of questions per batched prompt (sugar for --batch-sizes N)')
     .option('--batch-sizes <sizes>', 'Comma-separated batch sizes for generation matrix (e.g., "1,2,3")', '1')
     .option('--num-evals <n>', 'Number of evaluation prompts per batch size (default: all questions / batch_size)')
-    .option('--eval-type <type>', 'Evaluation type: distribution, shift, synthetic-individual, or individual-answer', 'distribution')
-    .option('--context-format <format>', 'Context format: attribute-label, distribution-context, or narrative')
+    .option('--eval-type <type>', 'Evaluation type: distribution, shift, synthetic-individual, individual-answer, open-ended, or own-opinion (the model\'s own answers, no persona)', 'distribution')
+    .option('--context-format <format>', 'Context format: attribute-label, distribution-context, narrative, or few-shot-segments (other segments\' answers to the target question)')
+    .option('--few-shot <k>', 'Other segments shown per question with --context-format few-shot-segments', '5')
+    .option('--few-shot-selection <mode>', 'How few-shot-segments picks other segments: similar (shared attributes) or random', 'similar')
     .option('--reasoning-mode <mode>', 'Reasoning mode: standard or cot', 'standard')
+    .option('--template <name@version>', 'Prompt wording template from data/prompt-templates (a bare name uses its latest version)', 'default@1')
+    .option('--paraphrases <n>', 'Also generate N LLM-paraphrased wordings of each target question and its options, scored for robustness rather than on the leaderboard', '0')
+    .option('--option-orders <n>', 'Also generate N reorderings of each target question\'s options (default: the --paraphrases count)')
+    .option('--paraphrase-model <id>', 'Model that writes the --paraphrases rewrites', DEFAULT_PARAPHRASE_MODEL)
     .option('--synthetic-n <n>', 'Number of synthetic individuals (for synthetic-individual eval type)', '20')
     .option('--individuals-input <path>', 'Path to individual participant data JSON (for individual-answer eval type)')
     .option('--sample-size <n>', 'Participants per segment for individual-answer eval type', '20')
@@ -76,6 +124,8 @@ dtefCommand
     .option('--experiment <id>', 'Tag blueprints with experiment ID')
     .option('--experiment-id <id>', 'Auto-populate experiment conditionMap with generated configIds')
     .option('--condition-name <name>', 'Condition name for --experiment-id mapping')
+    .option('--round <id>', 'Tag blueprints with the survey round (overrides roundId in the survey data)')
+    .option('--release-date <date>', 'Tag blueprints with the round\'s release date, YYYY-MM-DD, for held-out round analysis against model knowledge cutoffs')
     .option('--dry-run', 'Validate and preview without writing files')
     .action(async (options) => {
         const chalk = (await import('chalk')).default;
@@ -119,6 +169,18 @@ dtefCommand
 
         console.log(chalk.green(`Validation passed: ${validation.summary.questionCount} questions, ${validation.summary.segmentCount} segments, ${validation.summary.totalResponses} responses\n`));
 
+        if (options.round) surveyData.roundId = options.round;
+        if (options.releaseDate) {
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(options.releaseDate)) {
+                console.error(chalk.red('--release-date must be a YYYY-MM-DD date'));
+                process.exit(1);
+            }
+            surveyData.releaseDate = options.releaseDate;
+        }
+        if (surveyData.releaseDate) {
+            console.log(chalk.cyan(`Round ${surveyData.roundId || surveyData.surveyId} released ${surveyData.releaseDate}: results will be split by model knowledge cutoff\n`));
+        }
+
         // Build config — determine target question IDs
         let targetQuestionIds: string[];
 
@@ -165,6 +227,47 @@ dtefCommand
             process.exit(1);
         }
 
+        const contextSelection = options.contextSelection as DTEFContextSelection;
+        if (!['order', 'embedding', 'correlation', 'random'].includes(contextSelection)) {
+            console.error(chalk.red('--context-selection must be "order", "embedding", "correlation", or "random"'));
+            process.exit(1);
+        }
+        const contextSelectionSeed = options.contextSeed !== undefined ? parseInt(options.contextSeed, 10) : DEFAULT_CONTEXT_SELECTION_SEED;
+        if (isNaN(contextSelectionSeed)) {
+            console.error(chalk.red('--context-seed must be an integer'));
+            process.exit(1);
+        }
+
+        // Embeddings need API calls, so embedding relevance is computed once here rather than per blueprint
+        let contextRelevance: ContextRelevance | undefined;
+        if (contextSelection === 'embedding' && contextQuestionIds) {
+            console.log(chalk.gray(`Embedding questions with ${options.embeddingModel} for context selection...`));
+            const embeddingLogger = {
+                info: () => {},
+                warn: (msg: string) => console.warn(chalk.yellow(msg)),
+                error: (msg: string) => console.error(chalk.red(msg)),
+            };
+            try {
+                contextRelevance = await computeEmbeddingRelevance(
+                    surveyData,
+                    targetQuestionIds,
+                    contextQuestionIds,
+                    text => getEmbedding(text, options.embeddingModel, embeddingLogger, true),
+                );
+            } catch (e: any) {
+                console.error(chalk.red(`Failed to embed questions: ${e.message}`));
+                process.exit(1);
+            }
+        }
+        const contextSelectionConfig: Pick<DTEFBlueprintConfig, 'contextSelection' | 'contextSelectionSeed' | 'contextRelevance'> = {
+            contextSelection,
+            ...(contextSelection === 'random' ? { contextSelectionSeed } : {}),
+            ...(contextRelevance ? { contextRelevance } : {}),
+        };
+        if (contextSelection === 'random') {
+            console.log(chalk.cyan(`Random context selection with seed ${contextSelectionSeed}`));
+        }
+
         // Parse batch sizes: --batch-size N is sugar for --batch-sizes N
         const batchSizesStr = options.batchSize || options.batchSizes;
         const batchSizes = batchSizesStr.split(',').map((s: string) => {
@@ -183,8 +286,14 @@ dtefCommand
         }
 
         const evalType = options.evalType as DTEFEvalType;
-        if (!['distribution', 'shift', 'synthetic-individual', 'individual-answer'].includes(evalType)) {
-            console.error(chalk.red('--eval-type must be "distribution", "shift", "synthetic-individual", or "individual-answer"'));
+        if (!['distribution', 'shift', 'synthetic-individual', 'individual-answer', 'open-ended', 'own-opinion'].includes(evalType)) {
+            console.error(chalk.red('--eval-type must be "distribution", "shift", "synthetic-individual", "individual-answer", "open-ended", or "own-opinion"'));
+            process.exit(1);
+        }
+
+        // The probe is one persona-free blueprint per survey: no context, batching or segments to vary
+        if (evalType === 'own-opinion' && (contextQuestionIds || options.segments || batchSizes.some((n: number) => n > 1))) {
+            console.error(chalk.red('--eval-type own-opinion cannot be combined with --context-questions, --segments or batch sizes above 1'));
             process.exit(1);
         }
 
@@ -194,12 +303,44 @@ dtefCommand
             process.exit(1);
         }
 
+        let promptTemplate: DTEFPromptTemplate;
+        try {
+            promptTemplate = loadPromptTemplate(options.template);
+        } catch (e: any) {
+            console.error(chalk.red(e.message));
+            process.exit(1);
+        }
+        console.log(chalk.cyan(`Prompt template: ${promptTemplate.name}@${promptTemplate.version} (hash ${promptTemplate.hash})`));
+
         const contextFormat = options.contextFormat as DTEFContextFormat | undefined;
-        if (contextFormat && !['attribute-label', 'distribution-context', 'narrative', 'raw-survey', 'interview', 'first-person'].includes(contextFormat)) {
-            console.error(chalk.red('--context-format must be one of: attribute-label, distribution-context, narrative, raw-survey, interview, first-person'));
+        if (contextFormat && !['attribute-label', 'distribution-context', 'narrative', 'raw-survey', 'interview', 'first-person', 'few-shot-segments'].includes(contextFormat)) {
+            console.error(chalk.red('--context-format must be one of: attribute-label, distribution-context, narrative, raw-survey, interview, first-person, few-shot-segments'));
             process.exit(1);
         }
 
+        let fewShotConfig: Pick<DTEFBlueprintConfig, 'fewShotCount' | 'fewShotSelection' | 'fewShotSeed'> = {};
+        if (contextFormat === 'few-shot-segments') {
+            const fewShotCount = parseInt(options.fewShot, 10);
+            const fewShotSelection = options.fewShotSelection as DTEFFewShotSelection;
+            if (isNaN(fewShotCount) || fewShotCount < 1) {
+                console.error(chalk.red('--few-shot must be a positive integer'));
+                process.exit(1);
+            }
+            if (!['similar', 'random'].includes(fewShotSelection)) {
+                console.error(chalk.red('--few-shot-selection must be "similar" or "random"'));
+                process.exit(1);
+            }
+            if (evalType !== 'distribution' || contextQuestionIds) {
+                console.error(chalk.red('--context-format few-shot-segments requires --eval-type distribution and cannot be combined with --context-questions'));
+                process.exit(1);
+            }
+            fewShotConfig = {
+                fewShotCount,
+                fewShotSelection,
+                ...(fewShotSelection === 'random' ? { fewShotSeed: contextSelectionSeed } : {}),
+            };
+        }
+
         const syntheticN = parseInt(options.syntheticN, 10);
         const experimentId = options.experiment as string | undefined;
         const sampleSize = parseInt(options.sampleSize, 10);
@@ -238,6 +379,61 @@ dtefCommand
             console.log(chalk.yellow('Warning: --eval-type individual-answer without --individuals-input will use aggregate-based prompts'));
         }
 
+        // Paraphrase and option-order variants of the target questions, for robustness scoring
+        const paraphraseCount = parseInt(options.paraphrases, 10);
+        let optionOrderCount = options.optionOrders !== undefined ? parseInt(options.optionOrders, 10) : paraphraseCount;
+        if (isNaN(paraphraseCount) || paraphraseCount < 0 || paraphraseCount > 10 || isNaN(optionOrderCount) || optionOrderCount < 0 || optionOrderCount > 10) {
+            console.error(chalk.red('--paraphrases and --option-orders must be integers from 0 to 10'));
+            process.exit(1);
+        }
+        if ((paraphraseCount > 0 || optionOrderCount > 0) && !['distribution', 'shift', 'synthetic-individual'].includes(evalType)) {
+            console.error(chalk.red('--paraphrases and --option-orders need --eval-type distribution, shift or synthetic-individual'));
+            process.exit(1);
+        }
+        let questionParaphrases: Record<string, DTEFQuestionParaphrase[]> | undefined;
+        if (paraphraseCount > 0) {
+            console.log(chalk.gray(`Paraphrasing ${targetQuestionIds.length} question(s) ${paraphraseCount} way(s) with ${options.paraphraseModel}...`));
+            try {
+                questionParaphrases = await paraphraseQuestions(surveyData, targetQuestionIds, paraphraseCount, {
+                    modelId: options.paraphraseModel,
+                    complete: (systemPrompt, prompt) => getModelResponse({
+                        modelId: options.paraphraseModel,
+                        systemPrompt,
+                        prompt,
+                        temperature: 0.7,
+                        maxTokens: 4000,
+                        useCache: false,
+                    }),
+                    logger: {
+                        info: (msg: string) => console.log(chalk.cyan(msg)),
+                        warn: (msg: string) => console.warn(chalk.yellow(msg)),
+                    },
+                });
+            } catch (e: any) {
+                console.error(chalk.red(`Failed to paraphrase questions: ${e.message}`));
+                process.exit(1);
+            }
+        }
+        const maxOptionOrders = Math.max(0, ...targetQuestionIds.map(qId => {
+            const question = surveyData.questions[qId];
+            return question ? distinctOptionOrderCount(question) : 0;
+        }));
+        if (optionOrderCount > maxOptionOrders) {
+            console.log(chalk.yellow(`Only ${maxOptionOrders} option order(s) differ from the original for these questions (ordinal scales are only reversed); using ${maxOptionOrders}`));
+            optionOrderCount = maxOptionOrders;
+        }
+        const questionVariants = listQuestionVariants(paraphraseCount, optionOrderCount);
+        if (questionVariants.length > 1) {
+            console.log(chalk.cyan(`Question variants: original + ${paraphraseCount} paraphrase(s) + ${optionOrderCount} option order(s)`));
+        }
+        const generateVariants = (config: DTEFBlueprintConfig) => questionVariants.flatMap(questionVariant =>
+            DemographicBlueprintService.generateBlueprints({
+                ...config,
+                ...(questionParaphrases ? { questionParaphrases } : {}),
+                ...(questionVariants.length > 1 ? { questionVariant } : {}),
+            }),
+        );
+
         // Generate blueprints across batch-size matrix (and optionally context levels)
         console.log(chalk.gray('Generating blueprints...'));
 
@@ -258,8 +454,9 @@ dtefCommand
                 // Multi-level context generation
                 const allContextIds = contextQuestionIds;
                 for (const level of contextLevels) {
+                    // Ranked selection picks each level's questions from the whole pool
                     const levelContextIds = level === 0 ? undefined
-                        : level === -1 ? allContextIds
+                        : level === -1 || contextSelection !== 'order' ? allContextIds
                         : allContextIds.slice(0, level);
                     const levelContextCount = level === 0 ? undefined
                         : level === -1 ? undefined
@@ -270,13 +467,16 @@ dtefCommand
                         targetQuestionIds: slicedQuestions,
                         contextQuestionIds: levelContextIds,
                         contextQuestionCount: levelContextCount,
+                        ...contextSelectionConfig,
                         segmentSelection: options.segments ? 'specific' : 'all',
                         segmentIds: options.segments?.split(',').map((s: string) => s.trim()),
                         tokenBudget: parseInt(options.tokenBudget, 10),
                         batchSize: batchSize > 1 ? batchSize : undefined,
                         evalType,
                         contextFormat,
+                        ...fewShotConfig,
                         reasoningMode,
+                        promptTemplate,
                         syntheticN: evalType === 'synthetic-individual' ? syntheticN : undefined,
                         individualData,
                         sampleSize: evalType === 'individual-answer' ? sampleSize : undefined,
@@ -290,7 +490,7 @@ dtefCommand
 
                     const levelLabel = level === -1 ? 'all' : level === 0 ? '0 (baseline)' : String(level);
                     console.log(chalk.gray(`    Context level ${levelLabel}...`));
-                    const blueprints = DemographicBlueprintService.generateBlueprints(config);
+                    const blueprints = generateVariants(config);
                     allBlueprints.push(...blueprints);
                 }
             } else {
@@ -298,13 +498,16 @@ dtefCommand
                     surveyData,
                     targetQuestionIds: slicedQuestions,
                     contextQuestionIds,
+                    ...contextSelectionConfig,
                     segmentSelection: options.segments ? 'specific' : 'all',
                     segmentIds: options.segments?.split(',').map((s: string) => s.trim()),
                     tokenBudget: parseInt(options.tokenBudget, 10),
                     batchSize: batchSize > 1 ? batchSize : undefined,
                     evalType,
                     contextFormat,
+                    ...fewShotConfig,
                     reasoningMode,
+                    promptTemplate,
                     syntheticN: evalType === 'synthetic-individual' ? syntheticN : undefined,
                     individualData,
                     sampleSize: evalType === 'individual-answer' ? sampleSize : undefined,
@@ -315,7 +518,7 @@ dtefCommand
                         temperatures,
                     },
                 };
-                const blueprints = DemographicBlueprintService.generateBlueprints(config);
+                const blueprints = generateVariants(config);
                 allBlueprints.push(...blueprints);
             }
         }
@@ -641,6 +844,11 @@ dtefCommand
     .option('--min-sample-size <n>', 'Minimum sample size for segments', '10')
     .option('--questions <ids>', 'Specific question IDs to include (comma-separated)')
     .option('--individuals', 'Also load individual participant data')
+    .option('--weight-column <header>', 'Participants CSV weight column; recomputes segment distributions from weighted individuals')
+    .option('--intersections <depth>', 'Also build crossed segments up to this many attributes from participant data (e.g. 2 = age × gender)', '1')
+    .option('--open-ended', 'Also import free-text questions with each segment\'s answers from participant data (for the open-ended eval type)')
+    .option('--themes', 'With --open-ended, ask an LLM for the themes each segment\'s answers raise, scored as theme-coverage points')
+    .option('--theme-model <id>', 'Model that lists the --themes', DEFAULT_THEME_MODEL)
     .option('--dry-run', 'Show summary without writing files')
     .action(async (options) => {
         const chalk = (await import('chalk')).default;
@@ -672,12 +880,23 @@ dtefCommand
             return;
         }
 
+        const intersectionDepth = parseInt(options.intersections, 10);
+        if (isNaN(intersectionDepth) || intersectionDepth < 1) {
+            console.error(chalk.red('--intersections must be a positive integer'));
+            process.exit(1);
+        }
+        if (options.themes && !options.openEnded) {
+            console.error(chalk.red('--themes needs --open-ended'));
+            process.exit(1);
+        }
+
         const segmentCategories = options.segments.split(',').map((s: string) => s.trim());
         const adapterOpts = {
             segmentCategories,
             includeDemographicQuestions: !!options.includeDemographicQuestions,
             minSampleSize: parseInt(options.minSampleSize, 10),
             questionIds: options.questions ? options.questions.split(',').map((s: string) => s.trim()) : undefined,
+            includeOpenEnded: !!options.openEnded,
         };
 
         const roundsToImport = options.all ? available : [options.round];
@@ -690,7 +909,85 @@ dtefCommand
 
             console.log(chalk.white(`Importing ${roundId}...`));
 
-            const data = loadGlobalDialoguesRound(dataDir, roundId, adapterOpts);
+            let data: DTEFSurveyData;
+            try {
+                // Weighted imports build crossed segments below, from the weighted participants
+                data = loadGlobalDialoguesRound(dataDir, roundId, {
+                    ...adapterOpts,
+                    intersectionDepth: options.weightColumn ? 1 : intersectionDepth,
+                });
+            } catch (err: any) {
+                console.error(chalk.red(`  Import failed: ${err.message}`));
+                continue;
+            }
+
+            // Aggregate CSVs are unweighted; rebuild segments from weighted participants
+            let weightedIndividuals: DTEFIndividualData | undefined;
+            if (options.weightColumn) {
+                try {
+                    weightedIndividuals = loadIndividualData(roundId, dataDir, data, { weightColumn: options.weightColumn });
+                } catch (err: any) {
+                    console.error(chalk.red(`  Weighted import failed: ${err.message}`));
+                    continue;
+                }
+                data = recomputeSegmentsFromIndividuals(data, weightedIndividuals, adapterOpts.minSampleSize);
+                console.log(chalk.gray(`  Recomputed segments from ${weightedIndividuals.participants.length} weighted participants`));
+                if (intersectionDepth > 1) {
+                    data.segments.push(...buildIntersectionalSegments(data, weightedIndividuals, {
+                        maxDepth: intersectionDepth,
+                        minSampleSize: adapterOpts.minSampleSize,
+                    }));
+                }
+            }
+
+            // Aggregate CSVs only hold agreement rates for free-text answers; take each segment's answers from participants
+            if (options.openEnded) {
+                try {
+                    weightedIndividuals ??= loadIndividualData(roundId, dataDir, data);
+                } catch (err: any) {
+                    console.error(chalk.red(`  Open-ended import failed: ${err.message}`));
+                    continue;
+                }
+                data = attachOpenEndedResponses(data, weightedIndividuals);
+                const openEndedCount = Object.values(data.questions).filter(q => q.type === 'open-ended').length;
+                console.log(chalk.gray(`  Open-ended questions with segment answers: ${openEndedCount}`));
+
+                if (options.themes && openEndedCount > 0 && !options.dryRun) {
+                    console.log(chalk.gray(`  Listing answer themes with ${options.themeModel}...`));
+                    data = await extractOpenEndedThemes(data, {
+                        modelId: options.themeModel,
+                        complete: (systemPrompt, prompt) => getModelResponse({
+                            modelId: options.themeModel,
+                            systemPrompt,
+                            prompt,
+                            temperature: 0,
+                            maxTokens: 1000,
+                            useCache: false,
+                        }),
+                        logger: {
+                            info: (msg: string) => console.log(chalk.gray(`  ${msg}`)),
+                            warn: (msg: string) => console.warn(chalk.yellow(msg)),
+                        },
+                    });
+                }
+            }
+
+            // Aggregate CSVs only hold first-choice shares for rankings; build rank matrices from participants
+            const rankingCount = Object.values(data.questions).filter(q => q.type === 'ranking').length;
+            if (rankingCount > 0 && !options.weightColumn) {
+                try {
+                    weightedIndividuals ??= loadIndividualData(roundId, dataDir, data);
+                    data = attachRankDistributions(data, weightedIndividuals);
+                } catch (err: any) {
+                    console.log(chalk.yellow(`  No rank matrices for ${rankingCount} ranking question(s); blueprints will skip them: ${err.message}`));
+                }
+            }
+
+            if (intersectionDepth > 1) {
+                const crossed = data.segments.filter(seg => Object.keys(seg.attributes).length > 1).length;
+                console.log(chalk.gray(`  Crossed segments (depth ≤ ${intersectionDepth}, n ≥ ${adapterOpts.minSampleSize}): ${crossed}`));
+            }
+
             const summary = summarizeDataset(data);
 
             console.log(chalk.green(`  Questions:  ${summary.questionCount}`));
@@ -699,6 +996,9 @@ dtefCommand
             if (summary.sampleSizeRange.max > 0) {
                 console.log(chalk.green(`  Sample sizes: ${summary.sampleSizeRange.min}–${summary.sampleSizeRange.max}`));
             }
+            if (summary.effectiveSampleSizeRange) {
+                console.log(chalk.green(`  Effective n (Kish): ${summary.effectiveSampleSizeRange.min}–${summary.effectiveSampleSizeRange.max}`));
+            }
 
             // Validate
             const validation = validateDTEFSurveyData(data);
@@ -730,7 +1030,7 @@ dtefCommand
             if (options.individuals) {
                 try {
                     console.log(chalk.gray(`  Loading individual participant data...`));
-                    const individualData = loadIndividualData(roundId, dataDir, data);
+                    const individualData = weightedIndividuals ?? loadIndividualData(roundId, dataDir, data);
 
                     const totalResponses = individualData.participants.reduce((sum, p) => sum + p.responses.length, 0);
                     const avgResponses = individualData.participants.length > 0
@@ -757,15 +1057,106 @@ dtefCommand
         console.log(chalk.green('Done!'));
     });
 
+/**
+ * dtef import-csv - Import a respondent-level CSV export using a column mapping file
+ */
+dtefCommand
+    .command('import-csv')
+    .description('Import a respondent-level survey CSV into DTEF format using a declarative column mapping')
+    .requiredOption('-i, --input <path>', 'Path to the respondent-level CSV file')
+    .requiredOption('-m, --mapping <path>', 'Path to the column mapping file (YAML or JSON)')
+    .option('-o, --output <path>', 'Output JSON file path (default: ./output/<surveyId>.json)')
+    .option('--segments <attributes>', 'Demographic attributes to build segments for (comma-separated, default: all mapped)')
+    .option('--min-sample-size <n>', 'Minimum sample size for segments', '10')
+    .option('--dry-run', 'Show summary without writing files')
+    .action(async (options) => {
+        const chalk = (await import('chalk')).default;
+
+        console.log(chalk.blue('\nCSV → DTEF Importer\n'));
+
+        const inputPath = path.resolve(options.input);
+        const mappingPath = path.resolve(options.mapping);
+        if (!fs.existsSync(mappingPath)) {
+            console.error(chalk.red(`Mapping file not found: ${mappingPath}`));
+            process.exit(1);
+        }
+
+        const minSampleSize = parseInt(options.minSampleSize, 10);
+        if (isNaN(minSampleSize) || minSampleSize < 1) {
+            console.error(chalk.red('--min-sample-size must be a positive integer'));
+            process.exit(1);
+        }
+
+        let imported: CsvSurveyImport;
+        try {
+            imported = loadCsvSurvey(inputPath, mappingPath, {
+                segmentAttributes: options.segments
+                    ? options.segments.split(',').map((s: string) => s.trim())
+                    : undefined,
+                minSampleSize,
+            });
+        } catch (err: any) {
+            console.error(chalk.red(`Import failed: ${err.message}`));
+            process.exit(1);
+        }
+
+        const { surveyData, individualData } = imported;
+        const summary = summarizeDataset(surveyData);
+
+        console.log(chalk.green(`  Survey:       ${surveyData.surveyId}`));
+        console.log(chalk.green(`  Questions:    ${summary.questionCount}`));
+        console.log(chalk.green(`  Segments:     ${summary.segmentCount} (${summary.segmentCategories.join(', ')})`));
+        console.log(chalk.green(`  Responses:    ${summary.totalResponses}`));
+        console.log(chalk.green(`  Participants: ${individualData.participants.length}`));
+        if (summary.sampleSizeRange.max > 0) {
+            console.log(chalk.green(`  Sample sizes: ${summary.sampleSizeRange.min}–${summary.sampleSizeRange.max}`));
+        }
+        if (summary.effectiveSampleSizeRange) {
+            console.log(chalk.green(`  Effective n (Kish): ${summary.effectiveSampleSizeRange.min}–${summary.effectiveSampleSizeRange.max}`));
+        }
+
+        const validation = validateDTEFSurveyData(surveyData);
+        if (validation.warnings.length > 0) {
+            console.log(chalk.yellow(`  Warnings: ${validation.warnings.length}`));
+        }
+        if (!validation.valid) {
+            console.error(chalk.red(`  Validation failed: ${validation.errors.length} error(s)`));
+            for (const e of validation.errors.slice(0, 5)) {
+                console.error(chalk.red(`    - ${e.path}: ${e.message}`));
+            }
+            process.exit(1);
+        }
+
+        if (options.dryRun) {
+            console.log(chalk.yellow('  Dry run - not writing files\n'));
+            return;
+        }
+
+        const outputPath = options.output
+            ? path.resolve(options.output)
+            : path.resolve(`./output/${surveyData.surveyId}.json`);
+        const indivOutputPath = outputPath.replace(/\.json$/, '') + '_individuals.json';
+
+        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+        fs.writeFileSync(outputPath, JSON.stringify(surveyData, null, 2), 'utf-8');
+        console.log(chalk.gray(`  Written: ${outputPath}`));
+        fs.writeFileSync(indivOutputPath, JSON.stringify(individualData, null, 2), 'utf-8');
+        console.log(chalk.gray(`  Written: ${indivOutputPath}\n`));
+
+        console.log(chalk.green('Done!'));
+    });
+
 /**
  * dtef generate-baseline - Generate synthetic baseline results for leaderboard comparison
  */
 dtefCommand
     .command('generate-baseline')
-    .description('Generate synthetic baseline predictor results (population-marginal or uniform)')
+    .description('Generate synthetic baseline predictor results (population-marginal, uniform, random-dirichlet, shuffled or mrp)')
     .requiredOption('-i, --input <path>', 'Path to DTEF survey data JSON file')
     .option('-o, --output <dir>', 'Output directory for generated results', './output/dtef-baselines')
-    .option('-t, --type <baseline>', 'Baseline type: population-marginal or uniform', 'population-marginal')
+    .option('-t, --type <baseline>', 'Baseline type: population-marginal, uniform, random-dirichlet, shuffled or mrp', 'population-marginal')
+    .option('--individuals-input <path>', 'Path to individual participant data JSON (required for the mrp baseline)')
+    .option('--l2 <lambda>', 'Ridge penalty on attribute coefficients for the mrp baseline', '1')
     .option('--upload', 'Save results directly to S3 using the standard result storage path')
     .option('--force', 'Overwrite existing baseline files without prompting')
     .option('--dry-run', 'Show summary without writing files')
@@ -790,16 +1181,44 @@ dtefCommand
         }
 
         const baselineType = options.type as BaselineType;
-        if (!['population-marginal', 'uniform', 'random-dirichlet', 'shuffled'].includes(baselineType)) {
-            console.error(chalk.red('--type must be "population-marginal", "uniform", "random-dirichlet", or "shuffled"'));
+        if (!['population-marginal', 'uniform', 'random-dirichlet', 'shuffled', 'mrp'].includes(baselineType)) {
+            console.error(chalk.red('--type must be "population-marginal", "uniform", "random-dirichlet", "shuffled", or "mrp"'));
             process.exit(1);
         }
 
+        let individualData: DTEFIndividualData | undefined;
+        const l2 = parseFloat(options.l2);
+        if (baselineType === 'mrp') {
+            if (!options.individualsInput) {
+                console.error(chalk.red('--type mrp requires --individuals-input'));
+                process.exit(1);
+            }
+            if (isNaN(l2) || l2 < 0) {
+                console.error(chalk.red('--l2 must be a non-negative number'));
+                process.exit(1);
+            }
+            const indivPath = path.resolve(options.individualsInput);
+            if (!fs.existsSync(indivPath)) {
+                console.error(chalk.red(`Individual data file not found: ${indivPath}`));
+                process.exit(1);
+            }
+            try {
+                individualData = JSON.parse(fs.readFileSync(indivPath, 'utf-8'));
+            } catch (e: any) {
+                console.error(chalk.red(`Failed to parse individual data: ${e.message}`));
+                process.exit(1);
+            }
+        }
+
         console.log(chalk.gray(`Baseline type: ${baselineType}`));
         console.log(chalk.gray(`Segments: ${surveyData.segments.length}`));
-        console.log(chalk.gray(`Questions: ${Object.keys(surveyData.questions).length}\n`));
+        console.log(chalk.gray(`Questions: ${Object.keys(surveyData.questions).length}`));
+        if (individualData) {
+            console.log(chalk.gray(`Participants: ${individualData.participants.length} (l2 = ${l2})`));
+        }
+        console.log();
 
-        const results = generateBaselineResults(surveyData, baselineType);
+        const results = generateBaselineResults(surveyData, baselineType, { individualData, mrp: { l2 } });
         const meanScore = getBaselineMeanScore(results);
 
         console.log(chalk.green(`Generated ${results.length} baseline result(s)`));
@@ -882,6 +1301,48 @@ dtefCommand
         console.log(chalk.gray('Use --upload to save directly to S3, or upload manually.'));
     });
 
+/**
+ * dtef findings - Run the statistical validity analysis and publish the Findings artifact
+ */
+dtefCommand
+    .command('findings')
+    .description('Run the statistical validity analysis and publish a new version of live/aggregates/dtef_findings.json')
+    .option('--surveys-dir <dir>', 'Directory containing gd*.json survey files', './data/surveys')
+    .option('--report-dir <dir>', 'Directory for the markdown report and detailed JSON summary', './reports')
+    .option('--dry-run', 'Run the analysis and write the local report without publishing findings to storage')
+    .action(async (options) => {
+        const chalk = (await import('chalk')).default;
+
+        console.log(chalk.blue('\nDTEF Statistical Validity Analysis\n'));
+
+        const surveysDir = path.resolve(options.surveysDir);
+        if (!fs.existsSync(surveysDir)) {
+            console.error(chalk.red(`Surveys directory not found: ${surveysDir}`));
+            process.exit(1);
+        }
+
+        const run = await runStatisticalAnalysis({ surveysDir });
+
+        const reportDir = path.resolve(options.reportDir);
+        fs.mkdirSync(reportDir, { recursive: true });
+        const reportPath = path.join(reportDir, 'statistical-validity-report.md');
+        fs.writeFileSync(reportPath, renderStatisticalReport(run), 'utf-8');
+        const summaryPath = path.join(reportDir, 'statistical-summary.json');
+        fs.writeFileSync(summaryPath, JSON.stringify(buildStatisticalSummary(run), null, 2), 'utf-8');
+        console.log(chalk.gray(`\nReport written to: ${reportPath}`));
+        console.log(chalk.gray(`JSON summary written to: ${summaryPath}`));
+
+        const findings = buildFindingsArtifact(run);
+        if (options.dryRun) {
+            console.log(chalk.yellow('\nDry run — findings not published.'));
+            console.log(JSON.stringify(findings, null, 2));
+            return;
+        }
+
+        const published = await publishFindings(findings);
+        console.log(chalk.green(`\nPublished findings v${published.version} (${published.modelCount} models, ${published.provenance.resultCount} results)`));
+    });
+
 /**
  * dtef experiment - Manage experiments
  */
@@ -901,10 +1362,105 @@ experimentCommand
     .option('--success-criteria <text>', 'Success criteria', 'Treatment condition outperforms control')
     .option('--independent-variable <var>', 'Independent variable', 'contextFormat')
     .option('--status <status>', 'Initial status', 'planned')
+    .option('--mde <delta>', 'Power analysis: smallest score difference between conditions worth detecting (e.g. 0.02)')
+    .option('--variance-from <id>', 'Power analysis: prior experiment whose per-prompt scores supply the variance')
+    .option('--score-sd <sd>', 'Power analysis: per-cell score SD to use instead of --variance-from')
+    .option('--paired', 'Power analysis: treat --score-sd as the SD of paired cell differences')
+    .option('--power <p>', 'Power analysis: target power', '0.8')
+    .option('--alpha <a>', 'Significance level for the power analysis and sequential rule', '0.05')
+    .option('--sequential <method>', 'Sequential stopping rule evaluated by analyze: obrien-fleming, pocock, or bayesian')
+    .option('--max-looks <n>', 'Sequential: maximum number of interim analyses', '5')
+    .option('--posterior-threshold <p>', 'Sequential (bayesian): posterior probability needed to stop', '0.975')
     .option('--dry-run', 'Show experiment JSON without saving')
     .action(async (options) => {
         const chalk = (await import('chalk')).default;
 
+        const alpha = parseFloat(options.alpha);
+        if (isNaN(alpha) || alpha <= 0 || alpha >= 1) {
+            console.error(chalk.red('--alpha must be between 0 and 1'));
+            process.exit(1);
+        }
+
+        // Power analysis: suggest how many segment × question cells each condition needs
+        let powerAnalysis: ExperimentPowerAnalysis | undefined;
+        if (options.mde) {
+            const mde = parseFloat(options.mde);
+            const power = parseFloat(options.power);
+            if (isNaN(mde) || mde <= 0) {
+                console.error(chalk.red('--mde must be a positive score difference'));
+                process.exit(1);
+            }
+            if (isNaN(power) || power <= 0 || power >= 1) {
+                console.error(chalk.red('--power must be between 0 and 1'));
+                process.exit(1);
+            }
+
+            let variability: { sd: number; paired: boolean; cells?: number };
+            let source: string;
+            if (options.scoreSd) {
+                variability = { sd: parseFloat(options.scoreSd), paired: !!options.paired };
+                if (isNaN(variability.sd) || variability.sd <= 0) {
+                    console.error(chalk.red('--score-sd must be positive'));
+                    process.exit(1);
+                }
+                source = 'manual';
+            } else if (options.varianceFrom) {
+                const prior = await getJsonFile<ExperimentRecord>(`live/experiments/${options.varianceFrom}.json`);
+                if (!prior?.design.conditionMap) {
+                    console.error(chalk.red(`Experiment "${options.varianceFrom}" not found or has no conditionMap`));
+                    process.exit(1);
+                }
+                console.log(chalk.gray(`Loading per-prompt scores from experiment "${prior.id}"...`));
+                try {
+                    variability = estimateScoreVariability(
+                        await loadConditionObservations(prior),
+                        Object.keys(prior.design.conditionMap),
+                    );
+                } catch (e: any) {
+                    console.error(chalk.red(`Could not estimate variance from "${prior.id}": ${e.message}`));
+                    process.exit(1);
+                }
+                source = `experiment:${prior.id} (${variability.cells} cells)`;
+            } else {
+                console.error(chalk.red('--mde needs a variance source: --variance-from <experiment-id> or --score-sd <sd>'));
+                process.exit(1);
+            }
+
+            powerAnalysis = buildPowerAnalysis(variability, { minDetectableEffect: mde, alpha, power, source });
+            console.log(chalk.blue('\nPower analysis'));
+            console.log(chalk.white(`  ${powerAnalysis.paired ? 'Paired-difference' : 'Per-cell'} SD: ${powerAnalysis.scoreSd.toFixed(4)} (${source})`));
+            console.log(chalk.white(`  To detect Δ=${mde} at α=${alpha} with ${(power * 100).toFixed(0)}% power: ${powerAnalysis.requiredCells} segment × question cells per condition${powerAnalysis.paired ? ' (paired)' : ''}`));
+            console.log(chalk.gray('  Cells count each model separately; divide by the number of models for segment × question pairs.\n'));
+        }
+
+        let sequential: ExperimentSequentialDesign | undefined;
+        if (options.sequential) {
+            const method = options.sequential as ExperimentSequentialMethod;
+            if (!['obrien-fleming', 'pocock', 'bayesian'].includes(method)) {
+                console.error(chalk.red('--sequential must be one of: obrien-fleming, pocock, bayesian'));
+                process.exit(1);
+            }
+            const maxLooks = parseInt(options.maxLooks, 10);
+            if (isNaN(maxLooks) || maxLooks < 1) {
+                console.error(chalk.red('--max-looks must be a positive integer'));
+                process.exit(1);
+            }
+            const posteriorThreshold = parseFloat(options.posteriorThreshold);
+            if (method === 'bayesian' && (isNaN(posteriorThreshold) || posteriorThreshold <= 0.5 || posteriorThreshold >= 1)) {
+                console.error(chalk.red('--posterior-threshold must be between 0.5 and 1'));
+                process.exit(1);
+            }
+            sequential = {
+                method,
+                alpha,
+                maxLooks,
+                ...(method === 'bayesian' ? { posteriorThreshold } : {}),
+            };
+            if (!powerAnalysis) {
+                console.log(chalk.gray('No power analysis: sequential looks will use the share of configs with results as the information fraction.'));
+            }
+        }
+
         const record: ExperimentRecord = {
             id: options.id,
             title: options.title,
@@ -919,6 +1475,8 @@ experimentCommand
                 segments: 'all',
                 models: 'CORE',
                 subjectQuestions: 'all',
+                ...(powerAnalysis ? { powerAnalysis } : {}),
+                ...(sequential ? { sequential } : {}),
             },
             configIds: [],
             results: null,
@@ -957,6 +1515,9 @@ experimentCommand
         console.log(`  Status:     ${record.status}`);
         console.log(`  Hypothesis: ${record.hypothesis}`);
         console.log(`  Configs:    ${record.configIds.length}`);
+        if (record.progress) {
+            console.log(`  Progress:   ${record.progress.completedConfigs}/${record.progress.totalConfigs} evaluated, ${record.progress.enqueuedConfigs} enqueued (as of ${record.progress.updatedAt})`);
+        }
         if (record.results) {
             console.log(`  Summary:    ${record.results.summary}`);
             if (record.results.conditionScores) {
@@ -1234,252 +1795,376 @@ experimentCommand
     });
 
 /**
- * dtef experiment analyze - Aggregate eval results and compute statistics
+ * Replaces (or adds) one experiment in the experiments index without listing
+ * every experiment file, so progress updates show up on the Experiments page.
  */
-experimentCommand
-    .command('analyze')
-    .description('Analyze experiment results: aggregate scores by condition, compute statistics')
-    .requiredOption('--id <id>', 'Experiment ID')
-    .option('--dry-run', 'Show analysis without writing back to S3')
-    .action(async (options) => {
-        const chalk = (await import('chalk')).default;
+async function upsertExperimentIndex(record: ExperimentRecord): Promise<void> {
+    const index = await getJsonFile<ExperimentIndex>('live/aggregates/experiments_index.json');
+    const experiments = (index?.experiments ?? []).filter(e => e.id !== record.id);
+    experiments.push(record);
+    const updated: ExperimentIndex = {
+        experiments: experiments.sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+        lastUpdated: new Date().toISOString(),
+    };
+    await saveJsonFile('live/aggregates/experiments_index.json', updated);
+}
 
-        console.log(chalk.blue('\nExperiment Analysis\n'));
-
-        const record = await getJsonFile<ExperimentRecord>(`live/experiments/${options.id}.json`);
-        if (!record) {
-            console.error(chalk.red(`Experiment "${options.id}" not found`));
-            process.exit(1);
-        }
-
-        console.log(chalk.white(`Experiment: ${record.title}`));
-        console.log(chalk.white(`Hypothesis: ${record.hypothesis}\n`));
-
-        const conditionMap = record.design.conditionMap;
-        if (!conditionMap || Object.keys(conditionMap).length === 0) {
-            console.error(chalk.red('No conditionMap defined. Use --experiment-id/--condition-name with generate, or add-configs.'));
-            process.exit(1);
-        }
-
-        const conditionNames = Object.keys(conditionMap);
-        console.log(chalk.gray(`Conditions: ${conditionNames.join(', ')}`));
-
-        // Detect temperature experiment: conditions share configIds and independent variable is temperature
-        const isTemperatureExperiment = record.design.independentVariable === 'temperature';
-        if (isTemperatureExperiment) {
-            console.log(chalk.gray('Temperature experiment detected — extracting per-temperature scores from raw results'));
-        }
-
-        // Helper: extract temperature from condition name (e.g., "temp-0.3" → 0.3)
-        function extractTemperatureFromCondition(condName: string): number | null {
-            const match = condName.match(/(\d+\.?\d*)$/);
-            return match ? parseFloat(match[1]) : null;
-        }
+/**
+ * Loads the latest result of every config in the experiment's conditionMap
+ * and returns its per-question scores, tagged with condition and levels.
+ */
+async function loadConditionObservations(record: ExperimentRecord): Promise<FactorialObservation[]> {
+    const observations: FactorialObservation[] = [];
+    for (const [condName, configIds] of Object.entries(record.design.conditionMap ?? {})) {
+        const condition = record.design.conditions.find(c => c.name === condName);
+        const levels = (condition?.levels ?? {}) as FactorialObservation['levels'];
+        for (const configId of configIds) {
+            const runs = await listRunsForConfig(configId);
+            if (!runs || runs.length === 0) continue;
+            const resultData = await getResultByFileName(configId, runs[0].fileName) as WevalResult | null;
+            if (resultData) observations.push(...extractResultObservations(resultData, condName, levels));
+        }
+    }
+    return observations;
+}
 
-        // Helper: compute hybrid score for a specific temperature subset of a result
-        function computeHybridScoreForTemperature(resultData: WevalResult, targetTemp: number): number | null {
-            const scores: number[] = [];
-            const tempStr = Number.isInteger(targetTemp) ? targetTemp.toString() : targetTemp.toString();
-            const tempModels = resultData.effectiveModels.filter(m => {
-                const tempMatch = m.match(/\[temp:(\d+\.?\d*)\]/);
-                if (!tempMatch) return false;
-                return parseFloat(tempMatch[1]) === targetTemp;
-            });
-            if (tempModels.length === 0) return null;
-
-            for (const promptId of resultData.promptIds) {
-                for (const modelId of tempModels) {
-                    if (modelId === IDEAL_MODEL_ID) continue;
-                    const sim = resultData.evaluationResults?.perPromptSimilarities?.[promptId]?.[modelId]?.[IDEAL_MODEL_ID];
-                    const covResult = resultData.evaluationResults?.llmCoverageScores?.[promptId]?.[modelId];
-                    const cov = covResult && !('error' in covResult) ? covResult.avgCoverageExtent : undefined;
-                    const hybridScore = calculateHybridScore(sim, cov);
-                    if (hybridScore !== null) scores.push(hybridScore);
-                }
+/**
+ * Aggregates eval results per condition, computes statistics and writes them
+ * back to the experiment record (unless dryRun). Returns false when there is
+ * nothing to analyze yet.
+ */
+async function analyzeExperiment(
+    record: ExperimentRecord,
+    chalk: typeof import('chalk').default,
+    dryRun = false,
+): Promise<boolean> {
+    console.log(chalk.white(`Experiment: ${record.title}`));
+    console.log(chalk.white(`Hypothesis: ${record.hypothesis}\n`));
+
+    const conditionMap = record.design.conditionMap;
+    if (!conditionMap || Object.keys(conditionMap).length === 0) {
+        console.error(chalk.red('No conditionMap defined. Use --experiment-id/--condition-name with generate, or add-configs.'));
+        return false;
+    }
+
+    const conditionNames = Object.keys(conditionMap);
+    console.log(chalk.gray(`Conditions: ${conditionNames.join(', ')}`));
+
+    // Detect temperature experiment: conditions share configIds and independent variable is temperature.
+    // Factorial designs generate separate configs per temperature level, so they use the standard path.
+    const isTemperatureExperiment = record.design.independentVariable === 'temperature' && !record.design.factors;
+    if (isTemperatureExperiment) {
+        console.log(chalk.gray('Temperature experiment detected — extracting per-temperature scores from raw results'));
+    }
+
+    // Helper: extract temperature from condition name (e.g., "temp-0.3" → 0.3)
+    function extractTemperatureFromCondition(condName: string): number | null {
+        const match = condName.match(/(\d+\.?\d*)$/);
+        return match ? parseFloat(match[1]) : null;
+    }
+
+    // Helper: compute hybrid score for a specific temperature subset of a result
+    function computeHybridScoreForTemperature(resultData: WevalResult, targetTemp: number): number | null {
+        const scores: number[] = [];
+        const tempStr = Number.isInteger(targetTemp) ? targetTemp.toString() : targetTemp.toString();
+        const tempModels = resultData.effectiveModels.filter(m => {
+            const tempMatch = m.match(/\[temp:(\d+\.?\d*)\]/);
+            if (!tempMatch) return false;
+            return parseFloat(tempMatch[1]) === targetTemp;
+        });
+        if (tempModels.length === 0) return null;
+
+        for (const promptId of resultData.promptIds) {
+            for (const modelId of tempModels) {
+                if (modelId === IDEAL_MODEL_ID) continue;
+                const sim = resultData.evaluationResults?.perPromptSimilarities?.[promptId]?.[modelId]?.[IDEAL_MODEL_ID];
+                const covResult = resultData.evaluationResults?.llmCoverageScores?.[promptId]?.[modelId];
+                const cov = covResult && !('error' in covResult) ? covResult.avgCoverageExtent : undefined;
+                const hybridScore = calculateHybridScore(sim, cov);
+                if (hybridScore !== null) scores.push(hybridScore);
             }
-            return scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : null;
-        }
-
-        // Collect scores per condition
-        const perConditionStats: Record<string, { mean: number; stddev: number; n: number; scores: number[] }> = {};
-        let totalAnalyzed = 0;
-        let totalMissing = 0;
-
-        // For temperature experiments, deduplicate configIds and load raw results once
-        const rawResultCache = new Map<string, WevalResult | null>();
-
-        for (const condName of conditionNames) {
-            const configIds = conditionMap[condName];
-            const scores: number[] = [];
-            const targetTemp = isTemperatureExperiment ? extractTemperatureFromCondition(condName) : null;
-
-            for (const configId of configIds) {
-                if (isTemperatureExperiment && targetTemp !== null) {
-                    // Per-temperature analysis: load raw result and extract per-temp score
-                    let resultData = rawResultCache.get(configId);
-                    if (resultData === undefined) {
-                        const runs = await listRunsForConfig(configId);
-                        if (runs && runs.length > 0) {
-                            resultData = await getResultByFileName(configId, runs[0].fileName) as WevalResult | null;
-                        } else {
-                            resultData = null;
-                        }
-                        rawResultCache.set(configId, resultData);
-                    }
-
-                    if (!resultData) {
-                        totalMissing++;
-                        continue;
-                    }
-
-                    const score = computeHybridScoreForTemperature(resultData, targetTemp);
-                    if (score != null) {
-                        scores.push(score);
-                        totalAnalyzed++;
+        }
+        return scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : null;
+    }
+
+    // Collect scores per condition
+    const perConditionStats: Record<string, { mean: number; stddev: number; n: number; scores: number[] }> = {};
+    let totalAnalyzed = 0;
+    let totalMissing = 0;
+
+    // For temperature experiments, deduplicate configIds and load raw results once
+    const rawResultCache = new Map<string, WevalResult | null>();
+
+    for (const condName of conditionNames) {
+        const configIds = conditionMap[condName];
+        const scores: number[] = [];
+        const targetTemp = isTemperatureExperiment ? extractTemperatureFromCondition(condName) : null;
+
+        for (const configId of configIds) {
+            if (isTemperatureExperiment && targetTemp !== null) {
+                // Per-temperature analysis: load raw result and extract per-temp score
+                let resultData = rawResultCache.get(configId);
+                if (resultData === undefined) {
+                    const runs = await listRunsForConfig(configId);
+                    if (runs && runs.length > 0) {
+                        resultData = await getResultByFileName(configId, runs[0].fileName) as WevalResult | null;
                     } else {
-                        totalMissing++;
-                    }
-                } else {
-                    // Standard analysis: use summary hybrid score
-                    const summary = await getConfigSummary(configId);
-                    if (!summary || summary.runs.length === 0) {
-                        totalMissing++;
-                        continue;
+                        resultData = null;
                     }
+                    rawResultCache.set(configId, resultData);
+                }
 
-                    const latestRun = summary.runs[0];
-                    const score = latestRun.hybridScoreStats?.average;
-                    if (score != null) {
-                        scores.push(score);
-                        totalAnalyzed++;
-                    } else {
-                        totalMissing++;
-                    }
+                if (!resultData) {
+                    totalMissing++;
+                    continue;
                 }
-            }
 
-            if (scores.length > 0) {
-                const mean = scores.reduce((a, b) => a + b, 0) / scores.length;
-                const sd = scores.length > 1 ? stddev(scores) : 0;
-                perConditionStats[condName] = { mean, stddev: sd, n: scores.length, scores };
-                console.log(chalk.green(`  ${condName}: mean=${mean.toFixed(4)}, sd=${sd.toFixed(4)}, n=${scores.length}/${configIds.length}`));
+                const score = computeHybridScoreForTemperature(resultData, targetTemp);
+                if (score != null) {
+                    scores.push(score);
+                    totalAnalyzed++;
+                } else {
+                    totalMissing++;
+                }
             } else {
-                console.log(chalk.yellow(`  ${condName}: no scores available (0/${configIds.length} configs have results)`));
+                // Standard analysis: use summary hybrid score
+                const summary = await getConfigSummary(configId);
+                if (!summary || summary.runs.length === 0) {
+                    totalMissing++;
+                    continue;
+                }
+
+                const latestRun = summary.runs[0];
+                const score = latestRun.hybridScoreStats?.average;
+                if (score != null) {
+                    scores.push(score);
+                    totalAnalyzed++;
+                } else {
+                    totalMissing++;
+                }
             }
         }
 
-        if (totalAnalyzed === 0) {
-            console.error(chalk.red('\nNo configs have results yet. Run evaluations first.'));
-            process.exit(1);
+        if (scores.length > 0) {
+            const mean = scores.reduce((a, b) => a + b, 0) / scores.length;
+            const sd = scores.length > 1 ? stddev(scores) : 0;
+            perConditionStats[condName] = { mean, stddev: sd, n: scores.length, scores };
+            console.log(chalk.green(`  ${condName}: mean=${mean.toFixed(4)}, sd=${sd.toFixed(4)}, n=${scores.length}/${configIds.length}`));
+        } else {
+            console.log(chalk.yellow(`  ${condName}: no scores available (0/${configIds.length} configs have results)`));
         }
+    }
 
-        // Build conditionScores
-        const conditionScores: Record<string, number> = {};
-        for (const [name, stats] of Object.entries(perConditionStats)) {
-            conditionScores[name] = stats.mean;
-        }
+    if (totalAnalyzed === 0) {
+        console.error(chalk.red('\nNo configs have results yet. Run evaluations first.'));
+        return false;
+    }
 
-        // Compute statistics if exactly 2 conditions
-        let pValue: number | undefined;
-        let effectSize: number | undefined;
-        let summaryText: string;
+    // Build conditionScores
+    const conditionScores: Record<string, number> = {};
+    for (const [name, stats] of Object.entries(perConditionStats)) {
+        conditionScores[name] = stats.mean;
+    }
 
-        const statsEntries = Object.entries(perConditionStats);
-        if (statsEntries.length === 2) {
-            const [nameA, statsA] = statsEntries[0];
-            const [nameB, statsB] = statsEntries[1];
+    // Compute statistics if exactly 2 conditions
+    let pValue: number | undefined;
+    let effectSize: number | undefined;
+    let summaryText: string;
 
-            if (statsA.scores.length >= 2 && statsB.scores.length >= 2) {
-                const tResult = welchTTest(statsA.scores, statsB.scores);
-                const d = cohensD(statsA.scores, statsB.scores);
-                pValue = tResult.pValue;
-                effectSize = Math.abs(d);
+    const statsEntries = Object.entries(perConditionStats);
+    if (statsEntries.length === 2) {
+        const [nameA, statsA] = statsEntries[0];
+        const [nameB, statsB] = statsEntries[1];
 
-                const delta = statsA.mean - statsB.mean;
-                const deltaSign = delta >= 0 ? '+' : '';
-                const effect = interpretEffectSize(d);
+        if (statsA.scores.length >= 2 && statsB.scores.length >= 2) {
+            const tResult = welchTTest(statsA.scores, statsB.scores);
+            const d = cohensD(statsA.scores, statsB.scores);
+            pValue = tResult.pValue;
+            effectSize = Math.abs(d);
 
-                summaryText = `${nameA} scored ${statsA.mean.toFixed(4)} vs ${nameB} at ${statsB.mean.toFixed(4)}, Δ=${deltaSign}${delta.toFixed(4)}, p=${pValue.toFixed(4)}, d=${Math.abs(d).toFixed(3)} (${effect})`;
+            const delta = statsA.mean - statsB.mean;
+            const deltaSign = delta >= 0 ? '+' : '';
+            const effect = interpretEffectSize(d);
 
-                console.log(chalk.white(`\n  Welch's t-test: t=${tResult.t.toFixed(3)}, df=${tResult.df.toFixed(1)}, p=${pValue.toFixed(4)}`));
-                console.log(chalk.white(`  Cohen's d: ${d.toFixed(3)} (${effect})`));
-            } else {
-                summaryText = `${nameA}: ${statsA.mean.toFixed(4)} (n=${statsA.n}), ${nameB}: ${statsB.mean.toFixed(4)} (n=${statsB.n}) — insufficient data for significance test`;
-            }
+            summaryText = `${nameA} scored ${statsA.mean.toFixed(4)} vs ${nameB} at ${statsB.mean.toFixed(4)}, Δ=${deltaSign}${delta.toFixed(4)}, p=${pValue.toFixed(4)}, d=${Math.abs(d).toFixed(3)} (${effect})`;
+
+            console.log(chalk.white(`\n  Welch's t-test: t=${tResult.t.toFixed(3)}, df=${tResult.df.toFixed(1)}, p=${pValue.toFixed(4)}`));
+            console.log(chalk.white(`  Cohen's d: ${d.toFixed(3)} (${effect})`));
         } else {
-            const parts = statsEntries.map(([name, stats]) => `${name}: ${stats.mean.toFixed(4)} (n=${stats.n})`);
-            summaryText = parts.join(', ');
+            summaryText = `${nameA}: ${statsA.mean.toFixed(4)} (n=${statsA.n}), ${nameB}: ${statsB.mean.toFixed(4)} (n=${statsB.n}) — insufficient data for significance test`;
         }
+    } else {
+        const parts = statsEntries.map(([name, stats]) => `${name}: ${stats.mean.toFixed(4)} (n=${stats.n})`);
+        summaryText = parts.join(', ');
+    }
 
-        console.log(chalk.blue(`\nSummary: ${summaryText}`));
-        console.log(chalk.gray(`Configs analyzed: ${totalAnalyzed}, missing: ${totalMissing}`));
+    // Per-question scores, for the mixed model and for sequential looks
+    const sequential = record.design.sequential;
+    const observations = record.design.factors || (sequential && conditionNames.length === 2)
+        ? await loadConditionObservations(record)
+        : [];
 
-        if (options.dryRun) {
-            console.log(chalk.yellow('\nDry run — not writing results to S3'));
-            return;
-        }
+    // Factorial designs: fit main effects and interactions on per-question scores
+    let mixedModel: ExperimentMixedModel | undefined;
+    if (record.design.factors) {
+        console.log(chalk.gray('\nFitting mixed model (random intercepts for question and segment)...'));
 
-        // Write results back
-        record.results = {
-            summary: summaryText,
-            conditionScores,
-            pValue,
-            effectSize,
-            perConditionStats,
-            analyzedAt: new Date().toISOString(),
-            configsAnalyzed: totalAnalyzed,
-            configsMissing: totalMissing,
-        };
+        try {
+            mixedModel = fitFactorialMixedModel(observations, record.design.factors);
+            console.log(chalk.white(`\n  ${mixedModel.formula}  (n=${mixedModel.observations}${mixedModel.converged ? '' : ', did not converge'})`));
+            for (const c of mixedModel.coefficients) {
+                console.log(chalk.white(`  ${c.term.padEnd(48)} ${c.estimate.toFixed(4).padStart(8)}  [${c.ci95Low.toFixed(4)}, ${c.ci95High.toFixed(4)}]  p=${c.pValue.toFixed(4)}`));
+            }
+            for (const t of mixedModel.terms) {
+                console.log(chalk.gray(`  ${t.term}: χ²(${t.df})=${t.chiSquare.toFixed(2)}, p=${t.pValue.toFixed(4)}`));
+            }
+            summaryText += `. Mixed model: ${mixedModel.terms.map(t => `${t.term} p=${t.pValue.toFixed(4)}`).join(', ')}`;
+        } catch (err: any) {
+            console.log(chalk.yellow(`  Could not fit mixed model: ${err.message}`));
+        }
+    }
+
+    // Sequential experiments: evaluate the stopping rule on the paired cells scored so far
+    let sequentialLooks = record.results?.sequentialLooks ?? [];
+    let sequentialDecision: ExperimentSequentialDecision | undefined;
+    if (sequential) {
+        const [nameA, nameB] = conditionNames;
+        const differences = conditionNames.length === 2 ? pairConditionCells(observations, nameA, nameB) : [];
+        const lastLook = sequentialLooks[sequentialLooks.length - 1];
+        if (conditionNames.length !== 2) {
+            console.log(chalk.yellow('\nSequential stopping needs exactly two conditions — skipped'));
+        } else if (differences.length < 2) {
+            console.log(chalk.yellow('\nSequential stopping: fewer than two paired cells so far — skipped'));
+        } else if (lastLook && lastLook.cells === differences.length) {
+            sequentialDecision = lastLook.decision;
+            console.log(chalk.gray(`\nSequential: no new cells since look ${lastLook.look} (${lastLook.decision})`));
+        } else {
+            const plannedCells = record.design.powerAnalysis?.requiredCells;
+            const look = evaluateSequentialLook(sequential, differences, sequentialLooks, {
+                informationFraction: plannedCells ? differences.length / plannedCells : totalAnalyzed / (totalAnalyzed + totalMissing),
+                finalData: totalMissing === 0,
+                minDetectableEffect: record.design.powerAnalysis?.minDetectableEffect,
+            });
+            sequentialLooks = [...sequentialLooks, look];
+            sequentialDecision = look.decision;
+            const criterion = look.boundary !== undefined
+                ? `|z|=${Math.abs(look.zStatistic).toFixed(2)} vs boundary ${look.boundary.toFixed(2)}`
+                : `P(${nameA} > ${nameB})=${look.posteriorProbability!.toFixed(3)}`;
+            console.log(chalk.white(`\n  Sequential look ${look.look}/${sequential.maxLooks} (${sequential.method}): ${look.cells} paired cells, information ${(look.informationFraction * 100).toFixed(0)}%`));
+            console.log(chalk.white(`  Δ=${look.meanDifference.toFixed(4)} ± ${look.standardError.toFixed(4)}, ${criterion} → ${look.decision}`));
+            summaryText += `. Sequential look ${look.look}: ${look.decision}`;
+        }
+    }
+
+    console.log(chalk.blue(`\nSummary: ${summaryText}`));
+    console.log(chalk.gray(`Configs analyzed: ${totalAnalyzed}, missing: ${totalMissing}`));
+
+    if (dryRun) {
+        console.log(chalk.yellow('\nDry run — not writing results to S3'));
+        return true;
+    }
+
+    // Write results back
+    record.results = {
+        summary: summaryText,
+        conditionScores,
+        pValue,
+        effectSize,
+        perConditionStats,
+        mixedModel,
+        sequentialLooks: sequential ? sequentialLooks : undefined,
+        analyzedAt: new Date().toISOString(),
+        configsAnalyzed: totalAnalyzed,
+        configsMissing: totalMissing,
+    };
+
+    if (totalMissing === 0 && totalAnalyzed > 0) {
+        record.status = 'completed';
+    } else if (totalAnalyzed > 0) {
+        record.status = 'running';
+    }
+
+    // A sequential rule decides when the experiment stops, regardless of how many configs remain
+    if (sequentialDecision === 'continue') {
+        record.status = 'running';
+    } else if (sequentialDecision) {
+        record.status = 'completed';
+        record.completedAt = record.completedAt ?? new Date().toISOString();
+        if (sequentialDecision === 'max-looks' && !record.conclusion) {
+            record.conclusion = 'needs-more-data';
+        }
+        console.log(chalk.green(`Sequential rule stopped the experiment (${sequentialDecision})`));
+    }
+
+    await saveJsonFile(`live/experiments/${record.id}.json`, record);
+    console.log(chalk.green(`\nResults written to live/experiments/${record.id}.json`));
+
+    // Rebuild index
+    console.log(chalk.gray('Rebuilding experiment index...'));
+    const { S3Client: S3, ListObjectsV2Command: ListCmd } = await import('@aws-sdk/client-s3');
+    const experiments: ExperimentRecord[] = [];
+    const prefix = 'live/experiments/';
+
+    try {
+        const s3Client = new S3({ region: process.env.APP_AWS_REGION || process.env.AWS_REGION || 'us-east-1' });
+        const bucket = process.env.APP_S3_BUCKET_NAME || process.env.S3_BUCKET_NAME;
+        if (bucket) {
+            let continuationToken: string | undefined;
+            const keys: string[] = [];
+            do {
+                const resp = await s3Client.send(new ListCmd({
+                    Bucket: bucket,
+                    Prefix: prefix,
+                    ContinuationToken: continuationToken,
+                }));
+                for (const obj of resp.Contents || []) {
+                    if (obj.Key && obj.Key.endsWith('.json')) {
+                        keys.push(obj.Key);
+                    }
+                }
+                continuationToken = resp.NextContinuationToken;
+            } while (continuationToken);
 
-        if (totalMissing === 0 && totalAnalyzed > 0) {
-            record.status = 'completed';
-        } else if (totalAnalyzed > 0) {
-            record.status = 'running';
+            for (const key of keys) {
+                const exp = await getJsonFile<ExperimentRecord>(key);
+                if (exp && exp.id) experiments.push(exp);
+            }
+
+            const index: ExperimentIndex = {
+                experiments: experiments.sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+                lastUpdated: new Date().toISOString(),
+            };
+            await saveJsonFile('live/aggregates/experiments_index.json', index);
+            console.log(chalk.green(`Index rebuilt: ${experiments.length} experiment(s)`));
         }
+    } catch (err: any) {
+        console.log(chalk.yellow(`Warning: could not rebuild index: ${err.message}`));
+    }
 
-        await saveJsonFile(`live/experiments/${record.id}.json`, record);
-        console.log(chalk.green(`\nResults written to live/experiments/${record.id}.json`));
+    return true;
+}
 
-        // Rebuild index
-        console.log(chalk.gray('Rebuilding experiment index...'));
-        const { S3Client: S3, ListObjectsV2Command: ListCmd } = await import('@aws-sdk/client-s3');
-        const experiments: ExperimentRecord[] = [];
-        const prefix = 'live/experiments/';
+/**
+ * dtef experiment analyze - Aggregate eval results and compute statistics
+ */
+experimentCommand
+    .command('analyze')
+    .description('Analyze experiment results: aggregate scores by condition, compute statistics')
+    .requiredOption('--id <id>', 'Experiment ID')
+    .option('--dry-run', 'Show analysis without writing back to S3')
+    .action(async (options) => {
+        const chalk = (await import('chalk')).default;
 
-        try {
-            const s3Client = new S3({ region: process.env.APP_AWS_REGION || process.env.AWS_REGION || 'us-east-1' });
-            const bucket = process.env.APP_S3_BUCKET_NAME || process.env.S3_BUCKET_NAME;
-            if (bucket) {
-                let continuationToken: string | undefined;
-                const keys: string[] = [];
-                do {
-                    const resp = await s3Client.send(new ListCmd({
-                        Bucket: bucket,
-                        Prefix: prefix,
-                        ContinuationToken: continuationToken,
-                    }));
-                    for (const obj of resp.Contents || []) {
-                        if (obj.Key && obj.Key.endsWith('.json')) {
-                            keys.push(obj.Key);
-                        }
-                    }
-                    continuationToken = resp.NextContinuationToken;
-                } while (continuationToken);
+        console.log(chalk.blue('\nExperiment Analysis\n'));
 
-                for (const key of keys) {
-                    const exp = await getJsonFile<ExperimentRecord>(key);
-                    if (exp && exp.id) experiments.push(exp);
-                }
+        const record = await getJsonFile<ExperimentRecord>(`live/experiments/${options.id}.json`);
+        if (!record) {
+            console.error(chalk.red(`Experiment "${options.id}" not found`));
+            process.exit(1);
+        }
 
-                const index: ExperimentIndex = {
-                    experiments: experiments.sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
-                    lastUpdated: new Date().toISOString(),
-                };
-                await saveJsonFile('live/aggregates/experiments_index.json', index);
-                console.log(chalk.green(`Index rebuilt: ${experiments.length} experiment(s)`));
-            }
-        } catch (err: any) {
-            console.log(chalk.yellow(`Warning: could not rebuild index: ${err.message}`));
+        if (!await analyzeExperiment(record, chalk, options.dryRun)) {
+            process.exit(1);
         }
     });
 
@@ -1516,6 +2201,219 @@ experimentCommand
         console.log(chalk.gray(`Experiment "${record.id}" now has ${record.configIds.length} total configIds`));
     });
 
+/**
+ * dtef experiment run - Generate, enqueue and track a factorial experiment
+ *
+ * Expands the design's factors into the full condition matrix, writes each
+ * condition's blueprints, enqueues configs without results for evaluation and
+ * records progress on the experiment. Re-running the command checks progress
+ * again; once every config has a result it runs the analysis.
+ */
+experimentCommand
+    .command('run')
+    .description('Run a factorial experiment from a YAML design: generate all conditions, enqueue evals, analyze when done')
+    .requiredOption('--design <path>', 'Path to the experiment design YAML')
+    .option('-o, --output <dir>', 'Output root for condition blueprints (default: ./output/blueprints/experiments/<id>)')
+    .option('--no-enqueue', 'Write blueprints and track progress without enqueueing evaluations')
+    .option('--reenqueue', 'Enqueue configs without results even if they were enqueued before')
+    .option('--wait', 'Poll until every config has a result, then analyze')
+    .option('--poll-interval <seconds>', 'Seconds between progress checks with --wait', '60')
+    .option('--max-wait <minutes>', 'Give up waiting after this many minutes', '240')
+    .option('--dry-run', 'Show the condition matrix without writing or enqueueing anything')
+    .action(async (options) => {
+        const chalk = (await import('chalk')).default;
+
+        console.log(chalk.blue('\nFactorial Experiment Runner\n'));
+
+        const designPath = path.resolve(options.design);
+        if (!fs.existsSync(designPath)) {
+            console.error(chalk.red(`Design file not found: ${designPath}`));
+            process.exit(1);
+        }
+
+        let design: FactorialDesign;
+        try {
+            design = loadFactorialDesign(fs.readFileSync(designPath, 'utf-8'));
+        } catch (e: any) {
+            console.error(chalk.red(e.message));
+            process.exit(1);
+        }
+
+        const surveyPath = path.resolve(design.survey);
+        if (!fs.existsSync(surveyPath)) {
+            console.error(chalk.red(`Survey file not found: ${surveyPath}`));
+            process.exit(1);
+        }
+        let surveyData: DTEFSurveyData;
+        try {
+            surveyData = JSON.parse(fs.readFileSync(surveyPath, 'utf-8'));
+        } catch (e: any) {
+            console.error(chalk.red(`Failed to parse survey file: ${e.message}`));
+            process.exit(1);
+        }
+        const validation = validateDTEFSurveyData(surveyData);
+        if (!validation.valid) {
+            console.error(chalk.red(`Survey data has ${validation.errors.length} error(s). Run "dtef validate" for details.`));
+            process.exit(1);
+        }
+
+        const conditions = expandConditionMatrix(design);
+        const factorNames = Object.keys(design.factors);
+        console.log(chalk.white(`Experiment: ${design.title} (${design.id})`));
+        console.log(chalk.gray(`Factors: ${factorNames.map(f => `${f} [${design.factors[f as keyof typeof design.factors]!.join(', ')}]`).join(' × ')}`));
+        console.log(chalk.gray(`Conditions: ${conditions.length}\n`));
+
+        // Generate every condition's blueprints up front so a bad level fails before anything is enqueued
+        const ext = '.yml';
+        const generated = conditions.map(condition => {
+            const blueprints = DemographicBlueprintService.generateBlueprints(
+                buildConditionBlueprintConfig(design, surveyData, condition)
+            );
+            return {
+                condition,
+                blueprints: blueprints.map(blueprint => ({
+                    id: conditionConfigId(design.id, condition, blueprint.configId!, ext),
+                    content: yaml.dump(blueprint, { lineWidth: 120, noRefs: true }),
+                    blueprint,
+                })),
+            };
+        });
+
+        for (const { condition, blueprints } of generated) {
+            console.log(chalk.white(`  ${condition.name}: ${blueprints.length} blueprint(s)`));
+        }
+
+        if (options.dryRun) {
+            const total = generated.reduce((sum, g) => sum + g.blueprints.length, 0);
+            console.log(chalk.yellow(`\nDry run — would write and enqueue ${total} config(s)`));
+            return;
+        }
+
+        const outputRoot = path.resolve(options.output || `./output/blueprints/experiments/${design.id}`);
+        for (const { condition, blueprints } of generated) {
+            const conditionDir = path.join(outputRoot, conditionSlug(condition));
+            fs.mkdirSync(conditionDir, { recursive: true });
+            for (const { blueprint, content } of blueprints) {
+                fs.writeFileSync(path.join(conditionDir, `${blueprint.configId}${ext}`), content, 'utf-8');
+            }
+        }
+        console.log(chalk.gray(`\nBlueprints written to ${outputRoot}`));
+
+        // Create the experiment record, or refresh the design of an existing one
+        const conditionMap: Record<string, string[]> = {};
+        for (const { condition, blueprints } of generated) {
+            conditionMap[condition.name] = blueprints.map(b => b.id);
+        }
+        const recordKey = `live/experiments/${design.id}.json`;
+        const record: ExperimentRecord = await getJsonFile<ExperimentRecord>(recordKey) ?? {
+            id: design.id,
+            title: design.title,
+            status: 'planned',
+            createdAt: new Date().toISOString(),
+            completedAt: null,
+            hypothesis: design.hypothesis,
+            successCriteria: design.successCriteria || 'At least one factor has a significant effect',
+            design: {
+                independentVariable: '',
+                conditions: [],
+                segments: 'all',
+                models: 'CORE',
+                subjectQuestions: 'all',
+            },
+            configIds: [],
+            results: null,
+            conclusion: null,
+            notes: '',
+        };
+        record.title = design.title;
+        record.hypothesis = design.hypothesis;
+        if (design.successCriteria) record.successCriteria = design.successCriteria;
+        record.design = {
+            independentVariable: factorNames.join(' × '),
+            conditions,
+            conditionMap,
+            segments: design.segments?.join(',') ?? 'all',
+            models: design.models.join(','),
+            subjectQuestions: design.questions?.join(',') ?? 'all',
+            factors: design.factors as Record<string, Array<string | number>>,
+        };
+        record.configIds = Object.values(conditionMap).flat();
+
+        const allConfigs = generated.flatMap(g => g.blueprints);
+        const enqueued = new Set(options.reenqueue ? [] : record.progress?.enqueuedConfigIds ?? []);
+
+        async function findCompleted(): Promise<Set<string>> {
+            const completed = new Set<string>();
+            for (const { id } of allConfigs) {
+                const summary = await getConfigSummary(id);
+                if (summary && summary.runs.length > 0) completed.add(id);
+            }
+            return completed;
+        }
+
+        let completed = await findCompleted();
+
+        if (options.enqueue) {
+            const toEnqueue = allConfigs.filter(c => !completed.has(c.id) && !enqueued.has(c.id));
+            console.log(chalk.gray(`Enqueueing ${toEnqueue.length} config(s) (${completed.size} already have results, ${enqueued.size} previously enqueued)...`));
+            let failed = 0;
+            for (const { id, content } of toEnqueue) {
+                const config = parseAndNormalizeBlueprint(content, 'yaml');
+                delete config.id;
+                try {
+                    const response = await callBackgroundFunction({
+                        functionName: 'execute-evaluation-background',
+                        body: { config: { ...config, id, title: config.title || id } },
+                        timeout: 10000,
+                    });
+                    if (response.ok) {
+                        enqueued.add(id);
+                    } else {
+                        failed++;
+                        console.error(chalk.yellow(`  Failed to enqueue ${id}: ${response.error}`));
+                    }
+                } catch (err: any) {
+                    failed++;
+                    console.error(chalk.yellow(`  Failed to enqueue ${id}: ${err.message}`));
+                }
+            }
+            if (failed > 0) {
+                console.log(chalk.yellow(`${failed} config(s) could not be enqueued; re-run to retry them`));
+            }
+        }
+
+        async function saveProgress(): Promise<void> {
+            record.progress = computeExperimentProgress(conditionMap, completed, enqueued);
+            if (record.status === 'planned' && (record.progress.enqueuedConfigs > 0 || record.progress.completedConfigs > 0)) {
+                record.status = 'running';
+            }
+            await saveJsonFile(recordKey, record);
+            await upsertExperimentIndex(record);
+            console.log(chalk.white(`Progress: ${record.progress.completedConfigs}/${record.progress.totalConfigs} config(s) have results`));
+        }
+
+        await saveProgress();
+
+        const deadline = Date.now() + parseFloat(options.maxWait) * 60_000;
+        const pollMs = Math.max(1, parseFloat(options.pollInterval)) * 1000;
+        while (options.wait && completed.size < allConfigs.length && Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, pollMs));
+            const before = completed.size;
+            completed = await findCompleted();
+            if (completed.size !== before) await saveProgress();
+        }
+
+        if (completed.size < allConfigs.length) {
+            console.log(chalk.gray(`\nNot all configs have results yet. Re-run this command (or add --wait) to check again.`));
+            return;
+        }
+
+        console.log(chalk.green('\nAll configs have results — analyzing\n'));
+        if (!await analyzeExperiment(record, chalk)) {
+            process.exit(1);
+        }
+    });
+
 /**
  * dtef curate-questions - LLM-powered question curation
  */
@@ -498,6 +498,9 @@ interface RunOptions {
     updateSummaries?: boolean;
     genTimeoutMs?: number | string;
     genRetries?: number | string;
+    batch?: boolean;
+    batchPollSeconds?: number | string;
+    resume?: string;
     demoStdout?: boolean;
 }
 
@@ -588,7 +591,18 @@ async function runBlueprint(config: ComparisonConfig, options: RunOptions & { fi
         const contentHash = generateConfigContentHash(config);
         let finalRunLabel: string;
 
-        if (runLabel) {
+        const resumeLabel = options.resume?.trim();
+        if (resumeLabel) {
+            // A run label always ends with the blueprint content hash; refuse to mix responses from an edited blueprint
+            if (resumeLabel !== contentHash && !resumeLabel.endsWith(`_${contentHash}`)) {
+                throw new Error(`Cannot resume run '${resumeLabel}': the blueprint has changed since that run (current content hash: ${contentHash}).`);
+            }
+            if (runLabel) {
+                await loggerInstance.warn(`--run-label is ignored when --resume is given.`);
+            }
+            finalRunLabel = resumeLabel;
+            await loggerInstance.info(`Resuming run '${finalRunLabel}' from its checkpoint.`);
+        } else if (runLabel) {
             finalRunLabel = `${runLabel}_${contentHash}`;
             await loggerInstance.info(`User provided runLabel '${options.runLabel?.trim()}', appended content hash. Final runLabel: '${finalRunLabel}'`);
         } else {
@@ -654,6 +668,13 @@ async function runBlueprint(config: ComparisonConfig, options: RunOptions & { fi
 
             const genRetries = options.genRetries !== undefined ? parseInt(String(options.genRetries), 10) : undefined;
             const genTimeoutMs = options.genTimeoutMs !== undefined ? parseInt(String(options.genTimeoutMs), 10) : undefined;
+            const batchPollSeconds = options.batchPollSeconds !== undefined ? parseInt(String(options.batchPollSeconds), 10) : undefined;
+            const batch = options.batch
+                ? { pollIntervalMs: batchPollSeconds !== undefined && !isNaN(batchPollSeconds) ? batchPollSeconds * 1000 : undefined }
+                : undefined;
+            if (batch) {
+                loggerInstance.info('Batch mode enabled: Anthropic/OpenAI prompts will be submitted as provider batch jobs.');
+            }
 
             // Load fixtures if requested
             let fixturesCtx: { fixtures: FixtureSet; strict: boolean } | undefined;
@@ -700,7 +721,7 @@ async function runBlueprint(config: ComparisonConfig, options: RunOptions & { fi
                 // In demo mode we always skip executive summary regardless of flags
                 options.requireExecutiveSummary && !options.demoStdout,
                 (options.skipExecutiveSummary === true) || (options.demoStdout === true),
-                { genTimeoutMs, genRetries },
+                { genTimeoutMs, genRetries, batch, resume: !!resumeLabel },
                 undefined,
                 fixturesCtx,
                 options.demoStdout === true
@@ -1040,6 +1061,9 @@ const localCommand = new Command('local')
     .option('--update-summaries', 'Update model summaries and homepage summary after the evaluation run (defaults to false).')
     .option('--gen-timeout-ms <number>', 'Timeout in milliseconds for each candidate generation API call (default 30000).')
     .option('--gen-retries <number>', 'Number of retries for each candidate generation API call (default 1).')
+    .option('--batch', 'Submit single-shot prompts for Anthropic/OpenAI models via their batch APIs (about half the cost, slower). Interrupted runs resume the same batch jobs.')
+    .option('--batch-poll-seconds <number>', 'How often to poll batch job status in --batch mode (default 30).')
+    .option('--resume <runLabel>', 'Resume a run that stopped part way: reuse the responses in its checkpoint and only generate the missing ones.')
     .option('--demo-stdout', 'Demo mode: never save results or summaries; force llm-coverage; skip executive summary; print JSON to stdout.', false)
     .action(actionLocal);
 
@@ -1057,6 +1081,9 @@ const githubCommand = new Command('github')
     .option('--update-summaries', 'Update model summaries and homepage summary after the evaluation run (defaults to false).')
     .option('--gen-timeout-ms <number>', 'Timeout in milliseconds for each candidate generation API call (default 30000).')
     .option('--gen-retries <number>', 'Number of retries for each candidate generation API call (default 1).')
+    .option('--batch', 'Submit single-shot prompts for Anthropic/OpenAI models via their batch APIs (about half the cost, slower). Interrupted runs resume the same batch jobs.')
+    .option('--batch-poll-seconds <number>', 'How often to poll batch job status in --batch mode (default 30).')
+    .option('--resume <runLabel>', 'Resume a run that stopped part way: reuse the responses in its checkpoint and only generate the missing ones.')
     .option('--demo-stdout', 'Demo mode: never save results or summaries; force llm-coverage; skip executive summary; print JSON to stdout.', false)
     .action(actionGitHub);
 
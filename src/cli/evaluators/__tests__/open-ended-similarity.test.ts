@@ -0,0 +1,63 @@
+import {
+    centroid,
+    meanPairwiseDistance,
+    parseOpenEndedAnswers,
+    scoreOpenEndedEmbeddings,
+} from '../open-ended-similarity';
+
+describe('parseOpenEndedAnswers', () => {
+    it('parses a JSON array of strings', () => {
+        expect(parseOpenEndedAnswers('["Cost of living", " Housing "]')).toEqual(['Cost of living', 'Housing']);
+    });
+
+    it('reads the array after an ANSWERS: marker inside a code fence', () => {
+        const text = 'They worry about money.\n```json\nANSWERS: ["Rent", "Food prices"]\n```';
+        expect(parseOpenEndedAnswers(text)).toEqual(['Rent', 'Food prices']);
+    });
+
+    it('falls back to one answer per line with list markers and quotes stripped', () => {
+        const text = '1. "Rent is too high"\n- Jobs\n\n* Healthcare';
+        expect(parseOpenEndedAnswers(text)).toEqual(['Rent is too high', 'Jobs', 'Healthcare']);
+    });
+});
+
+describe('centroid and meanPairwiseDistance', () => {
+    it('averages vectors component-wise', () => {
+        expect(centroid([[1, 0], [0, 1]])).toEqual([0.5, 0.5]);
+        expect(centroid([])).toEqual([]);
+    });
+
+    it('measures spread as mean cosine distance', () => {
+        expect(meanPairwiseDistance([[1, 0], [1, 0]])).toBeCloseTo(0);
+        expect(meanPairwiseDistance([[1, 0], [0, 1]])).toBeCloseTo(1);
+        expect(meanPairwiseDistance([[1, 0]])).toBe(0);
+    });
+});
+
+describe('scoreOpenEndedEmbeddings', () => {
+    const references = [[1, 0], [0, 1]];
+
+    it('scores identical answer sets as a perfect match', () => {
+        const score = scoreOpenEndedEmbeddings(references, references)!;
+        expect(score.centroidSimilarity).toBeCloseTo(1);
+        expect(score.neighbourCoverage).toBeCloseTo(1);
+        expect(score.diversityMatch).toBeCloseTo(1);
+        expect(score.score).toBeCloseTo(1);
+        expect(score.generatedCount).toBe(2);
+        expect(score.referenceCount).toBe(2);
+    });
+
+    it('penalises collapsing onto one viewpoint', () => {
+        const score = scoreOpenEndedEmbeddings([[1, 0], [1, 0]], references)!;
+        // One reference is covered exactly, the orthogonal one not at all
+        expect(score.neighbourCoverage).toBeCloseTo(0.5);
+        expect(score.diversity).toBeCloseTo(0);
+        expect(score.diversityMatch).toBeCloseTo(0);
+        expect(score.score).toBeLessThan(0.7);
+    });
+
+    it('returns null when either side is empty', () => {
+        expect(scoreOpenEndedEmbeddings([], references)).toBeNull();
+        expect(scoreOpenEndedEmbeddings(references, [])).toBeNull();
+    });
+});
@@ -103,6 +103,7 @@ function createAssessmentFromResult(result: PointFunctionReturn, point: Normaliz
     let score: number | undefined;
     let error: string | undefined;
     let reflection: string | undefined;
+    let metrics: Record<string, number> | undefined;
 
     if (typeof result === 'boolean') {
         score = result ? 1.0 : 0.0;
@@ -123,6 +124,9 @@ function createAssessmentFromResult(result: PointFunctionReturn, point: Normaliz
             if ((result as any).explain && typeof (result as any).explain === 'string') {
                 reflection = (result as any).explain;
             }
+            if ((result as any).metrics && typeof (result as any).metrics === 'object') {
+                metrics = (result as any).metrics;
+            }
         } else {
             error = `Invalid return object from point function: ${JSON.stringify(result)}`;
         }
@@ -148,6 +152,7 @@ function createAssessmentFromResult(result: PointFunctionReturn, point: Normaliz
         evaluationType: 'computational',
         reflection,
         error,
+        ...(metrics ? { metrics } : {}),
     };
 }
 
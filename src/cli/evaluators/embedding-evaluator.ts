@@ -1,5 +1,5 @@
 import { getConfig } from '../config';
-import { EvaluationInput, FinalComparisonOutputV2, Evaluator, EvaluationMethod, IDEAL_MODEL_ID } from '../types/cli_types';
+import { EvaluationInput, FinalComparisonOutputV2, Evaluator, EvaluationMethod, IDEAL_MODEL_ID, OpenEndedScores } from '../types/cli_types';
 import { getEmbedding } from '../services/embedding-service'; // Correct path to existing service
 import { cosineSimilarity as calculateSimilarity } from '@/lib/math';
 import { parseModelIdForDisplay } from '@/app/utils/modelIdUtils';
@@ -7,6 +7,7 @@ import { ProgressCallback } from '../services/comparison-pipeline-service.non-st
 import pLimit from '@/lib/pLimit';
 import { AdaptiveRateLimiter } from '@/lib/adaptive-rate-limiter';
 import { extractProviderFromModelId, getProviderProfile } from '@/lib/provider-rate-limits';
+import { parseOpenEndedAnswers, scoreOpenEndedEmbeddings } from './open-ended-similarity';
 
 type Logger = ReturnType<typeof getConfig>['logger'];
 
@@ -95,17 +96,42 @@ export class EmbeddingEvaluator implements Evaluator {
             }
         }
 
+        // Open-ended prompts: embed each generated answer and each real reference answer
+        const openEndedTexts = new Map<string, { text: string; embeddingModel: string }>();
+        const openEndedKeys = new Map<string, { referenceKeys: string[]; answerKeys: Record<string, string[]> }>();
+
+        for (const input of inputs) {
+            const { promptData, config } = input;
+            const promptConfig = config.prompts.find(p => p.id === promptData.promptId);
+            const references = (promptConfig?.referenceResponses || []).filter(r => r.trim() !== '');
+            if (references.length === 0) continue;
+
+            const embeddingModel = input.embeddingModel || 'openai:text-embedding-3-small';
+            const referenceKeys = references.map((text, i) => {
+                const key = `${promptData.promptId}\u0000ref\u0000${i}`;
+                openEndedTexts.set(key, { text, embeddingModel });
+                return key;
+            });
+
+            const answerKeys: Record<string, string[]> = {};
+            for (const [modelId, responseData] of Object.entries(promptData.modelResponses)) {
+                if (responseData.hasError || !responseData.finalAssistantResponseText) continue;
+                answerKeys[modelId] = parseOpenEndedAnswers(responseData.finalAssistantResponseText).map((text, i) => {
+                    const key = `${promptData.promptId}\u0000${modelId}\u0000${i}`;
+                    openEndedTexts.set(key, { text, embeddingModel });
+                    return key;
+                });
+            }
+            openEndedKeys.set(promptData.promptId, { referenceKeys, answerKeys });
+        }
+
         const embeddingsMap = new Map<string, number[]>();
         const embeddingTasks: Promise<void>[] = [];
-        const totalEmbeddings = textsToEmbed.size;
+        const totalEmbeddings = textsToEmbed.size + openEndedTexts.size;
         this.logger.info(`[EmbeddingEvaluator] Preparing to generate ${totalEmbeddings} embeddings.`);
         let embeddedCount = 0;
 
-        textsToEmbed.forEach((text, key) => {
-            const promptId = key.split(':')[0];
-            const inputForPrompt = inputs.find(i => i.promptData.promptId === promptId);
-            const embeddingModel = inputForPrompt?.embeddingModel || 'openai:text-embedding-3-small'; // Fallback for safety
-
+        const queueEmbedding = (key: string, text: string, embeddingModel: string) => {
             // Get provider-specific limiter
             const provider = extractProviderFromModelId(embeddingModel);
             const providerLimiterObj = providerLimiters.get(provider);
@@ -136,7 +162,15 @@ export class EmbeddingEvaluator implements Evaluator {
                     await onProgress(embeddedCount, totalEmbeddings);
                 }
             }));
+        };
+
+        textsToEmbed.forEach((text, key) => {
+            const promptId = key.split(':')[0];
+            const inputForPrompt = inputs.find(i => i.promptData.promptId === promptId);
+            const embeddingModel = inputForPrompt?.embeddingModel || 'openai:text-embedding-3-small'; // Fallback for safety
+            queueEmbedding(key, text, embeddingModel);
         });
+        openEndedTexts.forEach(({ text, embeddingModel }, key) => queueEmbedding(key, text, embeddingModel));
 
         await Promise.all(embeddingTasks);
         this.logger.info(`[EmbeddingEvaluator] Finished generating ${embeddedCount}/${totalEmbeddings} embeddings.`);
@@ -207,10 +241,26 @@ export class EmbeddingEvaluator implements Evaluator {
             });
         });
 
+        const openEndedScores: OpenEndedScores = {};
+        openEndedKeys.forEach(({ referenceKeys, answerKeys }, promptId) => {
+            const references = referenceKeys.map(k => embeddingsMap.get(k)).filter((e): e is number[] => !!e);
+            openEndedScores[promptId] = {};
+            for (const [modelId, keys] of Object.entries(answerKeys)) {
+                const generated = keys.map(k => embeddingsMap.get(k)).filter((e): e is number[] => !!e);
+                const score = scoreOpenEndedEmbeddings(generated, references);
+                if (score) {
+                    openEndedScores[promptId][modelId] = score;
+                } else {
+                    this.logger.warn(`[EmbeddingEvaluator] No open-ended score for ${modelId} on prompt ${promptId}: ${generated.length} answer and ${references.length} reference embeddings.`);
+                }
+            }
+        });
+
         this.logger.info('[EmbeddingEvaluator] Similarity calculations finished.');
         return {
             similarityMatrix,
-            perPromptSimilarities
+            perPromptSimilarities,
+            ...(openEndedKeys.size > 0 ? { openEndedScores } : {}),
         };
     }
 } 
\ No newline at end of file
@@ -0,0 +1,113 @@
+/**
+ * Open-ended answer similarity
+ *
+ * Compares a model's generated answers to an open-ended survey question with
+ * the real answers written by a demographic segment, in embedding space:
+ *
+ * - Centroid similarity: does the model land on the same overall content?
+ * - Nearest-neighbour coverage: is each real answer close to something the
+ *   model wrote, or does the model miss whole viewpoints?
+ * - Diversity match: is the model's spread of answers as wide as the
+ *   segment's, rather than one opinion repeated?
+ *
+ * Used by the EmbeddingEvaluator for prompts that carry `referenceResponses`.
+ */
+
+import { cosineSimilarity } from '@/lib/math';
+import { OpenEndedScore } from '@/types/shared';
+
+/**
+ * Split a model response into individual answers.
+ * Accepts a JSON array of strings (optionally after an ANSWERS: marker or in a
+ * code fence), falling back to one answer per non-empty line with list
+ * markers and surrounding quotes removed.
+ */
+export function parseOpenEndedAnswers(text: string): string[] {
+    const cleaned = text.replace(/```(?:json)?\s*/gi, '').replace(/```/g, '');
+
+    const marker = cleaned.match(/ANSWERS:\s*(\[[\s\S]*\])/i);
+    const arrayMatch = marker ?? cleaned.match(/(\[[\s\S]*\])/);
+    if (arrayMatch) {
+        try {
+            const parsed = JSON.parse(arrayMatch[1]);
+            if (Array.isArray(parsed) && parsed.every(a => typeof a === 'string')) {
+                return parsed.map(a => a.trim()).filter(a => a.length > 0);
+            }
+        } catch {
+            // Fall through to line splitting
+        }
+    }
+
+    const body = marker ? cleaned.slice(cleaned.search(/ANSWERS:/i) + 'ANSWERS:'.length) : cleaned;
+    return body
+        .split('\n')
+        .map(line => line.trim()
+            .replace(/^(?:[-*•]|\d+[.)])\s+/, '')
+            .replace(/^["“](.*)["”]$/, '$1')
+            .trim())
+        .filter(line => line.length > 0);
+}
+
+/**
+ * Component-wise mean of a set of vectors.
+ */
+export function centroid(vectors: number[][]): number[] {
+    if (vectors.length === 0) return [];
+    const sum = new Array(vectors[0].length).fill(0);
+    for (const v of vectors) {
+        for (let i = 0; i < sum.length; i++) sum[i] += v[i];
+    }
+    return sum.map(x => x / vectors.length);
+}
+
+/** Cosine similarity clamped to [0, 1] */
+function similarity(a: number[], b: number[]): number {
+    return Math.min(1, Math.max(0, cosineSimilarity(a, b)));
+}
+
+/**
+ * Mean pairwise cosine distance (1 - similarity) within a set of vectors.
+ * Zero for fewer than two vectors.
+ */
+export function meanPairwiseDistance(vectors: number[][]): number {
+    let total = 0;
+    let pairs = 0;
+    for (let i = 0; i < vectors.length; i++) {
+        for (let j = i + 1; j < vectors.length; j++) {
+            total += 1 - similarity(vectors[i], vectors[j]);
+            pairs++;
+        }
+    }
+    return pairs > 0 ? total / pairs : 0;
+}
+
+/**
+ * Score generated answer embeddings against reference answer embeddings.
+ * Returns null when either side is empty.
+ */
+export function scoreOpenEndedEmbeddings(generated: number[][], references: number[][]): OpenEndedScore | null {
+    if (generated.length === 0 || references.length === 0) return null;
+
+    const centroidSimilarity = similarity(centroid(generated), centroid(references));
+
+    const neighbourCoverage = references.reduce(
+        (sum, ref) => sum + Math.max(...generated.map(g => similarity(g, ref))),
+        0,
+    ) / references.length;
+
+    const diversity = meanPairwiseDistance(generated);
+    const referenceDiversity = meanPairwiseDistance(references);
+    const maxDiversity = Math.max(diversity, referenceDiversity);
+    const diversityMatch = maxDiversity > 0 ? Math.min(diversity, referenceDiversity) / maxDiversity : 1;
+
+    return {
+        centroidSimilarity,
+        neighbourCoverage,
+        diversity,
+        referenceDiversity,
+        diversityMatch,
+        score: (centroidSimilarity + neighbourCoverage + diversityMatch) / 3,
+        generatedCount: generated.length,
+        referenceCount: references.length,
+    };
+}
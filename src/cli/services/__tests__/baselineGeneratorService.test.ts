@@ -10,8 +10,11 @@ import {
     getBaselineMeanScore,
     BASELINE_MODEL_IDS,
     BaselineType,
+    computeMrpPredictions,
+    buildAttributeCells,
+    fitMultinomialLogit,
 } from '../baselineGeneratorService';
-import { DTEFSurveyData } from '@/types/dtef';
+import { DTEFSurveyData, DTEFIndividualData, DTEFParticipant } from '@/types/dtef';
 
 /** Minimal survey data fixture with 2 segments and 2 questions */
 function makeSurveyData(): DTEFSurveyData {
@@ -175,6 +178,160 @@ describe('baselineGeneratorService', () => {
         });
     });
 
+    describe('generateBaselineResults — mrp', () => {
+        /**
+         * 50 participants in each age × gender cell whose chance of answering
+         * "Yes" is additive in the logit: age matters most, gender somewhat.
+         */
+        function makeIndividualFixture(): { survey: DTEFSurveyData; individuals: DTEFIndividualData } {
+            const participants: DTEFParticipant[] = [];
+            const segments: DTEFSurveyData['segments'] = [];
+            for (const age of ['young', 'old']) {
+                for (const gender of ['female', 'male']) {
+                    const logit = (age === 'young' ? 1.5 : -1.5) + (gender === 'female' ? 0.8 : -0.8);
+                    const yes = Math.round(50 / (1 + Math.exp(-logit)));
+                    for (let i = 0; i < 50; i++) {
+                        const selectedIndex = i < yes ? 0 : 1;
+                        participants.push({
+                            participantId: `${age}-${gender}-${i}`,
+                            attributes: { Age: age, Gender: gender },
+                            responses: [{ questionId: 'q1', selectedOption: selectedIndex === 0 ? 'Yes' : 'No', selectedIndex }],
+                        });
+                    }
+                    segments.push({
+                        id: `${age}-${gender}`,
+                        label: `${age} ${gender}`,
+                        attributes: { Age: age, Gender: gender },
+                        sampleSize: 50,
+                        responses: [{ questionId: 'q1', distribution: [yes * 2, 100 - yes * 2] }],
+                    });
+                }
+            }
+            return {
+                survey: {
+                    surveyId: 'mrp-survey',
+                    surveyName: 'MRP Survey',
+                    description: 'Fixture for MRP baseline tests',
+                    source: 'unit-test',
+                    questions: { q1: { text: 'Agree?', type: 'single-select' as any, options: ['Yes', 'No'] } },
+                    segments,
+                },
+                individuals: { surveyId: 'mrp-survey', participants, questionIdMap: {} },
+            };
+        }
+
+        it('requires individual-level data', () => {
+            expect(() => generateBaselineResults(makeSurveyData(), 'mrp')).toThrow(/individual-level data/);
+        });
+
+        it('uses the mrp model ID', () => {
+            const { survey, individuals } = makeIndividualFixture();
+            const results = generateBaselineResults(survey, 'mrp', { individualData: individuals });
+            expect(results).toHaveLength(4);
+            for (const r of results) {
+                expect(r.effectiveModels).toEqual([BASELINE_MODEL_IDS.MRP]);
+                expect(r.config.tags).toContain('mrp');
+            }
+        });
+
+        it('beats the population marginal when attributes predict answers', () => {
+            const { survey, individuals } = makeIndividualFixture();
+            const mrp = getBaselineMeanScore(generateBaselineResults(survey, 'mrp', { individualData: individuals }));
+            const marginal = getBaselineMeanScore(generateBaselineResults(survey, 'population-marginal'));
+            expect(mrp).toBeGreaterThan(marginal);
+        });
+
+        it('recovers a held-out cell from the other cells', () => {
+            const { survey, individuals } = makeIndividualFixture();
+            const predictions = computeMrpPredictions(survey, individuals, { l2: 0.01 });
+            const predicted = predictions.get('young-female')!.get('q1')!;
+            const actual = survey.segments.find(s => s.id === 'young-female')!.responses[0].distribution;
+            expect(predicted[0] + predicted[1]).toBeCloseTo(100, 5);
+            expect(Math.abs(predicted[0] - actual[0])).toBeLessThan(5);
+        });
+
+        it("never uses the held-out segment's own answers", () => {
+            const { survey, individuals } = makeIndividualFixture();
+            const before = computeMrpPredictions(survey, individuals).get('young-female')!.get('q1')!;
+
+            const flipped: DTEFIndividualData = {
+                ...individuals,
+                participants: individuals.participants.map(p => p.participantId.startsWith('young-female-')
+                    ? { ...p, responses: p.responses.map(r => ({ ...r, selectedIndex: 1 - r.selectedIndex })) }
+                    : p),
+            };
+            const after = computeMrpPredictions(survey, flipped).get('young-female')!.get('q1')!;
+            expect(after[0]).toBeCloseTo(before[0], 6);
+        });
+
+        /** 1,000 participants over 5 attributes (57 segments), one 5-option question */
+        function makeGdScaleFixture() {
+            let seed = 1;
+            const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+            const attributeSizes: Record<string, number> = { ageGroup: 6, gender: 3, environment: 3, religion: 8, country: 37 };
+            const effects = Object.fromEntries(Object.entries(attributeSizes).map(([attr, n]) => [
+                attr,
+                Array.from({ length: n }, () => Array.from({ length: 5 }, () => random() * 2 - 1)),
+            ]));
+
+            const participants: DTEFParticipant[] = [];
+            for (let i = 0; i < 1000; i++) {
+                const attributes: Record<string, string> = {};
+                const weights = [1, 1, 1, 1, 1];
+                for (const [attr, n] of Object.entries(attributeSizes)) {
+                    const value = Math.floor(random() * n);
+                    attributes[attr] = `${attr}-${value}`;
+                    effects[attr][value].forEach((e, j) => { weights[j] *= Math.exp(e); });
+                }
+                let draw = random() * weights.reduce((a, b) => a + b, 0);
+                const selectedIndex = Math.max(0, weights.findIndex(w => (draw -= w) <= 0));
+                participants.push({ participantId: `p${i}`, attributes, responses: [{ questionId: 'q1', selectedOption: String(selectedIndex), selectedIndex }] });
+            }
+            const segments = Object.entries(attributeSizes).flatMap(([attr, n]) => Array.from({ length: n }, (_, value) => ({
+                id: `${attr}:${value}`,
+                label: `${attr} ${value}`,
+                attributes: { [attr]: `${attr}-${value}` },
+                sampleSize: 0,
+                responses: [],
+            })));
+            const survey: DTEFSurveyData = {
+                surveyId: 'gd-scale',
+                surveyName: 'GD Scale',
+                questions: { q1: { text: 'Pick one', type: 'single-select', options: ['A', 'B', 'C', 'D', 'E'] } },
+                segments,
+            };
+            return { survey, participants };
+        }
+
+        it('predicts every segment of a Global Dialogues-sized round', () => {
+            const { survey, participants } = makeGdScaleFixture();
+            const predictions = computeMrpPredictions(survey, { surveyId: 'gd-scale', participants, questionIdMap: {} });
+
+            const predicted = survey.segments.map(s => predictions.get(s.id)!.get('q1'));
+            expect(predicted.every(p => p && Math.abs(p.reduce((a, b) => a + b, 0) - 100) < 1e-6)).toBe(true);
+        });
+
+        it('refits a held-out segment in a few Newton steps from the full fit', () => {
+            const { participants } = makeGdScaleFixture();
+            const featureIndex = new Map<string, number>();
+            const cells = buildAttributeCells(participants, 'q1', 5, featureIndex);
+            const fullFit = fitMultinomialLogit(cells, 5, featureIndex.size, 1, 100, 1e-6);
+            expect(fullFit.iterations).toBeGreaterThan(3);
+            expect(fullFit.iterations).toBeLessThan(100);
+
+            const training = cells.filter(cell => cell.participants[0].attributes.ageGroup !== 'ageGroup-0');
+            const cold = fitMultinomialLogit(training, 5, featureIndex.size, 1, 100, 1e-6);
+            const warm = fitMultinomialLogit(training, 5, featureIndex.size, 1, 100, 1e-6, fullFit);
+            expect(cold.iterations).toBe(7);
+            expect(warm.iterations).toBe(4);
+
+            // The last step only confirms convergence, so a cap of 3 loses almost nothing
+            const capped = fitMultinomialLogit(training, 5, featureIndex.size, 1, 3, 1e-6, fullFit);
+            expect(capped.iterations).toBe(3);
+            capped.intercept.forEach((value, j) => expect(value).toBeCloseTo(cold.intercept[j], 5));
+        });
+    });
+
     describe('getBaselineMeanScore', () => {
         it('computes mean across all prompts and segments', () => {
             const survey = makeSurveyData();
@@ -0,0 +1,106 @@
+import {
+    computeCorrelationRelevance,
+    computeEmbeddingRelevance,
+    computeRandomRelevance,
+    rankContextQuestions,
+    withContextRelevance,
+} from '../blueprint/contextSelection';
+import { DTEFBlueprintConfig, DTEFSurveyData } from '@/types/dtef';
+
+/** q2 tracks q1 across segments; q3 moves independently of it */
+function makeSurveyData(): DTEFSurveyData {
+    const rows: Record<string, number[][]> = {
+        q1: [[10, 90], [30, 70], [50, 50], [70, 30]],
+        q2: [[15, 85], [35, 65], [55, 45], [75, 25]],
+        q3: [[50, 50], [40, 60], [40, 60], [50, 50]],
+    };
+    return {
+        surveyId: 'sel',
+        surveyName: 'Selection Survey',
+        source: 'unit-test',
+        questions: {
+            q1: { text: 'Target question', type: 'single-select', options: ['Yes', 'No'] },
+            q2: { text: 'Related question', type: 'single-select', options: ['Yes', 'No'] },
+            q3: { text: 'Unrelated question', type: 'single-select', options: ['Yes', 'No'] },
+        },
+        segments: [0, 1, 2, 3].map(i => ({
+            id: `s${i}`,
+            label: `Segment ${i}`,
+            attributes: { group: `g${i}` },
+            sampleSize: 100,
+            responses: Object.entries(rows).map(([questionId, dists]) => ({ questionId, distribution: dists[i] })),
+        })),
+    };
+}
+
+describe('contextSelection', () => {
+    const surveyData = makeSurveyData();
+
+    it('scores correlated questions above independent ones', () => {
+        const relevance = computeCorrelationRelevance(surveyData, ['q1'], ['q3', 'q2', 'q1']);
+        expect(relevance.q1.q2).toBeCloseTo(1, 5);
+        expect(relevance.q1.q3).toBeCloseTo(0, 5);
+        expect(relevance.q1).not.toHaveProperty('q1');
+    });
+
+    it('gives no correlation when too few segments answered both questions', () => {
+        const sparse = makeSurveyData();
+        sparse.segments = sparse.segments.slice(0, 2);
+        expect(computeCorrelationRelevance(sparse, ['q1'], ['q2']).q1.q2).toBe(0);
+    });
+
+    it('embeds each question once and scores by cosine similarity', async () => {
+        const vectors: Record<string, number[]> = {
+            'Target question': [1, 0],
+            'Related question': [0.9, 0.1],
+            'Unrelated question': [0, 1],
+        };
+        const embed = jest.fn(async (text: string) => vectors[text.split('\n')[0]]);
+
+        const relevance = await computeEmbeddingRelevance(surveyData, ['q1', 'q2'], ['q1', 'q2', 'q3'], embed);
+        expect(embed).toHaveBeenCalledTimes(3);
+        expect(relevance.q1.q2).toBeGreaterThan(relevance.q1.q3);
+        expect(relevance.q2).toHaveProperty('q1');
+    });
+
+    it('shuffles deterministically for a given seed', () => {
+        const candidates = ['a', 'b', 'c', 'd', 'e', 'f'];
+        expect(computeRandomRelevance(['q1'], candidates, 7)).toEqual(computeRandomRelevance(['q1'], candidates, 7));
+        const orders = [1, 2, 3, 4].map(seed => {
+            const scores = computeRandomRelevance(['q1'], candidates, seed).q1;
+            return [...candidates].sort((x, y) => scores[y] - scores[x]).join('');
+        });
+        expect(new Set(orders).size).toBeGreaterThan(1);
+    });
+
+    describe('rankContextQuestions', () => {
+        const base: DTEFBlueprintConfig = {
+            surveyData,
+            targetQuestionIds: ['q1'],
+            contextQuestionIds: ['q3', 'q2'],
+        };
+
+        it('keeps list order by default', () => {
+            expect(rankContextQuestions(withContextRelevance(base), ['q1'])).toEqual(['q3', 'q2']);
+        });
+
+        it('ranks by correlation when selected', () => {
+            const config = withContextRelevance({ ...base, contextSelection: 'correlation' });
+            expect(rankContextQuestions(config, ['q1'])).toEqual(['q2', 'q3']);
+        });
+
+        it('averages relevance over batched targets and keeps list order on ties', () => {
+            const config: DTEFBlueprintConfig = {
+                ...base,
+                contextQuestionIds: ['a', 'b', 'c'],
+                contextSelection: 'embedding',
+                contextRelevance: { t1: { a: 0.2, b: 0.9, c: 0.2 }, t2: { a: 0.2, b: 0.1, c: 0.2 } },
+            };
+            expect(rankContextQuestions(config, ['t1', 't2'])).toEqual(['b', 'a', 'c']);
+        });
+
+        it('requires precomputed relevance for embedding selection', () => {
+            expect(() => withContextRelevance({ ...base, contextSelection: 'embedding' })).toThrow(/contextRelevance/);
+        });
+    });
+});
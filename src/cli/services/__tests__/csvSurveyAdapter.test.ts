@@ -0,0 +1,137 @@
+/**
+ * Tests for csvSurveyAdapter
+ *
+ * Validates that a respondent-level CSV plus a column mapping produces
+ * consistent aggregate and individual DTEF data, including survey weights.
+ */
+
+import {
+    convertCsvSurvey,
+    validateColumnMapping,
+    CsvColumnMapping,
+} from '../adapters/csvSurveyAdapter';
+import { validateDTEFSurveyData } from '@/lib/dtef-validation';
+
+function makeMapping(overrides: Partial<CsvColumnMapping> = {}): CsvColumnMapping {
+    return {
+        surveyId: 'test-poll',
+        surveyName: 'Test Poll',
+        participantIdColumn: 'id',
+        missingValues: ['99'],
+        questions: [
+            {
+                column: 'Q1',
+                id: 'q1',
+                text: 'Do you like cats?',
+                options: ['Yes', 'No'],
+                valueMap: { '1': 'Yes', '2': 'No' },
+            },
+        ],
+        demographics: [
+            { column: 'sex', attribute: 'gender', valueMap: { '1': 'Male', '2': 'Female' } },
+            { column: 'region', attribute: 'region' },
+        ],
+        ...overrides,
+    };
+}
+
+const CSV = [
+    'id,sex,region,Q1,wt',
+    'r1,1,North,1,1',
+    'r2,1,North,1,1',
+    'r3,1,South,2,2',
+    'r4,2,South,2,1',
+    'r5,2,North,1,3',
+    'r6,2,South,99,1',
+].join('\n');
+
+describe('csvSurveyAdapter', () => {
+    describe('convertCsvSurvey', () => {
+        it('builds one single-attribute segment per demographic value', () => {
+            const { surveyData } = convertCsvSurvey(CSV, makeMapping(), { minSampleSize: 1 });
+            expect(surveyData.segments.map(s => s.id).sort()).toEqual([
+                'gender:female', 'gender:male', 'region:north', 'region:south',
+            ]);
+            const male = surveyData.segments.find(s => s.id === 'gender:male')!;
+            expect(male.attributes).toEqual({ gender: 'Male' });
+            expect(male.sampleSize).toBe(3);
+            expect(male.responses[0].distribution[0]).toBeCloseTo(66.7, 1);
+        });
+
+        it('produces data that passes validation', () => {
+            const { surveyData } = convertCsvSurvey(CSV, makeMapping(), { minSampleSize: 1 });
+            expect(validateDTEFSurveyData(surveyData).valid).toBe(true);
+        });
+
+        it('skips missing values and drops respondents with no answers', () => {
+            const { surveyData, individualData } = convertCsvSurvey(CSV, makeMapping(), { minSampleSize: 1 });
+            expect(individualData.participants.map(p => p.participantId)).not.toContain('r6');
+            const female = surveyData.segments.find(s => s.id === 'gender:female')!;
+            expect(female.sampleSize).toBe(2);
+        });
+
+        it('weights distributions when a weight column is mapped', () => {
+            const { surveyData } = convertCsvSurvey(
+                CSV,
+                makeMapping({ weightColumn: 'wt' }),
+                { minSampleSize: 1 },
+            );
+            // Male: r1 (Yes, 1), r2 (Yes, 1), r3 (No, 2) → 50/50
+            const male = surveyData.segments.find(s => s.id === 'gender:male')!;
+            expect(male.responses[0].distribution).toEqual([50, 50]);
+            expect(male.sampleSize).toBe(3);
+            // Kish: (1+1+2)^2 / (1+1+4) = 16/6
+            expect(male.effectiveSampleSize).toBeCloseTo(2.7, 1);
+        });
+
+        it('omits effectiveSampleSize and weights when unweighted', () => {
+            const { surveyData, individualData } = convertCsvSurvey(CSV, makeMapping(), { minSampleSize: 1 });
+            expect(surveyData.segments[0].effectiveSampleSize).toBeUndefined();
+            expect(surveyData.segments[0].weightTotal).toBeUndefined();
+            expect(individualData.participants[0].weight).toBeUndefined();
+        });
+
+        it('carries weights through to individual data', () => {
+            const { individualData } = convertCsvSurvey(CSV, makeMapping({ weightColumn: 'wt' }), { minSampleSize: 1 });
+            expect(individualData.participants.find(p => p.participantId === 'r5')!.weight).toBe(3);
+        });
+
+        it('filters segments by attribute and minimum sample size', () => {
+            const { surveyData } = convertCsvSurvey(CSV, makeMapping(), {
+                segmentAttributes: ['gender'],
+                minSampleSize: 3,
+            });
+            expect(surveyData.segments.map(s => s.id)).toEqual(['gender:male']);
+        });
+
+        it('emits individual responses with option indices', () => {
+            const { individualData } = convertCsvSurvey(CSV, makeMapping(), { minSampleSize: 1 });
+            const r3 = individualData.participants.find(p => p.participantId === 'r3')!;
+            expect(r3.attributes).toEqual({ gender: 'Male', region: 'South' });
+            expect(r3.responses).toEqual([{ questionId: 'q1', selectedOption: 'No', selectedIndex: 1 }]);
+            expect(individualData.questionIdMap).toEqual({ Q1: 'q1' });
+        });
+
+        it('throws when a mapped column is missing from the CSV', () => {
+            const mapping = makeMapping({ weightColumn: 'nonexistent' });
+            expect(() => convertCsvSurvey(CSV, mapping)).toThrow('nonexistent');
+        });
+    });
+
+    describe('validateColumnMapping', () => {
+        it('rejects questions with fewer than two options', () => {
+            const mapping = makeMapping({ questions: [{ column: 'Q1', options: ['Yes'] }] });
+            expect(() => validateColumnMapping(mapping)).toThrow('at least 2');
+        });
+
+        it('rejects duplicate question ids', () => {
+            const mapping = makeMapping({
+                questions: [
+                    { column: 'Q1', id: 'q', options: ['Yes', 'No'] },
+                    { column: 'Q2', id: 'q', options: ['Yes', 'No'] },
+                ],
+            });
+            expect(() => validateColumnMapping(mapping)).toThrow('Duplicate');
+        });
+    });
+});
@@ -0,0 +1,504 @@
+/**
+ * Tests for DemographicAggregationService
+ *
+ * Covers held-out round analysis (scores before vs. after each model's
+ * knowledge cutoff), calibration of individual-answer forecasts, the
+ * pairwise significance tiers of the model ranking, noise-ceiling
+ * normalization of segment scores, the per-question heatmap cells, the
+ * direction of distribution errors, homogenization against the model's
+ * own-opinion answers, context curves split by selection strategy,
+ * score variance across paraphrased and reordered questions and the
+ * separate report of few-shot-segments results.
+ */
+
+import { DemographicAggregationService } from '../demographicAggregationService';
+import { WevalResult, PointAssessment } from '@/types/shared';
+import { DTEFSurveyData } from '@/types/dtef';
+
+function makeResult(opts: {
+    segmentId: string;
+    scores: Record<string, number>;
+    roundId?: string;
+    roundReleaseDate?: string;
+    metrics?: Record<string, number>;
+}): WevalResult {
+    const promptScores: Record<string, { avgCoverageExtent: number; pointAssessments: PointAssessment[] }> = {};
+    for (const [modelId, score] of Object.entries(opts.scores)) {
+        promptScores[modelId] = {
+            avgCoverageExtent: score,
+            pointAssessments: [{ keyPointText: 'p', coverageExtent: score, ...(opts.metrics ? { metrics: opts.metrics } : {}) }],
+        };
+    }
+    return {
+        configId: `dtef-test-${opts.segmentId}`,
+        configTitle: 'Test',
+        runLabel: 'run',
+        timestamp: '2025-01-01T00:00:00Z',
+        config: {
+            id: `dtef-test-${opts.segmentId}`,
+            models: Object.keys(opts.scores),
+            prompts: [],
+            context: {
+                dtef: {
+                    surveyId: 'test',
+                    segmentId: opts.segmentId,
+                    segmentLabel: opts.segmentId,
+                    segmentAttributes: {},
+                    ...(opts.roundId ? { roundId: opts.roundId } : {}),
+                    ...(opts.roundReleaseDate ? { roundReleaseDate: opts.roundReleaseDate } : {}),
+                },
+            },
+        } as any,
+        evalMethodsUsed: ['llm-coverage'],
+        effectiveModels: Object.keys(opts.scores),
+        promptIds: [`q1-${opts.segmentId}`],
+        evaluationResults: { llmCoverageScores: { [`q1-${opts.segmentId}`]: promptScores } },
+    };
+}
+
+/** A single-select result whose q1 prompt carries the expected distribution and model responses */
+function withPrediction(
+    segmentId: string,
+    contextQuestionCount: number,
+    expected: number[],
+    responses: Record<string, string>,
+    dtef: Record<string, unknown> = {},
+): WevalResult {
+    const result = makeResult({ segmentId, scores: Object.fromEntries(Object.keys(responses).map(m => [m, 0.8])) });
+    const promptId = `q1-${segmentId}`;
+    return {
+        ...result,
+        config: {
+            ...result.config,
+            prompts: [{
+                id: promptId,
+                points: [{ fn: 'distribution_metric', fnArgs: { expected, ordinalPositions: [1, 2, 3] } }],
+            }],
+            context: { dtef: { ...(result.config.context as any).dtef, contextQuestionCount, ...dtef } },
+        } as any,
+        allFinalAssistantResponses: { [promptId]: responses },
+    };
+}
+
+describe('DemographicAggregationService', () => {
+    describe('computeRoundGeneralisation', () => {
+        // gpt-4o's knowledge cutoff is 2023-10-31
+        const results = [
+            makeResult({ segmentId: 'a', roundId: 'GD1', roundReleaseDate: '2023-06-01', scores: { 'openai:gpt-4o': 0.9 } }),
+            makeResult({ segmentId: 'b', roundId: 'GD1', roundReleaseDate: '2023-06-01', scores: { 'openai:gpt-4o': 0.8 } }),
+            makeResult({ segmentId: 'a', roundId: 'GD5', roundReleaseDate: '2025-03-01', scores: { 'openai:gpt-4o': 0.7, 'unknown:model': 0.5 } }),
+        ];
+
+        it('splits scores at the model knowledge cutoff and flags large drops', () => {
+            const [g] = DemographicAggregationService.computeRoundGeneralisation(results);
+            expect(g.modelId).toBe('openai:gpt-4o');
+            expect(g.knowledgeCutoff).toBe('2023-10-31');
+            expect(g.preCutoffScore).toBeCloseTo(0.85);
+            expect(g.preCutoffRounds).toEqual(['GD1']);
+            expect(g.postCutoffScore).toBeCloseTo(0.7);
+            expect(g.postCutoffRounds).toEqual(['GD5']);
+            expect(g.gap).toBeCloseTo(0.15);
+            expect(g.contaminationFlag).toBe(true);
+        });
+
+        it('skips models missing from the registry and untagged results', () => {
+            const untagged = makeResult({ segmentId: 'c', scores: { 'openai:gpt-4o': 0.1 } });
+            const generalisation = DemographicAggregationService.computeRoundGeneralisation([...results, untagged]);
+            expect(generalisation.map(g => g.modelId)).toEqual(['openai:gpt-4o']);
+            expect(generalisation[0].preCutoffResultCount + generalisation[0].postCutoffResultCount).toBe(3);
+        });
+
+        it('tags runs with their round in the aggregation', () => {
+            const aggregation = DemographicAggregationService.aggregate(results);
+            const seg = aggregation.modelResults.find(m => m.modelId === 'openai:gpt-4o')!.segmentScores.find(s => s.segmentId === 'b')!;
+            expect(seg.runs![0]).toMatchObject({ roundId: 'GD1', roundReleaseDate: '2023-06-01' });
+            expect(aggregation.roundGeneralisation).toHaveLength(1);
+        });
+    });
+
+    describe('computeCalibration', () => {
+        const forecast = (confidence: number, outcome: number) => ({
+            'brier-score': 2 * (1 - outcome) * confidence,
+            'log-loss': 1,
+            'forecast-confidence': confidence,
+            'forecast-outcome': outcome,
+        });
+
+        it('summarises forecast metrics per model and keeps them out of metricScores', () => {
+            const results = [
+                makeResult({ segmentId: 'a', scores: { m1: 1 }, metrics: forecast(0.9, 1) }),
+                makeResult({ segmentId: 'b', scores: { m1: 0 }, metrics: forecast(0.9, 0) }),
+            ];
+            const [cal] = DemographicAggregationService.computeCalibration(results);
+            expect(cal.modelId).toBe('m1');
+            expect(cal.forecastCount).toBe(2);
+            expect(cal.accuracy).toBeCloseTo(0.5);
+            expect(cal.expectedCalibrationError).toBeCloseTo(0.4);
+
+            const scores = DemographicAggregationService.extractModelScores(results[0]);
+            expect(scores.m1.metricScores).toBeUndefined();
+        });
+    });
+
+    describe('computeSignificance', () => {
+        // m-top clearly leads; m-a and m-b are 0.002 apart and alternate per segment
+        const countries = ['us', 'uk', 'fr', 'de', 'jp', 'br', 'in', 'mx'];
+        const results = countries.map((c, i) => makeResult({
+            segmentId: `country:${c}`,
+            scores: {
+                'm-top': 0.8 + i * 0.005,
+                'm-a': 0.6 + (i % 2 === 0 ? 0.011 : -0.007),
+                'm-b': 0.6 + (i % 2 === 0 ? -0.007 : 0.011) - 0.002,
+                'baseline:uniform': 0.4,
+            },
+        }));
+
+        it('groups statistically tied models into one tier, overall and per category', () => {
+            const { significance } = DemographicAggregationService.aggregate(results, { significanceBreakdowns: true });
+            expect(significance).toBeDefined();
+            const { overall, byCategory } = significance!;
+
+            expect(overall.modelIds).toEqual(['m-top', 'm-a', 'm-b']);
+            expect(overall.tiers).toEqual({ 'm-top': 1, 'm-a': 2, 'm-b': 2 });
+            expect(overall.comparisons).toHaveLength(3);
+            expect(overall.comparisons.find(c => c.modelA === 'm-a' && c.modelB === 'm-b')!.significant).toBe(false);
+            expect(overall.confidenceIntervals['m-top'].ci95Low).toBeGreaterThan(overall.confidenceIntervals['m-a'].ci95High);
+            expect(Object.keys(byCategory!)).toEqual(['country']);
+            expect(byCategory!.country.tiers).toEqual(overall.tiers);
+        });
+
+        it('only tests the overall ranking unless breakdowns are requested', () => {
+            const { significance } = DemographicAggregationService.aggregate(results);
+            expect(significance!.overall.tiers).toEqual({ 'm-top': 1, 'm-a': 2, 'm-b': 2 });
+            expect(significance!.byCategory).toBeUndefined();
+            expect(significance!.bySurvey).toBeUndefined();
+        });
+
+        it('tests the ranking within each survey when results span several', () => {
+            const inSurvey = (result: WevalResult, surveyId: string): WevalResult => ({
+                ...result,
+                config: { ...result.config, context: { dtef: { ...(result.config.context as any).dtef, surveyId } } } as any,
+            });
+            // In gd2 m-b clearly beats m-a; in gd1 they are tied as above
+            const gd2 = countries.map((c, i) => makeResult({
+                segmentId: `country:${c}`,
+                scores: { 'm-top': 0.5, 'm-a': 0.3 + i * 0.001, 'm-b': 0.7 + i * 0.001 },
+            }));
+            const { significance } = DemographicAggregationService.aggregate([
+                ...results.map(r => inSurvey(r, 'gd1')),
+                ...gd2.map(r => inSurvey(r, 'gd2')),
+            ], { significanceBreakdowns: true });
+            const bySurvey = significance!.bySurvey!;
+
+            expect(Object.keys(bySurvey).sort()).toEqual(['gd1', 'gd2']);
+            expect(bySurvey.gd1.modelIds).toEqual(['m-top', 'm-a', 'm-b']);
+            expect(bySurvey.gd1.tiers).toEqual({ 'm-top': 1, 'm-a': 2, 'm-b': 2 });
+            expect(bySurvey.gd2.tiers).toEqual({ 'm-b': 1, 'm-top': 2, 'm-a': 3 });
+            expect(DemographicAggregationService.aggregate(results, { significanceBreakdowns: true }).significance!.bySurvey).toBeUndefined();
+        });
+
+        it('is omitted when fewer than two non-baseline models were evaluated', () => {
+            const single = makeResult({ segmentId: 'country:us', scores: { m1: 0.5, 'baseline:uniform': 0.4 } });
+            expect(DemographicAggregationService.aggregate([single]).significance).toBeUndefined();
+        });
+    });
+
+    describe('score normalization', () => {
+        const segment = (id: string, sampleSize: number, distribution: number[]) => ({
+            id, label: id, attributes: {}, sampleSize,
+            responses: [{ questionId: 'q1', distribution }],
+        });
+        const survey = {
+            surveyId: 'test',
+            surveyName: 'Test',
+            questions: { q1: { text: 'Q1', type: 'single-select', options: ['a', 'b'] } },
+            segments: [
+                segment('country:us', 1000, [70, 30]),
+                segment('country:de', 800, [40, 60]),
+                segment('country:fr', 4, [50, 50]),
+            ],
+        } as unknown as DTEFSurveyData;
+
+        it('derives the marginal baseline and noise ceiling per segment and flags small segments', () => {
+            const { test: refs } = DemographicAggregationService.computeSegmentReliability([survey]);
+            expect(refs['country:us'].sampleSize).toBe(1000);
+            expect(refs['country:us'].noiseCeiling).toBeCloseTo(1 - Math.sqrt(1 / (2000 * Math.LN2)));
+            expect(refs['country:us'].marginalScore).toBeLessThan(1);
+            expect(refs['country:us'].reliable).toBe(true);
+            expect(refs['country:fr'].reliable).toBe(false);
+        });
+
+        it('stores raw and normalized scores and averages only reliable segments', () => {
+            const segmentReliability = DemographicAggregationService.computeSegmentReliability([survey]);
+            const results = [
+                makeResult({ segmentId: 'country:us', scores: { m1: 0.99 } }),
+                makeResult({ segmentId: 'country:de', scores: { m1: 0.9 } }),
+                makeResult({ segmentId: 'country:fr', scores: { m1: 0.5 } }),
+            ];
+            const aggregation = DemographicAggregationService.aggregate(results, { segmentReliability });
+            const [model] = aggregation.modelResults;
+            const us = model.segmentScores.find(s => s.segmentId === 'country:us')!;
+            const ref = segmentReliability.test['country:us'];
+
+            expect(us.avgCoverageExtent).toBe(0.99);
+            expect(us.normalizedScore).toBeCloseTo((0.99 - ref.marginalScore) / (ref.noiseCeiling - ref.marginalScore));
+            expect(model.segmentScores.find(s => s.segmentId === 'country:fr')!.reliable).toBe(false);
+
+            const reliable = model.segmentScores.filter(s => s.reliable);
+            expect(model.normalizedScore).toBeCloseTo(reliable.reduce((a, s) => a + s.normalizedScore!, 0) / reliable.length);
+
+            const [disparity] = aggregation.disparities;
+            expect(disparity.normalized!.absoluteGap).toBeCloseTo(Math.abs(us.normalizedScore! - reliable.find(s => s !== us)!.normalizedScore!));
+            expect(aggregation.modelDPDs![0].normalizedOverallDPD).toBeCloseTo(disparity.normalized!.absoluteGap);
+            expect(aggregation.reliabilityThreshold).toBe(0.7);
+        });
+
+        it('leaves scores raw when no survey data was supplied', () => {
+            const aggregation = DemographicAggregationService.aggregate([makeResult({ segmentId: 'country:us', scores: { m1: 0.9 } })]);
+            expect(aggregation.modelResults[0].normalizedScore).toBeUndefined();
+            expect(aggregation.modelResults[0].segmentScores[0].normalizedScore).toBeUndefined();
+            expect(aggregation.reliabilityThreshold).toBeUndefined();
+        });
+    });
+
+    describe('computeSegmentQuestionCells', () => {
+        const withContext = (result: WevalResult, contextQuestionCount: number, runLabel: string): WevalResult => ({
+            ...result,
+            runLabel,
+            config: { ...result.config, context: { dtef: { ...(result.config.context as any).dtef, contextQuestionCount } } } as any,
+        });
+
+        it('keeps the highest-context score per model, segment and question and parses predictions', () => {
+            const low = withContext(makeResult({ segmentId: 'country:us', scores: { m1: 0.6 } }), 0, 'c0');
+            const high = withContext(makeResult({ segmentId: 'country:us', scores: { m1: 0.8 } }), 5, 'c5');
+            high.allFinalAssistantResponses = { 'q1-country:us': { m1: 'DISTRIBUTION: [60, 40]' } };
+            const batched = makeResult({ segmentId: 'country:de', scores: { m1: 0.7 } });
+            batched.evaluationResults.llmCoverageScores = { 'batch-0-country:de': batched.evaluationResults.llmCoverageScores!['q1-country:de'] };
+
+            const cells = DemographicAggregationService.computeSegmentQuestionCells([high, low, batched]);
+
+            expect(cells).toEqual([{
+                modelId: 'm1',
+                segmentId: 'country:us',
+                questionId: 'q1',
+                score: 0.8,
+                predicted: [60, 40],
+                contextCount: 5,
+                configId: 'dtef-test-country:us',
+                runLabel: 'c5',
+                timestamp: '2025-01-01T00:00:00Z',
+            }]);
+        });
+
+        it('derives question IDs from prompt IDs', () => {
+            expect(DemographicAggregationService.questionIdFromPromptId('q-12-country:us', 'country:us')).toBe('q-12');
+            expect(DemographicAggregationService.questionIdFromPromptId('batch-3-country:us', 'country:us')).toBeNull();
+            expect(DemographicAggregationService.questionIdFromPromptId('q1-other', 'country:us')).toBeNull();
+        });
+    });
+
+    describe('computeBiasDirection', () => {
+        it('uses each segment\'s highest-context prediction and a leave-one-out own answer', () => {
+            const results = [
+                withPrediction('country:us', 0, [50, 30, 20], { m1: '[0.7, 0.2, 0.1]', 'baseline:uniform': '[33, 33, 34]' }),
+                withPrediction('country:us', 5, [50, 30, 20], { m1: '[60, 25, 15]' }),
+                withPrediction('country:de', 0, [20, 30, 50], { m1: '[40, 30, 30]' }),
+            ];
+            const marginals = { test: { q1: [40, 30, 30] } };
+
+            const [bias, ...rest] = DemographicAggregationService.computeBiasDirection(results, marginals);
+
+            expect(rest).toHaveLength(0);
+            expect(bias.modelId).toBe('m1');
+            expect(bias.pairCount).toBe(2);
+            // Majority option of the marginal is index 0: us +10, de +20
+            expect(bias.majorityOptionError).toBeCloseTo(15);
+            expect(bias.ordinalProfiles[0].meanSignedError).toEqual([15, -2.5, -12.5]);
+            // us is compared with de's zero-context answer and vice versa
+            expect(bias.ownAnswerPairCount).toBe(2);
+        });
+
+        it('skips predictions it cannot parse or whose length does not match', () => {
+            const results = [
+                withPrediction('country:us', 0, [50, 30, 20], { m1: 'no idea' }),
+                withPrediction('country:de', 0, [20, 30, 50], { m1: '[50, 50]' }),
+            ];
+            expect(DemographicAggregationService.computeBiasDirection(results)).toEqual([]);
+        });
+
+        it('prefers the own-opinion probe answer when one is supplied', () => {
+            const results = [
+                withPrediction('country:us', 5, [50, 30, 20], { m1: '[60, 25, 15]' }),
+                withPrediction('country:de', 5, [20, 30, 50], { m1: '[40, 30, 30]' }),
+            ];
+            const [withoutProbe] = DemographicAggregationService.computeBiasDirection(results);
+            const [withProbe] = DemographicAggregationService.computeBiasDirection(results, undefined, { m1: { q1: [70, 20, 10] } });
+
+            expect(withoutProbe.ownAnswerPairCount).toBe(0);
+            expect(withProbe.ownAnswerPairCount).toBe(2);
+        });
+    });
+
+    describe('computeContextAnalysis by context selection strategy', () => {
+        const atLevel = (segmentId: string, contextQuestionCount: number, score: number, contextSelection?: string) => {
+            const result = makeResult({ segmentId, scores: { m1: score } });
+            (result.config.context as any).dtef = {
+                ...(result.config.context as any).dtef,
+                contextQuestionCount,
+                ...(contextSelection ? { contextSelection } : {}),
+            };
+            return result;
+        };
+
+        it('leaves few-shot results out of the context curves', () => {
+            const fewShot = atLevel('a', 0, 0.9);
+            (fewShot.config.context as any).dtef.contextFormat = 'few-shot-segments';
+            const analysis = DemographicAggregationService.computeContextAnalysis([atLevel('a', 0, 0.5), atLevel('a', 5, 0.6), fewShot]);
+            expect(analysis?.models[0].segmentResponsiveness[0].dataPoints).toHaveLength(2);
+        });
+
+        it('omits strategy curves when only list order was run', () => {
+            const analysis = DemographicAggregationService.computeContextAnalysis([atLevel('a', 0, 0.5), atLevel('a', 5, 0.6)]);
+            expect(analysis?.strategyCurves).toBeUndefined();
+        });
+
+        it('builds one curve per strategy sharing the zero-context point', () => {
+            const analysis = DemographicAggregationService.computeContextAnalysis([
+                atLevel('a', 0, 0.5), atLevel('b', 0, 0.7),
+                atLevel('a', 5, 0.55), atLevel('b', 5, 0.75),
+                atLevel('a', 5, 0.7, 'correlation'), atLevel('b', 5, 0.9, 'correlation'),
+            ]);
+            const curves = analysis!.strategyCurves!;
+            expect(curves.map(c => c.strategy)).toEqual(['correlation', 'order']);
+
+            const [correlation, order] = curves;
+            expect(correlation.points[0]).toEqual({ contextCount: 0, score: 0.6, segmentCount: 2 });
+            expect(correlation.points[1].score).toBeCloseTo(0.8, 5);
+            expect(correlation.slope).toBeCloseTo(0.04, 5);
+            expect(order.slope).toBeCloseTo(0.01, 5);
+            expect(analysis!.contextLevelsFound).toEqual([0, 5]);
+        });
+    });
+
+    describe('own-opinion probe and homogenization', () => {
+        const probe = withPrediction('self', 0, [40, 30, 30], { m1: '[40, 30, 30]' }, { evalType: 'own-opinion' });
+        const segments = [
+            withPrediction('country:us', 0, [50, 30, 20], { m1: '[40, 30, 30]' }),
+            withPrediction('country:de', 0, [20, 30, 50], { m1: '[35, 30, 35]' }),
+        ];
+
+        it('reads averaged probe answers by model and question', () => {
+            const rerun = withPrediction('self', 0, [40, 30, 30], { m1: '[0.6, 0.2, 0.2]' }, { evalType: 'own-opinion' });
+            expect(DemographicAggregationService.extractOwnOpinions([probe, rerun, ...segments])).toEqual({
+                m1: { q1: [50, 25, 25] },
+            });
+        });
+
+        it('measures the pull toward the own answer and the flattening of segment differences', () => {
+            const [h] = DemographicAggregationService.computeHomogenization([probe, ...segments]);
+
+            expect(h.modelId).toBe('m1');
+            expect(h.ownOpinionPairCount).toBe(2);
+            expect(h.ownOpinionSimilarity).toBeGreaterThan(h.truthSimilarity!);
+            expect(h.ownOpinionPull).toBeCloseTo(h.ownOpinionSimilarity! - h.truthSimilarity!);
+            expect(h.closerToOwnShare).toBe(1);
+            // Per-option variances across the two segments: predicted (6.25 + 0 + 6.25) / 3, true (225 + 0 + 225) / 3
+            expect(h.predictedSegmentVariance).toBeCloseTo(12.5 / 3);
+            expect(h.trueSegmentVariance).toBeCloseTo(150);
+            expect(h.varianceRatio).toBeCloseTo(12.5 / 450);
+            expect(h.questionCount).toBe(1);
+        });
+
+        it('reports variance without a probe', () => {
+            const [h] = DemographicAggregationService.computeHomogenization(segments);
+            expect(h.ownOpinionPairCount).toBe(0);
+            expect(h).not.toHaveProperty('ownOpinionPull');
+            expect(h.varianceRatio).toBeCloseTo(12.5 / 450);
+        });
+
+        it('keeps probe results out of segment scores', () => {
+            const aggregation = DemographicAggregationService.aggregate([probe, ...segments]);
+
+            expect(aggregation.resultCount).toBe(2);
+            expect(aggregation.modelResults[0].segmentScores.map(s => s.segmentId).sort()).toEqual(['country:de', 'country:us']);
+            expect(aggregation.homogenization?.[0].ownOpinionPairCount).toBe(2);
+            expect(aggregation.biasDirection?.[0].ownAnswerPairCount).toBe(2);
+        });
+    });
+
+    describe('question variant robustness', () => {
+        const original = makeResult({ segmentId: 'us', scores: { m1: 0.8, m2: 0.6 } });
+        const asVariant = (scores: Record<string, number>, paraphraseIndex: number, orderIndex: number): WevalResult => {
+            const result = makeResult({ segmentId: 'us', scores });
+            const configId = `${original.configId}-${paraphraseIndex ? `para${paraphraseIndex}` : `ord${orderIndex}`}`;
+            return {
+                ...result,
+                configId,
+                config: {
+                    ...result.config,
+                    id: configId,
+                    tags: ['question-variant'],
+                    context: { dtef: { ...(result.config.context as any).dtef, questionVariant: { paraphraseIndex, orderIndex, baseConfigId: original.configId } } },
+                } as any,
+            };
+        };
+        const paraphrase = asVariant({ m1: 0.6, m2: 0.6 }, 1, 0);
+        const reordered = asVariant({ m1: 0.8, m2: 0.6 }, 0, 1);
+
+        it('pools score variance across variants of the same prompt', () => {
+            const [stable, sensitive] = DemographicAggregationService.computeVariantRobustness([original, paraphrase, reordered]);
+
+            expect(stable).toEqual({ modelId: 'm2', variantStdDev: 0, paraphraseStdDev: 0, optionOrderStdDev: 0, promptCount: 1 });
+            expect(sensitive.modelId).toBe('m1');
+            // Scores 0.8, 0.6, 0.8 around their mean of 0.7333
+            expect(sensitive.variantStdDev).toBeCloseTo(Math.sqrt(0.08 / 9));
+            expect(sensitive.paraphraseStdDev).toBeCloseTo(0.1);
+            expect(sensitive.optionOrderStdDev).toBeCloseTo(0);
+        });
+
+        it('skips variants whose original was not run', () => {
+            expect(DemographicAggregationService.computeVariantRobustness([paraphrase, reordered])).toEqual([]);
+        });
+
+        it('keeps variants out of segment scores and reports their spread per model', () => {
+            const aggregation = DemographicAggregationService.aggregate([original, paraphrase, reordered]);
+            const m1 = aggregation.modelResults.find(m => m.modelId === 'm1')!;
+
+            expect(aggregation.resultCount).toBe(1);
+            expect(m1.segmentScores).toHaveLength(1);
+            expect(m1.overallScore).toBeCloseTo(0.8);
+            expect(m1.paraphraseStdDev).toBeCloseTo(0.1);
+            expect(m1.variantPromptCount).toBe(1);
+        });
+    });
+
+    describe('few-shot-segments results', () => {
+        const labelled = makeResult({ segmentId: 'us', scores: { m1: 0.6 } });
+        const fewShot: WevalResult = (() => {
+            const result = makeResult({ segmentId: 'us', scores: { m1: 0.9 } });
+            return {
+                ...result,
+                configId: `${result.configId}-fs5`,
+                config: {
+                    ...result.config,
+                    context: { dtef: { ...(result.config.context as any).dtef, contextFormat: 'few-shot-segments' } },
+                } as any,
+            };
+        })();
+
+        it.each([
+            ['attribute-label first', [labelled, fewShot]],
+            ['few-shot first', [fewShot, labelled]],
+        ])('scores segments from attribute-label prompts only (%s)', (_, results) => {
+            const aggregation = DemographicAggregationService.aggregate(results);
+
+            expect(aggregation.resultCount).toBe(1);
+            expect(aggregation.modelResults[0].overallScore).toBeCloseTo(0.6);
+            expect(aggregation.modelResults[0].segmentScores[0].runs).toHaveLength(1);
+            expect(DemographicAggregationService.computeSegmentQuestionCells(results).map(c => c.score)).toEqual([0.6]);
+            expect(aggregation.fewShot).toEqual([
+                { modelId: 'm1', fewShotScore: 0.9, segmentCount: 1, leaderboardScore: 0.6, gain: expect.closeTo(0.3) },
+            ]);
+        });
+    });
+});
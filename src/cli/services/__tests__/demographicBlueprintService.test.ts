@@ -6,7 +6,7 @@
  */
 
 import { DemographicBlueprintService } from '../demographicBlueprintService';
-import { DTEFSurveyData, DTEFBlueprintConfig } from '@/types/dtef';
+import { DTEFSurveyData, DTEFBlueprintConfig, DTEFPromptTemplate } from '@/types/dtef';
 
 /** Minimal survey data fixture */
 function makeSurveyData(): DTEFSurveyData {
@@ -55,6 +55,17 @@ describe('DemographicBlueprintService — shift evaluation', () => {
             expect(marginals['q1'][2]).toBeCloseTo(20, 1);
         });
 
+        it('weights segments by summed survey weight when present', () => {
+            const weighted = makeSurveyData();
+            weighted.segments[0].weightTotal = 300;
+            weighted.segments[1].weightTotal = 100;
+            const marginals = DemographicBlueprintService.computePopulationMarginals(weighted);
+            // q1: (60*300 + 30*100)/400 = 52.5, (20*300 + 50*100)/400 = 27.5, 20
+            expect(marginals['q1'][0]).toBeCloseTo(52.5, 1);
+            expect(marginals['q1'][1]).toBeCloseTo(27.5, 1);
+            expect(marginals['q1'][2]).toBeCloseTo(20, 1);
+        });
+
         it('returns entries for all questions', () => {
             const marginals = DemographicBlueprintService.computePopulationMarginals(surveyData);
             expect(Object.keys(marginals)).toEqual(expect.arrayContaining(['q1', 'q2']));
@@ -190,4 +201,370 @@ describe('DemographicBlueprintService — shift evaluation', () => {
             expect(prompt.promptText).toContain('50.0%');
         });
     });
+
+    describe('ordinal questions', () => {
+        const ordinalSurvey = makeSurveyData();
+        ordinalSurvey.questions.q1.ordinalPositions = [1, 2, 3];
+
+        it('passes ordinal positions to distribution_metric points', () => {
+            const [bp] = DemographicBlueprintService.generateBlueprints({
+                surveyData: ordinalSurvey,
+                targetQuestionIds: ['q1', 'q2'],
+                modelConfig: { models: ['CORE_CHEAP'], temperature: 0.3 },
+            });
+            const fnArgs = (id: string) => (bp.prompts.find(p => p.id.startsWith(id))!.points![0] as any).fnArgs;
+            expect(fnArgs('q1').ordinalPositions).toEqual([1, 2, 3]);
+            expect(fnArgs('q2').ordinalPositions).toBeUndefined();
+        });
+    });
+
+    describe('multi-select and ranking questions', () => {
+        const mixedSurvey = makeSurveyData();
+        mixedSurvey.questions.q3 = { text: 'Which pets do you own?', type: 'multi-select', options: ['Cat', 'Dog', 'Fish'] };
+        mixedSurvey.questions.q4 = { text: 'Rank these seasons', type: 'ranking', options: ['Spring', 'Summer', 'Fall'] };
+        for (const seg of mixedSurvey.segments) {
+            seg.responses.push(
+                { questionId: 'q3', distribution: [55, 40, 10] },
+                { questionId: 'q4', distribution: [50, 30, 20], rankDistribution: [[50, 30, 20], [30, 40, 30], [20, 30, 50]] },
+            );
+        }
+
+        const generate = (overrides: Partial<DTEFBlueprintConfig> = {}) => DemographicBlueprintService.generateBlueprints({
+            surveyData: mixedSurvey,
+            targetQuestionIds: ['q1', 'q3', 'q4'],
+            modelConfig: { models: ['CORE_CHEAP'], temperature: 0.3 },
+            ...overrides,
+        });
+        const promptFor = (bp: ReturnType<typeof generate>[number], qId: string) => bp.prompts.find(p => p.id.startsWith(`${qId}-`))!;
+
+        it('uses per-option shares for multi-select questions', () => {
+            const prompt = promptFor(generate()[0], 'q3');
+            expect((prompt.points![0] as any).fn).toBe('multi_select_metric');
+            expect(prompt.promptText).toContain('do not need to sum to 100');
+        });
+
+        it('uses rank matrices for ranking questions', () => {
+            const prompt = promptFor(generate()[0], 'q4');
+            const point = prompt.points![0] as any;
+            expect(point.fn).toBe('rank_metric');
+            expect(point.fnArgs.expected).toEqual([[50, 30, 20], [30, 40, 30], [20, 30, 50]]);
+            expect(prompt.idealResponse).toBe('[[50.0, 30.0, 20.0], [30.0, 40.0, 30.0], [20.0, 30.0, 50.0]]');
+            expect(prompt.promptText).toContain('from 1st to 3rd');
+        });
+
+        it('keeps only flat distributions in ground truth metadata', () => {
+            const dtef = generate()[0].context?.dtef as any;
+            expect(Object.keys(dtef.groundTruthDistributions).some((id: string) => id.startsWith('q4-'))).toBe(false);
+        });
+
+        it('skips question types the eval type cannot prompt for', () => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            const [bp] = generate({ evalType: 'synthetic-individual' });
+            warn.mockRestore();
+            expect(bp.prompts.map(p => p.id.split('-')[0])).toEqual(['q1']);
+        });
+
+        it('skips ranking questions for segments without a rank distribution', () => {
+            const flatSurvey = makeSurveyData();
+            flatSurvey.questions.q4 = mixedSurvey.questions.q4;
+            flatSurvey.segments[0].responses.push({ questionId: 'q4', distribution: [50, 30, 20] });
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            const blueprints = generate({ surveyData: flatSurvey, targetQuestionIds: ['q1', 'q4'] });
+            const batched = generate({ surveyData: flatSurvey, targetQuestionIds: ['q1', 'q4'], batchSize: 2 });
+            expect(warn).toHaveBeenCalledWith(expect.stringContaining('without a rank distribution: q4'));
+            warn.mockRestore();
+            expect(blueprints[0].prompts.map(p => p.id.split('-')[0])).toEqual(['q1']);
+            expect((batched[0].prompts[0].points as any[]).map(p => p.fn)).toEqual(['distribution_metric']);
+        });
+
+        it('keys batched points by question label', () => {
+            const [bp] = generate({ batchSize: 3 });
+            const points = bp.prompts[0].points as any[];
+            expect(points.map(p => [p.fn, p.fnArgs.questionKey])).toEqual([
+                ['distribution_metric', 'Q1'],
+                ['multi_select_metric', 'Q2'],
+                ['rank_metric', 'Q3'],
+            ]);
+            expect(JSON.parse(bp.prompts[0].idealResponse!).Q3).toHaveLength(3);
+        });
+    });
+
+    describe('open-ended questions', () => {
+        const openSurvey = makeSurveyData();
+        openSurvey.questions.q5 = { text: 'What worries you most?', type: 'open-ended' };
+        openSurvey.segments[0].responses.push({
+            questionId: 'q5',
+            distribution: [],
+            textResponses: ['Rent', 'Jobs', 'Healthcare'],
+            themes: ['cost of living'],
+        });
+
+        const generate = (overrides: Partial<DTEFBlueprintConfig> = {}) => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            const blueprints = DemographicBlueprintService.generateBlueprints({
+                surveyData: openSurvey,
+                targetQuestionIds: ['q1', 'q5'],
+                modelConfig: { models: ['CORE_CHEAP'], temperature: 0.3 },
+                evalType: 'open-ended',
+                ...overrides,
+            });
+            warn.mockRestore();
+            return blueprints;
+        };
+
+        it('prompts only for open-ended questions with real answers', () => {
+            const [segA, segB] = generate();
+            expect(segA.configId).toBe('dtef-test-survey-seg-a-open');
+            expect(segA.prompts.map(p => p.id)).toEqual(['q5-seg-a']);
+            expect(segB.prompts).toEqual([]);
+        });
+
+        it('carries real answers as references and themes as points, without an ideal response', () => {
+            const [prompt] = generate()[0].prompts;
+            expect([...prompt.referenceResponses!].sort()).toEqual(['Healthcare', 'Jobs', 'Rent']);
+            expect(prompt.points).toEqual(['Among the answers, at least one raises this theme: cost of living']);
+            expect(prompt.idealResponse).toBeUndefined();
+            expect(prompt.promptText).toContain('What worries you most?');
+        });
+
+        it('samples at most sampleSize reference answers', () => {
+            const [prompt] = generate({ sampleSize: 2 })[0].prompts;
+            expect(prompt.referenceResponses).toHaveLength(2);
+        });
+
+        it('is skipped by distribution blueprints', () => {
+            const [bp] = generate({ evalType: 'distribution' });
+            expect(bp.prompts.map(p => p.id)).toEqual(['q1-seg-a']);
+        });
+    });
+
+    describe('own-opinion probe', () => {
+        const probeSurvey = makeSurveyData();
+        probeSurvey.questions.q3 = { text: 'Which pets?', type: 'multi-select', options: ['Cat', 'Dog'] };
+        probeSurvey.segments[0].responses.push({ questionId: 'q3', distribution: [50, 60] });
+
+        const generate = () => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            const blueprints = DemographicBlueprintService.generateBlueprints({
+                surveyData: probeSurvey,
+                targetQuestionIds: ['q1', 'q2', 'q3'],
+                evalType: 'own-opinion',
+                modelConfig: { models: ['CORE_CHEAP'], temperature: 0.3 },
+            });
+            warn.mockRestore();
+            return blueprints;
+        };
+
+        it('generates one persona-free blueprint for the survey', () => {
+            const blueprints = generate();
+            expect(blueprints).toHaveLength(1);
+
+            const [bp] = blueprints;
+            expect(bp.configId).toBe('dtef-test-survey-self-own');
+            expect(bp.tags).toContain('own-opinion');
+            expect(bp.prompts.map(p => p.id)).toEqual(['q1-self', 'q2-self']);
+            for (const prompt of bp.prompts) {
+                expect(prompt.promptText).toContain('your own answer');
+                expect(prompt.promptText).not.toContain('Segment');
+                expect(prompt.promptText).not.toContain('alpha');
+            }
+            expect(bp.context?.dtef).toMatchObject({ segmentId: 'self', evalType: 'own-opinion', contextQuestionCount: 0 });
+        });
+
+        it('scores answers against the population marginal', () => {
+            const [bp] = generate();
+            const point = bp.prompts[0].points![0] as { fn: string; fnArgs: { expected: number[] } };
+            expect(point.fn).toBe('distribution_metric');
+            expect(point.fnArgs.expected[0]).toBeCloseTo(40, 1);
+            expect(bp.prompts[0].idealResponse).toBe('[40.0, 40.0, 20.0]');
+        });
+    });
+
+    describe('context question selection', () => {
+        const selectionSurvey = makeSurveyData();
+        selectionSurvey.questions.q3 = { text: 'Prefer tea or coffee?', type: 'single-select', options: ['Tea', 'Coffee'] };
+        const q3Dists = [[50, 50], [50, 50], [40, 60]];
+        selectionSurvey.segments.push({
+            id: 'seg-c', label: 'Segment C', attributes: { group: 'gamma' }, sampleSize: 150,
+            responses: [
+                { questionId: 'q1', distribution: [45, 35, 20] },
+                { questionId: 'q2', distribution: [15, 30, 35, 20] },
+            ],
+        });
+        selectionSurvey.segments.forEach((segment, i) => segment.responses.push({ questionId: 'q3', distribution: q3Dists[i] }));
+
+        const generate = (overrides: Partial<DTEFBlueprintConfig>) => DemographicBlueprintService.generateBlueprints({
+            surveyData: selectionSurvey,
+            targetQuestionIds: ['q1'],
+            contextQuestionIds: ['q3', 'q2'],
+            contextQuestionCount: 1,
+            ...overrides,
+        });
+
+        it('encodes the strategy and seed in the configId', () => {
+            expect(generate({})[0].configId).toBe('dtef-test-survey-seg-a-c1');
+            expect(generate({ contextSelection: 'correlation' })[0].configId).toBe('dtef-test-survey-seg-a-c1-corr');
+            expect(generate({ contextSelection: 'random', contextSelectionSeed: 42 })[0].configId).toBe('dtef-test-survey-seg-a-c1-rand42');
+            expect(generate({ contextSelection: 'correlation', contextQuestionIds: undefined })[0].configId).toBe('dtef-test-survey-seg-a');
+        });
+
+        it('includes the most correlated context question first', () => {
+            const [ordered] = generate({});
+            const [ranked] = generate({ contextSelection: 'correlation' });
+
+            expect(ordered.prompts[0].promptText).toContain('Prefer tea or coffee?');
+            expect(ranked.prompts[0].promptText).toContain('Favorite season?');
+            expect(ranked.prompts[0].promptText).not.toContain('Prefer tea or coffee?');
+            expect(ranked.context?.dtef).toMatchObject({ contextSelection: 'correlation' });
+            expect(ordered.context?.dtef).not.toHaveProperty('contextSelection');
+        });
+    });
+
+    describe('few-shot segments context', () => {
+        const generate = (overrides: Partial<DTEFBlueprintConfig> = {}) => DemographicBlueprintService.generateBlueprints({
+            surveyData,
+            targetQuestionIds: ['q1', 'q2'],
+            contextFormat: 'few-shot-segments',
+            ...overrides,
+        });
+
+        it('shows other segments\' answers to the target question but never the target\'s', () => {
+            const [segA] = generate();
+            const prompt = segA.prompts[0].promptText!;
+
+            expect(segA.configId).toBe('dtef-test-survey-seg-a-fewshot5');
+            expect(prompt).toContain('How other demographic groups answered the survey question below:');
+            expect(prompt).toContain('- Group: beta (sample size: 200)\n  a. Yes: 30.0%');
+            expect(prompt).not.toContain('60.0%');
+            expect(segA.system).toContain('several other demographic groups');
+            expect(segA.tags).toContain('few-shot');
+            expect(segA.context?.dtef).toMatchObject({ contextFormat: 'few-shot-segments', fewShotCount: 5, fewShotSelection: 'similar' });
+        });
+
+        it('records random selection and its seed in the configId', () => {
+            const [segA] = generate({ fewShotCount: 3, fewShotSelection: 'random', fewShotSeed: 7 });
+            expect(segA.configId).toBe('dtef-test-survey-seg-a-fewshot3-rand7');
+        });
+
+        it('labels each question\'s known groups in batched prompts', () => {
+            const [segA] = generate({ batchSize: 2 });
+            const prompt = segA.prompts[0].promptText!;
+            expect(prompt).toContain('Q1: "Do you like cats?"\n- Group: beta');
+            expect(prompt).toContain('Q2: "Favorite season?"\n- Group: beta');
+            expect(segA.configId).toBe('dtef-test-survey-seg-a-fewshot5-b2');
+        });
+    });
+
+    describe('prompt templates', () => {
+        const template: DTEFPromptTemplate = {
+            name: 'terse',
+            version: 2,
+            sections: {
+                'system.distribution': 'Answer with percentages only.',
+                'question': 'Q: {{question}}\n{{#each options}}{{letter}}) {{text}}\n{{/each}}',
+            },
+            hash: 'abc123',
+        };
+
+        it('renders the template\'s wording and keeps the default for other sections', () => {
+            const [segA] = DemographicBlueprintService.generateBlueprints({ surveyData, targetQuestionIds: ['q1'], promptTemplate: template });
+            const prompt = segA.prompts[0].promptText!;
+
+            expect(segA.system).toBe('Answer with percentages only.');
+            expect(prompt).toContain('Q: Do you like cats?\na) Yes\nb) No\nc) Maybe\n');
+            expect(prompt).toContain('Predict the percentage distribution of responses');
+            expect(segA.configId).toBe('dtef-test-survey-seg-a-tpl-terse-v2');
+            expect(segA.tags).toContain('template:terse@2');
+            expect(segA.context?.dtef).toMatchObject({ promptTemplate: { name: 'terse', version: 2, hash: 'abc123' } });
+        });
+
+        it('records the default template without changing the configId', () => {
+            const withDefault = DemographicBlueprintService.generateBlueprints({
+                surveyData,
+                targetQuestionIds: ['q1'],
+                promptTemplate: { name: 'default', version: 1, sections: {}, hash: 'def456' },
+            });
+            const without = DemographicBlueprintService.generateBlueprints({ surveyData, targetQuestionIds: ['q1'] });
+
+            expect(withDefault[0].configId).toBe(without[0].configId);
+            expect(withDefault[0].prompts).toEqual(without[0].prompts);
+            expect(withDefault[0].context?.dtef).toMatchObject({ promptTemplate: { name: 'default', version: 1, hash: 'def456' } });
+            expect(without[0].context?.dtef).not.toHaveProperty('promptTemplate');
+        });
+    });
+
+    describe('question variants', () => {
+        const questionParaphrases = { q1: [{ text: 'Are cats something you like?', options: ['Yes, I do', 'No, I do not', 'Not sure'] }] };
+
+        it('asks the paraphrase and links the variant to its original blueprint', () => {
+            const [original] = DemographicBlueprintService.generateBlueprints({ surveyData, targetQuestionIds: ['q1'] });
+            const [segA] = DemographicBlueprintService.generateBlueprints({
+                surveyData,
+                targetQuestionIds: ['q1'],
+                questionParaphrases,
+                questionVariant: { paraphraseIndex: 1, orderIndex: 0 },
+            });
+
+            expect(segA.configId).toBe(`${original.configId}-para1`);
+            expect(segA.prompts[0].promptText).toContain('Are cats something you like?');
+            expect(segA.prompts[0].promptText).toContain('Not sure');
+            expect(segA.tags).toEqual(expect.arrayContaining(['question-variant', 'paraphrase']));
+            expect(segA.context?.dtef).toMatchObject({
+                questionVariant: { paraphraseIndex: 1, orderIndex: 0, baseConfigId: original.configId },
+            });
+        });
+
+        it('scores a reordered question against the reordered distribution', () => {
+            const [segA] = DemographicBlueprintService.generateBlueprints({
+                surveyData,
+                targetQuestionIds: ['q1'],
+                questionVariant: { paraphraseIndex: 0, orderIndex: 1 },
+            });
+            const prompt = segA.prompts[0].promptText!;
+            const point = segA.prompts[0].points![0] as any;
+            const shares: Record<string, number> = { Yes: 60, No: 20, Maybe: 20 };
+            const shown = ['Yes', 'No', 'Maybe'].sort((a, b) => prompt.indexOf(`. ${a}`) - prompt.indexOf(`. ${b}`));
+
+            expect(segA.configId).toBe('dtef-test-survey-seg-a-ord1');
+            expect(shown).not.toEqual(['Yes', 'No', 'Maybe']);
+            expect(point.fnArgs.expected).toEqual(shown.map(o => shares[o]));
+        });
+
+        it.each([1, 2])('never repeats the original prompt in an option-order variant (batch size %i)', batchSize => {
+            const scaled = makeSurveyData();
+            scaled.questions.q1 = { ...scaled.questions.q1, ordinalPositions: [3, 2, 1] };
+            const base = { surveyData: scaled, targetQuestionIds: ['q1', 'q2'], batchSize };
+            const originals = new Map(DemographicBlueprintService.generateBlueprints(base).flatMap(bp => bp.prompts.map(p => [p.id, p.promptText])));
+
+            const variants = [1, 2, 3].flatMap(orderIndex =>
+                DemographicBlueprintService.generateBlueprints({ ...base, questionVariant: { paraphraseIndex: 0, orderIndex } }));
+            const prompts = variants.flatMap(bp => bp.prompts);
+
+            expect(prompts.length).toBeGreaterThan(0);
+            for (const prompt of prompts) {
+                expect(originals.has(prompt.id)).toBe(true);
+                expect(prompt.promptText).not.toBe(originals.get(prompt.id));
+            }
+            if (batchSize === 1) {
+                // The reversed scale is asked once; later orders only reshuffle q2
+                expect(prompts.filter(p => p.id.startsWith('q1'))).toHaveLength(2);
+            }
+        });
+    });
+
+    describe('round tagging', () => {
+        it('records the survey round and release date in the blueprint context', () => {
+            const [bp] = DemographicBlueprintService.generateBlueprints({
+                surveyData: { ...makeSurveyData(), roundId: 'GD5', releaseDate: '2025-03-01' },
+                targetQuestionIds: ['q1'],
+            });
+            expect(bp.context?.dtef).toMatchObject({ roundId: 'GD5', roundReleaseDate: '2025-03-01' });
+        });
+
+        it('omits round fields for untagged survey data', () => {
+            const [bp] = DemographicBlueprintService.generateBlueprints({ surveyData: makeSurveyData(), targetQuestionIds: ['q1'] });
+            expect(bp.context?.dtef).not.toHaveProperty('roundReleaseDate');
+        });
+    });
 });
+
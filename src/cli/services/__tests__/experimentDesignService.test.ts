@@ -0,0 +1,267 @@
+import {
+    loadFactorialDesign,
+    parseFactorialDesign,
+    expandConditionMatrix,
+    buildConditionBlueprintConfig,
+    conditionConfigId,
+    conditionSlug,
+    computeExperimentProgress,
+    extractResultObservations,
+    fitFactorialMixedModel,
+    pairConditionCells,
+    estimateScoreVariability,
+    buildPowerAnalysis,
+    evaluateSequentialLook,
+    FactorialObservation,
+} from '../experimentDesignService';
+import { DemographicBlueprintService } from '../demographicBlueprintService';
+import type { DTEFSurveyData } from '@/types/dtef';
+import type { WevalResult } from '@/types/shared';
+
+const DESIGN_YAML = `
+id: ctx-x-reasoning
+title: Context format × reasoning mode
+hypothesis: Narrative context helps more under chain-of-thought
+survey: output/gd4.json
+questions: [q1, q2]
+segments: [seg-a]
+models: [openai:gpt-4o-mini]
+fixed:
+  evalType: distribution
+factors:
+  contextFormat: [attribute-label, narrative]
+  reasoningMode: [standard, cot]
+  temperature: [0, 0.7]
+`;
+
+const surveyData = {
+    surveyId: 'test-survey',
+    surveyName: 'Test Survey',
+    questions: {
+        q1: { text: 'Q1', type: 'single-select', options: ['Yes', 'No'] },
+        q2: { text: 'Q2', type: 'single-select', options: ['A', 'B'] },
+        q3: { text: 'Q3', type: 'single-select', options: ['A', 'B'] },
+    },
+    segments: [],
+} as unknown as DTEFSurveyData;
+
+describe('experimentDesignService', () => {
+    it('expands factors into the full condition matrix', () => {
+        const design = loadFactorialDesign(DESIGN_YAML);
+        const conditions = expandConditionMatrix(design);
+
+        expect(conditions).toHaveLength(8);
+        expect(conditions[0]).toMatchObject({
+            name: 'contextFormat=attribute-label,reasoningMode=standard,temperature=0',
+            evalType: 'distribution',
+            contextFormat: 'attribute-label',
+            reasoningMode: 'standard',
+            temperature: 0,
+            levels: { contextFormat: 'attribute-label', reasoningMode: 'standard', temperature: 0 },
+        });
+        expect(conditions[7].name).toBe('contextFormat=narrative,reasoningMode=cot,temperature=0.7');
+        expect(conditionSlug(conditions[0])).toBe('attribute-label_standard_t0');
+        expect(new Set(conditions.map(conditionSlug)).size).toBe(8);
+    });
+
+    it('builds one blueprint config per condition over the fixed sample', () => {
+        const design = loadFactorialDesign(DESIGN_YAML);
+        const condition = expandConditionMatrix(design)[7];
+        const config = buildConditionBlueprintConfig(design, surveyData, condition);
+
+        expect(config).toMatchObject({
+            targetQuestionIds: ['q1', 'q2'],
+            segmentSelection: 'specific',
+            segmentIds: ['seg-a'],
+            contextFormat: 'narrative',
+            reasoningMode: 'cot',
+            evalType: 'distribution',
+            experimentId: 'ctx-x-reasoning',
+            modelConfig: { models: ['openai:gpt-4o-mini'], temperature: 0.7 },
+        });
+        expect(conditionConfigId(design.id, condition, 'dtef-test-survey-seg-a', '.yml'))
+            .toBe('experiments__ctx-x-reasoning__narrative_cot_t0.7__dtef-test-survey-seg-a');
+    });
+
+    it('keeps the temperature-0 arm at temperature 0 in the generated blueprints', () => {
+        const design = loadFactorialDesign(DESIGN_YAML);
+        const condition = expandConditionMatrix(design)[0];
+        const withSegment = {
+            ...surveyData,
+            segments: [{
+                id: 'seg-a',
+                label: 'Segment A',
+                attributes: { group: 'a' },
+                sampleSize: 100,
+                responses: [{ questionId: 'q1', distribution: [60, 40] }, { questionId: 'q2', distribution: [30, 70] }],
+            }],
+        } as DTEFSurveyData;
+        const blueprints = DemographicBlueprintService.generateBlueprints(buildConditionBlueprintConfig(design, withSegment, condition));
+
+        expect(condition.temperature).toBe(0);
+        expect(blueprints.length).toBeGreaterThan(0);
+        for (const blueprint of blueprints) expect(blueprint.temperature).toBe(0);
+    });
+
+    it('reports every problem in an invalid design at once', () => {
+        expect(() => parseFactorialDesign({
+            id: 'bad id',
+            title: 'T',
+            hypothesis: 'H',
+            fixed: { reasoningMode: 'cot' },
+            factors: { reasoningMode: ['cot'], contextFormat: ['poem'], temperature: [3], colour: ['red'] },
+        })).toThrow(/survey is required[\s\S]*id must be alphanumeric[\s\S]*factors\.reasoningMode: factor is also set in fixed[\s\S]*"poem" is not a valid contextFormat[\s\S]*temperature must be a number between 0 and 2[\s\S]*factors\.colour: unknown factor[\s\S]*two or more levels/);
+    });
+
+    it('counts completed configs overall and per condition', () => {
+        const progress = computeExperimentProgress(
+            { control: ['a', 'b'], treatment: ['c', 'd'] },
+            new Set(['a', 'c', 'd']),
+            ['a', 'b', 'c', 'stale'],
+        );
+
+        expect(progress).toMatchObject({
+            totalConfigs: 4,
+            completedConfigs: 3,
+            enqueuedConfigs: 3,
+            enqueuedConfigIds: ['a', 'b', 'c'],
+            byCondition: { control: { total: 2, completed: 1 }, treatment: { total: 2, completed: 2 } },
+        });
+    });
+
+    it('reads per-question hybrid scores from a segment result', () => {
+        const result = {
+            config: { context: { dtef: { surveyId: 's', segmentId: 'seg-a', segmentLabel: 'A' } } },
+            promptIds: ['q1-seg-a', 'q2-seg-a'],
+            effectiveModels: ['m1', 'ideal'],
+            evaluationResults: {
+                llmCoverageScores: {
+                    'q1-seg-a': { m1: { avgCoverageExtent: 0.8 } },
+                    'q2-seg-a': { m1: { error: 'parse failed' } },
+                },
+            },
+        } as unknown as WevalResult;
+
+        expect(extractResultObservations(result, 'cond', { reasoningMode: 'cot' })).toEqual([
+            { condition: 'cond', levels: { reasoningMode: 'cot' }, modelId: 'm1', questionId: 'q1', segmentId: 'seg-a', score: 0.8 },
+        ]);
+    });
+
+    it('detects an interaction where CoT helps only with narrative context', () => {
+        const factors = { contextFormat: ['attribute-label', 'narrative'], reasoningMode: ['standard', 'cot'] };
+        const observations: FactorialObservation[] = [];
+        let noise = 0;
+        for (const contextFormat of factors.contextFormat) {
+            for (const reasoningMode of factors.reasoningMode) {
+                for (let q = 0; q < 12; q++) {
+                    for (let s = 0; s < 8; s++) {
+                        for (const modelId of ['m1', 'm2']) {
+                            noise = (noise * 7 + 3) % 11;
+                            const boost = contextFormat === 'narrative' && reasoningMode === 'cot' ? 0.05 : 0;
+                            observations.push({
+                                condition: `contextFormat=${contextFormat},reasoningMode=${reasoningMode}`,
+                                levels: { contextFormat, reasoningMode },
+                                modelId,
+                                questionId: `q${q}`,
+                                segmentId: `s${s}`,
+                                score: 0.6 + 0.01 * q + 0.005 * s + (modelId === 'm2' ? 0.02 : 0) + boost + 0.002 * (noise - 5),
+                            });
+                        }
+                    }
+                }
+            }
+        }
+
+        const model = fitFactorialMixedModel(observations, factors);
+        const coef = Object.fromEntries(model.coefficients.map(c => [c.term, c]));
+        const term = Object.fromEntries(model.terms.map(t => [t.term, t]));
+
+        expect(model.referenceLevels).toEqual({ contextFormat: 'attribute-label', reasoningMode: 'standard' });
+        expect(model.coefficients.map(c => c.term)).toEqual([
+            '(Intercept)',
+            'contextFormat=narrative',
+            'reasoningMode=cot',
+            'contextFormat=narrative × reasoningMode=cot',
+        ]);
+        expect(coef['reasoningMode=cot'].estimate).toBeCloseTo(0, 2);
+        expect(coef['reasoningMode=cot'].pValue).toBeGreaterThan(0.05);
+        expect(coef['contextFormat=narrative × reasoningMode=cot'].estimate).toBeCloseTo(0.05, 2);
+        expect(term['contextFormat × reasoningMode']).toMatchObject({ df: 1 });
+        expect(term['contextFormat × reasoningMode'].pValue).toBeLessThan(0.001);
+        expect(model.varianceComponents.question).toBeGreaterThan(model.varianceComponents.residual);
+        expect(model.cellMeans).toHaveLength(4);
+        expect(model.observations).toBe(observations.length);
+    });
+
+    describe('power analysis and sequential stopping', () => {
+        const cellObservations = (condition: string, scores: number[]): FactorialObservation[] =>
+            scores.map((score, i) => ({ condition, levels: {}, modelId: 'm1', questionId: `q${i}`, segmentId: 'seg-a', score }));
+
+        it('pairs cells scored under both conditions', () => {
+            const observations = [
+                ...cellObservations('treatment', [0.8, 0.7, 0.9]),
+                ...cellObservations('control', [0.75, 0.7]),
+            ];
+            expect(pairConditionCells(observations, 'treatment', 'control').map(d => +d.toFixed(4))).toEqual([0.05, 0]);
+        });
+
+        it('uses paired differences when conditions share cells and pooled SD otherwise', () => {
+            const shared = [
+                ...cellObservations('a', [0.6, 0.8, 0.7, 0.9]),
+                ...cellObservations('b', [0.58, 0.79, 0.67, 0.88]),
+            ];
+            const paired = estimateScoreVariability(shared, ['a', 'b']);
+            expect(paired).toMatchObject({ paired: true, cells: 4 });
+            // Question difficulty cancels out, so paired SD is far below the per-cell SD
+            expect(paired.sd).toBeLessThan(0.01);
+
+            const unpaired = estimateScoreVariability(cellObservations('only', [0.6, 0.8, 0.7, 0.9]), ['only']);
+            expect(unpaired).toMatchObject({ paired: false, cells: 4 });
+            expect(unpaired.sd).toBeCloseTo(0.1291, 4);
+
+            expect(() => estimateScoreVariability([], ['a'])).toThrow(/at least two scored cells/);
+        });
+
+        it('turns observed variability into a cells-per-condition recommendation', () => {
+            const analysis = buildPowerAnalysis({ sd: 0.1, paired: true }, {
+                minDetectableEffect: 0.02, alpha: 0.05, power: 0.8, source: 'manual',
+            });
+            expect(analysis).toMatchObject({ requiredCells: 197, scoreSd: 0.1, paired: true, source: 'manual' });
+        });
+
+        const differences = (mean: number, spread: number, n: number) =>
+            Array.from({ length: n }, (_, i) => mean + spread * (i % 2 === 0 ? 1 : -1));
+
+        it('stops early for efficacy only when the alpha-spending boundary is crossed', () => {
+            const design = { method: 'obrien-fleming' as const, alpha: 0.05, maxLooks: 4 };
+            const strong = evaluateSequentialLook(design, differences(0.05, 0.05, 100), [], { informationFraction: 0.25, finalData: false });
+            expect(strong.decision).toBe('efficacy');
+            expect(strong.boundary).toBeGreaterThan(3.5);
+
+            const modest = evaluateSequentialLook(design, differences(0.01, 0.05, 100), [], { informationFraction: 0.25, finalData: false });
+            expect(modest).toMatchObject({ look: 1, decision: 'continue' });
+
+            const last = evaluateSequentialLook(design, differences(0.002, 0.05, 400), [modest, modest, modest], {
+                informationFraction: 0.9, finalData: false,
+            });
+            expect(last).toMatchObject({ look: 4, decision: 'max-looks' });
+        });
+
+        it('applies the Bayesian posterior and futility rules', () => {
+            const design = { method: 'bayesian' as const, alpha: 0.05, maxLooks: 5, posteriorThreshold: 0.99 };
+            const efficacy = evaluateSequentialLook(design, differences(-0.03, 0.05, 100), [], { informationFraction: 0.2, finalData: false });
+            expect(efficacy.decision).toBe('efficacy');
+            expect(efficacy.posteriorProbability).toBeLessThan(0.01);
+
+            const futile = evaluateSequentialLook(design, differences(0.001, 0.02, 400), [], {
+                informationFraction: 0.5, finalData: false, minDetectableEffect: 0.02,
+            });
+            expect(futile.decision).toBe('futility');
+
+            const undecided = evaluateSequentialLook(design, differences(0.008, 0.05, 40), [], {
+                informationFraction: 0.5, finalData: false, minDetectableEffect: 0.02,
+            });
+            expect(undecided.decision).toBe('continue');
+        });
+    });
+});
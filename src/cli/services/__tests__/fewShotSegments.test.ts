@@ -0,0 +1,68 @@
+import { attributeSimilarity, selectDemonstrationSegments } from '../blueprint/fewShotSegments';
+import { DTEFBlueprintConfig, DTEFSurveyData, SegmentWithResponses } from '@/types/dtef';
+
+function segment(id: string, attributes: Record<string, string>, sampleSize: number, share: number): SegmentWithResponses {
+    return { id, label: id, attributes, sampleSize, responses: [{ questionId: 'q1', distribution: [share, 100 - share] }] };
+}
+
+/** Gender and age marginals plus their four crossings */
+function makeSurveyData(): DTEFSurveyData {
+    return {
+        surveyId: 'fs',
+        surveyName: 'Few-shot Survey',
+        questions: { q1: { text: 'Agree?', type: 'single-select', options: ['Yes', 'No'] } },
+        segments: [
+            segment('female', { gender: 'Female' }, 200, 55),
+            segment('male', { gender: 'Male' }, 200, 45),
+            segment('young', { ageGroup: '18-25' }, 200, 60),
+            segment('old', { ageGroup: '26-35' }, 200, 40),
+            segment('young-female', { ageGroup: '18-25', gender: 'Female' }, 50, 65),
+            segment('young-male', { ageGroup: '18-25', gender: 'Male' }, 50, 55),
+            segment('old-female', { ageGroup: '26-35', gender: 'Female' }, 50, 45),
+            segment('old-male', { ageGroup: '26-35', gender: 'Male' }, 50, 35),
+        ],
+    };
+}
+
+describe('fewShotSegments', () => {
+    const surveyData = makeSurveyData();
+    const byId = (id: string) => surveyData.segments.find(s => s.id === id)!;
+    const select = (targetId: string, overrides: Partial<DTEFBlueprintConfig> = {}) =>
+        selectDemonstrationSegments({ surveyData, targetQuestionIds: ['q1'], fewShotCount: 3, ...overrides }, byId(targetId), 'q1')
+            .map(s => s.id);
+
+    it('scores shared attribute values above shared attributes', () => {
+        expect(attributeSimilarity({ a: '1', b: '2' }, { a: '1', b: '2' })).toBe(1);
+        expect(attributeSimilarity({ a: '1', b: '2' }, { a: '1', b: '3' })).toBe(0.75);
+        expect(attributeSimilarity({ a: '1' }, { b: '2' })).toBe(0);
+    });
+
+    it('skips a parent when its other children are already shown', () => {
+        // "Female" with "26-35 + Female" (or "18-25" with "18-25 + Male") gives "18-25 + Female" away
+        expect(select('young-female')).toEqual(['young-male', 'old-female', 'old-male']);
+    });
+
+    it('never shows every sub-segment of the target in one crossed category', () => {
+        expect(select('female')).toEqual(['male', 'young-female', 'young-male']);
+    });
+
+    it('never shows the target or a segment with the same attributes', () => {
+        const withDuplicate = makeSurveyData();
+        withDuplicate.segments.push(segment('female-copy', { gender: 'Female' }, 80, 55));
+        const target = withDuplicate.segments[0];
+        const shown = selectDemonstrationSegments(
+            { surveyData: withDuplicate, targetQuestionIds: ['q1'], fewShotCount: 10 },
+            target,
+            'q1',
+        ).map(s => s.id);
+        expect(shown).not.toContain('female');
+        expect(shown).not.toContain('female-copy');
+    });
+
+    it('picks the same random segments for the same seed', () => {
+        const random = (seed: number) => select('young-female', { fewShotSelection: 'random', fewShotSeed: seed });
+        expect(random(3)).toEqual(random(3));
+        expect(random(3)).toHaveLength(3);
+        expect(random(3)).not.toContain('young-female');
+    });
+});
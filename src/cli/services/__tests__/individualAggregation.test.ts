@@ -0,0 +1,186 @@
+/**
+ * Tests for individualAggregation
+ *
+ * Validates rebuilding segment distributions from participant rows,
+ * including weighted recomputation and crossed (intersectional) segments,
+ * and attaching participants' open-ended answers and rankings to segments.
+ */
+
+import {
+    attachOpenEndedResponses,
+    attachRankDistributions,
+    buildIntersectionalSegments,
+    recomputeSegmentsFromIndividuals,
+} from '../adapters/individualAggregation';
+import { DTEFSurveyData, DTEFIndividualData, DTEFParticipant } from '@/types/dtef';
+
+function participant(id: string, gender: string, ageGroup: string, answer: number, weight?: number): DTEFParticipant {
+    return {
+        participantId: id,
+        attributes: { gender, ageGroup },
+        responses: [{ questionId: 'q1', selectedOption: answer === 0 ? 'Yes' : 'No', selectedIndex: answer }],
+        ...(weight !== undefined ? { weight } : {}),
+    };
+}
+
+function makeSurveyData(): DTEFSurveyData {
+    return {
+        surveyId: 'test-survey',
+        surveyName: 'Test Survey',
+        questions: {
+            q1: { text: 'Do you like cats?', type: 'single-select', options: ['Yes', 'No'] },
+        },
+        segments: [
+            { id: 'gender:female', label: 'Female', attributes: { gender: 'Female' }, sampleSize: 4, responses: [{ questionId: 'q1', distribution: [50, 50] }] },
+            { id: 'gender:male', label: 'Male', attributes: { gender: 'Male' }, sampleSize: 3, responses: [{ questionId: 'q1', distribution: [50, 50] }] },
+            { id: 'ageGroup:18-25', label: '18-25', attributes: { ageGroup: '18-25' }, sampleSize: 4, responses: [{ questionId: 'q1', distribution: [50, 50] }] },
+            { id: 'ageGroup:65', label: '65+', attributes: { ageGroup: '65+' }, sampleSize: 3, responses: [{ questionId: 'q1', distribution: [50, 50] }] },
+        ],
+    };
+}
+
+function makeIndividualData(weighted = false): DTEFIndividualData {
+    const w = (v: number) => (weighted ? v : undefined);
+    return {
+        surveyId: 'test-survey',
+        questionIdMap: {},
+        participants: [
+            participant('p1', 'Female', '18-25', 0, w(1)),
+            participant('p2', 'Female', '18-25', 0, w(1)),
+            participant('p3', 'Female', '18-25', 1, w(2)),
+            participant('p4', 'Female', '65+', 1, w(1)),
+            participant('p5', 'Male', '18-25', 0, w(1)),
+            participant('p6', 'Male', '65+', 1, w(1)),
+            participant('p7', 'Male', '65+', 1, w(1)),
+        ],
+    };
+}
+
+describe('individualAggregation', () => {
+    describe('buildIntersectionalSegments', () => {
+        it('crosses attributes in single-segment order and drops small cells', () => {
+            const segments = buildIntersectionalSegments(makeSurveyData(), makeIndividualData(), {
+                maxDepth: 2,
+                minSampleSize: 2,
+            });
+            expect(segments.map(s => s.id).sort()).toEqual([
+                'gender:female+ageGroup:18-25',
+                'gender:male+ageGroup:65',
+            ]);
+        });
+
+        it('records all crossed attributes and a combined label', () => {
+            const [seg] = buildIntersectionalSegments(makeSurveyData(), makeIndividualData(), {
+                maxDepth: 2,
+                minSampleSize: 3,
+            });
+            expect(seg.attributes).toEqual({ gender: 'Female', ageGroup: '18-25' });
+            expect(seg.label).toBe('Female, 18-25');
+            expect(seg.sampleSize).toBe(3);
+            expect(seg.responses[0].distribution).toEqual([66.7, 33.3]);
+        });
+
+        it('returns nothing when depth is 1', () => {
+            expect(buildIntersectionalSegments(makeSurveyData(), makeIndividualData(), { maxDepth: 1 })).toEqual([]);
+        });
+
+        it('weights crossed cells and records effective sample size', () => {
+            const [seg] = buildIntersectionalSegments(makeSurveyData(), makeIndividualData(true), {
+                maxDepth: 2,
+                minSampleSize: 3,
+            });
+            expect(seg.responses[0].distribution).toEqual([50, 50]);
+            // (1+1+2)^2 / (1+1+4) = 16/6
+            expect(seg.effectiveSampleSize).toBeCloseTo(2.7, 1);
+            expect(seg.weightTotal).toBe(4);
+        });
+    });
+
+    describe('recomputeSegmentsFromIndividuals', () => {
+        it('rebuilds existing segments from weighted participants', () => {
+            const data = recomputeSegmentsFromIndividuals(makeSurveyData(), makeIndividualData(true), 1);
+            const female = data.segments.find(s => s.id === 'gender:female')!;
+            // Yes: p1 + p2 = 2, No: p3 (2) + p4 (1) = 3
+            expect(female.responses[0].distribution).toEqual([40, 60]);
+            expect(female.sampleSize).toBe(4);
+        });
+
+        it('drops segments below the minimum sample size', () => {
+            const data = recomputeSegmentsFromIndividuals(makeSurveyData(), makeIndividualData(), 4);
+            expect(data.segments.map(s => s.id).sort()).toEqual(['ageGroup:18-25', 'gender:female']);
+        });
+    });
+
+    describe('attachOpenEndedResponses', () => {
+        function withOpenEnded(): { survey: DTEFSurveyData; individuals: DTEFIndividualData } {
+            const survey = makeSurveyData();
+            survey.questions.q2 = { text: 'Why?', type: 'open-ended' };
+            const individuals = makeIndividualData();
+            individuals.participants[0].textResponses = { q2: 'Because they purr' };
+            individuals.participants[3].textResponses = { q2: '  ' };
+            individuals.participants[4].textResponses = { q2: 'Allergies' };
+            return { survey, individuals };
+        }
+
+        it('adds each segment\'s non-blank answers as text responses', () => {
+            const { survey, individuals } = withOpenEnded();
+            const data = attachOpenEndedResponses(survey, individuals);
+            const female = data.segments.find(s => s.id === 'gender:female')!;
+            expect(female.responses.find(r => r.questionId === 'q2')).toEqual({
+                questionId: 'q2',
+                distribution: [],
+                textResponses: ['Because they purr'],
+            });
+            const young = data.segments.find(s => s.id === 'ageGroup:18-25')!;
+            expect(young.responses.find(r => r.questionId === 'q2')!.textResponses).toEqual(['Because they purr', 'Allergies']);
+        });
+
+        it('skips segments with too few answers and keeps poll responses', () => {
+            const { survey, individuals } = withOpenEnded();
+            const data = attachOpenEndedResponses(survey, individuals, 2);
+            const female = data.segments.find(s => s.id === 'gender:female')!;
+            expect(female.responses.map(r => r.questionId)).toEqual(['q1']);
+        });
+    });
+
+    describe('attachRankDistributions', () => {
+        function withRanking(): { survey: DTEFSurveyData; individuals: DTEFIndividualData } {
+            const survey = makeSurveyData();
+            survey.questions.q3 = { text: 'Rank these pets', type: 'ranking', options: ['Cat', 'Dog', 'Fish'], rankCount: 2 };
+            for (const seg of survey.segments) seg.responses.push({ questionId: 'q3', distribution: [40, 40, 20] });
+            const individuals = makeIndividualData();
+            individuals.participants[0].rankings = { q3: [0, 1, 2] };
+            individuals.participants[1].rankings = { q3: [1, 0] };
+            individuals.participants[4].rankings = { q3: [2, 0] };
+            return { survey, individuals };
+        }
+
+        it('builds top-K rank matrices from the segment\'s participants', () => {
+            const { survey, individuals } = withRanking();
+            const data = attachRankDistributions(survey, individuals);
+            const young = data.segments.find(s => s.id === 'ageGroup:18-25')!;
+            const q3 = young.responses.find(r => r.questionId === 'q3')!;
+            expect(q3.distribution).toEqual([40, 40, 20]);
+            expect(q3.rankDistribution).toEqual([[33.3, 66.7], [33.3, 33.3], [33.3, 0]]);
+        });
+
+        it('leaves segments without ranked answers unchanged', () => {
+            const { survey, individuals } = withRanking();
+            const data = attachRankDistributions(survey, individuals);
+            const older = data.segments.find(s => s.id === 'ageGroup:65')!;
+            expect(older.responses.find(r => r.questionId === 'q3')!.rankDistribution).toBeUndefined();
+        });
+
+        it('recomputes weighted segments with first-choice shares and rank matrices', () => {
+            const { survey, individuals } = withRanking();
+            individuals.participants[1].weight = 3;
+            const data = recomputeSegmentsFromIndividuals(survey, individuals, 1);
+            const female = data.segments.find(s => s.id === 'gender:female')!;
+            expect(female.responses.find(r => r.questionId === 'q3')).toEqual({
+                questionId: 'q3',
+                distribution: [25, 75, 0],
+                rankDistribution: [[25, 75], [75, 25], [0, 0]],
+            });
+        });
+    });
+});
@@ -0,0 +1,73 @@
+import { parseThemeResponse, extractOpenEndedThemes, ThemeCache } from '../openEndedThemeService';
+import { DTEFSurveyData } from '@/types/dtef';
+
+const surveyData: DTEFSurveyData = {
+    surveyId: 'th',
+    surveyName: 'Theme Survey',
+    questions: {
+        why: { text: 'Why do you worry about the economy?', type: 'open-ended' },
+        trust: { text: 'Do you trust AI?', type: 'single-select', options: ['Yes', 'No'] },
+    },
+    segments: [
+        {
+            id: 'young',
+            label: 'Young',
+            attributes: { ageGroup: '18-25' },
+            sampleSize: 3,
+            responses: [
+                { questionId: 'trust', distribution: [60, 40] },
+                { questionId: 'why', distribution: [], textResponses: ['Rent keeps going up', 'No jobs', 'Groceries cost more'] },
+            ],
+        },
+    ],
+};
+
+function memoryCache(): ThemeCache & { store: Map<string, unknown> } {
+    const store = new Map<string, unknown>();
+    return {
+        store,
+        get: async key => store.get(key),
+        set: async (key, value) => store.set(key, value),
+    };
+}
+
+describe('openEndedThemeService', () => {
+    it('parses distinct themes from a fenced JSON response', () => {
+        const response = '```json\n["cost of living", "Cost of  living", "", 3, "job security", "housing"]\n```';
+        expect(parseThemeResponse(response, 2)).toEqual(['cost of living', 'job security']);
+        expect(() => parseThemeResponse('[]', 2)).toThrow('response lists no themes');
+        expect(() => parseThemeResponse('No themes here.', 2)).toThrow('no JSON array');
+    });
+
+    it('fills themes on open-ended responses, retrying invalid output and caching the result', async () => {
+        const cache = memoryCache();
+        const complete = jest.fn()
+            .mockResolvedValueOnce('not json')
+            .mockResolvedValueOnce('["cost of living", "job security"]');
+
+        const first = await extractOpenEndedThemes(surveyData, { modelId: 'test:model', complete, cache });
+        const responses = first.segments[0].responses;
+        expect(responses.find(r => r.questionId === 'why')!.themes).toEqual(['cost of living', 'job security']);
+        expect(responses.find(r => r.questionId === 'trust')!.themes).toBeUndefined();
+        expect(complete).toHaveBeenCalledTimes(2);
+        expect(complete.mock.calls[1][1]).toContain('2. No jobs');
+
+        const second = await extractOpenEndedThemes(surveyData, { modelId: 'test:model', complete, cache });
+        expect(second).toEqual(first);
+        expect(complete).toHaveBeenCalledTimes(2);
+    });
+
+    it('leaves a response without themes when the model never gives valid output', async () => {
+        const complete = jest.fn().mockResolvedValue('[]');
+        const warn = jest.fn();
+        const result = await extractOpenEndedThemes(surveyData, {
+            modelId: 'test:model',
+            complete,
+            cache: memoryCache(),
+            logger: { info: jest.fn(), warn },
+        });
+        expect(result.segments[0].responses.find(r => r.questionId === 'why')!.themes).toBeUndefined();
+        expect(complete).toHaveBeenCalledTimes(3);
+        expect(warn).toHaveBeenCalledTimes(3);
+    });
+});
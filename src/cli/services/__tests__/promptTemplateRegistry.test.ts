@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { renderTemplate } from '../blueprint/promptTemplates';
+import {
+    getDefaultPromptTemplate,
+    listPromptTemplates,
+    loadPromptTemplate,
+    parsePromptTemplateRef,
+} from '../promptTemplateRegistry';
+
+describe('renderTemplate', () => {
+    it('substitutes variables and keeps whitespace', () => {
+        expect(renderTemplate('Simulate {{n}} members.\n', { n: 20 })).toBe('Simulate 20 members.\n');
+    });
+
+    it('branches on if/else, treating empty lists as false', () => {
+        const source = '{{#if options}}has options{{else}}no options{{/if}}';
+        expect(renderTemplate(source, { options: [{ letter: 'a' }] })).toBe('has options');
+        expect(renderTemplate(source, { options: [] })).toBe('no options');
+    });
+
+    it('repeats each blocks with the item fields in scope', () => {
+        const source = '{{#each options}}{{letter}}. {{text}} ({{question}})\n{{/each}}';
+        const vars = { question: 'Q', options: [{ letter: 'a', text: 'Yes' }, { letter: 'b', text: 'No' }] };
+        expect(renderTemplate(source, vars)).toBe('a. Yes (Q)\nb. No (Q)\n');
+    });
+
+    it('rejects unknown variables and unbalanced blocks', () => {
+        expect(() => renderTemplate('{{questoin}}', { question: 'Q' })).toThrow('Unknown template variable "questoin"');
+        expect(() => renderTemplate('{{#if x}}open', { x: true })).toThrow('never closed');
+        expect(() => renderTemplate('{{/each}}')).toThrow('does not close');
+    });
+});
+
+describe('promptTemplateRegistry', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompt-templates-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const writeTemplate = (file: string, body: string) => fs.writeFileSync(path.join(dir, file), body);
+
+    it('pins the hash of the built-in wording', () => {
+        // A change here means default@1 no longer asks what earlier runs asked:
+        // keep the old wording as default@1 and add the new one as a new version
+        expect(getDefaultPromptTemplate().hash).toBe('db712e8e1b72c751');
+    });
+
+    it('loads the templates shipped in data/prompt-templates', () => {
+        const shipped = listPromptTemplates().filter(t => t.filePath);
+        expect(shipped.length).toBeGreaterThan(0);
+        for (const t of shipped) {
+            expect(() => loadPromptTemplate(`${t.name}@${t.version}`)).not.toThrow();
+        }
+    });
+
+    it('parses name@version references', () => {
+        expect(parsePromptTemplateRef('no-persona@2')).toEqual({ name: 'no-persona', version: 2 });
+        expect(parsePromptTemplateRef('no-persona')).toEqual({ name: 'no-persona' });
+        expect(() => parsePromptTemplateRef('No Persona@x')).toThrow('Invalid template reference');
+    });
+
+    it('loads a template and resolves a bare name to its latest version', () => {
+        writeTemplate('terse@1.yaml', 'sections:\n  instruction.distribution: "Give percentages."\n');
+        writeTemplate('terse@2.yaml', 'description: Terser\nsections:\n  instruction.distribution: "Percentages."\n');
+
+        expect(listPromptTemplates(dir).map(t => `${t.name}@${t.version}`)).toEqual(['default@1', 'terse@1', 'terse@2']);
+
+        const latest = loadPromptTemplate('terse', dir);
+        expect(latest).toMatchObject({ name: 'terse', version: 2, description: 'Terser' });
+        expect(latest.sections).toEqual({ 'instruction.distribution': 'Percentages.' });
+
+        const first = loadPromptTemplate('terse@1', dir);
+        expect(first.hash).not.toBe(latest.hash);
+        expect(first.hash).not.toBe(getDefaultPromptTemplate().hash);
+    });
+
+    it('hashes a template that repeats the default wording like the default', () => {
+        writeTemplate('same@1.yaml', 'sections:\n  instruction.individual-answer: "Predict the most likely answer for a member of this demographic group."\n');
+        expect(loadPromptTemplate('same@1', dir).hash).toBe(getDefaultPromptTemplate().hash);
+    });
+
+    it('returns the built-in template for default', () => {
+        expect(loadPromptTemplate('default@1', dir)).toEqual(getDefaultPromptTemplate());
+    });
+
+    it('reports unknown sections and syntax errors', () => {
+        writeTemplate('broken@1.yaml', 'sections:\n  system.distributon: "x"\n  question: "{{#if options}}"\n');
+        expect(() => loadPromptTemplate('broken@1', dir)).toThrow(/unknown section "system.distributon"[\s\S]*section "question": .*never closed/);
+    });
+
+    it('reserves the default name and lists what is available when a template is missing', () => {
+        expect(() => loadPromptTemplate('missing@1', dir)).toThrow('Available: default@1');
+        writeTemplate('default@2.yaml', 'sections: {}\n');
+        expect(() => loadPromptTemplate('default@2', dir)).toThrow('reserved');
+    });
+});
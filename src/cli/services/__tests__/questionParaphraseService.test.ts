@@ -0,0 +1,69 @@
+import { parseParaphraseResponse, paraphraseQuestions, ParaphraseCache } from '../questionParaphraseService';
+import { DTEFSurveyData } from '@/types/dtef';
+
+const question = { text: 'How much do you trust AI?', type: 'single-select' as const, options: ['A lot', 'A little'] };
+
+const surveyData: DTEFSurveyData = {
+    surveyId: 'pp',
+    surveyName: 'Paraphrase Survey',
+    questions: { trust: question },
+    segments: [],
+};
+
+function memoryCache(): ParaphraseCache & { store: Map<string, unknown> } {
+    const store = new Map<string, unknown>();
+    return {
+        store,
+        get: async key => store.get(key),
+        set: async (key, value) => store.set(key, value),
+    };
+}
+
+const rewrite = (text: string, options = ['Very much', 'Slightly']) => ({ question: text, options });
+
+describe('questionParaphraseService', () => {
+    it('parses rewrites from a fenced JSON response', () => {
+        const response = '```json\n' + JSON.stringify([rewrite('To what extent do you trust AI?'), rewrite('Do you trust AI, and how much?')]) + '\n```';
+        expect(parseParaphraseResponse(response, question, 2)).toEqual([
+            { text: 'To what extent do you trust AI?', options: ['Very much', 'Slightly'] },
+            { text: 'Do you trust AI, and how much?', options: ['Very much', 'Slightly'] },
+        ]);
+    });
+
+    it('skips rewrites that repeat the wording or change the options', () => {
+        const response = JSON.stringify([
+            rewrite('How much do you trust  AI?'),
+            rewrite('What is your level of trust in AI?', ['Very much']),
+            rewrite('What is your level of trust in AI?', ['Same', 'same']),
+            rewrite('What is your level of trust in AI?'),
+        ]);
+        expect(parseParaphraseResponse(response, question, 1)).toEqual([
+            { text: 'What is your level of trust in AI?', options: ['Very much', 'Slightly'] },
+        ]);
+        expect(() => parseParaphraseResponse(response, question, 2)).toThrow('only 1 of 2 rewrites were usable');
+        expect(() => parseParaphraseResponse('I cannot help with that.', question, 1)).toThrow('no JSON array');
+    });
+
+    it('retries invalid responses and caches the validated paraphrases', async () => {
+        const cache = memoryCache();
+        const complete = jest.fn()
+            .mockResolvedValueOnce('not json')
+            .mockResolvedValueOnce(JSON.stringify([rewrite('To what extent do you trust AI?')]));
+
+        const first = await paraphraseQuestions(surveyData, ['trust'], 1, { modelId: 'test:model', complete, cache });
+        expect(first.trust).toEqual([{ text: 'To what extent do you trust AI?', options: ['Very much', 'Slightly'] }]);
+        expect(complete).toHaveBeenCalledTimes(2);
+        expect(cache.store.size).toBe(1);
+
+        const second = await paraphraseQuestions(surveyData, ['trust'], 1, { modelId: 'test:model', complete, cache });
+        expect(second).toEqual(first);
+        expect(complete).toHaveBeenCalledTimes(2);
+    });
+
+    it('fails when a question never gets valid paraphrases', async () => {
+        const complete = jest.fn().mockResolvedValue('[]');
+        await expect(paraphraseQuestions(surveyData, ['trust'], 1, { modelId: 'test:model', complete, cache: memoryCache() }))
+            .rejects.toThrow('Could not paraphrase question trust after 3 attempts');
+        expect(complete).toHaveBeenCalledTimes(3);
+    });
+});
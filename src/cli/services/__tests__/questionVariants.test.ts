@@ -0,0 +1,106 @@
+import { applyQuestionVariant, distinctOptionOrderCount, listQuestionVariants, optionOrder } from '../blueprint/questionVariants';
+import { DTEFBlueprintConfig, DTEFSurveyData } from '@/types/dtef';
+
+function makeSurveyData(): DTEFSurveyData {
+    return {
+        surveyId: 'pv',
+        surveyName: 'Variant Survey',
+        questions: {
+            trust: { text: 'How much do you trust AI?', type: 'single-select', options: ['A lot', 'Somewhat', 'Not at all'], ordinalPositions: [3, 2, 1] },
+            pet: { text: 'Which pet do you prefer?', type: 'single-select', options: ['Cat', 'Dog', 'Fish', 'Bird'] },
+            context: { text: 'Do you use AI at work?', type: 'single-select', options: ['Yes', 'No'] },
+        },
+        segments: [
+            {
+                id: 'young',
+                label: 'Young',
+                attributes: { ageGroup: '18-25' },
+                sampleSize: 100,
+                responses: [
+                    { questionId: 'trust', distribution: [50, 30, 20] },
+                    { questionId: 'pet', distribution: [40, 30, 20, 10] },
+                    { questionId: 'context', distribution: [70, 30] },
+                ],
+            },
+        ],
+    };
+}
+
+describe('questionVariants', () => {
+    const surveyData = makeSurveyData();
+    const base: DTEFBlueprintConfig = {
+        surveyData,
+        targetQuestionIds: ['trust', 'pet'],
+        questionParaphrases: {
+            trust: [{ text: 'To what extent do you trust AI?', options: ['Very much', 'Moderately', 'Not at all'] }],
+            pet: [{ text: 'What pet would you rather have?', options: ['A cat', 'A dog', 'A fish', 'A bird'] }],
+        },
+    };
+
+    it('lists the original, then paraphrases, then option orders', () => {
+        expect(listQuestionVariants(2, 1)).toEqual([
+            { paraphraseIndex: 0, orderIndex: 0 },
+            { paraphraseIndex: 1, orderIndex: 0 },
+            { paraphraseIndex: 2, orderIndex: 0 },
+            { paraphraseIndex: 0, orderIndex: 1 },
+        ]);
+    });
+
+    it('only reverses ordinal scales', () => {
+        expect(distinctOptionOrderCount(surveyData.questions.trust)).toBe(1);
+        expect(optionOrder('trust', surveyData.questions.trust, 1)).toEqual([2, 1, 0]);
+        expect(optionOrder('trust', surveyData.questions.trust, 2)).toBeNull();
+    });
+
+    it('gives nominal options orders that differ from the original and each other', () => {
+        const seen = new Set(['0,1,2,3']);
+        for (let orderIndex = 1; orderIndex <= 10; orderIndex++) {
+            const order = optionOrder('pet', surveyData.questions.pet, orderIndex)!;
+            expect([...order].sort()).toEqual([0, 1, 2, 3]);
+            expect(seen.has(order.join(','))).toBe(false);
+            seen.add(order.join(','));
+        }
+        expect(distinctOptionOrderCount(surveyData.questions.context)).toBe(1);
+        expect(optionOrder('context', surveyData.questions.context, 2)).toBeNull();
+    });
+
+    it('rewords target questions and leaves context questions alone', () => {
+        const variant = applyQuestionVariant({ ...base, questionVariant: { paraphraseIndex: 1, orderIndex: 0 } });
+        expect(variant.surveyData.questions.trust.text).toBe('To what extent do you trust AI?');
+        expect(variant.surveyData.questions.pet.options).toEqual(['A cat', 'A dog', 'A fish', 'A bird']);
+        expect(variant.surveyData.questions.context).toBe(surveyData.questions.context);
+        expect(variant.surveyData.segments).toBe(surveyData.segments);
+    });
+
+    it('permutes distributions, ordinal positions and marginals with the options', () => {
+        const variant = applyQuestionVariant({
+            ...base,
+            populationMarginals: { trust: [45, 35, 20], context: [60, 40] },
+            questionVariant: { paraphraseIndex: 0, orderIndex: 1 },
+        });
+        const trust = variant.surveyData.questions.trust;
+        expect(trust.options).toEqual(['Not at all', 'Somewhat', 'A lot']);
+        expect(trust.ordinalPositions).toEqual([1, 2, 3]);
+
+        const responses = variant.surveyData.segments[0].responses;
+        expect(responses.find(r => r.questionId === 'trust')!.distribution).toEqual([20, 30, 50]);
+        expect(responses.find(r => r.questionId === 'context')!.distribution).toEqual([70, 30]);
+        expect(variant.populationMarginals).toEqual({ trust: [20, 35, 45], context: [60, 40] });
+
+        // Each option keeps its share under the new order
+        const pet = variant.surveyData.questions.pet;
+        const petShares = responses.find(r => r.questionId === 'pet')!.distribution;
+        const original = Object.fromEntries(surveyData.questions.pet.options!.map((o, i) => [o, surveyData.segments[0].responses[1].distribution[i]]));
+        pet.options!.forEach((option, i) => expect(petShares[i]).toBe(original[option]));
+    });
+
+    it('returns the config unchanged for the original variant', () => {
+        const config = { ...base, questionVariant: { paraphraseIndex: 0, orderIndex: 0 } };
+        expect(applyQuestionVariant(config)).toBe(config);
+    });
+
+    it('throws when a paraphrase is missing', () => {
+        expect(() => applyQuestionVariant({ ...base, questionVariant: { paraphraseIndex: 2, orderIndex: 0 } }))
+            .toThrow('No paraphrase 2 for question trust');
+    });
+});
@@ -0,0 +1,99 @@
+import { RunCheckpointWriter } from '../run-checkpoint-service';
+import { getRunCheckpoint, saveRunCheckpointChunk, deleteRunCheckpoint } from '@/lib/storageService';
+import { ModelResponseDetail } from '@/types/shared';
+
+jest.mock('@/lib/storageService', () => ({
+    getRunCheckpoint: jest.fn(),
+    saveRunCheckpointChunk: jest.fn(),
+    deleteRunCheckpoint: jest.fn(),
+}));
+
+const mockedGet = getRunCheckpoint as jest.MockedFunction<typeof getRunCheckpoint>;
+const mockedSave = saveRunCheckpointChunk as jest.MockedFunction<typeof saveRunCheckpointChunk>;
+const mockedDelete = deleteRunCheckpoint as jest.MockedFunction<typeof deleteRunCheckpoint>;
+
+const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+const response = (text: string, hasError = false): ModelResponseDetail => ({
+    finalAssistantResponseText: text,
+    fullConversationHistory: [],
+    hasError,
+    systemPromptUsed: null,
+});
+
+describe('RunCheckpointWriter', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockedSave.mockResolvedValue(undefined);
+    });
+
+    it('flushes after every N successful responses and skips errored cells', async () => {
+        const writer = new RunCheckpointWriter('cfg', 'run_abc', logger, undefined, 2);
+        writer.onResponse('p1', 'm[temp:0]', response('a'));
+        writer.onResponse('p2', 'm[temp:0]', response('<<error>>x<</error>>', true));
+        expect(mockedSave).not.toHaveBeenCalled();
+
+        writer.onResponse('p3', 'm[temp:0]', response('c'));
+        await writer.flush();
+        expect(mockedSave).toHaveBeenCalledTimes(1);
+        const [saved, chunkIndex] = mockedSave.mock.calls[0];
+        expect(saved).toMatchObject({ configId: 'cfg', runLabel: 'run_abc' });
+        expect(Object.keys(saved.responses)).toEqual(['p1', 'p3']);
+        expect(chunkIndex).toBe(0);
+        expect(writer.completedCount).toBe(2);
+    });
+
+    it('writes only the responses completed since the previous chunk', async () => {
+        const writer = new RunCheckpointWriter('cfg', 'run_abc', logger, undefined, 1);
+        for (const id of ['p1', 'p2', 'p3']) {
+            writer.onResponse(id, 'm[temp:0]', response(id));
+        }
+        await writer.flush();
+        expect(mockedSave.mock.calls.map(([chunk, index]) => [Object.keys(chunk.responses), index])).toEqual([
+            [['p1'], 0],
+            [['p2'], 1],
+            [['p3'], 2],
+        ]);
+    });
+
+    it('resumes from a stored checkpoint, or starts empty when there is none', async () => {
+        mockedGet.mockResolvedValueOnce({ configId: 'cfg', runLabel: 'run_abc', updatedAt: 'now', responses: { p1: { 'm[temp:0]': response('a') } }, nextChunkIndex: 3 });
+        const resumed = await RunCheckpointWriter.resume('cfg', 'run_abc', logger);
+        expect(resumed.completed.p1['m[temp:0]'].finalAssistantResponseText).toBe('a');
+        resumed.onResponse('p2', 'm[temp:0]', response('b'));
+        await resumed.flush();
+        expect(mockedSave).toHaveBeenCalledWith(expect.objectContaining({ responses: { p2: { 'm[temp:0]': response('b') } } }), 3);
+
+        mockedGet.mockResolvedValueOnce(null);
+        const fresh = await RunCheckpointWriter.resume('cfg', 'run_abc', logger);
+        expect(fresh.completedCount).toBe(0);
+        expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('No checkpoint found'));
+    });
+
+    it('deletes chunks left by an earlier attempt when starting a new run', async () => {
+        const writer = await RunCheckpointWriter.start('cfg', 'run_abc', logger);
+        expect(mockedDelete).toHaveBeenCalledWith('cfg', 'run_abc');
+        expect(writer.completedCount).toBe(0);
+
+        writer.onResponse('p1', 'm[temp:0]', response('a'));
+        await writer.flush();
+        expect(mockedSave.mock.invocationCallOrder[0]).toBeGreaterThan(mockedDelete.mock.invocationCallOrder[0]);
+        expect(mockedSave.mock.calls[0][1]).toBe(0);
+    });
+
+    it('logs rather than throws when a save fails, retries it, and deletes the checkpoint on clear', async () => {
+        mockedSave.mockRejectedValueOnce(new Error('S3 down'));
+        const writer = new RunCheckpointWriter('cfg', 'run_abc', logger, undefined, 1);
+        writer.onResponse('p1', 'm[temp:0]', response('a'));
+        await writer.flush();
+        expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('S3 down'));
+
+        // The failed chunk's responses are retried in the next one
+        writer.onResponse('p2', 'm[temp:0]', response('b'));
+        await writer.flush();
+        expect(Object.keys(mockedSave.mock.calls[1][0].responses)).toEqual(['p1', 'p2']);
+
+        await writer.clear();
+        expect(mockedDelete).toHaveBeenCalledWith('cfg', 'run_abc');
+    });
+});
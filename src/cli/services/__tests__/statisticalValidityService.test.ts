@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    runStatisticalAnalysis,
+    buildFindingsArtifact,
+    publishFindings,
+    StatisticalAnalysisRun,
+} from '../statisticalValidityService';
+import { getJsonFile, saveJsonFile, FINDINGS_KEY, FINDINGS_HISTORY_KEY } from '@/lib/storageService';
+import type { DTEFSurveyData } from '@/types/dtef';
+
+jest.mock('@/lib/storageService', () => ({
+    ...jest.requireActual('@/lib/storageService'),
+    listConfigIds: jest.fn().mockResolvedValue([]),
+    listRunsForConfig: jest.fn(),
+    getResultByFileName: jest.fn(),
+    getJsonFile: jest.fn(),
+    saveJsonFile: jest.fn(),
+    getStorageProvider: jest.fn(() => 'local'),
+}));
+
+const mockedGetJsonFile = getJsonFile as jest.MockedFunction<typeof getJsonFile>;
+const mockedSaveJsonFile = saveJsonFile as jest.MockedFunction<typeof saveJsonFile>;
+
+const survey: DTEFSurveyData = {
+    surveyId: 'gd1',
+    surveyName: 'Global Dialogues 1',
+    questions: {
+        q1: { text: 'Q1', type: 'single-select', options: ['a', 'b'] },
+        q2: { text: 'Q2', type: 'single-select', options: ['a', 'b', 'c'] },
+    },
+    segments: [
+        {
+            id: 'gender:female', label: 'Female', attributes: { gender: 'female' }, sampleSize: 400,
+            responses: [{ questionId: 'q1', distribution: [70, 30] }, { questionId: 'q2', distribution: [20, 30, 50] }],
+        },
+        {
+            id: 'country:fr', label: 'France', attributes: { country: 'fr' }, sampleSize: 20,
+            responses: [{ questionId: 'q1', distribution: [40, 60] }, { questionId: 'q2', distribution: [50, 30, 20] }],
+        },
+    ],
+} as DTEFSurveyData;
+
+describe('statisticalValidityService findings', () => {
+    let surveysDir: string;
+    let run: StatisticalAnalysisRun;
+
+    beforeAll(async () => {
+        surveysDir = fs.mkdtempSync(path.join(os.tmpdir(), 'findings-surveys-'));
+        fs.writeFileSync(path.join(surveysDir, 'gd1.json'), JSON.stringify(survey));
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        run = await runStatisticalAnalysis({ surveysDir });
+    });
+
+    afterAll(() => {
+        fs.rmSync(surveysDir, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        mockedGetJsonFile.mockReset();
+        mockedSaveJsonFile.mockReset();
+    });
+
+    it('records survey provenance and baselines even without evaluation results', () => {
+        const findings = buildFindingsArtifact(run);
+
+        expect(findings.provenance).toMatchObject({
+            surveys: [{ surveyId: 'gd1', surveyName: 'Global Dialogues 1', segmentCount: 2, questionCount: 2 }],
+            resultCount: 0,
+            groundTruthPairs: 4,
+            storageProvider: 'local',
+        });
+        expect(findings.modelCount).toBe(0);
+        expect(findings.bestModel).toBeNull();
+        expect(findings.baselines.uniform).toBeGreaterThan(0);
+        expect(findings.baselines.populationMarginal).toBeGreaterThan(findings.baselines.uniform);
+        // Categories are ordered largest sample first
+        expect(findings.categories.map(c => c.category)).toEqual(['gender', 'country']);
+    });
+
+    it('ranks models and summarises significance, context and bootstrap results', () => {
+        const findings = buildFindingsArtifact({
+            ...run,
+            modelOverallScores: new Map([['openai:gpt-b', 0.71], ['anthropic:claude-a', 0.75], ['google:gemini-c', 0.69]]),
+            pairwiseResults: {
+                pairwise: [
+                    { modelA: 'a', modelB: 'b', meanDiff: 0.04, pValue: 0.001, adjustedPValue: 0.003, significant: true, sharedQuestions: 10 },
+                    { modelA: 'a', modelB: 'c', meanDiff: 0.06, pValue: 0.001, adjustedPValue: 0.002, significant: true, sharedQuestions: 10 },
+                    { modelA: 'b', modelB: 'c', meanDiff: 0.02, pValue: 0.3, adjustedPValue: 0.3, significant: false, sharedQuestions: 10 },
+                ],
+            },
+            contextResults: {
+                perModel: [
+                    { modelId: 'anthropic:claude-a', observedSlope: 0.003, pValue: 0.001, adjustedPValue: 0.003, significant: true, contextLevels: 3, dataPoints: 30 },
+                    { modelId: 'openai:gpt-b', observedSlope: -0.001, pValue: 0.9, adjustedPValue: 1, significant: false, contextLevels: 3, dataPoints: 30 },
+                ],
+                categoryResults: [
+                    { modelId: 'anthropic:claude-a', category: 'Gender', observedSlope: 0.004, pValue: 0.001, adjustedPValue: 0.01, significant: true, dataPoints: 10 },
+                    { modelId: 'anthropic:claude-a', category: 'Country', observedSlope: 0.001, pValue: 0.2, adjustedPValue: 0.6, significant: false, dataPoints: 10 },
+                ],
+            },
+            bootstrapCIs: [
+                { modelId: 'anthropic:claude-a', overallCI: { mean: 0.75, ci95Low: 0.74, ci95High: 0.76 }, segmentCIs: new Map() },
+                { modelId: 'openai:gpt-b', overallCI: { mean: 0.71, ci95Low: 0.70, ci95High: 0.72 }, segmentCIs: new Map() },
+                { modelId: 'google:gemini-c', overallCI: { mean: 0.69, ci95Low: 0.68, ci95High: 0.705 }, segmentCIs: new Map() },
+            ] as StatisticalAnalysisRun['bootstrapCIs'],
+        });
+
+        expect(findings.bestModel).toEqual({ modelId: 'anthropic:claude-a', score: 0.75 });
+        expect(findings.topModels.map(m => m.modelId)).toEqual(['anthropic:claude-a', 'openai:gpt-b', 'google:gemini-c']);
+        expect(findings.avgModelScore).toBeCloseTo(0.7167, 4);
+        expect(findings.pairwise).toEqual({ significantPairs: 2, totalPairs: 3, percentage: 66.7, alpha: 0.05 });
+        expect(findings.context).toEqual({
+            testedModels: 2,
+            responsiveModels: 1,
+            nonPositiveSlopeModels: 1,
+            significantModelCategoryPairs: 1,
+            totalModelCategoryPairs: 2,
+            topModels: [{ modelId: 'anthropic:claude-a', slope: 0.003, categories: ['Gender'] }],
+        });
+        expect(findings.bootstrap).toEqual({ adjacentPairs: 2, overlappingAdjacentPairs: 1 });
+    });
+
+    it('publishes the next version as latest, snapshot and history entry', async () => {
+        mockedGetJsonFile.mockResolvedValueOnce({
+            snapshots: [{ version: 2, generatedAt: '2026-01-01T00:00:00.000Z', key: 'live/findings/dtef_findings_v2.json' }],
+            lastUpdated: '2026-01-01T00:00:00.000Z',
+        });
+
+        const published = await publishFindings(buildFindingsArtifact(run));
+
+        expect(mockedGetJsonFile).toHaveBeenCalledWith(FINDINGS_HISTORY_KEY);
+        expect(published.version).toBe(3);
+        expect(mockedSaveJsonFile).toHaveBeenCalledWith('live/findings/dtef_findings_v3.json', published);
+        expect(mockedSaveJsonFile).toHaveBeenCalledWith(FINDINGS_KEY, published);
+        const history = mockedSaveJsonFile.mock.calls.find(([key]) => key === FINDINGS_HISTORY_KEY)![1] as any;
+        expect(history.snapshots.map((s: any) => s.version)).toEqual([3, 2]);
+        expect(history.snapshots[0]).toMatchObject({ key: 'live/findings/dtef_findings_v3.json', surveyIds: ['gd1'], resultCount: 0 });
+    });
+
+    it('starts at version 1 when nothing has been published', async () => {
+        mockedGetJsonFile.mockResolvedValueOnce(null);
+        const published = await publishFindings(buildFindingsArtifact(run));
+        expect(published.version).toBe(1);
+    });
+});
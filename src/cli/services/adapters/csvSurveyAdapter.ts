@@ -0,0 +1,365 @@
+/**
+ * Generic CSV Survey Adapter
+ *
+ * Converts a respondent-level CSV export (one row per respondent, one
+ * column per question, as produced by SPSS/Stata/Qualtrics exports) into
+ * DTEFSurveyData and DTEFIndividualData using a declarative column mapping.
+ *
+ * The mapping file (YAML or JSON) names the question columns and their
+ * option order, the demographic columns that define segments, and an
+ * optional per-respondent weight column:
+ *
+ * ```yaml
+ * surveyId: pew-atp-w132
+ * surveyName: Pew ATP Wave 132
+ * participantIdColumn: QKEY
+ * weightColumn: WEIGHT_W132
+ * questions:
+ *   - column: AI_CONCERN
+ *     text: How do you feel about the increased use of AI in daily life?
+ *     options: [More excited than concerned, More concerned than excited, Equally both]
+ *     valueMap: { "1": More excited than concerned, "2": More concerned than excited, "3": Equally both }
+ *   - column: AI_TRUST
+ *     options: [None at all, A little, Some, A lot]
+ *     ordinal: true   # or ordinalPositions: [0, 1, 2, 3]
+ * demographics:
+ *   - column: F_AGECAT
+ *     attribute: ageGroup
+ *     valueMap: { "1": 18-29, "2": 30-49, "3": 50-64, "4": 65+ }
+ * ```
+ */
+
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import {
+    DTEFSurveyData,
+    DTEFIndividualData,
+    DTEFParticipant,
+    IndividualResponse,
+    SegmentWithResponses,
+} from '@/types/dtef';
+import { makeSegmentId } from '@/lib/segmentUtils';
+import { parseCSV } from './globalDialoguesAdapter';
+import { buildSegmentFromParticipants } from './individualAggregation';
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+/** Mapping for a single survey question column */
+export interface CsvQuestionMapping {
+    /** CSV column header holding the respondent's answer */
+    column: string;
+    /** Question ID used in DTEFSurveyData (default: the column header) */
+    id?: string;
+    /** Question text shown to models (default: the column header) */
+    text?: string;
+    /** Answer option labels, in the order distributions are reported */
+    options: string[];
+    /** Raw cell value → option label (e.g. SPSS numeric codes) */
+    valueMap?: Record<string, string>;
+    /** Treat the options as an evenly spaced ordinal scale, in listed order */
+    ordinal?: boolean;
+    /** Explicit ordinal position per option (overrides `ordinal`) */
+    ordinalPositions?: number[];
+}
+
+/** Mapping for a demographic column that defines segments */
+export interface CsvDemographicMapping {
+    /** CSV column header holding the respondent's value */
+    column: string;
+    /** Segment attribute name (e.g. "ageGroup", "country") */
+    attribute: string;
+    /** Raw cell value → display value (e.g. SPSS numeric codes) */
+    valueMap?: Record<string, string>;
+}
+
+/** Declarative description of how a CSV export maps onto DTEF data */
+export interface CsvColumnMapping {
+    surveyId: string;
+    surveyName: string;
+    description?: string;
+    source?: string;
+    /** Column with a unique respondent ID (default: row number) */
+    participantIdColumn?: string;
+    /** Column with a per-respondent survey weight (default: unweighted) */
+    weightColumn?: string;
+    /** Raw cell values treated as missing in every column (e.g. "99", "Refused") */
+    missingValues?: string[];
+    questions: CsvQuestionMapping[];
+    demographics: CsvDemographicMapping[];
+}
+
+export interface CsvSurveyAdapterOptions {
+    /** Which demographic attributes to build segments for (default: all mapped) */
+    segmentAttributes?: string[];
+    /** Minimum number of respondents for a segment to be included (default: 10) */
+    minSampleSize?: number;
+}
+
+/** Both views of an imported survey */
+export interface CsvSurveyImport {
+    surveyData: DTEFSurveyData;
+    individualData: DTEFIndividualData;
+}
+
+// ── Mapping Loading ────────────────────────────────────────────────────
+
+/**
+ * Load and validate a column mapping file (YAML or JSON).
+ * Throws if required fields are missing or malformed.
+ */
+export function loadColumnMapping(filePath: string): CsvColumnMapping {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const raw = filePath.endsWith('.json') ? JSON.parse(content) : yaml.load(content);
+    return validateColumnMapping(raw);
+}
+
+/**
+ * Validate an already-parsed column mapping object.
+ */
+export function validateColumnMapping(raw: unknown): CsvColumnMapping {
+    if (!raw || typeof raw !== 'object') {
+        throw new Error('Column mapping must be an object');
+    }
+    const m = raw as Record<string, any>;
+
+    if (!m.surveyId || typeof m.surveyId !== 'string') {
+        throw new Error('Column mapping requires a string "surveyId"');
+    }
+    if (!m.surveyName || typeof m.surveyName !== 'string') {
+        throw new Error('Column mapping requires a string "surveyName"');
+    }
+    if (!Array.isArray(m.questions) || m.questions.length === 0) {
+        throw new Error('Column mapping requires a non-empty "questions" list');
+    }
+    if (!Array.isArray(m.demographics) || m.demographics.length === 0) {
+        throw new Error('Column mapping requires a non-empty "demographics" list');
+    }
+
+    const questionIds = new Set<string>();
+    m.questions.forEach((q: any, i: number) => {
+        if (!q?.column || typeof q.column !== 'string') {
+            throw new Error(`questions[${i}] requires a "column"`);
+        }
+        if (!Array.isArray(q.options) || q.options.length < 2) {
+            throw new Error(`questions[${i}] (${q.column}) requires at least 2 "options"`);
+        }
+        q.options = q.options.map(String);
+        if (q.ordinalPositions !== undefined) {
+            if (!Array.isArray(q.ordinalPositions) || q.ordinalPositions.length !== q.options.length
+                || !q.ordinalPositions.every((p: unknown) => typeof p === 'number')) {
+                throw new Error(`questions[${i}] (${q.column}) "ordinalPositions" must list one number per option`);
+            }
+        }
+        const id = q.id ?? q.column;
+        if (questionIds.has(id)) {
+            throw new Error(`Duplicate question id in column mapping: ${id}`);
+        }
+        questionIds.add(id);
+    });
+
+    m.demographics.forEach((d: any, i: number) => {
+        if (!d?.column || typeof d.column !== 'string') {
+            throw new Error(`demographics[${i}] requires a "column"`);
+        }
+        if (!d.attribute || typeof d.attribute !== 'string') {
+            throw new Error(`demographics[${i}] (${d.column}) requires an "attribute"`);
+        }
+    });
+
+    return m as CsvColumnMapping;
+}
+
+// ── Row Parsing ────────────────────────────────────────────────────────
+
+/**
+ * Resolve a raw cell value through an optional value map.
+ * Returns null for empty or missing values.
+ */
+function resolveCellValue(
+    raw: string | undefined,
+    valueMap: Record<string, string> | undefined,
+    missing: Set<string>,
+): string | null {
+    const value = raw?.trim();
+    if (!value || missing.has(value)) return null;
+    const mapped = valueMap?.[value];
+    // YAML may parse mapped labels as numbers (e.g. "1": 65)
+    return mapped !== undefined ? String(mapped) : value;
+}
+
+/**
+ * Parse respondent rows into participants using the column mapping.
+ */
+function parseParticipants(rows: string[][], mapping: CsvColumnMapping): DTEFParticipant[] {
+    const headers = rows[0].map(h => h.trim());
+    const columnIndex = (column: string): number => {
+        const idx = headers.indexOf(column);
+        if (idx < 0) {
+            throw new Error(`CSV is missing mapped column "${column}"`);
+        }
+        return idx;
+    };
+
+    const pidIdx = mapping.participantIdColumn ? columnIndex(mapping.participantIdColumn) : -1;
+    const weightIdx = mapping.weightColumn ? columnIndex(mapping.weightColumn) : -1;
+    const missing = new Set((mapping.missingValues ?? []).map(String));
+
+    const questionCols = mapping.questions.map(q => ({
+        idx: columnIndex(q.column),
+        questionId: q.id ?? q.column,
+        valueMap: q.valueMap,
+        optionLookup: new Map(q.options.map((opt, i) => [opt.toLowerCase().trim(), i])),
+        options: q.options,
+    }));
+    const demographicCols = mapping.demographics.map(d => ({
+        idx: columnIndex(d.column),
+        attribute: d.attribute,
+        valueMap: d.valueMap,
+    }));
+
+    const participants: DTEFParticipant[] = [];
+
+    for (let i = 1; i < rows.length; i++) {
+        const fields = rows[i];
+        const participantId = pidIdx >= 0 ? fields[pidIdx]?.trim() : String(i);
+        if (!participantId) continue;
+
+        let weight: number | undefined;
+        if (weightIdx >= 0) {
+            weight = parseFloat(fields[weightIdx]);
+            // Respondents without a usable weight cannot contribute to weighted estimates
+            if (!isFinite(weight) || weight <= 0) continue;
+        }
+
+        const attributes: Record<string, string> = {};
+        for (const col of demographicCols) {
+            const value = resolveCellValue(fields[col.idx], col.valueMap, missing);
+            if (value !== null) attributes[col.attribute] = value;
+        }
+
+        const responses: IndividualResponse[] = [];
+        for (const col of questionCols) {
+            const value = resolveCellValue(fields[col.idx], col.valueMap, missing);
+            if (value === null) continue;
+            const idx = col.optionLookup.get(value.toLowerCase().trim());
+            if (idx === undefined) continue; // response doesn't match any known option
+            responses.push({
+                questionId: col.questionId,
+                selectedOption: col.options[idx],
+                selectedIndex: idx,
+            });
+        }
+
+        if (responses.length === 0) continue;
+
+        participants.push({
+            participantId,
+            attributes,
+            responses,
+            ...(weight !== undefined ? { weight } : {}),
+        });
+    }
+
+    return participants;
+}
+
+// ── Core Adapter Logic ─────────────────────────────────────────────────
+
+/**
+ * Convert CSV content to DTEF survey and individual data using a column mapping.
+ *
+ * Each distinct value of each mapped demographic column becomes a
+ * single-attribute segment. When the mapping names a weight column,
+ * distributions are weighted and each segment records its Kish effective
+ * sample size; `sampleSize` is always the raw respondent count.
+ */
+export function convertCsvSurvey(
+    content: string,
+    mapping: CsvColumnMapping,
+    options: CsvSurveyAdapterOptions = {},
+): CsvSurveyImport {
+    const { segmentAttributes, minSampleSize = 10 } = options;
+
+    const rows = parseCSV(content);
+    if (rows.length < 2) {
+        throw new Error('CSV file has insufficient data');
+    }
+
+    const participants = parseParticipants(rows, mapping);
+
+    const questions: DTEFSurveyData['questions'] = {};
+    for (const q of mapping.questions) {
+        questions[q.id ?? q.column] = {
+            text: q.text ?? q.column,
+            type: 'single-select',
+            options: q.options,
+            ...(q.ordinalPositions
+                ? { ordinalPositions: q.ordinalPositions }
+                : q.ordinal ? { ordinalPositions: q.options.map((_, i) => i + 1) } : {}),
+        };
+    }
+
+    // Group participants by each demographic attribute value, preserving first-seen order
+    const attributes = mapping.demographics
+        .map(d => d.attribute)
+        .filter(attr => !segmentAttributes || segmentAttributes.includes(attr));
+
+    const segments: SegmentWithResponses[] = [];
+
+    for (const attribute of attributes) {
+        const groups = new Map<string, DTEFParticipant[]>();
+        for (const p of participants) {
+            const value = p.attributes[attribute];
+            if (value === undefined) continue;
+            if (!groups.has(value)) groups.set(value, []);
+            groups.get(value)!.push(p);
+        }
+
+        for (const [value, members] of groups) {
+            if (members.length < minSampleSize) continue;
+
+            const segment = buildSegmentFromParticipants(
+                { id: makeSegmentId(attribute, value), label: value, attributes: { [attribute]: value } },
+                members,
+                questions,
+            );
+            if (segment) segments.push(segment);
+        }
+    }
+
+    const questionIdMap: Record<string, string> = {};
+    for (const q of mapping.questions) {
+        questionIdMap[q.column] = q.id ?? q.column;
+    }
+
+    return {
+        surveyData: {
+            surveyId: mapping.surveyId,
+            surveyName: mapping.surveyName,
+            ...(mapping.description ? { description: mapping.description } : {}),
+            ...(mapping.source ? { source: mapping.source } : {}),
+            questions,
+            segments,
+        },
+        individualData: {
+            surveyId: mapping.surveyId,
+            participants,
+            questionIdMap,
+        },
+    };
+}
+
+/**
+ * Load a CSV file and mapping file from disk and convert them.
+ */
+export function loadCsvSurvey(
+    csvPath: string,
+    mappingPath: string,
+    options?: CsvSurveyAdapterOptions,
+): CsvSurveyImport {
+    if (!fs.existsSync(csvPath)) {
+        throw new Error(`CSV file not found: ${csvPath}`);
+    }
+    const mapping = loadColumnMapping(mappingPath);
+    return convertCsvSurvey(fs.readFileSync(csvPath, 'utf-8'), mapping, options);
+}
@@ -17,7 +17,10 @@ import {
     IndividualResponse,
     SegmentWithResponses,
     DemographicResponse,
+    QuestionType,
 } from '@/types/dtef';
+import { makeSegmentId } from '@/lib/segmentUtils';
+import { buildIntersectionalSegments } from './individualAggregation';
 
 // ── Column classification ──────────────────────────────────────────────
 
@@ -68,6 +71,29 @@ const METADATA_COLUMNS = new Set([
   'Submitted By', 'Language', 'Sample ID', 'Participant ID',
 ]);
 
+/**
+ * GD poll question types imported for evaluation. Multi-select segment
+ * values are the share of respondents selecting each option, so they are
+ * kept as independent percentages rather than a distribution. Ranking
+ * segment values are first-choice shares; the rank matrices come from the
+ * participants CSV (see attachRankDistributions).
+ */
+const POLL_QUESTION_TYPES: Record<string, QuestionType> = {
+  'Poll Single Select': 'single-select',
+  'Poll Multi Select': 'multi-select',
+  'Poll Ranking': 'ranking',
+};
+
+/** Separators between options in a participant's ranked answer, 1st first */
+const RANKED_ANSWER_SEPARATOR = /\s*(?:;|\||>|\n)\s*/;
+
+/**
+ * GD free-text question types. Their aggregate rows hold agreement rates
+ * for each submitted answer, not per-segment answers, so segment answers
+ * come from the participants CSV (see attachOpenEndedResponses).
+ */
+const OPEN_ENDED_QUESTION_TYPES = new Set(['Ask Opinion', 'Ask Experience']);
+
 /**
  * Known demographic-defining question texts (onboarding polls).
  * These define the segments themselves and are excluded from
@@ -127,6 +153,19 @@ export interface GlobalDialoguesAdapterOptions {
   minSampleSize?: number;
   /** Specific question IDs to include (default: all qualifying) */
   questionIds?: string[];
+  /**
+   * Build crossed segments up to this many attributes (e.g. 2 = age × gender).
+   * Requires participant data. Default: 1 (single-attribute segments only).
+   */
+  intersectionDepth?: number;
+  /** Participant data used to build crossed segments when intersectionDepth > 1 */
+  individualData?: DTEFIndividualData;
+  /**
+   * Also register free-text ("Ask Opinion"/"Ask Experience") questions as
+   * open-ended questions (default: false). Segment answers are attached
+   * from participant data.
+   */
+  includeOpenEnded?: boolean;
 }
 
 // ── CSV Parsing ────────────────────────────────────────────────────────
@@ -134,7 +173,7 @@ export interface GlobalDialoguesAdapterOptions {
 /**
  * Simple CSV parser that handles quoted fields with commas and newlines.
  */
-function parseCSV(content: string): string[][] {
+export function parseCSV(content: string): string[][] {
   const rows: string[][] = [];
   let currentRow: string[] = [];
   let currentField = '';
@@ -406,13 +445,6 @@ function isDemographicQuestion(questionText: string): boolean {
   return DEMOGRAPHIC_QUESTION_PATTERNS.some(pattern => pattern.test(questionText));
 }
 
-/**
- * Build a unique segment ID from its attribute and value.
- */
-function makeSegmentId(attribute: string, value: string): string {
-  return `${attribute}:${value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/-+$/, '')}`;
-}
-
 /**
  * Convert Global Dialogues data to DTEFSurveyData format.
  */
@@ -425,6 +457,9 @@ export function convertGlobalDialogues(options: GlobalDialoguesAdapterOptions):
     includeDemographicQuestions = false,
     minSampleSize = 10,
     questionIds,
+    intersectionDepth = 1,
+    individualData,
+    includeOpenEnded = false,
   } = options;
 
   // Load data
@@ -447,13 +482,15 @@ export function convertGlobalDialogues(options: GlobalDialoguesAdapterOptions):
   // Group rows by question
   const questionGroups = groupByQuestion(rows);
 
-  // Filter to Poll Single Select questions
+  // Filter to poll questions (single-select, multi-select and ranking), plus free-text questions if requested
   const pollQuestions = new Map<string, QuestionGroup>();
+  const openEndedQuestions = new Map<string, QuestionGroup>();
   for (const [qid, group] of questionGroups) {
-    if (group.questionType !== 'Poll Single Select') continue;
+    const isOpenEnded = includeOpenEnded && OPEN_ENDED_QUESTION_TYPES.has(group.questionType);
+    if (!(group.questionType in POLL_QUESTION_TYPES) && !isOpenEnded) continue;
     if (!includeDemographicQuestions && isDemographicQuestion(group.questionText)) continue;
     if (questionIds && !questionIds.includes(qid)) continue;
-    pollQuestions.set(qid, group);
+    (isOpenEnded ? openEndedQuestions : pollQuestions).set(qid, group);
   }
 
   // Build questions map
@@ -461,10 +498,13 @@ export function convertGlobalDialogues(options: GlobalDialoguesAdapterOptions):
   for (const [qid, group] of pollQuestions) {
     questions[qid] = {
       text: group.questionText,
-      type: 'single-select',
+      type: POLL_QUESTION_TYPES[group.questionType],
       options: group.responses.map(r => r.text),
     };
   }
+  for (const [qid, group] of openEndedQuestions) {
+    questions[qid] = { text: group.questionText, type: 'open-ended' };
+  }
 
   // Build segments
   // Each segment column (e.g., "O3: Male") becomes a segment
@@ -521,14 +561,25 @@ export function convertGlobalDialogues(options: GlobalDialoguesAdapterOptions):
     });
   }
 
-  return {
+  const data: DTEFSurveyData = {
     surveyId: `global-dialogues-${roundId.toLowerCase()}`,
     surveyName: `Global Dialogues ${roundId}`,
     description: `Cross-national survey on public perspectives about AI from the ${roundId} round of Global Dialogues. Conducted via AI-moderated dialogue sessions on Remesh.ai with participants recruited through Prolific.`,
     source: `Global Dialogues ${roundId} (https://github.com/collect-intel/global-dialogues)`,
+    roundId,
     questions,
     segments,
   };
+
+  // Crossed segments come from participant rows; the aggregate CSV only has marginals
+  if (intersectionDepth > 1 && individualData) {
+    data.segments.push(...buildIntersectionalSegments(data, individualData, {
+      maxDepth: intersectionDepth,
+      minSampleSize,
+    }));
+  }
+
+  return data;
 }
 
 // ── Convenience Functions ──────────────────────────────────────────────
@@ -571,12 +622,25 @@ export function loadGlobalDialoguesRound(
     throw new Error(`Aggregate file not found: ${aggregatePath}`);
   }
 
-  return convertGlobalDialogues({
+  const options: GlobalDialoguesAdapterOptions = {
     aggregatePath,
     segmentCountsPath: fs.existsSync(segmentCountsPath) ? segmentCountsPath : undefined,
     roundId,
     ...overrides,
-  });
+  };
+
+  const data = convertGlobalDialogues(options);
+
+  // Participant data needs the converted questions for option matching, so load it afterwards
+  if ((options.intersectionDepth ?? 1) > 1 && !options.individualData) {
+    const individualData = loadIndividualData(roundId, dataDir, data);
+    data.segments.push(...buildIntersectionalSegments(data, individualData, {
+      maxDepth: options.intersectionDepth!,
+      minSampleSize: options.minSampleSize,
+    }));
+  }
+
+  return data;
 }
 
 /**
@@ -639,12 +703,14 @@ function loadQuestionIdMapping(filePath: string): Map<string, string> {
  * @param round - Round identifier (e.g., "GD4")
  * @param dataDir - Path to the GD Data/ directory
  * @param surveyData - Already-loaded aggregate survey data (for option matching)
+ * @param options.weightColumn - Optional participants CSV column holding a survey weight
  * @returns Individual participant data
  */
 export function loadIndividualData(
     round: string,
     dataDir: string,
     surveyData: DTEFSurveyData,
+    options: { weightColumn?: string } = {},
 ): DTEFIndividualData {
     const roundDir = path.join(dataDir, round);
     const participantsPath = path.join(roundDir, `${round}_participants.csv`);
@@ -675,6 +741,11 @@ export function loadIndividualData(
         throw new Error('Participants CSV missing "Participant Id" column');
     }
 
+    const weightIdx = options.weightColumn ? headers.indexOf(options.weightColumn) : -1;
+    if (options.weightColumn && weightIdx < 0) {
+        throw new Error(`Participants CSV missing weight column "${options.weightColumn}"`);
+    }
+
     // Classify each column: demographic attribute, poll question, or skip
     interface ColumnMapping {
         colIdx: number;
@@ -688,7 +759,7 @@ export function loadIndividualData(
 
     for (let j = 0; j < headers.length; j++) {
         const header = headers[j];
-        if (!header || j === pidIdx || header === 'Sample Provider Id') continue;
+        if (!header || j === pidIdx || j === weightIdx || header === 'Sample Provider Id') continue;
 
         // Check if it's a demographic column
         const demoMatch = PARTICIPANT_DEMOGRAPHIC_COLUMNS.find(d => d.pattern.test(header));
@@ -705,10 +776,12 @@ export function loadIndividualData(
         }
     }
 
-    // Build option lookup: questionId → (lowercase option text → option index)
+    // Build option lookup: questionId → (lowercase option text → option index).
+    // Individual responses record a single choice, so multi-select questions are left out.
+    // Open-ended answers are kept verbatim instead, and ranked answers as option indices.
     const optionLookup = new Map<string, Map<string, number>>();
     for (const [qId, q] of Object.entries(surveyData.questions)) {
-        if (!q.options) continue;
+        if (!q.options || q.type === 'multi-select' || q.type === 'open-ended') continue;
         const map = new Map<string, number>();
         for (let i = 0; i < q.options.length; i++) {
             map.set(q.options[i].toLowerCase().trim(), i);
@@ -725,18 +798,35 @@ export function loadIndividualData(
         const participantId = fields[pidIdx];
         if (!participantId) { skipped++; continue; }
 
+        let weight: number | undefined;
+        if (weightIdx >= 0) {
+            weight = parseFloat(fields[weightIdx]);
+            if (!isFinite(weight) || weight <= 0) { skipped++; continue; }
+        }
+
         const attributes: Record<string, string> = {};
         const responses: IndividualResponse[] = [];
+        const textResponses: Record<string, string> = {};
+        const rankings: Record<string, number[]> = {};
 
         for (const mapping of columnMappings) {
             const value = fields[mapping.colIdx]?.trim();
             if (!value) continue;
 
             if (mapping.type === 'demographic' && mapping.attribute) {
-                attributes[mapping.attribute] = value;
+                attributes[mapping.attribute] = normalizeSegmentValue(value);
             } else if (mapping.type === 'question' && mapping.questionId) {
+                if (surveyData.questions[mapping.questionId].type === 'open-ended') {
+                    textResponses[mapping.questionId] = value;
+                    continue;
+                }
                 const lookup = optionLookup.get(mapping.questionId);
                 if (!lookup) continue;
+                if (surveyData.questions[mapping.questionId].type === 'ranking') {
+                    const ranking = parseRankedAnswer(value, lookup);
+                    if (ranking.length > 0) rankings[mapping.questionId] = ranking;
+                    continue;
+                }
                 const idx = lookup.get(value.toLowerCase().trim());
                 if (idx === undefined) continue; // response doesn't match any known option
                 responses.push({
@@ -747,9 +837,18 @@ export function loadIndividualData(
             }
         }
 
-        if (responses.length === 0) { skipped++; continue; }
-
-        participants.push({ participantId, attributes, responses });
+        const hasText = Object.keys(textResponses).length > 0;
+        const hasRankings = Object.keys(rankings).length > 0;
+        if (responses.length === 0 && !hasText && !hasRankings) { skipped++; continue; }
+
+        participants.push({
+            participantId,
+            attributes,
+            responses,
+            ...(hasText ? { textResponses } : {}),
+            ...(hasRankings ? { rankings } : {}),
+            ...(weight !== undefined ? { weight } : {}),
+        });
     }
 
     return {
@@ -759,6 +858,19 @@ export function loadIndividualData(
     };
 }
 
+/**
+ * Option indices of a participant's ranked answer, in rank order.
+ * Unknown and repeated options are dropped.
+ */
+function parseRankedAnswer(value: string, lookup: Map<string, number>): number[] {
+    const ranking: number[] = [];
+    for (const part of value.split(RANKED_ANSWER_SEPARATOR)) {
+        const idx = lookup.get(part.toLowerCase().trim());
+        if (idx !== undefined && !ranking.includes(idx)) ranking.push(idx);
+    }
+    return ranking;
+}
+
 /**
  * Get a summary of a converted dataset for display.
  */
@@ -768,6 +880,8 @@ export function summarizeDataset(data: DTEFSurveyData): {
   segmentCategories: string[];
   totalResponses: number;
   sampleSizeRange: { min: number; max: number };
+  /** Kish effective sample size range, present only for weighted data */
+  effectiveSampleSizeRange?: { min: number; max: number };
 } {
   const questionCount = Object.keys(data.questions).length;
   const segmentCount = data.segments.length;
@@ -781,6 +895,9 @@ export function summarizeDataset(data: DTEFSurveyData): {
   }
 
   const sampleSizes = data.segments.map(s => s.sampleSize).filter(s => s > 0);
+  const effectiveSizes = data.segments
+    .map(s => s.effectiveSampleSize)
+    .filter((s): s is number => s !== undefined);
   const totalResponses = data.segments.reduce(
     (sum, seg) => sum + seg.responses.length,
     0,
@@ -795,5 +912,8 @@ export function summarizeDataset(data: DTEFSurveyData): {
       min: sampleSizes.length > 0 ? Math.min(...sampleSizes) : 0,
       max: sampleSizes.length > 0 ? Math.max(...sampleSizes) : 0,
     },
+    ...(effectiveSizes.length > 0
+      ? { effectiveSampleSizeRange: { min: Math.min(...effectiveSizes), max: Math.max(...effectiveSizes) } }
+      : {}),
   };
 }
@@ -0,0 +1,323 @@
+/**
+ * Individual → Segment Aggregation
+ *
+ * Shared helpers for building segment distributions from respondent-level
+ * data. Used by the CSV importer, and by the Global Dialogues adapter when
+ * recomputing segments from weighted participants, building crossed
+ * (intersectional) segments, or attaching open-ended answers and rank
+ * matrices to segments.
+ */
+
+import {
+    DTEFSurveyData,
+    DTEFIndividualData,
+    DTEFParticipant,
+    SegmentWithResponses,
+    DemographicResponse,
+} from '@/types/dtef';
+import { kishEffectiveSampleSize } from '@/lib/statisticalAnalysis';
+import { makeIntersectionalSegmentId } from '@/lib/segmentUtils';
+
+export interface IntersectionOptions {
+    /** Maximum number of crossed attributes per segment (2 = pairs, 3 = triples, …) */
+    maxDepth: number;
+    /** Minimum respondents for a crossed cell to be kept (default: 10) */
+    minSampleSize?: number;
+    /** Attributes to cross, in ID order (default: those of the single-attribute segments) */
+    attributes?: string[];
+}
+
+/**
+ * Aggregate participants into per-question percentage distributions,
+ * weighting each respondent by `weight` (default 1).
+ * Questions nobody in the group answered are omitted.
+ */
+export function aggregateParticipantResponses(
+    participants: DTEFParticipant[],
+    questions: DTEFSurveyData['questions'],
+): DemographicResponse[] {
+    const responses: DemographicResponse[] = [];
+
+    for (const [questionId, q] of Object.entries(questions)) {
+        if (q.type === 'ranking') {
+            const ranked = aggregateParticipantRankings(participants, questionId, q);
+            if (ranked) responses.push(ranked);
+            continue;
+        }
+
+        const totals = new Array(q.options?.length ?? 0).fill(0);
+        let totalWeight = 0;
+
+        for (const p of participants) {
+            const answer = p.responses.find(r => r.questionId === questionId);
+            if (!answer || answer.selectedIndex >= totals.length) continue;
+            const w = p.weight ?? 1;
+            totals[answer.selectedIndex] += w;
+            totalWeight += w;
+        }
+
+        if (totalWeight === 0) continue;
+
+        responses.push({
+            questionId,
+            distribution: totals.map(t => Math.round((t / totalWeight) * 1000) / 10),
+        });
+    }
+
+    return responses;
+}
+
+/**
+ * Aggregate participants' rankings of one question into an option × rank
+ * percentage matrix, with the first-choice shares as the flat distribution.
+ * Returns null when no participant in the group ranked the question.
+ */
+function aggregateParticipantRankings(
+    participants: DTEFParticipant[],
+    questionId: string,
+    question: DTEFSurveyData['questions'][string],
+): DemographicResponse | null {
+    const optionCount = question.options?.length ?? 0;
+    const rankCount = question.rankCount ?? optionCount;
+    const totals = Array.from({ length: optionCount }, () => new Array(rankCount).fill(0));
+    let totalWeight = 0;
+
+    for (const p of participants) {
+        const ranking = p.rankings?.[questionId];
+        if (!ranking?.length) continue;
+        const w = p.weight ?? 1;
+        ranking.slice(0, rankCount).forEach((optionIndex, rank) => {
+            if (optionIndex < optionCount) totals[optionIndex][rank] += w;
+        });
+        totalWeight += w;
+    }
+
+    if (totalWeight === 0) return null;
+
+    const rankDistribution = totals.map(row => row.map(t => Math.round((t / totalWeight) * 1000) / 10));
+    return {
+        questionId,
+        distribution: rankDistribution.map(row => row[0] ?? 0),
+        rankDistribution,
+    };
+}
+
+/**
+ * Whether any participant carries an explicit survey weight.
+ */
+export function isWeighted(participants: DTEFParticipant[]): boolean {
+    return participants.some(p => p.weight !== undefined);
+}
+
+/**
+ * Build a segment from its member participants.
+ * Returns null when no member answered any of the questions.
+ *
+ * `sampleSize` is the raw member count; `effectiveSampleSize` (the Kish
+ * effective size) and `weightTotal` are only set when the members are weighted.
+ */
+export function buildSegmentFromParticipants(
+    segment: Omit<SegmentWithResponses, 'responses' | 'sampleSize' | 'effectiveSampleSize' | 'weightTotal'>,
+    members: DTEFParticipant[],
+    questions: DTEFSurveyData['questions'],
+): SegmentWithResponses | null {
+    const responses = aggregateParticipantResponses(members, questions);
+    if (responses.length === 0) return null;
+
+    return {
+        ...segment,
+        sampleSize: members.length,
+        ...(isWeighted(members)
+            ? {
+                effectiveSampleSize: Math.round(kishEffectiveSampleSize(members.map(p => p.weight ?? 1)) * 10) / 10,
+                weightTotal: Math.round(members.reduce((sum, p) => sum + (p.weight ?? 1), 0) * 1000) / 1000,
+            }
+            : {}),
+        responses,
+    };
+}
+
+/**
+ * Whether a participant has every one of the given attribute values
+ * (case-insensitive, as in individual-answer blueprint matching).
+ */
+export function matchesAttributes(participant: DTEFParticipant, attributes: Record<string, string>): boolean {
+    return Object.entries(attributes).every(([attr, value]) =>
+        participant.attributes[attr]?.toLowerCase() === value.toLowerCase(),
+    );
+}
+
+/**
+ * Recompute every segment of an aggregate dataset from individual data.
+ *
+ * A participant belongs to a segment when all of the segment's attributes
+ * match. Segments whose members fall below `minSampleSize` or who answered
+ * none of the questions are dropped.
+ */
+export function recomputeSegmentsFromIndividuals(
+    surveyData: DTEFSurveyData,
+    individualData: DTEFIndividualData,
+    minSampleSize: number = 10,
+): DTEFSurveyData {
+    const segments: SegmentWithResponses[] = [];
+
+    for (const seg of surveyData.segments) {
+        const members = individualData.participants.filter(p => matchesAttributes(p, seg.attributes));
+        if (members.length < minSampleSize) continue;
+
+        const rebuilt = buildSegmentFromParticipants(
+            { id: seg.id, label: seg.label, attributes: seg.attributes },
+            members,
+            surveyData.questions,
+        );
+        if (rebuilt) segments.push(rebuilt);
+    }
+
+    return { ...surveyData, segments };
+}
+
+/**
+ * All k-element combinations of `items`, preserving input order.
+ */
+function combinations<T>(items: T[], k: number): T[][] {
+    if (k === 0) return [[]];
+    const result: T[][] = [];
+    for (let i = 0; i <= items.length - k; i++) {
+        for (const rest of combinations(items.slice(i + 1), k - 1)) {
+            result.push([items[i], ...rest]);
+        }
+    }
+    return result;
+}
+
+/**
+ * Build crossed segments (e.g. ageGroup × gender × country) from individual data.
+ *
+ * For every combination of 2..maxDepth attributes, participants are grouped
+ * by their values on those attributes; each cell with at least
+ * `minSampleSize` members becomes a segment whose `attributes` hold all
+ * crossed values. Single-attribute segments are not included.
+ */
+export function buildIntersectionalSegments(
+    surveyData: DTEFSurveyData,
+    individualData: DTEFIndividualData,
+    options: IntersectionOptions,
+): SegmentWithResponses[] {
+    const { maxDepth, minSampleSize = 10 } = options;
+
+    const attributes = options.attributes ?? Array.from(new Set(
+        surveyData.segments
+            .filter(s => Object.keys(s.attributes).length === 1)
+            .map(s => Object.keys(s.attributes)[0]),
+    ));
+
+    const segments: SegmentWithResponses[] = [];
+
+    for (let depth = 2; depth <= Math.min(maxDepth, attributes.length); depth++) {
+        for (const combo of combinations(attributes, depth)) {
+            const cells = new Map<string, { values: string[]; members: DTEFParticipant[] }>();
+
+            for (const p of individualData.participants) {
+                const values = combo.map(attr => p.attributes[attr]);
+                if (values.some(v => !v)) continue;
+                const key = values.join('\u0000');
+                if (!cells.has(key)) cells.set(key, { values, members: [] });
+                cells.get(key)!.members.push(p);
+            }
+
+            for (const { values, members } of cells.values()) {
+                if (members.length < minSampleSize) continue;
+
+                const segment = buildSegmentFromParticipants(
+                    {
+                        id: makeIntersectionalSegmentId(combo.map((attr, i): [string, string] => [attr, values[i]])),
+                        label: values.join(', '),
+                        attributes: Object.fromEntries(combo.map((attr, i) => [attr, values[i]])),
+                    },
+                    members,
+                    surveyData.questions,
+                );
+                if (segment) segments.push(segment);
+            }
+        }
+    }
+
+    return segments;
+}
+
+/**
+ * Attach each segment's free-text answers to open-ended questions.
+ *
+ * Aggregate data has no per-segment text, so answers are collected from the
+ * participants matching each segment's attributes. Segments whose members
+ * wrote fewer than `minResponses` answers to a question get no response for it.
+ */
+export function attachOpenEndedResponses(
+    surveyData: DTEFSurveyData,
+    individualData: DTEFIndividualData,
+    minResponses: number = 1,
+): DTEFSurveyData {
+    const openEndedIds = Object.entries(surveyData.questions)
+        .filter(([, q]) => q.type === 'open-ended')
+        .map(([qId]) => qId);
+    if (openEndedIds.length === 0) return surveyData;
+
+    const segments = surveyData.segments.map(seg => {
+        const members = individualData.participants.filter(p => p.textResponses && matchesAttributes(p, seg.attributes));
+        const openResponses: DemographicResponse[] = [];
+
+        for (const questionId of openEndedIds) {
+            const textResponses = members
+                .map(p => p.textResponses![questionId]?.trim())
+                .filter((t): t is string => !!t);
+            if (textResponses.length < minResponses) continue;
+            openResponses.push({ questionId, distribution: [], textResponses });
+        }
+
+        return {
+            ...seg,
+            responses: [...seg.responses.filter(r => !openEndedIds.includes(r.questionId)), ...openResponses],
+        };
+    });
+
+    return { ...surveyData, segments };
+}
+
+/**
+ * Attach each segment's rank matrices for ranking questions.
+ *
+ * Aggregate data only has one share per option, so the option × rank matrix
+ * is built from the participants matching each segment's attributes.
+ * Segments with no ranked answers to a question keep their aggregate response
+ * without a matrix, and blueprint generation skips them.
+ */
+export function attachRankDistributions(
+    surveyData: DTEFSurveyData,
+    individualData: DTEFIndividualData,
+): DTEFSurveyData {
+    const rankingIds = Object.entries(surveyData.questions)
+        .filter(([, q]) => q.type === 'ranking')
+        .map(([qId]) => qId);
+    if (rankingIds.length === 0) return surveyData;
+
+    const segments = surveyData.segments.map(seg => {
+        const members = individualData.participants.filter(p => p.rankings && matchesAttributes(p, seg.attributes));
+        const ranked = new Map<string, DemographicResponse>();
+        for (const questionId of rankingIds) {
+            const response = aggregateParticipantRankings(members, questionId, surveyData.questions[questionId]);
+            if (response) ranked.set(questionId, response);
+        }
+        if (ranked.size === 0) return seg;
+
+        const responses = seg.responses.map(r => {
+            const response = ranked.get(r.questionId);
+            return response ? { ...r, rankDistribution: response.rankDistribution } : r;
+        });
+        for (const [questionId, response] of ranked) {
+            if (!seg.responses.some(r => r.questionId === questionId)) responses.push(response);
+        }
+        return { ...seg, responses };
+    });
+
+    return { ...surveyData, segments };
+}
@@ -7,6 +7,9 @@
  * Currently supports:
  * - Population Marginal: predicts the overall population distribution
  *   (ignoring demographics) for every segment
+ * - MRP: a ridge-penalised multinomial model on demographic attributes,
+ *   fitted to the individual-level answers of everyone outside the segment
+ *   and poststratified over the segment's own attribute mix
  *
  * Generated results flow through the normal aggregation pipeline without
  * any special handling — they're just WevalResults with a special model ID.
@@ -14,9 +17,12 @@
  * @module cli/services/baselineGeneratorService
  */
 
-import { DTEFSurveyData, SegmentWithResponses } from '@/types/dtef';
+import { DTEFSurveyData, DTEFIndividualData, DTEFParticipant, SegmentWithResponses } from '@/types/dtef';
+import { getPopulationWeight } from '@/lib/statisticalAnalysis';
 import { WevalResult, WevalConfig, WevalPromptConfig, LLMCoverageScores } from '@/types/shared';
-import { jsDivergenceSimilarity, normalize } from '@/point-functions/distribution_metric';
+import { jsDivergenceSimilarity, normalize, computeAllMetrics } from '@/point-functions/distribution_metric';
+import { multiSelectSimilarity } from '@/point-functions/multi_select_metric';
+import { matchesAttributes } from './adapters/individualAggregation';
 
 /** Baseline model IDs — used as modelId in generated results */
 export const BASELINE_MODEL_IDS = {
@@ -24,13 +30,27 @@ export const BASELINE_MODEL_IDS = {
     UNIFORM: 'baseline:uniform',
     RANDOM_DIRICHLET: 'baseline:random-dirichlet',
     SHUFFLED: 'baseline:shuffled-null',
+    MRP: 'baseline:mrp',
 } as const;
 
-export type BaselineType = 'population-marginal' | 'uniform' | 'random-dirichlet' | 'shuffled';
+export type BaselineType = 'population-marginal' | 'uniform' | 'random-dirichlet' | 'shuffled' | 'mrp';
+
+/** Options for the MRP baseline */
+export interface MrpBaselineOptions {
+    /** Ridge penalty on attribute coefficients, in units of participant weight (default: 1) */
+    l2?: number;
+    /** Maximum Newton iterations for the fit to all participants (default: 100) */
+    maxIterations?: number;
+    /** Maximum Newton iterations for each leave-one-segment-out refit, warm-started from the full fit (default: 5) */
+    maxRefitIterations?: number;
+    /** Stop once the largest coefficient step is this small relative to the largest coefficient (default: 1e-6) */
+    tolerance?: number;
+}
 
 /**
  * Compute the population-marginal distribution for each question:
- * weighted average of all segment distributions, weighted by sample size.
+ * weighted average of all segment distributions, weighted by each
+ * segment's summed survey weight (or sample size when unweighted).
  */
 function computePopulationMarginals(
     surveyData: DTEFSurveyData,
@@ -45,9 +65,9 @@ function computePopulationMarginals(
                 marginals.set(resp.questionId, entry);
             }
             for (let i = 0; i < resp.distribution.length; i++) {
-                entry.weightedSum[i] += resp.distribution[i] * segment.sampleSize;
+                entry.weightedSum[i] += resp.distribution[i] * getPopulationWeight(segment);
             }
-            entry.totalWeight += segment.sampleSize;
+            entry.totalWeight += getPopulationWeight(segment);
         }
     }
 
@@ -77,16 +97,319 @@ function sampleDirichlet(k: number): number[] {
 /**
  * Compute the mean Dirichlet baseline score for a segment-question pair.
  * Samples N random distributions and averages their JSD similarity to ground truth.
+ * Multi-select shares are independent, so each is drawn uniformly from 0-100 instead.
  */
-function dirichletMeanScore(groundTruth: number[], nSamples: number = 100): number {
+function dirichletMeanScore(groundTruth: number[], nSamples: number = 100, multiSelect: boolean = false): number {
     let total = 0;
     for (let i = 0; i < nSamples; i++) {
-        const sample = sampleDirichlet(groundTruth.length);
-        total += jsDivergenceSimilarity(sample, groundTruth);
+        if (multiSelect) {
+            total += multiSelectSimilarity(groundTruth.map(() => Math.random() * 100), groundTruth);
+        } else {
+            total += jsDivergenceSimilarity(sampleDirichlet(groundTruth.length), groundTruth);
+        }
     }
     return total / nSamples;
 }
 
+// ── MRP baseline ────────────────────────────────────────────────────────────
+
+/** Participants who share every attribute value, with their weighted answers to one question */
+export interface AttributeCell {
+    participants: DTEFParticipant[];
+    /** Indices of the cell's one-hot attribute features */
+    features: number[];
+    /** Weighted answer counts per option */
+    counts: number[];
+    weight: number;
+}
+
+export interface MultinomialFit {
+    intercept: number[];
+    /** Feature-major coefficients: coef[f * K + k] */
+    coef: Float64Array;
+    /** Newton steps taken */
+    iterations: number;
+}
+
+function attributeFeatureKey(attribute: string, value: string): string {
+    return `${attribute}=${value.toLowerCase()}`;
+}
+
+/**
+ * Group the participants who answered a single-select question into cells
+ * of identical attributes, registering each attribute value as a feature.
+ */
+export function buildAttributeCells(
+    participants: DTEFParticipant[],
+    questionId: string,
+    optionCount: number,
+    featureIndex: Map<string, number>,
+): AttributeCell[] {
+    const cells = new Map<string, AttributeCell>();
+    for (const p of participants) {
+        const answer = p.responses.find(r => r.questionId === questionId);
+        if (!answer || answer.selectedIndex < 0 || answer.selectedIndex >= optionCount) continue;
+
+        const keys = Object.entries(p.attributes)
+            .filter(([, value]) => value)
+            .map(([attribute, value]) => attributeFeatureKey(attribute, value))
+            .sort();
+        const cellKey = keys.join('|');
+        let cell = cells.get(cellKey);
+        if (!cell) {
+            const features = keys.map(key => {
+                if (!featureIndex.has(key)) featureIndex.set(key, featureIndex.size);
+                return featureIndex.get(key)!;
+            });
+            cell = { participants: [], features, counts: new Array(optionCount).fill(0), weight: 0 };
+            cells.set(cellKey, cell);
+        }
+        const w = p.weight ?? 1;
+        cell.participants.push(p);
+        cell.counts[answer.selectedIndex] += w;
+        cell.weight += w;
+    }
+    return Array.from(cells.values());
+}
+
+function softmaxInto(eta: Float64Array, out: Float64Array): void {
+    let max = -Infinity;
+    for (let j = 0; j < eta.length; j++) max = Math.max(max, eta[j]);
+    let sum = 0;
+    for (let j = 0; j < eta.length; j++) {
+        out[j] = Math.exp(eta[j] - max);
+        sum += out[j];
+    }
+    for (let j = 0; j < eta.length; j++) out[j] /= sum;
+}
+
+function cellProbabilities(cell: AttributeCell, fit: MultinomialFit, k: number): number[] {
+    const eta = Float64Array.from(fit.intercept);
+    for (const f of cell.features) {
+        for (let j = 0; j < k; j++) eta[j] += fit.coef[f * k + j];
+    }
+    const p = new Float64Array(k);
+    softmaxInto(eta, p);
+    return Array.from(p);
+}
+
+/**
+ * Solve `a x = b` for a symmetric positive-definite `a` (row-major, n × n)
+ * by Cholesky decomposition; `a` is overwritten with its factor.
+ */
+function solvePositiveDefinite(a: Float64Array, b: Float64Array): Float64Array {
+    const n = b.length;
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j <= i; j++) {
+            let sum = a[i * n + j];
+            for (let m = 0; m < j; m++) sum -= a[i * n + m] * a[j * n + m];
+            a[i * n + j] = i === j ? Math.sqrt(Math.max(sum, 1e-12)) : sum / a[j * n + j];
+        }
+    }
+    const x = Float64Array.from(b);
+    for (let i = 0; i < n; i++) {
+        for (let m = 0; m < i; m++) x[i] -= a[i * n + m] * x[m];
+        x[i] /= a[i * n + i];
+    }
+    for (let i = n - 1; i >= 0; i--) {
+        for (let m = i + 1; m < n; m++) x[i] -= a[m * n + i] * x[m];
+        x[i] /= a[i * n + i];
+    }
+    return x;
+}
+
+/**
+ * Fit a main-effects multinomial logit with a ridge penalty on the attribute
+ * coefficients (intercepts unpenalised) by Newton's method (IRLS), halving
+ * each step until the penalised likelihood improves. Cell linear predictors
+ * are cached and moved with each step. Iterations stop once the largest
+ * step is below `tolerance` relative to the largest coefficient.
+ *
+ * `start` warm-starts the fit, e.g. a leave-one-out fit from the full-data
+ * fit. Attribute values absent from the training cells are not fitted and
+ * keep a zero coefficient, i.e. the penalty's prior, whatever the start.
+ */
+export function fitMultinomialLogit(
+    cells: AttributeCell[],
+    k: number,
+    featureCount: number,
+    l2: number,
+    maxIterations: number,
+    tolerance: number,
+    start?: MultinomialFit,
+): MultinomialFit {
+    const fit: MultinomialFit = {
+        intercept: start ? start.intercept.slice() : new Array(k).fill(0),
+        coef: new Float64Array(featureCount * k),
+        iterations: 0,
+    };
+
+    // Parameter blocks of K coefficients: block 0 is the intercept, then each attribute value seen in training
+    const blockOfFeature = new Map<number, number>();
+    for (const cell of cells) {
+        for (const f of cell.features) {
+            if (blockOfFeature.has(f)) continue;
+            blockOfFeature.set(f, blockOfFeature.size + 1);
+            if (start) fit.coef.set(start.coef.subarray(f * k, (f + 1) * k), f * k);
+        }
+    }
+    const cellBlocks = cells.map(cell => [0, ...cell.features.map(f => blockOfFeature.get(f)!)]);
+    const blockValues = [fit.intercept, ...Array.from(blockOfFeature.keys(), f => fit.coef.subarray(f * k, (f + 1) * k))];
+    const n = blockValues.length * k;
+
+    const etas = cells.map((_, c) => {
+        const eta = new Float64Array(k);
+        for (const b of cellBlocks[c]) {
+            for (let j = 0; j < k; j++) eta[j] += blockValues[b][j];
+        }
+        return eta;
+    });
+    const probs = cells.map(() => new Float64Array(k));
+    const trialEta = new Float64Array(k);
+
+    /** Penalised log-likelihood with every coefficient moved by `scale * step`, leaving the probabilities in `out` */
+    const objective = (step: Float64Array | null, scale: number, out: Float64Array[]) => {
+        let total = 0;
+        cells.forEach((cell, c) => {
+            trialEta.set(etas[c]);
+            if (step) {
+                for (const b of cellBlocks[c]) {
+                    for (let j = 0; j < k; j++) trialEta[j] += scale * step[b * k + j];
+                }
+            }
+            softmaxInto(trialEta, out[c]);
+            for (let j = 0; j < k; j++) {
+                if (cell.counts[j] > 0) total += cell.counts[j] * Math.log(out[c][j]);
+            }
+        });
+        for (let b = 1; b < blockValues.length; b++) {
+            for (let j = 0; j < k; j++) {
+                const value = blockValues[b][j] + (step ? scale * step[b * k + j] : 0);
+                total -= (l2 / 2) * value * value;
+            }
+        }
+        return total;
+    };
+
+    const trialProbs = cells.map(() => new Float64Array(k));
+    let current = objective(null, 0, probs);
+    const totalWeight = cells.reduce((sum, cell) => sum + cell.weight, 0);
+
+    for (let iter = 0; iter < maxIterations; iter++) {
+        const gradient = new Float64Array(n);
+        const hessian = new Float64Array(n * n);
+        cells.forEach((cell, c) => {
+            const p = probs[c];
+            const blocks = cellBlocks[c];
+            for (const a of blocks) {
+                for (let j = 0; j < k; j++) {
+                    gradient[a * k + j] += cell.counts[j] - cell.weight * p[j];
+                    for (const b of blocks) {
+                        if (b > a) continue;
+                        for (let m = 0; m < k; m++) {
+                            hessian[(a * k + j) * n + b * k + m] += cell.weight * ((j === m ? p[j] : 0) - p[j] * p[m]);
+                        }
+                    }
+                }
+            }
+        });
+        // Softmax is unchanged by shifting all K coefficients of a block, so the
+        // unpenalised intercept block is singular along that direction. Its gradient
+        // is orthogonal to it, and the extra curvature pins the step there to zero.
+        for (let j = 0; j < k; j++) {
+            for (let m = 0; m < k; m++) hessian[j * n + m] += totalWeight / k;
+        }
+        for (let b = 1; b < blockValues.length; b++) {
+            for (let j = 0; j < k; j++) {
+                gradient[b * k + j] -= l2 * blockValues[b][j];
+                hessian[(b * k + j) * n + b * k + j] += l2;
+            }
+        }
+        const step = solvePositiveDefinite(hessian, gradient);
+
+        let scale = 1;
+        let next = objective(step, scale, trialProbs);
+        // Near the optimum the gain is below rounding error, so allow for it
+        const improves = () => next >= current - 1e-12 * Math.abs(current);
+        while (!improves() && scale > 1e-6) {
+            scale /= 2;
+            next = objective(step, scale, trialProbs);
+        }
+        if (!improves()) break;
+
+        let largestStep = 0;
+        let largestCoefficient = 0;
+        blockValues.forEach((values, b) => {
+            for (let j = 0; j < k; j++) {
+                values[j] += scale * step[b * k + j];
+                largestStep = Math.max(largestStep, Math.abs(scale * step[b * k + j]));
+                largestCoefficient = Math.max(largestCoefficient, Math.abs(values[j]));
+            }
+        });
+        cells.forEach((_, c) => {
+            for (const b of cellBlocks[c]) {
+                for (let j = 0; j < k; j++) etas[c][j] += scale * step[b * k + j];
+            }
+            probs[c].set(trialProbs[c]);
+        });
+        current = next;
+        fit.iterations++;
+        if (largestStep <= tolerance * Math.max(1, largestCoefficient)) break;
+    }
+    return fit;
+}
+
+/**
+ * Leave-one-segment-out MRP predictions: for each segment and single-select
+ * question, fit the model on every participant outside the segment, then
+ * average its predictions over the segment's own members (weighted), so
+ * the segment's attribute mix is used but never its answers. Segments
+ * without individual-level members get no prediction.
+ *
+ * Each held-out fit starts from the fit to all participants, which is
+ * usually a couple of Newton steps away from the held-out optimum, and is
+ * capped at `maxRefitIterations` steps.
+ *
+ * @returns segmentId → questionId → predicted percentages
+ */
+export function computeMrpPredictions(
+    surveyData: DTEFSurveyData,
+    individualData: DTEFIndividualData,
+    options: MrpBaselineOptions = {},
+): Map<string, Map<string, number[]>> {
+    const l2 = options.l2 ?? 1;
+    const maxIterations = options.maxIterations ?? 100;
+    const maxRefitIterations = options.maxRefitIterations ?? 5;
+    const tolerance = options.tolerance ?? 1e-6;
+    const predictions = new Map<string, Map<string, number[]>>(surveyData.segments.map(s => [s.id, new Map()]));
+
+    for (const [questionId, question] of Object.entries(surveyData.questions)) {
+        if (question.type !== 'single-select' || !question.options?.length) continue;
+        const k = question.options.length;
+        const featureIndex = new Map<string, number>();
+        const cells = buildAttributeCells(individualData.participants, questionId, k, featureIndex);
+        if (cells.length === 0) continue;
+
+        const fullFit = fitMultinomialLogit(cells, k, featureIndex.size, l2, maxIterations, tolerance);
+
+        for (const segment of surveyData.segments) {
+            const inSegment = (cell: AttributeCell) => matchesAttributes(cell.participants[0], segment.attributes);
+            const heldOut = cells.filter(inSegment);
+            const training = cells.filter(cell => !inSegment(cell));
+            const heldOutWeight = heldOut.reduce((sum, cell) => sum + cell.weight, 0);
+            if (heldOutWeight === 0 || training.length === 0) continue;
+
+            const fit = fitMultinomialLogit(training, k, featureIndex.size, l2, maxRefitIterations, tolerance, fullFit);
+            const predicted = new Array(k).fill(0);
+            for (const cell of heldOut) {
+                cellProbabilities(cell, fit, k).forEach((p, j) => { predicted[j] += p * cell.weight; });
+            }
+            predictions.get(segment.id)!.set(questionId, predicted.map(v => (v / heldOutWeight) * 100));
+        }
+    }
+    return predictions;
+}
+
 /**
  * Generate a synthetic WevalResult for a baseline predictor on a single segment.
  *
@@ -102,6 +425,7 @@ function generateBaselineResult(
     marginals: Map<string, number[]>,
     contextCount: number = 0,
     allSegments?: SegmentWithResponses[],
+    mrpPredictions?: Map<string, number[]>,
 ): WevalResult {
     const modelId = baselineType === 'population-marginal'
         ? BASELINE_MODEL_IDS.POPULATION_MARGINAL
@@ -109,6 +433,8 @@ function generateBaselineResult(
         ? BASELINE_MODEL_IDS.RANDOM_DIRICHLET
         : baselineType === 'shuffled'
         ? BASELINE_MODEL_IDS.SHUFFLED
+        : baselineType === 'mrp'
+        ? BASELINE_MODEL_IDS.MRP
         : BASELINE_MODEL_IDS.UNIFORM;
 
     const ctxSuffix = contextCount > 0 ? `-c${contextCount}` : '';
@@ -124,22 +450,40 @@ function generateBaselineResult(
 
     for (const resp of segment.responses) {
         const question = surveyData.questions[resp.questionId];
-        if (!question) continue;
+        // Ranking questions are scored on rank matrices and open-ended ones on free text,
+        // neither of which these predictors produce
+        if (!question || question.type === 'ranking' || question.type === 'open-ended') continue;
 
         const promptId = `${resp.questionId}-${segment.id}`;
+        // Score the same way the blueprint point function for this question type does
+        const multiSelect = question.type === 'multi-select';
+        const similarity = multiSelect ? multiSelectSimilarity : jsDivergenceSimilarity;
+        const allMetrics = (prediction: number[]) => multiSelect
+            ? undefined
+            : computeAllMetrics(prediction, resp.distribution, { ordinalPositions: question.ordinalPositions });
 
         // Compute baseline prediction and score
         let prediction: number[];
         let score: number;
+        // Every metric, for predictors that make a single concrete prediction
+        let metrics: Record<string, number> | undefined;
 
         if (baselineType === 'population-marginal') {
             const marginal = marginals.get(resp.questionId);
             if (!marginal) continue;
             prediction = marginal;
-            score = jsDivergenceSimilarity(prediction, resp.distribution);
+            score = similarity(prediction, resp.distribution);
+            metrics = allMetrics(prediction);
+        } else if (baselineType === 'mrp') {
+            // Single-select questions answered by the segment's individuals only
+            const predicted = mrpPredictions?.get(resp.questionId);
+            if (!predicted) continue;
+            prediction = predicted;
+            score = similarity(prediction, resp.distribution);
+            metrics = allMetrics(prediction);
         } else if (baselineType === 'random-dirichlet') {
             // Mean score from N random Dirichlet samples
-            score = dirichletMeanScore(resp.distribution, 100);
+            score = dirichletMeanScore(resp.distribution, 100, multiSelect);
             // Use uniform as the "prediction" for display
             const k = resp.distribution.length;
             prediction = new Array(k).fill(100 / k);
@@ -169,7 +513,7 @@ function generateBaselineResult(
                 for (const other of otherSegments) {
                     const otherResp = other.responses.find(r => r.questionId === resp.questionId);
                     if (!otherResp) continue;
-                    totalSim += jsDivergenceSimilarity(otherResp.distribution, resp.distribution);
+                    totalSim += similarity(otherResp.distribution, resp.distribution);
                     count++;
                 }
                 score = count > 0 ? totalSim / count : 0;
@@ -178,10 +522,11 @@ function generateBaselineResult(
                 prediction = marginal || new Array(resp.distribution.length).fill(100 / resp.distribution.length);
             }
         } else {
-            // Uniform baseline
+            // Uniform baseline (for multi-select, a 50% chance of selecting each option)
             const k = resp.distribution.length;
-            prediction = new Array(k).fill(100 / k);
-            score = jsDivergenceSimilarity(prediction, resp.distribution);
+            prediction = new Array(k).fill(multiSelect ? 50 : 100 / k);
+            score = similarity(prediction, resp.distribution);
+            metrics = allMetrics(prediction);
         }
 
         // Create prompt config
@@ -189,14 +534,21 @@ function generateBaselineResult(
             id: promptId,
             description: `Baseline: ${segment.label} → "${question.text}"`,
             promptText: `[baseline predictor — ${baselineType}]`,
-            points: [{
-                text: `Distribution Similarity: "${question.text.slice(0, 60)}..."`,
-                fn: 'distribution_metric',
-                fnArgs: {
-                    expected: resp.distribution,
-                    metric: 'js-divergence',
-                },
-            }],
+            points: [multiSelect
+                ? {
+                    text: `Selection Share Similarity: "${question.text.slice(0, 60)}..."`,
+                    fn: 'multi_select_metric',
+                    fnArgs: { expected: resp.distribution },
+                }
+                : {
+                    text: `Distribution Similarity: "${question.text.slice(0, 60)}..."`,
+                    fn: 'distribution_metric',
+                    fnArgs: {
+                        expected: resp.distribution,
+                        metric: 'js-divergence',
+                        ...(question.ordinalPositions ? { ordinalPositions: question.ordinalPositions } : {}),
+                    },
+                }],
         });
 
         // Create synthetic coverage score
@@ -209,6 +561,7 @@ function generateBaselineResult(
                     coverageExtent: score,
                     reflection: `Baseline ${baselineType} prediction: [${prediction.map(n => n.toFixed(1)).join(', ')}]`,
                     evaluationType: 'computational',
+                    ...(metrics ? { metrics } : {}),
                 }],
             },
         };
@@ -222,6 +575,7 @@ function generateBaselineResult(
     // Build ground truth distributions map
     const groundTruthDistributions: Record<string, number[]> = {};
     for (const resp of segment.responses) {
+        if (resp.distribution.length === 0) continue; // open-ended
         groundTruthDistributions[resp.questionId] = resp.distribution;
     }
 
@@ -270,14 +624,25 @@ function generateBaselineResult(
 
 /**
  * Generate baseline results for all segments in a survey.
+ * The MRP baseline needs individual-level data; segments it cannot
+ * predict any question for are left out.
  */
 export function generateBaselineResults(
     surveyData: DTEFSurveyData,
     baselineType: BaselineType = 'population-marginal',
+    options?: { individualData?: DTEFIndividualData; mrp?: MrpBaselineOptions },
 ): WevalResult[] {
     const marginals = computePopulationMarginals(surveyData);
     const results: WevalResult[] = [];
 
+    let mrpPredictions: Map<string, Map<string, number[]>> | undefined;
+    if (baselineType === 'mrp') {
+        if (!options?.individualData) {
+            throw new Error('The mrp baseline needs individual-level data');
+        }
+        mrpPredictions = computeMrpPredictions(surveyData, options.individualData, options.mrp);
+    }
+
     for (const segment of surveyData.segments) {
         const result = generateBaselineResult(
             surveyData,
@@ -286,7 +651,9 @@ export function generateBaselineResults(
             marginals,
             0,
             surveyData.segments,
+            mrpPredictions?.get(segment.id),
         );
+        if (baselineType === 'mrp' && result.promptIds.length === 0) continue;
         results.push(result);
     }
 
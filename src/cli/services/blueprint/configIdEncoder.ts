@@ -4,12 +4,15 @@
  * Encodes blueprint parameters into a deterministic configId string.
  * Backward-compatible: default parameters produce the same configId as legacy code.
  *
- * Format: dtef-{surveyId}-{segmentId}[-c{N}][-narrative|-rawsurvey|-interview|-firstperson][-shift|-synth|-indiv][-cot][-b{N}]
+ * Format: dtef-{surveyId}-{segmentId}[-c{N}[-sim|-corr|-rand{seed}]][-narrative|-rawsurvey|-interview|-firstperson|-fewshot{K}[-rand{seed}]][-shift|-synth|-indiv|-open|-own][-cot][-tpl-{name}-v{version}][-para{P}][-ord{O}][-b{N}]
  *
  * @module cli/services/blueprint/configIdEncoder
  */
 
-import { DTEFEvalType, DTEFContextFormat, DTEFReasoningMode } from '@/types/dtef';
+import { DTEFEvalType, DTEFContextFormat, DTEFContextSelection, DTEFFewShotSelection, DTEFQuestionVariant, DTEFReasoningMode } from '@/types/dtef';
+import { DEFAULT_CONTEXT_SELECTION_SEED } from './contextSelection';
+import { DEFAULT_FEW_SHOT_COUNT, DEFAULT_FEW_SHOT_SEED } from './fewShotSegments';
+import { DEFAULT_PROMPT_TEMPLATE_NAME } from './promptTemplates';
 
 export interface ConfigIdParts {
     surveyId: string;
@@ -21,19 +24,47 @@ export interface ConfigIdParts {
     batchSize?: number;
     /** For synthetic-individual: N value (only included in configId when non-default, i.e. != 20) */
     syntheticN?: number;
+    /** How context questions were chosen (only included in configId when non-default and N>0) */
+    contextSelection?: DTEFContextSelection;
+    /** Seed for random context selection */
+    contextSelectionSeed?: number;
+    /** For few-shot-segments: number of other segments shown per question */
+    fewShotCount?: number;
+    /** For few-shot-segments: how those segments were picked */
+    fewShotSelection?: DTEFFewShotSelection;
+    /** Seed for random few-shot selection */
+    fewShotSeed?: number;
+    /** Prompt template (only included in configId when not the default wording) */
+    promptTemplate?: { name: string; version: number };
+    /** Paraphrase and option order of the target questions (only included when not the original) */
+    questionVariant?: DTEFQuestionVariant;
 }
 
+const CONTEXT_SELECTION_SUFFIXES: Record<Exclude<DTEFContextSelection, 'order'>, string> = {
+    embedding: '-sim',
+    correlation: '-corr',
+    random: '-rand',
+};
+
 /**
  * Encode config parameters into a configId string.
  *
  * Backward-compatible encoding rules:
  * - Base: `dtef-{surveyId}-{segmentId}`
  * - Context: `-c{N}` for distribution-context with N>0, `-narrative` for narrative,
- *   `-rawsurvey`/`-interview`/`-firstperson` for individual formats.
+ *   `-rawsurvey`/`-interview`/`-firstperson` for individual formats,
+ *   `-fewshot{K}` for few-shot-segments (`-fewshot{K}-rand{seed}` with random selection).
  *   No suffix for attribute-label (default).
- * - Eval: `-shift` (existing), `-synth` for synthetic-individual, `-indiv` for individual-answer.
- *   No suffix for distribution (default).
+ * - Context selection: after `-c{N}`, `-sim` for embedding, `-corr` for
+ *   correlation, `-rand{seed}` for random. No suffix for order (default),
+ *   so context curves built with different strategies share their `-c0` point.
+ * - Eval: `-shift` (existing), `-synth` for synthetic-individual, `-indiv` for individual-answer,
+ *   `-open` for open-ended, `-own` for own-opinion. No suffix for distribution (default).
  * - Reasoning: `-cot` for cot. No suffix for standard (default).
+ * - Template: `-tpl-{name}-v{version}` for registry templates. No suffix for
+ *   the default wording, so wording ablations never overwrite default runs.
+ * - Question variant: `-para{P}` for paraphrase P, `-ord{O}` for option order O.
+ *   No suffix for the original wording and order.
  * - Batch: `-b{N}` always last.
  */
 export function encodeConfigId(parts: ConfigIdParts): string {
@@ -47,6 +78,11 @@ export function encodeConfigId(parts: ConfigIdParts): string {
         // Legacy behavior: -c{N} for N>0, no suffix for 0
         if (contextCount > 0) {
             id += `-c${contextCount}`;
+            const selection = parts.contextSelection || 'order';
+            if (selection !== 'order') {
+                id += CONTEXT_SELECTION_SUFFIXES[selection];
+                if (selection === 'random') id += `${parts.contextSelectionSeed ?? DEFAULT_CONTEXT_SELECTION_SEED}`;
+            }
         }
     } else if (contextFormat === 'narrative') {
         id += '-narrative';
@@ -56,6 +92,9 @@ export function encodeConfigId(parts: ConfigIdParts): string {
         id += '-interview';
     } else if (contextFormat === 'first-person') {
         id += '-firstperson';
+    } else if (contextFormat === 'few-shot-segments') {
+        id += `-fewshot${parts.fewShotCount ?? DEFAULT_FEW_SHOT_COUNT}`;
+        if (parts.fewShotSelection === 'random') id += `-rand${parts.fewShotSeed ?? DEFAULT_FEW_SHOT_SEED}`;
     }
 
     // Eval type suffix
@@ -70,6 +109,10 @@ export function encodeConfigId(parts: ConfigIdParts): string {
         }
     } else if (evalType === 'individual-answer') {
         id += '-indiv';
+    } else if (evalType === 'open-ended') {
+        id += '-open';
+    } else if (evalType === 'own-opinion') {
+        id += '-own';
     }
 
     // Reasoning mode suffix
@@ -78,6 +121,19 @@ export function encodeConfigId(parts: ConfigIdParts): string {
         id += '-cot';
     }
 
+    // Prompt template suffix
+    if (parts.promptTemplate && parts.promptTemplate.name !== DEFAULT_PROMPT_TEMPLATE_NAME) {
+        id += `-tpl-${parts.promptTemplate.name}-v${parts.promptTemplate.version}`;
+    }
+
+    // Question variant suffix
+    if (parts.questionVariant?.paraphraseIndex) {
+        id += `-para${parts.questionVariant.paraphraseIndex}`;
+    }
+    if (parts.questionVariant?.orderIndex) {
+        id += `-ord${parts.questionVariant.orderIndex}`;
+    }
+
     // Batch suffix (always last)
     if (parts.batchSize && parts.batchSize > 1) {
         id += `-b${parts.batchSize}`;
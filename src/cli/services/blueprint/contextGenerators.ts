@@ -19,6 +19,8 @@ import {
     DEFAULT_TOKEN_BUDGET,
 } from '@/cli/utils/tokenCounter';
 import { DEFAULT_SYSTEM_PROMPT } from './systemPromptGenerators';
+import { rankContextQuestions } from './contextSelection';
+import { selectDemonstrationSegments } from './fewShotSegments';
 
 export interface ContextResult {
     text: string;
@@ -61,6 +63,8 @@ export function buildAttributeLabel(segment: SegmentWithResponses): ContextResul
 /**
  * Distribution-context: demographics + other question distributions.
  * This is the existing full-context format extracted from demographicBlueprintService.
+ * Context questions are taken in the order given by the config's context
+ * selection strategy, relative to the target (or batched) questions.
  */
 export function buildDistributionContext(
     segment: SegmentWithResponses,
@@ -68,20 +72,22 @@ export function buildDistributionContext(
     targetQuestionId?: string,
     excludeQuestionIds?: string[],
 ): ContextResult | null {
-    const contextQuestionIds = config.contextQuestionIds;
-    if (!contextQuestionIds || contextQuestionIds.length === 0) return null;
+    if (!config.contextQuestionIds || config.contextQuestionIds.length === 0) return null;
 
     const tokenBudget = config.tokenBudget || DEFAULT_TOKEN_BUDGET;
     const systemPrompt = config.blueprintTemplate?.systemPrompt || DEFAULT_SYSTEM_PROMPT;
     const maxContextQuestions = config.contextQuestionCount;
 
-    const excludeSet = new Set(excludeQuestionIds || (targetQuestionId ? [targetQuestionId] : []));
+    const targetIds = excludeQuestionIds || (targetQuestionId ? [targetQuestionId] : []);
+    const excludeSet = new Set(targetIds);
+    const contextQuestionIds = rankContextQuestions(config, targetIds);
 
     const contextTexts: { questionId: string; text: string }[] = [];
     for (const qId of contextQuestionIds) {
         if (excludeSet.has(qId)) continue;
         const q = config.surveyData.questions[qId];
-        if (!q) continue;
+        // Open-ended answers have no distribution to show
+        if (!q || q.type === 'open-ended') continue;
         const resp = segment.responses.find(r => r.questionId === qId);
         if (!resp) continue;
 
@@ -90,7 +96,10 @@ export function buildDistributionContext(
             .join(', ');
         const distStr = resp.distribution.map(n => n.toFixed(1) + '%').join(', ');
 
-        const text = `Q: "${q.text}"\n  Response distribution: ${optionLines || distStr}\n`;
+        const label = q.type === 'multi-select' ? 'Share selecting each option'
+            : q.type === 'ranking' ? 'Share ranking each option first'
+            : 'Response distribution';
+        const text = `Q: "${q.text}"\n  ${label}: ${optionLines || distStr}\n`;
         contextTexts.push({ questionId: qId, text });
 
         if (maxContextQuestions !== undefined && contextTexts.length >= maxContextQuestions) break;
@@ -370,6 +379,59 @@ export function buildFirstPersonContext(
     };
 }
 
+/**
+ * Few-shot segments context: other segments' true distributions for the
+ * target question itself, as in a deployment where the national numbers
+ * and some groups are known. Segments are chosen by selectDemonstrationSegments,
+ * which never shows the target or a set that reveals it. Batched prompts
+ * get one block per question, labelled as in the question list.
+ */
+export function buildFewShotSegmentsContext(
+    segment: SegmentWithResponses,
+    config: DTEFBlueprintConfig,
+    targetQuestionId?: string,
+    excludeQuestionIds?: string[],
+): ContextResult | null {
+    const targetIds = excludeQuestionIds || (targetQuestionId ? [targetQuestionId] : []);
+    const batched = targetIds.length > 1;
+
+    const blocks: string[] = [];
+    targetIds.forEach((qId, idx) => {
+        const q = config.surveyData.questions[qId];
+        if (!q || q.type === 'open-ended') return;
+
+        const shareLabel = q.type === 'multi-select' ? ' (share selecting each option)'
+            : q.type === 'ranking' ? ' (share ranking each option first)'
+            : '';
+        const lines: string[] = [];
+        for (const other of selectDemonstrationSegments(config, segment, qId)) {
+            const resp = other.responses.find(r => r.questionId === qId)!;
+            const attributes = Object.entries(other.attributes)
+                .map(([key, value]) => `${formatAttributeKey(key)}: ${value}`)
+                .join(', ');
+            const options = (q.options || []).map((opt, i) =>
+                `  ${String.fromCharCode(97 + i)}. ${opt}: ${resp.distribution[i]?.toFixed(1) ?? '?'}%`,
+            );
+            lines.push(`- ${attributes} (sample size: ${other.sampleSize})${shareLabel}\n${options.join('\n')}\n`);
+        }
+        if (lines.length === 0) return;
+
+        const heading = batched ? `Q${idx + 1}: "${q.text}"\n` : '';
+        blocks.push(heading + lines.join(''));
+    });
+
+    if (blocks.length === 0) return null;
+
+    const intro = batched
+        ? `How other demographic groups answered the survey questions below:\n`
+        : `How other demographic groups answered the survey question below:\n`;
+    return {
+        text: `${intro}${blocks.join('\n')}\n`,
+        contextQuestionCount: 0,
+        contextQuestionIds: [],
+    };
+}
+
 /**
  * Get the appropriate context builder for a given context format.
  */
@@ -395,6 +457,8 @@ export function getContextBuilder(
             return buildInterviewContext(individual ?? null, config, targetQuestionId);
         case 'first-person':
             return buildFirstPersonContext(individual ?? null, config, targetQuestionId);
+        case 'few-shot-segments':
+            return buildFewShotSegmentsContext(segment, config, targetQuestionId, excludeQuestionIds);
         default:
             return null;
     }
@@ -0,0 +1,171 @@
+/**
+ * Context Question Selection for DTEF Blueprints
+ *
+ * Ranks candidate context questions by relevance to the target question, so
+ * a distribution-context prompt at `-c{N}` carries the N most relevant
+ * questions under the chosen strategy rather than the first N listed.
+ *
+ * @module cli/services/blueprint/contextSelection
+ */
+
+import { DTEFBlueprintConfig, DTEFContextSelection, DTEFSurveyData } from '@/types/dtef';
+import { pearsonCorrelation, vectorCosine } from '@/lib/statisticalAnalysis';
+import { seededShuffle } from './seededSampling';
+
+/** targetQuestionId → contextQuestionId → relevance, higher first */
+export type ContextRelevance = Record<string, Record<string, number>>;
+
+/** Seed for 'random' selection when none is given */
+export const DEFAULT_CONTEXT_SELECTION_SEED = 1;
+
+/** Segments that need to have answered both questions before a correlation counts */
+const MIN_SHARED_SEGMENTS = 3;
+
+/**
+ * Correlation relevance from the survey data. Over the segments that
+ * answered both questions, each target option is matched with the
+ * candidate option whose share tracks it most closely (largest |r|); the
+ * candidate's relevance is the mean of those |r| over the target's options.
+ */
+export function computeCorrelationRelevance(
+    surveyData: DTEFSurveyData,
+    targetQuestionIds: string[],
+    candidateQuestionIds: string[],
+): ContextRelevance {
+    // questionId → segmentId → distribution
+    const byQuestion = new Map<string, Map<string, number[]>>();
+    for (const segment of surveyData.segments) {
+        for (const resp of segment.responses) {
+            if (resp.distribution.length === 0) continue;
+            if (!byQuestion.has(resp.questionId)) byQuestion.set(resp.questionId, new Map());
+            byQuestion.get(resp.questionId)!.set(segment.id, resp.distribution);
+        }
+    }
+
+    const relevance: ContextRelevance = {};
+    for (const targetId of targetQuestionIds) {
+        const target = byQuestion.get(targetId);
+        const row: Record<string, number> = {};
+
+        for (const candidateId of candidateQuestionIds) {
+            if (candidateId === targetId) continue;
+            const candidate = byQuestion.get(candidateId);
+            const shared = target && candidate
+                ? Array.from(target.keys()).filter(segmentId => candidate.has(segmentId))
+                : [];
+            if (shared.length < MIN_SHARED_SEGMENTS) {
+                row[candidateId] = 0;
+                continue;
+            }
+
+            const optionShares = (dists: Map<string, number[]>) => {
+                const width = dists.get(shared[0])!.length;
+                return Array.from({ length: width }, (_, i) => shared.map(segmentId => dists.get(segmentId)![i] ?? 0));
+            };
+            const candidateShares = optionShares(candidate!);
+            const perOption = optionShares(target!).map(targetShare =>
+                Math.max(0, ...candidateShares.map(c => Math.abs(pearsonCorrelation(targetShare, c) ?? 0))),
+            );
+            row[candidateId] = perOption.reduce((a, b) => a + b, 0) / perOption.length;
+        }
+        relevance[targetId] = row;
+    }
+    return relevance;
+}
+
+/** Text embedded for a question: its wording followed by its options */
+function questionEmbeddingText(question: DTEFSurveyData['questions'][string]): string {
+    return [question.text, ...(question.options || [])].join('\n');
+}
+
+/**
+ * Embedding relevance: cosine similarity between the embedded text of the
+ * target and candidate questions. Each question is embedded once.
+ */
+export async function computeEmbeddingRelevance(
+    surveyData: DTEFSurveyData,
+    targetQuestionIds: string[],
+    candidateQuestionIds: string[],
+    embed: (text: string) => Promise<number[]>,
+): Promise<ContextRelevance> {
+    const embeddings = new Map<string, number[]>();
+    for (const questionId of new Set([...targetQuestionIds, ...candidateQuestionIds])) {
+        const question = surveyData.questions[questionId];
+        if (question) embeddings.set(questionId, await embed(questionEmbeddingText(question)));
+    }
+
+    const relevance: ContextRelevance = {};
+    for (const targetId of targetQuestionIds) {
+        const target = embeddings.get(targetId);
+        if (!target) continue;
+        const row: Record<string, number> = {};
+        for (const candidateId of candidateQuestionIds) {
+            const candidate = embeddings.get(candidateId);
+            if (candidateId === targetId || !candidate) continue;
+            row[candidateId] = vectorCosine(target, candidate);
+        }
+        relevance[targetId] = row;
+    }
+    return relevance;
+}
+
+/**
+ * Random relevance: an independent seeded shuffle of the candidates for
+ * each target, expressed as descending scores.
+ */
+export function computeRandomRelevance(
+    targetQuestionIds: string[],
+    candidateQuestionIds: string[],
+    seed: number,
+): ContextRelevance {
+    const relevance: ContextRelevance = {};
+    for (const targetId of targetQuestionIds) {
+        const shuffled = seededShuffle(candidateQuestionIds, `${seed}-${targetId}`);
+        relevance[targetId] = Object.fromEntries(shuffled.map((id, i) => [id, shuffled.length - i]));
+    }
+    return relevance;
+}
+
+/**
+ * Fill in `contextRelevance` for the config's selection strategy, once per
+ * generation run rather than per segment. Configs using 'order' selection
+ * or already carrying relevance are returned unchanged. Embedding relevance
+ * needs network calls, so it has to be computed before generation.
+ */
+export function withContextRelevance(config: DTEFBlueprintConfig): DTEFBlueprintConfig {
+    const selection: DTEFContextSelection = config.contextSelection || 'order';
+    const candidates = config.contextQuestionIds;
+    if (selection === 'order' || config.contextRelevance || !candidates?.length) return config;
+
+    if (selection === 'embedding') {
+        throw new Error('Embedding context selection needs contextRelevance; compute it with computeEmbeddingRelevance before generating');
+    }
+
+    const contextRelevance = selection === 'correlation'
+        ? computeCorrelationRelevance(config.surveyData, config.targetQuestionIds, candidates)
+        : computeRandomRelevance(config.targetQuestionIds, candidates, config.contextSelectionSeed ?? DEFAULT_CONTEXT_SELECTION_SEED);
+    return { ...config, contextRelevance };
+}
+
+/**
+ * The config's context questions, most relevant to the given targets first.
+ * With several targets (a batched prompt) relevance is averaged, so the
+ * batch shares one ordering. Ties and unscored questions keep their list
+ * order. Returned as listed for 'order' selection or without targets.
+ */
+export function rankContextQuestions(config: DTEFBlueprintConfig, targetQuestionIds: string[]): string[] {
+    const candidates = config.contextQuestionIds || [];
+    const relevance = config.contextRelevance;
+    if ((config.contextSelection || 'order') === 'order' || !relevance || targetQuestionIds.length === 0) {
+        return candidates;
+    }
+
+    const score = (candidateId: string) => {
+        const scores = targetQuestionIds.map(t => relevance[t]?.[candidateId] ?? 0);
+        return scores.reduce((a, b) => a + b, 0) / scores.length;
+    };
+    return candidates
+        .map((id, index) => ({ id, index, score: score(id) }))
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .map(c => c.id);
+}
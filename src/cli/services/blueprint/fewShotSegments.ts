@@ -0,0 +1,126 @@
+/**
+ * Demonstration Segment Selection for Few-Shot DTEF Prompts
+ *
+ * Picks the other segments whose true answers to the target question are
+ * shown in a few-shot-segments prompt. Selection is leak-safe: the target
+ * segment never appears, and neither does any set of segments from which
+ * its distribution could be reconstructed exactly.
+ *
+ * @module cli/services/blueprint/fewShotSegments
+ */
+
+import { DTEFBlueprintConfig, DTEFFewShotSelection, SegmentWithResponses } from '@/types/dtef';
+import { seededShuffle } from './seededSampling';
+
+/** Demonstration segments shown per question when fewShotCount is not set */
+export const DEFAULT_FEW_SHOT_COUNT = 5;
+
+/** Seed for 'random' few-shot selection when none is given */
+export const DEFAULT_FEW_SHOT_SEED = 1;
+
+type Attributes = Record<string, string>;
+
+/** Whether every attribute of `a` is present in `b` with the same value */
+function isSubset(a: Attributes, b: Attributes): boolean {
+    return Object.entries(a).every(([key, value]) => b[key] === value);
+}
+
+function keySignature(attributes: Attributes): string {
+    return Object.keys(attributes).sort().join('+');
+}
+
+/**
+ * Attribute similarity in [0, 1]: a shared attribute value counts 1, the
+ * same attribute with a different value counts 0.5, normalised by the
+ * number of attributes either segment has. "Age 18-25 + Female" is closer
+ * to "Age 18-25 + Male" than to "Country: Kenya".
+ */
+export function attributeSimilarity(a: Attributes, b: Attributes): number {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    if (keys.size === 0) return 0;
+    let score = 0;
+    for (const key of keys) {
+        if (!(key in a) || !(key in b)) continue;
+        score += a[key] === b[key] ? 1 : 0.5;
+    }
+    return score / keys.size;
+}
+
+/**
+ * Whether showing `shown` would give away the target's distribution. That
+ * happens when a parent of the target (a segment on a subset of its
+ * attributes, e.g. "Female" for "Age 18-25 + Female") is shown together
+ * with all of the target's siblings under it, or when every sub-segment of
+ * the target in one crossed category is shown. Either way the target is a
+ * sample-size-weighted difference or sum of what is shown.
+ */
+function revealsTarget(
+    target: SegmentWithResponses,
+    shown: Set<SegmentWithResponses>,
+    answered: SegmentWithResponses[],
+): boolean {
+    const targetSignature = keySignature(target.attributes);
+    const targetKeyCount = Object.keys(target.attributes).length;
+
+    for (const segment of shown) {
+        const keyCount = Object.keys(segment.attributes).length;
+        if (keyCount >= targetKeyCount || !isSubset(segment.attributes, target.attributes)) continue;
+
+        const siblings = answered.filter(s =>
+            s !== target
+            && keySignature(s.attributes) === targetSignature
+            && isSubset(segment.attributes, s.attributes),
+        );
+        if (siblings.every(s => shown.has(s))) return true;
+    }
+
+    const childrenBySignature = new Map<string, SegmentWithResponses[]>();
+    for (const s of answered) {
+        if (Object.keys(s.attributes).length <= targetKeyCount || !isSubset(target.attributes, s.attributes)) continue;
+        const signature = keySignature(s.attributes);
+        if (!childrenBySignature.has(signature)) childrenBySignature.set(signature, []);
+        childrenBySignature.get(signature)!.push(s);
+    }
+    for (const children of childrenBySignature.values()) {
+        if (children.every(s => shown.has(s))) return true;
+    }
+    return false;
+}
+
+/**
+ * The other segments to show for one target question, best first. Only
+ * segments that answered the question are eligible; segments with the same
+ * attributes as the target count as the target. Candidates that would make
+ * the shown set reveal the target are skipped.
+ */
+export function selectDemonstrationSegments(
+    config: DTEFBlueprintConfig,
+    target: SegmentWithResponses,
+    questionId: string,
+): SegmentWithResponses[] {
+    const count = config.fewShotCount ?? DEFAULT_FEW_SHOT_COUNT;
+    const selection: DTEFFewShotSelection = config.fewShotSelection || 'similar';
+
+    const answered = config.surveyData.segments.filter(s =>
+        s.responses.some(r => r.questionId === questionId && r.distribution.length > 0),
+    );
+    const candidates = answered.filter(s =>
+        s.id !== target.id
+        && !(isSubset(s.attributes, target.attributes) && isSubset(target.attributes, s.attributes)),
+    );
+
+    const ranked = selection === 'random'
+        ? seededShuffle(candidates, `${config.fewShotSeed ?? DEFAULT_FEW_SHOT_SEED}-${target.id}`)
+        : candidates
+            .map((segment, index) => ({ segment, index, similarity: attributeSimilarity(segment.attributes, target.attributes) }))
+            .sort((a, b) => b.similarity - a.similarity || b.segment.sampleSize - a.segment.sampleSize || a.index - b.index)
+            .map(c => c.segment);
+
+    const shown = new Set<SegmentWithResponses>();
+    for (const segment of ranked) {
+        if (shown.size >= count) break;
+        shown.add(segment);
+        if (revealsTarget(target, shown, answered)) shown.delete(segment);
+    }
+    return Array.from(shown);
+}
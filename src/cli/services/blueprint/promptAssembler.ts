@@ -2,7 +2,8 @@
  * Prompt Assembler for DTEF Blueprints
  *
  * Combines context blocks, target questions, and instruction suffixes
- * into final prompt text. Handles layout differences between eval types.
+ * into final prompt text. Handles layout differences between eval types;
+ * the wording itself comes from the prompt template's sections.
  *
  * @module cli/services/blueprint/promptAssembler
  */
@@ -12,9 +13,11 @@ import {
     DTEFEvalType,
     DTEFReasoningMode,
     DTEFParticipant,
+    DTEFPromptTemplate,
     SegmentWithResponses,
 } from '@/types/dtef';
 import { buildDemographicsHeader, formatAttributeKey, ContextResult } from './contextGenerators';
+import { renderAssemblerSection, TemplateVars } from './promptTemplates';
 
 export interface AssembledPrompt {
     text: string;
@@ -22,13 +25,111 @@ export interface AssembledPrompt {
     contextQuestionIds: string[];
 }
 
+/** Question fields the assembler reads */
+export interface PromptQuestion {
+    text: string;
+    type: string;
+    options?: string[];
+    rankCount?: number;
+}
+
+/**
+ * Question types that need their own templates, and the eval types that
+ * can prompt for them. Other types are treated as single-select.
+ */
+const QUESTION_TYPE_EVAL_SUPPORT: Record<string, DTEFEvalType[]> = {
+    'multi-select': ['distribution', 'shift'],
+    'ranking': ['distribution'],
+    'open-ended': ['open-ended'],
+};
+
+/** Number of answers an open-ended prompt asks the model to write */
+export const OPEN_ENDED_ANSWER_COUNT = 5;
+
+/**
+ * Whether an eval type can prompt for a question of the given type.
+ * Synthetic-individual and individual-answer prompts ask for one choice per
+ * respondent, which does not fit multi-select or ranking questions.
+ * Open-ended prompts ask for free text, so they only take open-ended questions.
+ * The own-opinion probe is compared with single-select predictions only.
+ */
+export function supportsQuestionType(evalType: DTEFEvalType, questionType: string): boolean {
+    if (evalType === 'open-ended') return questionType === 'open-ended';
+    if (evalType === 'own-opinion') return !QUESTION_TYPE_EVAL_SUPPORT[questionType];
+    const supported = QUESTION_TYPE_EVAL_SUPPORT[questionType];
+    return !supported || supported.includes(evalType);
+}
+
+function ordinal(n: number): string {
+    const suffix = n % 10 === 1 && n % 100 !== 11 ? 'st'
+        : n % 10 === 2 && n % 100 !== 12 ? 'nd'
+        : n % 10 === 3 && n % 100 !== 13 ? 'rd'
+        : 'th';
+    return `${n}${suffix}`;
+}
+
+/**
+ * Number of rank positions respondents filled for a ranking question.
+ */
+export function getRankCount(question: PromptQuestion): number {
+    return question.rankCount ?? question.options?.length ?? 0;
+}
+
+/**
+ * Target-question instruction for distribution-style prompts, by question type.
+ */
+function distributionInstruction(question: PromptQuestion, template?: DTEFPromptTemplate): string {
+    if (question.type === 'multi-select') {
+        return renderAssemblerSection(template, 'instruction.multi-select');
+    }
+    if (question.type === 'ranking') {
+        const k = getRankCount(question);
+        return renderAssemblerSection(template, 'instruction.ranking', {
+            rankCount: k,
+            lastRank: ordinal(k),
+            partial: k < (question.options?.length ?? 0),
+        });
+    }
+    return renderAssemblerSection(template, 'instruction.distribution');
+}
+
+/**
+ * One-line format hint for a question inside a batched prompt.
+ */
+function batchedQuestionHint(question: PromptQuestion, template?: DTEFPromptTemplate): string {
+    if (question.type === 'multi-select') {
+        return renderAssemblerSection(template, 'batched.hint.multi-select');
+    }
+    if (question.type === 'ranking') {
+        return renderAssemblerSection(template, 'batched.hint.ranking', { rankCount: getRankCount(question) });
+    }
+    return '';
+}
+
+/** Lettered options for the `question` section */
+function optionVars(options: string[]): TemplateVars[] {
+    return options.map((text, idx) => ({ letter: String.fromCharCode(97 + idx), text }));
+}
+
+function attributeVars(attributes: Record<string, string>): TemplateVars[] {
+    return Object.entries(attributes).map(([key, value]) => ({ key: formatAttributeKey(key), value }));
+}
+
+/** Survey question and its lettered answer options */
+function questionBlock(question: { text: string; options?: string[] }, template?: DTEFPromptTemplate): string {
+    return renderAssemblerSection(template, 'question', {
+        question: question.text,
+        options: optionVars(question.options || []),
+    });
+}
+
 /**
  * Assemble a complete prompt from components.
  */
 export function assemblePrompt(
     contextBlock: { text: string; contextQuestionCount: number; contextQuestionIds: string[] } | null,
     segment: SegmentWithResponses,
-    question: { text: string; type: string; options?: string[] },
+    question: PromptQuestion,
     targetQuestionId: string | undefined,
     evalType: DTEFEvalType = 'distribution',
     _reasoningMode: DTEFReasoningMode = 'standard',
@@ -37,10 +138,12 @@ export function assemblePrompt(
         suffix?: string;
         marginals?: Record<string, number[]>;
         syntheticN?: number;
+        template?: DTEFPromptTemplate;
     },
 ): AssembledPrompt {
     const prefix = options?.prefix || '';
     const suffix = options?.suffix || '';
+    const template = options?.template;
     const questionOptions = question.options || [];
 
     let corePrompt = '';
@@ -52,27 +155,14 @@ export function assemblePrompt(
     // For shift eval type, show population marginal first, then demographics
     if (evalType === 'shift' && options?.marginals && targetQuestionId && options.marginals[targetQuestionId]) {
         const marginal = options.marginals[targetQuestionId];
-        corePrompt += `The overall population responded to the following survey question as follows:\n\n`;
-        corePrompt += `"${question.text}"\n\n`;
-
-        if (questionOptions.length > 0) {
-            corePrompt += `Response distribution:\n`;
-            questionOptions.forEach((opt, idx) => {
-                const letter = String.fromCharCode(97 + idx);
-                const pct = marginal[idx]?.toFixed(1) ?? '?';
-                corePrompt += `  ${letter}. ${opt}: ${pct}%\n`;
-            });
-            corePrompt += '\n';
-        } else {
-            corePrompt += `Distribution: [${marginal.map(n => n.toFixed(1)).join(', ')}]\n\n`;
-        }
-
-        corePrompt += `How would you adjust this distribution for the following demographic group?\n`;
-        corePrompt += `(sample size: ${segment.sampleSize})\n`;
-        const attributeLines = Object.entries(segment.attributes)
-            .map(([key, value]) => `- ${formatAttributeKey(key)}: ${value}`)
-            .join('\n');
-        corePrompt += `${attributeLines}\n\n`;
+        corePrompt += renderAssemblerSection(template, 'shift.population', {
+            question: question.text,
+            options: optionVars(questionOptions).map((opt, idx) => ({ ...opt, share: marginal[idx]?.toFixed(1) ?? '?' })),
+            distribution: marginal.map(n => n.toFixed(1)).join(', '),
+            multiSelect: question.type === 'multi-select',
+            sampleSize: segment.sampleSize,
+            attributes: attributeVars(segment.attributes),
+        });
     } else {
         corePrompt += buildDemographicsHeader(segment) + '\n\n';
     }
@@ -85,42 +175,24 @@ export function assemblePrompt(
     // Add target question (shift type already included it above)
     if (evalType !== 'shift') {
         if (evalType === 'synthetic-individual') {
-            const n = options?.syntheticN || 20;
-            corePrompt += `Survey question:\n"${question.text}"\n\n`;
-            if (questionOptions.length > 0) {
-                corePrompt += `Answer options:\n`;
-                questionOptions.forEach((opt, idx) => {
-                    const letter = String.fromCharCode(97 + idx);
-                    corePrompt += `  ${letter}. ${opt}\n`;
-                });
-                corePrompt += '\n';
-            }
-            corePrompt += `Simulate ${n} individual members of this demographic group answering this question.`;
+            corePrompt += questionBlock(question, template);
+            corePrompt += renderAssemblerSection(template, 'instruction.synthetic-individual', { n: options?.syntheticN || 20 });
         } else if (evalType === 'individual-answer') {
-            corePrompt += `Survey question:\n"${question.text}"\n\n`;
-            if (questionOptions.length > 0) {
-                corePrompt += `Answer options:\n`;
-                questionOptions.forEach((opt, idx) => {
-                    const letter = String.fromCharCode(97 + idx);
-                    corePrompt += `  ${letter}. ${opt}\n`;
-                });
-                corePrompt += '\n';
-            }
-            corePrompt += `Predict the most likely answer for a member of this demographic group.`;
+            corePrompt += questionBlock(question, template);
+            corePrompt += renderAssemblerSection(template, 'instruction.individual-answer');
+        } else if (evalType === 'open-ended') {
+            corePrompt += renderAssemblerSection(template, 'open-ended', {
+                question: question.text,
+                answerCount: OPEN_ENDED_ANSWER_COUNT,
+            });
         } else {
-            corePrompt += `Survey question:\n"${question.text}"\n\n`;
-            if (questionOptions.length > 0) {
-                corePrompt += `Answer options:\n`;
-                questionOptions.forEach((opt, idx) => {
-                    const letter = String.fromCharCode(97 + idx);
-                    corePrompt += `  ${letter}. ${opt}\n`;
-                });
-                corePrompt += '\n';
-            }
-            corePrompt += `Predict the percentage distribution of responses for this demographic group across the answer options.`;
+            corePrompt += questionBlock(question, template);
+            corePrompt += distributionInstruction(question, template);
         }
+    } else if (question.type === 'multi-select') {
+        corePrompt += renderAssemblerSection(template, 'instruction.shift.multi-select');
     } else {
-        corePrompt += `Predict the adjusted percentage distribution for this demographic group.`;
+        corePrompt += renderAssemblerSection(template, 'instruction.shift');
     }
 
     if (suffix) {
@@ -136,7 +208,7 @@ export function assemblePrompt(
 
 export interface BatchedQuestionItem {
     questionId: string;
-    question: { text: string; type: string; options?: string[] };
+    question: PromptQuestion;
 }
 
 /**
@@ -154,10 +226,12 @@ export function assembleBatchedPrompt(
         suffix?: string;
         marginals?: Record<string, number[]>;
         syntheticN?: number;
+        template?: DTEFPromptTemplate;
     },
 ): AssembledPrompt {
     const prefix = options?.prefix || '';
     const suffix = options?.suffix || '';
+    const template = options?.template;
 
     let corePrompt = '';
 
@@ -165,6 +239,18 @@ export function assembleBatchedPrompt(
         corePrompt += `${prefix}\n\n`;
     }
 
+    const questionVars = (item: BatchedQuestionItem, idx: number, marginal?: number[]): TemplateVars => {
+        const itemOptions = item.question.options || [];
+        return {
+            label: `Q${idx + 1}`,
+            question: item.question.text,
+            optionList: itemOptions.map((opt, i) => `${String.fromCharCode(97 + i)}. ${opt}`).join(', '),
+            marginalList: marginal ? itemOptions.map((opt, i) => `${opt}: ${marginal[i]?.toFixed(1) ?? '?'}%`).join(', ') : '',
+            multiSelect: item.question.type === 'multi-select',
+            hint: batchedQuestionHint(item.question, template),
+        };
+    };
+
     // For shift eval type with marginals, show per-question marginals after demographics
     if (evalType === 'shift' && options?.marginals) {
         corePrompt += buildDemographicsHeader(segment) + '\n\n';
@@ -173,23 +259,13 @@ export function assembleBatchedPrompt(
             corePrompt += contextBlock.text;
         }
 
-        corePrompt += `The overall population responded to the following survey questions as shown below. `;
-        corePrompt += `Predict how this demographic group's response distributions DIFFER from the overall population.\n\n`;
+        corePrompt += renderAssemblerSection(template, 'batched.shift.intro');
 
         questions.forEach((item, idx) => {
-            const label = `Q${idx + 1}`;
-            const marginal = options.marginals![item.questionId];
-            corePrompt += `${label}: "${item.question.text}"\n`;
-            if (item.question.options && item.question.options.length > 0) {
-                corePrompt += `  Options: ${item.question.options.map((opt, i) => `${String.fromCharCode(97 + i)}. ${opt}`).join(', ')}\n`;
-                if (marginal) {
-                    corePrompt += `  Population distribution: ${item.question.options.map((opt, i) => `${opt}: ${marginal[i]?.toFixed(1) ?? '?'}%`).join(', ')}\n`;
-                }
-            }
-            corePrompt += '\n';
+            corePrompt += renderAssemblerSection(template, 'batched.question', questionVars(item, idx, options.marginals![item.questionId]));
         });
 
-        corePrompt += `Predict the adjusted percentage distributions for this demographic group.`;
+        corePrompt += renderAssemblerSection(template, 'batched.instruction.shift');
     } else {
         corePrompt += buildDemographicsHeader(segment) + '\n\n';
 
@@ -199,22 +275,16 @@ export function assembleBatchedPrompt(
 
         // Question list
         questions.forEach((item, idx) => {
-            const label = `Q${idx + 1}`;
-            corePrompt += `${label}: "${item.question.text}"\n`;
-            if (item.question.options && item.question.options.length > 0) {
-                corePrompt += `  Options: ${item.question.options.map((opt, i) => `${String.fromCharCode(97 + i)}. ${opt}`).join(', ')}\n`;
-            }
-            corePrompt += '\n';
+            corePrompt += renderAssemblerSection(template, 'batched.question', questionVars(item, idx));
         });
 
         // Eval-type-appropriate instruction
         if (evalType === 'synthetic-individual') {
-            const n = options?.syntheticN || 20;
-            corePrompt += `Simulate ${n} individual members of this demographic group answering each question.`;
+            corePrompt += renderAssemblerSection(template, 'batched.instruction.synthetic-individual', { n: options?.syntheticN || 20 });
         } else if (evalType === 'individual-answer') {
-            corePrompt += `Predict the most likely answer for a member of this demographic group for each question.`;
+            corePrompt += renderAssemblerSection(template, 'batched.instruction.individual-answer');
         } else {
-            corePrompt += `For each question, predict the percentage distribution of responses for this demographic group across the answer options.`;
+            corePrompt += renderAssemblerSection(template, 'batched.instruction.distribution');
         }
     }
 
@@ -242,11 +312,12 @@ export function assembleIndividualPrompt(
     options?: {
         prefix?: string;
         suffix?: string;
+        template?: DTEFPromptTemplate;
     },
 ): AssembledPrompt {
     const prefix = options?.prefix || '';
     const suffix = options?.suffix || '';
-    const questionOptions = question.options || [];
+    const template = options?.template;
 
     let corePrompt = '';
 
@@ -255,10 +326,7 @@ export function assembleIndividualPrompt(
     }
 
     // Describe the individual's demographics
-    const attrLines = Object.entries(participant.attributes)
-        .map(([key, value]) => `- ${formatAttributeKey(key)}: ${value}`)
-        .join('\n');
-    corePrompt += `Consider the following survey respondent:\n${attrLines}\n\n`;
+    corePrompt += renderAssemblerSection(template, 'respondent', { attributes: attributeVars(participant.attributes) });
 
     // Add context block (other answers from this participant)
     if (contextBlock && contextBlock.text) {
@@ -266,17 +334,8 @@ export function assembleIndividualPrompt(
     }
 
     // Target question
-    corePrompt += `Survey question:\n"${question.text}"\n\n`;
-    if (questionOptions.length > 0) {
-        corePrompt += `Answer options:\n`;
-        questionOptions.forEach((opt, idx) => {
-            const letter = String.fromCharCode(97 + idx);
-            corePrompt += `  ${letter}. ${opt}\n`;
-        });
-        corePrompt += '\n';
-    }
-
-    corePrompt += `Predict which answer this specific person would choose and your confidence in each option.`;
+    corePrompt += questionBlock(question, template);
+    corePrompt += renderAssemblerSection(template, 'instruction.individual');
 
     if (suffix) {
         corePrompt += `\n\n${suffix}`;
@@ -288,3 +347,38 @@ export function assembleIndividualPrompt(
         contextQuestionIds: contextBlock?.contextQuestionIds ?? [],
     };
 }
+
+/**
+ * Assemble an own-opinion probe prompt: the bare question and its options,
+ * with no demographic header or context, asking for the model's own answer.
+ */
+export function assembleOwnOpinionPrompt(
+    question: PromptQuestion,
+    options?: {
+        prefix?: string;
+        suffix?: string;
+        template?: DTEFPromptTemplate;
+    },
+): AssembledPrompt {
+    const prefix = options?.prefix || '';
+    const suffix = options?.suffix || '';
+
+    let corePrompt = '';
+
+    if (prefix) {
+        corePrompt += `${prefix}\n\n`;
+    }
+
+    corePrompt += questionBlock(question, options?.template);
+    corePrompt += renderAssemblerSection(options?.template, 'instruction.own-opinion');
+
+    if (suffix) {
+        corePrompt += `\n\n${suffix}`;
+    }
+
+    return {
+        text: corePrompt,
+        contextQuestionCount: 0,
+        contextQuestionIds: [],
+    };
+}
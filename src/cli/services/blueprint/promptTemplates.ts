@@ -0,0 +1,211 @@
+/**
+ * Prompt Templates for DTEF Blueprints
+ *
+ * The wording of DTEF prompts as named, versioned templates. Each system
+ * prompt and each piece of text the prompt assembler writes is a template
+ * section; the built-in sections are template `default@1`. A template from
+ * the registry (cli/services/promptTemplateRegistry) overrides any subset
+ * of sections and keeps the default wording for the rest.
+ *
+ * Sections are rendered with a small Mustache-like language:
+ *   {{name}}                          value of a variable
+ *   {{#if name}}...{{else}}...{{/if}} branch on a variable (empty lists are false)
+ *   {{#each name}}...{{/each}}        repeat per item of a list, with the item's fields in scope
+ * Whitespace is kept exactly as written. Unknown variables are errors, so a
+ * typo in a template fails generation instead of silently dropping words.
+ *
+ * @module cli/services/blueprint/promptTemplates
+ */
+
+import { DTEFPromptTemplate } from '@/types/dtef';
+
+/** Name and version of the built-in wording */
+export const DEFAULT_PROMPT_TEMPLATE_NAME = 'default';
+export const DEFAULT_PROMPT_TEMPLATE_VERSION = 1;
+
+export type TemplateValue = string | number | boolean | TemplateVars[];
+export interface TemplateVars {
+    [name: string]: TemplateValue;
+}
+
+type TemplateNode =
+    | { type: 'text'; text: string }
+    | { type: 'var'; name: string }
+    | { type: 'if'; name: string; then: TemplateNode[]; else: TemplateNode[] }
+    | { type: 'each'; name: string; body: TemplateNode[] };
+
+const parsedTemplates = new Map<string, TemplateNode[]>();
+
+/**
+ * Parse a template into nodes. Throws on unknown tags and unbalanced blocks.
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+    const cached = parsedTemplates.get(source);
+    if (cached) return cached;
+
+    const root: TemplateNode[] = [];
+    const open: { node: Extract<TemplateNode, { type: 'if' | 'each' }>; inElse: boolean }[] = [];
+    const current = (): TemplateNode[] => {
+        const top = open[open.length - 1];
+        if (!top) return root;
+        if (top.node.type === 'each') return top.node.body;
+        return top.inElse ? top.node.else : top.node.then;
+    };
+
+    for (const token of source.split(/(\{\{[^{}]*\}\})/)) {
+        const tag = token.match(/^\{\{\s*(.*?)\s*\}\}$/);
+        if (!tag) {
+            if (token) current().push({ type: 'text', text: token });
+            continue;
+        }
+
+        const body = tag[1];
+        const block = body.match(/^#(if|each)\s+([\w.-]+)$/);
+        const close = body.match(/^\/(if|each)$/);
+        if (block) {
+            const node: Extract<TemplateNode, { type: 'if' | 'each' }> = block[1] === 'if'
+                ? { type: 'if', name: block[2], then: [], else: [] }
+                : { type: 'each', name: block[2], body: [] };
+            current().push(node);
+            open.push({ node, inElse: false });
+        } else if (body === 'else') {
+            const top = open[open.length - 1];
+            if (!top || top.node.type !== 'if' || top.inElse) throw new Error('Template {{else}} outside an {{#if}} block');
+            top.inElse = true;
+        } else if (close) {
+            const top = open.pop();
+            if (!top || top.node.type !== close[1]) throw new Error(`Template {{/${close[1]}}} does not close an open {{#${close[1]}}} block`);
+        } else if (/^[\w.-]+$/.test(body)) {
+            current().push({ type: 'var', name: body });
+        } else {
+            throw new Error(`Unrecognised template tag "{{${body}}}"`);
+        }
+    }
+
+    if (open.length > 0) {
+        throw new Error(`Template block {{#${open[open.length - 1].node.type} ${open[open.length - 1].node.name}}} is never closed`);
+    }
+    parsedTemplates.set(source, root);
+    return root;
+}
+
+function lookup(vars: TemplateVars, name: string): TemplateValue {
+    if (!(name in vars)) throw new Error(`Unknown template variable "${name}"`);
+    return vars[name];
+}
+
+function renderNodes(nodes: TemplateNode[], vars: TemplateVars): string {
+    let out = '';
+    for (const node of nodes) {
+        if (node.type === 'text') {
+            out += node.text;
+        } else if (node.type === 'var') {
+            const value = lookup(vars, node.name);
+            if (Array.isArray(value)) throw new Error(`Template variable "${node.name}" is a list; use {{#each ${node.name}}}`);
+            out += String(value);
+        } else if (node.type === 'if') {
+            const value = lookup(vars, node.name);
+            const truthy = Array.isArray(value) ? value.length > 0 : !!value;
+            out += renderNodes(truthy ? node.then : node.else, vars);
+        } else {
+            const value = lookup(vars, node.name);
+            if (!Array.isArray(value)) throw new Error(`Template variable "${node.name}" is not a list`);
+            for (const item of value) out += renderNodes(node.body, { ...vars, ...item });
+        }
+    }
+    return out;
+}
+
+/**
+ * Render a template with the given variables.
+ */
+export function renderTemplate(source: string, vars: TemplateVars = {}): string {
+    return renderNodes(parseTemplate(source), vars);
+}
+
+// ─── Prompt assembler sections (default@1) ───────────────────────────────────
+
+/**
+ * Default wording of the prompt assembler. Variables available to each
+ * section are listed alongside it; list items are shown as {fields}.
+ */
+export const ASSEMBLER_TEMPLATE_SECTIONS = {
+    /** question, options[{letter, text}] */
+    'question': `Survey question:
+"{{question}}"
+
+{{#if options}}Answer options:
+{{#each options}}  {{letter}}. {{text}}
+{{/each}}
+{{/if}}`,
+    'instruction.distribution': `Predict the percentage distribution of responses for this demographic group across the answer options.`,
+    'instruction.multi-select': `Respondents could select more than one option. Predict the percentage of this demographic group who would select each option. Each percentage is independent (0-100), so they do not need to sum to 100. Format: [p1, p2, p3, ...] in option order.`,
+    /** rankCount, lastRank (e.g. "3rd"), partial (fewer ranks than options) */
+    'instruction.ranking': `Respondents ranked {{#if partial}}their top {{rankCount}} of {{/if}}these options. For each option, predict the percentage of this demographic group who would place it at each rank from 1st to {{lastRank}}. Give one array of {{rankCount}} percentages per option, in option order: [[1st, 2nd, ...], [1st, 2nd, ...], ...]. {{#if partial}}Each option's percentages sum to the share of the group who would rank it at all.{{else}}Each option's percentages sum to 100.{{/if}}`,
+    /** n */
+    'instruction.synthetic-individual': `Simulate {{n}} individual members of this demographic group answering this question.`,
+    'instruction.individual-answer': `Predict the most likely answer for a member of this demographic group.`,
+    /** question, answerCount */
+    'open-ended': `Open-ended survey question:
+"{{question}}"
+
+Write {{answerCount}} answers that different members of this demographic group would give, in their own words. Cover the range of views in the group, in proportion to how common they are.`,
+    /** question, options[{letter, text, share}], distribution (when there are no options), multiSelect, sampleSize, attributes[{key, value}] */
+    'shift.population': `The overall population responded to the following survey question as follows:
+
+"{{question}}"
+
+{{#if options}}{{#if multiSelect}}Share selecting each option (respondents could select more than one):
+{{else}}Response distribution:
+{{/if}}{{#each options}}  {{letter}}. {{text}}: {{share}}%
+{{/each}}
+{{else}}Distribution: [{{distribution}}]
+
+{{/if}}How would you adjust this distribution for the following demographic group?
+(sample size: {{sampleSize}})
+{{#each attributes}}- {{key}}: {{value}}
+{{/each}}
+`,
+    'instruction.shift': `Predict the adjusted percentage distribution for this demographic group.`,
+    'instruction.shift.multi-select': `Predict the adjusted share of this demographic group selecting each option. Shares are independent and do not need to sum to 100.`,
+    /** attributes[{key, value}] */
+    'respondent': `Consider the following survey respondent:
+{{#each attributes}}- {{key}}: {{value}}
+{{/each}}
+`,
+    'instruction.individual': `Predict which answer this specific person would choose and your confidence in each option.`,
+    'instruction.own-opinion': `What is your own answer to this question? Give the percentage chance that you would choose each option.`,
+    /** label, question, optionList ("a. X, b. Y"), marginalList ("X: 40.0%, ..."; shift only), multiSelect, hint */
+    'batched.question': `{{label}}: "{{question}}"
+{{#if optionList}}  Options: {{optionList}}
+{{#if marginalList}}  {{#if multiSelect}}Population share selecting{{else}}Population distribution{{/if}}: {{marginalList}}
+{{/if}}{{/if}}{{hint}}
+`,
+    'batched.hint.multi-select': `  (Select all that apply: give the independent percentage selecting each option; these need not sum to 100)
+`,
+    /** rankCount */
+    'batched.hint.ranking': `  (Ranking: give an array of {{rankCount}} rank percentages per option, e.g. [[1st, 2nd, ...], ...])
+`,
+    'batched.shift.intro': `The overall population responded to the following survey questions as shown below. Predict how this demographic group's response distributions DIFFER from the overall population.
+
+`,
+    'batched.instruction.distribution': `For each question, predict the percentage distribution of responses for this demographic group across the answer options.`,
+    'batched.instruction.shift': `Predict the adjusted percentage distributions for this demographic group.`,
+    /** n */
+    'batched.instruction.synthetic-individual': `Simulate {{n}} individual members of this demographic group answering each question.`,
+    'batched.instruction.individual-answer': `Predict the most likely answer for a member of this demographic group for each question.`,
+} as const;
+
+export type AssemblerTemplateSection = keyof typeof ASSEMBLER_TEMPLATE_SECTIONS;
+
+/**
+ * Render one assembler section, using the template's wording when it
+ * overrides the section and the default wording otherwise.
+ */
+export function renderAssemblerSection(
+    template: DTEFPromptTemplate | undefined,
+    section: AssemblerTemplateSection,
+    vars: TemplateVars = {},
+): string {
+    return renderTemplate(template?.sections[section] ?? ASSEMBLER_TEMPLATE_SECTIONS[section], vars);
+}
@@ -0,0 +1,158 @@
+/**
+ * Question Variants for Paraphrase Robustness
+ *
+ * Rewrites the target questions of a blueprint config into one variant: a
+ * paraphrase of the wording, or a different order of the answer options.
+ * Everything keyed by option position (segment distributions, rank
+ * matrices, ordinal positions, population marginals) is permuted with the
+ * options, so each variant is scored against the same ground truth.
+ *
+ * @module cli/services/blueprint/questionVariants
+ */
+
+import { DTEFBlueprintConfig, DTEFQuestionVariant, DTEFSurveyData } from '@/types/dtef';
+import { seededShuffle } from './seededSampling';
+
+type SurveyQuestionDef = DTEFSurveyData['questions'][string];
+
+/** Whether a variant asks the questions as written, in the original order */
+export function isOriginalQuestionVariant(variant: DTEFQuestionVariant | undefined): boolean {
+    return !variant || (variant.paraphraseIndex === 0 && variant.orderIndex === 0);
+}
+
+/**
+ * Variants for a robustness run: the original first, then each paraphrase
+ * in the original option order, then each option order with the original
+ * wording. Varying one factor at a time keeps their effects separable.
+ */
+export function listQuestionVariants(paraphraseCount: number, orderCount: number): DTEFQuestionVariant[] {
+    return [
+        { paraphraseIndex: 0, orderIndex: 0 },
+        ...Array.from({ length: paraphraseCount }, (_, i) => ({ paraphraseIndex: i + 1, orderIndex: 0 })),
+        ...Array.from({ length: orderCount }, (_, i) => ({ paraphraseIndex: 0, orderIndex: i + 1 })),
+    ];
+}
+
+/** Upper bound on option orders per question, far above anything the CLI allows */
+const MAX_ORDER_COUNT = 1000;
+
+/**
+ * How many option orders of a question differ from the original and from
+ * each other: one for ordinal scales (reversed), every permutation for
+ * nominal options.
+ */
+export function distinctOptionOrderCount(question: SurveyQuestionDef): number {
+    const n = question.options?.length ?? 0;
+    if (n < 2) return 0;
+    if (question.ordinalPositions) return 1;
+    let permutations = 1;
+    for (let i = 2; i <= n && permutations <= MAX_ORDER_COUNT; i++) permutations *= i;
+    return permutations - 1;
+}
+
+/**
+ * Display order of a question's options in option order `orderIndex`:
+ * entry i is the original index of the option shown i-th. Ordinal scales
+ * are only ever reversed, so they stay scales; nominal options get seeded
+ * shuffles, each different from the original and from earlier orders.
+ * Null when the question has fewer than `orderIndex` distinct orders.
+ */
+export function optionOrder(questionId: string, question: SurveyQuestionDef, orderIndex: number): number[] | null {
+    const identity = (question.options || []).map((_, i) => i);
+    if (orderIndex === 0) return identity;
+    if (orderIndex > distinctOptionOrderCount(question)) return null;
+    if (question.ordinalPositions) return [...identity].reverse();
+
+    const seen = new Set([identity.join(',')]);
+    let order = identity;
+    for (let attempt = 1; seen.size <= orderIndex; attempt++) {
+        order = seededShuffle(identity, `${attempt}-${questionId}`);
+        seen.add(order.join(','));
+    }
+    return order;
+}
+
+/**
+ * Whether a target question is asked exactly as in the original under the
+ * config's variant: an option-order variant beyond the question's distinct
+ * orders. Such prompts would only repeat the original.
+ */
+export function isUnchangedByQuestionVariant(config: DTEFBlueprintConfig, questionId: string): boolean {
+    const variant = config.questionVariant;
+    const question = config.surveyData.questions[questionId];
+    if (!variant || isOriginalQuestionVariant(variant) || variant.paraphraseIndex > 0 || !question) return false;
+    return optionOrder(questionId, question, variant.orderIndex) === null;
+}
+
+function reorder<T>(values: T[], order: number[]): T[] {
+    return values.length === order.length ? order.map(i => values[i]) : values;
+}
+
+/**
+ * The config with its target questions in the config's questionVariant.
+ * Context-only questions keep their wording. Throws when a paraphrase the
+ * variant needs was not generated.
+ */
+export function applyQuestionVariant(config: DTEFBlueprintConfig): DTEFBlueprintConfig {
+    const variant = config.questionVariant;
+    if (!variant || isOriginalQuestionVariant(variant)) return config;
+
+    const questions = { ...config.surveyData.questions };
+    const orders = new Map<string, number[]>();
+
+    for (const questionId of config.targetQuestionIds) {
+        const original = questions[questionId];
+        if (!original) continue;
+        let question = original;
+
+        if (variant.paraphraseIndex > 0) {
+            const paraphrase = config.questionParaphrases?.[questionId]?.[variant.paraphraseIndex - 1];
+            if (!paraphrase) {
+                throw new Error(`No paraphrase ${variant.paraphraseIndex} for question ${questionId}`);
+            }
+            question = {
+                ...question,
+                text: paraphrase.text,
+                ...(question.options && paraphrase.options?.length === question.options.length ? { options: paraphrase.options } : {}),
+            };
+        }
+
+        const order = variant.orderIndex > 0 && question.options ? optionOrder(questionId, original, variant.orderIndex) : null;
+        if (order) {
+            orders.set(questionId, order);
+            question = {
+                ...question,
+                options: reorder(question.options!, order),
+                ...(question.ordinalPositions ? { ordinalPositions: reorder(question.ordinalPositions, order) } : {}),
+            };
+        }
+        questions[questionId] = question;
+    }
+
+    if (orders.size === 0) return { ...config, surveyData: { ...config.surveyData, questions } };
+
+    const segments = config.surveyData.segments.map(segment => ({
+        ...segment,
+        responses: segment.responses.map(response => {
+            const order = orders.get(response.questionId);
+            if (!order) return response;
+            return {
+                ...response,
+                distribution: reorder(response.distribution, order),
+                ...(response.rankDistribution ? { rankDistribution: reorder(response.rankDistribution, order) } : {}),
+            };
+        }),
+    }));
+    const populationMarginals = config.populationMarginals && Object.fromEntries(
+        Object.entries(config.populationMarginals).map(([questionId, marginal]) => {
+            const order = orders.get(questionId);
+            return [questionId, order ? reorder(marginal, order) : marginal];
+        }),
+    );
+
+    return {
+        ...config,
+        surveyData: { ...config.surveyData, questions, segments },
+        ...(populationMarginals ? { populationMarginals } : {}),
+    };
+}
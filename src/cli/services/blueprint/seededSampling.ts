@@ -0,0 +1,33 @@
+/**
+ * Seeded Sampling for DTEF Blueprints
+ *
+ * Deterministic shuffles and samples, so regenerating blueprints from the
+ * same inputs yields the same participants, reference answers and
+ * randomly selected context questions.
+ *
+ * @module cli/services/blueprint/seededSampling
+ */
+
+import { seededRng, hashString } from '@/lib/seededRandom';
+
+/**
+ * Deterministic Fisher-Yates shuffle keyed by a seed string.
+ */
+export function seededShuffle<T>(items: T[], seed: string): T[] {
+    const rng = seededRng(hashString(seed));
+    const arr = [...items];
+    for (let i = 0; i < arr.length - 1; i++) {
+        const j = i + Math.floor(rng() * (arr.length - i));
+        [arr[i], arr[j]] = [arr[j], arr[i]];
+    }
+    return arr;
+}
+
+/**
+ * Deterministic sample of N items using a seeded shuffle.
+ */
+export function seededSample<T>(items: T[], n: number, seed: string): T[] {
+    if (items.length <= n) return [...items];
+    // The first n positions of the shuffle depend only on its first n swaps
+    return seededShuffle(items, seed).slice(0, n);
+}
@@ -2,11 +2,14 @@
  * System Prompt Generators for DTEF Blueprints
  *
  * Provides the system prompt matrix across eval types and reasoning modes.
+ * Each prompt is a section of the default prompt template, so registry
+ * templates can reword any of them.
  *
  * @module cli/services/blueprint/systemPromptGenerators
  */
 
-import { DTEFEvalType, DTEFReasoningMode } from '@/types/dtef';
+import { DTEFContextFormat, DTEFEvalType, DTEFPromptTemplate, DTEFReasoningMode } from '@/types/dtef';
+import { renderTemplate } from './promptTemplates';
 
 // ─── Standard prompts (existing, byte-identical) ─────────────────────────────
 
@@ -107,6 +110,79 @@ PROBABILITIES: [p1, p2, p3, ...]
 
 The probabilities must sum to 1.0.`;
 
+// ─── Open-ended prompts ──────────────────────────────────────────────────────
+
+const OPEN_ENDED_PROMPT = `You are a demographic survey analyst. When given a demographic group and an open-ended survey question, write the answers that members of this group would actually give.
+
+Write each answer in the first person, in the voice of a different member of the group, as a short survey response (one to three sentences). Reflect the range of views in the group in proportion to how common they are, rather than a single consensus answer.
+
+Respond ONLY with a JSON array of answer strings. Do not include any other text.
+
+Example:
+["I worry it will take jobs from people like me.", "Honestly it saves me time at work every day.", "It depends on who controls it."]`;
+
+const COT_OPEN_ENDED_PROMPT = `You are a demographic survey analyst. When given a demographic group and an open-ended survey question, write the answers that members of this group would actually give.
+
+Think through this step-by-step:
+1. QUESTION INTERPRETATION: What is the question asking people to reflect on?
+2. SEGMENT ANALYSIS: What do the demographic attributes and context suggest about this group's experiences and concerns?
+3. RANGE OF VIEWS: Which distinct views would members of this group hold, and how common is each?
+4. ANSWERS: Write each answer in the first person, as a short survey response from a different member of the group.
+
+After your reasoning, provide the final answers on their own line:
+ANSWERS: ["answer 1", "answer 2", ...]`;
+
+// ─── Own-opinion probe ───────────────────────────────────────────────────────
+
+const OWN_OPINION_PROMPT = `You are taking part in a survey. For each question, give your own answer: how likely you would be to choose each answer option if you answered it yourself.
+
+Respond ONLY with the distribution in this exact format:
+[percentage1, percentage2, percentage3, ...]
+
+The percentages must sum to 100. Use one decimal place. Do not include any other text.
+
+Example for a 4-option question:
+[35.2, 28.1, 22.4, 14.3]`;
+
+const COT_OWN_OPINION_PROMPT = `You are taking part in a survey. For each question, give your own answer: how likely you would be to choose each answer option if you answered it yourself.
+
+Think through this step-by-step:
+1. OPTION INTERPRETATION: What does each answer option represent?
+2. YOUR VIEW: Which options best reflect your own view, and how confident are you?
+3. ANSWER: Provide the percentage distribution over the options.
+
+After your reasoning, provide the final distribution on its own line:
+DISTRIBUTION: [percentage1, percentage2, percentage3, ...]
+
+The percentages must sum to 100. Use one decimal place.`;
+
+// ─── Few-shot segment prompts ────────────────────────────────────────────────
+
+const FEW_SHOT_SEGMENTS_PROMPT = `You are a demographic survey analyst. You will be given how several other demographic groups actually answered a survey question, and a new demographic group. Predict how the new group would respond by providing a percentage distribution across the answer options.
+
+Use the known groups as evidence: consider which of them the new group most resembles and how its attributes would move it away from them. The new group's own answers are not among those shown.
+
+Respond ONLY with the distribution in this exact format:
+[percentage1, percentage2, percentage3, ...]
+
+The percentages must sum to 100. Use one decimal place. Do not include any other text.
+
+Example for a 4-option question:
+[35.2, 28.1, 22.4, 14.3]`;
+
+const COT_FEW_SHOT_SEGMENTS_PROMPT = `You are a demographic survey analyst. You will be given how several other demographic groups actually answered a survey question, and a new demographic group. Predict how the new group would respond by providing a percentage distribution across the answer options.
+
+Think through this step-by-step:
+1. KNOWN GROUPS: What do the known groups' answers have in common, and where do they differ?
+2. COMPARISON: Which known groups does the new group most resemble, and in which attributes does it differ?
+3. ADJUSTMENT: How would those differences move the new group's answers away from the groups it resembles?
+4. PREDICTION: Provide your predicted percentage distribution.
+
+After your reasoning, provide the final distribution on its own line:
+DISTRIBUTION: [percentage1, percentage2, percentage3, ...]
+
+The percentages must sum to 100. Use one decimal place.`;
+
 // ─── Batched prompts for non-distribution eval types ─────────────────────────
 
 const BATCHED_SHIFT_SYSTEM_PROMPT = `You are a demographic survey analyst. You will be given the overall population's response distributions to multiple survey questions, and a specific demographic group. Predict how this group's distributions DIFFER from the overall population.
@@ -172,58 +248,81 @@ Think through this step-by-step for each question:
 After your reasoning, provide the final answer as a JSON object on its own line:
 DISTRIBUTION: {"Q1": {"answer": "a", "probabilities": [0.6, 0.3, 0.1]}, "Q2": {"answer": "b", "probabilities": [0.2, 0.7, 0.1]}}`;
 
+// ─── Template sections (default@1) ───────────────────────────────────────────
+
+/**
+ * System prompts as prompt template sections. Keys are
+ * `system[.batched].{evalType}[.cot]`, plus `system.few-shot-segments[.cot]`.
+ */
+export const SYSTEM_PROMPT_SECTIONS = {
+    'system.distribution': DEFAULT_SYSTEM_PROMPT,
+    'system.distribution.cot': COT_DISTRIBUTION_PROMPT,
+    'system.shift': SHIFT_SYSTEM_PROMPT,
+    'system.shift.cot': COT_SHIFT_PROMPT,
+    'system.synthetic-individual': SYNTHETIC_INDIVIDUAL_PROMPT,
+    'system.synthetic-individual.cot': COT_SYNTHETIC_INDIVIDUAL_PROMPT,
+    'system.individual-answer': INDIVIDUAL_ANSWER_PROMPT,
+    'system.individual-answer.cot': COT_INDIVIDUAL_ANSWER_PROMPT,
+    'system.open-ended': OPEN_ENDED_PROMPT,
+    'system.open-ended.cot': COT_OPEN_ENDED_PROMPT,
+    'system.own-opinion': OWN_OPINION_PROMPT,
+    'system.own-opinion.cot': COT_OWN_OPINION_PROMPT,
+    'system.few-shot-segments': FEW_SHOT_SEGMENTS_PROMPT,
+    'system.few-shot-segments.cot': COT_FEW_SHOT_SEGMENTS_PROMPT,
+    'system.batched.distribution': BATCHED_SYSTEM_PROMPT,
+    'system.batched.distribution.cot': BATCHED_COT_DISTRIBUTION_PROMPT,
+    'system.batched.shift': BATCHED_SHIFT_SYSTEM_PROMPT,
+    'system.batched.shift.cot': BATCHED_COT_SHIFT_PROMPT,
+    'system.batched.synthetic-individual': BATCHED_SYNTHETIC_INDIVIDUAL_PROMPT,
+    'system.batched.synthetic-individual.cot': BATCHED_COT_SYNTHETIC_INDIVIDUAL_PROMPT,
+    'system.batched.individual-answer': BATCHED_INDIVIDUAL_ANSWER_PROMPT,
+    'system.batched.individual-answer.cot': BATCHED_COT_INDIVIDUAL_ANSWER_PROMPT,
+} as const;
+
+export type SystemPromptSection = keyof typeof SYSTEM_PROMPT_SECTIONS;
+
+/** Eval types with their own batched system prompt; others use the distribution one */
+const BATCHED_EVAL_TYPES: DTEFEvalType[] = ['distribution', 'shift', 'synthetic-individual', 'individual-answer'];
+
+/** Eval types with their own single-question system prompt; others use the distribution one */
+const SINGLE_EVAL_TYPES: DTEFEvalType[] = ['distribution', 'shift', 'synthetic-individual', 'individual-answer', 'open-ended', 'own-opinion'];
+
 // ─── Public API ──────────────────────────────────────────────────────────────
 
 /**
- * Get the batched system prompt for a given eval type and reasoning mode.
+ * The template section holding the system prompt for an eval type and
+ * reasoning mode. Single-question distribution prompts in the
+ * few-shot-segments format get a prompt that explains the known groups shown.
  */
-function getBatchedSystemPrompt(evalType: DTEFEvalType, reasoningMode: DTEFReasoningMode): string {
-    if (reasoningMode === 'cot') {
-        switch (evalType) {
-            case 'distribution': return BATCHED_COT_DISTRIBUTION_PROMPT;
-            case 'shift': return BATCHED_COT_SHIFT_PROMPT;
-            case 'synthetic-individual': return BATCHED_COT_SYNTHETIC_INDIVIDUAL_PROMPT;
-            case 'individual-answer': return BATCHED_COT_INDIVIDUAL_ANSWER_PROMPT;
-            default: return BATCHED_COT_DISTRIBUTION_PROMPT;
-        }
-    }
-    switch (evalType) {
-        case 'distribution': return BATCHED_SYSTEM_PROMPT;
-        case 'shift': return BATCHED_SHIFT_SYSTEM_PROMPT;
-        case 'synthetic-individual': return BATCHED_SYNTHETIC_INDIVIDUAL_PROMPT;
-        case 'individual-answer': return BATCHED_INDIVIDUAL_ANSWER_PROMPT;
-        default: return BATCHED_SYSTEM_PROMPT;
+export function getSystemPromptSection(
+    evalType: DTEFEvalType = 'distribution',
+    reasoningMode: DTEFReasoningMode = 'standard',
+    options?: { batched?: boolean; contextFormat?: DTEFContextFormat },
+): SystemPromptSection {
+    let key: string;
+    if (options?.batched) {
+        key = `system.batched.${BATCHED_EVAL_TYPES.includes(evalType) ? evalType : 'distribution'}`;
+    } else if (options?.contextFormat === 'few-shot-segments' && evalType === 'distribution') {
+        key = 'system.few-shot-segments';
+    } else {
+        key = `system.${SINGLE_EVAL_TYPES.includes(evalType) ? evalType : 'distribution'}`;
     }
+    return (reasoningMode === 'cot' ? `${key}.cot` : key) as SystemPromptSection;
 }
 
 /**
- * Get the system prompt for a given eval type and reasoning mode.
+ * Get the system prompt for a given eval type and reasoning mode, in the
+ * template's wording when it overrides that section. A custom prompt wins
+ * over both.
  */
 export function getSystemPrompt(
     evalType: DTEFEvalType = 'distribution',
     reasoningMode: DTEFReasoningMode = 'standard',
-    options?: { customPrompt?: string; batched?: boolean },
+    options?: { customPrompt?: string; batched?: boolean; contextFormat?: DTEFContextFormat; template?: DTEFPromptTemplate },
 ): string {
     if (options?.customPrompt) return options.customPrompt;
-    if (options?.batched) return getBatchedSystemPrompt(evalType, reasoningMode);
-
-    if (reasoningMode === 'cot') {
-        switch (evalType) {
-            case 'distribution': return COT_DISTRIBUTION_PROMPT;
-            case 'shift': return COT_SHIFT_PROMPT;
-            case 'synthetic-individual': return COT_SYNTHETIC_INDIVIDUAL_PROMPT;
-            case 'individual-answer': return COT_INDIVIDUAL_ANSWER_PROMPT;
-            default: return COT_DISTRIBUTION_PROMPT;
-        }
-    }
-
-    switch (evalType) {
-        case 'distribution': return DEFAULT_SYSTEM_PROMPT;
-        case 'shift': return SHIFT_SYSTEM_PROMPT;
-        case 'synthetic-individual': return SYNTHETIC_INDIVIDUAL_PROMPT;
-        case 'individual-answer': return INDIVIDUAL_ANSWER_PROMPT;
-        default: return DEFAULT_SYSTEM_PROMPT;
-    }
+    const section = getSystemPromptSection(evalType, reasoningMode, options);
+    return renderTemplate(options?.template?.sections[section] ?? SYSTEM_PROMPT_SECTIONS[section]);
 }
 
 /**
@@ -0,0 +1,216 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generateAllResponsesViaBatch, isBatchablePrompt } from './comparison-pipeline-service.batch';
+import { getModelResponse } from './llm-service';
+import { ComparisonConfig } from '../types/cli_types';
+import { ConversationMessage } from '@/types/shared';
+import { estimateModelCost, BATCH_PRICE_MULTIPLIER } from '@/lib/model-cost';
+import { startMockBatchServer, mockReply, MockBatchServer } from '@/lib/llm-clients/__tests__/mock-batch-server';
+
+jest.mock('node-fetch', () => ({ __esModule: true, default: (...args: any[]) => (globalThis.fetch as any)(...args) }));
+
+// Per-call generation (non-batch providers, multi-turn prompts) goes through the mocked service
+jest.mock('./llm-service', () => ({
+  getModelResponse: jest.fn(),
+  getResponseCacheKey: jest.fn(() => 'key'),
+  DEFAULT_TEMPERATURE: 0,
+}));
+
+const mockedGetModelResponse = getModelResponse as jest.MockedFunction<typeof getModelResponse>;
+
+const mockLogger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+};
+
+function createConfig(): ComparisonConfig {
+  return {
+    id: 'batch-config',
+    title: 'Batch Config',
+    models: ['anthropic:claude-test', 'openai:gpt-test', 'google:gemini-test'],
+    temperature: 0,
+    prompts: [
+      { id: 'p1', messages: [{ role: 'user', content: 'Question one' }] as ConversationMessage[] },
+      { id: 'p2', messages: [{ role: 'user', content: 'FAIL this one' }] as ConversationMessage[] },
+      {
+        id: 'p3',
+        messages: [
+          { role: 'user', content: 'Turn one' },
+          { role: 'assistant', content: null },
+          { role: 'user', content: 'Turn two' },
+        ] as ConversationMessage[],
+      },
+    ],
+  } as ComparisonConfig;
+}
+
+describe('isBatchablePrompt', () => {
+  it('accepts prompts whose only generated turn is the trailing reply', () => {
+    expect(isBatchablePrompt([{ role: 'user', content: 'hi' }])).toBe(true);
+    expect(isBatchablePrompt([{ role: 'user', content: 'hi' }, { role: 'assistant', content: 'fixed' }, { role: 'user', content: 'more' }])).toBe(true);
+    expect(isBatchablePrompt([{ role: 'user', content: 'hi' }, { role: 'assistant', content: null }, { role: 'user', content: 'more' }])).toBe(false);
+    expect(isBatchablePrompt([{ role: 'user', content: 'hi' }, { role: 'assistant', content: 'fixed' }])).toBe(false);
+  });
+});
+
+describe('generateAllResponsesViaBatch', () => {
+  let server: MockBatchServer;
+  let manifestDir: string;
+
+  beforeAll(async () => {
+    server = await startMockBatchServer(2);
+    process.env.ANTHROPIC_API_KEY = 'test-key';
+    process.env.OPENAI_API_KEY = 'test-key';
+    process.env.ANTHROPIC_API_BASE_URL = server.anthropicBaseUrl;
+    process.env.OPENAI_API_BASE_URL = server.openaiBaseUrl;
+    delete process.env.GOOGLE_API_KEY;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    await server.close();
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    manifestDir = fs.mkdtempSync(path.join(os.tmpdir(), 'batch-manifests-'));
+    mockedGetModelResponse.mockImplementation(async ({ modelId }) => `per-call ${modelId}`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(manifestDir, { recursive: true, force: true });
+  });
+
+  it('batches single-shot prompts for batch providers and generates the rest per call', async () => {
+    const onProgress = jest.fn();
+    const before = { ...server.submitted };
+    const submittedAtFirstPerCall: number[] = [];
+    mockedGetModelResponse.mockImplementation(async ({ modelId }) => {
+      if (submittedAtFirstPerCall.length === 0) {
+        submittedAtFirstPerCall.push(server.submitted.anthropic - before.anthropic, server.submitted.openai - before.openai);
+      }
+      return `per-call ${modelId}`;
+    });
+    const { allResponsesMap, usageByModel } = await generateAllResponsesViaBatch(
+      createConfig(), mockLogger, false, onProgress, { batch: { pollIntervalMs: 1, manifestDir } }, 'run-1',
+    );
+
+    // One job per batch-capable model, submitted before per-call generation starts
+    expect(server.submitted.anthropic - before.anthropic).toBe(1);
+    expect(server.submitted.openai - before.openai).toBe(1);
+    expect(submittedAtFirstPerCall).toEqual([1, 1]);
+
+    const p1 = allResponsesMap.get('p1')!.modelResponses;
+    expect(p1['anthropic:claude-test[temp:0]'].finalAssistantResponseText).toBe(mockReply('claude-test', 'Question one'));
+    expect(p1['openai:gpt-test[temp:0]'].finalAssistantResponseText).toBe(mockReply('gpt-test', 'Question one'));
+    expect(p1['openai:gpt-test[temp:0]'].fullConversationHistory).toEqual([
+      { role: 'user', content: 'Question one' },
+      { role: 'assistant', content: mockReply('gpt-test', 'Question one') },
+    ]);
+    expect(p1['google:gemini-test[temp:0]'].finalAssistantResponseText).toBe('per-call google:gemini-test');
+
+    const p2 = allResponsesMap.get('p2')!.modelResponses['anthropic:claude-test[temp:0]'];
+    expect(p2.hasError).toBe(true);
+    expect(p2.errorMessage).toContain('mock failure');
+
+    // Multi-turn prompt with a generated middle turn is never batched
+    const p3 = allResponsesMap.get('p3')!.modelResponses['anthropic:claude-test[temp:0]'];
+    expect(p3.finalAssistantResponseText).toBe('per-call anthropic:claude-test');
+    // google: p1, p2 and both p3 turns; batch models: both p3 turns each
+    expect(mockedGetModelResponse).toHaveBeenCalledTimes(8);
+
+    // No reported cost, so it is estimated from tokens at the batch discount
+    expect(usageByModel.get('openai:gpt-test')).toEqual({
+      inputTokens: 10,
+      outputTokens: 5,
+      totalCost: estimateModelCost('openai:gpt-test', 10, 5) * BATCH_PRICE_MULTIPLIER,
+      callCount: 1,
+    });
+    expect(usageByModel.get('openai:gpt-test')!.totalCost).toBeGreaterThan(0);
+    expect(onProgress).toHaveBeenLastCalledWith(9, 9);
+    expect(fs.readdirSync(manifestDir)).toEqual([]);
+  });
+
+  it('resumes submitted jobs from the manifest instead of resubmitting them', async () => {
+    const before = { ...server.submitted };
+    const config = { ...createConfig(), models: ['anthropic:claude-test'] } as ComparisonConfig;
+
+    await expect(generateAllResponsesViaBatch(
+      config, mockLogger, false, undefined, { batch: { pollIntervalMs: 1, maxWaitMs: 0, manifestDir } }, 'run-2',
+    )).rejects.toThrow(/rerun the same blueprint with batch mode to resume/);
+    expect(server.submitted.anthropic - before.anthropic).toBe(1);
+    expect(fs.readdirSync(manifestDir)).toHaveLength(1);
+
+    const { allResponsesMap } = await generateAllResponsesViaBatch(
+      config, mockLogger, false, undefined, { batch: { pollIntervalMs: 1, manifestDir } }, 'run-2',
+    );
+    expect(server.submitted.anthropic - before.anthropic).toBe(1);
+    expect(mockLogger.info).toHaveBeenCalledWith(expect.stringContaining('Resuming 1 batch job(s)'));
+    expect(allResponsesMap.get('p1')!.modelResponses['anthropic:claude-test[temp:0]'].finalAssistantResponseText)
+      .toBe(mockReply('claude-test', 'Question one'));
+    expect(fs.readdirSync(manifestDir)).toEqual([]);
+  });
+
+  it('does not collect a job submitted for different prompt content under the same run label', async () => {
+    const before = { ...server.submitted };
+    const config = { ...createConfig(), models: ['anthropic:claude-test'], prompts: createConfig().prompts.slice(0, 1) } as ComparisonConfig;
+
+    await expect(generateAllResponsesViaBatch(
+      config, mockLogger, false, undefined, { batch: { pollIntervalMs: 1, maxWaitMs: 0, manifestDir } }, 'run-4',
+    )).rejects.toThrow(/rerun the same blueprint with batch mode to resume/);
+
+    const edited = { ...config, prompts: [{ id: 'p1', messages: [{ role: 'user', content: 'Question one, reworded' }] }] } as ComparisonConfig;
+    const { allResponsesMap } = await generateAllResponsesViaBatch(
+      edited, mockLogger, false, undefined, { batch: { pollIntervalMs: 1, manifestDir } }, 'run-4',
+    );
+    expect(server.submitted.anthropic - before.anthropic).toBe(2);
+    expect(allResponsesMap.get('p1')!.modelResponses['anthropic:claude-test[temp:0]'].finalAssistantResponseText)
+      .toBe(mockReply('claude-test', 'Question one, reworded'));
+  });
+
+  it('resumes the remaining jobs after other models were collected into the checkpoint', async () => {
+    const before = { ...server.submitted };
+    const config = {
+      ...createConfig(),
+      models: ['anthropic:claude-test', 'openai:gpt-test'],
+      prompts: createConfig().prompts.slice(0, 1),
+    } as ComparisonConfig;
+    const completed: Record<string, Record<string, any>> = {};
+    const record = (promptId: string, modelId: string, response: any) => {
+      (completed[promptId] ??= {})[modelId] = response;
+    };
+
+    // The run dies while collecting the OpenAI job, after the Anthropic results were checkpointed
+    await expect(generateAllResponsesViaBatch(
+      config, mockLogger, false, undefined, { batch: { pollIntervalMs: 1, maxWaitMs: 50, manifestDir } }, 'run-3',
+      undefined,
+      {
+        completed,
+        onResponse: (promptId, modelId, response) => {
+          if (modelId.startsWith('openai:')) throw new Error('crashed');
+          record(promptId, modelId, response);
+        },
+      },
+    )).rejects.toThrow(/rerun the same blueprint with batch mode to resume/);
+    expect(Object.keys(completed.p1)).toEqual(['anthropic:claude-test[temp:0]']);
+
+    const { allResponsesMap } = await generateAllResponsesViaBatch(
+      config, mockLogger, false, undefined, { batch: { pollIntervalMs: 1, manifestDir } }, 'run-3',
+      undefined, { completed, onResponse: record },
+    );
+    expect(server.submitted.anthropic - before.anthropic).toBe(1);
+    expect(server.submitted.openai - before.openai).toBe(1);
+    const p1 = allResponsesMap.get('p1')!.modelResponses;
+    expect(p1['anthropic:claude-test[temp:0]'].finalAssistantResponseText).toBe(mockReply('claude-test', 'Question one'));
+    expect(p1['openai:gpt-test[temp:0]'].finalAssistantResponseText).toBe(mockReply('gpt-test', 'Question one'));
+    expect(fs.readdirSync(manifestDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,452 @@
+import { ComparisonConfig, PromptResponseData } from '../types/cli_types';
+import { ConversationMessage } from '@/types/shared';
+import { DEFAULT_TEMPERATURE, getResponseCacheKey } from './llm-service';
+import { generateAllResponses, GenerateAllResponsesResult, AccumulatedUsage, ProgressCallback, GenerationCheckpoint } from './comparison-pipeline-service.non-stream';
+import { checkForErrors } from '../utils/response-utils';
+import { extractToolCallsFromText } from '../utils/tool-trace';
+import { SimpleLogger } from '@/lib/blueprint-service';
+import { getCache } from '@/lib/cache-service';
+import { estimateModelCost, BATCH_PRICE_MULTIPLIER } from '@/lib/model-cost';
+import { getBatchClient } from '@/lib/llm-clients/client-dispatcher';
+import { LLMBatchClient, LLMBatchResult, LLMBatchState } from '@/lib/llm-clients/types';
+import type { FixtureSet } from '@/lib/fixtures-service';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Batch execution mode for candidate generation.
+ *
+ * Single-shot prompts for models whose provider has a native batch endpoint
+ * (Anthropic Message Batches, OpenAI Batch API) are submitted as provider
+ * batch jobs instead of one call at a time through the adaptive rate
+ * limiter. Batch pricing is roughly half of the synchronous price, at the
+ * cost of latency (providers complete batches within 24h, usually far
+ * sooner).
+ *
+ * Submitted batch IDs are written to a manifest on disk before polling
+ * starts, so a crashed or interrupted run picks the same jobs back up on
+ * its next invocation instead of paying for them twice. Everything that
+ * cannot be batched (other providers, multi-turn prompts with generated
+ * assistant turns, fixtures) goes through the normal per-call path.
+ */
+
+export interface BatchModeOptions {
+    /** How often to poll provider batch status, in ms (default 30s) */
+    pollIntervalMs?: number;
+    /** Stop waiting after this long, in ms; the manifest is kept so a rerun resumes (default 24h) */
+    maxWaitMs?: number;
+    /** Where resume manifests are written (default /tmp/.cache/batch-jobs) */
+    manifestDir?: string;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 30_000;
+const DEFAULT_MAX_WAIT_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MANIFEST_DIR = path.resolve('/tmp', '.cache', 'batch-jobs');
+// Both providers accept more, but smaller jobs finish sooner and keep upload bodies manageable
+export const MAX_REQUESTS_PER_BATCH = 10_000;
+
+interface BatchItem {
+    customId: string;
+    promptId: string;
+    modelId: string;
+    effectiveModelId: string;
+    temperature: number;
+    messages: ConversationMessage[];
+    systemPromptUsed: string | null;
+    generatedAssistantIndex: number;
+    cacheKey?: string;
+}
+
+export interface BatchJobRecord {
+    modelId: string;
+    batchId: string;
+    customIds: string[];
+    /** Last provider state seen; results are re-downloaded on resume, so this is informational */
+    state: LLMBatchState;
+    submittedAt: string;
+}
+
+export interface BatchJobManifest {
+    configId: string;
+    runLabel?: string;
+    createdAt: string;
+    jobs: BatchJobRecord[];
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * A prompt can be batched when the only generated turn is the trailing
+ * assistant reply, i.e. it ends on a user message and has no `assistant: null`
+ * placeholders that need sequential generation.
+ */
+export function isBatchablePrompt(messages: ConversationMessage[] | undefined): boolean {
+    if (!messages || messages.length === 0) return false;
+    if (messages.some(m => m.role === 'assistant' && m.content === null)) return false;
+    return messages[messages.length - 1].role === 'user';
+}
+
+/**
+ * The request's identity within a manifest. It covers the rendered messages
+ * (system prompt included) and temperature as well as the cell, so a resumed
+ * run never collects a job submitted for different prompt content under the
+ * same run label.
+ */
+function makeCustomId(promptId: string, effectiveModelId: string, messages: ConversationMessage[], temperature: number): string {
+    const content = JSON.stringify({ messages: messages.map(m => ({ role: m.role, content: m.content })), temperature });
+    // Provider custom IDs are limited to 64 chars of [A-Za-z0-9_-]
+    return `r_${crypto.createHash('sha256').update(`${promptId}\u0000${effectiveModelId}\u0000${content}`).digest('hex').slice(0, 40)}`;
+}
+
+/**
+ * One manifest per config and run label. It is not keyed on the pending
+ * requests, because those shrink as results reach the checkpoint or cache,
+ * and a resumed run must still find the jobs submitted before the crash.
+ */
+export function getManifestPath(manifestDir: string, configId: string, runLabel: string | undefined): string {
+    const fingerprint = crypto.createHash('sha256')
+        .update(JSON.stringify({ configId, runLabel: runLabel || null }))
+        .digest('hex')
+        .slice(0, 16);
+    const safeConfigId = configId.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return path.join(manifestDir, `${safeConfigId}_${fingerprint}.json`);
+}
+
+async function readManifest(manifestPath: string): Promise<BatchJobManifest | null> {
+    try {
+        return JSON.parse(await fs.readFile(manifestPath, 'utf-8')) as BatchJobManifest;
+    } catch {
+        return null;
+    }
+}
+
+async function writeManifest(manifestPath: string, manifest: BatchJobManifest): Promise<void> {
+    await fs.mkdir(path.dirname(manifestPath), { recursive: true });
+    // Write-then-rename so a crash mid-write never leaves a truncated manifest
+    const tmpPath = `${manifestPath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(manifest, null, 2));
+    await fs.rename(tmpPath, manifestPath);
+}
+
+function mergeUsage(target: Map<string, AccumulatedUsage>, source: Map<string, AccumulatedUsage>) {
+    for (const [modelId, usage] of source.entries()) {
+        const existing = target.get(modelId) || { inputTokens: 0, outputTokens: 0, totalCost: 0, callCount: 0 };
+        existing.inputTokens += usage.inputTokens;
+        existing.outputTokens += usage.outputTokens;
+        existing.totalCost += usage.totalCost;
+        existing.callCount += usage.callCount;
+        target.set(modelId, existing);
+    }
+}
+
+/**
+ * Drop-in replacement for generateAllResponses that routes batchable work
+ * through provider batch endpoints. Returns the same response map shape, so
+ * evaluation and aggregation are unaffected.
+ */
+export async function generateAllResponsesViaBatch(
+    config: ComparisonConfig,
+    logger: SimpleLogger,
+    useCache: boolean,
+    onProgress?: ProgressCallback,
+    genOptions?: { genTimeoutMs?: number; genRetries?: number; batch?: BatchModeOptions },
+    runLabel?: string,
+    fixturesCtx?: { fixtures: FixtureSet; strict: boolean },
+    checkpoint?: GenerationCheckpoint,
+): Promise<GenerateAllResponsesResult> {
+    if (fixturesCtx) {
+        logger.warn('[PipelineService] Batch mode is not used with fixtures; generating responses per call.');
+        return generateAllResponses(config, logger, useCache, onProgress, genOptions, runLabel, fixturesCtx, checkpoint);
+    }
+
+    const batchOptions = genOptions?.batch || {};
+    const pollIntervalMs = batchOptions.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const maxWaitMs = batchOptions.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+    const manifestDir = batchOptions.manifestDir || DEFAULT_MANIFEST_DIR;
+
+    const modelEntries = (config.models || []).filter(m => !(typeof m === 'string' ? m : m.id).startsWith('consumer:'));
+    const batchClients = new Map<string, LLMBatchClient>();
+    for (const entry of modelEntries) {
+        const modelId = typeof entry === 'string' ? entry : entry.id;
+        const client = getBatchClient(modelId);
+        if (client) batchClients.set(modelId, client);
+    }
+    const perCallModels = modelEntries.filter(m => !batchClients.has(typeof m === 'string' ? m : m.id));
+    const batchablePrompts = config.prompts.filter(p => isBatchablePrompt(p.messages));
+    const perCallPrompts = config.prompts.filter(p => !isBatchablePrompt(p.messages));
+
+    const temperaturesToRun = (config.temperatures?.length) ? config.temperatures : [config.temperature];
+    const systemPromptsToRun = (config.systems?.length) ? config.systems : [config.system];
+    const totalResponses = config.prompts.length * modelEntries.length * temperaturesToRun.length * systemPromptsToRun.length;
+
+    logger.info(
+        `[PipelineService] Batch mode: ${batchClients.size} model(s) via provider batch API, ` +
+        `${perCallModels.length} model(s) and ${perCallPrompts.length} multi-turn prompt(s) via per-call generation.`
+    );
+
+    const allResponsesMap = new Map<string, PromptResponseData>();
+    const usageByModel = new Map<string, AccumulatedUsage>();
+    for (const promptConfig of config.prompts) {
+        allResponsesMap.set(promptConfig.id, {
+            promptId: promptConfig.id,
+            promptText: promptConfig.promptText,
+            initialMessages: promptConfig.messages,
+            idealResponseText: promptConfig.idealResponse || null,
+            modelResponses: {},
+        });
+    }
+
+    let completedCount = 0;
+    const report = async (delta: number) => {
+        completedCount += delta;
+        if (onProgress && delta > 0) await onProgress(completedCount, totalResponses);
+    };
+
+    const runPerCall = async (subConfig: ComparisonConfig) => {
+        let lastReported = 0;
+        const result = await generateAllResponses(subConfig, logger, useCache, async (done) => {
+            // Per-call tasks report concurrently, so take the delta before awaiting
+            const delta = done - lastReported;
+            lastReported = done;
+            await report(delta);
+        }, genOptions, runLabel, undefined, checkpoint);
+        for (const [promptId, data] of result.allResponsesMap.entries()) {
+            Object.assign(allResponsesMap.get(promptId)!.modelResponses, data.modelResponses);
+        }
+        mergeUsage(usageByModel, result.usageByModel);
+    };
+
+    // Runs alongside batch polling, so the run takes as long as the slower of the two
+    const runPerCallWork = async () => {
+        if (perCallModels.length > 0) {
+            await runPerCall({ ...config, models: perCallModels });
+        }
+        if (batchClients.size > 0 && perCallPrompts.length > 0) {
+            await runPerCall({ ...config, models: [...batchClients.keys()], prompts: perCallPrompts });
+        }
+    };
+    if (batchClients.size === 0 || batchablePrompts.length === 0) {
+        await runPerCallWork();
+        return { allResponsesMap, usageByModel };
+    }
+
+    // --- Build batch items (same effective-ID scheme as per-call generation) ---
+    const items: BatchItem[] = [];
+    for (const promptConfig of batchablePrompts) {
+        for (const modelId of batchClients.keys()) {
+            temperaturesToRun.forEach(tempValue => {
+                systemPromptsToRun.forEach((systemPromptValue, sp_idx) => {
+                    const systemPromptToUse = (config.systems && config.systems.length > 0)
+                        ? systemPromptValue
+                        : (promptConfig.system !== undefined ? promptConfig.system : config.system);
+                    const temperature = tempValue ?? promptConfig.temperature ?? config.temperature ?? DEFAULT_TEMPERATURE;
+
+                    let effectiveModelId = `${modelId}[temp:${temperature}]`;
+                    if (config.systems && config.systems.length > 1) {
+                        effectiveModelId = `${effectiveModelId}[sp_idx:${sp_idx}]`;
+                    }
+
+                    const messages: ConversationMessage[] = [];
+                    if (systemPromptToUse) {
+                        messages.push({ role: 'system', content: systemPromptToUse });
+                    }
+                    messages.push(...promptConfig.messages!);
+
+                    items.push({
+                        customId: makeCustomId(promptConfig.id, effectiveModelId, messages, temperature),
+                        promptId: promptConfig.id,
+                        modelId,
+                        effectiveModelId,
+                        temperature,
+                        messages,
+                        systemPromptUsed: systemPromptToUse ?? null,
+                        generatedAssistantIndex: promptConfig.messages!.filter(m => m.role === 'assistant').length,
+                        cacheKey: useCache && !promptConfig.noCache
+                            ? getResponseCacheKey({ modelId, messages, temperature })
+                            : undefined,
+                    });
+                });
+            });
+        }
+    }
+
+    const recordResult = (item: BatchItem, text: string | null, error?: string) => {
+        const promptData = allResponsesMap.get(item.promptId)!;
+        if (text && text.trim() !== '' && !error) {
+            const hasError = checkForErrors(text);
+            const errorMatch = hasError ? text.match(/<<error>>([\s\S]*)<<\/error>>/) : null;
+            promptData.modelResponses[item.effectiveModelId] = {
+                finalAssistantResponseText: text,
+                fullConversationHistory: [...item.messages, { role: 'assistant', content: text }],
+                hasError,
+                errorMessage: hasError ? (errorMatch ? errorMatch[1].trim() : 'Response contains error markers.') : undefined,
+                systemPromptUsed: item.systemPromptUsed,
+                toolCalls: extractToolCallsFromText(text),
+                generatedAssistantIndices: [item.generatedAssistantIndex],
+                generatedAssistantTexts: [text],
+            };
+        } else {
+            const errorMessage = `Failed to get response for ${item.effectiveModelId}: ${error || 'Model returned an empty or whitespace-only response.'}`;
+            const errorText = `<<error>>${errorMessage}<</error>>`;
+            logger.error(`[PipelineService] ${errorMessage}`);
+            promptData.modelResponses[item.effectiveModelId] = {
+                finalAssistantResponseText: errorText,
+                fullConversationHistory: [...item.messages, { role: 'assistant', content: errorText }],
+                hasError: true,
+                errorMessage,
+                systemPromptUsed: item.systemPromptUsed,
+            };
+        }
+        checkpoint?.onResponse?.(item.promptId, item.effectiveModelId, promptData.modelResponses[item.effectiveModelId]);
+    };
+
+    // --- Serve what we can from the run checkpoint and the response cache ---
+    const llmCache = useCache ? getCache('llm-responses') : null;
+    const pending: BatchItem[] = [];
+    for (const item of items) {
+        const checkpointed = checkpoint?.completed?.[item.promptId]?.[item.effectiveModelId];
+        if (checkpointed) {
+            allResponsesMap.get(item.promptId)!.modelResponses[item.effectiveModelId] = checkpointed;
+            continue;
+        }
+        let cached: string | undefined;
+        if (llmCache && item.cacheKey) {
+            try {
+                cached = await llmCache.get(item.cacheKey);
+            } catch (error) {
+                logger.warn(`[PipelineService] Cache read failed for ${item.modelId}: ${error}`);
+            }
+        }
+        if (cached) {
+            recordResult(item, cached);
+        } else {
+            pending.push(item);
+        }
+    }
+    if (items.length > pending.length) {
+        logger.info(`[PipelineService] Batch mode: ${items.length - pending.length} response(s) served from checkpoint or cache.`);
+        await report(items.length - pending.length);
+    }
+    if (pending.length === 0) {
+        await runPerCallWork();
+        return { allResponsesMap, usageByModel };
+    }
+
+    // --- Submit (or resume) batch jobs ---
+    const itemsById = new Map(pending.map(item => [item.customId, item]));
+    const manifestPath = getManifestPath(manifestDir, config.id || config.configId || 'unknown', runLabel);
+    const manifest: BatchJobManifest = (await readManifest(manifestPath)) || {
+        configId: config.id || config.configId || 'unknown',
+        runLabel,
+        createdAt: new Date().toISOString(),
+        jobs: [],
+    };
+    if (manifest.jobs.length > 0) {
+        logger.info(`[PipelineService] Resuming ${manifest.jobs.length} batch job(s) from manifest ${manifestPath}.`);
+    }
+
+    // Requests already in a submitted job are collected from that job, however the pending set has changed since
+    const submittedIds = new Set(manifest.jobs.flatMap(job => job.customIds));
+    for (const [modelId, client] of batchClients.entries()) {
+        const modelItems = pending.filter(item => item.modelId === modelId && !submittedIds.has(item.customId));
+        for (let start = 0; start < modelItems.length; start += MAX_REQUESTS_PER_BATCH) {
+            const chunk = modelItems.slice(start, start + MAX_REQUESTS_PER_BATCH);
+            const chunkIds = chunk.map(item => item.customId);
+            try {
+                const status = await client.submitBatch(chunk.map(item => ({
+                    customId: item.customId,
+                    options: {
+                        modelId,
+                        messages: item.messages.map(m => ({ role: m.role, content: m.content ?? '' })),
+                        temperature: item.temperature,
+                    },
+                })));
+                manifest.jobs.push({ modelId, batchId: status.batchId, customIds: chunkIds, state: status.state, submittedAt: new Date().toISOString() });
+                await writeManifest(manifestPath, manifest);
+                logger.info(`[PipelineService] Submitted batch ${status.batchId} for '${modelId}' (${chunk.length} requests).`);
+            } catch (error: any) {
+                logger.error(`[PipelineService] Batch submission for '${modelId}' failed: ${error.message}`);
+                for (const item of chunk) recordResult(item, null, error.message);
+                await report(chunk.length);
+            }
+        }
+    }
+
+    // --- Poll until every job has ended, collecting results as they arrive ---
+    const collectedBatchIds = new Set<string>();
+    const collect = async (job: BatchJobRecord, results: LLMBatchResult[]) => {
+        const byId = new Map(results.map(r => [r.customId, r]));
+        for (const customId of job.customIds) {
+            const item = itemsById.get(customId);
+            if (!item) continue;
+            const result = byId.get(customId);
+            if (!result) {
+                recordResult(item, null, 'No result returned for this request in the provider batch.');
+                continue;
+            }
+            recordResult(item, result.responseText, result.error);
+            if (result.usage) {
+                const totalCost = result.usage.totalCost
+                    || estimateModelCost(item.modelId, result.usage.inputTokens, result.usage.outputTokens) * BATCH_PRICE_MULTIPLIER;
+                mergeUsage(usageByModel, new Map([[item.modelId, { ...result.usage, totalCost, callCount: 1 }]]));
+            }
+            if (!result.error && result.responseText && llmCache && item.cacheKey) {
+                try {
+                    await llmCache.set(item.cacheKey, result.responseText);
+                } catch (cacheWriteError) {
+                    logger.error(`[PipelineService] Failed to write to cache: ${cacheWriteError}`);
+                }
+            }
+        }
+        collectedBatchIds.add(job.batchId);
+        await report(job.customIds.filter(id => itemsById.has(id)).length);
+    };
+
+    const pollBatchJobs = async () => {
+        const startedAt = Date.now();
+        const activeJobs = () => manifest.jobs.filter(job => !collectedBatchIds.has(job.batchId) && job.customIds.some(id => itemsById.has(id)));
+        while (activeJobs().length > 0) {
+            for (const job of activeJobs()) {
+                const client = batchClients.get(job.modelId)!;
+                try {
+                    const status = await client.getBatchStatus(job.batchId);
+                    if (status.state !== job.state) {
+                        job.state = status.state;
+                        await writeManifest(manifestPath, manifest);
+                    }
+                    if (status.state === 'ended') {
+                        logger.info(`[PipelineService] Batch ${job.batchId} for '${job.modelId}' ended (${status.providerStatus}). Downloading results...`);
+                        await collect(job, await client.getBatchResults(job.batchId));
+                    } else if (status.state === 'failed') {
+                        logger.error(`[PipelineService] Batch ${job.batchId} for '${job.modelId}' failed: ${status.error || status.providerStatus}`);
+                        await collect(job, job.customIds.map(customId => ({ customId, responseText: '', error: `Provider batch failed: ${status.error || status.providerStatus}` })));
+                    }
+                } catch (error: any) {
+                    // Transient polling errors should not abandon jobs that are still running on the provider side
+                    logger.warn(`[PipelineService] Could not check batch ${job.batchId}: ${error.message}. Will retry.`);
+                }
+            }
+
+            const remaining = activeJobs();
+            if (remaining.length === 0) break;
+            if (Date.now() - startedAt >= maxWaitMs) {
+                throw new Error(
+                    `Timed out after ${maxWaitMs}ms waiting for ${remaining.length} provider batch job(s). ` +
+                    `Job IDs are saved in ${manifestPath}; rerun the same blueprint with batch mode to resume.`
+                );
+            }
+            logger.info(`[PipelineService] Waiting on ${remaining.length} batch job(s); next check in ${Math.round(pollIntervalMs / 1000)}s.`);
+            await sleep(pollIntervalMs);
+        }
+        await fs.rm(manifestPath, { force: true });
+    };
+
+    // Per-call generation and batch polling run together; a failure in either fails the run once both have settled
+    const outcomes = await Promise.allSettled([runPerCallWork(), pollBatchJobs()]);
+    for (const outcome of outcomes) {
+        if (outcome.status === 'rejected') throw outcome.reason;
+    }
+    logger.info(`[PipelineService] Batch mode finished: ${completedCount}/${totalResponses} responses.`);
+    return { allResponsesMap, usageByModel };
+}
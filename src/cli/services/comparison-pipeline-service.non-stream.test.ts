@@ -144,4 +144,37 @@ describe('generateAllResponses circuit breaker', () => {
     );
     expect(autoFailWarnings).toHaveLength(0); // No auto-fails yet since only 2 failures per model
   });
-}); 
\ No newline at end of file
+}); 
+describe('generateAllResponses checkpoint', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('reuses checkpointed cells and reports only newly generated ones', async () => {
+    const config = createConfig('resume-model', 3);
+    mockedGetModelResponse.mockResolvedValue('Fresh response');
+    const onResponse = jest.fn();
+    const onProgress = jest.fn();
+    const checkpoint = {
+      completed: {
+        p1: {
+          'resume-model[temp:0.7]': {
+            finalAssistantResponseText: 'Checkpointed response',
+            fullConversationHistory: [],
+            hasError: false,
+            systemPromptUsed: null,
+          },
+        },
+      },
+      onResponse,
+    };
+
+    const result = await generateAllResponses(config, mockLogger, false, onProgress, undefined, undefined, undefined, checkpoint);
+
+    expect(mockedGetModelResponse).toHaveBeenCalledTimes(2);
+    expect(result.allResponsesMap.get('p1')?.modelResponses['resume-model[temp:0.7]'].finalAssistantResponseText).toBe('Checkpointed response');
+    expect(result.allResponsesMap.get('p2')?.modelResponses['resume-model[temp:0.7]'].finalAssistantResponseText).toBe('Fresh response');
+    expect(onResponse.mock.calls.map(call => call[0]).sort()).toEqual(['p2', 'p3']);
+    expect(onProgress).toHaveBeenLastCalledWith(3, 3);
+  });
+});
@@ -1,5 +1,5 @@
 import { ComparisonConfig, EvaluationMethod, FinalComparisonOutputV2, PromptResponseData, Evaluator } from '../types/cli_types';
-import { ConversationMessage } from '@/types/shared';
+import { ConversationMessage, ModelResponseDetail } from '@/types/shared';
 import { getModelResponse, DEFAULT_TEMPERATURE, TokenUsageInfo } from './llm-service';
 import { checkForErrors } from '../utils/response-utils';
 import { SimpleLogger } from '@/lib/blueprint-service';
@@ -37,6 +37,17 @@ export interface GenerateAllResponsesResult {
     usageByModel: Map<string, AccumulatedUsage>;
 }
 
+/**
+ * Hooks for resumable runs: cells already present in `completed` are reused
+ * instead of regenerated, and every newly generated response is reported
+ * through `onResponse` so it can be checkpointed.
+ */
+export interface GenerationCheckpoint {
+    /** Responses from an earlier attempt, keyed by promptId then effective model ID */
+    completed?: Record<string, Record<string, ModelResponseDetail>>;
+    onResponse?(promptId: string, effectiveModelId: string, response: ModelResponseDetail): void;
+}
+
 export async function generateAllResponses(
     config: ComparisonConfig,
     logger: SimpleLogger,
@@ -45,6 +56,7 @@ export async function generateAllResponses(
     genOptions?: { genTimeoutMs?: number; genRetries?: number },
     runLabel?: string,
     fixturesCtx?: { fixtures: FixtureSet; strict: boolean },
+    checkpoint?: GenerationCheckpoint,
 ): Promise<GenerateAllResponsesResult> {
     logger.info(`[PipelineService] Generating model responses... Caching: ${useCache}`);
 
@@ -196,6 +208,15 @@ export async function generateAllResponses(
                             finalEffectiveId = `${finalEffectiveId}[sp_idx:${sp_idx}]`;
                         }
                         
+                        // --- Resume: reuse responses completed by an earlier attempt of this run ---
+                        const checkpointed = checkpoint?.completed?.[promptConfig.id]?.[finalEffectiveId];
+                        if (checkpointed) {
+                            currentPromptData.modelResponses[finalEffectiveId] = checkpointed;
+                            generatedCount++;
+                            if (onProgress) await onProgress(generatedCount, totalResponsesToGenerate);
+                            return;
+                        }
+
                         logger.info(`[PipelineService] Processing prompt '${promptConfig.id}' with model '${modelId}' (effective: '${finalEffectiveId}'), temperature: ${tempValue}, system prompt index: ${sp_idx}.`);
 
                         // --- Circuit Breaker Check ---
@@ -440,6 +461,7 @@ export async function generateAllResponses(
                             fixtureSource,
                             responseTimeMs: totalApiCallMs > 0 ? totalApiCallMs : undefined,
                         };
+                        checkpoint?.onResponse?.(promptConfig.id, finalEffectiveId, currentPromptData.modelResponses[finalEffectiveId]);
                         generatedCount++;
                         logger.info(`[PipelineService] Generated ${generatedCount}/${totalResponsesToGenerate} responses.`);
                         if (onProgress) {
@@ -567,6 +589,7 @@ async function aggregateAndSaveResults(
             similarityMatrix: evaluationResults.similarityMatrix ?? undefined,
             perPromptSimilarities: evaluationResults.perPromptSimilarities ?? undefined,
             llmCoverageScores: evaluationResults.llmCoverageScores ?? undefined,
+            ...(evaluationResults.openEndedScores ? { openEndedScores: evaluationResults.openEndedScores } : {}),
         },
         errors: Object.keys(errors).length > 0 ? errors : undefined,
     };
@@ -7,6 +7,8 @@ import { saveResult as saveResultToStorage } from '@/lib/storageService';
 import { toSafeTimestamp } from '@/lib/timestampUtils';
 import { generateExecutiveSummary as generateExecutiveSummary } from './executive-summary-service';
 import { generateAllResponses, ProgressCallback, AccumulatedUsage } from './comparison-pipeline-service.non-stream';
+import { generateAllResponsesViaBatch, BatchModeOptions } from './comparison-pipeline-service.batch';
+import { RunCheckpointWriter } from './run-checkpoint-service';
 import { buildDeckXml, parseResponsesXml, validateResponses } from '@/cli/services/consumer-deck';
 import { collectConsumerSlices } from '@/cli/services/consumer-service';
 import crypto from 'crypto';
@@ -131,6 +133,7 @@ async function aggregateAndSaveResults(
             similarityMatrix: evaluationResults.similarityMatrix ?? undefined,
             perPromptSimilarities: evaluationResults.perPromptSimilarities ?? undefined,
             llmCoverageScores: evaluationResults.llmCoverageScores ?? undefined,
+            ...(evaluationResults.openEndedScores ? { openEndedScores: evaluationResults.openEndedScores } : {}),
         },
         errors: Object.keys(errors).length > 0 ? errors : undefined,
     };
@@ -279,7 +282,7 @@ export async function executeComparisonPipeline(
     blueprintFileName?: string,
     requireExecutiveSummary?: boolean,
     skipExecutiveSummary?: boolean,
-    genOptions?: { genTimeoutMs?: number; genRetries?: number },
+    genOptions?: { genTimeoutMs?: number; genRetries?: number; batch?: BatchModeOptions; resume?: boolean },
     prefilledCoverage?: Record<string, Record<string, any>>,
     fixturesCtx?: { fixtures: FixtureSet; strict: boolean },
     noSave?: boolean,
@@ -294,6 +297,16 @@ export async function executeComparisonPipeline(
     const generationStartMs = Date.now();
     let allResponsesMap: Map<string, PromptResponseData>;
     let pipelineUsageByModel = new Map<string, AccumulatedUsage>();
+    // Opt-in: route single-shot prompts through provider batch endpoints (Anthropic/OpenAI)
+    const generate = genOptions?.batch ? generateAllResponsesViaBatch : generateAllResponses;
+    // Checkpoint completed responses so a run that dies part way can be resumed (run-config --resume)
+    const checkpointConfigId = config.id || config.configId;
+    let checkpointWriter: RunCheckpointWriter | undefined;
+    if (!existingResponsesMap && !noSave && checkpointConfigId) {
+        checkpointWriter = genOptions?.resume
+            ? await RunCheckpointWriter.resume(checkpointConfigId, runLabel, logger)
+            : await RunCheckpointWriter.start(checkpointConfigId, runLabel, logger);
+    }
     if (existingResponsesMap) {
         allResponsesMap = existingResponsesMap;
     } else {
@@ -304,7 +317,7 @@ export async function executeComparisonPipeline(
 
         if (consumerModels.length === 0) {
             // No consumer models → normal generation
-            const genResult = await generateAllResponses(config, logger, useCache, onProgress, genOptions, runLabel, fixturesCtx);
+            const genResult = await generate(config, logger, useCache, onProgress, genOptions, runLabel, fixturesCtx, checkpointWriter);
             allResponsesMap = genResult.allResponsesMap;
             pipelineUsageByModel = genResult.usageByModel;
         } else {
@@ -320,7 +333,7 @@ export async function executeComparisonPipeline(
             if (!bulkMode) {
                 // Standard per-prompt generation for API models
                 const apiOnlyConfig = { ...config, models: apiModels } as ComparisonConfig;
-                const apiGenResult = await generateAllResponses(apiOnlyConfig, logger, useCache, onProgress, genOptions, runLabel, fixturesCtx);
+                const apiGenResult = await generate(apiOnlyConfig, logger, useCache, onProgress, genOptions, runLabel, fixturesCtx, checkpointWriter);
                 apiMap = apiGenResult.allResponsesMap;
                 pipelineUsageByModel = apiGenResult.usageByModel;
             } else {
@@ -466,6 +479,8 @@ export async function executeComparisonPipeline(
         }
     }
     
+    await checkpointWriter?.flush();
+
     const generationDurationMs = Date.now() - generationStartMs;
     const generationCompletedAt = new Date().toISOString();
 
@@ -662,6 +677,11 @@ export async function executeComparisonPipeline(
         pipelineTiming,
     );
 
+    // The run is saved, so its checkpoint is no longer needed
+    if (finalResult.fileName) {
+        await checkpointWriter?.clear();
+    }
+
     // Attach usage summary to results
     if (usageSummary) {
         finalResult.data.usageSummary = usageSummary;
@@ -10,9 +10,30 @@
  * @module cli/services/demographicAggregationService
  */
 
-import { WevalResult } from '@/types/shared';
-import { DTEFLeaderboardEntry } from '@/types/dtef';
-import { getSegmentPrefix, getCategoryLabel, SEGMENT_TYPE_LABELS } from '@/lib/segmentUtils';
+import { WevalPromptConfig, WevalResult } from '@/types/shared';
+import { DTEFContextSelection, DTEFLeaderboardEntry, DTEFSurveyData } from '@/types/dtef';
+import { getSegmentPrefix, getCategoryLabel, getIntersectionLevel, isKnownCategory } from '@/lib/segmentUtils';
+import { isDTEFResult, questionIdFromPromptId } from '@/lib/dtefResultUtils';
+import {
+    BiasObservation,
+    BiasSummary,
+    CalibrationForecast,
+    CalibrationSummary,
+    computeBiasSummary,
+    computeCalibrationSummary,
+    crossSegmentVariance,
+    buildPairwiseSignificanceMatrix,
+    PairwiseSignificanceMatrix,
+    computeNoiseFloorValue,
+    computeNormalizedScore,
+    getEffectiveSampleSize,
+    NOISE_CEILING_RELIABILITY_THRESHOLD,
+} from '@/lib/statisticalAnalysis';
+import { jsDivergenceSimilarity, parseDistribution } from '@/point-functions/distribution_metric';
+import { CALIBRATION_METRIC_NAMES } from '@/point-functions/individual_metric';
+import { getKnowledgeCutoff } from '@/lib/model-version-registry';
+import { parseModelIdForDisplay } from '@/app/utils/modelIdUtils';
+import { DemographicBlueprintService } from './demographicBlueprintService';
 
 /**
  * Individual evaluation run score for a (model, segment) pair.
@@ -24,6 +45,10 @@ export interface RunScore {
     configId?: string;
     runLabel?: string;
     timestamp?: string;
+    /** Survey round of the evaluated data, when the blueprint was tagged with one */
+    roundId?: string;
+    /** Release date of that round (YYYY-MM-DD) */
+    roundReleaseDate?: string;
 }
 
 /**
@@ -38,10 +63,36 @@ export interface SegmentModelScore {
     avgCoverageExtent: number;
     /** Number of prompts evaluated */
     promptCount: number;
+    /** Average of each distribution metric recorded by the point functions, keyed by metric name */
+    metricScores?: Record<string, number>;
     /** Individual evaluation runs for this (model, segment) pair */
     runs?: RunScore[];
+    /** Score rescaled so 0 = population marginal and 1 = sampling noise ceiling (present when survey data was supplied) */
+    normalizedScore?: number;
+    /** False when the segment's noise ceiling is below the reliability threshold */
+    reliable?: boolean;
 }
 
+/**
+ * Data-quality reference for one survey segment: where the population-marginal
+ * baseline and the sampling noise ceiling sit for its questions. Small
+ * segments have low ceilings — a perfect predictor of a 33-person country
+ * segment still scores well under 1.
+ */
+export interface SegmentReliability {
+    /** Effective respondent count (Kish n_eff for weighted surveys) */
+    sampleSize: number;
+    /** Mean sampling noise ceiling over the segment's questions */
+    noiseCeiling: number;
+    /** Mean JSD similarity of the population marginal to the segment's distributions */
+    marginalScore: number;
+    /** Whether the noise ceiling clears NOISE_CEILING_RELIABILITY_THRESHOLD */
+    reliable: boolean;
+}
+
+/** surveyId → segmentId → reliability reference */
+export type SurveySegmentReliability = Record<string, Record<string, SegmentReliability>>;
+
 /**
  * Aggregated model performance across all segments.
  */
@@ -57,12 +108,24 @@ export interface AggregatedModelResult {
     segmentScores: SegmentModelScore[];
     /** Score standard deviation across segments (measures consistency) */
     segmentStdDev: number;
+    /** Score standard deviation across paraphrases and option orders of the same prompt (measures robustness; present when variants were run) */
+    variantStdDev?: number;
+    /** The same across paraphrases only, in the original option order */
+    paraphraseStdDev?: number;
+    /** The same across option orders only, with the original wording */
+    optionOrderStdDev?: number;
+    /** Prompts scored both as written and in at least one variant */
+    variantPromptCount?: number;
     /** Best performing segment */
     bestSegment?: { id: string; label: string; score: number };
     /** Worst performing segment */
     worstSegment?: { id: string; label: string; score: number };
     /** Overall DPD (max gap between best and worst segment across all dimensions) */
     overallDPD?: number;
+    /** Per-metric average across segments, for re-ranking by an alternative metric */
+    metricScores?: Record<string, number>;
+    /** Average normalized score across reliable segments */
+    normalizedScore?: number;
 }
 
 /**
@@ -71,16 +134,43 @@ export interface AggregatedModelResult {
  */
 export interface StrataDisparityEntry {
     modelId: string;
-    /** Category key, e.g. 'ageGroup', 'gender', 'country' */
+    /** Category key, e.g. 'ageGroup', 'gender', 'country', or 'ageGroup+gender' for crossed segments */
     category: string;
-    /** Human-readable category label, e.g. 'Age', 'Gender', 'Country' */
+    /** Human-readable category label, e.g. 'Age', 'Gender', 'Age × Gender' */
     categoryLabel: string;
+    /** Number of crossed attributes in this category (1 = single-attribute) */
+    intersectionLevel: number;
     /** Number of segments in this category for this model */
     segmentCount: number;
     /** Absolute gap between best and worst segment within the category */
     absoluteGap: number;
     bestSegment: { id: string; label: string; score: number };
     worstSegment: { id: string; label: string; score: number };
+    /** The same comparison on normalized scores of reliable segments (present when 2+ exist) */
+    normalized?: {
+        absoluteGap: number;
+        bestSegment: { id: string; label: string; score: number };
+        worstSegment: { id: string; label: string; score: number };
+    };
+}
+
+/**
+ * Disparity across all segments at one intersection level for a model,
+ * e.g. the gap between the best and worst age × gender cell.
+ */
+export interface IntersectionLevelDisparity {
+    modelId: string;
+    /** Number of crossed attributes (1 = single-attribute segments) */
+    level: number;
+    segmentCount: number;
+    /** Mean score across segments at this level */
+    meanScore: number;
+    /** Gap between the best and worst segment at this level */
+    absoluteGap: number;
+    /** Largest within-category gap among this level's categories */
+    maxCategoryGap: number;
+    bestSegment: { id: string; label: string; score: number };
+    worstSegment: { id: string; label: string; score: number };
 }
 
 /**
@@ -100,6 +190,8 @@ export interface ContextDataPoint {
     runLabel?: string;
     /** Timestamp for linking to evaluation run detail page */
     timestamp?: string;
+    /** How the context questions were chosen; absent for the default list order */
+    contextSelection?: DTEFContextSelection;
 }
 
 /**
@@ -126,6 +218,20 @@ export interface ModelResponsiveness {
 export interface ContextAnalysis {
     models: ModelResponsiveness[];
     contextLevelsFound: number[];
+    /** Per-model curves split by context selection strategy (present when 2+ strategies were run) */
+    strategyCurves?: ContextStrategyCurve[];
+}
+
+/**
+ * Mean score by context count for one model under one context selection
+ * strategy. Zero-context runs have no strategy and appear in every curve.
+ */
+export interface ContextStrategyCurve {
+    modelId: string;
+    strategy: DTEFContextSelection;
+    points: { contextCount: number; score: number; segmentCount: number }[];
+    /** Mean of the per-segment regression slopes */
+    slope: number;
 }
 
 /**
@@ -136,8 +242,10 @@ export interface ModelDPD {
     modelId: string;
     /** Overall DPD: max gap across all dimensions */
     overallDPD: number;
-    /** Per-dimension DPD */
-    dimensionDPD: { dimension: string; dimensionLabel: string; dpd: number }[];
+    /** Per-dimension DPD; normalizedDpd is the gap between normalized scores of reliable segments */
+    dimensionDPD: { dimension: string; dimensionLabel: string; dpd: number; normalizedDpd?: number }[];
+    /** Max normalized gap across dimensions (present when any dimension has one) */
+    normalizedOverallDPD?: number;
 }
 
 /**
@@ -151,6 +259,23 @@ export interface QuestionDPD {
     worstSegment: { id: string; score: number };
 }
 
+/**
+ * One model's score on one question for one segment, with the run it came
+ * from so the heatmap can link through to it.
+ */
+export interface SegmentQuestionCell {
+    modelId: string;
+    segmentId: string;
+    questionId: string;
+    score: number;
+    /** Distribution parsed from the model's response, as reported (usually percentages) */
+    predicted?: number[];
+    contextCount: number;
+    configId?: string;
+    runLabel?: string;
+    timestamp?: string;
+}
+
 /**
  * Stereotype score: compares zero-context vs full-context performance.
  * High zero-context accuracy + low improvement = possible stereotype application.
@@ -163,6 +288,141 @@ export interface StereotypeScore {
     improvementRatio: number;
 }
 
+/**
+ * Calibration of a model's probabilistic individual-answer forecasts.
+ */
+export interface ModelCalibration extends CalibrationSummary {
+    modelId: string;
+}
+
+/**
+ * Which way a model's distribution errors lean, beyond how large they are.
+ */
+export interface ModelBiasDirection extends BiasSummary {
+    modelId: string;
+}
+
+/** Population-marginal distributions by survey ID, then question ID */
+export type PopulationMarginalsBySurvey = Record<string, Record<string, number[]>>;
+
+/** Own-opinion probe answers (percentages) by model ID, then question ID */
+export type OwnOpinionsByModel = Record<string, Record<string, number[]>>;
+
+/**
+ * How much a model projects its own view onto segments and flattens the
+ * differences between them.
+ */
+export interface ModelHomogenization {
+    modelId: string;
+    /** Mean JSD similarity of segment predictions to the model's own-opinion answer (present when it answered the probe) */
+    ownOpinionSimilarity?: number;
+    /** Mean JSD similarity of the same predictions to the survey distributions */
+    truthSimilarity?: number;
+    /** ownOpinionSimilarity − truthSimilarity: positive = predictions sit closer to its own view than to the segments */
+    ownOpinionPull?: number;
+    /** Share of predictions more similar to the own answer than to the truth */
+    closerToOwnShare?: number;
+    ownOpinionPairCount: number;
+    /** Mean over questions of the variance of predicted option shares across segments (pp²) */
+    predictedSegmentVariance: number;
+    /** The same for the survey distributions of the segments predicted */
+    trueSegmentVariance: number;
+    /** Predicted / true cross-segment variance: below 1 = segments predicted more alike than they are */
+    varianceRatio: number | null;
+    /** Questions predicted for two or more segments */
+    questionCount: number;
+}
+
+/**
+ * How much a model's score on a prompt moves when the question is
+ * paraphrased or its options reordered. Each is the square root of the
+ * per-prompt score variance (original plus variants), averaged over prompts.
+ */
+export interface ModelVariantRobustness {
+    modelId: string;
+    variantStdDev: number;
+    paraphraseStdDev?: number;
+    optionOrderStdDev?: number;
+    promptCount: number;
+}
+
+/**
+ * A model's score when shown other segments' answers (few-shot-segments),
+ * next to its leaderboard score on the same segments. Kept apart from the
+ * leaderboard, since those prompts carry part of the answer.
+ */
+export interface ModelFewShotComparison {
+    modelId: string;
+    fewShotScore: number;
+    segmentCount: number;
+    /** Leaderboard score on the segments that also have a few-shot score */
+    leaderboardScore?: number;
+    /** Mean per-segment few-shot score minus leaderboard score */
+    gain?: number;
+}
+
+/** A parsed single-select prediction for one (model, segment, question) */
+interface DistributionPrediction {
+    modelId: string;
+    surveyId: string;
+    segmentId: string;
+    questionId: string;
+    contextCount: number;
+    /** Percentages */
+    predicted: number[];
+    truth: number[];
+    ordinal: boolean;
+    /** Population marginal recorded by the blueprint */
+    marginal?: number[];
+}
+
+/**
+ * A model's scores on survey rounds released before vs. after its knowledge
+ * cutoff. Post-cutoff rounds cannot have been in its training data, so the
+ * post-cutoff score is robust to contamination.
+ */
+export interface ModelRoundGeneralisation {
+    modelId: string;
+    /** Latest date the model's training data could include (YYYY-MM-DD) */
+    knowledgeCutoff: string;
+    /** Whether the cutoff is the published one or the release date as a fallback */
+    cutoffSource: 'knowledge-cutoff' | 'release-date';
+    /** Mean score on rounds released on or before the cutoff */
+    preCutoffScore?: number;
+    preCutoffRounds: string[];
+    preCutoffResultCount: number;
+    /** Mean score on rounds released after the cutoff (contamination-robust) */
+    postCutoffScore?: number;
+    postCutoffRounds: string[];
+    postCutoffResultCount: number;
+    /** preCutoffScore − postCutoffScore, when both exist */
+    gap?: number;
+    /** True when the model scores markedly worse on rounds it cannot have seen */
+    contaminationFlag: boolean;
+}
+
+/** Pre- minus post-cutoff gap above which a model is flagged as possibly contaminated */
+export const CONTAMINATION_GAP_THRESHOLD = 0.05;
+
+/**
+ * Pairwise significance of the model ranking, overall, within each segment
+ * category and within each survey. Units are segments: each model's score
+ * on a segment is paired with every other model's score on the same segment.
+ */
+export interface ModelSignificance {
+    overall: PairwiseSignificanceMatrix;
+    /** Keyed by segment prefix, e.g. `ageGroup` (only with `significanceBreakdowns`) */
+    byCategory?: Record<string, PairwiseSignificanceMatrix>;
+    /** Keyed by survey ID (only with `significanceBreakdowns`, for results spanning two or more surveys) */
+    bySurvey?: Record<string, PairwiseSignificanceMatrix>;
+}
+
+/** Per-survey segment scores: surveyId → modelId → segmentId → score */
+export type SurveySegmentScores = Map<string, Map<string, Map<string, number>>>;
+
+/** Sign-flip permutations per model pair when testing the leaderboard ranking */
+export const SIGNIFICANCE_PERMUTATIONS = 2000;
+
 /**
  * Full aggregation output.
  */
@@ -184,8 +444,24 @@ export interface DemographicAggregation {
     modelDPDs?: ModelDPD[];
     /** Stereotype scores (present when multi-context results exist) */
     stereotypeScores?: StereotypeScore[];
+    /** Per-model own-opinion projection and cross-segment variance (present when model responses could be parsed) */
+    homogenization?: ModelHomogenization[];
     /** Per-question DPD analysis (questions with highest demographic bias) */
     questionDPDs?: QuestionDPD[];
+    /** Per-model disparities at each intersection level (present when crossed segments exist) */
+    intersectionDisparities?: IntersectionLevelDisparity[];
+    /** Per-model calibration of individual-answer probabilities (present when any were scored) */
+    calibration?: ModelCalibration[];
+    /** Per-model direction of distribution errors (present when model responses could be parsed) */
+    biasDirection?: ModelBiasDirection[];
+    /** Per-model pre- vs. post-knowledge-cutoff scores (present when results carry round release dates) */
+    roundGeneralisation?: ModelRoundGeneralisation[];
+    /** Pairwise significance matrices and tied-rank tiers (present when 2+ models were evaluated) */
+    significance?: ModelSignificance;
+    /** Per-model few-shot-segments scores, kept out of everything above (present when any were run) */
+    fewShot?: ModelFewShotComparison[];
+    /** Noise ceiling below which segments are flagged unreliable (present when scores were normalized) */
+    reliabilityThreshold?: number;
 }
 
 /**
@@ -216,6 +492,33 @@ function normalizeSegmentAttributes(attrs: Record<string, string>): Record<strin
     return result;
 }
 
+/**
+ * Per-model scores extracted from a single result.
+ */
+export interface ModelScoreSummary {
+    avgScore: number;
+    promptCount: number;
+    /** Average of each distribution metric, when the point functions recorded them */
+    metricScores?: Record<string, number>;
+}
+
+type MetricAccumulator = Record<string, { total: number; count: number }>;
+
+/** Per-forecast calibration values are summarised by computeCalibration, not averaged as similarity metrics */
+const CALIBRATION_METRICS = new Set<string>(CALIBRATION_METRIC_NAMES);
+
+function addToAccumulator(acc: MetricAccumulator, name: string, value: number): void {
+    if (!acc[name]) acc[name] = { total: 0, count: 0 };
+    acc[name].total += value;
+    acc[name].count += 1;
+}
+
+function averageAccumulator(acc: MetricAccumulator): Record<string, number> | undefined {
+    const entries = Object.entries(acc).filter(([, a]) => a.count > 0);
+    if (entries.length === 0) return undefined;
+    return Object.fromEntries(entries.map(([name, a]) => [name, a.total / a.count]));
+}
+
 /**
  * Aggregates DTEF evaluation results by demographic segment.
  */
@@ -224,9 +527,7 @@ export class DemographicAggregationService {
      * Check if a WevalResult contains DTEF metadata.
      */
     static isDTEFResult(result: WevalResult): boolean {
-        return result.config?.tags?.includes('dtef') ||
-            !!(result.config?.context as any)?.dtef ||
-            !!result.dtefMetadata;
+        return isDTEFResult(result);
     }
 
     /**
@@ -241,6 +542,38 @@ export class DemographicAggregationService {
         return false;
     }
 
+    /**
+     * Check if a WevalResult is an own-opinion probe. Probes have no segment
+     * to score, so they are kept out of leaderboards and feed the
+     * homogenization metric only.
+     */
+    static isOwnOpinionResult(result: WevalResult): boolean {
+        const ctx = (result.config?.context as any)?.dtef;
+        return ctx?.evalType === 'own-opinion' || !!result.config?.tags?.includes('own-opinion');
+    }
+
+    /**
+     * Check if a WevalResult asks its questions in a paraphrase or another
+     * option order. Variants repeat an original blueprint, so they are kept
+     * out of leaderboards and feed the robustness metric only.
+     */
+    static isQuestionVariantResult(result: WevalResult): boolean {
+        const variant = (result.config?.context as any)?.dtef?.questionVariant;
+        return !!(variant?.paraphraseIndex || variant?.orderIndex) || !!result.config?.tags?.includes('question-variant');
+    }
+
+    /**
+     * Whether a result is a segment prediction that counts toward the
+     * leaderboard and the per-segment and per-question analyses.
+     */
+    static isLeaderboardResult(result: WevalResult): boolean {
+        return this.isDTEFResult(result)
+            && !this.isExperimentalResult(result)
+            && !this.isOwnOpinionResult(result)
+            && !this.isQuestionVariantResult(result)
+            && !this.isFewShotResult(result);
+    }
+
     /**
      * Extract DTEF metadata from a WevalResult.
      * Metadata can be in the config context (from blueprint) or in dtefMetadata (post-processing).
@@ -276,38 +609,96 @@ export class DemographicAggregationService {
         return null;
     }
 
+    /**
+     * Extract the survey round and its release date from a result's blueprint
+     * context or DTEF metadata. The round defaults to the survey ID.
+     * Returns null when the result was not tagged with a release date.
+     */
+    static extractRoundInfo(result: WevalResult): { roundId: string; releaseDate: string } | null {
+        const ctx = (result.config?.context as any)?.dtef;
+        const releaseDate = ctx?.roundReleaseDate ?? result.dtefMetadata?.roundReleaseDate;
+        if (typeof releaseDate !== 'string' || !releaseDate) return null;
+        const roundId = ctx?.roundId ?? result.dtefMetadata?.roundId ?? ctx?.surveyId ?? result.dtefMetadata?.surveyId ?? 'unknown';
+        return { roundId, releaseDate };
+    }
+
     /**
      * Extract per-model coverage scores from a WevalResult.
-     * Returns a map of modelId → average coverage score for this result.
+     * Returns a map of modelId → average coverage score for this result,
+     * plus the average of each recorded distribution metric when available.
+     * Open-ended prompts score by embedding similarity (openEndedScores) instead.
      */
-    static extractModelScores(result: WevalResult): Record<string, { avgScore: number; promptCount: number }> {
-        const scores: Record<string, { totalScore: number; count: number }> = {};
+    static extractModelScores(result: WevalResult): Record<string, ModelScoreSummary> {
+        const scores: Record<string, { totalScore: number; count: number; metrics: MetricAccumulator }> = {};
 
         const coverageScores = result.evaluationResults?.llmCoverageScores;
-        if (!coverageScores) return {};
+        const openEndedScores = result.evaluationResults?.openEndedScores;
+        if (!coverageScores && !openEndedScores) return {};
+
+        const ensure = (modelId: string) => {
+            if (!scores[modelId]) {
+                scores[modelId] = { totalScore: 0, count: 0, metrics: {} };
+            }
+            return scores[modelId];
+        };
+
+        // Open-ended prompts are scored by embedding similarity to the segment's real answers;
+        // their LLM-judged theme coverage is recorded as a separate metric rather than the score.
+        for (const promptId of Object.keys(openEndedScores || {})) {
+            const promptScores = openEndedScores![promptId];
+            for (const modelId of Object.keys(promptScores || {})) {
+                const openEnded = promptScores[modelId];
+                if (!openEnded || typeof openEnded.score !== 'number') continue;
+
+                const entry = ensure(modelId);
+                entry.totalScore += openEnded.score;
+                entry.count += 1;
+                addToAccumulator(entry.metrics, 'centroid-similarity', openEnded.centroidSimilarity);
+                addToAccumulator(entry.metrics, 'neighbour-coverage', openEnded.neighbourCoverage);
+                addToAccumulator(entry.metrics, 'diversity-match', openEnded.diversityMatch);
+
+                const themeCoverage = coverageScores?.[promptId]?.[modelId];
+                if (themeCoverage && typeof themeCoverage.avgCoverageExtent === 'number') {
+                    addToAccumulator(entry.metrics, 'theme-coverage', themeCoverage.avgCoverageExtent);
+                }
+            }
+        }
 
         // llmCoverageScores is [promptId][modelId] → CoverageResult
-        for (const promptId of Object.keys(coverageScores)) {
-            const promptScores = coverageScores[promptId];
-            if (!promptScores) continue;
+        for (const promptId of Object.keys(coverageScores || {})) {
+            const promptScores = coverageScores![promptId];
+            if (!promptScores || openEndedScores?.[promptId]) continue;
 
             for (const modelId of Object.keys(promptScores)) {
                 const coverage = promptScores[modelId];
                 if (!coverage || typeof coverage.avgCoverageExtent !== 'number') continue;
 
-                if (!scores[modelId]) {
-                    scores[modelId] = { totalScore: 0, count: 0 };
+                const entry = ensure(modelId);
+                entry.totalScore += coverage.avgCoverageExtent;
+                entry.count += 1;
+
+                // Average each metric over this prompt's points, then accumulate per prompt
+                const promptMetrics: MetricAccumulator = {};
+                for (const assessment of coverage.pointAssessments || []) {
+                    if (!assessment.metrics) continue;
+                    for (const [name, value] of Object.entries(assessment.metrics)) {
+                        if (typeof value !== 'number' || isNaN(value) || CALIBRATION_METRICS.has(name)) continue;
+                        addToAccumulator(promptMetrics, name, value);
+                    }
+                }
+                for (const [name, acc] of Object.entries(promptMetrics)) {
+                    addToAccumulator(entry.metrics, name, acc.total / acc.count);
                 }
-                scores[modelId].totalScore += coverage.avgCoverageExtent;
-                scores[modelId].count += 1;
             }
         }
 
-        const result2: Record<string, { avgScore: number; promptCount: number }> = {};
+        const result2: Record<string, ModelScoreSummary> = {};
         for (const [modelId, data] of Object.entries(scores)) {
+            const metricScores = averageAccumulator(data.metrics);
             result2[modelId] = {
                 avgScore: data.count > 0 ? data.totalScore / data.count : 0,
                 promptCount: data.count,
+                ...(metricScores ? { metricScores } : {}),
             };
         }
         return result2;
@@ -329,8 +720,8 @@ export class DemographicAggregationService {
         }
 
         const configId = result.config?.configId || '';
-        // Match -c{N} suffix (new format)
-        const cMatch = configId.match(/-c(\d+)$/);
+        // Match -c{N} suffix (new format), optionally followed by a context selection suffix
+        const cMatch = configId.match(/-c(\d+)(?:-sim|-corr|-rand\d+)?$/);
         if (cMatch) return parseInt(cMatch[1], 10);
 
         // Legacy: -ctx suffix means "full context"
@@ -355,6 +746,25 @@ export class DemographicAggregationService {
         return 0;
     }
 
+    /**
+     * Whether a result used the few-shot-segments context format, which shows
+     * other segments' answers to the target question instead of context questions.
+     */
+    static isFewShotResult(result: WevalResult): boolean {
+        return (result.config?.context as any)?.dtef?.contextFormat === 'few-shot-segments';
+    }
+
+    /**
+     * Context selection strategy recorded in a result's DTEF metadata.
+     * Results from before strategies existed used list order.
+     */
+    static extractContextSelection(result: WevalResult): DTEFContextSelection {
+        const selection = (result.config?.context as any)?.dtef?.contextSelection;
+        return selection === 'embedding' || selection === 'correlation' || selection === 'random'
+            ? selection
+            : 'order';
+    }
+
     /**
      * Simple least-squares linear regression slope for (x, y) points.
      * Returns the slope of the best-fit line. Works with 2+ points.
@@ -387,18 +797,22 @@ export class DemographicAggregationService {
         const tuples: {
             modelId: string; segmentId: string; contextCount: number; score: number;
             configId?: string; runLabel?: string; timestamp?: string;
+            contextSelection: DTEFContextSelection;
         }[] = [];
         const contextLevels = new Set<number>();
 
         for (const result of results) {
             const ctx = this.extractDTEFContext(result);
             if (!ctx) continue;
+            // Few-shot prompts carry other segments' answers instead of context questions
+            if (this.isFewShotResult(result)) continue;
 
             const contextCount = this.extractContextCount(result);
             // Skip results where context count cannot be determined
             if (contextCount === null) continue;
 
             contextLevels.add(contextCount);
+            const contextSelection = this.extractContextSelection(result);
             const modelScores = this.extractModelScores(result);
 
             for (const [modelId, data] of Object.entries(modelScores)) {
@@ -410,6 +824,7 @@ export class DemographicAggregationService {
                     configId: result.configId,
                     runLabel: result.runLabel,
                     timestamp: result.timestamp,
+                    contextSelection,
                 });
             }
         }
@@ -426,6 +841,7 @@ export class DemographicAggregationService {
             segMap.get(t.segmentId)!.push({
                 contextCount: t.contextCount, score: t.score,
                 configId: t.configId, runLabel: t.runLabel, timestamp: t.timestamp,
+                ...(t.contextSelection !== 'order' ? { contextSelection: t.contextSelection } : {}),
             });
         }
 
@@ -451,19 +867,84 @@ export class DemographicAggregationService {
         // Sort by slope descending (most context-responsive first)
         models.sort((a, b) => b.overallSlope - a.overallSlope);
 
+        const strategyCurves = this.computeContextStrategyCurves(tuples);
+
         return {
             models,
             contextLevelsFound: Array.from(contextLevels).sort((a, b) => a - b),
+            ...(strategyCurves ? { strategyCurves } : {}),
         };
     }
 
+    /**
+     * Split context curves by selection strategy so e.g. correlation-ranked
+     * context can be compared with list order at equal context counts.
+     * Zero-context points carry no strategy and are shared by every curve.
+     * Returns undefined unless 2+ strategies were run with context.
+     */
+    private static computeContextStrategyCurves(
+        tuples: { modelId: string; segmentId: string; contextCount: number; score: number; contextSelection: DTEFContextSelection }[],
+    ): ContextStrategyCurve[] | undefined {
+        const strategies = new Set(tuples.filter(t => t.contextCount > 0).map(t => t.contextSelection));
+        if (strategies.size < 2) return undefined;
+
+        const curves: ContextStrategyCurve[] = [];
+        const modelIds = Array.from(new Set(tuples.map(t => t.modelId))).sort();
+        for (const modelId of modelIds) {
+            for (const strategy of Array.from(strategies).sort()) {
+                const points = tuples.filter(t =>
+                    t.modelId === modelId && (t.contextCount === 0 || t.contextSelection === strategy),
+                );
+                if (!points.some(p => p.contextCount > 0)) continue;
+
+                const bySegment = new Map<string, ContextDataPoint[]>();
+                const byLevel = new Map<number, { total: number; count: number; segments: Set<string> }>();
+                for (const p of points) {
+                    if (!bySegment.has(p.segmentId)) bySegment.set(p.segmentId, []);
+                    bySegment.get(p.segmentId)!.push({ contextCount: p.contextCount, score: p.score });
+                    if (!byLevel.has(p.contextCount)) byLevel.set(p.contextCount, { total: 0, count: 0, segments: new Set() });
+                    const level = byLevel.get(p.contextCount)!;
+                    level.total += p.score;
+                    level.count++;
+                    level.segments.add(p.segmentId);
+                }
+
+                const slopes = Array.from(bySegment.values())
+                    .filter(dataPoints => dataPoints.length >= 2)
+                    .map(dataPoints => this.linearRegressionSlope(dataPoints));
+
+                curves.push({
+                    modelId,
+                    strategy,
+                    points: Array.from(byLevel.entries())
+                        .sort(([a], [b]) => a - b)
+                        .map(([contextCount, level]) => ({
+                            contextCount,
+                            score: level.total / level.count,
+                            segmentCount: level.segments.size,
+                        })),
+                    slope: slopes.length > 0 ? slopes.reduce((a, b) => a + b, 0) / slopes.length : 0,
+                });
+            }
+        }
+        return curves;
+    }
+
     /**
      * Aggregate DTEF results across all segments for a survey.
      * By default, experimental results are excluded from aggregation.
+     * Own-opinion probes, question variants and few-shot-segments results
+     * each feed their own report and never a segment score.
      */
     static aggregate(
         results: WevalResult[],
-        options?: { includeExperimental?: boolean },
+        options?: {
+            includeExperimental?: boolean;
+            segmentReliability?: SurveySegmentReliability;
+            populationMarginals?: PopulationMarginalsBySurvey;
+            /** Also test the ranking within each segment category and survey, not just overall */
+            significanceBreakdowns?: boolean;
+        },
     ): DemographicAggregation {
         let dtefResults = results.filter(r => this.isDTEFResult(r));
 
@@ -471,6 +952,16 @@ export class DemographicAggregationService {
             dtefResults = dtefResults.filter(r => !this.isExperimentalResult(r));
         }
 
+        const ownOpinionResults = dtefResults.filter(r => this.isOwnOpinionResult(r));
+        dtefResults = dtefResults.filter(r => !this.isOwnOpinionResult(r));
+
+        const robustness = new Map(this.computeVariantRobustness(dtefResults).map(r => [r.modelId, r]));
+        dtefResults = dtefResults.filter(r => !this.isQuestionVariantResult(r));
+
+        // Few-shot prompts show other segments' true answers, so they never stand in for a segment's score
+        const fewShotResults = dtefResults.filter(r => this.isFewShotResult(r));
+        dtefResults = dtefResults.filter(r => !this.isFewShotResult(r));
+
         if (dtefResults.length === 0) {
             return {
                 surveyId: 'unknown',
@@ -493,6 +984,8 @@ export class DemographicAggregationService {
         // Also collect ALL runs per (model, segment) for per-run drill-downs.
         const scoreMap = new Map<string, { score: SegmentModelScore; contextCount: number }>();
         const allRunsMap = new Map<string, RunScore[]>();
+        // The same highest-context rule within each survey, for per-survey significance
+        const surveyScoreMap = new Map<string, { surveyId: string; modelId: string; segmentId: string; score: number; contextCount: number }>();
 
         for (const result of dtefResults) {
             const ctx = this.extractDTEFContext(result);
@@ -500,6 +993,8 @@ export class DemographicAggregationService {
 
             const contextCount = this.extractContextCount(result) ?? 0;
             const modelScores = this.extractModelScores(result);
+            const round = this.extractRoundInfo(result);
+            const reliability = options?.segmentReliability?.[ctx.surveyId]?.[ctx.segmentId];
 
             for (const [modelId, data] of Object.entries(modelScores)) {
                 const key = `${modelId}::${ctx.segmentId}`;
@@ -513,6 +1008,7 @@ export class DemographicAggregationService {
                     configId: result.configId,
                     runLabel: result.runLabel,
                     timestamp: result.timestamp,
+                    ...(round ? { roundId: round.roundId, roundReleaseDate: round.releaseDate } : {}),
                 });
 
                 const existing = scoreMap.get(key);
@@ -524,12 +1020,19 @@ export class DemographicAggregationService {
                     modelId,
                     avgCoverageExtent: data.avgScore,
                     promptCount: data.promptCount,
+                    ...(data.metricScores ? { metricScores: data.metricScores } : {}),
+                    ...this.normalizeSegmentScore(data.avgScore, reliability),
                 };
 
                 // Keep the highest-context result for each (model, segment) pair
                 if (!existing || contextCount > existing.contextCount) {
                     scoreMap.set(key, { score, contextCount });
                 }
+                const surveyKey = `${ctx.surveyId}::${key}`;
+                const existingInSurvey = surveyScoreMap.get(surveyKey);
+                if (!existingInSurvey || contextCount > existingInSurvey.contextCount) {
+                    surveyScoreMap.set(surveyKey, { surveyId: ctx.surveyId, modelId, segmentId: ctx.segmentId, score: data.avgScore, contextCount });
+                }
             }
         }
 
@@ -568,6 +1071,21 @@ export class DemographicAggregationService {
             // Overall DPD = max_segment - min_segment score
             const overallDPD = (best && worst) ? best.avgCoverageExtent - worst.avgCoverageExtent : 0;
 
+            // Per-metric averages across the segments that recorded them
+            const metricAcc: MetricAccumulator = {};
+            for (const seg of segmentScores) {
+                for (const [name, value] of Object.entries(seg.metricScores || {})) {
+                    addToAccumulator(metricAcc, name, value);
+                }
+            }
+            const metricScores = averageAccumulator(metricAcc);
+
+            const normalized = segmentScores
+                .filter(s => s.reliable && s.normalizedScore != null)
+                .map(s => s.normalizedScore!);
+
+            const modelRobustness = robustness.get(modelId);
+
             modelResults.push({
                 modelId,
                 overallScore,
@@ -575,9 +1093,17 @@ export class DemographicAggregationService {
                 totalPrompts,
                 segmentScores,
                 segmentStdDev: stdDev,
+                ...(modelRobustness ? {
+                    variantStdDev: modelRobustness.variantStdDev,
+                    ...(modelRobustness.paraphraseStdDev != null ? { paraphraseStdDev: modelRobustness.paraphraseStdDev } : {}),
+                    ...(modelRobustness.optionOrderStdDev != null ? { optionOrderStdDev: modelRobustness.optionOrderStdDev } : {}),
+                    variantPromptCount: modelRobustness.promptCount,
+                } : {}),
                 bestSegment: best ? { id: best.segmentId, label: best.segmentLabel, score: best.avgCoverageExtent } : undefined,
                 worstSegment: worst ? { id: worst.segmentId, label: worst.segmentLabel, score: worst.avgCoverageExtent } : undefined,
                 overallDPD,
+                ...(metricScores ? { metricScores } : {}),
+                ...(normalized.length > 0 ? { normalizedScore: normalized.reduce((a, b) => a + b, 0) / normalized.length } : {}),
             });
         }
 
@@ -588,15 +1114,16 @@ export class DemographicAggregationService {
         const disparities: StrataDisparityEntry[] = [];
         for (const model of modelResults) {
             // Group this model's segment scores by category prefix
-            const byCategory = new Map<string, { id: string; label: string; score: number }[]>();
+            const byCategory = new Map<string, { id: string; label: string; score: number; normalizedScore?: number }[]>();
             for (const seg of model.segmentScores) {
                 const prefix = getSegmentPrefix(seg.segmentId);
-                if (!SEGMENT_TYPE_LABELS[prefix]) continue;
+                if (!isKnownCategory(prefix)) continue;
                 if (!byCategory.has(prefix)) byCategory.set(prefix, []);
                 byCategory.get(prefix)!.push({
                     id: seg.segmentId,
                     label: seg.segmentLabel,
                     score: seg.avgCoverageExtent,
+                    ...(seg.reliable && seg.normalizedScore != null ? { normalizedScore: seg.normalizedScore } : {}),
                 });
             }
             // For each category with 2+ segments, compute the within-category gap
@@ -605,14 +1132,27 @@ export class DemographicAggregationService {
                 segments.sort((a, b) => b.score - a.score);
                 const best = segments[0];
                 const worst = segments[segments.length - 1];
+                const normalizedSegments = segments
+                    .filter(s => s.normalizedScore != null)
+                    .sort((a, b) => b.normalizedScore! - a.normalizedScore!);
+                const nBest = normalizedSegments[0];
+                const nWorst = normalizedSegments[normalizedSegments.length - 1];
                 disparities.push({
                     modelId: model.modelId,
                     category: prefix,
                     categoryLabel: getCategoryLabel(prefix),
+                    intersectionLevel: getIntersectionLevel(prefix),
                     segmentCount: segments.length,
                     absoluteGap: best.score - worst.score,
-                    bestSegment: best,
-                    worstSegment: worst,
+                    bestSegment: { id: best.id, label: best.label, score: best.score },
+                    worstSegment: { id: worst.id, label: worst.label, score: worst.score },
+                    ...(normalizedSegments.length >= 2 ? {
+                        normalized: {
+                            absoluteGap: nBest.normalizedScore! - nWorst.normalizedScore!,
+                            bestSegment: { id: nBest.id, label: nBest.label, score: nBest.normalizedScore! },
+                            worstSegment: { id: nWorst.id, label: nWorst.label, score: nWorst.normalizedScore! },
+                        },
+                    } : {}),
                 });
             }
         }
@@ -631,10 +1171,12 @@ export class DemographicAggregationService {
         // Compute context responsiveness analysis
         const contextAnalysis = this.computeContextAnalysis(dtefResults);
 
-        // Compute per-model DPD (aggregate per-dimension disparities)
+        // Compute per-model DPD (aggregate per-dimension disparities).
+        // Crossed categories are reported separately so they don't dominate the single-attribute DPD.
         const modelDPDs: ModelDPD[] = [];
         const disparitiesByModel = new Map<string, StrataDisparityEntry[]>();
         for (const d of disparities) {
+            if (d.intersectionLevel > 1) continue;
             if (!disparitiesByModel.has(d.modelId)) disparitiesByModel.set(d.modelId, []);
             disparitiesByModel.get(d.modelId)!.push(d);
         }
@@ -643,11 +1185,18 @@ export class DemographicAggregationService {
                 dimension: d.category,
                 dimensionLabel: d.categoryLabel,
                 dpd: d.absoluteGap,
+                ...(d.normalized ? { normalizedDpd: d.normalized.absoluteGap } : {}),
             }));
             const overallDPD = dimensionDPD.length > 0
                 ? Math.max(...dimensionDPD.map(d => d.dpd))
                 : 0;
-            modelDPDs.push({ modelId, overallDPD, dimensionDPD });
+            const normalizedDPDs = dimensionDPD.filter(d => d.normalizedDpd != null).map(d => d.normalizedDpd!);
+            modelDPDs.push({
+                modelId,
+                overallDPD,
+                dimensionDPD,
+                ...(normalizedDPDs.length > 0 ? { normalizedOverallDPD: Math.max(...normalizedDPDs) } : {}),
+            });
         }
         modelDPDs.sort((a, b) => a.overallDPD - b.overallDPD);
 
@@ -657,6 +1206,34 @@ export class DemographicAggregationService {
         // Compute per-question DPD
         const questionDPDs = this.computeQuestionDPD(dtefResults);
 
+        const intersectionDisparities = this.computeIntersectionDisparities(modelResults, disparities);
+
+        const calibration = this.computeCalibration(dtefResults);
+
+        const ownOpinions = this.extractOwnOpinions(ownOpinionResults);
+
+        const homogenization = this.computeHomogenization(dtefResults, ownOpinions);
+
+        const biasDirection = this.computeBiasDirection(dtefResults, options?.populationMarginals, ownOpinions);
+
+        const roundGeneralisation = this.computeRoundGeneralisation(dtefResults);
+
+        const surveyScores: SurveySegmentScores = new Map();
+        for (const e of surveyScoreMap.values()) {
+            if (!surveyScores.has(e.surveyId)) surveyScores.set(e.surveyId, new Map());
+            const byModel = surveyScores.get(e.surveyId)!;
+            if (!byModel.has(e.modelId)) byModel.set(e.modelId, new Map());
+            byModel.get(e.modelId)!.set(e.segmentId, e.score);
+        }
+
+        const significance = this.computeSignificance(
+            modelResults,
+            SIGNIFICANCE_PERMUTATIONS,
+            options?.significanceBreakdowns ? { surveyScores } : undefined,
+        );
+
+        const fewShot = this.computeFewShotComparison(fewShotResults, modelResults);
+
         return {
             surveyId,
             aggregatedAt: new Date().toISOString(),
@@ -667,10 +1244,302 @@ export class DemographicAggregationService {
             contextAnalysis,
             modelDPDs,
             stereotypeScores,
+            homogenization: homogenization.length > 0 ? homogenization : undefined,
             questionDPDs: questionDPDs.length > 0 ? questionDPDs : undefined,
+            intersectionDisparities: intersectionDisparities.length > 0 ? intersectionDisparities : undefined,
+            calibration: calibration.length > 0 ? calibration : undefined,
+            biasDirection: biasDirection.length > 0 ? biasDirection : undefined,
+            roundGeneralisation: roundGeneralisation.length > 0 ? roundGeneralisation : undefined,
+            significance,
+            fewShot: fewShot.length > 0 ? fewShot : undefined,
+            reliabilityThreshold: options?.segmentReliability ? NOISE_CEILING_RELIABILITY_THRESHOLD : undefined,
+        };
+    }
+
+    /**
+     * Few-shot-segments score per model, averaged over runs and then
+     * segments, compared with the model's leaderboard score on the same
+     * segments.
+     */
+    static computeFewShotComparison(
+        fewShotResults: WevalResult[],
+        modelResults: AggregatedModelResult[],
+    ): ModelFewShotComparison[] {
+        // modelId → segmentId → summed score
+        const byModel = new Map<string, Map<string, { total: number; count: number }>>();
+        for (const result of fewShotResults) {
+            const ctx = this.extractDTEFContext(result);
+            if (!ctx) continue;
+            for (const [modelId, data] of Object.entries(this.extractModelScores(result))) {
+                if (!byModel.has(modelId)) byModel.set(modelId, new Map());
+                const segments = byModel.get(modelId)!;
+                const entry = segments.get(ctx.segmentId) ?? { total: 0, count: 0 };
+                entry.total += data.avgScore;
+                entry.count += 1;
+                segments.set(ctx.segmentId, entry);
+            }
+        }
+
+        const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+        return Array.from(byModel.entries())
+            .map(([modelId, segments]) => {
+                const leaderboard = new Map(
+                    (modelResults.find(m => m.modelId === modelId)?.segmentScores ?? []).map(s => [s.segmentId, s.avgCoverageExtent]),
+                );
+                const scores = Array.from(segments.entries()).map(([segmentId, e]) => ({
+                    fewShot: e.total / e.count,
+                    leaderboard: leaderboard.get(segmentId),
+                }));
+                const matched = scores.filter(s => s.leaderboard != null);
+                return {
+                    modelId,
+                    fewShotScore: mean(scores.map(s => s.fewShot)),
+                    segmentCount: scores.length,
+                    ...(matched.length > 0 ? {
+                        leaderboardScore: mean(matched.map(s => s.leaderboard!)),
+                        gain: mean(matched.map(s => s.fewShot - s.leaderboard!)),
+                    } : {}),
+                };
+            })
+            .sort((a, b) => b.fewShotScore - a.fewShotScore);
+    }
+
+    /**
+     * Population-marginal distribution of every question, per survey, for
+     * results whose blueprints did not record them.
+     */
+    static computePopulationMarginalsBySurvey(surveys: DTEFSurveyData[]): PopulationMarginalsBySurvey {
+        const marginals: PopulationMarginalsBySurvey = {};
+        for (const survey of surveys) {
+            marginals[survey.surveyId] = DemographicBlueprintService.computePopulationMarginals(survey);
+        }
+        return marginals;
+    }
+
+    /**
+     * Compute each segment's population-marginal baseline and sampling noise
+     * ceiling from survey data, averaged over the segment's distribution
+     * questions. Open-ended questions (no distribution) are skipped.
+     */
+    static computeSegmentReliability(surveys: DTEFSurveyData[]): SurveySegmentReliability {
+        const bySurvey: SurveySegmentReliability = {};
+        for (const survey of surveys) {
+            const marginals = DemographicBlueprintService.computePopulationMarginals(survey);
+            const segments: Record<string, SegmentReliability> = {};
+            for (const segment of survey.segments) {
+                const n = getEffectiveSampleSize(segment);
+                let ceilingSum = 0;
+                let marginalSum = 0;
+                let count = 0;
+                for (const resp of segment.responses) {
+                    const marginal = marginals[resp.questionId];
+                    if (resp.distribution.length < 2 || !marginal) continue;
+                    ceilingSum += computeNoiseFloorValue(resp.distribution.length, n);
+                    marginalSum += jsDivergenceSimilarity(marginal, resp.distribution);
+                    count++;
+                }
+                if (count === 0) continue;
+                const noiseCeiling = ceilingSum / count;
+                segments[normalizeSegmentId(segment.id)] = {
+                    sampleSize: n,
+                    noiseCeiling,
+                    marginalScore: marginalSum / count,
+                    reliable: noiseCeiling >= NOISE_CEILING_RELIABILITY_THRESHOLD,
+                };
+            }
+            bySurvey[survey.surveyId] = segments;
+        }
+        return bySurvey;
+    }
+
+    /**
+     * Place a raw segment score between the segment's population-marginal
+     * baseline (0) and its sampling noise ceiling (1). Segments whose
+     * marginal already reaches the ceiling have no room to normalize into
+     * and are flagged unreliable without a normalized score.
+     */
+    static normalizeSegmentScore(
+        rawScore: number,
+        reliability?: SegmentReliability,
+    ): Pick<SegmentModelScore, 'normalizedScore' | 'reliable'> {
+        if (!reliability) return {};
+        if (reliability.noiseCeiling <= reliability.marginalScore) return { reliable: false };
+        return {
+            normalizedScore: computeNormalizedScore(rawScore, reliability.marginalScore, reliability.noiseCeiling),
+            reliable: reliability.reliable,
+        };
+    }
+
+    /**
+     * Test every pair of models for a real score difference overall and group
+     * the ranking into tiers of statistically tied models. Baseline
+     * pseudo-models are left out — they are reference points, not contenders.
+     *
+     * With `breakdowns`, the ranking is also tested within each segment
+     * category (on the overall score vectors, split by segment prefix) and,
+     * given per-survey scores spanning two or more surveys, within each
+     * survey. Each breakdown costs as much as the overall test again, so it
+     * is opt-in.
+     */
+    static computeSignificance(
+        modelResults: AggregatedModelResult[],
+        iterations: number = SIGNIFICANCE_PERMUTATIONS,
+        breakdowns?: { surveyScores?: SurveySegmentScores },
+    ): ModelSignificance | undefined {
+        const models = modelResults.filter(m => !m.modelId.startsWith('baseline:'));
+        if (models.length < 2) return undefined;
+
+        const overallScores = new Map<string, Map<string, number>>(models.map(model => [
+            model.modelId,
+            new Map(model.segmentScores.map(s => [s.segmentId, s.avgCoverageExtent])),
+        ]));
+        const overall = buildPairwiseSignificanceMatrix(overallScores, { iterations });
+        if (!breakdowns) return { overall };
+
+        const categoryScores = new Map<string, Map<string, Map<string, number>>>();
+        for (const [modelId, scores] of overallScores) {
+            for (const [segmentId, score] of scores) {
+                const prefix = getSegmentPrefix(segmentId);
+                if (!isKnownCategory(prefix)) continue;
+                if (!categoryScores.has(prefix)) categoryScores.set(prefix, new Map());
+                const byModel = categoryScores.get(prefix)!;
+                if (!byModel.has(modelId)) byModel.set(modelId, new Map());
+                byModel.get(modelId)!.set(segmentId, score);
+            }
+        }
+
+        const byCategory: Record<string, PairwiseSignificanceMatrix> = {};
+        for (const [prefix, byModel] of categoryScores) {
+            if (byModel.size < 2) continue;
+            byCategory[prefix] = buildPairwiseSignificanceMatrix(byModel, { iterations });
+        }
+
+        const bySurvey: Record<string, PairwiseSignificanceMatrix> = {};
+        const surveyScores = breakdowns.surveyScores;
+        if (surveyScores && surveyScores.size >= 2) {
+            for (const [surveyId, byModel] of surveyScores) {
+                const contenders = new Map(Array.from(byModel).filter(([modelId]) => !modelId.startsWith('baseline:')));
+                if (contenders.size < 2) continue;
+                bySurvey[surveyId] = buildPairwiseSignificanceMatrix(contenders, { iterations });
+            }
+        }
+
+        return {
+            overall,
+            byCategory,
+            ...(Object.keys(bySurvey).length > 0 ? { bySurvey } : {}),
         };
     }
 
+    /**
+     * Compute per-model disparities at each intersection level (1 = single
+     * attribute, 2 = pairs such as age × gender, …). Returns an empty array
+     * when no crossed segments were evaluated.
+     */
+    static computeIntersectionDisparities(
+        modelResults: AggregatedModelResult[],
+        disparities: StrataDisparityEntry[],
+    ): IntersectionLevelDisparity[] {
+        const hasCrossed = modelResults.some(m =>
+            m.segmentScores.some(s => getIntersectionLevel(s.segmentId) > 1),
+        );
+        if (!hasCrossed) return [];
+
+        const entries: IntersectionLevelDisparity[] = [];
+
+        for (const model of modelResults) {
+            const byLevel = new Map<number, SegmentModelScore[]>();
+            for (const seg of model.segmentScores) {
+                if (!isKnownCategory(getSegmentPrefix(seg.segmentId))) continue;
+                const level = getIntersectionLevel(seg.segmentId);
+                if (!byLevel.has(level)) byLevel.set(level, []);
+                byLevel.get(level)!.push(seg);
+            }
+
+            for (const [level, segments] of byLevel) {
+                const sorted = [...segments].sort((a, b) => b.avgCoverageExtent - a.avgCoverageExtent);
+                const best = sorted[0];
+                const worst = sorted[sorted.length - 1];
+                const categoryGaps = disparities
+                    .filter(d => d.modelId === model.modelId && d.intersectionLevel === level)
+                    .map(d => d.absoluteGap);
+
+                entries.push({
+                    modelId: model.modelId,
+                    level,
+                    segmentCount: segments.length,
+                    meanScore: segments.reduce((a, s) => a + s.avgCoverageExtent, 0) / segments.length,
+                    absoluteGap: best.avgCoverageExtent - worst.avgCoverageExtent,
+                    maxCategoryGap: categoryGaps.length > 0 ? Math.max(...categoryGaps) : 0,
+                    bestSegment: { id: best.segmentId, label: best.segmentLabel, score: best.avgCoverageExtent },
+                    worstSegment: { id: worst.segmentId, label: worst.segmentLabel, score: worst.avgCoverageExtent },
+                });
+            }
+        }
+
+        return entries.sort((a, b) => a.modelId.localeCompare(b.modelId) || a.level - b.level);
+    }
+
+    /**
+     * The questionId encoded in a `{questionId}-{segmentId}` promptId, or
+     * null for batched prompts. See `questionIdFromPromptId` in dtefResultUtils.
+     */
+    static questionIdFromPromptId(promptId: string, segmentId: string): string | null {
+        return questionIdFromPromptId(promptId, segmentId);
+    }
+
+    /**
+     * Collect every model's per-question score for each segment, for the
+     * segment × question heatmap. Like the segment scores, each cell comes
+     * from the highest-context result for its (model, segment) pair. When
+     * the result still carries model responses, the predicted distribution
+     * is parsed so signed per-option errors can be shown.
+     */
+    static computeSegmentQuestionCells(results: WevalResult[]): SegmentQuestionCell[] {
+        const cells = new Map<string, SegmentQuestionCell>();
+
+        for (const result of results) {
+            if (!this.isLeaderboardResult(result)) continue;
+
+            const ctx = this.extractDTEFContext(result);
+            const coverageScores = result.evaluationResults?.llmCoverageScores;
+            if (!ctx || !coverageScores) continue;
+
+            const contextCount = this.extractContextCount(result) ?? 0;
+            const responses = result.allFinalAssistantResponses;
+
+            for (const [promptId, promptScores] of Object.entries(coverageScores)) {
+                if (!promptScores) continue;
+                const questionId = this.questionIdFromPromptId(promptId, ctx.segmentId);
+                if (!questionId) continue;
+
+                for (const [modelId, coverage] of Object.entries(promptScores)) {
+                    if (!coverage || typeof coverage.avgCoverageExtent !== 'number') continue;
+
+                    const key = `${modelId}::${ctx.segmentId}::${questionId}`;
+                    const existing = cells.get(key);
+                    if (existing && existing.contextCount >= contextCount) continue;
+
+                    const responseText = responses?.[promptId]?.[modelId];
+                    const predicted = typeof responseText === 'string' ? parseDistribution(responseText) : null;
+                    cells.set(key, {
+                        modelId,
+                        segmentId: ctx.segmentId,
+                        questionId,
+                        score: coverage.avgCoverageExtent,
+                        ...(predicted ? { predicted } : {}),
+                        contextCount,
+                        configId: result.configId,
+                        runLabel: result.runLabel,
+                        timestamp: result.timestamp,
+                    });
+                }
+            }
+        }
+
+        return Array.from(cells.values());
+    }
+
     /**
      * Compute per-question DPD: for each question × model, find the max and min
      * segment scores. dpd = max - min. Identifies questions with highest bias.
@@ -681,7 +1550,7 @@ export class DemographicAggregationService {
         const questionScores = new Map<QKey, Array<{ segmentId: string; score: number }>>();
 
         for (const result of results) {
-            if (!this.isDTEFResult(result) || this.isExperimentalResult(result)) continue;
+            if (!this.isLeaderboardResult(result)) continue;
 
             const ctx = this.extractDTEFContext(result);
             if (!ctx) continue;
@@ -689,20 +1558,11 @@ export class DemographicAggregationService {
             const coverageScores = result.evaluationResults?.llmCoverageScores;
             if (!coverageScores) continue;
 
-            // Each promptId encodes the questionId as `{questionId}-{segmentId}`.
-            // Batched prompts use `batch-{N}-{segmentId}` — skip these since they
-            // don't map to individual questions.
             for (const [promptId, promptScores] of Object.entries(coverageScores)) {
                 if (!promptScores) continue;
 
-                // Skip batched prompt IDs (they don't map to individual questions)
-                if (promptId.startsWith('batch-')) continue;
-
-                // Extract question ID from the suffix `-{segmentId}`
-                const suffix = `-${ctx.segmentId}`;
-                const suffixIdx = promptId.lastIndexOf(suffix);
-                if (suffixIdx <= 0) continue; // can't determine question ID
-                const questionId = promptId.slice(0, suffixIdx);
+                const questionId = this.questionIdFromPromptId(promptId, ctx.segmentId);
+                if (!questionId) continue;
 
                 for (const [modelId, coverage] of Object.entries(promptScores)) {
                     if (!coverage || typeof coverage.avgCoverageExtent !== 'number') continue;
@@ -746,6 +1606,453 @@ export class DemographicAggregationService {
         return dpds;
     }
 
+    /**
+     * Compute per-model calibration from the forecast metrics recorded by
+     * individual_metric on each scored response. Brier score and log loss
+     * measure overall probabilistic accuracy; expected calibration error
+     * measures whether stated confidence matches how often the top answer is
+     * right. Sorted by Brier score ascending (best first).
+     */
+    static computeCalibration(results: WevalResult[], binCount: number = 10): ModelCalibration[] {
+        const forecastsByModel = new Map<string, CalibrationForecast[]>();
+
+        for (const result of results) {
+            if (!this.isLeaderboardResult(result)) continue;
+
+            const coverageScores = result.evaluationResults?.llmCoverageScores;
+            if (!coverageScores) continue;
+
+            for (const promptScores of Object.values(coverageScores)) {
+                for (const [modelId, coverage] of Object.entries(promptScores || {})) {
+                    for (const assessment of coverage?.pointAssessments || []) {
+                        const m = assessment.metrics;
+                        if (!m || typeof m['forecast-confidence'] !== 'number') continue;
+
+                        if (!forecastsByModel.has(modelId)) forecastsByModel.set(modelId, []);
+                        forecastsByModel.get(modelId)!.push({
+                            confidence: m['forecast-confidence'],
+                            outcome: m['forecast-outcome'],
+                            brier: m['brier-score'],
+                            logLoss: m['log-loss'],
+                        });
+                    }
+                }
+            }
+        }
+
+        const calibration: ModelCalibration[] = [];
+        for (const [modelId, forecasts] of forecastsByModel) {
+            const summary = computeCalibrationSummary(forecasts, binCount);
+            if (summary) calibration.push({ modelId, ...summary });
+        }
+        calibration.sort((a, b) => a.brierScore - b.brierScore);
+        return calibration;
+    }
+
+    /**
+     * Parse every model's single-select predictions, one per (result,
+     * prompt, model), with the prompt's expected distribution. Predictions
+     * are rescaled to percentages. Multi-select shares and rank matrices are
+     * not distributions and are skipped, as are baseline pseudo-models and
+     * own-opinion probes.
+     */
+    private static extractDistributionPredictions(results: WevalResult[]): DistributionPrediction[] {
+        const predictions: DistributionPrediction[] = [];
+
+        for (const result of results) {
+            if (!this.isLeaderboardResult(result)) continue;
+
+            const ctx = this.extractDTEFContext(result);
+            const responses = result.allFinalAssistantResponses;
+            if (!ctx || !responses) continue;
+
+            const recordedMarginals = (result.config?.context as any)?.dtef?.populationMarginals as Record<string, number[]> | undefined;
+            const contextCount = this.extractContextCount(result) ?? 0;
+
+            for (const prompt of result.config?.prompts ?? []) {
+                const questionId = this.questionIdFromPromptId(prompt.id, ctx.segmentId);
+                if (!questionId) continue;
+
+                const fnArgs = this.distributionPointArgs(prompt);
+                const truth = fnArgs?.expected;
+                if (!Array.isArray(truth) || truth.length < 2) continue;
+
+                const marginal = recordedMarginals?.[questionId];
+
+                for (const [modelId, responseText] of Object.entries(responses[prompt.id] ?? {})) {
+                    if (modelId.startsWith('baseline:') || typeof responseText !== 'string') continue;
+                    const predicted = this.parsePercentages(responseText, truth.length);
+                    if (!predicted) continue;
+
+                    predictions.push({
+                        modelId,
+                        surveyId: ctx.surveyId,
+                        segmentId: ctx.segmentId,
+                        questionId,
+                        contextCount,
+                        predicted,
+                        truth,
+                        ordinal: Array.isArray(fnArgs?.ordinalPositions),
+                        ...(marginal && marginal.length === truth.length ? { marginal } : {}),
+                    });
+                }
+            }
+        }
+
+        return predictions;
+    }
+
+    /** The distribution_metric point's arguments, or undefined for other prompt types */
+    private static distributionPointArgs(prompt: WevalPromptConfig): { expected?: number[]; ordinalPositions?: number[] } | undefined {
+        const point = (prompt.points ?? []).find(p =>
+            typeof p === 'object' && !Array.isArray(p) && p.fn === 'distribution_metric',
+        ) as { fnArgs?: { expected?: number[]; ordinalPositions?: number[] } } | undefined;
+        return point?.fnArgs;
+    }
+
+    /** Parse a response as a distribution of the given length, rescaled to sum to 100 */
+    private static parsePercentages(responseText: string, length: number): number[] | null {
+        const parsed = parseDistribution(responseText);
+        if (!parsed || parsed.length !== length) return null;
+        const total = parsed.reduce((a, b) => a + b, 0);
+        if (total <= 0) return null;
+        return parsed.map(v => (v / total) * 100);
+    }
+
+    /** Keep each (model, segment, question)'s highest-context prediction */
+    private static latestPredictions(predictions: DistributionPrediction[]): DistributionPrediction[] {
+        const latest = new Map<string, DistributionPrediction>();
+        for (const p of predictions) {
+            const key = `${p.modelId}::${p.surveyId}::${p.segmentId}::${p.questionId}`;
+            const existing = latest.get(key);
+            if (!existing || p.contextCount > existing.contextCount) latest.set(key, p);
+        }
+        return Array.from(latest.values());
+    }
+
+    /**
+     * Per-model robustness to question wording and option order. Each
+     * variant result is matched to the original-wording blueprint it
+     * records, prompt by prompt; repeated runs of a config are averaged.
+     * Prompts without an original score are skipped.
+     */
+    static computeVariantRobustness(results: WevalResult[]): ModelVariantRobustness[] {
+        // configId → promptId::modelId → summed score
+        const scores = new Map<string, Map<string, { modelId: string; total: number; count: number }>>();
+        const variants = new Map<string, { baseConfigId: string; paraphraseIndex: number; orderIndex: number }>();
+
+        for (const result of results) {
+            if (!this.isDTEFResult(result) || this.isExperimentalResult(result) || this.isOwnOpinionResult(result)) continue;
+            const configId = result.configId || result.config?.configId;
+            const coverageScores = result.evaluationResults?.llmCoverageScores;
+            if (!configId || !coverageScores) continue;
+
+            const variant = (result.config?.context as any)?.dtef?.questionVariant;
+            if (this.isQuestionVariantResult(result)) {
+                if (typeof variant?.baseConfigId !== 'string') continue;
+                variants.set(configId, {
+                    baseConfigId: variant.baseConfigId,
+                    paraphraseIndex: variant.paraphraseIndex || 0,
+                    orderIndex: variant.orderIndex || 0,
+                });
+            }
+
+            if (!scores.has(configId)) scores.set(configId, new Map());
+            const configScores = scores.get(configId)!;
+            for (const [promptId, promptScores] of Object.entries(coverageScores)) {
+                for (const [modelId, coverage] of Object.entries(promptScores || {})) {
+                    if (modelId.startsWith('baseline:') || !coverage || typeof coverage.avgCoverageExtent !== 'number') continue;
+                    const key = `${promptId}::${modelId}`;
+                    const entry = configScores.get(key) ?? { modelId, total: 0, count: 0 };
+                    entry.total += coverage.avgCoverageExtent;
+                    entry.count += 1;
+                    configScores.set(key, entry);
+                }
+            }
+        }
+
+        // baseConfigId::promptId::modelId → original and variant scores
+        const cells = new Map<string, { modelId: string; original: number; paraphrases: number[]; orders: number[]; all: number[] }>();
+        for (const [configId, variant] of variants) {
+            const baseScores = scores.get(variant.baseConfigId);
+            if (!baseScores) continue;
+            for (const [key, entry] of scores.get(configId) ?? []) {
+                const original = baseScores.get(key);
+                if (!original) continue;
+                const cellKey = `${variant.baseConfigId}::${key}`;
+                if (!cells.has(cellKey)) {
+                    cells.set(cellKey, {
+                        modelId: entry.modelId,
+                        original: original.total / original.count,
+                        paraphrases: [],
+                        orders: [],
+                        all: [],
+                    });
+                }
+                const cell = cells.get(cellKey)!;
+                const score = entry.total / entry.count;
+                cell.all.push(score);
+                if (variant.orderIndex === 0) cell.paraphrases.push(score);
+                if (variant.paraphraseIndex === 0) cell.orders.push(score);
+            }
+        }
+
+        const variance = (values: number[]) => {
+            const mean = values.reduce((a, b) => a + b, 0) / values.length;
+            return values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length;
+        };
+        const byModel = new Map<string, { all: number[]; paraphrases: number[]; orders: number[] }>();
+        for (const cell of cells.values()) {
+            if (!byModel.has(cell.modelId)) byModel.set(cell.modelId, { all: [], paraphrases: [], orders: [] });
+            const acc = byModel.get(cell.modelId)!;
+            acc.all.push(variance([cell.original, ...cell.all]));
+            if (cell.paraphrases.length > 0) acc.paraphrases.push(variance([cell.original, ...cell.paraphrases]));
+            if (cell.orders.length > 0) acc.orders.push(variance([cell.original, ...cell.orders]));
+        }
+
+        const pooledStdDev = (variances: number[]) => Math.sqrt(variances.reduce((a, b) => a + b, 0) / variances.length);
+        return Array.from(byModel.entries())
+            .map(([modelId, acc]) => ({
+                modelId,
+                variantStdDev: pooledStdDev(acc.all),
+                ...(acc.paraphrases.length > 0 ? { paraphraseStdDev: pooledStdDev(acc.paraphrases) } : {}),
+                ...(acc.orders.length > 0 ? { optionOrderStdDev: pooledStdDev(acc.orders) } : {}),
+                promptCount: acc.all.length,
+            }))
+            .sort((a, b) => a.variantStdDev - b.variantStdDev);
+    }
+
+    /**
+     * Each model's answers to the own-opinion probe, by question, in
+     * percentages. Repeated runs are averaged.
+     */
+    static extractOwnOpinions(results: WevalResult[]): OwnOpinionsByModel {
+        const sums = new Map<string, { modelId: string; questionId: string; total: number[]; count: number }>();
+
+        for (const result of results) {
+            if (!this.isOwnOpinionResult(result) || this.isExperimentalResult(result)) continue;
+            const ctx = this.extractDTEFContext(result);
+            const responses = result.allFinalAssistantResponses;
+            if (!ctx || !responses) continue;
+
+            for (const prompt of result.config?.prompts ?? []) {
+                const questionId = this.questionIdFromPromptId(prompt.id, ctx.segmentId);
+                const expected = this.distributionPointArgs(prompt)?.expected;
+                if (!questionId || !Array.isArray(expected)) continue;
+
+                for (const [modelId, responseText] of Object.entries(responses[prompt.id] ?? {})) {
+                    if (typeof responseText !== 'string') continue;
+                    const answer = this.parsePercentages(responseText, expected.length);
+                    if (!answer) continue;
+                    const key = `${modelId}::${questionId}`;
+                    const entry = sums.get(key) ?? { modelId, questionId, total: new Array(answer.length).fill(0), count: 0 };
+                    answer.forEach((v, i) => { entry.total[i] += v; });
+                    entry.count++;
+                    sums.set(key, entry);
+                }
+            }
+        }
+
+        const opinions: OwnOpinionsByModel = {};
+        for (const { modelId, questionId, total, count } of sums.values()) {
+            (opinions[modelId] ??= {})[questionId] = total.map(v => v / count);
+        }
+        return opinions;
+    }
+
+    /**
+     * Per-model bias direction from the parsed predictions of single-select
+     * prompts. Each (model, segment, question) uses its highest-context
+     * prediction. A model's own answer to a question is its own-opinion
+     * probe answer when one was supplied; otherwise it is the mean of its
+     * zero-context predictions for the other segments, so the own-opinion
+     * correlation never compares a prediction with itself. Marginals come
+     * from the blueprint context, falling back to `populationMarginals`.
+     * Baseline pseudo-models are skipped. Sorted by model ID.
+     */
+    static computeBiasDirection(
+        results: WevalResult[],
+        populationMarginals?: PopulationMarginalsBySurvey,
+        ownOpinions?: OwnOpinionsByModel,
+    ): ModelBiasDirection[] {
+        const predictions = this.extractDistributionPredictions(results);
+
+        // `${modelId}::${questionId}` → segmentId → zero-context prediction
+        const zeroContext = new Map<string, Map<string, number[]>>();
+        for (const p of predictions) {
+            if (p.contextCount !== 0) continue;
+            const ownKey = `${p.modelId}::${p.questionId}`;
+            if (!zeroContext.has(ownKey)) zeroContext.set(ownKey, new Map());
+            zeroContext.get(ownKey)!.set(p.segmentId, p.predicted);
+        }
+
+        const byModel = new Map<string, BiasObservation[]>();
+        for (const p of this.latestPredictions(predictions)) {
+            const probed = ownOpinions?.[p.modelId]?.[p.questionId];
+            const others = Array.from(zeroContext.get(`${p.modelId}::${p.questionId}`) ?? [])
+                .filter(([segmentId, dist]) => segmentId !== p.segmentId && dist.length === p.truth.length)
+                .map(([, dist]) => dist);
+            const ownAnswer = probed && probed.length === p.truth.length ? probed
+                : others.length > 0
+                    ? p.truth.map((_, i) => others.reduce((sum, d) => sum + d[i], 0) / others.length)
+                    : undefined;
+            const marginal = p.marginal ?? populationMarginals?.[p.surveyId]?.[p.questionId];
+
+            if (!byModel.has(p.modelId)) byModel.set(p.modelId, []);
+            byModel.get(p.modelId)!.push({
+                predicted: p.predicted,
+                truth: p.truth,
+                ordinal: p.ordinal,
+                ...(marginal && marginal.length === p.truth.length ? { marginal } : {}),
+                ...(ownAnswer ? { ownAnswer } : {}),
+            });
+        }
+
+        const report: ModelBiasDirection[] = [];
+        for (const [modelId, observations] of byModel) {
+            const summary = computeBiasSummary(observations);
+            if (summary) report.push({ modelId, ...summary });
+        }
+        return report.sort((a, b) => a.modelId.localeCompare(b.modelId));
+    }
+
+    /**
+     * Per-model homogenization from each (model, segment, question)'s
+     * highest-context single-select prediction. The own-opinion comparison
+     * needs probe answers (read from `results` unless passed in); the
+     * variance comparison uses questions predicted for two or more segments.
+     * Sorted by model ID.
+     */
+    static computeHomogenization(
+        results: WevalResult[],
+        ownOpinions: OwnOpinionsByModel = this.extractOwnOpinions(results),
+    ): ModelHomogenization[] {
+        type Accumulator = {
+            ownSum: number;
+            truthSum: number;
+            closerToOwn: number;
+            ownCount: number;
+            byQuestion: Map<string, { predicted: number[][]; truth: number[][] }>;
+        };
+        const byModel = new Map<string, Accumulator>();
+
+        for (const p of this.latestPredictions(this.extractDistributionPredictions(results))) {
+            let acc = byModel.get(p.modelId);
+            if (!acc) {
+                acc = { ownSum: 0, truthSum: 0, closerToOwn: 0, ownCount: 0, byQuestion: new Map() };
+                byModel.set(p.modelId, acc);
+            }
+
+            const own = ownOpinions[p.modelId]?.[p.questionId];
+            if (own && own.length === p.predicted.length) {
+                const ownSimilarity = jsDivergenceSimilarity(p.predicted, own);
+                const truthSimilarity = jsDivergenceSimilarity(p.predicted, p.truth);
+                acc.ownSum += ownSimilarity;
+                acc.truthSum += truthSimilarity;
+                if (ownSimilarity > truthSimilarity) acc.closerToOwn++;
+                acc.ownCount++;
+            }
+
+            const questionKey = `${p.surveyId}::${p.questionId}`;
+            const question = acc.byQuestion.get(questionKey) ?? { predicted: [], truth: [] };
+            question.predicted.push(p.predicted);
+            question.truth.push(p.truth);
+            acc.byQuestion.set(questionKey, question);
+        }
+
+        const homogenization: ModelHomogenization[] = [];
+        for (const [modelId, acc] of byModel) {
+            let predictedVariance = 0;
+            let trueVariance = 0;
+            let questionCount = 0;
+            for (const { predicted, truth } of acc.byQuestion.values()) {
+                if (predicted.length < 2) continue;
+                predictedVariance += crossSegmentVariance(predicted);
+                trueVariance += crossSegmentVariance(truth);
+                questionCount++;
+            }
+            if (acc.ownCount === 0 && questionCount === 0) continue;
+
+            homogenization.push({
+                modelId,
+                ...(acc.ownCount > 0 ? {
+                    ownOpinionSimilarity: acc.ownSum / acc.ownCount,
+                    truthSimilarity: acc.truthSum / acc.ownCount,
+                    ownOpinionPull: (acc.ownSum - acc.truthSum) / acc.ownCount,
+                    closerToOwnShare: acc.closerToOwn / acc.ownCount,
+                } : {}),
+                ownOpinionPairCount: acc.ownCount,
+                predictedSegmentVariance: questionCount > 0 ? predictedVariance / questionCount : 0,
+                trueSegmentVariance: questionCount > 0 ? trueVariance / questionCount : 0,
+                varianceRatio: trueVariance > 0 ? predictedVariance / trueVariance : null,
+                questionCount,
+            });
+        }
+        return homogenization.sort((a, b) => a.modelId.localeCompare(b.modelId));
+    }
+
+    /**
+     * Split each model's scores by whether the evaluated round was released
+     * before or after the model's knowledge cutoff (from the model version
+     * registry). Only results tagged with a round release date and models
+     * found in the registry are included. A model is flagged when it scores
+     * more than CONTAMINATION_GAP_THRESHOLD lower on post-cutoff rounds.
+     */
+    static computeRoundGeneralisation(results: WevalResult[]): ModelRoundGeneralisation[] {
+        type Bucket = { total: number; count: number; rounds: Set<string> };
+        const byModel = new Map<string, { cutoff: NonNullable<ReturnType<typeof getKnowledgeCutoff>>; pre: Bucket; post: Bucket }>();
+
+        for (const result of results) {
+            if (!this.isLeaderboardResult(result)) continue;
+            const round = this.extractRoundInfo(result);
+            if (!round) continue;
+
+            for (const [modelId, summary] of Object.entries(this.extractModelScores(result))) {
+                let entry = byModel.get(modelId);
+                if (!entry) {
+                    const cutoff = getKnowledgeCutoff(modelId) ?? getKnowledgeCutoff(parseModelIdForDisplay(modelId).baseId);
+                    if (!cutoff) continue;
+                    entry = {
+                        cutoff,
+                        pre: { total: 0, count: 0, rounds: new Set() },
+                        post: { total: 0, count: 0, rounds: new Set() },
+                    };
+                    byModel.set(modelId, entry);
+                }
+                const bucket = round.releaseDate > entry.cutoff.date ? entry.post : entry.pre;
+                bucket.total += summary.avgScore;
+                bucket.count += 1;
+                bucket.rounds.add(round.roundId);
+            }
+        }
+
+        const generalisation: ModelRoundGeneralisation[] = [];
+        for (const [modelId, { cutoff, pre, post }] of byModel) {
+            const preCutoffScore = pre.count > 0 ? pre.total / pre.count : undefined;
+            const postCutoffScore = post.count > 0 ? post.total / post.count : undefined;
+            const gap = preCutoffScore !== undefined && postCutoffScore !== undefined
+                ? preCutoffScore - postCutoffScore
+                : undefined;
+            generalisation.push({
+                modelId,
+                knowledgeCutoff: cutoff.date,
+                cutoffSource: cutoff.source,
+                preCutoffScore,
+                preCutoffRounds: Array.from(pre.rounds).sort(),
+                preCutoffResultCount: pre.count,
+                postCutoffScore,
+                postCutoffRounds: Array.from(post.rounds).sort(),
+                postCutoffResultCount: post.count,
+                gap,
+                contaminationFlag: gap !== undefined && gap > CONTAMINATION_GAP_THRESHOLD,
+            });
+        }
+
+        // Largest pre/post gap first
+        generalisation.sort((a, b) => (b.gap ?? -Infinity) - (a.gap ?? -Infinity));
+        return generalisation;
+    }
+
     /**
      * Compute stereotype scores from context analysis.
      * Compares zero-context vs highest-context performance.
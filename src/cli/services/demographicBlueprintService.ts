@@ -19,9 +19,14 @@ import {
     DemographicResponse,
     DTEFEvalType,
     DTEFContextFormat,
+    DTEFContextSelection,
+    DTEFFewShotSelection,
     DTEFReasoningMode,
+    DTEFPromptTemplate,
+    DTEFQuestionVariant,
 } from '@/types/dtef';
 import { WevalConfig, WevalPromptConfig } from '@/types/shared';
+import { getPopulationWeight } from '@/lib/statisticalAnalysis';
 import {
     formatAttributeKey,
     buildDistributionContext,
@@ -35,43 +40,26 @@ import {
     BATCHED_SYSTEM_PROMPT,
     SHIFT_SYSTEM_PROMPT,
 } from './blueprint/systemPromptGenerators';
-import { assemblePrompt, assembleBatchedPrompt, assembleIndividualPrompt, BatchedQuestionItem } from './blueprint/promptAssembler';
-import { encodeConfigId } from './blueprint/configIdEncoder';
-
-/**
- * Simple seeded PRNG (mulberry32) for deterministic sampling.
- */
-function seededRng(seed: number): () => number {
-    return () => {
-        seed |= 0; seed = seed + 0x6D2B79F5 | 0;
-        let t = Math.imul(seed ^ seed >>> 15, 1 | seed);
-        t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t;
-        return ((t ^ t >>> 14) >>> 0) / 4294967296;
-    };
-}
-
-function hashString(s: string): number {
-    let h = 0;
-    for (let i = 0; i < s.length; i++) {
-        h = Math.imul(31, h) + s.charCodeAt(i) | 0;
-    }
-    return h;
-}
-
-/**
- * Deterministic sample of N items using a seeded shuffle.
- */
-function seededSample<T>(items: T[], n: number, seed: string): T[] {
-    if (items.length <= n) return [...items];
-    const rng = seededRng(hashString(seed));
-    const arr = [...items];
-    // Fisher-Yates shuffle (only first n elements needed)
-    for (let i = 0; i < n && i < arr.length - 1; i++) {
-        const j = i + Math.floor(rng() * (arr.length - i));
-        [arr[i], arr[j]] = [arr[j], arr[i]];
-    }
-    return arr.slice(0, n);
-}
+import {
+    assemblePrompt,
+    assembleBatchedPrompt,
+    assembleIndividualPrompt,
+    assembleOwnOpinionPrompt,
+    supportsQuestionType,
+    BatchedQuestionItem,
+} from './blueprint/promptAssembler';
+import { ConfigIdParts, encodeConfigId } from './blueprint/configIdEncoder';
+import { seededSample } from './blueprint/seededSampling';
+import { DEFAULT_CONTEXT_SELECTION_SEED, withContextRelevance } from './blueprint/contextSelection';
+import { DEFAULT_FEW_SHOT_COUNT, DEFAULT_FEW_SHOT_SEED } from './blueprint/fewShotSegments';
+import { DEFAULT_PROMPT_TEMPLATE_NAME } from './blueprint/promptTemplates';
+import { applyQuestionVariant, isOriginalQuestionVariant, isUnchangedByQuestionVariant } from './blueprint/questionVariants';
+
+/** A question definition as stored in DTEFSurveyData */
+type SurveyQuestionDef = DTEFSurveyData['questions'][string];
+
+/** Segment ID of own-opinion probe blueprints, which carry no demographic persona */
+export const OWN_OPINION_SEGMENT_ID = 'self';
 
 /**
  * Generates DTEF blueprints from demographic survey data.
@@ -83,19 +71,33 @@ export class DemographicBlueprintService {
      * for each target question.
      *
      * For individual-answer eval type with individualData, generates
-     * per-segment blueprints with sampled individual participants.
+     * per-segment blueprints with sampled individual participants. The
+     * own-opinion probe produces a single blueprint for the whole survey.
+     * A questionVariant rewords the target questions of segment blueprints.
      */
     static generateBlueprints(config: DTEFBlueprintConfig): WevalConfig[] {
+        if (config.evalType === 'own-opinion') {
+            this.warnUnsupportedQuestions(config);
+            return [this.generateOwnOpinionBlueprint(config)];
+        }
+
         // Individual-answer with individual data: generate per-participant prompts
         if (config.evalType === 'individual-answer' && config.individualData) {
+            this.warnUnsupportedQuestions(config);
             return this.generateIndividualBlueprints(config);
         }
 
+        config = applyQuestionVariant(config);
         const segments = this.selectSegments(config);
         const blueprints: WevalConfig[] = [];
 
+        this.warnUnsupportedQuestions(config);
+        config = withContextRelevance(config);
+
         for (const segment of segments) {
             const blueprint = this.generateBlueprintForSegment(config, segment);
+            // A variant that leaves every prompt as it was would only repeat the original
+            if (blueprint.prompts.length === 0 && !isOriginalQuestionVariant(config.questionVariant)) continue;
             blueprints.push(blueprint);
         }
 
@@ -103,7 +105,152 @@ export class DemographicBlueprintService {
     }
 
     /**
-     * Compute population marginal distributions (weighted average across segments).
+     * Whether a target question can be prompted for under the config's eval type.
+     */
+    private static isQuestionSupported(config: DTEFBlueprintConfig, question: { type: string }): boolean {
+        return supportsQuestionType(config.evalType || 'distribution', question.type);
+    }
+
+    /**
+     * Log target questions that will be skipped because the eval type has
+     * no template for their question type (e.g. ranking under individual-answer).
+     */
+    private static warnUnsupportedQuestions(config: DTEFBlueprintConfig): void {
+        const skipped = config.targetQuestionIds.filter(qId => {
+            const question = config.surveyData.questions[qId];
+            return question && !this.isQuestionSupported(config, question);
+        });
+        if (skipped.length > 0) {
+            console.warn(`  Skipping ${skipped.length} question(s) not supported by eval type "${config.evalType || 'distribution'}": ${skipped.join(', ')}`);
+        }
+
+        const unranked = config.targetQuestionIds.filter(qId => {
+            const question = config.surveyData.questions[qId];
+            return question?.type === 'ranking' && this.isQuestionSupported(config, question)
+                && config.surveyData.segments.some(seg => {
+                    const response = seg.responses.find(r => r.questionId === qId);
+                    return response && !this.isResponseScorable(question, response);
+                });
+        });
+        if (unranked.length > 0) {
+            console.warn(`  Skipping ranking question(s) for segments without a rank distribution: ${unranked.join(', ')}`);
+        }
+    }
+
+    /**
+     * Whether a segment response carries what its question is scored against.
+     * Ranking questions are scored on the option × rank matrix, so responses
+     * with only a flat distribution are skipped rather than scored as single-select.
+     */
+    private static isResponseScorable(question: { type: string }, response: DemographicResponse): boolean {
+        return question.type !== 'ranking' || !!response.rankDistribution;
+    }
+
+    /**
+     * Context selection strategy for the configId and blueprint context.
+     * Only distribution-context prompts with context questions are affected,
+     * so everything else (including the `-c0` baseline) stays strategy-free.
+     */
+    private static contextSelectionMetadata(
+        config: DTEFBlueprintConfig,
+        contextFormat: DTEFContextFormat,
+        contextQuestionCount: number,
+    ): { contextSelection?: DTEFContextSelection; contextSelectionSeed?: number } {
+        const selection = config.contextSelection || 'order';
+        if (selection === 'order' || contextFormat !== 'distribution-context' || contextQuestionCount === 0) return {};
+        return {
+            contextSelection: selection,
+            ...(selection === 'random' ? { contextSelectionSeed: config.contextSelectionSeed ?? DEFAULT_CONTEXT_SELECTION_SEED } : {}),
+        };
+    }
+
+    /**
+     * Few-shot settings for the configId and blueprint context, present only
+     * for the few-shot-segments format.
+     */
+    private static fewShotMetadata(
+        config: DTEFBlueprintConfig,
+        contextFormat: DTEFContextFormat,
+    ): { fewShotCount?: number; fewShotSelection?: DTEFFewShotSelection; fewShotSeed?: number } {
+        if (contextFormat !== 'few-shot-segments') return {};
+        const selection = config.fewShotSelection || 'similar';
+        return {
+            fewShotCount: config.fewShotCount ?? DEFAULT_FEW_SHOT_COUNT,
+            fewShotSelection: selection,
+            ...(selection === 'random' ? { fewShotSeed: config.fewShotSeed ?? DEFAULT_FEW_SHOT_SEED } : {}),
+        };
+    }
+
+    /**
+     * Prompt template name, version and hash for the blueprint context, so
+     * each result records the wording it was asked with.
+     */
+    private static promptTemplateMetadata(
+        config: DTEFBlueprintConfig,
+    ): { promptTemplate?: Pick<DTEFPromptTemplate, 'name' | 'version' | 'hash'> } {
+        const template = config.promptTemplate;
+        if (!template) return {};
+        return { promptTemplate: { name: template.name, version: template.version, hash: template.hash } };
+    }
+
+    /** Title label and tag for blueprints using a registry template */
+    private static promptTemplateLabel(config: DTEFBlueprintConfig): { titleLabel: string; tags: string[] } {
+        const template = config.promptTemplate;
+        if (!template || template.name === DEFAULT_PROMPT_TEMPLATE_NAME) return { titleLabel: '', tags: [] };
+        const ref = `${template.name}@${template.version}`;
+        return { titleLabel: ` [template ${ref}]`, tags: [`template:${ref}`] };
+    }
+
+    /**
+     * Question variant for the blueprint context, with the configId of the
+     * original-wording blueprint it is compared against. Absent for the original.
+     */
+    private static questionVariantMetadata(
+        config: DTEFBlueprintConfig,
+        idParts: ConfigIdParts,
+    ): { questionVariant?: DTEFQuestionVariant & { baseConfigId: string } } {
+        const variant = config.questionVariant;
+        if (!variant || isOriginalQuestionVariant(variant)) return {};
+        return {
+            questionVariant: {
+                paraphraseIndex: variant.paraphraseIndex,
+                orderIndex: variant.orderIndex,
+                baseConfigId: encodeConfigId({ ...idParts, questionVariant: undefined }),
+            },
+        };
+    }
+
+    /** Title label and tags for paraphrase and option-order variants */
+    private static questionVariantLabel(config: DTEFBlueprintConfig): { titleLabel: string; tags: string[] } {
+        const variant = config.questionVariant;
+        if (!variant || isOriginalQuestionVariant(variant)) return { titleLabel: '', tags: [] };
+        const labels: string[] = [];
+        const tags = ['question-variant'];
+        if (variant.paraphraseIndex > 0) {
+            labels.push(`paraphrase ${variant.paraphraseIndex}`);
+            tags.push('paraphrase');
+        }
+        if (variant.orderIndex > 0) {
+            labels.push(`option order ${variant.orderIndex}`);
+            tags.push('option-order');
+        }
+        return { titleLabel: ` [${labels.join(', ')}]`, tags };
+    }
+
+    /**
+     * Survey round and release date for the blueprint context, so aggregation
+     * can compare scores on rounds before and after each model's knowledge cutoff.
+     */
+    private static roundMetadata(surveyData: DTEFSurveyData): { roundId?: string; roundReleaseDate?: string } {
+        return {
+            ...(surveyData.roundId ? { roundId: surveyData.roundId } : {}),
+            ...(surveyData.releaseDate ? { roundReleaseDate: surveyData.releaseDate } : {}),
+        };
+    }
+
+    /**
+     * Compute population marginal distributions (weighted average across segments,
+     * by summed survey weight when the survey is weighted).
      * Returns a map from questionId to marginal distribution.
      */
     static computePopulationMarginals(
@@ -119,9 +266,9 @@ export class DemographicBlueprintService {
                     accum.set(resp.questionId, entry);
                 }
                 for (let i = 0; i < resp.distribution.length; i++) {
-                    entry.weightedSum[i] += resp.distribution[i] * segment.sampleSize;
+                    entry.weightedSum[i] += resp.distribution[i] * getPopulationWeight(segment);
                 }
-                entry.totalWeight += segment.sampleSize;
+                entry.totalWeight += getPopulationWeight(segment);
             }
         }
 
@@ -149,8 +296,8 @@ export class DemographicBlueprintService {
                 ? 'distribution-context'
                 : 'attribute-label');
 
-        // Use batched generation if batchSize > 1
-        if (batchSize > 1) {
+        // Use batched generation if batchSize > 1 (open-ended answers are always asked one question at a time)
+        if (batchSize > 1 && evalType !== 'open-ended') {
             return this.generateBatchedBlueprintForSegment(config, segment, batchSize);
         }
 
@@ -166,10 +313,12 @@ export class DemographicBlueprintService {
 
         for (const questionId of config.targetQuestionIds) {
             const question = config.surveyData.questions[questionId];
-            if (!question) continue;
+            if (!question || !this.isQuestionSupported(config, question)) continue;
+            if (isUnchangedByQuestionVariant(config, questionId)) continue;
 
             const response = segment.responses.find(r => r.questionId === questionId);
-            if (!response) continue;
+            if (!response || !this.isResponseScorable(question, response)) continue;
+            if (evalType === 'open-ended' && !response.textResponses?.length) continue;
 
             const { prompt, contextQuestionCount, contextQuestionIds } = this.generatePromptForQuestion(
                 config,
@@ -191,8 +340,11 @@ export class DemographicBlueprintService {
             }
         }
 
+        const selection = this.contextSelectionMetadata(config, contextFormat, blueprintContextCount);
+        const fewShot = this.fewShotMetadata(config, contextFormat);
+
         // Use configIdEncoder for backward-compatible configId
-        const blueprintId = encodeConfigId({
+        const idParts: ConfigIdParts = {
             surveyId: config.surveyData.surveyId,
             segmentId: segment.id,
             contextQuestionCount: blueprintContextCount,
@@ -200,16 +352,26 @@ export class DemographicBlueprintService {
             evalType,
             reasoningMode,
             syntheticN: evalType === 'synthetic-individual' ? config.syntheticN : undefined,
-        });
+            ...selection,
+            ...fewShot,
+            promptTemplate: config.promptTemplate,
+            questionVariant: config.questionVariant,
+        };
+        const blueprintId = encodeConfigId(idParts);
 
         const ctxLabel = blueprintContextCount > 0 ? ` (${blueprintContextCount} context Qs)` : '';
         const evalLabel = evalType === 'shift' ? ' [shift]'
             : evalType === 'synthetic-individual' ? ' [synth]'
             : evalType === 'individual-answer' ? ' [indiv]'
+            : evalType === 'open-ended' ? ' [open]'
             : '';
         const cotLabel = reasoningMode === 'cot' ? ' [CoT]' : '';
-        const fmtLabel = contextFormat === 'narrative' ? ' [narrative]' : '';
-        const blueprintTitle = `${config.surveyData.surveyName} - ${segment.label}${ctxLabel}${evalLabel}${cotLabel}${fmtLabel}`;
+        const fmtLabel = contextFormat === 'narrative' ? ' [narrative]'
+            : contextFormat === 'few-shot-segments' ? ' [few-shot]'
+            : '';
+        const templateLabel = this.promptTemplateLabel(config);
+        const variantLabel = this.questionVariantLabel(config);
+        const blueprintTitle = `${config.surveyData.surveyName} - ${segment.label}${ctxLabel}${evalLabel}${cotLabel}${fmtLabel}${templateLabel.titleLabel}${variantLabel.titleLabel}`;
 
         // Build ground truth distributions map for DTEF metadata
         const groundTruthDistributions: Record<string, number[]> = {};
@@ -217,35 +379,50 @@ export class DemographicBlueprintService {
             if (prompt.idealResponse) {
                 try {
                     const dist = JSON.parse(prompt.idealResponse);
-                    if (Array.isArray(dist)) {
+                    // Ranking ideal responses are option × rank matrices; keep flat distributions only
+                    if (Array.isArray(dist) && dist.every(n => typeof n === 'number')) {
                         groundTruthDistributions[prompt.id] = dist;
                     }
                 } catch { /* ignore parse errors */ }
             }
         }
 
+        // Shift and narrative prompts already carry the full marginals; otherwise
+        // record the target questions' marginals so the analysis view can draw
+        // the population baseline next to each prediction.
+        const recordedMarginals = marginals ?? Object.fromEntries(
+            Object.entries(config.populationMarginals || this.computePopulationMarginals(config.surveyData))
+                .filter(([qId]) => config.targetQuestionIds.includes(qId)),
+        );
+
         // Choose system prompt via the generator
         const systemPrompt = getSystemPrompt(evalType, reasoningMode, {
             customPrompt: config.blueprintTemplate?.systemPrompt,
+            contextFormat,
+            template: config.promptTemplate,
         });
 
         // Build tags
         const evalTag = evalType === 'shift' ? 'shift'
             : evalType === 'synthetic-individual' ? 'synthetic-individual'
             : evalType === 'individual-answer' ? 'individual-answer'
+            : evalType === 'open-ended' ? 'open-ended'
             : 'distribution';
         const tags = ['_periodic', 'dtef', 'demographic', evalTag, config.surveyData.surveyId];
         if (reasoningMode === 'cot') tags.push('cot');
         if (contextFormat === 'narrative') tags.push('narrative');
+        if (contextFormat === 'few-shot-segments') tags.push('few-shot');
         if (config.experimentId) tags.push(`experiment:${config.experimentId}`);
+        tags.push(...templateLabel.tags);
+        tags.push(...variantLabel.tags);
 
         return {
             configId: blueprintId,
             configTitle: blueprintTitle,
-            description: `DTEF${evalLabel}: Predict response distributions for ${segment.label}. Source: ${config.surveyData.source || config.surveyData.surveyName}`,
+            description: `DTEF${evalLabel}: ${evalType === 'open-ended' ? 'Write the answers' : 'Predict response distributions'} for ${segment.label}. Source: ${config.surveyData.source || config.surveyData.surveyName}`,
             models: config.modelConfig?.models || ['CORE'],
             system: systemPrompt,
-            temperature: config.modelConfig?.temperature || 0.3,
+            temperature: config.modelConfig?.temperature ?? 0.3,
             ...(config.modelConfig?.temperatures ? { temperatures: config.modelConfig.temperatures } : {}),
             prompts,
             tags,
@@ -258,11 +435,99 @@ export class DemographicBlueprintService {
                     groundTruthDistributions,
                     contextQuestionCount: blueprintContextCount,
                     contextQuestionIds: blueprintContextIds,
+                    ...selection,
+                    ...fewShot,
                     evalType,
                     contextFormat,
                     reasoningMode,
                     ...(config.experimentId ? { experimentId: config.experimentId } : {}),
-                    ...(marginals ? { populationMarginals: marginals } : {}),
+                    ...this.roundMetadata(config.surveyData),
+                    ...this.promptTemplateMetadata(config),
+                    ...this.questionVariantMetadata(config, idParts),
+                    populationMarginals: recordedMarginals,
+                },
+            },
+        };
+    }
+
+    /**
+     * Generate the own-opinion probe: every supported target question, asked
+     * with no persona or context. Points compare the answer with the
+     * population marginal, but the probe's purpose is the raw answer itself,
+     * which aggregation compares with the model's segment predictions.
+     */
+    private static generateOwnOpinionBlueprint(config: DTEFBlueprintConfig): WevalConfig {
+        const reasoningMode: DTEFReasoningMode = config.reasoningMode || 'standard';
+        const marginals = config.populationMarginals || this.computePopulationMarginals(config.surveyData);
+
+        const prompts: WevalPromptConfig[] = [];
+        const groundTruthDistributions: Record<string, number[]> = {};
+
+        for (const questionId of config.targetQuestionIds) {
+            const question = config.surveyData.questions[questionId];
+            const marginal = marginals[questionId];
+            if (!question || !marginal || !this.isQuestionSupported(config, question)) continue;
+
+            const assembled = assembleOwnOpinionPrompt(question, {
+                prefix: config.blueprintTemplate?.promptPrefix,
+                suffix: config.blueprintTemplate?.promptSuffix,
+                template: config.promptTemplate,
+            });
+            const promptId = `${questionId}-${OWN_OPINION_SEGMENT_ID}`;
+            prompts.push({
+                id: promptId,
+                description: `Own opinion → "${question.text}"`,
+                promptText: assembled.text,
+                points: this.generateDistributionPoints({ questionId, distribution: marginal }, question),
+                idealResponse: `[${marginal.map(n => n.toFixed(1)).join(', ')}]`,
+                temperature: config.modelConfig?.temperature,
+            });
+            groundTruthDistributions[promptId] = marginal;
+        }
+
+        const evalType: DTEFEvalType = 'own-opinion';
+        const templateLabel = this.promptTemplateLabel(config);
+        const tags = ['_periodic', 'dtef', 'own-opinion', config.surveyData.surveyId];
+        if (reasoningMode === 'cot') tags.push('cot');
+        if (config.experimentId) tags.push(`experiment:${config.experimentId}`);
+        tags.push(...templateLabel.tags);
+
+        return {
+            configId: encodeConfigId({
+                surveyId: config.surveyData.surveyId,
+                segmentId: OWN_OPINION_SEGMENT_ID,
+                evalType,
+                reasoningMode,
+                promptTemplate: config.promptTemplate,
+            }),
+            configTitle: `${config.surveyData.surveyName} - Own opinion${reasoningMode === 'cot' ? ' [CoT]' : ''}${templateLabel.titleLabel}`,
+            description: `DTEF [own]: Answer each question as yourself, with no demographic persona. Source: ${config.surveyData.source || config.surveyData.surveyName}`,
+            models: config.modelConfig?.models || ['CORE'],
+            system: getSystemPrompt(evalType, reasoningMode, {
+                customPrompt: config.blueprintTemplate?.systemPrompt,
+                template: config.promptTemplate,
+            }),
+            temperature: config.modelConfig?.temperature ?? 0.3,
+            ...(config.modelConfig?.temperatures ? { temperatures: config.modelConfig.temperatures } : {}),
+            prompts,
+            tags,
+            context: {
+                dtef: {
+                    surveyId: config.surveyData.surveyId,
+                    segmentId: OWN_OPINION_SEGMENT_ID,
+                    segmentLabel: 'Own opinion',
+                    segmentAttributes: {},
+                    groundTruthDistributions,
+                    contextQuestionCount: 0,
+                    contextQuestionIds: [],
+                    evalType,
+                    reasoningMode,
+                    ...(config.experimentId ? { experimentId: config.experimentId } : {}),
+                    ...this.roundMetadata(config.surveyData),
+                    ...this.promptTemplateMetadata(config),
+                    populationMarginals: Object.fromEntries(
+                        Object.entries(marginals).filter(([qId]) => config.targetQuestionIds.includes(qId)),
+                    ),
                 },
             },
         };
@@ -312,7 +577,7 @@ export class DemographicBlueprintService {
             for (const participant of sampled) {
                 for (const questionId of config.targetQuestionIds) {
                     const question = config.surveyData.questions[questionId];
-                    if (!question) continue;
+                    if (!question || !this.isQuestionSupported(config, question)) continue;
 
                     // Check if this participant answered this question
                     const participantResponse = participant.responses.find(r => r.questionId === questionId);
@@ -333,6 +598,7 @@ export class DemographicBlueprintService {
                         {
                             prefix: config.blueprintTemplate?.promptPrefix,
                             suffix: config.blueprintTemplate?.promptSuffix,
+                            template: config.promptTemplate,
                         },
                     );
 
@@ -377,19 +643,23 @@ export class DemographicBlueprintService {
                 contextFormat,
                 evalType: 'individual-answer',
                 reasoningMode,
+                promptTemplate: config.promptTemplate,
             }) + '-individual';
 
             const fmtLabel = contextFormat !== 'attribute-label' ? ` [${contextFormat}]` : '';
             const ctxLabel = blueprintContextCount > 0 ? ` (${blueprintContextCount} ctx)` : '';
-            const blueprintTitle = `${config.surveyData.surveyName} - ${segment.label} [indiv]${ctxLabel}${fmtLabel}`;
+            const templateLabel = this.promptTemplateLabel(config);
+            const blueprintTitle = `${config.surveyData.surveyName} - ${segment.label} [indiv]${ctxLabel}${fmtLabel}${templateLabel.titleLabel}`;
 
             const systemPrompt = getSystemPrompt('individual-answer', reasoningMode, {
                 customPrompt: config.blueprintTemplate?.systemPrompt,
+                template: config.promptTemplate,
             });
 
             const tags = ['_periodic', 'dtef', 'demographic', 'individual-answer', config.surveyData.surveyId];
             if (contextFormat !== 'attribute-label') tags.push(contextFormat);
             if (config.experimentId) tags.push(`experiment:${config.experimentId}`);
+            tags.push(...templateLabel.tags);
 
             blueprints.push({
                 configId: blueprintId,
@@ -397,7 +667,7 @@ export class DemographicBlueprintService {
                 description: `DTEF [indiv]: Predict individual answers for ${segment.label} (${sampled.length} participants). Source: ${config.surveyData.source || config.surveyData.surveyName}`,
                 models: config.modelConfig?.models || ['CORE'],
                 system: systemPrompt,
-                temperature: config.modelConfig?.temperature || 0.3,
+                temperature: config.modelConfig?.temperature ?? 0.3,
                 ...(config.modelConfig?.temperatures ? { temperatures: config.modelConfig.temperatures } : {}),
                 prompts,
                 tags,
@@ -414,6 +684,8 @@ export class DemographicBlueprintService {
                         contextQuestionIds: blueprintContextIds,
                         sampleSize: sampled.length,
                         ...(config.experimentId ? { experimentId: config.experimentId } : {}),
+                        ...this.roundMetadata(config.surveyData),
+                        ...this.promptTemplateMetadata(config),
                     },
                 },
             });
@@ -452,12 +724,12 @@ export class DemographicBlueprintService {
         let blueprintContextIds: string[] = [];
 
         // Collect valid question/response pairs
-        const questionPairs: { questionId: string; question: { text: string; type: string; options?: string[] }; response: DemographicResponse }[] = [];
+        const questionPairs: { questionId: string; question: SurveyQuestionDef; response: DemographicResponse }[] = [];
         for (const questionId of config.targetQuestionIds) {
             const question = config.surveyData.questions[questionId];
-            if (!question) continue;
+            if (!question || !this.isQuestionSupported(config, question)) continue;
             const response = segment.responses.find(r => r.questionId === questionId);
-            if (!response) continue;
+            if (!response || !this.isResponseScorable(question, response)) continue;
             questionPairs.push({ questionId, question, response });
         }
 
@@ -465,6 +737,8 @@ export class DemographicBlueprintService {
         for (let batchIdx = 0; batchIdx < questionPairs.length; batchIdx += batchSize) {
             const batch = questionPairs.slice(batchIdx, batchIdx + batchSize);
             const promptId = `batch-${Math.floor(batchIdx / batchSize)}-${segment.id}`;
+            // Batches keep the original grouping so variant prompts line up with the original's
+            if (batch.every(item => isUnchangedByQuestionVariant(config, item.questionId))) continue;
 
             // Exclude all batch question IDs from context
             const batchQuestionIds = batch.map(item => item.questionId);
@@ -496,6 +770,7 @@ export class DemographicBlueprintService {
                     suffix: config.blueprintTemplate?.promptSuffix,
                     marginals,
                     syntheticN: config.syntheticN,
+                    template: config.promptTemplate,
                 },
             );
 
@@ -506,20 +781,20 @@ export class DemographicBlueprintService {
             }
 
             // Build ideal response as JSON object
+            const round1 = (values: number[]) => values.map(n => parseFloat(n.toFixed(1)));
             const idealResponse = JSON.stringify(
-                Object.fromEntries(batch.map((item, idx) => [`Q${idx + 1}`, item.response.distribution.map(n => parseFloat(n.toFixed(1)))]))
+                Object.fromEntries(batch.map((item, idx) => [
+                    `Q${idx + 1}`,
+                    item.question.type === 'ranking' && item.response.rankDistribution
+                        ? item.response.rankDistribution.map(round1)
+                        : round1(item.response.distribution),
+                ]))
             );
 
-            // Build points array — one distribution_metric per question in the batch
-            const points: WevalPromptConfig['points'] = batch.map((item, idx) => ({
-                text: `Distribution Similarity Q${idx + 1}: "${item.question.text.slice(0, 60)}..."`,
-                fn: 'distribution_metric',
-                fnArgs: {
-                    expected: item.response.distribution,
-                    metric: 'js-divergence',
-                    questionKey: `Q${idx + 1}`,
-                },
-            }));
+            // Build points array — one metric point per question in the batch
+            const points: WevalPromptConfig['points'] = batch.flatMap((item, idx) =>
+                this.generateDistributionPoints(item.response, item.question, evalType, `Q${idx + 1}`)
+            );
 
             prompts.push({
                 id: promptId,
@@ -531,8 +806,11 @@ export class DemographicBlueprintService {
             });
         }
 
+        const selection = this.contextSelectionMetadata(config, contextFormat, blueprintContextCount);
+        const fewShot = this.fewShotMetadata(config, contextFormat);
+
         // Encode configId with full parameters
-        const blueprintId = encodeConfigId({
+        const idParts: ConfigIdParts = {
             surveyId: config.surveyData.surveyId,
             segmentId: segment.id,
             contextQuestionCount: blueprintContextCount,
@@ -541,16 +819,26 @@ export class DemographicBlueprintService {
             reasoningMode,
             syntheticN: evalType === 'synthetic-individual' ? config.syntheticN : undefined,
             batchSize,
-        });
+            ...selection,
+            ...fewShot,
+            promptTemplate: config.promptTemplate,
+            questionVariant: config.questionVariant,
+        };
+        const blueprintId = encodeConfigId(idParts);
 
         const ctxLabel = blueprintContextCount > 0 ? ` (${blueprintContextCount} context Qs)` : '';
         const evalLabel = evalType === 'shift' ? ' [shift]'
             : evalType === 'synthetic-individual' ? ' [synth]'
             : evalType === 'individual-answer' ? ' [indiv]'
+            : evalType === 'open-ended' ? ' [open]'
             : '';
         const cotLabel = reasoningMode === 'cot' ? ' [CoT]' : '';
-        const fmtLabel = contextFormat === 'narrative' ? ' [narrative]' : '';
-        const blueprintTitle = `${config.surveyData.surveyName} - ${segment.label} (batch ${batchSize})${ctxLabel}${evalLabel}${cotLabel}${fmtLabel}`;
+        const fmtLabel = contextFormat === 'narrative' ? ' [narrative]'
+            : contextFormat === 'few-shot-segments' ? ' [few-shot]'
+            : '';
+        const templateLabel = this.promptTemplateLabel(config);
+        const variantLabel = this.questionVariantLabel(config);
+        const blueprintTitle = `${config.surveyData.surveyName} - ${segment.label} (batch ${batchSize})${ctxLabel}${evalLabel}${cotLabel}${fmtLabel}${templateLabel.titleLabel}${variantLabel.titleLabel}`;
 
         // Build ground truth distributions
         const groundTruthDistributions: Record<string, number[]> = {};
@@ -562,17 +850,22 @@ export class DemographicBlueprintService {
         const systemPrompt = getSystemPrompt(evalType, reasoningMode, {
             customPrompt: config.blueprintTemplate?.systemPrompt,
             batched: true,
+            template: config.promptTemplate,
         });
 
         // Build tags (matching single-question path)
         const evalTag = evalType === 'shift' ? 'shift'
             : evalType === 'synthetic-individual' ? 'synthetic-individual'
             : evalType === 'individual-answer' ? 'individual-answer'
+            : evalType === 'open-ended' ? 'open-ended'
             : 'distribution';
         const tags = ['_periodic', 'dtef', 'demographic', 'batched', evalTag, config.surveyData.surveyId];
         if (reasoningMode === 'cot') tags.push('cot');
         if (contextFormat === 'narrative') tags.push('narrative');
+        if (contextFormat === 'few-shot-segments') tags.push('few-shot');
         if (config.experimentId) tags.push(`experiment:${config.experimentId}`);
+        tags.push(...templateLabel.tags);
+        tags.push(...variantLabel.tags);
 
         return {
             configId: blueprintId,
@@ -580,7 +873,7 @@ export class DemographicBlueprintService {
             description: `DTEF${evalLabel}: Batched predictions (${batchSize} Qs/prompt) for ${segment.label}. Source: ${config.surveyData.source || config.surveyData.surveyName}`,
             models: config.modelConfig?.models || ['CORE'],
             system: systemPrompt,
-            temperature: config.modelConfig?.temperature || 0.3,
+            temperature: config.modelConfig?.temperature ?? 0.3,
             ...(config.modelConfig?.temperatures ? { temperatures: config.modelConfig.temperatures } : {}),
             prompts,
             tags,
@@ -593,11 +886,16 @@ export class DemographicBlueprintService {
                     groundTruthDistributions,
                     contextQuestionCount: blueprintContextCount,
                     contextQuestionIds: blueprintContextIds,
+                    ...selection,
+                    ...fewShot,
                     batchSize,
                     evalType,
                     contextFormat,
                     reasoningMode,
                     ...(config.experimentId ? { experimentId: config.experimentId } : {}),
+                    ...this.roundMetadata(config.surveyData),
+                    ...this.promptTemplateMetadata(config),
+                    ...this.questionVariantMetadata(config, idParts),
                     ...(marginals ? { populationMarginals: marginals } : {}),
                 },
             },
@@ -611,15 +909,13 @@ export class DemographicBlueprintService {
         config: DTEFBlueprintConfig,
         segment: SegmentWithResponses,
         questionId: string,
-        question: { text: string; type: string; options?: string[] },
+        question: SurveyQuestionDef,
         response: DemographicResponse,
         evalType: DTEFEvalType,
         contextFormat: DTEFContextFormat,
         reasoningMode: DTEFReasoningMode,
         marginals?: Record<string, number[]>,
     ): { prompt: WevalPromptConfig; contextQuestionCount: number; contextQuestionIds: string[] } {
-        const options = question.options || [];
-
         // Get context block based on format
         let contextBlock: ContextResult | null = null;
         if (contextFormat === 'distribution-context') {
@@ -643,17 +939,37 @@ export class DemographicBlueprintService {
                 suffix: config.blueprintTemplate?.promptSuffix,
                 marginals,
                 syntheticN: config.syntheticN,
+                template: config.promptTemplate,
             },
         );
 
-        // Build the ideal response as the distribution string
-        const idealDistribution = response.distribution
-            .map(n => n.toFixed(1))
-            .join(', ');
-        const idealResponse = `[${idealDistribution}]`;
+        if (evalType === 'open-ended') {
+            return {
+                prompt: {
+                    id: `${questionId}-${segment.id}`,
+                    description: `Answer as: ${segment.label} → "${question.text}"`,
+                    promptText: assembled.text,
+                    points: this.generateThemePoints(response),
+                    referenceResponses: seededSample(
+                        response.textResponses || [],
+                        config.sampleSize || 50,
+                        `${segment.id}-${questionId}`,
+                    ),
+                    temperature: config.modelConfig?.temperature,
+                },
+                contextQuestionCount: assembled.contextQuestionCount,
+                contextQuestionIds: assembled.contextQuestionIds,
+            };
+        }
+
+        // Build the ideal response as the distribution string (rank matrix for ranking questions)
+        const formatRow = (values: number[]) => `[${values.map(n => n.toFixed(1)).join(', ')}]`;
+        const idealResponse = question.type === 'ranking' && response.rankDistribution
+            ? `[${response.rankDistribution.map(formatRow).join(', ')}]`
+            : formatRow(response.distribution);
 
         // Build evaluation points
-        const points = this.generateDistributionPoints(response.distribution, options, evalType);
+        const points = this.generateDistributionPoints(response, question, evalType);
 
         return {
             prompt: {
@@ -671,12 +987,19 @@ export class DemographicBlueprintService {
 
     /**
      * Generate evaluation points for distribution comparison.
+     * The point function follows the question type: independent shares for
+     * multi-select, option × rank matrices for ranking.
      */
     private static generateDistributionPoints(
-        expectedDistribution: number[],
-        _options: string[],
+        response: DemographicResponse,
+        question: SurveyQuestionDef,
         evalType: DTEFEvalType = 'distribution',
-    ): WevalPromptConfig['points'] {
+        questionKey?: string,
+    ): NonNullable<WevalPromptConfig['points']> {
+        const expectedDistribution = response.distribution;
+        const keyLabel = questionKey ? ` ${questionKey}: "${question.text.slice(0, 60)}..."` : '';
+        const keyArgs = questionKey ? { questionKey } : {};
+
         if (evalType === 'individual-answer') {
             return [{
                 text: 'Individual Answer Accuracy',
@@ -688,16 +1011,52 @@ export class DemographicBlueprintService {
             }];
         }
 
+        if (question.type === 'multi-select') {
+            return [{
+                text: questionKey ? `Selection Share Similarity${keyLabel}` : 'Selection Share Similarity (per-option)',
+                fn: 'multi_select_metric',
+                fnArgs: {
+                    expected: expectedDistribution,
+                    ...keyArgs,
+                },
+            }];
+        }
+
+        if (question.type === 'ranking') {
+            if (!response.rankDistribution) {
+                throw new Error(`Ranking question ${response.questionId} has no rankDistribution to score against`);
+            }
+            return [{
+                text: questionKey ? `Rank Distribution Similarity${keyLabel}` : 'Rank Distribution Similarity (per-option)',
+                fn: 'rank_metric',
+                fnArgs: {
+                    expected: response.rankDistribution,
+                    ...keyArgs,
+                },
+            }];
+        }
+
         return [{
-            text: 'Distribution Similarity (Jensen-Shannon Distance)',
+            text: questionKey ? `Distribution Similarity${keyLabel}` : 'Distribution Similarity (Jensen-Shannon Distance)',
             fn: 'distribution_metric',
             fnArgs: {
                 expected: expectedDistribution,
                 metric: 'js-divergence',
+                ...keyArgs,
+                ...(question.ordinalPositions ? { ordinalPositions: question.ordinalPositions } : {}),
             },
         }];
     }
 
+    /**
+     * LLM-judged theme coverage points for an open-ended prompt, one per theme
+     * the segment's real answers raise. Empty when no themes are recorded, in
+     * which case the prompt is scored by embedding similarity alone.
+     */
+    private static generateThemePoints(response: DemographicResponse): NonNullable<WevalPromptConfig['points']> {
+        return (response.themes || []).map(theme => `Among the answers, at least one raises this theme: ${theme}`);
+    }
+
     /**
      * Select segments based on configuration.
      */
@@ -715,6 +1074,7 @@ export class DemographicBlueprintService {
      * Generate DTEFGeneratedBlueprint objects (richer output for analysis).
      */
     static generateDetailedBlueprints(config: DTEFBlueprintConfig): DTEFGeneratedBlueprint[] {
+        config = withContextRelevance(config);
         const segments = this.selectSegments(config);
         const evalType: DTEFEvalType = config.evalType || 'distribution';
         const reasoningMode: DTEFReasoningMode = config.reasoningMode || 'standard';
@@ -734,10 +1094,10 @@ export class DemographicBlueprintService {
 
             for (const questionId of config.targetQuestionIds) {
                 const question = config.surveyData.questions[questionId];
-                if (!question) continue;
+                if (!question || !this.isQuestionSupported(config, question)) continue;
 
                 const response = segment.responses.find(r => r.questionId === questionId);
-                if (!response) continue;
+                if (!response || !this.isResponseScorable(question, response)) continue;
 
                 const options = question.options || [];
 
@@ -747,6 +1107,8 @@ export class DemographicBlueprintService {
                     contextBlock = buildDistributionContext(segment, config, questionId);
                 } else if (contextFormat === 'narrative') {
                     contextBlock = buildNarrativeContext(segment, config, marginals, questionId);
+                } else if (contextFormat === 'few-shot-segments') {
+                    contextBlock = getContextBuilder(contextFormat, segment, config, questionId);
                 }
 
                 const assembled = assemblePrompt(
@@ -761,6 +1123,7 @@ export class DemographicBlueprintService {
                         suffix: config.blueprintTemplate?.promptSuffix,
                         marginals,
                         syntheticN: config.syntheticN,
+                        template: config.promptTemplate,
                     },
                 );
 
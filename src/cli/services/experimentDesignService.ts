@@ -0,0 +1,659 @@
+/**
+ * Experiment Design Service
+ *
+ * Parses factorial experiment designs (YAML) and expands them into the full
+ * condition matrix. Each condition is one combination of factor levels, e.g.
+ * contextFormat × reasoningMode × temperature, evaluated over the same fixed
+ * sample of segments and questions so conditions differ only in the factors.
+ *
+ * Used by `dtef experiment run`, which generates every condition's
+ * blueprints, enqueues them and tracks progress in the ExperimentRecord, and
+ * by `dtef experiment analyze`, which fits main effects and interactions and
+ * evaluates sequential stopping rules. `dtef experiment create` uses the
+ * power calculation to size new experiments.
+ *
+ * @module cli/services/experimentDesignService
+ */
+
+import * as yaml from 'js-yaml';
+import { generateBlueprintIdFromPath } from '@/app/utils/blueprintIdUtils';
+import { calculateHybridScore, IDEAL_MODEL_ID } from '@/app/utils/calculationUtils';
+import { DemographicAggregationService } from './demographicAggregationService';
+import {
+    fitLinearMixedModel,
+    chiSquarePValue,
+    zTestPValue,
+    invertMatrix,
+    stddev,
+    normalCdf,
+    requiredSampleSize,
+    sequentialBoundary,
+} from '../utils/statisticalTests';
+import type { DTEFSurveyData, DTEFBlueprintConfig, DTEFEvalType, DTEFContextFormat, DTEFReasoningMode } from '@/types/dtef';
+import type {
+    ExperimentCondition,
+    ExperimentProgress,
+    ExperimentMixedModel,
+    ExperimentEffect,
+    ExperimentTermTest,
+    ExperimentCellMean,
+    ExperimentPowerAnalysis,
+    ExperimentSequentialDesign,
+    ExperimentSequentialLook,
+} from '@/types/experiment';
+import type { WevalResult } from '@/types/shared';
+
+export const EXPERIMENT_FACTORS = ['evalType', 'contextFormat', 'reasoningMode', 'temperature', 'batchSize'] as const;
+export type ExperimentFactor = typeof EXPERIMENT_FACTORS[number];
+export type FactorLevel = string | number;
+
+const FACTOR_LEVELS: Partial<Record<ExperimentFactor, readonly string[]>> = {
+    evalType: ['distribution', 'shift', 'synthetic-individual', 'individual-answer', 'open-ended'],
+    contextFormat: ['attribute-label', 'distribution-context', 'narrative', 'raw-survey', 'interview', 'first-person', 'few-shot-segments'],
+    reasoningMode: ['standard', 'cot'],
+};
+
+const NUMERIC_FACTOR_RANGES: Partial<Record<ExperimentFactor, { min: number; max: number; integer: boolean }>> = {
+    temperature: { min: 0, max: 2, integer: false },
+    batchSize: { min: 1, max: 5, integer: true },
+};
+
+/** Short prefixes for numeric levels in condition directory names, e.g. `t0.3`, `b2` */
+const SLUG_PREFIXES: Partial<Record<ExperimentFactor, string>> = {
+    temperature: 't',
+    batchSize: 'b',
+};
+
+/** A factorial experiment design as declared in YAML */
+export interface FactorialDesign {
+    id: string;
+    title: string;
+    hypothesis: string;
+    successCriteria?: string;
+    /** Path to the DTEF survey data JSON */
+    survey: string;
+    /** Target question IDs (default: all questions in the survey) */
+    questions?: string[];
+    /** Segment IDs (default: all segments) */
+    segments?: string[];
+    /** Context question IDs, or "all" for every question */
+    contextQuestions?: string[] | 'all';
+    models: string[];
+    tokenBudget?: number;
+    /** Settings held constant across all conditions */
+    fixed: Partial<Record<ExperimentFactor, FactorLevel>>;
+    /** Factor name → levels; the condition matrix is their cartesian product */
+    factors: Partial<Record<ExperimentFactor, FactorLevel[]>>;
+}
+
+/** One cell of the condition matrix */
+export interface FactorialCondition extends ExperimentCondition {
+    /** Level of every varied factor in this condition */
+    levels: Partial<Record<ExperimentFactor, FactorLevel>>;
+}
+
+function isFactor(key: string): key is ExperimentFactor {
+    return (EXPERIMENT_FACTORS as readonly string[]).includes(key);
+}
+
+function validateLevel(factor: ExperimentFactor, level: unknown, where: string, errors: string[]): void {
+    const allowed = FACTOR_LEVELS[factor];
+    if (allowed) {
+        if (typeof level !== 'string' || !allowed.includes(level)) {
+            errors.push(`${where}: "${level}" is not a valid ${factor} (expected one of: ${allowed.join(', ')})`);
+        }
+        return;
+    }
+    const range = NUMERIC_FACTOR_RANGES[factor]!;
+    if (typeof level !== 'number' || isNaN(level) || level < range.min || level > range.max || (range.integer && !Number.isInteger(level))) {
+        errors.push(`${where}: ${factor} must be ${range.integer ? 'an integer' : 'a number'} between ${range.min} and ${range.max}, got "${level}"`);
+    }
+}
+
+function toStringList(value: unknown, field: string, errors: string[]): string[] | undefined {
+    if (value === undefined || value === null || value === 'all') return undefined;
+    if (typeof value === 'string') return value.split(',').map(s => s.trim()).filter(Boolean);
+    if (Array.isArray(value) && value.every(v => typeof v === 'string' || typeof v === 'number')) {
+        return value.map(v => String(v));
+    }
+    errors.push(`${field} must be a list of IDs or "all"`);
+    return undefined;
+}
+
+/**
+ * Validates a parsed design document. Throws an Error listing every problem
+ * found, so a design file can be fixed in one pass.
+ */
+export function parseFactorialDesign(raw: unknown): FactorialDesign {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error('Experiment design must be a YAML mapping');
+    }
+    const doc = raw as Record<string, unknown>;
+    const errors: string[] = [];
+
+    for (const field of ['id', 'title', 'hypothesis', 'survey'] as const) {
+        if (typeof doc[field] !== 'string' || !(doc[field] as string).trim()) {
+            errors.push(`${field} is required`);
+        }
+    }
+    if (typeof doc.id === 'string' && !/^[a-zA-Z0-9-]+$/.test(doc.id)) {
+        errors.push('id must be alphanumeric with hyphens');
+    }
+
+    const fixed: FactorialDesign['fixed'] = {};
+    if (doc.fixed !== undefined) {
+        if (!doc.fixed || typeof doc.fixed !== 'object' || Array.isArray(doc.fixed)) {
+            errors.push('fixed must be a mapping of factor → value');
+        } else {
+            for (const [key, value] of Object.entries(doc.fixed as Record<string, unknown>)) {
+                if (!isFactor(key)) {
+                    errors.push(`fixed.${key}: unknown factor (expected one of: ${EXPERIMENT_FACTORS.join(', ')})`);
+                    continue;
+                }
+                validateLevel(key, value, `fixed.${key}`, errors);
+                fixed[key] = value as FactorLevel;
+            }
+        }
+    }
+
+    const factors: FactorialDesign['factors'] = {};
+    if (!doc.factors || typeof doc.factors !== 'object' || Array.isArray(doc.factors)) {
+        errors.push('factors must be a mapping of factor → list of levels');
+    } else {
+        for (const [key, value] of Object.entries(doc.factors as Record<string, unknown>)) {
+            if (!isFactor(key)) {
+                errors.push(`factors.${key}: unknown factor (expected one of: ${EXPERIMENT_FACTORS.join(', ')})`);
+                continue;
+            }
+            if (key in fixed) {
+                errors.push(`factors.${key}: factor is also set in fixed`);
+            }
+            if (!Array.isArray(value) || value.length === 0) {
+                errors.push(`factors.${key} must be a non-empty list of levels`);
+                continue;
+            }
+            value.forEach((level, i) => validateLevel(key, level, `factors.${key}[${i}]`, errors));
+            if (new Set(value).size !== value.length) {
+                errors.push(`factors.${key} contains duplicate levels`);
+            }
+            factors[key] = value as FactorLevel[];
+        }
+        if (!Object.values(factors).some(levels => levels!.length > 1)) {
+            errors.push('at least one factor needs two or more levels');
+        }
+    }
+
+    const models = doc.models === undefined ? ['CORE_CHEAP'] : toStringList(doc.models, 'models', errors);
+    if (doc.models === 'all' || (models && models.length === 0)) {
+        errors.push('models must name at least one model or model collection');
+    }
+
+    let tokenBudget: number | undefined;
+    if (doc.tokenBudget !== undefined) {
+        if (typeof doc.tokenBudget !== 'number' || !Number.isInteger(doc.tokenBudget) || doc.tokenBudget < 1) {
+            errors.push('tokenBudget must be a positive integer');
+        } else {
+            tokenBudget = doc.tokenBudget;
+        }
+    }
+
+    const questions = toStringList(doc.questions, 'questions', errors);
+    const segments = toStringList(doc.segments, 'segments', errors);
+    const contextQuestions = doc.contextQuestions === 'all'
+        ? 'all' as const
+        : toStringList(doc.contextQuestions, 'contextQuestions', errors);
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid experiment design:\n  - ${errors.join('\n  - ')}`);
+    }
+
+    return {
+        id: doc.id as string,
+        title: doc.title as string,
+        hypothesis: doc.hypothesis as string,
+        successCriteria: typeof doc.successCriteria === 'string' ? doc.successCriteria : undefined,
+        survey: doc.survey as string,
+        questions,
+        segments,
+        contextQuestions,
+        models: models ?? ['CORE_CHEAP'],
+        tokenBudget,
+        fixed,
+        factors,
+    };
+}
+
+/** Parses and validates design YAML text */
+export function loadFactorialDesign(content: string): FactorialDesign {
+    let raw: unknown;
+    try {
+        raw = yaml.load(content);
+    } catch (e: any) {
+        throw new Error(`Failed to parse experiment design YAML: ${e.message}`);
+    }
+    return parseFactorialDesign(raw);
+}
+
+function slugLevel(factor: ExperimentFactor, level: FactorLevel): string {
+    return `${SLUG_PREFIXES[factor] ?? ''}${level}`.replace(/[^a-zA-Z0-9.-]+/g, '-');
+}
+
+/**
+ * Expands the design's factors into every combination of levels, varying
+ * the last-declared factor fastest. Condition names spell out each level
+ * (`contextFormat=narrative,reasoningMode=cot`) so results stay readable
+ * without the design at hand.
+ */
+export function expandConditionMatrix(design: FactorialDesign): FactorialCondition[] {
+    const entries = Object.entries(design.factors) as [ExperimentFactor, FactorLevel[]][];
+    let combinations: Partial<Record<ExperimentFactor, FactorLevel>>[] = [{}];
+    for (const [factor, levels] of entries) {
+        combinations = combinations.flatMap(combo => levels.map(level => ({ ...combo, [factor]: level })));
+    }
+
+    return combinations.map(levels => {
+        const settings = { ...design.fixed, ...levels };
+        const varied = entries.map(([factor]) => factor);
+        return {
+            ...settings,
+            name: varied.map(factor => `${factor}=${levels[factor]}`).join(','),
+            evalType: String(settings.evalType ?? 'distribution'),
+            contextFormat: String(settings.contextFormat ?? 'attribute-label'),
+            reasoningMode: String(settings.reasoningMode ?? 'standard'),
+            levels,
+        };
+    });
+}
+
+/** Filesystem-safe name of a condition, used as its blueprint directory */
+export function conditionSlug(condition: FactorialCondition): string {
+    return (Object.entries(condition.levels) as [ExperimentFactor, FactorLevel][])
+        .map(([factor, level]) => slugLevel(factor, level))
+        .join('_');
+}
+
+/** Builds the blueprint generation config for one condition of the design */
+export function buildConditionBlueprintConfig(
+    design: FactorialDesign,
+    surveyData: DTEFSurveyData,
+    condition: FactorialCondition,
+): DTEFBlueprintConfig {
+    const batchSize = condition.batchSize as number | undefined;
+    const temperature = condition.temperature as number | undefined;
+    return {
+        surveyData,
+        targetQuestionIds: design.questions ?? Object.keys(surveyData.questions),
+        contextQuestionIds: design.contextQuestions === 'all'
+            ? Object.keys(surveyData.questions)
+            : design.contextQuestions,
+        segmentSelection: design.segments ? 'specific' : 'all',
+        segmentIds: design.segments,
+        tokenBudget: design.tokenBudget ?? 4096,
+        batchSize: batchSize && batchSize > 1 ? batchSize : undefined,
+        evalType: condition.evalType as DTEFEvalType,
+        contextFormat: condition.contextFormat as DTEFContextFormat,
+        reasoningMode: condition.reasoningMode as DTEFReasoningMode,
+        experimentId: design.id,
+        modelConfig: {
+            models: design.models,
+            temperature: temperature ?? 0.3,
+        },
+    };
+}
+
+/**
+ * Relative blueprint path of a condition's config, mirroring the layout
+ * `dtef publish` uses under dtef-configs (`experiments/<id>/<condition>/`),
+ * so IDs match whether a config is enqueued directly or found by the scheduler.
+ */
+export function conditionBlueprintPath(designId: string, condition: FactorialCondition, blueprintConfigId: string, ext: string): string {
+    return `experiments/${designId}/${conditionSlug(condition)}/${blueprintConfigId}${ext}`;
+}
+
+/** Path-derived config ID for a condition's blueprint */
+export function conditionConfigId(designId: string, condition: FactorialCondition, blueprintConfigId: string, ext: string): string {
+    return generateBlueprintIdFromPath(conditionBlueprintPath(designId, condition, blueprintConfigId, ext));
+}
+
+/** Summarises which of an experiment's configs have results */
+export function computeExperimentProgress(
+    conditionMap: Record<string, string[]>,
+    completedConfigIds: Set<string>,
+    enqueuedConfigIds: Iterable<string>,
+): ExperimentProgress {
+    const byCondition: ExperimentProgress['byCondition'] = {};
+    const allIds = new Set<string>();
+    for (const [name, configIds] of Object.entries(conditionMap)) {
+        byCondition[name] = {
+            total: configIds.length,
+            completed: configIds.filter(id => completedConfigIds.has(id)).length,
+        };
+        configIds.forEach(id => allIds.add(id));
+    }
+    const enqueued = [...new Set(enqueuedConfigIds)].filter(id => allIds.has(id));
+
+    return {
+        totalConfigs: allIds.size,
+        enqueuedConfigs: enqueued.length,
+        completedConfigs: [...allIds].filter(id => completedConfigIds.has(id)).length,
+        byCondition,
+        enqueuedConfigIds: enqueued,
+        updatedAt: new Date().toISOString(),
+    };
+}
+
+// ── Mixed-Effects Analysis ──────────────────────────────────────────
+
+/** One model's score on one question for one segment, under one condition */
+export interface FactorialObservation {
+    condition: string;
+    levels: Partial<Record<string, FactorLevel>>;
+    modelId: string;
+    questionId: string;
+    segmentId: string;
+    score: number;
+}
+
+/**
+ * Extracts per-prompt hybrid scores from an evaluation result. Prompt IDs are
+ * `<questionId>-<segmentId>`; batched prompts keep the whole prompt ID as
+ * their question.
+ */
+export function extractResultObservations(
+    result: WevalResult,
+    condition: string,
+    levels: FactorialObservation['levels'],
+): FactorialObservation[] {
+    const segmentId = DemographicAggregationService.extractDTEFContext(result)?.segmentId;
+    if (!segmentId) return [];
+
+    const observations: FactorialObservation[] = [];
+    for (const promptId of result.promptIds) {
+        const questionId = promptId.endsWith(`-${segmentId}`)
+            ? promptId.slice(0, -segmentId.length - 1)
+            : promptId;
+        for (const modelId of result.effectiveModels) {
+            if (modelId === IDEAL_MODEL_ID) continue;
+            const sim = result.evaluationResults?.perPromptSimilarities?.[promptId]?.[modelId]?.[IDEAL_MODEL_ID];
+            const covResult = result.evaluationResults?.llmCoverageScores?.[promptId]?.[modelId];
+            const cov = covResult && !('error' in covResult) ? covResult.avgCoverageExtent : undefined;
+            const score = calculateHybridScore(sim, cov);
+            if (score !== null) {
+                observations.push({ condition, levels, modelId, questionId, segmentId, score });
+            }
+        }
+    }
+    return observations;
+}
+
+interface DesignColumn {
+    term: string;
+    factors: string[];
+    /** Term label used to group columns for joint tests */
+    testTerm: string;
+    value: (obs: FactorialObservation) => number;
+}
+
+/**
+ * Fits score ~ main effects + two-way interactions + model, with random
+ * intercepts for question and segment. Factors use treatment coding against
+ * their first declared level, so `reasoningMode=cot` is the CoT effect at
+ * the reference level of every other factor, and an interaction coefficient
+ * is how much that effect changes at another factor's level. Model is a
+ * nuisance fixed effect: conditions are compared within the same model set.
+ */
+export function fitFactorialMixedModel(
+    observations: FactorialObservation[],
+    factors: Record<string, FactorLevel[]>,
+): ExperimentMixedModel {
+    const factorNames = Object.keys(factors);
+    const referenceLevels = Object.fromEntries(factorNames.map(f => [f, factors[f][0]]));
+    const nonReference = (f: string) => factors[f].slice(1);
+
+    const columns: DesignColumn[] = [{ term: '(Intercept)', factors: [], testTerm: '(Intercept)', value: () => 1 }];
+    for (const f of factorNames) {
+        for (const level of nonReference(f)) {
+            columns.push({ term: `${f}=${level}`, factors: [f], testTerm: f, value: obs => (obs.levels[f] === level ? 1 : 0) });
+        }
+    }
+    for (let i = 0; i < factorNames.length; i++) {
+        for (let j = i + 1; j < factorNames.length; j++) {
+            const [a, b] = [factorNames[i], factorNames[j]];
+            for (const la of nonReference(a)) {
+                for (const lb of nonReference(b)) {
+                    columns.push({
+                        term: `${a}=${la} × ${b}=${lb}`,
+                        factors: [a, b],
+                        testTerm: `${a} × ${b}`,
+                        value: obs => (obs.levels[a] === la && obs.levels[b] === lb ? 1 : 0),
+                    });
+                }
+            }
+        }
+    }
+    const models = [...new Set(observations.map(o => o.modelId))].sort();
+    for (const modelId of models.slice(1)) {
+        columns.push({ term: `model=${modelId}`, factors: [], testTerm: 'model', value: obs => (obs.modelId === modelId ? 1 : 0) });
+    }
+
+    // Drop columns with no observations (e.g. a condition with no results yet)
+    const rows = observations.map(obs => columns.map(c => c.value(obs)));
+    const kept = columns.map((_, j) => j).filter(j => j === 0 || rows.some(r => r[j] !== 0));
+    const keptColumns = kept.map(j => columns[j]);
+    const X = rows.map(r => kept.map(j => r[j]));
+
+    const indexOf = (values: string[]) => {
+        const ids = new Map<string, number>();
+        return values.map(v => {
+            if (!ids.has(v)) ids.set(v, ids.size);
+            return ids.get(v)!;
+        });
+    };
+    const fit = fitLinearMixedModel(observations.map(o => o.score), X, {
+        question: indexOf(observations.map(o => o.questionId)),
+        segment: indexOf(observations.map(o => o.segmentId)),
+    });
+
+    const coefficients: ExperimentEffect[] = [];
+    keptColumns.forEach((column, j) => {
+        if (column.testTerm === 'model') return;
+        const estimate = fit.coefficients[j];
+        const standardError = Math.sqrt(Math.max(fit.covariance[j][j], 0));
+        coefficients.push({
+            term: column.term,
+            factors: column.factors,
+            estimate,
+            standardError,
+            ci95Low: estimate - 1.96 * standardError,
+            ci95High: estimate + 1.96 * standardError,
+            pValue: standardError > 0 ? zTestPValue(estimate / standardError) : 1,
+        });
+    });
+
+    const terms: ExperimentTermTest[] = [];
+    const termNames = [...new Set(keptColumns.map(c => c.testTerm))].filter(t => t !== '(Intercept)' && t !== 'model');
+    for (const term of termNames) {
+        const idx = keptColumns.map((c, j) => (c.testTerm === term ? j : -1)).filter(j => j >= 0);
+        const beta = idx.map(j => fit.coefficients[j]);
+        const vInv = invertMatrix(idx.map(a => idx.map(b => fit.covariance[a][b])));
+        if (!vInv) continue;
+        const chiSquare = beta.reduce((sum, bi, a) => sum + bi * vInv[a].reduce((s, v, b) => s + v * beta[b], 0), 0);
+        terms.push({
+            term,
+            factors: keptColumns[idx[0]].factors,
+            df: idx.length,
+            chiSquare,
+            pValue: chiSquarePValue(chiSquare, idx.length),
+        });
+    }
+
+    const cells = new Map<string, ExperimentCellMean & { sum: number }>();
+    for (const obs of observations) {
+        let cell = cells.get(obs.condition);
+        if (!cell) {
+            cell = { condition: obs.condition, levels: obs.levels as Record<string, FactorLevel>, mean: 0, n: 0, sum: 0 };
+            cells.set(obs.condition, cell);
+        }
+        cell.sum += obs.score;
+        cell.n++;
+    }
+
+    const pairs = factorNames.flatMap((a, i) => factorNames.slice(i + 1).map(b => `${a}:${b}`));
+    return {
+        formula: `score ~ ${[...factorNames, ...pairs, 'model'].join(' + ')} + (1 | question) + (1 | segment)`,
+        observations: observations.length,
+        referenceLevels,
+        coefficients,
+        terms,
+        varianceComponents: {
+            question: fit.randomVariances.question,
+            segment: fit.randomVariances.segment,
+            residual: fit.residualVariance,
+        },
+        cellMeans: [...cells.values()].map(({ sum, ...cell }) => ({ ...cell, mean: sum / cell.n })),
+        converged: fit.converged,
+        iterations: fit.iterations,
+    };
+}
+
+// ── Power & Sequential Stopping ─────────────────────────────────────
+
+function cellKey(obs: FactorialObservation): string {
+    return `${obs.segmentId}::${obs.questionId}::${obs.modelId}`;
+}
+
+/**
+ * Differences (conditionA − conditionB) over segment × question × model
+ * cells scored under both conditions. Pairing removes question difficulty
+ * and segment predictability from the comparison.
+ */
+export function pairConditionCells(observations: FactorialObservation[], conditionA: string, conditionB: string): number[] {
+    const scoresB = new Map<string, number>();
+    for (const obs of observations) {
+        if (obs.condition === conditionB) scoresB.set(cellKey(obs), obs.score);
+    }
+    const differences: number[] = [];
+    for (const obs of observations) {
+        if (obs.condition !== conditionA) continue;
+        const b = scoresB.get(cellKey(obs));
+        if (b !== undefined) differences.push(obs.score - b);
+    }
+    return differences;
+}
+
+/**
+ * Per-cell score variability observed in a prior experiment. With two or
+ * more conditions sharing cells, this is the SD of paired differences
+ * between the first two; otherwise the pooled within-condition SD of cell
+ * scores, for an unpaired comparison.
+ */
+export function estimateScoreVariability(
+    observations: FactorialObservation[],
+    conditionNames: string[],
+): { sd: number; paired: boolean; cells: number } {
+    if (conditionNames.length >= 2) {
+        const differences = pairConditionCells(observations, conditionNames[0], conditionNames[1]);
+        if (differences.length >= 2) {
+            return { sd: stddev(differences), paired: true, cells: differences.length };
+        }
+    }
+
+    let sumSquares = 0;
+    let df = 0;
+    let cells = 0;
+    for (const name of conditionNames) {
+        const scores = observations.filter(o => o.condition === name).map(o => o.score);
+        if (scores.length < 2) continue;
+        sumSquares += stddev(scores) ** 2 * (scores.length - 1);
+        df += scores.length - 1;
+        cells += scores.length;
+    }
+    if (df === 0) throw new Error('Need at least two scored cells to estimate variance');
+    return { sd: Math.sqrt(sumSquares / df), paired: false, cells };
+}
+
+/** Suggests how many cells each condition needs to detect `minDetectableEffect` */
+export function buildPowerAnalysis(
+    variability: { sd: number; paired: boolean },
+    options: { minDetectableEffect: number; alpha: number; power: number; source: string },
+): ExperimentPowerAnalysis {
+    return {
+        minDetectableEffect: options.minDetectableEffect,
+        alpha: options.alpha,
+        power: options.power,
+        scoreSd: variability.sd,
+        paired: variability.paired,
+        requiredCells: requiredSampleSize({
+            sd: variability.sd,
+            mde: options.minDetectableEffect,
+            alpha: options.alpha,
+            power: options.power,
+            paired: variability.paired,
+        }),
+        source: options.source,
+        computedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Evaluates one interim look of a two-condition sequential experiment.
+ *
+ * Alpha-spending methods stop for efficacy when |z| crosses the boundary
+ * for the alpha spent since the previous look. The Bayesian rule (flat
+ * prior, normal likelihood) stops for efficacy when the posterior
+ * probability that either condition is better reaches the threshold, and
+ * for futility when the 95% credible interval excludes effects as large as
+ * the minimum detectable effect. A look that reaches full information, the
+ * last planned look, or the end of the data without stopping is `max-looks`.
+ */
+export function evaluateSequentialLook(
+    design: ExperimentSequentialDesign,
+    differences: number[],
+    previousLooks: ExperimentSequentialLook[],
+    options: { informationFraction: number; finalData: boolean; minDetectableEffect?: number },
+): ExperimentSequentialLook {
+    const n = differences.length;
+    if (n < 2) throw new Error('Need at least two paired cells for a sequential look');
+    const meanDifference = differences.reduce((a, b) => a + b, 0) / n;
+    const standardError = stddev(differences) / Math.sqrt(n);
+    const zStatistic = standardError > 0 ? meanDifference / standardError : 0;
+
+    const look = previousLooks.length + 1;
+    const informationFraction = Math.min(1, Math.max(0, options.informationFraction));
+    const previousFraction = previousLooks.length > 0 ? previousLooks[previousLooks.length - 1].informationFraction : 0;
+    const isFinal = informationFraction >= 1 || look >= design.maxLooks || options.finalData;
+
+    let decision: ExperimentSequentialLook['decision'] = 'continue';
+    const base = {
+        look,
+        analyzedAt: new Date().toISOString(),
+        cells: n,
+        informationFraction,
+        meanDifference,
+        standardError,
+        zStatistic,
+    };
+
+    if (design.method === 'bayesian') {
+        const threshold = design.posteriorThreshold ?? 0.975;
+        const posteriorProbability = normalCdf(zStatistic);
+        const mde = options.minDetectableEffect;
+        if (posteriorProbability >= threshold || posteriorProbability <= 1 - threshold) {
+            decision = 'efficacy';
+        } else if (mde && Math.abs(meanDifference) + 1.96 * standardError < mde) {
+            decision = 'futility';
+        } else if (isFinal) {
+            decision = 'max-looks';
+        }
+        return { ...base, posteriorProbability, decision };
+    }
+
+    // The final look spends whatever alpha is left
+    const boundary = sequentialBoundary(design.method, isFinal ? 1 : informationFraction, previousFraction, design.alpha);
+    if (Math.abs(zStatistic) >= boundary) {
+        decision = 'efficacy';
+    } else if (isFinal) {
+        decision = 'max-looks';
+    }
+    return { ...base, boundary, decision };
+}
@@ -36,6 +36,25 @@ export type StreamModelResponseParams = Omit<GetModelResponseParams, 'useCache'
 // Legacy alias for backward compatibility
 export type GetModelResponseOptions = GetModelResponseParams;
 
+/**
+ * Cache key for a model response. Exported so other generation paths (e.g.
+ * provider batch jobs) read and write the same entries as getModelResponse.
+ */
+export function getResponseCacheKey(params: Pick<GetModelResponseParams, 'modelId' | 'prompt' | 'messages' | 'systemPrompt' | 'temperature' | 'maxTokens'>): string {
+    const { modelId, prompt, messages, systemPrompt, temperature, maxTokens } = params;
+    // Create a comprehensive cache key that includes ALL parameters that affect the response
+    const cacheKeyPayload = {
+        modelId,
+        prompt,
+        messages,
+        systemPrompt,
+        temperature,
+        maxTokens,
+        // Include any other parameters that might affect the response
+    };
+    return generateCacheKey(cacheKeyPayload);
+}
+
 export async function getModelResponse(params: GetModelResponseParams): Promise<string> {
     const {
         modelId,
@@ -99,17 +118,7 @@ export async function getModelResponse(params: GetModelResponseParams): Promise<
         })())
     );
 
-    // Create a comprehensive cache key that includes ALL parameters that affect the response
-    const cacheKeyPayload = {
-        modelId,
-        prompt,
-        messages: finalMessages,
-        systemPrompt,
-        temperature,
-        maxTokens,
-        // Include any other parameters that might affect the response
-    };
-    const cacheKey = generateCacheKey(cacheKeyPayload);
+    const cacheKey = getResponseCacheKey({ modelId, prompt, messages: finalMessages, systemPrompt, temperature, maxTokens });
 
     if (shouldDebugThisCall) {
         try {
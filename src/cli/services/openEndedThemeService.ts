@@ -0,0 +1,144 @@
+/**
+ * Open-Ended Theme Service
+ *
+ * Asks an LLM for the themes a segment's free-text answers raise
+ * (`dtef import-gd --open-ended --themes`). The themes are stored on the
+ * segment's response and become `theme-coverage` points in open-ended
+ * blueprints. Themes are cached per (model, prompt), so re-importing a round
+ * gives the same points.
+ *
+ * @module cli/services/openEndedThemeService
+ */
+
+import { DemographicResponse, DTEFSurveyData, SegmentWithResponses } from '@/types/dtef';
+import { getCache, generateCacheKey } from '@/lib/cache-service';
+
+export const DEFAULT_THEME_MODEL = 'openrouter:google/gemini-2.5-flash';
+
+/** Cache namespace for extracted themes */
+export const THEME_CACHE_NAMESPACE = 'dtef-open-ended-themes';
+
+/** Most themes kept per segment and question */
+export const DEFAULT_MAX_THEMES = 5;
+
+/** Answers shown to the model per segment and question, to bound prompt size */
+export const DEFAULT_MAX_THEME_ANSWERS = 200;
+
+/** LLM calls per segment and question before giving up on invalid output */
+const MAX_THEME_ATTEMPTS = 3;
+
+/** Sends a system prompt and user prompt to the theme model and returns its text */
+export type ThemeCompletion = (systemPrompt: string, prompt: string) => Promise<string>;
+
+export interface ThemeCache {
+    get(key: string): Promise<unknown>;
+    set(key: string, value: unknown): Promise<unknown>;
+}
+
+export const THEME_SYSTEM_PROMPT = `You summarise free-text survey answers. Given a question and the answers one group of respondents wrote, list the distinct themes the answers raise, most common first. Each theme is a short noun phrase (at most eight words) that a reader could check another answer against, such as "cost of living" or "distrust of large companies". Only list themes that at least one answer actually raises; do not add your own views.
+
+Respond ONLY with a JSON array of strings, and no other text:
+["...", "..."]`;
+
+/** The user prompt asking for up to `maxThemes` themes in one segment's answers */
+export function buildThemePrompt(questionText: string, answers: string[], maxThemes: number): string {
+    const list = answers.map((a, i) => `${i + 1}. ${a.replace(/\s+/g, ' ')}`).join('\n');
+    return `List up to ${maxThemes} themes raised by these answers.\n\nQuestion:\n"${questionText}"\n\nAnswers:\n${list}`;
+}
+
+const normalise = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Parse a theme response into at most `maxThemes` distinct, non-empty themes.
+ * Throws when the response has no usable theme.
+ */
+export function parseThemeResponse(text: string, maxThemes: number): string[] {
+    const start = text.indexOf('[');
+    const end = text.lastIndexOf(']');
+    if (start === -1 || end <= start) throw new Error('response has no JSON array');
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text.slice(start, end + 1));
+    } catch (e: any) {
+        throw new Error(`response is not valid JSON: ${e.message}`);
+    }
+    if (!Array.isArray(raw)) throw new Error('response is not a JSON array');
+
+    const seen = new Set<string>();
+    const themes: string[] = [];
+    for (const item of raw) {
+        if (typeof item !== 'string' || !item.trim() || seen.has(normalise(item))) continue;
+        seen.add(normalise(item));
+        themes.push(item.trim());
+        if (themes.length === maxThemes) break;
+    }
+    if (themes.length === 0) throw new Error('response lists no themes');
+    return themes;
+}
+
+/**
+ * Survey data with `themes` filled in on every open-ended response that has
+ * answers, from the cache where possible. Themes are optional, so a response
+ * whose model output stays invalid after retries is left without them.
+ */
+export async function extractOpenEndedThemes(
+    surveyData: DTEFSurveyData,
+    options: {
+        modelId: string;
+        complete: ThemeCompletion;
+        cache?: ThemeCache;
+        maxThemes?: number;
+        maxAnswers?: number;
+        logger?: { info: (msg: string) => void; warn: (msg: string) => void };
+    },
+): Promise<DTEFSurveyData> {
+    const cache = options.cache ?? getCache(THEME_CACHE_NAMESPACE);
+    const maxThemes = options.maxThemes ?? DEFAULT_MAX_THEMES;
+    const maxAnswers = options.maxAnswers ?? DEFAULT_MAX_THEME_ANSWERS;
+    let extracted = 0;
+    let cached = 0;
+    let failed = 0;
+
+    const segments: SegmentWithResponses[] = [];
+    for (const seg of surveyData.segments) {
+        const responses: DemographicResponse[] = [];
+        for (const response of seg.responses) {
+            const question = surveyData.questions[response.questionId];
+            if (question?.type !== 'open-ended' || !response.textResponses?.length) {
+                responses.push(response);
+                continue;
+            }
+
+            const prompt = buildThemePrompt(question.text, response.textResponses.slice(0, maxAnswers), maxThemes);
+            const cacheKey = generateCacheKey({ modelId: options.modelId, systemPrompt: THEME_SYSTEM_PROMPT, prompt });
+            let themes: string[] | undefined;
+            const hit = await cache.get(cacheKey);
+            if (Array.isArray(hit) && hit.length > 0) {
+                themes = hit as string[];
+                cached++;
+            }
+
+            for (let attempt = 1; attempt <= MAX_THEME_ATTEMPTS && !themes; attempt++) {
+                try {
+                    themes = parseThemeResponse(await options.complete(THEME_SYSTEM_PROMPT, prompt), maxThemes);
+                    await cache.set(cacheKey, themes);
+                } catch (e: any) {
+                    options.logger?.warn(`  Theme attempt ${attempt} for ${seg.id}/${response.questionId} failed: ${e.message}`);
+                }
+            }
+
+            if (themes) {
+                extracted++;
+                responses.push({ ...response, themes });
+            } else {
+                failed++;
+                responses.push(response);
+            }
+        }
+        segments.push({ ...seg, responses });
+    }
+
+    options.logger?.info(`Extracted themes for ${extracted} segment answer set(s), ${cached} from cache${failed > 0 ? `, ${failed} without themes` : ''}`);
+    return { ...surveyData, segments };
+}
@@ -0,0 +1,178 @@
+/**
+ * Prompt Template Registry
+ *
+ * Loads named, versioned DTEF prompt templates from `data/prompt-templates`.
+ * Each version is its own file, `{name}@{version}.yaml`, so a wording change
+ * is a new file rather than an edit to one that earlier runs used:
+ *
+ * ```yaml
+ * description: Ask for the distribution without the survey-analyst role
+ * sections:
+ *   system.distribution: |-
+ *     Predict how the demographic group would respond ...
+ *   instruction.distribution: |-
+ *     What share of this group would pick each option?
+ * ```
+ *
+ * Sections not listed keep the built-in wording, which is `default@1`. The
+ * template's hash covers every section after that fallback, so two runs
+ * with the same hash were asked with the same words.
+ *
+ * @module cli/services/promptTemplateRegistry
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { createHash } from 'crypto';
+import stableStringify from 'json-stable-stringify';
+import { DTEFPromptTemplate } from '@/types/dtef';
+import {
+    ASSEMBLER_TEMPLATE_SECTIONS,
+    DEFAULT_PROMPT_TEMPLATE_NAME,
+    DEFAULT_PROMPT_TEMPLATE_VERSION,
+    parseTemplate,
+} from './blueprint/promptTemplates';
+import { SYSTEM_PROMPT_SECTIONS } from './blueprint/systemPromptGenerators';
+
+export const DEFAULT_PROMPT_TEMPLATES_DIR = path.resolve(process.cwd(), 'data', 'prompt-templates');
+
+/** Every section with its built-in wording */
+const DEFAULT_SECTIONS: Record<string, string> = { ...SYSTEM_PROMPT_SECTIONS, ...ASSEMBLER_TEMPLATE_SECTIONS };
+
+const TEMPLATE_FILE_PATTERN = /^([a-z0-9][a-z0-9-]*)@(\d+)\.ya?ml$/;
+
+export interface PromptTemplateListing {
+    name: string;
+    version: number;
+    description?: string;
+    /** Absent for the built-in template */
+    filePath?: string;
+}
+
+/**
+ * Hash of a template's wording: every section, with the template's
+ * overrides applied over the defaults.
+ */
+export function hashPromptTemplateSections(sections: Record<string, string>): string {
+    const resolved = { ...DEFAULT_SECTIONS, ...sections };
+    return createHash('sha256').update(stableStringify(resolved) || '').digest('hex').slice(0, 16);
+}
+
+/** The built-in wording as a template */
+export function getDefaultPromptTemplate(): DTEFPromptTemplate {
+    return {
+        name: DEFAULT_PROMPT_TEMPLATE_NAME,
+        version: DEFAULT_PROMPT_TEMPLATE_VERSION,
+        description: 'Built-in DTEF prompt wording',
+        sections: {},
+        hash: hashPromptTemplateSections({}),
+    };
+}
+
+/**
+ * Parse a template reference: `name@version`, or `name` for its latest version.
+ */
+export function parsePromptTemplateRef(ref: string): { name: string; version?: number } {
+    const match = ref.trim().match(/^([a-z0-9][a-z0-9-]*)(?:@(\d+))?$/);
+    if (!match) {
+        throw new Error(`Invalid template reference "${ref}": expected name@version, e.g. "default@1"`);
+    }
+    return { name: match[1], ...(match[2] ? { version: parseInt(match[2], 10) } : {}) };
+}
+
+/**
+ * Every available template, the built-in one first, then by name and version.
+ */
+export function listPromptTemplates(dir: string = DEFAULT_PROMPT_TEMPLATES_DIR): PromptTemplateListing[] {
+    const listings: PromptTemplateListing[] = [{
+        name: DEFAULT_PROMPT_TEMPLATE_NAME,
+        version: DEFAULT_PROMPT_TEMPLATE_VERSION,
+        description: 'Built-in DTEF prompt wording',
+    }];
+    if (!fs.existsSync(dir)) return listings;
+
+    const files = fs.readdirSync(dir)
+        .map(file => ({ file, match: file.match(TEMPLATE_FILE_PATTERN) }))
+        .filter((f): f is { file: string; match: RegExpMatchArray } => !!f.match)
+        .sort((a, b) => a.match[1].localeCompare(b.match[1]) || parseInt(a.match[2], 10) - parseInt(b.match[2], 10));
+
+    for (const { file, match } of files) {
+        const filePath = path.join(dir, file);
+        const raw = yaml.load(fs.readFileSync(filePath, 'utf-8')) as { description?: unknown } | null;
+        listings.push({
+            name: match[1],
+            version: parseInt(match[2], 10),
+            ...(typeof raw?.description === 'string' ? { description: raw.description } : {}),
+            filePath,
+        });
+    }
+    return listings;
+}
+
+/**
+ * Read and validate one template file. Unknown section keys and template
+ * syntax errors are reported together.
+ */
+function readTemplateFile(listing: PromptTemplateListing & { filePath: string }): DTEFPromptTemplate {
+    const raw = yaml.load(fs.readFileSync(listing.filePath, 'utf-8')) as { description?: unknown; sections?: unknown } | null;
+    const label = `${listing.name}@${listing.version}`;
+    if (!raw || typeof raw.sections !== 'object' || raw.sections === null || Array.isArray(raw.sections)) {
+        throw new Error(`Template ${label} has no "sections" mapping`);
+    }
+
+    const errors: string[] = [];
+    const sections: Record<string, string> = {};
+    for (const [key, source] of Object.entries(raw.sections as Record<string, unknown>)) {
+        if (!(key in DEFAULT_SECTIONS)) {
+            errors.push(`unknown section "${key}"`);
+            continue;
+        }
+        if (typeof source !== 'string') {
+            errors.push(`section "${key}" must be a string`);
+            continue;
+        }
+        try {
+            parseTemplate(source);
+        } catch (e: any) {
+            errors.push(`section "${key}": ${e.message}`);
+            continue;
+        }
+        sections[key] = source;
+    }
+    if (errors.length > 0) {
+        throw new Error(`Template ${label} is invalid:\n  - ${errors.join('\n  - ')}\nKnown sections: ${Object.keys(DEFAULT_SECTIONS).join(', ')}`);
+    }
+
+    return {
+        name: listing.name,
+        version: listing.version,
+        ...(typeof raw.description === 'string' ? { description: raw.description } : {}),
+        sections,
+        hash: hashPromptTemplateSections(sections),
+    };
+}
+
+/**
+ * Resolve a template reference (`name@version` or `name`) to a template.
+ * `default` is the built-in wording and cannot be redefined by a file.
+ */
+export function loadPromptTemplate(ref: string, dir: string = DEFAULT_PROMPT_TEMPLATES_DIR): DTEFPromptTemplate {
+    const { name, version } = parsePromptTemplateRef(ref);
+    const listings = listPromptTemplates(dir);
+
+    if (listings.some(l => l.filePath && l.name === DEFAULT_PROMPT_TEMPLATE_NAME)) {
+        throw new Error(`Template name "${DEFAULT_PROMPT_TEMPLATE_NAME}" is reserved for the built-in wording; rename the file in ${dir}`);
+    }
+
+    const candidates = listings.filter(l => l.name === name && (version === undefined || l.version === version));
+    const listing = candidates[candidates.length - 1];
+    if (!listing) {
+        const available = listings.map(l => `${l.name}@${l.version}`).join(', ');
+        throw new Error(`Prompt template "${ref}" not found. Available: ${available}`);
+    }
+
+    return listing.filePath
+        ? readTemplateFile(listing as PromptTemplateListing & { filePath: string })
+        : getDefaultPromptTemplate();
+}
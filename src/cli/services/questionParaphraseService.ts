@@ -0,0 +1,145 @@
+/**
+ * Question Paraphrase Service
+ *
+ * Asks an LLM for meaning-preserving rewrites of survey questions and their
+ * options, for paraphrase robustness runs (`dtef generate --paraphrases N`).
+ * Validated paraphrases are cached per (model, prompt), so regenerating
+ * blueprints asks every question in the same words.
+ *
+ * @module cli/services/questionParaphraseService
+ */
+
+import { DTEFQuestionParaphrase, DTEFSurveyData } from '@/types/dtef';
+import { getCache, generateCacheKey } from '@/lib/cache-service';
+
+type SurveyQuestionDef = DTEFSurveyData['questions'][string];
+
+export const DEFAULT_PARAPHRASE_MODEL = 'openrouter:google/gemini-2.5-flash';
+
+/** Cache namespace for validated paraphrases */
+export const PARAPHRASE_CACHE_NAMESPACE = 'dtef-paraphrases';
+
+/** LLM calls per question before giving up on invalid output */
+const MAX_PARAPHRASE_ATTEMPTS = 3;
+
+/** Sends a system prompt and user prompt to the paraphrase model and returns its text */
+export type ParaphraseCompletion = (systemPrompt: string, prompt: string) => Promise<string>;
+
+export interface ParaphraseCache {
+    get(key: string): Promise<unknown>;
+    set(key: string, value: unknown): Promise<unknown>;
+}
+
+export const PARAPHRASE_SYSTEM_PROMPT = `You rewrite survey questions for a robustness test. Each rewrite must ask exactly what the original asks, so that every respondent would give the same answer to it: keep the meaning, scope, time frame and qualifiers, and neither add nor drop information. Vary the wording and sentence structure between rewrites.
+
+Rewrite each answer option the same way. Keep the same number of options in the same order, each meaning exactly what the original option means. Keep numbers, ranges and proper names unchanged.
+
+Respond ONLY with a JSON array with one object per rewrite, and no other text:
+[{"question": "...", "options": ["...", "..."]}]
+Omit "options" when the question has none.`;
+
+/** The user prompt asking for `count` rewrites of one question */
+export function buildParaphrasePrompt(question: SurveyQuestionDef, count: number): string {
+    const options = question.options?.length
+        ? `\n\nAnswer options:\n${question.options.map((o, i) => `${i + 1}. ${o}`).join('\n')}`
+        : '';
+    return `Write ${count} different rewrites of this survey question${question.options?.length ? ' and its answer options' : ''}.\n\nQuestion:\n"${question.text}"${options}`;
+}
+
+const normalise = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Parse and check a paraphrase response. Every rewrite needs new question
+ * wording and, when the question has options, the same number of distinct
+ * options. Throws when fewer than `count` rewrites pass.
+ */
+export function parseParaphraseResponse(text: string, question: SurveyQuestionDef, count: number): DTEFQuestionParaphrase[] {
+    const start = text.indexOf('[');
+    const end = text.lastIndexOf(']');
+    if (start === -1 || end <= start) throw new Error('response has no JSON array');
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text.slice(start, end + 1));
+    } catch (e: any) {
+        throw new Error(`response is not valid JSON: ${e.message}`);
+    }
+    if (!Array.isArray(raw)) throw new Error('response is not a JSON array');
+
+    const optionCount = question.options?.length ?? 0;
+    const seen = new Set([normalise(question.text)]);
+    const paraphrases: DTEFQuestionParaphrase[] = [];
+
+    for (const item of raw) {
+        const rewrite = item?.question;
+        if (typeof rewrite !== 'string' || !rewrite.trim() || seen.has(normalise(rewrite))) continue;
+
+        const options = item.options;
+        if (optionCount > 0) {
+            if (!Array.isArray(options) || options.length !== optionCount) continue;
+            if (!options.every((o: unknown) => typeof o === 'string' && o.trim())) continue;
+            if (new Set(options.map(normalise)).size !== optionCount) continue;
+        }
+
+        seen.add(normalise(rewrite));
+        paraphrases.push({
+            text: rewrite.trim(),
+            ...(optionCount > 0 ? { options: (options as string[]).map(o => o.trim()) } : {}),
+        });
+        if (paraphrases.length === count) return paraphrases;
+    }
+    throw new Error(`only ${paraphrases.length} of ${count} rewrites were usable`);
+}
+
+/**
+ * `count` paraphrases of each question, from the cache where possible.
+ * Invalid responses are retried; a question that still has no valid
+ * paraphrases fails the whole call, since every variant needs all of them.
+ */
+export async function paraphraseQuestions(
+    surveyData: DTEFSurveyData,
+    questionIds: string[],
+    count: number,
+    options: {
+        modelId: string;
+        complete: ParaphraseCompletion;
+        cache?: ParaphraseCache;
+        logger?: { info: (msg: string) => void; warn: (msg: string) => void };
+    },
+): Promise<Record<string, DTEFQuestionParaphrase[]>> {
+    const cache = options.cache ?? getCache(PARAPHRASE_CACHE_NAMESPACE);
+    const paraphrases: Record<string, DTEFQuestionParaphrase[]> = {};
+    let cached = 0;
+
+    for (const questionId of questionIds) {
+        const question = surveyData.questions[questionId];
+        if (!question) continue;
+
+        const prompt = buildParaphrasePrompt(question, count);
+        const cacheKey = generateCacheKey({ modelId: options.modelId, systemPrompt: PARAPHRASE_SYSTEM_PROMPT, prompt });
+        const hit = await cache.get(cacheKey);
+        if (Array.isArray(hit) && hit.length === count) {
+            paraphrases[questionId] = hit as DTEFQuestionParaphrase[];
+            cached++;
+            continue;
+        }
+
+        let lastError = '';
+        for (let attempt = 1; attempt <= MAX_PARAPHRASE_ATTEMPTS && !paraphrases[questionId]; attempt++) {
+            try {
+                const response = await options.complete(PARAPHRASE_SYSTEM_PROMPT, prompt);
+                paraphrases[questionId] = parseParaphraseResponse(response, question, count);
+            } catch (e: any) {
+                lastError = e.message;
+                options.logger?.warn(`  Paraphrase attempt ${attempt} for ${questionId} failed: ${lastError}`);
+            }
+        }
+        if (!paraphrases[questionId]) {
+            throw new Error(`Could not paraphrase question ${questionId} after ${MAX_PARAPHRASE_ATTEMPTS} attempts: ${lastError}`);
+        }
+        await cache.set(cacheKey, paraphrases[questionId]);
+    }
+
+    options.logger?.info(`Paraphrased ${Object.keys(paraphrases).length} question(s), ${cached} from cache`);
+    return paraphrases;
+}
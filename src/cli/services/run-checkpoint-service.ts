@@ -0,0 +1,120 @@
+import { ModelResponseDetail } from '@/types/shared';
+import { SimpleLogger } from '@/lib/blueprint-service';
+import { getRunCheckpoint, saveRunCheckpointChunk, deleteRunCheckpoint, RunCheckpoint } from '@/lib/storageService';
+import type { GenerationCheckpoint } from './comparison-pipeline-service.non-stream';
+
+const DEFAULT_FLUSH_EVERY = 25;
+const DEFAULT_FLUSH_INTERVAL_MS = 30_000;
+
+/**
+ * Accumulates successful responses for a run and periodically persists them
+ * to the run checkpoint in storage (local or S3). Each write is a new chunk
+ * holding only the responses since the last one, so a long run uploads each
+ * response once. Writes are throttled (every N new cells or T ms, whichever
+ * comes first) and serialised, so a slow S3 PUT never overlaps with the next one.
+ */
+export class RunCheckpointWriter implements GenerationCheckpoint {
+    readonly completed: RunCheckpoint['responses'];
+    /** Responses not yet written to a chunk */
+    private pending: RunCheckpoint['responses'] = {};
+    private nextChunk: number;
+    private dirtyCount = 0;
+    private lastFlushMs = Date.now();
+    private writeChain: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly configId: string,
+        private readonly runLabel: string,
+        private readonly logger: SimpleLogger,
+        initial?: RunCheckpoint,
+        private readonly flushEvery: number = DEFAULT_FLUSH_EVERY,
+        private readonly flushIntervalMs: number = DEFAULT_FLUSH_INTERVAL_MS,
+    ) {
+        this.completed = initial ? { ...initial.responses } : {};
+        this.nextChunk = initial?.nextChunkIndex ?? 0;
+    }
+
+    /**
+     * Returns an empty writer for a new run, first deleting any checkpoint an
+     * earlier attempt left under the same label so its chunks are not merged
+     * into this run's on a later resume.
+     */
+    static async start(configId: string, runLabel: string, logger: SimpleLogger): Promise<RunCheckpointWriter> {
+        await deleteRunCheckpoint(configId, runLabel);
+        return new RunCheckpointWriter(configId, runLabel, logger);
+    }
+
+    /**
+     * Loads the checkpoint of an earlier attempt of this run, if one exists,
+     * and returns a writer seeded with its responses.
+     */
+    static async resume(configId: string, runLabel: string, logger: SimpleLogger): Promise<RunCheckpointWriter> {
+        const existing = await getRunCheckpoint(configId, runLabel);
+        if (!existing) {
+            logger.warn(`[Checkpoint] No checkpoint found for '${configId}' run '${runLabel}'. Generating all responses.`);
+            return new RunCheckpointWriter(configId, runLabel, logger);
+        }
+        const writer = new RunCheckpointWriter(configId, runLabel, logger, existing);
+        logger.info(`[Checkpoint] Resuming '${configId}' run '${runLabel}' with ${writer.completedCount} completed response(s) from ${existing.updatedAt}.`);
+        return writer;
+    }
+
+    get completedCount(): number {
+        return Object.values(this.completed).reduce((sum, byModel) => sum + Object.keys(byModel).length, 0);
+    }
+
+    onResponse(promptId: string, effectiveModelId: string, response: ModelResponseDetail): void {
+        // Errored cells are left out so a resumed run retries them
+        if (response.hasError) return;
+        (this.completed[promptId] ??= {})[effectiveModelId] = response;
+        this.addPending(promptId, effectiveModelId, response);
+        if (this.dirtyCount >= this.flushEvery || Date.now() - this.lastFlushMs >= this.flushIntervalMs) {
+            void this.flush();
+        }
+    }
+
+    private addPending(promptId: string, effectiveModelId: string, response: ModelResponseDetail): void {
+        (this.pending[promptId] ??= {})[effectiveModelId] = response;
+        this.dirtyCount++;
+    }
+
+    /**
+     * Persists unsaved responses as a new chunk. Failures are logged, not thrown: a
+     * failed chunk's responses go back into the next one, so they are only delayed.
+     */
+    flush(): Promise<void> {
+        if (this.dirtyCount === 0) return this.writeChain;
+        const responses = this.pending;
+        this.pending = {};
+        this.dirtyCount = 0;
+        this.lastFlushMs = Date.now();
+        const chunk: RunCheckpoint = {
+            configId: this.configId,
+            runLabel: this.runLabel,
+            updatedAt: new Date().toISOString(),
+            responses,
+        };
+        const chunkIndex = this.nextChunk++;
+        this.writeChain = this.writeChain
+            .then(() => saveRunCheckpointChunk(chunk, chunkIndex))
+            .catch(error => {
+                this.logger.warn(`[Checkpoint] Failed to save checkpoint for run '${this.runLabel}': ${error?.message || error}`);
+                for (const [promptId, byModel] of Object.entries(responses)) {
+                    for (const [effectiveModelId, response] of Object.entries(byModel)) {
+                        if (!this.pending[promptId]?.[effectiveModelId]) this.addPending(promptId, effectiveModelId, response);
+                    }
+                }
+            });
+        return this.writeChain;
+    }
+
+    /** Removes the checkpoint once the run's result has been saved. */
+    async clear(): Promise<void> {
+        await this.writeChain;
+        try {
+            await deleteRunCheckpoint(this.configId, this.runLabel);
+        } catch (error: any) {
+            this.logger.warn(`[Checkpoint] Failed to delete checkpoint for run '${this.runLabel}': ${error?.message || error}`);
+        }
+    }
+}
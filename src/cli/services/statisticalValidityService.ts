@@ -1,49 +1,64 @@
 /**
  * DTEF Statistical Validity Analysis
  *
- * Runs four analyses on existing evaluation data (no API calls):
+ * Runs eight analyses on existing evaluation data (no API calls), including:
  *   1. Null Model Baselines — uniform, population-marginal, shuffled
  *   2. Analytical Noise Floor — sample-size-based JSD noise estimates
  *   3. Pairwise Model Significance — permutation tests with Holm-Bonferroni
  *   4. Context Responsiveness — does more demographic context improve accuracy?
  *
- * Usage: pnpm analyze:stats
+ * The headline numbers are condensed into a versioned findings artifact
+ * (`live/aggregates/dtef_findings.json`) that drives the Findings page.
+ *
+ * Usage: pnpm cli dtef findings (or pnpm analyze:stats)
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import * as fsPromises from 'fs/promises';
-import { jsDivergenceSimilarity, normalize, parseDistribution } from '../src/point-functions/distribution_metric';
+import { jsDivergenceSimilarity, parseDistribution } from '@/point-functions/distribution_metric';
 import {
     listConfigIds,
     listRunsForConfig,
     getResultByFileName,
-} from '../src/lib/storageService';
-import { DemographicAggregationService } from '../src/cli/services/demographicAggregationService';
-import type { ContextDataPoint } from '../src/cli/services/demographicAggregationService';
-import type { DTEFSurveyData } from '../src/types/dtef';
-import type { CoverageResult } from '../src/types/shared';
+    getJsonFile,
+    saveJsonFile,
+    getStorageProvider,
+    FINDINGS_KEY,
+    FINDINGS_HISTORY_KEY,
+    getFindingsSnapshotKey,
+} from '@/lib/storageService';
+import { DemographicAggregationService } from './demographicAggregationService';
+import type { ContextDataPoint } from './demographicAggregationService';
+import type { DTEFSurveyData } from '@/types/dtef';
+import type { CoverageResult } from '@/types/shared';
+import type { DTEFFindings, DTEFFindingsHistory } from '@/types/findings';
 import {
     decomposeGap,
     aggregateDecompositions,
     stratifyByPrefix,
-    bootstrapScoreCI,
     bootstrapAggregateCI,
     computeWeightedMean,
     computeNoiseFloorValue,
+    NOISE_CEILING_RELIABILITY_THRESHOLD,
+    getEffectiveSampleSize,
+    getPopulationWeight,
+    computePairwiseSignificance as computePairwiseSignificanceBetweenModels,
     type GapDecomposition,
     type ConfidenceInterval,
     type AggregatedDecomposition,
-} from '../src/lib/statisticalAnalysis';
+} from '@/lib/statisticalAnalysis';
 
 // ── Configuration ──────────────────────────────────────────────────────────
 const SHUFFLE_ITERATIONS = 1000;
 const PERMUTATION_ITERATIONS = 10_000;
-const NOISE_THRESHOLD = 0.70;
+const NOISE_THRESHOLD = NOISE_CEILING_RELIABILITY_THRESHOLD;
 const SIGNIFICANCE_ALPHA = 0.05;
 const BOOTSTRAP_ITERATIONS = 1000;
-const SURVEYS_DIR = path.resolve(__dirname, '..', 'data', 'surveys');
-const REPORTS_DIR = path.resolve(__dirname, '..', 'reports');
+const DEFAULT_SURVEYS_DIR = path.resolve(process.cwd(), 'data', 'surveys');
+const TOP_MODEL_COUNT = 10;
+const TOP_CONTEXT_MODEL_COUNT = 3;
+
+export const FINDINGS_SCHEMA_VERSION = 1;
 
 // ── Types ──────────────────────────────────────────────────────────────────
 
@@ -51,6 +66,7 @@ interface GroundTruth {
     segmentId: string;
     questionId: string;
     distribution: number[];
+    /** Kish effective sample size for weighted surveys, raw respondent count otherwise */
     sampleSize: number;
     k: number; // number of options
 }
@@ -67,11 +83,11 @@ interface ModelQuestionScore {
 
 // ── Data Loading ───────────────────────────────────────────────────────────
 
-async function loadSurveys(): Promise<DTEFSurveyData[]> {
-    const files = fs.readdirSync(SURVEYS_DIR).filter(f => f.startsWith('gd') && f.endsWith('.json'));
+async function loadSurveys(surveysDir: string): Promise<DTEFSurveyData[]> {
+    const files = fs.readdirSync(surveysDir).filter(f => f.startsWith('gd') && f.endsWith('.json'));
     const surveys: DTEFSurveyData[] = [];
     for (const file of files) {
-        const data = JSON.parse(fs.readFileSync(path.join(SURVEYS_DIR, file), 'utf-8'));
+        const data = JSON.parse(fs.readFileSync(path.join(surveysDir, file), 'utf-8'));
         surveys.push(data);
     }
     console.log(`Loaded ${surveys.length} survey files: ${files.join(', ')}`);
@@ -83,7 +99,7 @@ async function loadSurveys(): Promise<DTEFSurveyData[]> {
  * Only loads the latest run per config to reduce memory usage.
  * Each result is parsed, scores extracted, then GC'd.
  */
-async function loadModelScoresFromS3(): Promise<{ scores: ModelQuestionScore[]; resultCount: number }> {
+async function loadModelScoresFromS3(): Promise<{ scores: ModelQuestionScore[]; resultCount: number; configCount: number }> {
     const configIds = await listConfigIds();
     console.log(`Found ${configIds.length} config IDs in storage`);
 
@@ -160,7 +176,7 @@ async function loadModelScoresFromS3(): Promise<{ scores: ModelQuestionScore[];
     }
 
     console.log(`Processed ${resultCount} DTEF results, extracted ${scores.length} scores`);
-    return { scores, resultCount };
+    return { scores, resultCount, configCount: configIds.length };
 }
 
 function buildGroundTruthMap(surveys: DTEFSurveyData[]): Map<string, GroundTruth> {
@@ -174,7 +190,7 @@ function buildGroundTruthMap(surveys: DTEFSurveyData[]): Map<string, GroundTruth
                     segmentId: segment.id,
                     questionId: resp.questionId,
                     distribution: resp.distribution,
-                    sampleSize: segment.sampleSize,
+                    sampleSize: getEffectiveSampleSize(segment),
                     k: q?.options?.length ?? resp.distribution.length,
                 });
             }
@@ -185,7 +201,8 @@ function buildGroundTruthMap(surveys: DTEFSurveyData[]): Map<string, GroundTruth
 
 /**
  * Compute the population-marginal distribution for each question:
- * weighted average of all segment distributions, weighted by sample size.
+ * weighted average of all segment distributions, weighted by each
+ * segment's summed survey weight (or sample size when unweighted).
  */
 function buildPopulationMarginals(surveys: DTEFSurveyData[]): Map<string, number[]> {
     const marginals = new Map<string, { weightedSum: number[]; totalWeight: number }>();
@@ -200,9 +217,9 @@ function buildPopulationMarginals(surveys: DTEFSurveyData[]): Map<string, number
                     marginals.set(key, entry);
                 }
                 for (let i = 0; i < resp.distribution.length; i++) {
-                    entry.weightedSum[i] += resp.distribution[i] * segment.sampleSize;
+                    entry.weightedSum[i] += resp.distribution[i] * getPopulationWeight(segment);
                 }
-                entry.totalWeight += segment.sampleSize;
+                entry.totalWeight += getPopulationWeight(segment);
             }
         }
     }
@@ -435,61 +452,10 @@ function computePairwiseSignificance(modelScores: ModelQuestionScore[]): {
         modelAvg.set(modelId, avgMap);
     }
 
-    const modelIds = Array.from(modelAvg.keys()).sort();
-    const pairwise: PairwiseResult[] = [];
-
-    for (let i = 0; i < modelIds.length; i++) {
-        for (let j = i + 1; j < modelIds.length; j++) {
-            const mA = modelIds[i];
-            const mB = modelIds[j];
-            const scoresA = modelAvg.get(mA)!;
-            const scoresB = modelAvg.get(mB)!;
-
-            // Find shared questions
-            const shared: string[] = [];
-            for (const key of scoresA.keys()) {
-                if (scoresB.has(key)) shared.push(key);
-            }
-
-            if (shared.length < 3) continue; // too few to test
-
-            const diffs = shared.map(key => scoresA.get(key)! - scoresB.get(key)!);
-            const observedMeanDiff = diffs.reduce((a, b) => a + b, 0) / diffs.length;
-            const absDiffObs = Math.abs(observedMeanDiff);
-
-            // Permutation test: randomly flip signs of differences
-            let exceedCount = 0;
-            for (let p = 0; p < PERMUTATION_ITERATIONS; p++) {
-                let permSum = 0;
-                for (const d of diffs) {
-                    permSum += Math.random() < 0.5 ? d : -d;
-                }
-                if (Math.abs(permSum / diffs.length) >= absDiffObs) {
-                    exceedCount++;
-                }
-            }
-            const pValue = exceedCount / PERMUTATION_ITERATIONS;
-
-            pairwise.push({
-                modelA: mA,
-                modelB: mB,
-                meanDiff: observedMeanDiff,
-                pValue,
-                adjustedPValue: pValue, // will be adjusted below
-                significant: false,
-                sharedQuestions: shared.length,
-            });
-        }
-    }
-
-    // Holm-Bonferroni correction
-    pairwise.sort((a, b) => a.pValue - b.pValue);
-    const m = pairwise.length;
-    for (let i = 0; i < m; i++) {
-        const adjusted = Math.min(1, pairwise[i].pValue * (m - i));
-        pairwise[i].adjustedPValue = adjusted;
-        pairwise[i].significant = adjusted < SIGNIFICANCE_ALPHA;
-    }
+    const pairwise: PairwiseResult[] = computePairwiseSignificanceBetweenModels(modelAvg, {
+        iterations: PERMUTATION_ITERATIONS,
+        alpha: SIGNIFICANCE_ALPHA,
+    }).map(({ sharedUnits, ...rest }) => ({ ...rest, sharedQuestions: sharedUnits }));
 
     return { pairwise };
 }
@@ -1403,17 +1369,42 @@ function generateReport(
     return lines.join('\n');
 }
 
-// ── Main ───────────────────────────────────────────────────────────────────
 
-async function main() {
-    console.log('═══════════════════════════════════════════════════════');
-    console.log('  DTEF Statistical Validity Analysis');
-    console.log('═══════════════════════════════════════════════════════');
-    console.log();
+// ── Orchestration ──────────────────────────────────────────────────────────
+
+export interface StatisticalAnalysisOptions {
+    /** Directory holding the gd*.json survey files (default: ./data/surveys) */
+    surveysDir?: string;
+}
+
+export interface StatisticalAnalysisRun {
+    generatedAt: string;
+    surveys: DTEFSurveyData[];
+    groundTruthPairs: number;
+    configCount: number;
+    resultCount: number;
+    scoreDataPoints: number;
+    modelOverallScores: Map<string, number>;
+    baselines: BaselineResult[];
+    noiseFloor: ReturnType<typeof computeNoiseFloor>;
+    pairwiseResults: ReturnType<typeof computePairwiseSignificance>;
+    contextResults: ReturnType<typeof computeContextResponsiveness>;
+    gapDecompositions: ModelDecompositionResult[];
+    bootstrapCIs: ModelBootstrapCI[];
+    categoryComparison: CategoryMarginalComparison[];
+    weightedScores: WeightedModelScore[];
+}
+
+/**
+ * Loads the survey ground truth and every DTEF result in storage, then runs
+ * all analyses. Progress is logged to the console as each one completes.
+ */
+export async function runStatisticalAnalysis(options: StatisticalAnalysisOptions = {}): Promise<StatisticalAnalysisRun> {
+    const generatedAt = new Date().toISOString();
 
     // Load data
     console.log('── Loading survey data ──');
-    const surveys = await loadSurveys();
+    const surveys = await loadSurveys(options.surveysDir || DEFAULT_SURVEYS_DIR);
 
     // Build ground truth and marginals (from local survey files — small)
     const groundTruthMap = buildGroundTruthMap(surveys);
@@ -1424,7 +1415,7 @@ async function main() {
 
     // Stream evaluation results from S3, extracting only scores (avoids OOM)
     console.log('── Loading evaluation results from S3 (streaming) ──');
-    const { scores: modelScores, resultCount } = await loadModelScoresFromS3();
+    const { scores: modelScores, resultCount, configCount } = await loadModelScoresFromS3();
 
     if (resultCount === 0) {
         console.log('\n⚠ No DTEF evaluation results found. Running survey-only analyses.\n');
@@ -1522,11 +1513,15 @@ async function main() {
         console.log(`  ${changed}/${weightedScores.length} models changed rank with √n weighting`);
     }
 
-    // Generate report
-    console.log('\n── Generating report ──');
-    const report = generateReport(
-        baselines,
+    return {
+        generatedAt,
+        surveys,
+        groundTruthPairs: groundTruths.length,
+        configCount,
+        resultCount,
+        scoreDataPoints: modelScores.length,
         modelOverallScores,
+        baselines,
         noiseFloor,
         pairwiseResults,
         contextResults,
@@ -1534,18 +1529,31 @@ async function main() {
         bootstrapCIs,
         categoryComparison,
         weightedScores,
-        surveys.length,
-        resultCount,
-    );
+    };
+}
 
-    await fsPromises.mkdir(REPORTS_DIR, { recursive: true });
-    const reportPath = path.join(REPORTS_DIR, 'statistical-validity-report.md');
-    await fsPromises.writeFile(reportPath, report, 'utf-8');
-    console.log(`\nReport written to: ${reportPath}`);
+/** Full markdown report for `reports/statistical-validity-report.md` */
+export function renderStatisticalReport(run: StatisticalAnalysisRun): string {
+    return generateReport(
+        run.baselines,
+        run.modelOverallScores,
+        run.noiseFloor,
+        run.pairwiseResults,
+        run.contextResults,
+        run.gapDecompositions,
+        run.bootstrapCIs,
+        run.categoryComparison,
+        run.weightedScores,
+        run.surveys.length,
+        run.resultCount,
+    );
+}
 
-    // Write JSON summary for UI consumption
-    const jsonSummary = {
-        generatedAt: new Date().toISOString(),
+/** Detailed JSON summary written next to the markdown report */
+export function buildStatisticalSummary(run: StatisticalAnalysisRun) {
+    const [uniformBaseline, marginalBaseline, shuffledBaseline] = run.baselines;
+    return {
+        generatedAt: run.generatedAt,
         baselines: {
             uniform: uniformBaseline.meanScore,
             populationMarginal: marginalBaseline.meanScore,
@@ -1553,28 +1561,28 @@ async function main() {
         },
         noiseFloor: {
             threshold: NOISE_THRESHOLD,
-            fractionAbove: noiseFloor.thresholdAnalysis.find(t => t.threshold === NOISE_THRESHOLD)?.fractionAbove ?? 0,
-            categorySummaries: noiseFloor.categorySummaries.map(c => ({
+            fractionAbove: run.noiseFloor.thresholdAnalysis.find(t => t.threshold === NOISE_THRESHOLD)?.fractionAbove ?? 0,
+            categorySummaries: run.noiseFloor.categorySummaries.map(c => ({
                 category: c.category,
                 avgNoiseFloor: c.avgNoiseFloor,
                 avgSampleSize: c.avgSampleSize,
                 percentReliable: c.percentAbove,
             })),
         },
-        categoryComparison: categoryComparison.map(c => ({
+        categoryComparison: run.categoryComparison.map(c => ({
             category: c.category,
             marginalScore: c.marginalScore,
             avgNoiseFloor: c.avgNoiseFloor,
             pairCount: c.pairCount,
             bestModelGap: c.modelScores[0]?.gap ?? null,
         })),
-        weightedScores: weightedScores.map(ws => ({
+        weightedScores: run.weightedScores.map(ws => ({
             modelId: ws.modelId,
             equalWeighted: ws.equalWeightedScore,
             sqrtNWeighted: ws.sqrtNWeightedScore,
             rankChange: ws.rankChange,
         })),
-        gapDecomposition: gapDecompositions.map(m => ({
+        gapDecomposition: run.gapDecompositions.map(m => ({
             modelId: m.modelId,
             avgDirectionalAccuracy: m.overall.avgDirectionalAccuracy,
             fractionCorrectDirection: m.overall.fractionCorrectDirection,
@@ -1582,14 +1590,140 @@ async function main() {
             pairCount: m.overall.pairCount,
         })),
     };
+}
+
+// ── Findings Artifact ──────────────────────────────────────────────────────
 
-    const jsonPath = path.join(REPORTS_DIR, 'statistical-summary.json');
-    await fsPromises.writeFile(jsonPath, JSON.stringify(jsonSummary, null, 2), 'utf-8');
-    console.log(`JSON summary written to: ${jsonPath}`);
-    console.log('Done.');
+/**
+ * Condenses an analysis run into the headline numbers shown on the Findings
+ * page. `version` is assigned by `publishFindings`.
+ */
+export function buildFindingsArtifact(run: StatisticalAnalysisRun, version = 0): DTEFFindings {
+    const [uniformBaseline, marginalBaseline, shuffledBaseline] = run.baselines;
+
+    const rankedModels = Array.from(run.modelOverallScores.entries())
+        .map(([modelId, score]) => ({ modelId, score }))
+        .sort((a, b) => b.score - a.score);
+    const avgModelScore = rankedModels.length > 0
+        ? rankedModels.reduce((sum, m) => sum + m.score, 0) / rankedModels.length
+        : null;
+
+    const { pairwise } = run.pairwiseResults;
+    const significantPairs = pairwise.filter(p => p.significant).length;
+
+    const { perModel, categoryResults } = run.contextResults;
+    const significantCategories = categoryResults.filter(r => r.significant);
+    const topContextModels = perModel
+        .filter(r => r.significant)
+        .sort((a, b) => b.observedSlope - a.observedSlope)
+        .slice(0, TOP_CONTEXT_MODEL_COUNT)
+        .map(r => ({
+            modelId: r.modelId,
+            slope: r.observedSlope,
+            categories: significantCategories.filter(c => c.modelId === r.modelId).map(c => c.category),
+        }));
+
+    // bootstrapCIs are sorted by mean, best first
+    let overlappingAdjacentPairs = 0;
+    for (let i = 0; i + 1 < run.bootstrapCIs.length; i++) {
+        if (run.bootstrapCIs[i].overallCI.ci95Low <= run.bootstrapCIs[i + 1].overallCI.ci95High) {
+            overlappingAdjacentPairs++;
+        }
+    }
+
+    return {
+        schemaVersion: FINDINGS_SCHEMA_VERSION,
+        version,
+        generatedAt: run.generatedAt,
+        provenance: {
+            surveys: run.surveys.map(s => ({
+                surveyId: s.surveyId,
+                surveyName: s.surveyName,
+                segmentCount: s.segments.length,
+                questionCount: Object.keys(s.questions).length,
+            })),
+            configCount: run.configCount,
+            resultCount: run.resultCount,
+            groundTruthPairs: run.groundTruthPairs,
+            storageProvider: getStorageProvider(),
+            iterations: {
+                shuffle: SHUFFLE_ITERATIONS,
+                permutation: PERMUTATION_ITERATIONS,
+                bootstrap: BOOTSTRAP_ITERATIONS,
+            },
+        },
+        modelCount: rankedModels.length,
+        scoreDataPoints: run.scoreDataPoints,
+        baselines: {
+            uniform: uniformBaseline.meanScore,
+            populationMarginal: marginalBaseline.meanScore,
+            shuffled: shuffledBaseline.meanScore,
+        },
+        bestModel: rankedModels[0] ?? null,
+        avgModelScore,
+        topModels: rankedModels.slice(0, TOP_MODEL_COUNT),
+        pairwise: {
+            significantPairs,
+            totalPairs: pairwise.length,
+            percentage: pairwise.length > 0 ? Math.round((significantPairs / pairwise.length) * 1000) / 10 : 0,
+            alpha: SIGNIFICANCE_ALPHA,
+        },
+        context: {
+            testedModels: perModel.length,
+            responsiveModels: perModel.filter(r => r.significant).length,
+            nonPositiveSlopeModels: perModel.filter(r => r.observedSlope <= 0).length,
+            significantModelCategoryPairs: significantCategories.length,
+            totalModelCategoryPairs: categoryResults.length,
+            topModels: topContextModels,
+        },
+        noiseThreshold: NOISE_THRESHOLD,
+        categories: run.noiseFloor.categorySummaries
+            .map(c => ({
+                category: c.category,
+                avgSampleSize: c.avgSampleSize,
+                noiseFloor: c.avgNoiseFloor,
+                percentReliable: c.percentAbove,
+            }))
+            .sort((a, b) => b.avgSampleSize - a.avgSampleSize),
+        bootstrap: {
+            adjacentPairs: Math.max(0, run.bootstrapCIs.length - 1),
+            overlappingAdjacentPairs,
+        },
+        weightedRankChanges: run.weightedScores.filter(ws => ws.rankChange !== 0).length,
+    };
 }
 
-main().catch(err => {
-    console.error('Fatal error:', err);
-    process.exit(1);
-});
+/**
+ * Publishes findings as the next version: writes the immutable snapshot,
+ * replaces the latest artifact, and prepends an entry to the history index.
+ */
+export async function publishFindings(findings: DTEFFindings): Promise<DTEFFindings> {
+    const history = await getJsonFile<DTEFFindingsHistory>(FINDINGS_HISTORY_KEY);
+    const snapshots = history?.snapshots ?? [];
+    const version = snapshots.reduce((max, s) => Math.max(max, s.version), 0) + 1;
+    const published: DTEFFindings = { ...findings, version };
+    const key = getFindingsSnapshotKey(version);
+
+    const updatedHistory: DTEFFindingsHistory = {
+        snapshots: [
+            {
+                version,
+                generatedAt: published.generatedAt,
+                key,
+                surveyIds: published.provenance.surveys.map(s => s.surveyId),
+                resultCount: published.provenance.resultCount,
+                modelCount: published.modelCount,
+                bestModel: published.bestModel,
+                populationMarginal: published.baselines.populationMarginal,
+            },
+            ...snapshots,
+        ],
+        lastUpdated: new Date().toISOString(),
+    };
+
+    await saveJsonFile(key, published);
+    await saveJsonFile(FINDINGS_KEY, published);
+    await saveJsonFile(FINDINGS_HISTORY_KEY, updatedHistory);
+
+    return published;
+}
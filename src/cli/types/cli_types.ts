@@ -13,6 +13,7 @@ import {
     WevalResult as FinalComparisonOutputV2,
     SimilarityScore,
     LLMCoverageScores,
+    OpenEndedScores,
     WevalEvaluationResults,
     Judge,
     LLMCoverageEvaluationConfig,
@@ -29,7 +30,8 @@ export type {
     ComparisonConfig,
     FinalComparisonOutputV2,
     SimilarityScore,
-    LLMCoverageScores
+    LLMCoverageScores,
+    OpenEndedScores
 };
 
 export type SearchableBlueprintSummary = BlueprintSummaryInfo & { searchText: string };
@@ -75,6 +77,7 @@ export interface EvaluationInput {
 export interface EmbeddingEvaluationResult {
     similarityMatrix?: SimilarityScore;
     perPromptSimilarities?: Record<string, SimilarityScore>;
+    openEndedScores?: OpenEndedScores;
 }
 
 export interface LLMCoverageEvaluationResult {
@@ -0,0 +1,84 @@
+import { buildDTEFHeatmap, buildAllDTEFHeatmaps } from './dtefSummaryUtils';
+import { WevalResult } from '@/types/shared';
+import { DTEFSurveyData } from '@/types/dtef';
+
+function segmentResult(segmentId: string, scores: Record<string, Record<string, number>>, responses?: Record<string, Record<string, string>>): WevalResult {
+    const llmCoverageScores: Record<string, Record<string, { avgCoverageExtent: number }>> = {};
+    for (const [questionId, byModel] of Object.entries(scores)) {
+        llmCoverageScores[`${questionId}-${segmentId}`] = Object.fromEntries(
+            Object.entries(byModel).map(([modelId, score]) => [modelId, { avgCoverageExtent: score }]),
+        );
+    }
+    return {
+        configId: `dtef-gd1-${segmentId}`,
+        configTitle: 'Test',
+        runLabel: 'run',
+        timestamp: '2025-01-01T00-00-00-000Z',
+        config: {
+            id: `dtef-gd1-${segmentId}`,
+            models: [],
+            prompts: [],
+            tags: ['dtef'],
+            context: { dtef: { surveyId: 'gd1', segmentId, segmentLabel: `Label ${segmentId}`, segmentAttributes: {} } },
+        } as any,
+        evalMethodsUsed: ['llm-coverage'],
+        effectiveModels: [],
+        promptIds: Object.keys(llmCoverageScores),
+        evaluationResults: { llmCoverageScores } as any,
+        ...(responses ? { allFinalAssistantResponses: responses } : {}),
+    };
+}
+
+const survey = {
+    surveyId: 'gd1',
+    surveyName: 'Global Dialogues 1',
+    questions: {
+        q2: { text: 'Second?', type: 'single-select', options: ['yes', 'no'] },
+        q1: { text: 'First?', type: 'single-select', options: ['a', 'b'] },
+    },
+    segments: [
+        { id: 'country:fr', label: 'France', attributes: {}, sampleSize: 50, responses: [{ questionId: 'q1', distribution: [30, 70] }] },
+        { id: 'country:us', label: 'USA', attributes: {}, sampleSize: 500, responses: [{ questionId: 'q1', distribution: [55, 45] }, { questionId: 'q2', distribution: [20, 80] }] },
+    ],
+} as unknown as DTEFSurveyData;
+
+describe('DTEF heatmap', () => {
+    const results = [
+        segmentResult('country:us', { q1: { m1: 0.9, m2: 0.7 }, q2: { m1: 0.8 } }, { 'q1-country:us': { m1: '[50, 50]' } }),
+        segmentResult('country:fr', { q1: { m1: 0.6 } }),
+    ];
+
+    it('packs per-question scores into survey-ordered matrices with run links', () => {
+        const heatmap = buildDTEFHeatmap(results, survey)!;
+
+        expect(heatmap.surveyName).toBe('Global Dialogues 1');
+        expect(heatmap.segments.map(s => s.id)).toEqual(['country:fr', 'country:us']);
+        expect(heatmap.questions).toEqual([
+            { id: 'q2', text: 'Second?', options: ['yes', 'no'] },
+            { id: 'q1', text: 'First?', options: ['a', 'b'] },
+        ]);
+        expect(heatmap.expected).toEqual([[null, [30, 70]], [[20, 80], [55, 45]]]);
+
+        const [m1, m2] = heatmap.models;
+        expect(m1.modelId).toBe('m1');
+        expect(m1.scores).toEqual([[null, 0.6], [0.8, 0.9]]);
+        expect(m1.predicted).toEqual([[null, null], [null, [50, 50]]]);
+        expect(m2.scores).toEqual([[null, null], [null, 0.7]]);
+        expect(m2.predicted).toBeUndefined();
+
+        const run = heatmap.runs[m1.runIndex[1][1]!];
+        expect(run).toEqual({ configId: 'dtef-gd1-country:us', runLabel: 'run', timestamp: '2025-01-01T00-00-00-000Z', contextCount: 0 });
+        expect(heatmap.runs).toHaveLength(2);
+    });
+
+    it('falls back to sorted IDs without survey data and indexes every survey', () => {
+        const heatmap = buildDTEFHeatmap(results)!;
+        expect(heatmap.segments.map(s => s.label)).toEqual(['Label country:fr', 'Label country:us']);
+        expect(heatmap.questions).toEqual([{ id: 'q1' }, { id: 'q2' }]);
+        expect(heatmap.expected).toBeUndefined();
+
+        const { heatmaps, index } = buildAllDTEFHeatmaps(results, [survey]);
+        expect(Array.from(heatmaps.keys())).toEqual(['gd1']);
+        expect(index.surveys).toEqual([{ surveyId: 'gd1', surveyName: 'Global Dialogues 1', segmentCount: 2, questionCount: 2, modelCount: 2 }]);
+    });
+});
@@ -8,14 +8,21 @@
  * @module cli/utils/dtefSummaryUtils
  */
 
+import * as fs from 'fs';
+import * as path from 'path';
 import { WevalResult } from '@/types/shared';
+import { DTEFSurveyData } from '@/types/dtef';
 import {
     DemographicAggregationService,
     DemographicAggregation,
     AggregatedModelResult,
+    SurveySegmentReliability,
+    PopulationMarginalsBySurvey,
 } from '@/cli/services/demographicAggregationService';
 import { BASELINE_MODEL_IDS } from '@/cli/services/baselineGeneratorService';
 
+const DEFAULT_SURVEYS_DIR = path.resolve(process.cwd(), 'data', 'surveys');
+
 /**
  * DTEF summary data structure stored in S3.
  */
@@ -36,6 +43,8 @@ export interface DTEFSummary {
         randomDirichlet?: number;
         /** Shuffled-segment baseline score (wrong segment assignment) */
         shuffled?: number;
+        /** MRP baseline score (leave-one-segment-out attribute model on individual data) */
+        mrp?: number;
     };
     /** Top models by overall demographic prediction accuracy */
     topModels: {
@@ -62,18 +71,83 @@ export interface DTEFSummary {
     };
 }
 
+/**
+ * Segment × question heatmap for one survey, stored separately from the
+ * summary because it holds every per-question score. Matrices are indexed
+ * [segmentIndex][questionIndex] and hold null where nothing was evaluated.
+ */
+export interface DTEFHeatmap {
+    surveyId: string;
+    surveyName?: string;
+    generatedAt: string;
+    segments: Array<{ id: string; label: string; attributes: Record<string, string> }>;
+    questions: Array<{ id: string; text?: string; options?: string[] }>;
+    /** Survey distribution per cell (percentages), present when the survey file was available */
+    expected?: (number[] | null)[][];
+    /** Results the cells came from; `runIndex` matrices point into this list */
+    runs: Array<{ configId?: string; runLabel?: string; timestamp?: string; contextCount: number }>;
+    models: Array<{
+        modelId: string;
+        scores: (number | null)[][];
+        runIndex: (number | null)[][];
+        /** Parsed predicted distributions, present when any response could be parsed */
+        predicted?: (number[] | null)[][];
+    }>;
+}
+
+/** Lists the surveys that have a heatmap, for the explorer's survey picker */
+export interface DTEFHeatmapIndex {
+    generatedAt: string;
+    surveys: Array<{ surveyId: string; surveyName?: string; segmentCount: number; questionCount: number; modelCount: number }>;
+}
+
+export function getHeatmapKey(surveyId: string): string {
+    return `live/aggregates/dtef_heatmap_${surveyId}.json`;
+}
+
+export const HEATMAP_INDEX_KEY = 'live/aggregates/dtef_heatmap_index.json';
+
+/**
+ * Load every DTEF survey file in a directory. The surveys supply segment
+ * reliability for score normalization and expected distributions for the
+ * heatmap; when the directory is missing, summaries carry raw scores only.
+ */
+export function loadSurveyData(surveysDir: string = DEFAULT_SURVEYS_DIR): DTEFSurveyData[] {
+    if (!fs.existsSync(surveysDir)) return [];
+    const surveys: DTEFSurveyData[] = [];
+    for (const file of fs.readdirSync(surveysDir).filter(f => f.endsWith('.json'))) {
+        const data = JSON.parse(fs.readFileSync(path.join(surveysDir, file), 'utf-8'));
+        if (data?.surveyId && Array.isArray(data.segments)) surveys.push(data);
+    }
+    return surveys;
+}
+
 /**
  * Build a DTEF summary from a collection of evaluation results.
- * Filters for DTEF-tagged results and aggregates them.
+ * Filters for DTEF-tagged results and aggregates them. When segment
+ * reliability is supplied, segment scores are also stored normalized;
+ * population marginals fill in for blueprints that did not record them.
+ * Significance tiers are tested overall, and per segment category and
+ * survey only with `significanceBreakdowns`.
  */
-export function buildDTEFSummary(allResults: WevalResult[]): DTEFSummary | null {
+export function buildDTEFSummary(
+    allResults: WevalResult[],
+    segmentReliability?: SurveySegmentReliability,
+    populationMarginals?: PopulationMarginalsBySurvey,
+    options: { significanceBreakdowns?: boolean } = {},
+): DTEFSummary | null {
     const dtefResults = allResults.filter(r =>
         DemographicAggregationService.isDTEFResult(r)
     );
 
     if (dtefResults.length === 0) return null;
 
-    const aggregation = DemographicAggregationService.aggregate(dtefResults, { includeExperimental: false });
+    const aggregation = DemographicAggregationService.aggregate(dtefResults, {
+        includeExperimental: false,
+        segmentReliability,
+        populationMarginals,
+        significanceBreakdowns: options.significanceBreakdowns,
+    });
 
     // Top 10 models by score (exclude baseline pseudo-models from leaderboard)
     const topModels = aggregation.modelResults
@@ -122,6 +196,8 @@ export function buildDTEFSummary(allResults: WevalResult[]): DTEFSummary | null
             baselines.randomDirichlet = model.overallScore;
         } else if (model.modelId === BASELINE_MODEL_IDS.SHUFFLED) {
             baselines.shuffled = model.overallScore;
+        } else if (model.modelId === BASELINE_MODEL_IDS.MRP) {
+            baselines.mrp = model.overallScore;
         }
     }
 
@@ -169,13 +245,15 @@ export function groupBySurvey(results: WevalResult[]): Map<string, WevalResult[]
  * Build DTEF summaries for all surveys found in results.
  */
 export function buildAllDTEFSummaries(
-    allResults: WevalResult[]
+    allResults: WevalResult[],
+    segmentReliability?: SurveySegmentReliability,
+    populationMarginals?: PopulationMarginalsBySurvey,
 ): Map<string, DTEFSummary> {
     const summaries = new Map<string, DTEFSummary>();
     const groups = groupBySurvey(allResults);
 
     for (const [surveyId, results] of groups) {
-        const summary = buildDTEFSummary(results);
+        const summary = buildDTEFSummary(results, segmentReliability, populationMarginals);
         if (summary) {
             summaries.set(surveyId, summary);
         }
@@ -183,3 +261,123 @@ export function buildAllDTEFSummaries(
 
     return summaries;
 }
+
+const roundScore = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Build the segment × question heatmap for one survey's results. Segments
+ * and questions follow the survey file's order when it is supplied, then
+ * any evaluated ones it does not list, sorted by ID.
+ */
+export function buildDTEFHeatmap(results: WevalResult[], survey?: DTEFSurveyData): DTEFHeatmap | null {
+    const cells = DemographicAggregationService.computeSegmentQuestionCells(results);
+    if (cells.length === 0) return null;
+
+    let surveyId = 'unknown';
+    const segmentLabels = new Map<string, { label: string; attributes: Record<string, string> }>();
+    for (const result of results) {
+        const ctx = DemographicAggregationService.extractDTEFContext(result);
+        if (!ctx) continue;
+        surveyId = ctx.surveyId;
+        if (!segmentLabels.has(ctx.segmentId)) {
+            segmentLabels.set(ctx.segmentId, { label: ctx.segmentLabel, attributes: ctx.segmentAttributes });
+        }
+    }
+
+    const surveyOrderFirst = (evaluated: Set<string>, surveyOrder: string[]) => {
+        const listed = surveyOrder.filter(id => evaluated.has(id));
+        const listedSet = new Set(listed);
+        return [...listed, ...Array.from(evaluated).filter(id => !listedSet.has(id)).sort()];
+    };
+    const segmentIds = surveyOrderFirst(new Set(cells.map(c => c.segmentId)), survey?.segments.map(seg => seg.id) ?? []);
+    const questionIds = surveyOrderFirst(new Set(cells.map(c => c.questionId)), Object.keys(survey?.questions ?? {}));
+
+    const segmentIndex = new Map(segmentIds.map((id, i) => [id, i]));
+    const questionIndex = new Map(questionIds.map((id, i) => [id, i]));
+    const emptyMatrix = <T>() => segmentIds.map(() => questionIds.map((): T | null => null));
+
+    const runs: DTEFHeatmap['runs'] = [];
+    const runIndexByKey = new Map<string, number>();
+    const models = new Map<string, DTEFHeatmap['models'][number]>();
+
+    for (const cell of cells) {
+        let model = models.get(cell.modelId);
+        if (!model) {
+            model = { modelId: cell.modelId, scores: emptyMatrix<number>(), runIndex: emptyMatrix<number>() };
+            models.set(cell.modelId, model);
+        }
+        const runKey = `${cell.configId}::${cell.runLabel}::${cell.timestamp}`;
+        if (!runIndexByKey.has(runKey)) {
+            runIndexByKey.set(runKey, runs.length);
+            runs.push({ configId: cell.configId, runLabel: cell.runLabel, timestamp: cell.timestamp, contextCount: cell.contextCount });
+        }
+
+        const row = segmentIndex.get(cell.segmentId)!;
+        const col = questionIndex.get(cell.questionId)!;
+        model.scores[row][col] = roundScore(cell.score);
+        model.runIndex[row][col] = runIndexByKey.get(runKey)!;
+        if (cell.predicted) {
+            if (!model.predicted) model.predicted = emptyMatrix<number[]>();
+            model.predicted[row][col] = cell.predicted;
+        }
+    }
+
+    let expected: DTEFHeatmap['expected'];
+    if (survey) {
+        const segmentsById = new Map(survey.segments.map(seg => [seg.id, seg]));
+        expected = segmentIds.map(segId => {
+            const responses = segmentsById.get(segId)?.responses ?? [];
+            return questionIds.map(qId => {
+                const distribution = responses.find(r => r.questionId === qId)?.distribution;
+                return distribution && distribution.length > 0 ? distribution : null;
+            });
+        });
+    }
+
+    return {
+        surveyId,
+        ...(survey ? { surveyName: survey.surveyName } : {}),
+        generatedAt: new Date().toISOString(),
+        segments: segmentIds.map(id => ({
+            id,
+            label: segmentLabels.get(id)?.label ?? id,
+            attributes: segmentLabels.get(id)?.attributes ?? {},
+        })),
+        questions: questionIds.map(id => ({
+            id,
+            ...(survey?.questions[id] ? { text: survey.questions[id].text, options: survey.questions[id].options } : {}),
+        })),
+        ...(expected ? { expected } : {}),
+        runs,
+        models: Array.from(models.values()).sort((a, b) => a.modelId.localeCompare(b.modelId)),
+    };
+}
+
+/**
+ * Build a heatmap for every survey found in results, plus the index the
+ * explorer uses to list them.
+ */
+export function buildAllDTEFHeatmaps(
+    allResults: WevalResult[],
+    surveys: DTEFSurveyData[] = [],
+): { heatmaps: Map<string, DTEFHeatmap>; index: DTEFHeatmapIndex } {
+    const heatmaps = new Map<string, DTEFHeatmap>();
+    for (const [surveyId, results] of groupBySurvey(allResults)) {
+        const heatmap = buildDTEFHeatmap(results, surveys.find(s => s.surveyId === surveyId));
+        if (heatmap) heatmaps.set(surveyId, heatmap);
+    }
+    return { heatmaps, index: buildHeatmapIndex(Array.from(heatmaps.values())) };
+}
+
+export function buildHeatmapIndex(heatmaps: DTEFHeatmap[]): DTEFHeatmapIndex {
+    return {
+        generatedAt: new Date().toISOString(),
+        surveys: heatmaps.map(h => ({
+            surveyId: h.surveyId,
+            ...(h.surveyName ? { surveyName: h.surveyName } : {}),
+            segmentCount: h.segments.length,
+            questionCount: h.questions.length,
+            modelCount: h.models.length,
+        })),
+    };
+}
@@ -0,0 +1,109 @@
+import {
+    chiSquarePValue,
+    invertMatrix,
+    fitLinearMixedModel,
+    normalQuantile,
+    requiredSampleSize,
+    alphaSpent,
+    sequentialBoundary,
+} from './statisticalTests';
+
+/** Deterministic standard normal draws (LCG + Box-Muller) */
+function normalSampler(seed: number): () => number {
+    let state = seed;
+    const uniform = () => {
+        state = (state * 1664525 + 1013904223) % 4294967296;
+        return (state + 0.5) / 4294967296;
+    };
+    return () => Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform());
+}
+
+describe('chiSquarePValue', () => {
+    it('matches tabulated critical values', () => {
+        expect(chiSquarePValue(3.841, 1)).toBeCloseTo(0.05, 3);
+        expect(chiSquarePValue(5.991, 2)).toBeCloseTo(0.05, 3);
+        expect(chiSquarePValue(18.307, 10)).toBeCloseTo(0.05, 3);
+        expect(chiSquarePValue(0, 3)).toBe(1);
+    });
+});
+
+describe('invertMatrix', () => {
+    it('inverts a non-singular matrix and rejects a singular one', () => {
+        const inv = invertMatrix([[4, 7], [2, 6]])!;
+        expect(inv[0][0]).toBeCloseTo(0.6);
+        expect(inv[0][1]).toBeCloseTo(-0.7);
+        expect(inv[1][0]).toBeCloseTo(-0.2);
+        expect(inv[1][1]).toBeCloseTo(0.4);
+        expect(invertMatrix([[1, 2], [2, 4]])).toBeNull();
+    });
+});
+
+describe('fitLinearMixedModel', () => {
+    it('recovers fixed effects and crossed variance components', () => {
+        const draw = normalSampler(42);
+        const questionEffects = Array.from({ length: 30 }, () => 0.1 * draw());
+        const segmentEffects = Array.from({ length: 20 }, () => 0.05 * draw());
+        const y: number[] = [];
+        const X: number[][] = [];
+        const question: number[] = [];
+        const segment: number[] = [];
+        for (let q = 0; q < 30; q++) {
+            for (let s = 0; s < 20; s++) {
+                for (const treated of [0, 1]) {
+                    X.push([1, treated]);
+                    y.push(0.7 + 0.03 * treated + questionEffects[q] + segmentEffects[s] + 0.02 * draw());
+                    question.push(q);
+                    segment.push(s);
+                }
+            }
+        }
+
+        const fit = fitLinearMixedModel(y, X, { question, segment });
+
+        expect(fit.converged).toBe(true);
+        expect(fit.coefficients[1]).toBeCloseTo(0.03, 2);
+        // The treatment effect is estimated within question and segment, so its SE reflects only residual noise
+        expect(Math.sqrt(fit.covariance[1][1])).toBeLessThan(0.002);
+        expect(Math.sqrt(fit.residualVariance)).toBeCloseTo(0.02, 2);
+        expect(Math.sqrt(fit.randomVariances.question)).toBeGreaterThan(0.06);
+        expect(Math.sqrt(fit.randomVariances.question)).toBeLessThan(0.14);
+        expect(Math.sqrt(fit.randomVariances.segment)).toBeGreaterThan(0.025);
+        expect(Math.sqrt(fit.randomVariances.segment)).toBeLessThan(0.08);
+    });
+
+    it('refuses designs with no residual degrees of freedom', () => {
+        expect(() => fitLinearMixedModel([1, 2], [[1, 0], [1, 1]], { question: [0, 1] })).toThrow(/more observations/);
+    });
+});
+
+describe('power and sequential testing', () => {
+    it('inverts the normal CDF', () => {
+        expect(normalQuantile(0.975)).toBeCloseTo(1.95996, 4);
+        expect(normalQuantile(0.8)).toBeCloseTo(0.84162, 4);
+        expect(normalQuantile(0.01)).toBeCloseTo(-2.32635, 4);
+        expect(normalQuantile(0.5)).toBeCloseTo(0, 8);
+    });
+
+    it('sizes paired and unpaired comparisons', () => {
+        // (1.96 + 0.8416)² × (0.1 / 0.02)² = 196.2
+        expect(requiredSampleSize({ sd: 0.1, mde: 0.02, paired: true })).toBe(197);
+        expect(requiredSampleSize({ sd: 0.1, mde: 0.02, paired: false })).toBe(393);
+        expect(requiredSampleSize({ sd: 0.1, mde: 0.02, power: 0.9, paired: true }))
+            .toBeGreaterThan(requiredSampleSize({ sd: 0.1, mde: 0.02, paired: true }));
+        expect(() => requiredSampleSize({ sd: 0.1, mde: 0, paired: true })).toThrow(/positive effect size/);
+    });
+
+    it('spends alpha cumulatively up to the overall level', () => {
+        for (const method of ['obrien-fleming', 'pocock'] as const) {
+            expect(alphaSpent(method, 0)).toBe(0);
+            expect(alphaSpent(method, 1)).toBe(0.05);
+            expect(alphaSpent(method, 0.5)).toBeLessThan(alphaSpent(method, 0.75));
+        }
+        // O'Brien-Fleming holds back almost all alpha for the end
+        expect(alphaSpent('obrien-fleming', 0.25)).toBeLessThan(0.001);
+        expect(alphaSpent('pocock', 0.25)).toBeGreaterThan(0.015);
+        expect(sequentialBoundary('obrien-fleming', 0.25, 0)).toBeGreaterThan(3.5);
+        expect(sequentialBoundary('pocock', 0.5, 0.5)).toBe(Infinity);
+        expect(sequentialBoundary('pocock', 1, 0)).toBeCloseTo(1.96, 2);
+    });
+});
@@ -1,7 +1,9 @@
 /**
  * Statistical Tests for Experiment Analysis
  *
- * Welch's t-test and Cohen's d for comparing two independent samples.
+ * Welch's t-test and Cohen's d for comparing two independent samples, a
+ * linear mixed model for factorial designs, and the power and alpha-spending
+ * calculations behind sequential stopping.
  * No external dependencies — implements the math directly.
  */
 
@@ -21,24 +23,28 @@ export function stddev(arr: number[]): number {
     return Math.sqrt(variance(arr));
 }
 
-/**
- * Approximate p-value from t-statistic using normal distribution.
- * Good approximation for df > 30 (we always have 49+ segments).
- * Two-tailed test.
- */
-function pValueFromT(t: number, _df: number): number {
-    // Standard normal CDF approximation (Abramowitz & Stegun 26.2.17)
-    const absT = Math.abs(t);
+/** Standard normal CDF (Abramowitz & Stegun 26.2.17) */
+export function normalCdf(z: number): number {
+    const absZ = Math.abs(z);
     const p = 0.2316419;
     const b1 = 0.319381530;
     const b2 = -0.356563782;
     const b3 = 1.781477937;
     const b4 = -1.821255978;
     const b5 = 1.330274429;
-    const x = 1 / (1 + p * absT);
-    const phi = (1 / Math.sqrt(2 * Math.PI)) * Math.exp(-0.5 * absT * absT);
-    const cdf = 1 - phi * (b1 * x + b2 * x ** 2 + b3 * x ** 3 + b4 * x ** 4 + b5 * x ** 5);
-    return 2 * (1 - cdf); // two-tailed
+    const x = 1 / (1 + p * absZ);
+    const phi = (1 / Math.sqrt(2 * Math.PI)) * Math.exp(-0.5 * absZ * absZ);
+    const upper = phi * (b1 * x + b2 * x ** 2 + b3 * x ** 3 + b4 * x ** 4 + b5 * x ** 5);
+    return z >= 0 ? 1 - upper : upper;
+}
+
+/**
+ * Approximate p-value from t-statistic using normal distribution.
+ * Good approximation for df > 30 (we always have 49+ segments).
+ * Two-tailed test.
+ */
+function pValueFromT(t: number, _df: number): number {
+    return 2 * (1 - normalCdf(Math.abs(t))); // two-tailed
 }
 
 /**
@@ -104,3 +110,264 @@ export function interpretEffectSize(d: number): string {
     if (absD < 0.8) return 'medium';
     return 'large';
 }
+
+// ── Linear Mixed Model ──────────────────────────────────────────────
+
+/**
+ * Inverts a symmetric positive-definite (or at least non-singular) matrix by
+ * Gauss-Jordan elimination with partial pivoting. Returns null when the
+ * matrix is singular, e.g. a rank-deficient design.
+ */
+export function invertMatrix(matrix: number[][]): number[][] | null {
+    const n = matrix.length;
+    const a = matrix.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+        }
+        if (Math.abs(a[pivot][col]) < 1e-12) return null;
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+        const p = a[col][col];
+        for (let j = 0; j < 2 * n; j++) a[col][j] /= p;
+        for (let row = 0; row < n; row++) {
+            if (row === col || a[row][col] === 0) continue;
+            const f = a[row][col];
+            for (let j = 0; j < 2 * n; j++) a[row][j] -= f * a[col][j];
+        }
+    }
+    return a.map(row => row.slice(n));
+}
+
+/** Log-gamma via the Lanczos approximation */
+function lnGamma(x: number): number {
+    const c = [76.18009172947146, -86.50532032941677, 24.01409824083091,
+        -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+    let y = x;
+    const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+    let ser = 1.000000000190015;
+    for (const cj of c) ser += cj / ++y;
+    return -tmp + Math.log(2.5066282746310005 * ser / x);
+}
+
+/** Regularized lower incomplete gamma P(a, x), by series or continued fraction */
+function regularizedGammaP(a: number, x: number): number {
+    if (x <= 0) return 0;
+    if (x < a + 1) {
+        let sum = 1 / a;
+        let term = sum;
+        for (let n = 1; n < 500; n++) {
+            term *= x / (a + n);
+            sum += term;
+            if (Math.abs(term) < Math.abs(sum) * 1e-14) break;
+        }
+        return sum * Math.exp(-x + a * Math.log(x) - lnGamma(a));
+    }
+    // Lentz's continued fraction for Q(a, x)
+    let b = x + 1 - a;
+    let c = 1 / 1e-300;
+    let d = 1 / b;
+    let h = d;
+    for (let i = 1; i < 500; i++) {
+        const an = -i * (i - a);
+        b += 2;
+        d = an * d + b;
+        if (Math.abs(d) < 1e-300) d = 1e-300;
+        c = b + an / c;
+        if (Math.abs(c) < 1e-300) c = 1e-300;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+        if (Math.abs(delta - 1) < 1e-14) break;
+    }
+    return 1 - Math.exp(-x + a * Math.log(x) - lnGamma(a)) * h;
+}
+
+/** Upper-tail p-value of a chi-square statistic */
+export function chiSquarePValue(statistic: number, df: number): number {
+    if (!(statistic > 0) || df <= 0) return 1;
+    return Math.max(0, Math.min(1, 1 - regularizedGammaP(df / 2, statistic / 2)));
+}
+
+/** Two-tailed p-value of a z (Wald) statistic */
+export function zTestPValue(z: number): number {
+    return pValueFromT(z, Infinity);
+}
+
+export interface MixedModelFit {
+    /** Fixed-effect estimates, in the column order of X */
+    coefficients: number[];
+    /** Covariance matrix of the fixed-effect estimates */
+    covariance: number[][];
+    /** Variance of each random intercept */
+    randomVariances: Record<string, number>;
+    residualVariance: number;
+    iterations: number;
+    converged: boolean;
+}
+
+/**
+ * Fits y = Xβ + Σ Z_k u_k + ε with one random intercept per grouping factor
+ * (crossed, not nested), u_k ~ N(0, σ_k²), ε ~ N(0, σ²).
+ *
+ * Solves Henderson's mixed model equations and estimates the variance
+ * components by EM-REML. The equations are built from cross-products, so
+ * memory scales with the number of columns and group levels rather than
+ * with the number of observations.
+ *
+ * @param y - Response per observation
+ * @param X - Fixed-effect design rows (include an intercept column)
+ * @param groups - Grouping factor → level index (0-based) per observation
+ */
+export function fitLinearMixedModel(
+    y: number[],
+    X: number[][],
+    groups: Record<string, number[]>,
+    options: { maxIterations?: number; tolerance?: number } = {},
+): MixedModelFit {
+    const { maxIterations = 500, tolerance = 1e-6 } = options;
+    const n = y.length;
+    const p = X[0]?.length ?? 0;
+    if (n <= p) {
+        throw new Error(`Mixed model needs more observations (${n}) than fixed effects (${p})`);
+    }
+
+    const groupNames = Object.keys(groups);
+    const offsets: number[] = [];
+    let d = p;
+    for (const name of groupNames) {
+        offsets.push(d);
+        d += Math.max(...groups[name]) + 1;
+    }
+
+    // Cross-products of W = [X | Z_1 | ... | Z_K]
+    const WtW = Array.from({ length: d }, () => new Array<number>(d).fill(0));
+    const Wty = new Array<number>(d).fill(0);
+    let yty = 0;
+    for (let i = 0; i < n; i++) {
+        const cols: Array<[number, number]> = [];
+        X[i].forEach((v, j) => { if (v !== 0) cols.push([j, v]); });
+        groupNames.forEach((name, k) => cols.push([offsets[k] + groups[name][i], 1]));
+        for (const [a, va] of cols) {
+            Wty[a] += va * y[i];
+            for (const [b, vb] of cols) WtW[a][b] += va * vb;
+        }
+        yty += y[i] * y[i];
+    }
+
+    const meanY = y.reduce((s, v) => s + v, 0) / n;
+    const totalVar = Math.max(y.reduce((s, v) => s + (v - meanY) ** 2, 0) / (n - 1), 1e-8);
+    let residualVariance = totalVar / 2;
+    let randomVariances = groupNames.map(() => totalVar / (2 * Math.max(1, groupNames.length)));
+
+    const solve = () => {
+        const lhs = WtW.map(row => [...row]);
+        groupNames.forEach((_, k) => {
+            const end = k + 1 < groupNames.length ? offsets[k + 1] : d;
+            const lambda = residualVariance / Math.max(randomVariances[k], 1e-12);
+            for (let j = offsets[k]; j < end; j++) lhs[j][j] += lambda;
+        });
+        const inverse = invertMatrix(lhs);
+        if (!inverse) throw new Error('Mixed model equations are singular (rank-deficient design)');
+        const solution = inverse.map(row => row.reduce((s, v, j) => s + v * Wty[j], 0));
+        return { inverse, solution };
+    };
+
+    let iterations = 0;
+    let converged = false;
+    let { inverse, solution } = solve();
+    while (iterations < maxIterations) {
+        iterations++;
+        const nextResidual = Math.max((yty - solution.reduce((s, v, j) => s + v * Wty[j], 0)) / (n - p), 1e-12);
+        const nextRandom = groupNames.map((_, k) => {
+            const start = offsets[k];
+            const end = k + 1 < groupNames.length ? offsets[k + 1] : d;
+            let uu = 0;
+            let trace = 0;
+            for (let j = start; j < end; j++) {
+                uu += solution[j] ** 2;
+                trace += inverse[j][j];
+            }
+            return Math.max((uu + residualVariance * trace) / (end - start), 1e-12);
+        });
+        const change = Math.max(
+            Math.abs(nextResidual - residualVariance) / residualVariance,
+            ...nextRandom.map((v, k) => Math.abs(v - randomVariances[k]) / Math.max(randomVariances[k], totalVar * 1e-6)),
+        );
+        residualVariance = nextResidual;
+        randomVariances = nextRandom;
+        ({ inverse, solution } = solve());
+        if (change < tolerance) {
+            converged = true;
+            break;
+        }
+    }
+
+    return {
+        coefficients: solution.slice(0, p),
+        covariance: inverse.slice(0, p).map(row => row.slice(0, p).map(v => v * residualVariance)),
+        randomVariances: Object.fromEntries(groupNames.map((name, k) => [name, randomVariances[k]])),
+        residualVariance,
+        iterations,
+        converged,
+    };
+}
+
+// ── Power & Sequential Testing ──────────────────────────────────────
+
+/** Inverse standard normal CDF (Acklam's rational approximation) */
+export function normalQuantile(p: number): number {
+    if (p <= 0) return -Infinity;
+    if (p >= 1) return Infinity;
+    const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+    const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+    const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+    const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+    const pLow = 0.02425;
+    if (p < pLow) {
+        const q = Math.sqrt(-2 * Math.log(p));
+        return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+    if (p > 1 - pLow) return -normalQuantile(1 - p);
+    const q = p - 0.5;
+    const r = q * q;
+    return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Units needed per condition to detect a mean difference of `mde` with a
+ * two-sided test. Paired designs use the SD of within-unit differences;
+ * unpaired designs use the per-unit SD of one condition.
+ */
+export function requiredSampleSize(options: { sd: number; mde: number; alpha?: number; power?: number; paired: boolean }): number {
+    const { sd, mde, alpha = 0.05, power = 0.8, paired } = options;
+    if (!(mde > 0) || !(sd >= 0)) throw new Error('requiredSampleSize needs a positive effect size and a non-negative SD');
+    const z = normalQuantile(1 - alpha / 2) + normalQuantile(power);
+    const n = (z * sd / mde) ** 2;
+    return Math.max(2, Math.ceil(paired ? n : 2 * n));
+}
+
+export type AlphaSpendingMethod = 'obrien-fleming' | 'pocock';
+
+/**
+ * Cumulative type I error spent by information fraction t (Lan-DeMets).
+ * O'Brien-Fleming-type spending keeps early looks very strict; Pocock-type
+ * spends more evenly.
+ */
+export function alphaSpent(method: AlphaSpendingMethod, t: number, alpha = 0.05): number {
+    if (t <= 0) return 0;
+    if (t >= 1) return alpha;
+    if (method === 'pocock') return alpha * Math.log(1 + (Math.E - 1) * t);
+    return 2 * (1 - normalCdf(normalQuantile(1 - alpha / 2) / Math.sqrt(t)));
+}
+
+/**
+ * Two-sided |z| boundary for a look at information fraction t, given the
+ * fraction at the previous look. Each look is tested at the alpha spent
+ * since the previous one, which is conservative (it ignores the correlation
+ * between looks) but never exceeds the overall alpha.
+ */
+export function sequentialBoundary(method: AlphaSpendingMethod, t: number, previousT: number, alpha = 0.05): number {
+    const increment = alphaSpent(method, t, alpha) - alphaSpent(method, previousT, alpha);
+    return increment > 0 ? normalQuantile(1 - increment / 2) : Infinity;
+}
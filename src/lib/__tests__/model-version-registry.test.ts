@@ -6,6 +6,7 @@ import {
   findVersionForModel,
   getSeriesByMaker,
   getSeriesByTier,
+  getKnowledgeCutoff,
   validateChronologicalOrdering,
 } from '../model-version-registry';
 
@@ -149,4 +150,20 @@ describe('Model Version Registry', () => {
     }
     expect(unmatched.length).toBe(0);
   });
+
+  it('should return the knowledge cutoff, falling back to release date', () => {
+    expect(getKnowledgeCutoff('openrouter:openai/gpt-4o')).toEqual({ date: '2023-10-31', source: 'knowledge-cutoff' });
+    expect(getKnowledgeCutoff('xai:grok-3')?.source).toBe('release-date');
+    expect(getKnowledgeCutoff('unknown:model')).toBeUndefined();
+  });
+
+  it('should not record a knowledge cutoff after the release date', () => {
+    for (const series of MODEL_VERSION_REGISTRY) {
+      for (const version of series.versions) {
+        if (version.knowledgeCutoff) {
+          expect(version.knowledgeCutoff <= version.releaseDate).toBe(true);
+        }
+      }
+    }
+  });
 });
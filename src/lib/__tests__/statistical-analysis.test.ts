@@ -15,8 +15,19 @@ import {
     bootstrapScoreCI,
     bootstrapAggregateCI,
     computeNoiseFloorValue,
+    kishEffectiveSampleSize,
+    getEffectiveSampleSize,
     computeWeightedMean,
+    computeCalibrationSummary,
+    normalizedEntropy,
+    pearsonCorrelation,
+    computeBiasSummary,
+    crossSegmentVariance,
     stratifyByPrefix,
+    holmBonferroniAdjust,
+    computePairwiseSignificance,
+    pairedPermutationPValue,
+    assignSignificanceTiers,
 } from '../statisticalAnalysis';
 import { jsDivergenceSimilarity } from '../../point-functions/distribution_metric';
 
@@ -177,6 +188,12 @@ describe('bootstrapScoreCI', () => {
         expect(ci.ci95High).toBeGreaterThan(pointScore - 0.1);
     });
 
+    it('accepts fractional effective sample sizes', () => {
+        const ci = bootstrapScoreCI([40, 30, 20, 10], [42, 28, 20, 10], 37.4, 200);
+        expect(ci.ci95Low).toBeGreaterThanOrEqual(0);
+        expect(ci.ci95High).toBeLessThanOrEqual(1);
+    });
+
     it('returns valid bounds', () => {
         const truth = [30, 30, 40];
         const prediction = [35, 25, 40];
@@ -231,6 +248,39 @@ describe('computeNoiseFloorValue', () => {
     });
 });
 
+// ── Effective Sample Size ─────────────────────────────────────────────────
+
+describe('kishEffectiveSampleSize', () => {
+    it('equal weights → raw count', () => {
+        expect(kishEffectiveSampleSize([2, 2, 2, 2])).toBeCloseTo(4);
+    });
+
+    it('unequal weights shrink the effective size', () => {
+        // (1+1+4)^2 / (1+1+16) = 36/18 = 2
+        expect(kishEffectiveSampleSize([1, 1, 4])).toBeCloseTo(2);
+    });
+
+    it('returns 0 for empty weights', () => {
+        expect(kishEffectiveSampleSize([])).toBe(0);
+    });
+});
+
+describe('getEffectiveSampleSize', () => {
+    it('prefers effectiveSampleSize when present', () => {
+        expect(getEffectiveSampleSize({ sampleSize: 100, effectiveSampleSize: 62.5 })).toBe(62.5);
+    });
+
+    it('falls back to raw sampleSize', () => {
+        expect(getEffectiveSampleSize({ sampleSize: 100 })).toBe(100);
+    });
+
+    it('lower effective n → lower noise ceiling', () => {
+        const raw = computeNoiseFloorValue(4, getEffectiveSampleSize({ sampleSize: 200 }));
+        const weighted = computeNoiseFloorValue(4, getEffectiveSampleSize({ sampleSize: 200, effectiveSampleSize: 80 }));
+        expect(weighted).toBeLessThan(raw);
+    });
+});
+
 // ── Weighted Mean ─────────────────────────────────────────────────────────
 
 describe('computeWeightedMean', () => {
@@ -263,6 +313,114 @@ describe('computeWeightedMean', () => {
     });
 });
 
+// ── Calibration ───────────────────────────────────────────────────────────
+
+describe('computeCalibrationSummary', () => {
+    const forecast = (confidence: number, outcome: number) => ({ confidence, outcome, brier: 0, logLoss: 0 });
+
+    it('perfectly calibrated forecasts → zero ECE', () => {
+        // 80% confident, right 4 times out of 5
+        const forecasts = [1, 1, 1, 1, 0].map(o => forecast(0.8, o));
+        const summary = computeCalibrationSummary(forecasts)!;
+        expect(summary.expectedCalibrationError).toBeCloseTo(0);
+        expect(summary.accuracy).toBeCloseTo(0.8);
+        expect(summary.reliability).toHaveLength(1);
+    });
+
+    it('overconfidence shows as a gap weighted by bin size', () => {
+        // 3 forecasts at 0.95 (1 right), 1 at 0.45 (right)
+        const forecasts = [forecast(0.95, 1), forecast(0.95, 0), forecast(0.95, 0), forecast(0.45, 1)];
+        const summary = computeCalibrationSummary(forecasts)!;
+        // 0.75 · |1/3 − 0.95| + 0.25 · |1 − 0.45|
+        expect(summary.expectedCalibrationError).toBeCloseTo(0.75 * (0.95 - 1 / 3) + 0.25 * 0.55);
+        expect(summary.reliability.map(b => [b.lower, b.count])).toEqual([[0.4, 1], [0.9, 3]]);
+    });
+
+    it('puts confidence 1 in the top bin and averages Brier and log loss', () => {
+        const summary = computeCalibrationSummary([
+            { confidence: 1, outcome: 1, brier: 0, logLoss: 0 },
+            { confidence: 1, outcome: 0, brier: 2, logLoss: 4 },
+        ])!;
+        expect(summary.reliability[0].upper).toBe(1);
+        expect(summary.brierScore).toBe(1);
+        expect(summary.logLoss).toBe(2);
+    });
+
+    it('returns null for no forecasts', () => {
+        expect(computeCalibrationSummary([])).toBeNull();
+    });
+});
+
+// ── Bias Direction ────────────────────────────────────────────────────────
+
+describe('normalizedEntropy', () => {
+    it('is 1 for uniform and 0 for a point mass, on any scale', () => {
+        expect(normalizedEntropy([25, 25, 25, 25])).toBeCloseTo(1);
+        expect(normalizedEntropy([0.5, 0.5])).toBeCloseTo(1);
+        expect(normalizedEntropy([100, 0, 0])).toBe(0);
+    });
+});
+
+describe('pearsonCorrelation', () => {
+    it('detects perfect positive and negative correlation', () => {
+        expect(pearsonCorrelation([1, 2, 3, 4], [2, 4, 6, 8])).toBeCloseTo(1);
+        expect(pearsonCorrelation([1, 2, 3, 4], [8, 6, 4, 2])).toBeCloseTo(-1);
+    });
+
+    it('returns null with too few points or no variance', () => {
+        expect(pearsonCorrelation([1, 2], [1, 2])).toBeNull();
+        expect(pearsonCorrelation([1, 1, 1], [1, 2, 3])).toBeNull();
+    });
+});
+
+describe('computeBiasSummary', () => {
+    it('signs majority, extremity and per-position errors', () => {
+        const summary = computeBiasSummary([
+            // Over-predicts the marginal's majority option (index 1) and the scale ends
+            { predicted: [20, 50, 10, 20], truth: [15, 40, 30, 15], marginal: [20, 45, 20, 15], ordinal: true },
+            { predicted: [30, 40, 10, 20], truth: [20, 40, 30, 10], marginal: [20, 45, 20, 15], ordinal: true },
+        ])!;
+
+        expect(summary.pairCount).toBe(2);
+        expect(summary.majorityOptionError).toBeCloseTo(5);
+        expect(summary.extremityError).toBeCloseTo((10 + 20) / 2);
+        expect(summary.ordinalProfiles).toEqual([{ optionCount: 4, meanSignedError: [7.5, 5, -20, 7.5], pairCount: 2 }]);
+        expect(summary.shift?.pairCount).toBe(2);
+    });
+
+    it('reads flatter predictions as under-confidence', () => {
+        const summary = computeBiasSummary([
+            { predicted: [40, 30, 30], truth: [80, 10, 10], ordinal: false },
+        ])!;
+        expect(summary.entropyGap).toBeGreaterThan(0);
+        expect(summary.extremityError).toBeNull();
+        expect(summary.majorityOptionError).toBeNull();
+        expect(summary.shift).toBeUndefined();
+    });
+
+    it('correlates errors with the pull of the own answer', () => {
+        const summary = computeBiasSummary([
+            { predicted: [60, 40], truth: [50, 50], ownAnswer: [70, 30], ordinal: false },
+            { predicted: [35, 65], truth: [40, 60], ownAnswer: [30, 70], ordinal: false },
+        ])!;
+        expect(summary.ownAnswerPairCount).toBe(2);
+        expect(summary.ownAnswerCorrelation).toBeCloseTo(1);
+    });
+
+    it('returns null without usable observations', () => {
+        expect(computeBiasSummary([])).toBeNull();
+        expect(computeBiasSummary([{ predicted: [50, 50], truth: [30, 30, 40], ordinal: false }])).toBeNull();
+    });
+});
+
+describe('crossSegmentVariance', () => {
+    it('averages the per-option variance across distributions', () => {
+        expect(crossSegmentVariance([[50, 50], [30, 70]])).toBeCloseTo(100);
+        expect(crossSegmentVariance([[40, 60], [40, 60], [40, 60]])).toBe(0);
+        expect(crossSegmentVariance([[40, 60]])).toBe(0);
+    });
+});
+
 // ── Stratification ────────────────────────────────────────────────────────
 
 describe('stratifyByPrefix', () => {
@@ -291,3 +449,63 @@ describe('stratifyByPrefix', () => {
         expect(result.size).toBe(0);
     });
 });
+
+// ── Pairwise Significance ─────────────────────────────────────────────────
+
+describe('holmBonferroniAdjust', () => {
+    it('scales p-values step-down and keeps them monotone in input order', () => {
+        const adjusted = holmBonferroniAdjust([0.04, 0.01, 0.03]);
+        expect(adjusted[1]).toBeCloseTo(0.03);
+        // 0.03 × 2 = 0.06, 0.04 × 1 = 0.04 → raised to 0.06 to stay monotone
+        expect(adjusted[2]).toBeCloseTo(0.06);
+        expect(adjusted[0]).toBeCloseTo(0.06);
+    });
+});
+
+describe('pairedPermutationPValue', () => {
+    it('counts the observed sample, so no p-value is 0', () => {
+        // 30 same-sign differences: no sign flip of 500 matches the observed mean
+        expect(pairedPermutationPValue(new Array(30).fill(0.1), 500)).toBe(1 / 501);
+        expect(pairedPermutationPValue([], 500)).toBe(1);
+    });
+
+    it('gives the same p-value for the same data and seed', () => {
+        const diffs = [0.1, -0.05, 0.02, -0.08, 0.03, 0.01];
+        expect(pairedPermutationPValue(diffs, 500, 'a')).toBe(439 / 501);
+        expect(pairedPermutationPValue(diffs, 500, 'a')).toBe(439 / 501);
+        expect(pairedPermutationPValue(diffs, 500, 'b')).toBe(438 / 501);
+    });
+});
+
+describe('computePairwiseSignificance', () => {
+    const units = (values: number[]) => new Map(values.map((v, i) => [`seg${i}`, v]));
+
+    it('flags consistent differences and skips pairs with too few shared units', () => {
+        const scores = new Map([
+            ['strong', units([0.9, 0.92, 0.88, 0.91, 0.9, 0.93, 0.89, 0.9])],
+            ['weak', units([0.5, 0.52, 0.48, 0.51, 0.5, 0.53, 0.49, 0.5])],
+            ['sparse', new Map([['seg0', 0.7], ['seg1', 0.7]])],
+        ]);
+        const comparisons = computePairwiseSignificance(scores, { iterations: 500 });
+        expect(comparisons).toHaveLength(1);
+        expect(comparisons[0]).toMatchObject({ modelA: 'strong', modelB: 'weak', significant: true, sharedUnits: 8 });
+        expect(comparisons[0].meanDiff).toBeCloseTo(0.4);
+        expect(comparisons[0].pValue).toBe(6 / 501);
+        expect(computePairwiseSignificance(scores, { iterations: 500 })).toEqual(comparisons);
+    });
+});
+
+describe('assignSignificanceTiers', () => {
+    it('starts a new tier only when a model differs from the current tier leader', () => {
+        const cmp = (modelA: string, modelB: string, significant: boolean) => ({
+            modelA, modelB, significant, meanDiff: 0, pValue: 0, adjustedPValue: 0, sharedUnits: 10,
+        });
+        const tiers = assignSignificanceTiers(['a', 'b', 'c', 'd'], [
+            cmp('a', 'b', false),
+            cmp('a', 'c', true),
+            cmp('b', 'c', false),
+            cmp('c', 'd', false),
+        ]);
+        expect(tiers).toEqual({ a: 1, b: 1, c: 2, d: 2 });
+    });
+});
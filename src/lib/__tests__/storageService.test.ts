@@ -606,4 +606,70 @@ describe('storageService', () => {
             });
         });
     });
+
+    describe('Run checkpoints', () => {
+        const response = (text: string) => ({ finalAssistantResponseText: text, fullConversationHistory: [], hasError: false, systemPromptUsed: null });
+        const chunk = (updatedAt: string, responses: Record<string, Record<string, any>>) => ({
+            configId: 'test-config',
+            runLabel: 'run-1_abc123',
+            updatedAt,
+            responses,
+        });
+        const checkpointDir = 'live/blueprints/test-config/checkpoints/run-1_abc123';
+
+        it('should write chunks and merge them on read on local fs', async () => {
+            process.env.STORAGE_PROVIDER = 'local';
+            const { saveRunCheckpointChunk, getRunCheckpoint, deleteRunCheckpoint } = require('../storageService');
+            const first = chunk('2024-01-01T00:00:00.000Z', { p1: { 'model-1[temp:0]': response('hi') } });
+            const second = chunk('2024-01-01T00:01:00.000Z', { p1: { 'model-2[temp:0]': response('yo') }, p2: { 'model-1[temp:0]': response('hey') } });
+
+            await saveRunCheckpointChunk(second, 2);
+            expect(mockedFs.writeFile).toHaveBeenCalledWith(path.join(RESULTS_DIR, checkpointDir, 'chunk-000002.json'), JSON.stringify(second, null, 2));
+
+            // Chunk 1 failed to save, so new chunks must continue after the highest index, not the count
+            (mockedFs.readdir as jest.Mock).mockResolvedValue(['chunk-000002.json', 'chunk-000000.json']);
+            mockedFs.readFile.mockImplementation(async (file: any) => JSON.stringify(String(file).endsWith('chunk-000000.json') ? first : second));
+            expect(await getRunCheckpoint('test-config', 'run-1_abc123')).toEqual({
+                configId: 'test-config',
+                runLabel: 'run-1_abc123',
+                updatedAt: '2024-01-01T00:01:00.000Z',
+                responses: {
+                    p1: { 'model-1[temp:0]': response('hi'), 'model-2[temp:0]': response('yo') },
+                    p2: { 'model-1[temp:0]': response('hey') },
+                },
+                nextChunkIndex: 3,
+            });
+
+            await deleteRunCheckpoint('test-config', 'run-1_abc123');
+            expect(mockedFs.rm).toHaveBeenCalledWith(path.join(RESULTS_DIR, checkpointDir), { recursive: true, force: true });
+        });
+
+        it('should return null when no local checkpoint exists', async () => {
+            process.env.STORAGE_PROVIDER = 'local';
+            const { getRunCheckpoint } = require('../storageService');
+            (mockedFs.readdir as jest.Mock).mockRejectedValue(Object.assign(new Error('missing'), { code: 'ENOENT' }));
+
+            expect(await getRunCheckpoint('test-config', 'run-1_abc123')).toBeNull();
+        });
+
+        it('should save chunks and delete every chunk in S3', async () => {
+            process.env.STORAGE_PROVIDER = 's3';
+            process.env.APP_S3_BUCKET_NAME = 'test-bucket';
+            process.env.APP_S3_REGION = 'us-east-1';
+            const { saveRunCheckpointChunk, deleteRunCheckpoint } = require('../storageService');
+            const keys = [`${checkpointDir}/chunk-000000.json`, `${checkpointDir}/chunk-000001.json`];
+            mockSend.mockImplementation(async (command: any) => command.constructor.name === 'ListObjectsV2Command'
+                ? { Contents: keys.map(Key => ({ Key })) }
+                : {});
+
+            await saveRunCheckpointChunk(chunk('2024-01-01T00:00:00.000Z', {}), 0);
+            await deleteRunCheckpoint('test-config', 'run-1_abc123');
+
+            const [put, list, del] = mockSend.mock.calls.map(call => call[0]);
+            expect(put.input).toEqual(expect.objectContaining({ Bucket: 'test-bucket', Key: keys[0] }));
+            expect(list.input).toEqual(expect.objectContaining({ Bucket: 'test-bucket', Prefix: `${checkpointDir}/` }));
+            expect(del.constructor.name).toBe('DeleteObjectsCommand');
+            expect(del.input).toEqual({ Bucket: 'test-bucket', Delete: { Objects: keys.map(Key => ({ Key })) } });
+        });
+    });
 }); 
\ No newline at end of file
@@ -561,6 +561,14 @@ export function parseAndNormalizeBlueprint(content: string, fileType: 'json' | '
             (finalPrompt as any).maxCalls = p.maxCalls;
         }
 
+        // Real answers for open-ended prompts, compared by the embedding evaluator
+        if (p.referenceResponses !== undefined) {
+            if (!Array.isArray(p.referenceResponses) || !p.referenceResponses.every((r: unknown) => typeof r === 'string')) {
+                throw new Error(`Prompt 'referenceResponses' must be an array of strings. Prompt ID: '${p.id || 'unknown'}'`);
+            }
+            finalPrompt.referenceResponses = p.referenceResponses;
+        }
+
         // Consolidate all possible point sources
         const pointsSource = p.should || p.points || p.expect || p.expects || p.expectations;
         if (pointsSource) {
@@ -10,6 +10,7 @@ import {
     SegmentWithResponses,
     DemographicResponse,
     isValidDistribution,
+    isValidSelectionShares,
 } from '@/types/dtef';
 
 export interface ValidationError {
@@ -29,6 +30,61 @@ export interface ValidationResult {
     };
 }
 
+/**
+ * Check a ranking response's option × rank matrix: one row per option,
+ * one column per rank position, and no row exceeding 100%.
+ */
+function validateRankDistribution(
+    resp: Record<string, unknown>,
+    question: Record<string, unknown>,
+    path: string,
+    errors: ValidationError[],
+): void {
+    const matrix = resp.rankDistribution;
+    if (!Array.isArray(matrix)) {
+        errors.push({ path, message: 'Ranking responses require a rankDistribution matrix', severity: 'error' });
+        return;
+    }
+
+    const optionCount = Array.isArray(question.options) ? question.options.length : matrix.length;
+    const rankCount = typeof question.rankCount === 'number' ? question.rankCount : optionCount;
+
+    if (matrix.length !== optionCount) {
+        errors.push({ path, message: `rankDistribution has ${matrix.length} rows but the question has ${optionCount} options`, severity: 'error' });
+        return;
+    }
+
+    matrix.forEach((row: unknown, r: number) => {
+        if (!Array.isArray(row) || row.length !== rankCount
+            || !row.every(n => typeof n === 'number' && !isNaN(n) && n >= 0)) {
+            errors.push({ path: `${path}[${r}]`, message: `Each row must list ${rankCount} non-negative percentages`, severity: 'error' });
+            return;
+        }
+        const sum = (row as number[]).reduce((a, b) => a + b, 0);
+        if (sum > 101) {
+            errors.push({ path: `${path}[${r}]`, message: `Rank shares for an option sum to ${sum.toFixed(1)} (max 100)`, severity: 'error' });
+        }
+    });
+}
+
+/**
+ * Check an open-ended response: a non-empty list of free-text answers and,
+ * optionally, a list of theme strings. Its distribution is not used.
+ */
+function validateTextResponses(
+    resp: Record<string, unknown>,
+    path: string,
+    errors: ValidationError[],
+): void {
+    const answers = resp.textResponses;
+    if (!Array.isArray(answers) || answers.length === 0 || !answers.every(a => typeof a === 'string' && a.trim() !== '')) {
+        errors.push({ path: `${path}.textResponses`, message: 'Open-ended responses require a non-empty array of answer strings', severity: 'error' });
+    }
+    if (resp.themes !== undefined && (!Array.isArray(resp.themes) || !resp.themes.every(t => typeof t === 'string'))) {
+        errors.push({ path: `${path}.themes`, message: 'themes must be an array of strings', severity: 'error' });
+    }
+}
+
 /**
  * Validate a DTEFSurveyData object for completeness and correctness.
  */
@@ -52,6 +108,10 @@ export function validateDTEFSurveyData(data: unknown): ValidationResult {
         errors.push({ path: 'surveyName', message: 'surveyName is required and must be a string', severity: 'error' });
     }
 
+    if (d.releaseDate !== undefined && (typeof d.releaseDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(d.releaseDate))) {
+        errors.push({ path: 'releaseDate', message: 'releaseDate must be a YYYY-MM-DD date string', severity: 'error' });
+    }
+
     // Validate questions
     let questionCount = 0;
     const questionIds = new Set<string>();
@@ -79,11 +139,52 @@ export function validateDTEFSurveyData(data: unknown): ValidationResult {
                 errors.push({ path: `questions.${qId}.type`, message: 'Question type is required', severity: 'error' });
             }
 
-            if (question.type === 'single-select' || question.type === 'multi-select') {
+            if (question.type === 'single-select' || question.type === 'multi-select' || question.type === 'ranking') {
                 if (!Array.isArray(question.options) || question.options.length < 2) {
                     errors.push({
                         path: `questions.${qId}.options`,
-                        message: 'Select-type questions must have at least 2 options',
+                        message: 'Select and ranking questions must have at least 2 options',
+                        severity: 'error',
+                    });
+                }
+            }
+
+            if (question.ordinalPositions !== undefined) {
+                const positions = question.ordinalPositions;
+                if (!Array.isArray(positions) || !positions.every(p => typeof p === 'number' && isFinite(p))) {
+                    errors.push({
+                        path: `questions.${qId}.ordinalPositions`,
+                        message: 'ordinalPositions must be an array of numbers',
+                        severity: 'error',
+                    });
+                } else if (Array.isArray(question.options) && positions.length !== question.options.length) {
+                    errors.push({
+                        path: `questions.${qId}.ordinalPositions`,
+                        message: `ordinalPositions has ${positions.length} values but the question has ${question.options.length} options`,
+                        severity: 'error',
+                    });
+                } else if (new Set(positions).size !== positions.length) {
+                    errors.push({
+                        path: `questions.${qId}.ordinalPositions`,
+                        message: 'ordinalPositions must be distinct',
+                        severity: 'error',
+                    });
+                }
+            }
+
+            if (question.rankCount !== undefined) {
+                const optionCount = Array.isArray(question.options) ? question.options.length : 0;
+                if (question.type !== 'ranking') {
+                    warnings.push({
+                        path: `questions.${qId}.rankCount`,
+                        message: 'rankCount only applies to ranking questions',
+                        severity: 'warning',
+                    });
+                } else if (!Number.isInteger(question.rankCount) || (question.rankCount as number) < 1
+                    || (question.rankCount as number) > optionCount) {
+                    errors.push({
+                        path: `questions.${qId}.rankCount`,
+                        message: `rankCount must be an integer between 1 and ${optionCount}`,
                         severity: 'error',
                     });
                 }
@@ -134,6 +235,29 @@ export function validateDTEFSurveyData(data: unknown): ValidationResult {
                 });
             }
 
+            if (segment.effectiveSampleSize !== undefined) {
+                const nEff = segment.effectiveSampleSize;
+                if (typeof nEff !== 'number' || nEff <= 0) {
+                    errors.push({ path: `segments[${i}].effectiveSampleSize`, message: 'effectiveSampleSize must be a positive number', severity: 'error' });
+                } else if (typeof segment.sampleSize === 'number' && nEff > segment.sampleSize + 1e-6) {
+                    errors.push({
+                        path: `segments[${i}].effectiveSampleSize`,
+                        message: `effectiveSampleSize (${nEff}) cannot exceed sampleSize (${segment.sampleSize})`,
+                        severity: 'error',
+                    });
+                } else if (nEff < 30 && (segment.sampleSize as number) >= 30) {
+                    warnings.push({
+                        path: `segments[${i}].effectiveSampleSize`,
+                        message: `Small effective sample size (${nEff}) after weighting. Results may not be statistically significant.`,
+                        severity: 'warning',
+                    });
+                }
+            }
+
+            if (segment.weightTotal !== undefined && (typeof segment.weightTotal !== 'number' || segment.weightTotal <= 0)) {
+                errors.push({ path: `segments[${i}].weightTotal`, message: 'weightTotal must be a positive number', severity: 'error' });
+            }
+
             // Validate responses
             if (!Array.isArray(segment.responses)) {
                 errors.push({ path: `segments[${i}].responses`, message: 'Segment responses must be an array', severity: 'error' });
@@ -162,13 +286,29 @@ export function validateDTEFSurveyData(data: unknown): ValidationResult {
                     });
                 }
 
+                const qId = resp.questionId as string;
+                const questions = d.questions as Record<string, Record<string, unknown>>;
+                const q = questions?.[qId];
+                const isMultiSelect = q?.type === 'multi-select';
+
+                if (q?.type === 'open-ended') {
+                    validateTextResponses(resp, `segments[${i}].responses[${j}]`, errors);
+                    continue;
+                }
+
                 if (!Array.isArray(resp.distribution)) {
                     errors.push({
                         path: `segments[${i}].responses[${j}].distribution`,
                         message: 'Response distribution must be an array',
                         severity: 'error',
                     });
-                } else if (!isValidDistribution(resp.distribution)) {
+                } else if (isMultiSelect && !isValidSelectionShares(resp.distribution)) {
+                    errors.push({
+                        path: `segments[${i}].responses[${j}].distribution`,
+                        message: 'Invalid multi-select shares (each value must be a percentage between 0 and 100)',
+                        severity: 'error',
+                    });
+                } else if (!isMultiSelect && !isValidDistribution(resp.distribution)) {
                     const sum = (resp.distribution as number[]).reduce((a: number, b: number) => a + b, 0);
                     errors.push({
                         path: `segments[${i}].responses[${j}].distribution`,
@@ -177,9 +317,6 @@ export function validateDTEFSurveyData(data: unknown): ValidationResult {
                     });
                 } else {
                     // Check that distribution length matches question options
-                    const qId = resp.questionId as string;
-                    const questions = d.questions as Record<string, Record<string, unknown>>;
-                    const q = questions?.[qId];
                     if (q && Array.isArray(q.options)) {
                         const dist = resp.distribution as number[];
                         if (dist.length !== q.options.length) {
@@ -191,6 +328,10 @@ export function validateDTEFSurveyData(data: unknown): ValidationResult {
                         }
                     }
                 }
+
+                if (q?.type === 'ranking') {
+                    validateRankDistribution(resp, q, `segments[${i}].responses[${j}].rankDistribution`, errors);
+                }
             }
 
             // Check for missing question responses
@@ -0,0 +1,25 @@
+/**
+ * Pure helpers for reading DTEF results, shared by the CLI aggregation
+ * service and client components (which must not pull in the service).
+ */
+
+import type { WevalResult } from '@/types/shared';
+
+/** Check if a WevalResult contains DTEF metadata. */
+export function isDTEFResult(result: WevalResult): boolean {
+  return result.config?.tags?.includes('dtef') ||
+    !!(result.config?.context as any)?.dtef ||
+    !!result.dtefMetadata;
+}
+
+/**
+ * Each promptId encodes the questionId as `{questionId}-{segmentId}`.
+ * Batched prompts use `batch-{N}-{segmentId}` and don't map to individual
+ * questions, so they return null.
+ */
+export function questionIdFromPromptId(promptId: string, segmentId: string): string | null {
+  if (promptId.startsWith('batch-')) return null;
+  const suffixIdx = promptId.lastIndexOf(`-${segmentId}`);
+  if (suffixIdx <= 0) return null;
+  return promptId.slice(0, suffixIdx);
+}
@@ -0,0 +1,50 @@
+import { AnthropicClient } from '../anthropic-client';
+import { OpenAIClient } from '../openai-client';
+import { LLMBatchClient, LLMBatchRequest } from '../types';
+import { startMockBatchServer, mockReply, MockBatchServer } from './mock-batch-server';
+
+// node-fetch is ESM-only; route it to Node's built-in fetch under Jest
+jest.mock('node-fetch', () => ({ __esModule: true, default: (...args: any[]) => (globalThis.fetch as any)(...args) }));
+
+const requests = (modelId: string): LLMBatchRequest[] => [
+    { customId: 'a', options: { modelId, messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Hello' }], temperature: 0 } },
+    { customId: 'b', options: { modelId, messages: [{ role: 'user', content: 'FAIL please' }] } },
+];
+
+describe('provider batch clients', () => {
+    let server: MockBatchServer;
+
+    beforeAll(async () => {
+        server = await startMockBatchServer(2);
+    });
+
+    afterAll(async () => {
+        await server.close();
+    });
+
+    const cases: [string, string, () => LLMBatchClient][] = [
+        ['AnthropicClient', 'claude-test', () => new AnthropicClient('test-key', server.anthropicBaseUrl)],
+        ['OpenAIClient', 'gpt-test', () => new OpenAIClient('test-key', server.openaiBaseUrl)],
+    ];
+
+    it.each(cases)('%s submits, polls and downloads batch results', async (_name, model, makeClient) => {
+        const client = makeClient();
+        const submitted = await client.submitBatch(requests(`provider:${model}`));
+        expect(submitted.state).toBe('in_progress');
+
+        expect((await client.getBatchStatus(submitted.batchId)).state).toBe('in_progress');
+        expect((await client.getBatchStatus(submitted.batchId)).state).toBe('ended');
+
+        const results = await client.getBatchResults(submitted.batchId);
+        const byId = Object.fromEntries(results.map(r => [r.customId, r]));
+        expect(byId.a.responseText).toBe(mockReply(model, 'Hello'));
+        expect(byId.a.usage).toEqual({ inputTokens: 10, outputTokens: 5 });
+        expect(byId.b.responseText).toBe('');
+        expect(byId.b.error).toContain('mock failure');
+    });
+
+    it('throws when the batch cannot be found', async () => {
+        const client = new AnthropicClient('test-key', server.anthropicBaseUrl);
+        await expect(client.getBatchStatus('missing')).rejects.toThrow(/404/);
+    });
+});
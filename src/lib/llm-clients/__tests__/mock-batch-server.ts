@@ -0,0 +1,154 @@
+import http from 'http';
+
+/**
+ * Minimal in-memory stand-in for the Anthropic Message Batches and OpenAI
+ * Batch APIs, served on a local port. Anthropic routes live under
+ * /anthropic/v1 and OpenAI routes under /openai/v1.
+ *
+ * Every request is answered with `reply(model, lastUserMessage)`; a user
+ * message containing "FAIL" produces a per-request error instead. Batches
+ * report as in progress for `pollsUntilEnded` status checks.
+ */
+export interface MockBatchServer {
+    anthropicBaseUrl: string;
+    openaiBaseUrl: string;
+    /** Method + path of every request received, in order */
+    calls: string[];
+    /** Number of batches created per provider */
+    submitted: { anthropic: number; openai: number };
+    close(): Promise<void>;
+}
+
+interface StoredBatch {
+    requests: { custom_id: string; model: string; messages: { role: string; content: string }[] }[];
+    polls: number;
+}
+
+export const mockReply = (model: string, userText: string) => `[${model}] ${userText}`;
+
+function lastUserText(messages: { role: string; content: string }[]): string {
+    return [...messages].reverse().find(m => m.role === 'user')?.content || '';
+}
+
+export async function startMockBatchServer(pollsUntilEnded = 1): Promise<MockBatchServer> {
+    const batches = new Map<string, StoredBatch>();
+    const files = new Map<string, string>();
+    const calls: string[] = [];
+    const submitted = { anthropic: 0, openai: 0 };
+    let nextId = 1;
+
+    const readBody = (req: http.IncomingMessage) => new Promise<string>(resolve => {
+        let data = '';
+        req.on('data', chunk => { data += chunk; });
+        req.on('end', () => resolve(data));
+    });
+
+    const server = http.createServer(async (req, res) => {
+        const url = req.url || '';
+        calls.push(`${req.method} ${url}`);
+        const body = await readBody(req);
+        const json = (status: number, payload: any) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(payload));
+        };
+        let match: RegExpMatchArray | null;
+
+        // ── Anthropic ──
+        if (req.method === 'POST' && url === '/anthropic/v1/messages/batches') {
+            const id = `msgbatch_${nextId++}`;
+            const parsed = JSON.parse(body);
+            batches.set(id, {
+                requests: parsed.requests.map((r: any) => ({ custom_id: r.custom_id, model: r.params.model, messages: r.params.messages })),
+                polls: 0,
+            });
+            submitted.anthropic++;
+            return json(200, { id, processing_status: 'in_progress' });
+        }
+        if ((match = url.match(/^\/anthropic\/v1\/messages\/batches\/([^/]+)\/results$/))) {
+            const batch = batches.get(match[1])!;
+            res.writeHead(200, { 'Content-Type': 'application/x-jsonl' });
+            return res.end(batch.requests.map(r => {
+                const text = lastUserText(r.messages);
+                const result = text.includes('FAIL')
+                    ? { type: 'errored', error: { type: 'invalid_request_error', message: 'mock failure' } }
+                    : { type: 'succeeded', message: { content: [{ type: 'text', text: mockReply(r.model, text) }], usage: { input_tokens: 10, output_tokens: 5 } } };
+                return JSON.stringify({ custom_id: r.custom_id, result });
+            }).join('\n'));
+        }
+        if ((match = url.match(/^\/anthropic\/v1\/messages\/batches\/([^/]+)$/))) {
+            const batch = batches.get(match[1]);
+            if (!batch) return json(404, { error: 'not found' });
+            batch.polls++;
+            return json(200, { id: match[1], processing_status: batch.polls >= pollsUntilEnded ? 'ended' : 'in_progress' });
+        }
+
+        // ── OpenAI ──
+        if (req.method === 'POST' && url === '/openai/v1/files') {
+            // Pull the JSONL payload out of the multipart body
+            const fileStart = body.indexOf('\r\n\r\n', body.indexOf('name="file"')) + 4;
+            const fileEnd = body.lastIndexOf('\r\n--');
+            const id = `file-${nextId++}`;
+            files.set(id, body.slice(fileStart, fileEnd));
+            return json(200, { id, purpose: 'batch' });
+        }
+        if (req.method === 'POST' && url === '/openai/v1/batches') {
+            const { input_file_id } = JSON.parse(body);
+            const id = `batch_${nextId++}`;
+            batches.set(id, {
+                requests: files.get(input_file_id)!.split('\n').map(line => {
+                    const entry = JSON.parse(line);
+                    return { custom_id: entry.custom_id, model: entry.body.model, messages: entry.body.messages };
+                }),
+                polls: 0,
+            });
+            submitted.openai++;
+            return json(200, { id, status: 'validating' });
+        }
+        if ((match = url.match(/^\/openai\/v1\/batches\/([^/]+)$/))) {
+            const batch = batches.get(match[1]);
+            if (!batch) return json(404, { error: 'not found' });
+            batch.polls++;
+            if (batch.polls < pollsUntilEnded) return json(200, { id: match[1], status: 'in_progress' });
+            const output: string[] = [];
+            const errors: string[] = [];
+            for (const r of batch.requests) {
+                const text = lastUserText(r.messages);
+                if (text.includes('FAIL')) {
+                    errors.push(JSON.stringify({ custom_id: r.custom_id, response: { status_code: 400, body: { error: { message: 'mock failure' } } } }));
+                } else {
+                    output.push(JSON.stringify({
+                        custom_id: r.custom_id,
+                        response: { status_code: 200, body: { choices: [{ message: { content: mockReply(r.model, text) } }], usage: { prompt_tokens: 10, completion_tokens: 5 } } },
+                    }));
+                }
+            }
+            files.set(`${match[1]}-out`, output.join('\n'));
+            files.set(`${match[1]}-err`, errors.join('\n'));
+            return json(200, {
+                id: match[1],
+                status: 'completed',
+                output_file_id: `${match[1]}-out`,
+                error_file_id: errors.length > 0 ? `${match[1]}-err` : null,
+            });
+        }
+        if ((match = url.match(/^\/openai\/v1\/files\/([^/]+)\/content$/))) {
+            res.writeHead(200, { 'Content-Type': 'application/jsonl' });
+            return res.end(files.get(match[1]) || '');
+        }
+
+        json(404, { error: `no mock route for ${req.method} ${url}` });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    const { port } = server.address() as { port: number };
+    return {
+        anthropicBaseUrl: `http://127.0.0.1:${port}/anthropic/v1`,
+        openaiBaseUrl: `http://127.0.0.1:${port}/openai/v1`,
+        calls,
+        submitted,
+        close: () => new Promise<void>(resolve => {
+            server.closeAllConnections();
+            server.close(() => resolve());
+        }),
+    };
+}
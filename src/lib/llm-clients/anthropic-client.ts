@@ -1,17 +1,20 @@
-import { LLMApiCallOptions, LLMApiCallResult, StreamChunk } from './types';
+import { LLMApiCallOptions, LLMApiCallResult, StreamChunk, LLMBatchClient, LLMBatchRequest, LLMBatchResult, LLMBatchStatus } from './types';
 
 const ANTHROPIC_API_BASE_URL = 'https://api.anthropic.com/v1';
 const ANTHROPIC_API_VERSION = '2023-06-01';
 
-class AnthropicClient {
+class AnthropicClient implements LLMBatchClient {
     private apiKey: string;
+    private baseUrl: string;
 
-    constructor(apiKey?: string) {
+    constructor(apiKey?: string, baseUrl?: string) {
         const key = apiKey || process.env.ANTHROPIC_API_KEY;
         if (!key) {
             throw new Error('ANTHROPIC_API_KEY is not set in environment variables');
         }
         this.apiKey = key;
+        // ANTHROPIC_API_BASE_URL lets batch runs be pointed at a proxy or a local mock server
+        this.baseUrl = (baseUrl || process.env.ANTHROPIC_API_BASE_URL || ANTHROPIC_API_BASE_URL).replace(/\/+$/, '');
     }
 
     private getHeaders() {
@@ -22,12 +25,15 @@ class AnthropicClient {
         };
     }
 
-    public async makeApiCall(options: LLMApiCallOptions): Promise<LLMApiCallResult> {
+    /**
+     * Builds a Messages API request body. Shared by single calls and batch
+     * submissions so both paths send identical parameters.
+     */
+    private buildMessagesBody(options: LLMApiCallOptions): any {
         // Extract modelName from modelId (format: "anthropic:claude-3-opus")
         const modelName = options.modelId.split(':')[1] || options.modelId;
-        let { messages, systemPrompt } = options;
-        const { temperature = 0.3, maxTokens = 1500, timeout = 30000, tools, toolMode } = options;
-        const fetch = (await import('node-fetch')).default;
+        let { systemPrompt } = options;
+        const { messages, temperature = 0.3, maxTokens = 1500, tools, toolMode } = options;
 
         // If systemPrompt was not passed explicitly, pull it from the first `system` role message (Messages API compatibility).
         if (!systemPrompt && messages && messages.length > 0) {
@@ -55,14 +61,40 @@ class AnthropicClient {
                 input_schema: t.schema || { type: 'object', properties: {} }
             }));
         }
+        return bodyObj;
+    }
+
+    private parseMessageResponse(jsonResponse: any): LLMApiCallResult {
+        // Anthropic tool use (if present) → synthesize TOOL_CALL lines
+        let toolPrefix = '';
+        const content = jsonResponse?.content || [];
+        for (const block of content) {
+            if (block?.type === 'tool_use' && block?.name) {
+                toolPrefix += `TOOL_CALL ${JSON.stringify({ name: block.name, arguments: block.input })}\n`;
+            }
+        }
+        const responseText = (toolPrefix + (content[0]?.text?.trim() ?? '')).trim();
+        const result: LLMApiCallResult = { responseText };
+        if (jsonResponse?.usage) {
+            result.usage = {
+                inputTokens: jsonResponse.usage.input_tokens || 0,
+                outputTokens: jsonResponse.usage.output_tokens || 0,
+            };
+        }
+        return result;
+    }
+
+    public async makeApiCall(options: LLMApiCallOptions): Promise<LLMApiCallResult> {
+        const { timeout = 30000 } = options;
+        const fetch = (await import('node-fetch')).default;
 
-        const body = JSON.stringify(bodyObj);
+        const body = JSON.stringify(this.buildMessagesBody(options));
 
         try {
             const controller = new AbortController();
             const timeoutId = setTimeout(() => controller.abort(), timeout);
 
-            const response = await fetch(`${ANTHROPIC_API_BASE_URL}/messages`, {
+            const response = await fetch(`${this.baseUrl}/messages`, {
                 method: 'POST',
                 headers: this.getHeaders(),
                 body,
@@ -77,23 +109,7 @@ class AnthropicClient {
             }
 
             const jsonResponse = await response.json() as any;
-            // Anthropic tool use (if present) → synthesize TOOL_CALL lines
-            let toolPrefix = '';
-            const content = jsonResponse?.content || [];
-            for (const block of content) {
-                if (block?.type === 'tool_use' && block?.name) {
-                    toolPrefix += `TOOL_CALL ${JSON.stringify({ name: block.name, arguments: block.input })}\n`;
-                }
-            }
-            const responseText = (toolPrefix + (jsonResponse.content[0]?.text?.trim() ?? '')).trim();
-            const result: LLMApiCallResult = { responseText };
-            if (jsonResponse.usage) {
-                result.usage = {
-                    inputTokens: jsonResponse.usage.input_tokens || 0,
-                    outputTokens: jsonResponse.usage.output_tokens || 0,
-                };
-            }
-            return result;
+            return this.parseMessageResponse(jsonResponse);
         } catch (error: any) {
             if (error.name === 'AbortError') {
                 return { responseText: '', error: `Anthropic API request timed out after ${timeout}ms` };
@@ -102,6 +118,80 @@ class AnthropicClient {
         }
     }
 
+    // ── Message Batches API ──────────────────────────────────────────────
+
+    private toBatchStatus(json: any): LLMBatchStatus {
+        // processing_status is 'in_progress', 'canceling' or 'ended'; results are only readable once ended
+        const providerStatus: string = json?.processing_status || 'unknown';
+        return {
+            batchId: json?.id,
+            state: providerStatus === 'ended' ? 'ended' : 'in_progress',
+            providerStatus,
+        };
+    }
+
+    public async submitBatch(requests: LLMBatchRequest[]): Promise<LLMBatchStatus> {
+        const fetch = (await import('node-fetch')).default;
+        const body = JSON.stringify({
+            requests: requests.map(r => {
+                const params = this.buildMessagesBody(r.options);
+                delete params.stream;
+                return { custom_id: r.customId, params };
+            }),
+        });
+        const response = await fetch(`${this.baseUrl}/messages/batches`, {
+            method: 'POST',
+            headers: this.getHeaders(),
+            body,
+        });
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new Error(`Anthropic batch submission failed: ${response.status} ${response.statusText} - ${errorBody}`);
+        }
+        return this.toBatchStatus(await response.json());
+    }
+
+    public async getBatchStatus(batchId: string): Promise<LLMBatchStatus> {
+        const fetch = (await import('node-fetch')).default;
+        const response = await fetch(`${this.baseUrl}/messages/batches/${batchId}`, {
+            method: 'GET',
+            headers: this.getHeaders(),
+        });
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new Error(`Anthropic batch status check failed for ${batchId}: ${response.status} ${response.statusText} - ${errorBody}`);
+        }
+        return this.toBatchStatus(await response.json());
+    }
+
+    public async getBatchResults(batchId: string): Promise<LLMBatchResult[]> {
+        const fetch = (await import('node-fetch')).default;
+        const response = await fetch(`${this.baseUrl}/messages/batches/${batchId}/results`, {
+            method: 'GET',
+            headers: this.getHeaders(),
+        });
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new Error(`Anthropic batch results download failed for ${batchId}: ${response.status} ${response.statusText} - ${errorBody}`);
+        }
+
+        // Results are JSONL, one { custom_id, result } object per line, in no guaranteed order
+        const results: LLMBatchResult[] = [];
+        for (const line of (await response.text()).split('\n')) {
+            if (!line.trim()) continue;
+            const entry = JSON.parse(line);
+            const outcome = entry.result || {};
+            if (outcome.type === 'succeeded') {
+                results.push({ customId: entry.custom_id, ...this.parseMessageResponse(outcome.message) });
+            } else if (outcome.type === 'errored') {
+                results.push({ customId: entry.custom_id, responseText: '', error: `Anthropic batch request errored: ${JSON.stringify(outcome.error)}` });
+            } else {
+                results.push({ customId: entry.custom_id, responseText: '', error: `Anthropic batch request ${outcome.type || 'returned no result'}` });
+            }
+        }
+        return results;
+    }
+
     public async *streamApiCall(options: LLMApiCallOptions): AsyncGenerator<StreamChunk> {
         // Extract modelName from modelId (format: "anthropic:claude-3-opus")
         const modelName = options.modelId.split(':')[1] || options.modelId;
@@ -121,7 +211,7 @@ class AnthropicClient {
             const controller = new AbortController();
             const timeoutId = setTimeout(() => controller.abort(), timeout);
 
-            const response = await fetch(`${ANTHROPIC_API_BASE_URL}/messages`, {
+            const response = await fetch(`${this.baseUrl}/messages`, {
                 method: 'POST',
                 headers: this.getHeaders(),
                 body,
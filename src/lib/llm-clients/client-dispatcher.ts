@@ -6,7 +6,7 @@ import { TogetherClient } from './together-client';
 import { XaiClient } from './xai-client';
 import { OpenRouterModuleClient } from './openrouter-client';
 import { GenericHttpClient } from './generic-client';
-import { LLMApiCallOptions, LLMApiCallResult, StreamChunk, CustomModelDefinition } from './types';
+import { LLMApiCallOptions, LLMApiCallResult, StreamChunk, CustomModelDefinition, LLMBatchClient } from './types';
 
 // A mapping from provider prefix to the corresponding client *class*.
 const clientClassMap: Record<string, new (apiKey?: string) => any> = {
@@ -109,6 +109,27 @@ function getClient(modelId: string): any {
     }
 }
 
+/**
+ * Returns the provider client for a model if that provider supports batch
+ * submission, or null (custom models, unsupported providers, or a provider
+ * whose client cannot be created, e.g. because its API key is missing).
+ */
+export function getBatchClient(modelId: string): LLMBatchClient | null {
+    if (clientInstances[modelId]) {
+        return null;
+    }
+    const parsed = parseModelId(modelId);
+    if (!parsed || !clientClassMap[parsed.provider]) {
+        return null;
+    }
+    try {
+        const client = getClient(modelId);
+        return typeof client.submitBatch === 'function' ? client as LLMBatchClient : null;
+    } catch {
+        return null;
+    }
+}
+
 /**
  * A generic dispatcher for making non-streaming API calls to any supported LLM provider.
  * It determines the correct client from the modelId and forwards the call.
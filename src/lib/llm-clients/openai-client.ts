@@ -1,4 +1,4 @@
-import { LLMApiCallOptions, LLMApiCallResult, StreamChunk } from './types';
+import { LLMApiCallOptions, LLMApiCallResult, StreamChunk, LLMBatchClient, LLMBatchRequest, LLMBatchResult, LLMBatchStatus } from './types';
 
 const OPENAI_API_BASE_URL = 'https://api.openai.com/v1';
 
@@ -42,15 +42,94 @@ function mergeOverrides(base: ModelCapabilityOverrides | undefined, add: ModelCa
     };
 }
 
-class OpenAIClient {
+function buildChatMessages(options: LLMApiCallOptions): { role: 'system' | 'user' | 'assistant'; content: string }[] {
+    const { messages: optionMessages, systemPrompt } = options;
+    const messages: { role: 'system' | 'user' | 'assistant'; content: string }[] = [];
+
+    // Favor messages array if it exists
+    if (optionMessages && optionMessages.length > 0) {
+        messages.push(...optionMessages.filter(m => ['user', 'assistant', 'system'].includes(m.role)).map(m => ({ role: m.role as 'user' | 'assistant' | 'system', content: m.content || '' })));
+        if (systemPrompt && !messages.find(m => m.role === 'system')) {
+             messages.unshift({ role: 'system', content: systemPrompt });
+        }
+    }
+    return messages;
+}
+
+/**
+ * Builds a non-streaming chat completions payload. Used both for direct calls
+ * (with adaptive overrides learned from 400 errors) and for batch input lines.
+ */
+function buildChatPayload(options: LLMApiCallOptions, overrides?: ModelCapabilityOverrides): any {
+    const modelName = options.modelId.split(':')[1] || options.modelId;
+    const { temperature = 0.3, maxTokens = 1500, tools, toolChoice, toolMode, reasoningEffort } = options;
+    const effective = mergeOverrides(getCapabilityOverridesForModel(modelName), overrides);
+    const payload: any = {
+        model: modelName,
+        messages: buildChatMessages(options),
+        stream: false,
+    };
+    // Native tool-calling support (opt-in via toolMode 'native' or 'auto')
+    if (tools && (toolMode === 'native' || toolMode === 'auto')) {
+        payload.tools = tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.schema || {} } }));
+        if (toolChoice) payload.tool_choice = toolChoice as any;
+    }
+    if (!effective?.omitTemperature && typeof temperature === 'number') {
+        payload.temperature = temperature;
+    }
+    if (typeof maxTokens === 'number') {
+        if (effective?.useMaxCompletionTokens) {
+            payload.max_completion_tokens = maxTokens;
+        } else {
+            payload.max_tokens = maxTokens;
+        }
+    }
+    // Add reasoning_effort for reasoning models (GPT-5, o1, o3, etc.)
+    if (reasoningEffort) {
+        payload.reasoning_effort = reasoningEffort;
+    }
+    return payload;
+}
+
+function parseChatCompletion(jsonResponse: any): LLMApiCallResult {
+    // Synthesize TOOL_CALL lines from native tool_calls if present
+    let toolPrefix = '';
+    const toolCalls = jsonResponse?.choices?.[0]?.message?.tool_calls;
+    if (Array.isArray(toolCalls)) {
+        for (const tc of toolCalls) {
+            const fn = tc?.function;
+            if (fn?.name) {
+                let argsObj: any = undefined;
+                try { argsObj = fn.arguments ? JSON.parse(fn.arguments) : undefined; } catch { argsObj = fn.arguments; }
+                toolPrefix += `TOOL_CALL ${JSON.stringify({ name: fn.name, arguments: argsObj })}\n`;
+            }
+        }
+    }
+    const responseText = (toolPrefix + (jsonResponse?.choices?.[0]?.message?.content?.trim() ?? '')).trim();
+    const result: LLMApiCallResult = { responseText };
+    if (jsonResponse?.usage) {
+        result.usage = {
+            inputTokens: jsonResponse.usage.prompt_tokens || 0,
+            outputTokens: jsonResponse.usage.completion_tokens || 0,
+        };
+    }
+    return result;
+}
+
+// Batch job statuses after which output/error files can be downloaded
+const OPENAI_BATCH_ENDED_STATUSES = new Set(['completed', 'expired', 'cancelled']);
+
+class OpenAIClient implements LLMBatchClient {
     private apiKey: string;
+    private baseUrl: string;
 
-    constructor(apiKey?: string) {
+    constructor(apiKey?: string, baseUrl?: string) {
         const key = apiKey || process.env.OPENAI_API_KEY;
         if (!key) {
             throw new Error('OPENAI_API_KEY is not set in environment variables');
         }
         this.apiKey = key;
+        this.baseUrl = (baseUrl || process.env.OPENAI_API_BASE_URL || OPENAI_API_BASE_URL).replace(/\/+$/, '');
     }
 
     private getHeaders() {
@@ -63,60 +142,19 @@ class OpenAIClient {
     public async makeApiCall(options: LLMApiCallOptions): Promise<LLMApiCallResult> {
         // Extract modelName from modelId (format: "openai:gpt-4")
         const modelName = options.modelId.split(':')[1] || options.modelId;
-        
-        const { messages: optionMessages, systemPrompt, temperature = 0.3, maxTokens = 1500, timeout = 30000, tools, toolChoice, toolMode, reasoningEffort } = options;
-        
-        const fetch = (await import('node-fetch')).default;
-
-        const messages: { role: 'system' | 'user' | 'assistant'; content: string }[] = [];
-
-        // Favor messages array if it exists
-        if (optionMessages && optionMessages.length > 0) {
-            messages.push(...optionMessages.filter(m => ['user', 'assistant', 'system'].includes(m.role)).map(m => ({ role: m.role as 'user' | 'assistant' | 'system', content: m.content || '' })));
-            if (systemPrompt && !messages.find(m => m.role === 'system')) {
-                 messages.unshift({ role: 'system', content: systemPrompt });
-            }
-        }
+        const { timeout = 30000 } = options;
 
-        // Get any known capability hints for this model, and merge with runtime overrides
-        const hinted = getCapabilityOverridesForModel(modelName);
+        const fetch = (await import('node-fetch')).default;
 
         // Build request body and adapt dynamically on 400 errors (e.g., max_tokens unsupported, temperature unsupported)
-        const buildBody = (overrides?: { useMaxCompletionTokens?: boolean; omitTemperature?: boolean }) => {
-            const effective = mergeOverrides(hinted, overrides);
-            const payload: any = {
-                model: modelName,
-                messages,
-                stream: false,
-            };
-            // Native tool-calling support (opt-in via toolMode 'native' or 'auto')
-            if (tools && (toolMode === 'native' || toolMode === 'auto')) {
-                payload.tools = tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.schema || {} } }));
-                if (toolChoice) payload.tool_choice = toolChoice as any;
-            }
-            if (!effective?.omitTemperature && typeof temperature === 'number') {
-                payload.temperature = temperature;
-            }
-            if (typeof maxTokens === 'number') {
-                if (effective?.useMaxCompletionTokens) {
-                    payload.max_completion_tokens = maxTokens;
-                } else {
-                    payload.max_tokens = maxTokens;
-                }
-            }
-            // Add reasoning_effort for reasoning models (GPT-5, o1, o3, etc.)
-            if (reasoningEffort) {
-                payload.reasoning_effort = reasoningEffort;
-            }
-            return JSON.stringify(payload);
-        };
+        const buildBody = (overrides?: ModelCapabilityOverrides) => JSON.stringify(buildChatPayload(options, overrides));
 
         try {
             const doRequest = async (bodyStr: string) => {
                 const controller = new AbortController();
                 const timeoutId = setTimeout(() => controller.abort(), timeout);
                 try {
-                    const resp = await fetch(`${OPENAI_API_BASE_URL}/chat/completions`, {
+                    const resp = await fetch(`${this.baseUrl}/chat/completions`, {
                         method: 'POST',
                         headers: this.getHeaders(),
                         body: bodyStr,
@@ -161,28 +199,7 @@ class OpenAIClient {
             }
 
             const jsonResponse = await response.json() as any;
-            // Synthesize TOOL_CALL lines from native tool_calls if present
-            let toolPrefix = '';
-            const toolCalls = jsonResponse.choices?.[0]?.message?.tool_calls;
-            if (Array.isArray(toolCalls)) {
-                for (const tc of toolCalls) {
-                    const fn = tc?.function;
-                    if (fn?.name) {
-                        let argsObj: any = undefined;
-                        try { argsObj = fn.arguments ? JSON.parse(fn.arguments) : undefined; } catch { argsObj = fn.arguments; }
-                        toolPrefix += `TOOL_CALL ${JSON.stringify({ name: fn.name, arguments: argsObj })}\n`;
-                    }
-                }
-            }
-            const responseText = (toolPrefix + (jsonResponse.choices[0]?.message?.content?.trim() ?? '')).trim();
-            const result: LLMApiCallResult = { responseText };
-            if (jsonResponse.usage) {
-                result.usage = {
-                    inputTokens: jsonResponse.usage.prompt_tokens || 0,
-                    outputTokens: jsonResponse.usage.completion_tokens || 0,
-                };
-            }
-            return result;
+            return parseChatCompletion(jsonResponse);
         } catch (error: any) {
             if (error.name === 'AbortError') {
                 return { responseText: '', error: `OpenAI API request timed out after ${timeout}ms` };
@@ -233,7 +250,7 @@ class OpenAIClient {
                 const controller = new AbortController();
                 const timeoutId = setTimeout(() => controller.abort(), timeout);
                 try {
-                    const resp = await fetch(`${OPENAI_API_BASE_URL}/chat/completions`, {
+                    const resp = await fetch(`${this.baseUrl}/chat/completions`, {
                         method: 'POST',
                         headers: this.getHeaders(),
                         body: bodyStr,
@@ -307,6 +324,103 @@ class OpenAIClient {
             }
         }
     }
+
+    // ── Batch API ────────────────────────────────────────────────────────
+
+    private toBatchStatus(json: any): LLMBatchStatus {
+        const providerStatus: string = json?.status || 'unknown';
+        let state: LLMBatchStatus['state'] = 'in_progress';
+        if (providerStatus === 'failed') {
+            state = 'failed';
+        } else if (OPENAI_BATCH_ENDED_STATUSES.has(providerStatus)) {
+            state = 'ended';
+        }
+        const status: LLMBatchStatus = { batchId: json?.id, state, providerStatus };
+        const firstError = json?.errors?.data?.[0];
+        if (firstError) {
+            status.error = firstError.message || JSON.stringify(firstError);
+        }
+        return status;
+    }
+
+    private async fetchJson(path: string, init: { method: string; headers?: Record<string, string>; body?: string }, action: string): Promise<any> {
+        const fetch = (await import('node-fetch')).default;
+        const response = await fetch(`${this.baseUrl}${path}`, { headers: this.getHeaders(), ...init });
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new Error(`OpenAI ${action} failed: ${response.status} ${response.statusText} - ${errorBody}`);
+        }
+        return response.json();
+    }
+
+    public async submitBatch(requests: LLMBatchRequest[]): Promise<LLMBatchStatus> {
+        // Batch input is a JSONL file of chat completion requests, uploaded with purpose=batch
+        const jsonl = requests.map(r => JSON.stringify({
+            custom_id: r.customId,
+            method: 'POST',
+            url: '/v1/chat/completions',
+            body: buildChatPayload(r.options),
+        })).join('\n');
+
+        const boundary = `----dtef-batch-${Date.now().toString(16)}`;
+        const multipart = [
+            `--${boundary}`,
+            'Content-Disposition: form-data; name="purpose"',
+            '',
+            'batch',
+            `--${boundary}`,
+            'Content-Disposition: form-data; name="file"; filename="batch.jsonl"',
+            'Content-Type: application/jsonl',
+            '',
+            jsonl,
+            `--${boundary}--`,
+            '',
+        ].join('\r\n');
+
+        const file = await this.fetchJson('/files', {
+            method: 'POST',
+            headers: { 'Authorization': `Bearer ${this.apiKey}`, 'Content-Type': `multipart/form-data; boundary=${boundary}` },
+            body: multipart,
+        }, 'batch input upload');
+
+        const batch = await this.fetchJson('/batches', {
+            method: 'POST',
+            body: JSON.stringify({ input_file_id: file.id, endpoint: '/v1/chat/completions', completion_window: '24h' }),
+        }, 'batch submission');
+        return this.toBatchStatus(batch);
+    }
+
+    public async getBatchStatus(batchId: string): Promise<LLMBatchStatus> {
+        return this.toBatchStatus(await this.fetchJson(`/batches/${batchId}`, { method: 'GET' }, `batch status check for ${batchId}`));
+    }
+
+    public async getBatchResults(batchId: string): Promise<LLMBatchResult[]> {
+        const fetch = (await import('node-fetch')).default;
+        const batch = await this.fetchJson(`/batches/${batchId}`, { method: 'GET' }, `batch lookup for ${batchId}`);
+
+        // Successful requests land in the output file, failed ones in the error file; both are JSONL
+        const results: LLMBatchResult[] = [];
+        for (const fileId of [batch.output_file_id, batch.error_file_id]) {
+            if (!fileId) continue;
+            const response = await fetch(`${this.baseUrl}/files/${fileId}/content`, { method: 'GET', headers: this.getHeaders() });
+            if (!response.ok) {
+                const errorBody = await response.text();
+                throw new Error(`OpenAI batch results download failed for ${batchId}: ${response.status} ${response.statusText} - ${errorBody}`);
+            }
+            for (const line of (await response.text()).split('\n')) {
+                if (!line.trim()) continue;
+                const entry = JSON.parse(line);
+                const statusCode = entry.response?.status_code;
+                if (statusCode === 200 && !entry.error) {
+                    results.push({ customId: entry.custom_id, ...parseChatCompletion(entry.response.body) });
+                } else {
+                    const detail = entry.error ? JSON.stringify(entry.error) : JSON.stringify(entry.response?.body);
+                    results.push({ customId: entry.custom_id, responseText: '', error: `OpenAI batch request failed (${statusCode ?? 'no status'}): ${detail}` });
+                }
+            }
+        }
+        return results;
+    }
 }
 
-export { OpenAIClient }; 
\ No newline at end of file
+export { OpenAIClient };
@@ -107,6 +107,45 @@ export type StreamChunk =
     | { type: 'reasoning'; content: string }
     | { type: 'error'; error: string };
 
+/**
+ * A single request inside a provider batch job. `customId` is echoed back with
+ * the result so callers can match it to the prompt that produced it.
+ */
+export interface LLMBatchRequest {
+    customId: string;
+    options: LLMApiCallOptions;
+}
+
+/**
+ * Normalised batch lifecycle: 'ended' means results can be fetched (some
+ * requests may still have failed individually); 'failed' means the whole
+ * batch was rejected by the provider and has no results.
+ */
+export type LLMBatchState = 'in_progress' | 'ended' | 'failed';
+
+export interface LLMBatchStatus {
+    batchId: string;
+    state: LLMBatchState;
+    /** The provider's own status string, kept for logging */
+    providerStatus: string;
+    error?: string;
+}
+
+export interface LLMBatchResult extends LLMApiCallResult {
+    customId: string;
+}
+
+/**
+ * Implemented by clients whose provider offers an asynchronous batch endpoint
+ * (currently Anthropic and OpenAI). Unlike makeApiCall, these methods throw on
+ * transport or HTTP errors so callers can decide whether to retry or resume.
+ */
+export interface LLMBatchClient {
+    submitBatch(requests: LLMBatchRequest[]): Promise<LLMBatchStatus>;
+    getBatchStatus(batchId: string): Promise<LLMBatchStatus>;
+    getBatchResults(batchId: string): Promise<LLMBatchResult[]>;
+}
+
 /**
  * Defines the structure for a provider-specific API client.
  * This is the abstract class that all clients (OpenAI, Anthropic, etc.) must extend.
@@ -0,0 +1,37 @@
+/**
+ * Rough model pricing, for runs whose provider reports token usage but no
+ * cost (everything except OpenRouter). Used by the platform status dashboard
+ * and by batch-mode generation.
+ */
+
+// Rough per-1M-input-token pricing for cost estimation when API doesn't report cost
+const ESTIMATED_COST_PER_1M_INPUT: Record<string, number> = {
+  'gpt-4o-mini': 0.15, 'gpt-4.1-mini': 0.40, 'gpt-4.1-nano': 0.10,
+  'gpt-4.1': 2.00, 'gpt-4o': 2.50, 'gpt-4-turbo': 10.00,
+  'claude-3-5-haiku': 0.80, 'claude-3-5-sonnet': 3.00, 'claude-3-haiku': 0.25,
+  'claude-3-sonnet': 3.00, 'claude-3-opus': 15.00,
+  'gemini-2.0-flash': 0.10, 'gemini-2.5-flash': 0.15, 'gemini-1.5-flash': 0.075,
+  'gemini-1.5-pro': 1.25, 'gemini-2.5-pro': 1.25,
+  'gemma-3': 0.10, 'llama-3': 0.20, 'mistral': 0.25,
+  'deepseek-chat': 0.14, 'deepseek-r1': 0.55,
+};
+const DEFAULT_COST_PER_1M_INPUT = 1.00;
+const OUTPUT_TO_INPUT_COST_RATIO = 3; // output tokens typically ~3x input cost
+
+/** Share of the synchronous price charged for provider batch requests (Anthropic and OpenAI both halve it) */
+export const BATCH_PRICE_MULTIPLIER = 0.5;
+
+export function estimateModelCost(modelId: string, inputTokens: number, outputTokens: number): number {
+  // Find best matching key (model IDs often have prefixes like "openrouter:")
+  const cleanId = modelId.replace(/^openrouter:/, '').replace(/^[^/]+\//, '');
+  let rate = DEFAULT_COST_PER_1M_INPUT;
+  for (const [key, val] of Object.entries(ESTIMATED_COST_PER_1M_INPUT)) {
+    if (cleanId.includes(key) || key.includes(cleanId)) {
+      rate = val;
+      break;
+    }
+  }
+  const inputCost = (inputTokens / 1_000_000) * rate;
+  const outputCost = (outputTokens / 1_000_000) * rate * OUTPUT_TO_INPUT_COST_RATIO;
+  return inputCost + outputCost;
+}
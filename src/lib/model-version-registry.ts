@@ -16,6 +16,7 @@ export interface ModelVersion {
   id: string; // Canonical model ID (e.g., "anthropic:claude-3-5-haiku")
   name: string; // Display name (e.g., "Claude 3.5 Haiku")
   releaseDate: string; // ISO date for temporal ordering (YYYY-MM-DD)
+  knowledgeCutoff?: string; // ISO date of the published training-data cutoff, when known (YYYY-MM-DD)
   aliases: string[]; // Known variants that should match this version
 }
 
@@ -44,6 +45,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "openai:gpt-4o-2024-05-13",
         name: "GPT-4o (May 2024)",
         releaseDate: "2024-05-13",
+        knowledgeCutoff: "2023-10-31",
         aliases: [
           "openai:gpt-4o-2024-05-13",
           "openrouter:openai/gpt-4o-2024-05-13"
@@ -53,6 +55,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "openai:gpt-4o-2024-08-06",
         name: "GPT-4o (August 2024)",
         releaseDate: "2024-08-06",
+        knowledgeCutoff: "2023-10-31",
         aliases: [
           "openai:gpt-4o-2024-08-06",
           "openrouter:openai/gpt-4o-2024-08-06"
@@ -62,6 +65,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "openai:gpt-4o-2024-11-20",
         name: "GPT-4o (November 2024)",
         releaseDate: "2024-11-20",
+        knowledgeCutoff: "2023-10-31",
         aliases: [
           "openai:gpt-4o-2024-11-20",
           "openrouter:openai/gpt-4o-2024-11-20",
@@ -83,6 +87,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "openai:gpt-4o-mini",
         name: "GPT-4o Mini",
         releaseDate: "2024-07-18",
+        knowledgeCutoff: "2023-10-31",
         aliases: [
           "openai:gpt-4o-mini",
           "openrouter:openai/gpt-4o-mini",
@@ -103,6 +108,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "openai:gpt-4.1",
         name: "GPT-4.1",
         releaseDate: "2025-01-15", // Estimated
+        knowledgeCutoff: "2024-06-01",
         aliases: [
           "openai:gpt-4.1",
           "openrouter:openai/gpt-4.1"
@@ -122,6 +128,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "openai:gpt-4.1-mini",
         name: "GPT-4.1 Mini",
         releaseDate: "2025-01-15", // Estimated
+        knowledgeCutoff: "2024-06-01",
         aliases: [
           "openai:gpt-4.1-mini",
           "openrouter:openai/gpt-4.1-mini"
@@ -141,6 +148,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "openai:gpt-4.1-nano",
         name: "GPT-4.1 Nano",
         releaseDate: "2025-01-15", // Estimated
+        knowledgeCutoff: "2024-06-01",
         aliases: [
           "openai:gpt-4.1-nano",
           "openrouter:openai/gpt-4.1-nano"
@@ -160,6 +168,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "openai:gpt-5",
         name: "GPT-5",
         releaseDate: "2025-02-01", // Estimated
+        knowledgeCutoff: "2024-09-30",
         aliases: [
           "openai:gpt-5",
           "openrouter:openai/gpt-5"
@@ -169,6 +178,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "openai:gpt-5.1",
         name: "GPT-5.1",
         releaseDate: "2025-10-01", // Estimated
+        knowledgeCutoff: "2024-09-30",
         aliases: [
           "openai:gpt-5.1",
           "openrouter:openai/gpt-5.1"
@@ -197,6 +207,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "openai:o4-mini",
         name: "o4 Mini",
         releaseDate: "2025-01-20", // Estimated
+        knowledgeCutoff: "2024-06-01",
         aliases: [
           "openai:o4-mini",
           "openrouter:openai/o4-mini"
@@ -216,6 +227,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "openai:gpt-oss-20b",
         name: "GPT OSS 20B",
         releaseDate: "2024-12-01", // Estimated
+        knowledgeCutoff: "2024-06-01",
         aliases: [
           "openai:gpt-oss-20b",
           "openrouter:openai/gpt-oss-20b"
@@ -235,6 +247,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "openai:gpt-oss-120b",
         name: "GPT OSS 120B",
         releaseDate: "2024-12-01", // Estimated
+        knowledgeCutoff: "2024-06-01",
         aliases: [
           "openai:gpt-oss-120b",
           "openrouter:openai/gpt-oss-120b"
@@ -254,6 +267,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "anthropic:claude-3-haiku-20240307",
         name: "Claude 3 Haiku",
         releaseDate: "2024-03-07",
+        knowledgeCutoff: "2023-08-31",
         aliases: [
           "anthropic:claude-3-haiku-20240307",
           "anthropic:claude-3-haiku",
@@ -264,6 +278,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "anthropic:claude-3-5-haiku-20241022",
         name: "Claude 3.5 Haiku",
         releaseDate: "2024-10-22",
+        knowledgeCutoff: "2024-07-31",
         aliases: [
           "anthropic:claude-3-5-haiku-20241022",
           "anthropic:claude-3-5-haiku",
@@ -275,6 +290,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "anthropic:claude-haiku-4.5",
         name: "Claude Haiku 4.5",
         releaseDate: "2025-10-01", // Estimated
+        knowledgeCutoff: "2025-07-31",
         aliases: [
           "anthropic:claude-haiku-4.5",
           "openrouter:anthropic/claude-haiku-4.5"
@@ -294,6 +310,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "anthropic:claude-3-5-sonnet-20240620",
         name: "Claude 3.5 Sonnet (June 2024)",
         releaseDate: "2024-06-20",
+        knowledgeCutoff: "2024-04-30",
         aliases: [
           "anthropic:claude-3-5-sonnet-20240620",
           "openrouter:anthropic/claude-3.5-sonnet-20240620"
@@ -303,6 +320,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "anthropic:claude-3-5-sonnet-20241022",
         name: "Claude 3.5 Sonnet (October 2024)",
         releaseDate: "2024-10-22",
+        knowledgeCutoff: "2024-04-30",
         aliases: [
           "anthropic:claude-3-5-sonnet-20241022",
           "anthropic:claude-3-5-sonnet",
@@ -314,6 +332,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "anthropic:claude-3-7-sonnet-20250219",
         name: "Claude 3.7 Sonnet",
         releaseDate: "2025-02-19",
+        knowledgeCutoff: "2024-11-30",
         aliases: [
           "anthropic:claude-3-7-sonnet-20250219",
           "anthropic:claude-3-7-sonnet",
@@ -324,6 +343,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "anthropic:claude-sonnet-4",
         name: "Claude Sonnet 4",
         releaseDate: "2025-05-14",
+        knowledgeCutoff: "2025-03-31",
         aliases: [
           "anthropic:claude-sonnet-4",
           "anthropic:claude-sonnet-4-20250514",
@@ -353,6 +373,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "anthropic:claude-3-opus-20240229",
         name: "Claude 3 Opus",
         releaseDate: "2024-02-29",
+        knowledgeCutoff: "2023-08-31",
         aliases: [
           "anthropic:claude-3-opus-20240229",
           "anthropic:claude-3-opus",
@@ -363,6 +384,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "anthropic:claude-opus-4",
         name: "Claude Opus 4",
         releaseDate: "2025-05-14",
+        knowledgeCutoff: "2025-03-31",
         aliases: [
           "anthropic:claude-opus-4",
           "anthropic:claude-opus-4-20250514",
@@ -373,6 +395,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "anthropic:claude-opus-4.1",
         name: "Claude Opus 4.1",
         releaseDate: "2025-06-01", // Estimated
+        knowledgeCutoff: "2025-03-31",
         aliases: [
           "anthropic:claude-opus-4.1",
           "openrouter:anthropic/claude-opus-4.1"
@@ -401,6 +424,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "google:gemini-2.0-flash",
         name: "Gemini 2.0 Flash",
         releaseDate: "2024-12-11",
+        knowledgeCutoff: "2024-08-31",
         aliases: [
           "google:gemini-2.0-flash",
           "openrouter:google/gemini-2.0-flash"
@@ -410,6 +434,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "google:gemini-2.5-flash",
         name: "Gemini 2.5 Flash",
         releaseDate: "2025-05-20", // Estimated from preview date
+        knowledgeCutoff: "2025-01-31",
         aliases: [
           "google:gemini-2.5-flash",
           "google:gemini-2.5-flash-preview",
@@ -441,6 +466,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "google:gemini-2.0-pro",
         name: "Gemini 2.0 Pro",
         releaseDate: "2024-12-11",
+        knowledgeCutoff: "2024-08-31",
         aliases: [
           "google:gemini-2.0-pro",
           "openrouter:google/gemini-2.0-pro"
@@ -450,6 +476,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "google:gemini-2.5-pro",
         name: "Gemini 2.5 Pro",
         releaseDate: "2025-05-01", // Estimated from preview
+        knowledgeCutoff: "2025-01-31",
         aliases: [
           "google:gemini-2.5-pro",
           "google:gemini-2.5-pro-preview",
@@ -479,6 +506,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "google:gemma-3-12b-it",
         name: "Gemma 3 12B IT",
         releaseDate: "2025-01-01", // Estimated
+        knowledgeCutoff: "2024-08-31",
         aliases: [
           "google:gemma-3-12b-it",
           "openrouter:google/gemma-3-12b-it"
@@ -664,6 +692,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "meta:llama-3-70b-instruct",
         name: "Llama 3 70B Instruct",
         releaseDate: "2024-04-18",
+        knowledgeCutoff: "2023-12-31",
         aliases: [
           "meta:llama-3-70b-instruct",
           "openrouter:meta-llama/llama-3-70b-instruct"
@@ -683,6 +712,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "meta:llama-3.1-405b-instruct",
         name: "Llama 3.1 405B Instruct",
         releaseDate: "2024-07-23",
+        knowledgeCutoff: "2023-12-31",
         aliases: [
           "meta:llama-3.1-405b-instruct",
           "meta:Meta-Llama-3.1-405B-Instruct-Turbo",
@@ -704,6 +734,7 @@ export const MODEL_VERSION_REGISTRY: ModelSeries[] = [
         id: "meta:llama-4-maverick",
         name: "Llama 4 Maverick",
         releaseDate: "2025-02-01", // Estimated
+        knowledgeCutoff: "2024-08-31",
         aliases: [
           "meta:llama-4-maverick",
           "openrouter:meta-llama/llama-4-maverick"
@@ -820,6 +851,20 @@ export function findVersionForModel(modelId: string): { series: ModelSeries; ver
   return undefined;
 }
 
+/**
+ * The latest date a model's training data could include.
+ * Uses the published knowledge cutoff when recorded, otherwise the release
+ * date as a conservative upper bound.
+ * @param modelId - Full or normalized model ID
+ */
+export function getKnowledgeCutoff(modelId: string): { date: string; source: 'knowledge-cutoff' | 'release-date' } | undefined {
+  const match = findVersionForModel(modelId);
+  if (!match) return undefined;
+  return match.version.knowledgeCutoff
+    ? { date: match.version.knowledgeCutoff, source: 'knowledge-cutoff' }
+    : { date: match.version.releaseDate, source: 'release-date' };
+}
+
 /**
  * Get all series for a specific maker
  * @param maker - Company name (e.g., "anthropic", "openai")
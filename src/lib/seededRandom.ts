@@ -0,0 +1,25 @@
+/**
+ * Seeded pseudo-random numbers, so sampling and permutation tests give the
+ * same answer every time they run on the same inputs.
+ */
+
+/**
+ * Simple seeded PRNG (mulberry32) for deterministic sampling.
+ */
+export function seededRng(seed: number): () => number {
+    return () => {
+        seed |= 0; seed = seed + 0x6D2B79F5 | 0;
+        let t = Math.imul(seed ^ seed >>> 15, 1 | seed);
+        t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t;
+        return ((t ^ t >>> 14) >>> 0) / 4294967296;
+    };
+}
+
+/** 32-bit hash of a string, for turning seed strings into PRNG seeds */
+export function hashString(s: string): number {
+    let h = 0;
+    for (let i = 0; i < s.length; i++) {
+        h = Math.imul(31, h) + s.charCodeAt(i) | 0;
+    }
+    return h;
+}
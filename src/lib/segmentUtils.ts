@@ -26,14 +26,54 @@ export const SEGMENT_TYPE_LABELS: Record<string, string> = {
 /** All known category keys (deduplicated by canonical label). */
 export const SEGMENT_CATEGORIES = Object.keys(SEGMENT_TYPE_LABELS);
 
+/**
+ * Separator between the single-attribute parts of an intersectional
+ * (crossed) segment ID, e.g. "ageGroup:18-25+gender:female".
+ */
+export const INTERSECTION_SEPARATOR = '+';
+
+/**
+ * Build a unique segment ID from its attribute and value.
+ * e.g. ("country", "United States") → "country:united-states"
+ */
+export function makeSegmentId(attribute: string, value: string): string {
+  return `${attribute}:${value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/-+$/, '')}`;
+}
+
+/**
+ * Build an intersectional segment ID from ordered (attribute, value) pairs.
+ * A single pair yields an ordinary single-attribute ID.
+ */
+export function makeIntersectionalSegmentId(parts: Array<[string, string]>): string {
+  return parts.map(([attribute, value]) => makeSegmentId(attribute, value)).join(INTERSECTION_SEPARATOR);
+}
+
+/**
+ * Number of crossed attributes in a segment ID (1 for ordinary segments).
+ */
+export function getIntersectionLevel(segmentId: string): number {
+  return segmentId ? segmentId.split(INTERSECTION_SEPARATOR).length : 0;
+}
+
 /**
  * Extract the category prefix from a segment ID.
- * e.g. "country:USA" → "country", "O7:USA" → "O7"
+ * e.g. "country:USA" → "country", "O7:USA" → "O7",
+ * "ageGroup:18-25+gender:female" → "ageGroup+gender"
  */
 export function getSegmentPrefix(segmentId: string): string {
+  if (segmentId?.includes(INTERSECTION_SEPARATOR)) {
+    return segmentId.split(INTERSECTION_SEPARATOR).map(part => part.split(':')[0]).join(INTERSECTION_SEPARATOR);
+  }
   return segmentId?.split(':')[0] || segmentId?.substring(0, 2) || '';
 }
 
+/**
+ * Whether every attribute in a (possibly intersectional) prefix is a known category.
+ */
+export function isKnownCategory(prefix: string): boolean {
+  return !!prefix && prefix.split(INTERSECTION_SEPARATOR).every(p => !!SEGMENT_TYPE_LABELS[p]);
+}
+
 /**
  * Extract the human-readable value from a segment label.
  * e.g. "O2:18-29" → "18-29", "country:USA" → "USA"
@@ -45,8 +85,12 @@ export function getSegmentValueLabel(segmentLabel: string): string {
 
 /**
  * Get the human-readable category label for a segment ID prefix.
+ * Intersectional prefixes are joined with "×" (e.g. "Age × Gender").
  * Returns the prefix itself if no mapping exists.
  */
 export function getCategoryLabel(prefix: string): string {
+  if (prefix.includes(INTERSECTION_SEPARATOR)) {
+    return prefix.split(INTERSECTION_SEPARATOR).map(p => SEGMENT_TYPE_LABELS[p] || p).join(' × ');
+  }
   return SEGMENT_TYPE_LABELS[prefix] || prefix;
 }
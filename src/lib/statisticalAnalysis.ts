@@ -14,6 +14,7 @@
  */
 
 import { jsDivergenceSimilarity, normalize } from '../point-functions/distribution_metric';
+import { seededRng, hashString } from './seededRandom';
 
 // ── Vector Operations ─────────────────────────────────────────────────────
 
@@ -127,9 +128,13 @@ export interface ConfidenceInterval {
  * Resamples the ground truth distribution (treating it as multinomial with
  * parameters = observed proportions) and recomputes JSD similarity each time.
  *
+ * For weighted surveys pass the Kish effective sample size (see
+ * `getEffectiveSampleSize`) — resampling the raw count would understate
+ * the variance of the weighted ground truth.
+ *
  * @param groundTruth - observed distribution (percentages, sums to ~100)
  * @param prediction - model's predicted distribution (percentages)
- * @param sampleSize - number of survey respondents (n)
+ * @param sampleSize - effective number of survey respondents (n, or n_eff if weighted)
  * @param B - number of bootstrap iterations (default 1000)
  */
 export function bootstrapScoreCI(
@@ -140,11 +145,13 @@ export function bootstrapScoreCI(
 ): ConfidenceInterval {
     const probs = normalize(groundTruth);
     const scores: number[] = [];
+    // Effective sample sizes are fractional; draw the nearest whole number of respondents
+    const draws = Math.max(1, Math.round(sampleSize));
 
     for (let b = 0; b < B; b++) {
-        const counts = multinomialSample(probs, sampleSize);
+        const counts = multinomialSample(probs, draws);
         // Convert counts to percentages for JSD computation
-        const resampled = counts.map(c => (c / sampleSize) * 100);
+        const resampled = counts.map(c => (c / draws) * 100);
         scores.push(jsDivergenceSimilarity(prediction, resampled));
     }
 
@@ -218,36 +225,83 @@ export function bootstrapAggregateCI(
  *
  * Previously called "noise floor" — renamed to "sampling noise ceiling" for
  * clarity. This is the maximum achievable score given ground truth data quality.
+ *
+ * For weighted surveys, n should be the Kish effective sample size.
  */
 export function computeNoiseFloorValue(k: number, n: number): number {
     if (n <= 0 || k <= 1) return 0;
     return 1 - Math.sqrt((k - 1) / (2 * n * Math.LN2));
 }
 
+/**
+ * Noise ceilings below this mean sampling noise dominates the ground truth,
+ * so scores on that (segment, question) pair are not reliable evidence.
+ */
+export const NOISE_CEILING_RELIABILITY_THRESHOLD = 0.70;
+
 /**
  * Compute a normalized score that maps raw JSD similarity into the
- * meaningful range between the uniform baseline and sampling noise ceiling.
+ * meaningful range between a baseline and the sampling noise ceiling.
  *
- * normalizedScore = (rawScore - uniformBaseline) / (noiseCeiling - uniformBaseline)
+ * normalizedScore = (rawScore - baseline) / (noiseCeiling - baseline)
  *
  * Interpretation:
- * - 0.0 = performing at uniform baseline (random guessing)
+ * - 0.0 = performing at the baseline (uniform guessing, or the population
+ *   marginal when that is the baseline)
  * - 1.0 = performing at the sampling noise ceiling (best achievable given data quality)
  * - >1.0 = overfitting or measurement artifact
- * - <0.0 = worse than random
+ * - <0.0 = worse than the baseline
  *
  * @param rawScore - JSD similarity score (0-1)
- * @param uniformBaseline - uniform baseline score for this question (JSD similarity of equal distribution)
+ * @param baseline - baseline score for this question, e.g. the JSD similarity of a uniform
+ *   distribution or of the population marginal
  * @param noiseCeiling - sampling noise ceiling for this (k, n) pair
  */
 export function computeNormalizedScore(
     rawScore: number,
-    uniformBaseline: number,
+    baseline: number,
     noiseCeiling: number,
 ): number {
-    const range = noiseCeiling - uniformBaseline;
+    const range = noiseCeiling - baseline;
     if (range <= 0) return 0;
-    return (rawScore - uniformBaseline) / range;
+    return (rawScore - baseline) / range;
+}
+
+// ── Effective Sample Size ─────────────────────────────────────────────────
+
+/**
+ * Kish effective sample size for a set of respondent weights:
+ * n_eff = (Σw)² / Σw²
+ *
+ * Equals the raw count when all weights are equal and shrinks as weights
+ * become more unequal. Returns 0 for empty or all-zero weights.
+ */
+export function kishEffectiveSampleSize(weights: number[]): number {
+    let sum = 0;
+    let sumSq = 0;
+    for (const w of weights) {
+        sum += w;
+        sumSq += w * w;
+    }
+    return sumSq > 0 ? (sum * sum) / sumSq : 0;
+}
+
+/**
+ * The sample size to use for sampling-noise calculations on a segment:
+ * its Kish effective sample size when the survey is weighted, otherwise
+ * the raw respondent count.
+ */
+export function getEffectiveSampleSize(segment: { sampleSize: number; effectiveSampleSize?: number }): number {
+    return segment.effectiveSampleSize ?? segment.sampleSize;
+}
+
+/**
+ * A segment's share of the population when pooling segments into
+ * population marginals: its summed survey weight when the survey is
+ * weighted, otherwise the raw respondent count.
+ */
+export function getPopulationWeight(segment: { sampleSize: number; weightTotal?: number }): number {
+    return segment.weightTotal ?? segment.sampleSize;
 }
 
 // ── Weighted Aggregation ──────────────────────────────────────────────────
@@ -266,6 +320,95 @@ export function computeWeightedMean(values: number[], weights: number[]): number
     return totalWeight > 0 ? weightedSum / totalWeight : 0;
 }
 
+// ── Calibration ───────────────────────────────────────────────────────────
+
+/**
+ * One probabilistic forecast: the probability given to the top option, the
+ * expected share of that option (0/1 for an individual's actual answer), and
+ * its Brier score and log loss over all options.
+ */
+export interface CalibrationForecast {
+    confidence: number;
+    outcome: number;
+    brier: number;
+    logLoss: number;
+}
+
+export interface ReliabilityBin {
+    /** Confidence range covered by this bin */
+    lower: number;
+    upper: number;
+    count: number;
+    meanConfidence: number;
+    /** Mean outcome of the forecasts in the bin (observed accuracy) */
+    accuracy: number;
+}
+
+export interface CalibrationSummary {
+    forecastCount: number;
+    /** Mean multi-class Brier score (0 = perfect, 2 = worst) */
+    brierScore: number;
+    /** Mean log loss (cross-entropy) */
+    logLoss: number;
+    /** Σ (bin count / N) · |accuracy − confidence| over equal-width confidence bins */
+    expectedCalibrationError: number;
+    /** Mean outcome of the top option across all forecasts */
+    accuracy: number;
+    meanConfidence: number;
+    /** Non-empty confidence bins, for a reliability diagram */
+    reliability: ReliabilityBin[];
+}
+
+/**
+ * Summarise calibration over a set of forecasts using equal-width
+ * confidence bins. A well-calibrated model's accuracy in each bin matches
+ * its confidence. Returns null for no forecasts.
+ */
+export function computeCalibrationSummary(
+    forecasts: CalibrationForecast[],
+    binCount: number = 10,
+): CalibrationSummary | null {
+    if (forecasts.length === 0) return null;
+
+    const bins = Array.from({ length: binCount }, () => ({ count: 0, confidence: 0, outcome: 0 }));
+    let brier = 0;
+    let logLoss = 0;
+    let confidence = 0;
+    let outcome = 0;
+
+    for (const f of forecasts) {
+        const binIdx = Math.min(binCount - 1, Math.max(0, Math.floor(f.confidence * binCount)));
+        bins[binIdx].count++;
+        bins[binIdx].confidence += f.confidence;
+        bins[binIdx].outcome += f.outcome;
+        brier += f.brier;
+        logLoss += f.logLoss;
+        confidence += f.confidence;
+        outcome += f.outcome;
+    }
+
+    const n = forecasts.length;
+    const reliability: ReliabilityBin[] = [];
+    let ece = 0;
+    bins.forEach((bin, i) => {
+        if (bin.count === 0) return;
+        const meanConfidence = bin.confidence / bin.count;
+        const accuracy = bin.outcome / bin.count;
+        ece += (bin.count / n) * Math.abs(accuracy - meanConfidence);
+        reliability.push({ lower: i / binCount, upper: (i + 1) / binCount, count: bin.count, meanConfidence, accuracy });
+    });
+
+    return {
+        forecastCount: n,
+        brierScore: brier / n,
+        logLoss: logLoss / n,
+        expectedCalibrationError: ece,
+        accuracy: outcome / n,
+        meanConfidence: confidence / n,
+        reliability,
+    };
+}
+
 // ── Stratification ────────────────────────────────────────────────────────
 
 /**
@@ -356,3 +499,336 @@ export function aggregateDecompositions(
         skippedCount: skipped,
     };
 }
+
+// ── Bias Direction ────────────────────────────────────────────────────────
+
+/** One (segment, question) prediction, all distributions in percentages */
+export interface BiasObservation {
+    predicted: number[];
+    truth: number[];
+    /** Population-marginal distribution for the question */
+    marginal?: number[];
+    /** The model's own answer to the question, for the own-opinion pull */
+    ownAnswer?: number[];
+    /** Whether the options form an ordinal scale */
+    ordinal: boolean;
+}
+
+export interface OrdinalErrorProfile {
+    optionCount: number;
+    /** Mean predicted − true share at each scale position (pp) */
+    meanSignedError: number[];
+    pairCount: number;
+}
+
+export interface BiasSummary {
+    pairCount: number;
+    /** Mean predicted − true share of the population's majority option (pp); positive = over-predicts the majority */
+    majorityOptionError: number | null;
+    /** Mean predicted − true share of the two scale endpoints (pp); positive = pushes toward extremes */
+    extremityError: number | null;
+    /** Signed error per scale position, one profile per scale length */
+    ordinalProfiles: OrdinalErrorProfile[];
+    /** Mean entropy of predictions, scaled to [0, 1] by log(k) */
+    predictedEntropy: number;
+    /** Mean entropy of the survey distributions, scaled to [0, 1] by log(k) */
+    trueEntropy: number;
+    /** predictedEntropy − trueEntropy: negative = over-confident, positive = under-confident */
+    entropyGap: number;
+    /** Shift relative to the marginal (present when marginals were available) */
+    shift?: AggregatedDecomposition;
+    /** Pearson r between each option's error and the own answer's deviation from the truth */
+    ownAnswerCorrelation: number | null;
+    ownAnswerPairCount: number;
+}
+
+/** Shannon entropy divided by log(k), so 0 = all mass on one option and 1 = uniform */
+export function normalizedEntropy(dist: number[]): number {
+    if (dist.length < 2) return 0;
+    const p = normalize(dist);
+    const h = p.reduce((sum, v) => (v > 0 ? sum - v * Math.log(v) : sum), 0);
+    return h / Math.log(dist.length);
+}
+
+/** Pearson correlation coefficient. Returns null with fewer than 3 points or no variance. */
+export function pearsonCorrelation(x: number[], y: number[]): number | null {
+    const n = Math.min(x.length, y.length);
+    if (n < 3) return null;
+    const mx = x.slice(0, n).reduce((a, b) => a + b, 0) / n;
+    const my = y.slice(0, n).reduce((a, b) => a + b, 0) / n;
+    let sxy = 0, sxx = 0, syy = 0;
+    for (let i = 0; i < n; i++) {
+        sxy += (x[i] - mx) * (y[i] - my);
+        sxx += (x[i] - mx) ** 2;
+        syy += (y[i] - my) ** 2;
+    }
+    if (sxx === 0 || syy === 0) return null;
+    return sxy / Math.sqrt(sxx * syy);
+}
+
+/**
+ * Summarise which way a model's errors lean. Distance metrics only say how
+ * far off a prediction is; these say whether it systematically favours the
+ * majority option, the ends of a scale, flatter or sharper distributions,
+ * or the model's own answer. Returns null for no observations.
+ */
+export function computeBiasSummary(observations: BiasObservation[]): BiasSummary | null {
+    const valid = observations.filter(o => o.predicted.length === o.truth.length && o.truth.length >= 2);
+    if (valid.length === 0) return null;
+
+    let majoritySum = 0, majorityCount = 0;
+    let extremitySum = 0, extremityCount = 0;
+    let predictedEntropy = 0, trueEntropy = 0;
+    const profiles = new Map<number, { sums: number[]; count: number }>();
+    const decompositions: GapDecomposition[] = [];
+    const errors: number[] = [];
+    const pulls: number[] = [];
+    let ownAnswerPairCount = 0;
+
+    for (const o of valid) {
+        const error = computeShiftVector(o.predicted, o.truth);
+        const k = error.length;
+        predictedEntropy += normalizedEntropy(o.predicted);
+        trueEntropy += normalizedEntropy(o.truth);
+
+        if (o.marginal && o.marginal.length === k) {
+            const majority = o.marginal.indexOf(Math.max(...o.marginal));
+            majoritySum += error[majority];
+            majorityCount++;
+            decompositions.push(decomposeGap(o.predicted, o.truth, o.marginal));
+        }
+
+        if (o.ordinal && k >= 3) {
+            extremitySum += error[0] + error[k - 1];
+            extremityCount++;
+            let profile = profiles.get(k);
+            if (!profile) {
+                profile = { sums: new Array(k).fill(0), count: 0 };
+                profiles.set(k, profile);
+            }
+            error.forEach((e, i) => { profile!.sums[i] += e; });
+            profile.count++;
+        }
+
+        if (o.ownAnswer && o.ownAnswer.length === k) {
+            const pull = computeShiftVector(o.ownAnswer, o.truth);
+            errors.push(...error);
+            pulls.push(...pull);
+            ownAnswerPairCount++;
+        }
+    }
+
+    const n = valid.length;
+    return {
+        pairCount: n,
+        majorityOptionError: majorityCount > 0 ? majoritySum / majorityCount : null,
+        extremityError: extremityCount > 0 ? extremitySum / extremityCount : null,
+        ordinalProfiles: Array.from(profiles.entries())
+            .sort((a, b) => a[0] - b[0])
+            .map(([optionCount, p]) => ({
+                optionCount,
+                meanSignedError: p.sums.map(s => s / p.count),
+                pairCount: p.count,
+            })),
+        predictedEntropy: predictedEntropy / n,
+        trueEntropy: trueEntropy / n,
+        entropyGap: (predictedEntropy - trueEntropy) / n,
+        ...(decompositions.length > 0 ? { shift: aggregateDecompositions(decompositions) } : {}),
+        ownAnswerCorrelation: pearsonCorrelation(errors, pulls),
+        ownAnswerPairCount,
+    };
+}
+
+/**
+ * Spread of a set of distributions, e.g. one question's distributions across
+ * segments: the variance of each option's share, averaged over options.
+ * In squared input units (pp² for percentages); 0 for fewer than two.
+ */
+export function crossSegmentVariance(dists: number[][]): number {
+    if (dists.length < 2) return 0;
+    const k = dists[0].length;
+    let total = 0;
+    for (let i = 0; i < k; i++) {
+        const values = dists.map(d => d[i] ?? 0);
+        const mean = values.reduce((a, b) => a + b, 0) / values.length;
+        total += values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    }
+    return k > 0 ? total / k : 0;
+}
+
+// ── Pairwise Significance ─────────────────────────────────────────────────
+
+export interface PairwiseComparison {
+    modelA: string;
+    modelB: string;
+    /** Mean of (A − B) over the units both models were scored on */
+    meanDiff: number;
+    pValue: number;
+    /** Holm-Bonferroni adjusted p-value across all pairs in the comparison set */
+    adjustedPValue: number;
+    significant: boolean;
+    sharedUnits: number;
+}
+
+export interface PairwiseSignificanceOptions {
+    /** Sign-flip permutations per pair (default 2000) */
+    iterations?: number;
+    /** Family-wise error rate (default 0.05) */
+    alpha?: number;
+    /** Pairs sharing fewer units than this are not tested (default 3) */
+    minSharedUnits?: number;
+}
+
+/**
+ * Two-sided paired permutation test on a vector of differences.
+ * Under the null the sign of each difference is exchangeable, so each
+ * permutation flips every sign with probability ½. The observed sample
+ * counts as one of the permutations, so the p-value is never 0. Sign flips
+ * are drawn from a PRNG seeded by `seed`, so the same data always gets the
+ * same p-value.
+ */
+export function pairedPermutationPValue(diffs: number[], iterations: number = 2000, seed: string = ''): number {
+    if (diffs.length === 0) return 1;
+    const random = seededRng(hashString(seed));
+    const observed = Math.abs(diffs.reduce((a, b) => a + b, 0) / diffs.length);
+    let exceedCount = 0;
+    for (let p = 0; p < iterations; p++) {
+        let permSum = 0;
+        for (const d of diffs) {
+            permSum += random() < 0.5 ? d : -d;
+        }
+        if (Math.abs(permSum / diffs.length) >= observed) exceedCount++;
+    }
+    return (exceedCount + 1) / (iterations + 1);
+}
+
+/**
+ * Holm-Bonferroni step-down adjustment. Returns adjusted p-values in the
+ * same order as the input, made monotone so a larger raw p-value never
+ * gets a smaller adjusted one.
+ */
+export function holmBonferroniAdjust(pValues: number[]): number[] {
+    const m = pValues.length;
+    const order = pValues.map((p, i) => ({ p, i })).sort((a, b) => a.p - b.p);
+    const adjusted = new Array<number>(m);
+    let runningMax = 0;
+    order.forEach(({ p, i }, rank) => {
+        runningMax = Math.max(runningMax, Math.min(1, p * (m - rank)));
+        adjusted[i] = runningMax;
+    });
+    return adjusted;
+}
+
+/**
+ * Pairwise paired-permutation tests between every pair of models, with
+ * Holm-Bonferroni correction across the pairs.
+ *
+ * @param scoresByModel - modelId → (unit key → score); units are whatever the
+ *   models are paired on (segment, segment::question, ...)
+ */
+export function computePairwiseSignificance(
+    scoresByModel: Map<string, Map<string, number>>,
+    options: PairwiseSignificanceOptions = {},
+): PairwiseComparison[] {
+    const { iterations = 2000, alpha = 0.05, minSharedUnits = 3 } = options;
+    const modelIds = Array.from(scoresByModel.keys()).sort();
+    const comparisons: PairwiseComparison[] = [];
+
+    for (let i = 0; i < modelIds.length; i++) {
+        for (let j = i + 1; j < modelIds.length; j++) {
+            const scoresA = scoresByModel.get(modelIds[i])!;
+            const scoresB = scoresByModel.get(modelIds[j])!;
+            const diffs: number[] = [];
+            for (const [key, a] of scoresA) {
+                const b = scoresB.get(key);
+                if (b !== undefined) diffs.push(a - b);
+            }
+            if (diffs.length < minSharedUnits) continue;
+
+            const pValue = pairedPermutationPValue(diffs, iterations, `${modelIds[i]}\u0000${modelIds[j]}`);
+            comparisons.push({
+                modelA: modelIds[i],
+                modelB: modelIds[j],
+                meanDiff: diffs.reduce((a, b) => a + b, 0) / diffs.length,
+                pValue,
+                adjustedPValue: pValue,
+                significant: false,
+                sharedUnits: diffs.length,
+            });
+        }
+    }
+
+    const adjusted = holmBonferroniAdjust(comparisons.map(c => c.pValue));
+    comparisons.forEach((c, i) => {
+        c.adjustedPValue = adjusted[i];
+        c.significant = adjusted[i] < alpha;
+    });
+    return comparisons;
+}
+
+/**
+ * Group a ranking into tiers of statistically tied models. Walking down the
+ * ranking, a model stays in the current tier unless it differs significantly
+ * from that tier's leader. Untested pairs (too few shared units) count as ties.
+ *
+ * @param rankedModelIds - models ordered best first
+ * @returns modelId → tier number, starting at 1
+ */
+export function assignSignificanceTiers(
+    rankedModelIds: string[],
+    comparisons: PairwiseComparison[],
+): Record<string, number> {
+    const significantPairs = new Set(
+        comparisons.filter(c => c.significant).map(c => [c.modelA, c.modelB].sort().join('\u0000')),
+    );
+    const tiers: Record<string, number> = {};
+    let tier = 0;
+    let leader: string | null = null;
+    for (const modelId of rankedModelIds) {
+        if (leader === null || significantPairs.has([leader, modelId].sort().join('\u0000'))) {
+            tier++;
+            leader = modelId;
+        }
+        tiers[modelId] = tier;
+    }
+    return tiers;
+}
+
+export interface PairwiseSignificanceMatrix {
+    /** Models ordered by mean score, best first */
+    modelIds: string[];
+    comparisons: PairwiseComparison[];
+    /** Bootstrap 95% CI on each model's mean over its units */
+    confidenceIntervals: Record<string, ConfidenceInterval>;
+    /** modelId → tier (1 = top group of statistically tied models) */
+    tiers: Record<string, number>;
+    alpha: number;
+    iterations: number;
+}
+
+/**
+ * Rank models by mean score, test every pair, attach bootstrap CIs and
+ * group the ranking into significance tiers.
+ */
+export function buildPairwiseSignificanceMatrix(
+    scoresByModel: Map<string, Map<string, number>>,
+    options: PairwiseSignificanceOptions = {},
+): PairwiseSignificanceMatrix {
+    const { iterations = 2000, alpha = 0.05 } = options;
+    const confidenceIntervals: Record<string, ConfidenceInterval> = {};
+    for (const [modelId, scores] of scoresByModel) {
+        confidenceIntervals[modelId] = bootstrapAggregateCI(Array.from(scores.values()));
+    }
+    const modelIds = Array.from(scoresByModel.keys())
+        .sort((a, b) => confidenceIntervals[b].mean - confidenceIntervals[a].mean);
+    const comparisons = computePairwiseSignificance(scoresByModel, { ...options, iterations, alpha });
+
+    return {
+        modelIds,
+        comparisons,
+        confidenceIntervals,
+        tiers: assignSignificanceTiers(modelIds, comparisons),
+        alpha,
+        iterations,
+    };
+}
@@ -44,7 +44,7 @@ import {
 } from '@/cli/constants';
 import { getConfig } from '@/cli/config';
 import pLimit from '@/lib/pLimit';
-import { ModelSummary } from '@/types/shared';
+import { ModelSummary, ModelResponseDetail } from '@/types/shared';
 import { TopicChampionInfo } from '@/app/components/home/types';
 import { RESERVED_CONFIG_ID_PREFIXES } from '@/lib/blueprint-parser';
 
@@ -2931,4 +2931,111 @@ export async function getJsonFile<T = any>(filePath: string): Promise<T | null>
       throw err;
     }
   }
-}
\ No newline at end of file
+}
+
+// ----------------------
+// DTEF findings (written by `dtef findings`, read by the Findings page)
+// ----------------------
+
+export const FINDINGS_KEY = 'live/aggregates/dtef_findings.json';
+export const FINDINGS_HISTORY_KEY = 'live/aggregates/dtef_findings_history.json';
+
+export function getFindingsSnapshotKey(version: number): string {
+  return `live/findings/dtef_findings_v${version}.json`;
+}
+
+// ----------------------
+// Run checkpoints (resumable partial runs)
+// ----------------------
+
+/**
+ * Responses completed so far for an in-flight run, written during generation
+ * so a crashed run can be resumed with `run-config --resume`. Each write is a
+ * chunk holding only the responses completed since the previous one, so the
+ * total uploaded stays proportional to the run; reads merge the chunks.
+ * Deleted once the final result has been saved.
+ */
+export interface RunCheckpoint {
+  configId: string;
+  runLabel: string;
+  updatedAt: string;
+  /** Successful responses keyed by promptId, then effective model ID (model + temperature/system variant) */
+  responses: Record<string, Record<string, ModelResponseDetail>>;
+  /**
+   * One past the highest stored chunk index; set on read. A failed chunk
+   * write leaves a gap in the indices, so this can exceed the chunk count.
+   */
+  nextChunkIndex?: number;
+}
+
+function getRunCheckpointPrefix(configId: string, runLabel: string): string {
+  return path.join(getConfigBasePath(configId), 'checkpoints', runLabel);
+}
+
+export function getRunCheckpointChunkKey(configId: string, runLabel: string, chunkIndex: number): string {
+  return path.join(getRunCheckpointPrefix(configId, runLabel), `chunk-${String(chunkIndex).padStart(6, '0')}.json`);
+}
+
+async function listRunCheckpointChunkKeys(configId: string, runLabel: string): Promise<string[]> {
+  const prefix = getRunCheckpointPrefix(configId, runLabel);
+  const keys: string[] = [];
+  if (getStorageProvider() === 's3') {
+    let continuationToken: string | undefined = undefined;
+    do {
+      const response: ListObjectsV2CommandOutput = await getS3Client().send(new ListObjectsV2Command({
+        Bucket: getBucketName(),
+        Prefix: `${prefix}/`,
+        ContinuationToken: continuationToken,
+      }));
+      response.Contents?.forEach(item => {
+        if (item.Key?.endsWith('.json')) keys.push(item.Key);
+      });
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken);
+  } else {
+    try {
+      const files = await fs.readdir(path.join(RESULTS_DIR, prefix));
+      keys.push(...files.filter(f => f.endsWith('.json')).map(f => path.join(prefix, f)));
+    } catch (err: any) {
+      if (err?.code !== 'ENOENT') throw err;
+    }
+  }
+  return keys.sort();
+}
+
+export async function getRunCheckpoint(configId: string, runLabel: string): Promise<RunCheckpoint | null> {
+  const keys = await listRunCheckpointChunkKeys(configId, runLabel);
+  if (keys.length === 0) return null;
+
+  const merged: RunCheckpoint = { configId, runLabel, updatedAt: '', responses: {}, nextChunkIndex: 0 };
+  for (const key of keys) {
+    const index = parseInt(key.match(/chunk-(\d+)\.json$/)?.[1] ?? '-1', 10);
+    merged.nextChunkIndex = Math.max(merged.nextChunkIndex!, index + 1);
+    const chunk = await getJsonFile<RunCheckpoint>(key);
+    if (!chunk) continue;
+    for (const [promptId, byModel] of Object.entries(chunk.responses)) {
+      Object.assign(merged.responses[promptId] ??= {}, byModel);
+    }
+    if (chunk.updatedAt > merged.updatedAt) merged.updatedAt = chunk.updatedAt;
+  }
+  return merged;
+}
+
+export async function saveRunCheckpointChunk(chunk: RunCheckpoint, chunkIndex: number): Promise<void> {
+  await saveJsonFile(getRunCheckpointChunkKey(chunk.configId, chunk.runLabel, chunkIndex), chunk);
+}
+
+export async function deleteRunCheckpoint(configId: string, runLabel: string): Promise<void> {
+  if (getStorageProvider() === 's3') {
+    const keys = await listRunCheckpointChunkKeys(configId, runLabel);
+    // DeleteObjects takes at most 1000 keys per request
+    for (let start = 0; start < keys.length; start += 1000) {
+      await getS3Client().send(new DeleteObjectsCommand({
+        Bucket: getBucketName(),
+        Delete: { Objects: keys.slice(start, start + 1000).map(Key => ({ Key })) },
+      }));
+    }
+  } else {
+    await fs.rm(path.join(RESULTS_DIR, getRunCheckpointPrefix(configId, runLabel)), { recursive: true, force: true });
+  }
+}
@@ -1,4 +1,14 @@
-import { parseDistribution, parseIndividualAnswers, jsDivergenceSimilarity, distribution_metric } from '../distribution_metric';
+import {
+    parseDistribution,
+    parseIndividualAnswers,
+    jsDivergenceSimilarity,
+    hellingerSimilarity,
+    totalVariationSimilarity,
+    klDivergenceSimilarity,
+    wassersteinSimilarity,
+    distribution_metric,
+    DISTRIBUTION_METRIC_NAMES,
+} from '../distribution_metric';
 
 describe('parseDistribution', () => {
     it('parses bracket format', () => {
@@ -120,3 +130,89 @@ describe('jsDivergenceSimilarity', () => {
         expect(score).toBeLessThan(1.0);
     });
 });
+
+describe('hellingerSimilarity', () => {
+    it('returns 1.0 for identical distributions', () => {
+        expect(hellingerSimilarity([34, 56, 10], [34, 56, 10])).toBeCloseTo(1.0, 5);
+    });
+
+    it('returns 0 for disjoint distributions', () => {
+        expect(hellingerSimilarity([100, 0], [0, 100])).toBeCloseTo(0, 5);
+    });
+});
+
+describe('totalVariationSimilarity', () => {
+    it('is one minus half the L1 distance', () => {
+        // |0.6-0.4| + |0.4-0.6| = 0.4 → TVD 0.2
+        expect(totalVariationSimilarity([60, 40], [40, 60])).toBeCloseTo(0.8, 5);
+    });
+});
+
+describe('klDivergenceSimilarity', () => {
+    it('returns 1.0 for identical distributions', () => {
+        expect(klDivergenceSimilarity([50, 50], [50, 50])).toBeCloseTo(1.0, 5);
+    });
+
+    it('stays finite when the prediction misses an option', () => {
+        const score = klDivergenceSimilarity([100, 0], [50, 50]);
+        expect(score).toBeGreaterThan(0);
+        expect(score).toBeLessThan(0.5);
+    });
+
+    it('penalises more with less smoothing', () => {
+        expect(klDivergenceSimilarity([100, 0], [50, 50], 0.001))
+            .toBeLessThan(klDivergenceSimilarity([100, 0], [50, 50], 0.1));
+    });
+});
+
+describe('wassersteinSimilarity', () => {
+    it('penalises distant ordinal shifts more than adjacent ones', () => {
+        const positions = [1, 2, 3, 4, 5];
+        const adjacent = wassersteinSimilarity([0, 100, 0, 0, 0], [100, 0, 0, 0, 0], positions);
+        const distant = wassersteinSimilarity([0, 0, 0, 0, 100], [100, 0, 0, 0, 0], positions);
+        expect(adjacent).toBeCloseTo(0.75, 5);
+        expect(distant).toBeCloseTo(0, 5);
+    });
+
+    it('respects uneven spacing and option order', () => {
+        // Options listed out of scale order; mass moves from position 0 to 1 on a 0..10 scale
+        const score = wassersteinSimilarity([0, 0, 100], [100, 0, 0], [0, 10, 1]);
+        expect(score).toBeCloseTo(0.9, 5);
+    });
+
+    it('falls back to total variation for nominal options', () => {
+        expect(wassersteinSimilarity([0, 0, 100], [100, 0, 0])).toBeCloseTo(
+            totalVariationSimilarity([0, 0, 100], [100, 0, 0]),
+            5,
+        );
+    });
+});
+
+describe('distribution_metric with alternative metrics', () => {
+    const run = (args: Record<string, unknown>) =>
+        distribution_metric('[40, 60]', { expected: [60, 40], ...args }, {} as any) as {
+            score: number;
+            explain: string;
+            metrics: Record<string, number>;
+        };
+
+    it('records every metric regardless of the selected one', () => {
+        const result = run({ metric: 'js-divergence' });
+        expect(Object.keys(result.metrics).sort()).toEqual([...DISTRIBUTION_METRIC_NAMES].sort());
+        expect(result.score).toBe(result.metrics['js-divergence']);
+    });
+
+    it('scores with the selected metric', () => {
+        const result = run({ metric: 'total-variation' });
+        expect(result.score).toBeCloseTo(0.8, 5);
+        expect(result.explain).toContain('Total Variation Similarity');
+    });
+
+    it('passes ordinal positions to the Wasserstein metric', () => {
+        const args = { expected: [100, 0, 0], metric: 'wasserstein' };
+        const nominal = distribution_metric('[0, 100, 0]', args, {} as any) as { score: number };
+        const ordinal = distribution_metric('[0, 100, 0]', { ...args, ordinalPositions: [1, 2, 3] }, {} as any) as { score: number };
+        expect(nominal.score).toBeCloseTo(0, 5);
+        expect(ordinal.score).toBeCloseTo(0.5, 5);
+    });
+});
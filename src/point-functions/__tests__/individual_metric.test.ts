@@ -0,0 +1,56 @@
+import { individual_metric, computeForecastMetrics } from '../individual_metric';
+import { PointFunctionContext } from '../types';
+import { ComparisonConfig, PromptConfig as CliPromptConfig } from '@/cli/types/cli_types';
+
+const mockContext: PointFunctionContext = {
+    config: {} as ComparisonConfig,
+    prompt: {} as CliPromptConfig,
+    modelId: 'test-model',
+};
+
+type ScoredResult = { score: number; explain: string; metrics?: Record<string, number> };
+
+describe('computeForecastMetrics', () => {
+    it('scores a confident correct forecast near perfect', () => {
+        const m = computeForecastMetrics([0.9, 0.1], [100, 0]);
+        expect(m['brier-score']).toBeCloseTo(0.02);
+        expect(m['log-loss']).toBeCloseTo(-Math.log(0.9));
+        expect(m['forecast-confidence']).toBeCloseTo(0.9);
+        expect(m['forecast-outcome']).toBe(1);
+    });
+
+    it('records a miss when the top option was not the answer', () => {
+        const m = computeForecastMetrics([70, 20, 10], [0, 100, 0]);
+        expect(m['forecast-confidence']).toBeCloseTo(0.7);
+        expect(m['forecast-outcome']).toBe(0);
+        expect(m['log-loss']).toBeCloseTo(-Math.log(0.2));
+    });
+
+    it('caps log loss when the answer was given zero probability', () => {
+        const m = computeForecastMetrics([1, 0], [0, 100]);
+        expect(m['log-loss']).toBeCloseTo(-Math.log(1e-6));
+        expect(m['brier-score']).toBeCloseTo(2);
+    });
+});
+
+describe('individual_metric', () => {
+    const expected = [0, 100, 0];
+
+    it('records calibration metrics alongside the Brier skill score', () => {
+        const result = individual_metric('ANSWER: b\nPROBABILITIES: [0.2, 0.7, 0.1]', { expected }, mockContext) as ScoredResult;
+        expect(result.score).toBeCloseTo(1 - (0.04 + 0.09 + 0.01));
+        expect(result.metrics!['forecast-outcome']).toBe(1);
+    });
+
+    it('records calibration metrics in binary mode when probabilities are given', () => {
+        const result = individual_metric('ANSWER: a\nPROBABILITIES: [0.6, 0.3, 0.1]', { expected, mode: 'binary' }, mockContext) as ScoredResult;
+        expect(result.score).toBe(0);
+        expect(result.metrics!['forecast-confidence']).toBeCloseTo(0.6);
+    });
+
+    it('omits metrics when no probabilities are given', () => {
+        const result = individual_metric('ANSWER: b', { expected, mode: 'binary' }, mockContext) as ScoredResult;
+        expect(result.score).toBe(1);
+        expect(result.metrics).toBeUndefined();
+    });
+});
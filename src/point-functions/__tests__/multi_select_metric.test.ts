@@ -0,0 +1,49 @@
+import { multi_select_metric, multiSelectSimilarity } from '../multi_select_metric';
+import { PointFunctionContext } from '../types';
+import { ComparisonConfig, PromptConfig as CliPromptConfig } from '@/cli/types/cli_types';
+
+const mockContext: PointFunctionContext = {
+    config: {} as ComparisonConfig,
+    prompt: {} as CliPromptConfig,
+    modelId: 'test-model',
+};
+
+type ScoredResult = { score: number; explain: string };
+
+describe('multiSelectSimilarity', () => {
+    it('returns 1.0 for identical shares', () => {
+        expect(multiSelectSimilarity([62, 35, 48], [62, 35, 48])).toBeCloseTo(1.0, 5);
+    });
+
+    it('does not normalize shares to a distribution', () => {
+        // Same proportions, different levels: a distribution metric would call these identical
+        expect(multiSelectSimilarity([20, 10], [80, 40])).toBeLessThan(0.7);
+    });
+
+    it('clamps out-of-range predictions', () => {
+        expect(multiSelectSimilarity([150, -10], [100, 0])).toBeCloseTo(1.0, 5);
+    });
+});
+
+describe('multi_select_metric PointFunction', () => {
+    it('scores shares that do not sum to 100', () => {
+        const result = multi_select_metric('[60.0, 40.0, 50.0]', { expected: [60, 40, 50] }, mockContext) as ScoredResult;
+        expect(result.score).toBeCloseTo(1.0, 5);
+        expect(result.explain).toContain('mean abs. error 0.0pp');
+    });
+
+    it('extracts shares by question key in batched responses', () => {
+        const response = '{"Q1": [10, 90], "Q2": [70.5, 20.0, 45.0]}';
+        const result = multi_select_metric(response, { expected: [70.5, 20, 45], questionKey: 'Q2' }, mockContext) as ScoredResult;
+        expect(result.score).toBeCloseTo(1.0, 5);
+    });
+
+    it('gives partial credit on length mismatch', () => {
+        const result = multi_select_metric('[60, 40]', { expected: [60, 40, 50] }, mockContext) as ScoredResult;
+        expect(result.score).toBe(0.1);
+    });
+
+    it('returns an error for missing expected shares', () => {
+        expect(multi_select_metric('[1, 2]', {}, mockContext)).toHaveProperty('error');
+    });
+});
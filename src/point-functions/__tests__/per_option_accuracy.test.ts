@@ -0,0 +1,52 @@
+import { per_option_accuracy, computeOptionAccuracy } from '../per_option_accuracy';
+import { PointFunctionContext } from '../types';
+import { ComparisonConfig, PromptConfig as CliPromptConfig } from '@/cli/types/cli_types';
+
+const mockContext: PointFunctionContext = {
+    config: {} as ComparisonConfig,
+    prompt: {} as CliPromptConfig,
+    modelId: 'test-model',
+};
+
+type ScoredResult = { score: number; explain: string };
+
+describe('computeOptionAccuracy', () => {
+    it('uses the larger of 5pp and 30% of the expected share as tolerance', () => {
+        expect(computeOptionAccuracy([10, 90], [10, 90], 0).tolerance).toBe(5);
+        expect(computeOptionAccuracy([10, 90], [10, 90], 1).tolerance).toBeCloseTo(27, 5);
+    });
+
+    it('degrades linearly with error and bottoms out at zero', () => {
+        const half = computeOptionAccuracy([47.5, 52.5], [40, 60], 1);
+        expect(half.error).toBeCloseTo(7.5, 5);
+        expect(half.score).toBeCloseTo(1 - 7.5 / 18, 5);
+
+        expect(computeOptionAccuracy([0, 100], [40, 60], 0).score).toBe(0);
+    });
+
+    it('honours an explicit tolerance', () => {
+        const result = computeOptionAccuracy([45, 55], [40, 60], 0, 10);
+        expect(result.tolerance).toBe(10);
+        expect(result.score).toBeCloseTo(0.5, 5);
+    });
+});
+
+describe('per_option_accuracy PointFunction', () => {
+    const args = { expected: [40, 60], options: ['Yes', 'No'], optionIndex: 1 };
+
+    it('scores the requested option', () => {
+        const result = per_option_accuracy('[40, 60]', args, mockContext) as ScoredResult;
+        expect(result.score).toBe(1);
+        expect(result.explain).toContain('Option "No"');
+    });
+
+    it('scores zero when the lengths differ', () => {
+        const result = per_option_accuracy('[40, 30, 30]', args, mockContext) as ScoredResult;
+        expect(result.score).toBe(0);
+        expect(result.explain).toContain('length mismatch');
+    });
+
+    it('rejects an out-of-range option index', () => {
+        expect(per_option_accuracy('[40, 60]', { ...args, optionIndex: 2 }, mockContext)).toHaveProperty('error');
+    });
+});
@@ -0,0 +1,67 @@
+import { rank_metric, parseRankMatrix, rankDistributionSimilarity } from '../rank_metric';
+import { PointFunctionContext } from '../types';
+import { ComparisonConfig, PromptConfig as CliPromptConfig } from '@/cli/types/cli_types';
+
+const mockContext: PointFunctionContext = {
+    config: {} as ComparisonConfig,
+    prompt: {} as CliPromptConfig,
+    modelId: 'test-model',
+};
+
+type ScoredResult = { score: number; explain: string };
+
+const EXPECTED = [[50, 30, 20], [40, 40, 20], [10, 30, 60]];
+
+describe('parseRankMatrix', () => {
+    it('parses a nested array', () => {
+        expect(parseRankMatrix('Here you go: [[50, 30, 20], [40, 40, 20], [10, 30, 60]]')).toEqual(EXPECTED);
+    });
+
+    it('prefers the CoT DISTRIBUTION marker', () => {
+        const text = 'Maybe [[1, 2], [3, 4]]?\nDISTRIBUTION: [[50, 50], [50, 50]]';
+        expect(parseRankMatrix(text)).toEqual([[50, 50], [50, 50]]);
+    });
+
+    it('extracts a matrix by question key', () => {
+        const text = '```json\n{"Q1": [20, 80], "Q2": [[60, 40], [40, 60]]}\n```';
+        expect(parseRankMatrix(text, 'Q2')).toEqual([[60, 40], [40, 60]]);
+    });
+
+    it('returns null for a flat array', () => {
+        expect(parseRankMatrix('[50, 30, 20]')).toBeNull();
+    });
+});
+
+describe('rankDistributionSimilarity', () => {
+    it('returns 1.0 for identical matrices', () => {
+        expect(rankDistributionSimilarity(EXPECTED, EXPECTED)).toBeCloseTo(1.0, 5);
+    });
+
+    it('accounts for the unranked share in top-K rankings', () => {
+        // Option ranked by 40% vs 80% of respondents, same positional split
+        expect(rankDistributionSimilarity([[20, 20]], [[40, 40]])).toBeLessThan(0.9);
+    });
+});
+
+describe('rank_metric PointFunction', () => {
+    it('scores a matching rank matrix', () => {
+        const result = rank_metric('[[50, 30, 20], [40, 40, 20], [10, 30, 60]]', { expected: EXPECTED }, mockContext) as ScoredResult;
+        expect(result.score).toBeCloseTo(1.0, 5);
+        expect(result.explain).toContain('Mean ranks expected: [1.70, 1.80, 2.50]');
+    });
+
+    it('scores a reversed ranking lower', () => {
+        const reversed = rank_metric('[[10, 30, 60], [40, 40, 20], [50, 30, 20]]', { expected: EXPECTED }, mockContext) as ScoredResult;
+        expect(reversed.score).toBeLessThan(0.8);
+    });
+
+    it('gives partial credit on shape mismatch', () => {
+        const result = rank_metric('[[50, 50], [50, 50], [50, 50]]', { expected: EXPECTED }, mockContext) as ScoredResult;
+        expect(result.score).toBe(0.1);
+    });
+
+    it('scores 0 when no matrix can be parsed', () => {
+        const result = rank_metric('I cannot rank these.', { expected: EXPECTED }, mockContext) as ScoredResult;
+        expect(result.score).toBe(0);
+    });
+});
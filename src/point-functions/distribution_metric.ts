@@ -9,20 +9,64 @@
  *   fn: distribution_metric
  *   fnArgs:
  *     expected: [45.2, 30.1, 15.5, 9.2]
- *     metric: js-divergence  # or cosine, earth-mover
+ *     metric: js-divergence  # or cosine, earth-mover, hellinger, total-variation,
+ *                            # kl-divergence, wasserstein
+ *     ordinalPositions: [1, 2, 3, 4]  # optional; marks the options as an ordinal scale
+ *
+ * The selected metric determines the score, but every metric is computed and
+ * returned in `metrics` so results can be re-ranked without re-running models.
  */
 
 import { PointFunction, PointFunctionReturn } from './types';
 
+export type DistributionMetricName =
+    | 'js-divergence'
+    | 'cosine'
+    | 'earth-mover'
+    | 'hellinger'
+    | 'total-variation'
+    | 'kl-divergence'
+    | 'wasserstein';
+
+export const DISTRIBUTION_METRIC_NAMES: DistributionMetricName[] = [
+    'js-divergence',
+    'cosine',
+    'earth-mover',
+    'hellinger',
+    'total-variation',
+    'kl-divergence',
+    'wasserstein',
+];
+
+const METRIC_LABELS: Record<DistributionMetricName, string> = {
+    'js-divergence': 'Jensen-Shannon Distance',
+    'cosine': 'Cosine Similarity',
+    'earth-mover': 'Earth Mover Similarity',
+    'hellinger': 'Hellinger Similarity',
+    'total-variation': 'Total Variation Similarity',
+    'kl-divergence': 'Smoothed KL Similarity',
+    'wasserstein': 'Wasserstein Similarity',
+};
+
 interface DistributionMetricArgs {
     /** Expected distribution percentages (must sum to ~100) */
     expected: number[];
     /** Comparison metric to use */
-    metric?: 'js-divergence' | 'cosine' | 'earth-mover';
+    metric?: DistributionMetricName;
     /** For batched prompts: key to extract from JSON response (e.g., "Q1", "Q2") */
     questionKey?: string;
+    /**
+     * Position of each option on an ordinal scale (e.g. [1, 2, 3, 4, 5] for a
+     * Likert item). Only used by the Wasserstein metric; when absent the
+     * options are treated as nominal.
+     */
+    ordinalPositions?: number[];
+    /** Additive smoothing applied to both distributions before KL (default: 0.01) */
+    smoothing?: number;
 }
 
+const DEFAULT_KL_SMOOTHING = 0.01;
+
 /**
  * Parse an array of individual answer letters from LLM response text.
  * Handles synthetic-individual eval type responses like:
@@ -245,6 +289,109 @@ function earthMoverSimilarity(p: number[], q: number[]): number {
     return Math.max(0, 1 - totalWork);
 }
 
+/**
+ * Hellinger similarity: 1 - H(P, Q), where
+ * H = sqrt(1 - Σ sqrt(p_i · q_i)) is bounded [0, 1].
+ */
+export function hellingerSimilarity(p: number[], q: number[]): number {
+    const pNorm = normalize(p);
+    const qNorm = normalize(q);
+
+    let bhattacharyya = 0;
+    for (let i = 0; i < pNorm.length; i++) {
+        bhattacharyya += Math.sqrt(pNorm[i] * qNorm[i]);
+    }
+
+    return Math.max(0, 1 - Math.sqrt(Math.max(0, 1 - bhattacharyya)));
+}
+
+/**
+ * Total variation similarity: 1 - ½ Σ |p_i - q_i|.
+ * Equals one minus the largest share of respondents that would have to
+ * change their answer to turn one distribution into the other.
+ */
+export function totalVariationSimilarity(p: number[], q: number[]): number {
+    const pNorm = normalize(p);
+    const qNorm = normalize(q);
+
+    let distance = 0;
+    for (let i = 0; i < pNorm.length; i++) {
+        distance += Math.abs(pNorm[i] - qNorm[i]);
+    }
+
+    return Math.max(0, 1 - distance / 2);
+}
+
+/**
+ * Smoothed KL similarity: exp(-KL(expected || predicted)).
+ * Additive smoothing keeps the divergence finite when the prediction puts
+ * zero mass on an option that real respondents chose. KL is taken with the
+ * expected distribution as reference, so it penalises missed options more
+ * heavily than the symmetric metrics do.
+ */
+export function klDivergenceSimilarity(
+    predicted: number[],
+    expected: number[],
+    smoothing: number = DEFAULT_KL_SMOOTHING,
+): number {
+    const pNorm = normalize(normalize(expected).map(v => v + smoothing));
+    const qNorm = normalize(normalize(predicted).map(v => v + smoothing));
+
+    let kl = 0;
+    for (let i = 0; i < pNorm.length; i++) {
+        if (pNorm[i] > 0) kl += pNorm[i] * Math.log(pNorm[i] / qNorm[i]);
+    }
+
+    return Math.exp(-Math.max(0, kl));
+}
+
+/**
+ * 1D Wasserstein (W1) similarity on an ordinal scale.
+ * Options are placed at `positions` and the distance is the area between the
+ * two CDFs, divided by the span of the scale so the result lies in [0, 1].
+ * Without positions the options are nominal; W1 under the discrete metric
+ * reduces to total variation distance.
+ */
+export function wassersteinSimilarity(p: number[], q: number[], positions?: number[]): number {
+    if (!positions || positions.length !== p.length) {
+        return totalVariationSimilarity(p, q);
+    }
+
+    const pNorm = normalize(p);
+    const qNorm = normalize(q);
+    const order = positions.map((_, i) => i).sort((a, b) => positions[a] - positions[b]);
+    const span = positions[order[order.length - 1]] - positions[order[0]];
+    if (span <= 0) return totalVariationSimilarity(p, q);
+
+    let distance = 0;
+    let cumDiff = 0;
+    for (let k = 0; k < order.length - 1; k++) {
+        cumDiff += pNorm[order[k]] - qNorm[order[k]];
+        distance += Math.abs(cumDiff) * (positions[order[k + 1]] - positions[order[k]]);
+    }
+
+    return Math.max(0, 1 - distance / span);
+}
+
+/**
+ * Compute every supported metric for a predicted/expected pair.
+ */
+export function computeAllMetrics(
+    predicted: number[],
+    expected: number[],
+    options: { ordinalPositions?: number[]; smoothing?: number } = {},
+): Record<DistributionMetricName, number> {
+    return {
+        'js-divergence': jsDivergenceSimilarity(predicted, expected),
+        'cosine': cosineSimilarity(predicted, expected),
+        'earth-mover': earthMoverSimilarity(predicted, expected),
+        'hellinger': hellingerSimilarity(predicted, expected),
+        'total-variation': totalVariationSimilarity(predicted, expected),
+        'kl-divergence': klDivergenceSimilarity(predicted, expected, options.smoothing),
+        'wasserstein': wassersteinSimilarity(predicted, expected, options.ordinalPositions),
+    };
+}
+
 export const distribution_metric: PointFunction = (
     llmResponseText: string,
     args: any,
@@ -304,25 +451,14 @@ export const distribution_metric: PointFunction = (
         };
     }
 
-    // Compute similarity score
-    let score: number;
-    let metricName: string;
-
-    switch (metric) {
-        case 'cosine':
-            score = cosineSimilarity(predicted, expected);
-            metricName = 'Cosine Similarity';
-            break;
-        case 'earth-mover':
-            score = earthMoverSimilarity(predicted, expected);
-            metricName = 'Earth Mover Similarity';
-            break;
-        case 'js-divergence':
-        default:
-            score = jsDivergenceSimilarity(predicted, expected);
-            metricName = 'Jensen-Shannon Distance';
-            break;
-    }
+    // Compute every metric; the requested one becomes the score
+    const metrics = computeAllMetrics(predicted, expected, {
+        ordinalPositions: typedArgs.ordinalPositions,
+        smoothing: typedArgs.smoothing,
+    });
+    const metricKey: DistributionMetricName = metric in metrics ? metric : 'js-divergence';
+    const score = metrics[metricKey];
+    const metricName = METRIC_LABELS[metricKey];
 
     const expectedStr = expected.map(n => n.toFixed(1)).join(', ');
     const predictedStr = predicted.map(n => n.toFixed(1)).join(', ');
@@ -331,5 +467,6 @@ export const distribution_metric: PointFunction = (
     return {
         score,
         explain: `${metricName}: ${score.toFixed(3)}. Expected: [${expectedStr}], Predicted: [${predictedStr}]${aggregationNote}`,
+        metrics,
     };
 };
@@ -33,10 +33,12 @@ import { icontains_word } from './icontains_word';
 import { not_contains_word } from './not_contains_word';
 import { not_icontains_word } from './not_icontains_word';
 
-// Import DTEF distribution metric, individual metric, and per-option accuracy
+// Import DTEF distribution metric, individual metric, per-option accuracy, and multi-select/ranking metrics
 import { distribution_metric } from './distribution_metric';
 import { individual_metric } from './individual_metric';
 import { per_option_accuracy } from './per_option_accuracy';
+import { multi_select_metric } from './multi_select_metric';
+import { rank_metric } from './rank_metric';
 
 // Import negative variants
 import { not_contains } from './not_contains';
@@ -128,13 +130,15 @@ export const pointFunctions: Record<string, PointFunction> = {
     not_iends_with,
     not_iend_with: not_iends_with,
 
-    // DTEF distribution metric, individual metric, and per-option accuracy
+    // DTEF distribution metric, individual metric, per-option accuracy, and multi-select/ranking metrics
     distribution_metric,
     dist_metric: distribution_metric,
     individual_metric,
     indiv_metric: individual_metric,
     per_option_accuracy,
     option_accuracy: per_option_accuracy,
+    multi_select_metric,
+    rank_metric,
 
     // Negative Unicode-aware word boundary functions
     not_contains_word,
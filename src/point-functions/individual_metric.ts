@@ -8,6 +8,9 @@
  * - confidence: probability assigned to the correct (mode) answer
  *
  * Parses ANSWER: and PROBABILITIES: CoT markers from model responses.
+ * Whenever probabilities parse, the per-forecast calibration quantities are
+ * also recorded so aggregation can report Brier score, log loss and
+ * expected calibration error per model.
  */
 
 import { PointFunction, PointFunctionReturn } from './types';
@@ -20,6 +23,41 @@ interface IndividualMetricArgs {
     mode?: 'binary' | 'brier' | 'confidence';
 }
 
+/** Calibration quantities recorded on each individual_metric assessment */
+export const CALIBRATION_METRIC_NAMES = ['brier-score', 'log-loss', 'forecast-confidence', 'forecast-outcome'] as const;
+export type CalibrationMetricName = typeof CALIBRATION_METRIC_NAMES[number];
+
+/** Probability floor for log loss, so a confident miss costs ln(1e6) rather than infinity */
+const LOG_LOSS_EPSILON = 1e-6;
+
+/**
+ * Calibration quantities for one probabilistic forecast against the expected
+ * distribution (one-hot for a participant's actual answer):
+ * - brier-score: Σ(p_i - y_i)², 0 (perfect) to 2
+ * - log-loss: -Σ y_i · ln(p_i)
+ * - forecast-confidence: probability given to the top option
+ * - forecast-outcome: expected share of that option (1 or 0 for a one-hot answer)
+ */
+export function computeForecastMetrics(probabilities: number[], expected: number[]): Record<CalibrationMetricName, number> {
+    const p = normalize(probabilities);
+    const y = normalize(expected);
+
+    let brier = 0;
+    let logLoss = 0;
+    for (let i = 0; i < y.length; i++) {
+        brier += Math.pow(p[i] - y[i], 2);
+        if (y[i] > 0) logLoss -= y[i] * Math.log(Math.max(p[i], LOG_LOSS_EPSILON));
+    }
+
+    const topIdx = p.indexOf(Math.max(...p));
+    return {
+        'brier-score': brier,
+        'log-loss': logLoss,
+        'forecast-confidence': p[topIdx],
+        'forecast-outcome': y[topIdx],
+    };
+}
+
 /**
  * Parse an answer letter from response text.
  * Handles "ANSWER: a" CoT marker and standalone letter responses.
@@ -79,6 +117,9 @@ export const individual_metric: PointFunction = (
 
     const answer = parseAnswer(llmResponseText);
     const probabilities = parseProbabilities(llmResponseText);
+    const metrics = probabilities && probabilities.length === expected.length
+        ? computeForecastMetrics(probabilities, expected)
+        : undefined;
 
     switch (mode) {
         case 'binary': {
@@ -90,6 +131,7 @@ export const individual_metric: PointFunction = (
             return {
                 score: correct ? 1.0 : 0.0,
                 explain: `Binary: predicted "${answer}" (index ${answerIdx}), mode is index ${modeIdx}. ${correct ? 'Correct' : 'Incorrect'}.`,
+                ...(metrics ? { metrics } : {}),
             };
         }
 
@@ -109,6 +151,7 @@ export const individual_metric: PointFunction = (
             return {
                 score: brierScore,
                 explain: `Brier skill score: ${brierScore.toFixed(3)}. Predicted: [${normalizedProbs.map(n => n.toFixed(3)).join(', ')}], Expected: [${normalizedExpected.map(n => n.toFixed(3)).join(', ')}]`,
+                metrics,
             };
         }
 
@@ -124,6 +167,7 @@ export const individual_metric: PointFunction = (
             return {
                 score: confidence,
                 explain: `Confidence in mode answer (index ${modeIdx}): ${confidence.toFixed(3)}`,
+                ...(metrics ? { metrics } : {}),
             };
         }
 
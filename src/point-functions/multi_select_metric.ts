@@ -0,0 +1,91 @@
+/**
+ * Multi-Select Metric Point Function
+ *
+ * Scores predictions for "select all that apply" questions, where each
+ * option's share is the independent percentage of respondents who selected
+ * it. Shares do not sum to 100, so they are compared option by option
+ * rather than as a single distribution.
+ *
+ * Usage in blueprints:
+ *   fn: multi_select_metric
+ *   fnArgs:
+ *     expected: [62.0, 35.5, 48.1, 12.3]
+ */
+
+import { PointFunction, PointFunctionReturn } from './types';
+import { parseDistribution, parseDistributionByKey, jsDivergenceSimilarity } from './distribution_metric';
+
+interface MultiSelectMetricArgs {
+    /** Expected share (0-100) of respondents selecting each option */
+    expected: number[];
+    /** For batched prompts: key to extract from JSON response (e.g., "Q1", "Q2") */
+    questionKey?: string;
+}
+
+/**
+ * Per-option similarity for independent selection shares.
+ * Each option is treated as a yes/no split (p, 100 - p) and compared with
+ * the Jensen-Shannon Distance similarity used for single-select questions;
+ * the score is the mean across options, bounded [0, 1].
+ */
+export function multiSelectSimilarity(predicted: number[], expected: number[]): number {
+    if (expected.length === 0) return 0;
+
+    let total = 0;
+    for (let i = 0; i < expected.length; i++) {
+        const p = Math.min(100, Math.max(0, predicted[i] ?? 0));
+        const q = Math.min(100, Math.max(0, expected[i]));
+        total += jsDivergenceSimilarity([p, 100 - p], [q, 100 - q]);
+    }
+
+    return total / expected.length;
+}
+
+export const multi_select_metric: PointFunction = (
+    llmResponseText: string,
+    args: any,
+): PointFunctionReturn => {
+    if (!args || typeof args !== 'object') {
+        return { error: "Invalid arguments for 'multi_select_metric'. Expected an object with 'expected' array." };
+    }
+
+    const typedArgs = args as MultiSelectMetricArgs;
+
+    if (!Array.isArray(typedArgs.expected) || typedArgs.expected.length === 0) {
+        return { error: "Invalid 'expected' shares. Must be a non-empty array of numbers." };
+    }
+
+    const { expected, questionKey } = typedArgs;
+
+    let predicted: number[] | null = null;
+    if (questionKey) {
+        predicted = parseDistributionByKey(llmResponseText, questionKey) ?? parseDistribution(llmResponseText);
+    } else {
+        predicted = parseDistribution(llmResponseText);
+    }
+
+    if (!predicted) {
+        return {
+            score: 0,
+            explain: `Could not parse selection shares from the response${questionKey ? ` for key "${questionKey}"` : ''}. Expected format: ${questionKey ? `{"${questionKey}": [n1, n2, ...]}` : '[n1, n2, n3, ...]'}`,
+        };
+    }
+
+    if (predicted.length !== expected.length) {
+        return {
+            score: 0.1,
+            explain: `Selection share length mismatch: expected ${expected.length} values, got ${predicted.length}`,
+        };
+    }
+
+    const score = multiSelectSimilarity(predicted, expected);
+    const meanAbsError = expected.reduce((sum, e, i) => sum + Math.abs(predicted![i] - e), 0) / expected.length;
+
+    const expectedStr = expected.map(n => n.toFixed(1)).join(', ');
+    const predictedStr = predicted.map(n => n.toFixed(1)).join(', ');
+
+    return {
+        score,
+        explain: `Multi-select similarity: ${score.toFixed(3)} (mean abs. error ${meanAbsError.toFixed(1)}pp). Expected: [${expectedStr}], Predicted: [${predictedStr}]`,
+    };
+};
@@ -27,6 +27,38 @@ interface PerOptionAccuracyArgs {
     tolerance?: number;
 }
 
+export interface OptionAccuracy {
+    predictedValue: number;
+    expectedValue: number;
+    /** Absolute error in percentage points */
+    error: number;
+    tolerance: number;
+    score: number;
+}
+
+/**
+ * Score one option of a parsed prediction. Shared with the analysis UI so the
+ * per-option errors it shows match what the point function records.
+ */
+export function computeOptionAccuracy(
+    predicted: number[],
+    expected: number[],
+    optionIndex: number,
+    tolerance?: number,
+): OptionAccuracy {
+    const predictedValue = predicted[optionIndex];
+    const expectedValue = expected[optionIndex];
+    const error = Math.abs(predictedValue - expectedValue);
+
+    // Tolerance: 30% relative or 5pp absolute, whichever is larger
+    const effectiveTolerance = tolerance ?? Math.max(5, expectedValue * 0.3);
+
+    // Linear degradation from 1.0 (perfect) to 0.0 (at or beyond tolerance)
+    const score = Math.max(0, 1 - error / effectiveTolerance);
+
+    return { predictedValue, expectedValue, error, tolerance: effectiveTolerance, score };
+}
+
 export const per_option_accuracy: PointFunction = (
     llmResponseText: string,
     args: any,
@@ -47,7 +79,6 @@ export const per_option_accuracy: PointFunction = (
 
     const { expected, options, optionIndex } = typedArgs;
     const optionLabel = options?.[optionIndex] || `Option ${optionIndex + 1}`;
-    const expectedValue = expected[optionIndex];
 
     // Parse the predicted distribution from the LLM response
     const predicted = parseDistribution(llmResponseText);
@@ -66,14 +97,9 @@ export const per_option_accuracy: PointFunction = (
         };
     }
 
-    const predictedValue = predicted[optionIndex];
-    const error = Math.abs(predictedValue - expectedValue);
-
-    // Tolerance: 30% relative or 5pp absolute, whichever is larger
-    const tolerance = typedArgs.tolerance ?? Math.max(5, expectedValue * 0.3);
-
-    // Linear degradation from 1.0 (perfect) to 0.0 (at or beyond tolerance)
-    const score = Math.max(0, 1 - error / tolerance);
+    const { predictedValue, expectedValue, error, tolerance, score } = computeOptionAccuracy(
+        predicted, expected, optionIndex, typedArgs.tolerance,
+    );
 
     return {
         score,
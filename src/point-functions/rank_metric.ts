@@ -0,0 +1,152 @@
+/**
+ * Rank Metric Point Function
+ *
+ * Scores predictions for ranking questions. The expected value is an
+ * option × rank matrix: row i gives the percentage of respondents placing
+ * option i at each rank position (1st, 2nd, …). Each option's rank
+ * distribution is compared with Jensen-Shannon Distance similarity and the
+ * score is the mean across options.
+ *
+ * Usage in blueprints:
+ *   fn: rank_metric
+ *   fnArgs:
+ *     expected: [[50, 30, 20], [40, 40, 20], [10, 30, 60]]
+ */
+
+import { PointFunction, PointFunctionReturn } from './types';
+import { jsDivergenceSimilarity } from './distribution_metric';
+
+interface RankMetricArgs {
+    /** Expected option × rank percentages */
+    expected: number[][];
+    /** For batched prompts: key to extract from JSON response (e.g., "Q1", "Q2") */
+    questionKey?: string;
+}
+
+function isNumberMatrix(value: unknown): value is number[][] {
+    return Array.isArray(value) && value.length > 0 && value.every(row =>
+        Array.isArray(row) && row.length > 0 && row.every(n => typeof n === 'number' && !isNaN(n)),
+    );
+}
+
+/**
+ * Parse an option × rank matrix from LLM response text.
+ * Handles formats like:
+ *   [[50, 30, 20], [40, 40, 20], [10, 30, 60]]
+ *   DISTRIBUTION: [[...], [...]]
+ *   {"Q1": [[...], [...]]}   (with key)
+ */
+export function parseRankMatrix(text: string, key?: string): number[][] | null {
+    const cleaned = text.replace(/```(?:json)?\s*/gi, '').replace(/```/g, '');
+
+    if (key) {
+        const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
+        if (jsonMatch) {
+            try {
+                const value = JSON.parse(jsonMatch[0])[key];
+                if (isNumberMatrix(value)) return value;
+            } catch {
+                // Fall through to the key pattern below
+            }
+        }
+        const keyPattern = new RegExp(`"${key}"\\s*:\\s*(\\[\\s*(?:\\[[^\\[\\]]*\\]\\s*,?\\s*)+\\])`);
+        const keyMatch = cleaned.match(keyPattern);
+        if (keyMatch) {
+            try {
+                const value = JSON.parse(keyMatch[1]);
+                if (isNumberMatrix(value)) return value;
+            } catch {
+                return null;
+            }
+        }
+        return null;
+    }
+
+    // Prefer the CoT DISTRIBUTION: marker, then the first nested array in the text
+    const marker = cleaned.match(/DISTRIBUTION:\s*(\[\s*(?:\[[^\[\]]*\]\s*,?\s*)+\])/i);
+    const nested = marker ?? cleaned.match(/(\[\s*(?:\[[^\[\]]*\]\s*,?\s*)+\])/);
+    if (!nested) return null;
+
+    try {
+        const value = JSON.parse(nested[1].replace(/%/g, ''));
+        return isNumberMatrix(value) ? value : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Append an "unranked" share when a row covers fewer than 100% of
+ * respondents (top-K rankings), so partial rows stay comparable.
+ */
+function withUnrankedShare(row: number[]): number[] {
+    const sum = row.reduce((a, b) => a + Math.max(0, b), 0);
+    return [...row.map(v => Math.max(0, v)), Math.max(0, 100 - sum)];
+}
+
+/**
+ * Mean per-option similarity between two option × rank matrices, bounded [0, 1].
+ */
+export function rankDistributionSimilarity(predicted: number[][], expected: number[][]): number {
+    if (expected.length === 0) return 0;
+
+    let total = 0;
+    for (let i = 0; i < expected.length; i++) {
+        total += jsDivergenceSimilarity(withUnrankedShare(predicted[i]), withUnrankedShare(expected[i]));
+    }
+
+    return total / expected.length;
+}
+
+/**
+ * Mean rank position (1-based) of each option among respondents who ranked it.
+ */
+function meanRanks(matrix: number[][]): number[] {
+    return matrix.map(row => {
+        const total = row.reduce((a, b) => a + b, 0);
+        if (total === 0) return NaN;
+        return row.reduce((sum, v, r) => sum + v * (r + 1), 0) / total;
+    });
+}
+
+export const rank_metric: PointFunction = (
+    llmResponseText: string,
+    args: any,
+): PointFunctionReturn => {
+    if (!args || typeof args !== 'object') {
+        return { error: "Invalid arguments for 'rank_metric'. Expected an object with an 'expected' matrix." };
+    }
+
+    const typedArgs = args as RankMetricArgs;
+
+    if (!isNumberMatrix(typedArgs.expected)) {
+        return { error: "Invalid 'expected' rank distribution. Must be a non-empty array of number arrays (one per option)." };
+    }
+
+    const { expected, questionKey } = typedArgs;
+    const rankCount = expected[0].length;
+
+    const predicted = parseRankMatrix(llmResponseText, questionKey) ?? (questionKey ? parseRankMatrix(llmResponseText) : null);
+
+    if (!predicted) {
+        return {
+            score: 0,
+            explain: `Could not parse a rank distribution from the response${questionKey ? ` for key "${questionKey}"` : ''}. Expected one array of ${rankCount} rank percentages per option: [[r1, r2, ...], [r1, r2, ...], ...]`,
+        };
+    }
+
+    if (predicted.length !== expected.length || predicted.some(row => row.length !== rankCount)) {
+        return {
+            score: 0.1,
+            explain: `Rank distribution shape mismatch: expected ${expected.length} options × ${rankCount} ranks, got ${predicted.length} × ${predicted.map(r => r.length).join('/')}`,
+        };
+    }
+
+    const score = rankDistributionSimilarity(predicted, expected);
+    const fmt = (ranks: number[]) => ranks.map(r => (isNaN(r) ? '–' : r.toFixed(2))).join(', ');
+
+    return {
+        score,
+        explain: `Rank distribution similarity: ${score.toFixed(3)}. Mean ranks expected: [${fmt(meanRanks(expected))}], predicted: [${fmt(meanRanks(predicted))}]`,
+    };
+};
@@ -19,7 +19,7 @@ export type PointFunctionReturn =
     | boolean
     | number
     | { error: string }
-    | { score: boolean | number; explain?: string };
+    | { score: boolean | number; explain?: string; metrics?: Record<string, number> };
 
 
 export type PointFunction = (
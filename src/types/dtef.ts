@@ -14,7 +14,7 @@ import { QuestionType, SurveyQuestion } from './survey';
 export type { QuestionType, SurveyQuestion } from './survey';
 
 /** Supported evaluation types */
-export type DTEFEvalType = 'distribution' | 'shift' | 'synthetic-individual' | 'individual-answer';
+export type DTEFEvalType = 'distribution' | 'shift' | 'synthetic-individual' | 'individual-answer' | 'open-ended' | 'own-opinion';
 
 /** Supported context formats */
 export type DTEFContextFormat =
@@ -23,11 +23,60 @@ export type DTEFContextFormat =
   | 'narrative'
   | 'raw-survey'
   | 'interview'
-  | 'first-person';
+  | 'first-person'
+  | 'few-shot-segments';
+
+/**
+ * How distribution-context prompts choose their context questions:
+ * - 'order': contextQuestionIds order (default)
+ * - 'embedding': most similar question text to the target first
+ * - 'correlation': questions whose answers co-vary most with the target's across segments first
+ * - 'random': seeded shuffle per target question
+ */
+export type DTEFContextSelection = 'order' | 'embedding' | 'correlation' | 'random';
+
+/**
+ * Which other segments the few-shot-segments format shows:
+ * - 'similar': segments sharing the most attributes with the target first (default)
+ * - 'random': seeded shuffle per target segment
+ */
+export type DTEFFewShotSelection = 'similar' | 'random';
 
 /** Supported reasoning modes */
 export type DTEFReasoningMode = 'standard' | 'cot';
 
+/**
+ * A named, versioned prompt template from the template registry. Sections
+ * override the built-in wording (template default@1) section by section;
+ * the hash identifies the full wording after those overrides.
+ */
+export interface DTEFPromptTemplate {
+  name: string;
+  version: number;
+  description?: string;
+  /** Section key → template source, e.g. 'system.distribution' or 'instruction.distribution' */
+  sections: Record<string, string>;
+  /** Hash of every section's resolved source */
+  hash: string;
+}
+
+/** A meaning-preserving rewrite of a survey question and its options */
+export interface DTEFQuestionParaphrase {
+  text: string;
+  /** Rewritten options, parallel to the original options */
+  options?: string[];
+}
+
+/**
+ * One wording of the target questions for paraphrase robustness runs:
+ * paraphrase `paraphraseIndex` (0 = original wording) with options shown
+ * in order `orderIndex` (0 = original order).
+ */
+export interface DTEFQuestionVariant {
+  paraphraseIndex: number;
+  orderIndex: number;
+}
+
 /**
  * Represents a demographic segment (e.g., "Men aged 18-29 in USA").
  * Each segment aggregates responses from multiple survey respondents
@@ -49,6 +98,20 @@ export interface DemographicSegment {
 
   /** Number of actual survey respondents this segment represents */
   sampleSize: number;
+
+  /**
+   * Kish effective sample size ((Σw)² / Σw²) when distributions are computed
+   * from weighted respondents. Absent for unweighted data, where it equals
+   * `sampleSize`. Sampling-noise calculations should prefer this value.
+   */
+  effectiveSampleSize?: number;
+
+  /**
+   * Sum of the members' survey weights when distributions are computed from
+   * weighted respondents. Absent for unweighted data, where it equals
+   * `sampleSize`. Population estimates should weight segments by this value.
+   */
+  weightTotal?: number;
 }
 
 /**
@@ -64,11 +127,40 @@ export interface DemographicResponse {
    * Array indices correspond to question option indices.
    * Values should sum to approximately 100 (may have small rounding differences).
    *
+   * For multi-select questions each value is the independent share of
+   * respondents who selected that option, so the array need not sum to 100.
+   * For ranking questions it is the share ranking each option first.
+   *
    * @example
    * // For a question with options ["Agree", "Neutral", "Disagree"]:
    * distribution: [45.5, 30.2, 24.3]  // 45.5% Agree, 30.2% Neutral, 24.3% Disagree
    */
   distribution: number[];
+
+  /**
+   * Ranking questions only: for each option (row), the percentage of
+   * respondents placing it at each rank position (column, 1st first).
+   * When respondents rank only their top K, rows sum to the share who
+   * ranked the option at all.
+   *
+   * @example
+   * // Options ["Cost", "Safety", "Speed"], full ranking:
+   * rankDistribution: [[50, 30, 20], [40, 40, 20], [10, 30, 60]]
+   */
+  rankDistribution?: number[][];
+
+  /**
+   * Open-ended questions only: the free-text answers written by members of
+   * the segment. `distribution` is empty for these questions.
+   */
+  textResponses?: string[];
+
+  /**
+   * Open-ended questions only: themes the segment's answers raise, listed by
+   * an LLM at import (`import-gd --themes`) and judged against model output
+   * as rubric points when present.
+   */
+  themes?: string[];
 }
 
 /**
@@ -97,6 +189,15 @@ export interface DTEFSurveyData {
   /** Source of the survey data (e.g., "Global Dialogues 2024") */
   source?: string;
 
+  /** Survey round this data comes from (e.g., "GD4"), for held-out round analysis */
+  roundId?: string;
+
+  /**
+   * Date the round's results were first published (YYYY-MM-DD).
+   * Rounds released after a model's knowledge cutoff cannot be in its training data.
+   */
+  releaseDate?: string;
+
   /**
    * Survey questions with their options.
    * Keys are question IDs, values are question definitions.
@@ -108,6 +209,14 @@ export interface DTEFSurveyData {
     type: QuestionType;
     /** Answer options for select-type questions */
     options?: string[];
+    /**
+     * Position of each option on an ordinal scale (e.g. [1, 2, 3, 4, 5] for a
+     * Likert item), parallel to `options`. Omit for nominal questions.
+     * Passed to the Wasserstein distribution metric.
+     */
+    ordinalPositions?: number[];
+    /** Ranking questions only: number of rank positions respondents filled (default: all options) */
+    rankCount?: number;
   }>;
 
   /**
@@ -163,6 +272,51 @@ export interface DTEFBlueprintConfig {
    */
   contextQuestionCount?: number;
 
+  /** How distribution-context prompts rank contextQuestionIds before taking the first contextQuestionCount (default: 'order') */
+  contextSelection?: DTEFContextSelection;
+
+  /** Seed for 'random' context selection; recorded in the configId */
+  contextSelectionSeed?: number;
+
+  /**
+   * Relevance of each context question to each target question
+   * (targetQuestionId → contextQuestionId → score, higher first). Required
+   * for 'embedding' selection, where it is computed before generation;
+   * derived from the survey data for 'correlation' and 'random'.
+   */
+  contextRelevance?: Record<string, Record<string, number>>;
+
+  /** Number of other segments whose answers the few-shot-segments format shows per question (default: 5) */
+  fewShotCount?: number;
+
+  /** How the few-shot-segments format picks those segments (default: 'similar') */
+  fewShotSelection?: DTEFFewShotSelection;
+
+  /** Seed for 'random' few-shot selection; recorded in the configId */
+  fewShotSeed?: number;
+
+  /**
+   * Prompt wording to use. When set, its name, version and hash are
+   * recorded in the blueprint context; when unset, the built-in wording is
+   * used and nothing is recorded.
+   */
+  promptTemplate?: DTEFPromptTemplate;
+
+  /**
+   * Paraphrases of each target question (questionId → paraphrases, where
+   * paraphrase k of a variant is entry k − 1). Generated with an LLM before
+   * blueprint generation; needed when questionVariant has a paraphraseIndex.
+   */
+  questionParaphrases?: Record<string, DTEFQuestionParaphrase[]>;
+
+  /**
+   * Wording and option order to ask the target questions in. Variants other
+   * than the original get their own configIds and are scored only for
+   * robustness, not on the leaderboard. Ignored for own-opinion and for
+   * individual-answer with individual data.
+   */
+  questionVariant?: DTEFQuestionVariant;
+
   /**
    * Number of questions per batched prompt (1-5).
    * Default: 1 (single-question mode, no batching).
@@ -187,6 +341,9 @@ export interface DTEFBlueprintConfig {
    * - 'shift': provide population marginal, ask model to adjust for demographic
    * - 'synthetic-individual': simulate N individuals, aggregate to distribution
    * - 'individual-answer': predict single individual's answer
+   * - 'open-ended': write what members of the segment would say to a free-text question
+   * - 'own-opinion': ask for the model's own answers with no persona (one blueprint per survey),
+   *   to measure how much of its own view it projects onto segments
    */
   evalType?: DTEFEvalType;
 
@@ -212,7 +369,10 @@ export interface DTEFBlueprintConfig {
   /** Individual-level participant data (for individual-answer eval type) */
   individualData?: DTEFIndividualData;
 
-  /** Number of participants to sample per segment (for individual-answer, default: 20) */
+  /**
+   * Number of participants to sample per segment (for individual-answer, default: 20),
+   * or of real answers kept as references per open-ended prompt (default: 50)
+   */
   sampleSize?: number;
 }
 
@@ -409,6 +569,12 @@ export interface DTEFParticipant {
   participantId: string;
   attributes: Record<string, string>;
   responses: IndividualResponse[];
+  /** Free-text answers to open-ended questions, keyed by question ID */
+  textResponses?: Record<string, string>;
+  /** Answers to ranking questions as option indices, 1st first, keyed by question ID */
+  rankings?: Record<string, number[]>;
+  /** Survey (e.g. poststratification) weight; treated as 1 when absent */
+  weight?: number;
 }
 
 /** Individual-level survey data alongside aggregate data */
@@ -433,6 +599,16 @@ export function isValidDistribution(distribution: unknown): distribution is numb
   return sum >= 99 && sum <= 101;
 }
 
+/**
+ * Type guard for multi-select shares: independent per-option percentages,
+ * each between 0 and 100, with no constraint on their sum.
+ */
+export function isValidSelectionShares(distribution: unknown): distribution is number[] {
+  if (!Array.isArray(distribution)) return false;
+  if (distribution.length === 0) return false;
+  return distribution.every(n => typeof n === 'number' && !isNaN(n) && n >= 0 && n <= 100.5);
+}
+
 /**
  * Type guard to check if a segment has valid responses.
  */
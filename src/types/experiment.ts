@@ -19,6 +19,52 @@ export interface ExperimentCondition {
     [key: string]: unknown;
 }
 
+export type ExperimentSequentialMethod = 'obrien-fleming' | 'pocock' | 'bayesian';
+
+/** Sample size suggested by `dtef experiment create` from prior per-prompt variance */
+export interface ExperimentPowerAnalysis {
+    /** Smallest score difference between conditions worth detecting */
+    minDetectableEffect: number;
+    alpha: number;
+    power: number;
+    /** SD of paired cell differences (paired) or of cell scores (unpaired) */
+    scoreSd: number;
+    paired: boolean;
+    /** Segment × question × model cells needed per condition */
+    requiredCells: number;
+    /** Where the SD came from, e.g. `experiment:context-label-vs-narrative (1840 cells)` */
+    source: string;
+    computedAt: string;
+}
+
+/** Optional sequential stopping rule, evaluated by `dtef experiment analyze` after each batch */
+export interface ExperimentSequentialDesign {
+    method: ExperimentSequentialMethod;
+    alpha: number;
+    maxLooks: number;
+    /** Bayesian only: posterior probability that one condition is better required to stop */
+    posteriorThreshold?: number;
+}
+
+export type ExperimentSequentialDecision = 'continue' | 'efficacy' | 'futility' | 'max-looks';
+
+export interface ExperimentSequentialLook {
+    look: number;
+    analyzedAt: string;
+    /** Paired segment × question × model cells in this look */
+    cells: number;
+    informationFraction: number;
+    /** Mean of (first condition − second condition) over paired cells */
+    meanDifference: number;
+    standardError: number;
+    zStatistic: number;
+    /** Alpha-spending: |z| needed to stop at this look */
+    boundary?: number;
+    /** Bayesian: posterior probability that the first condition scores higher */
+    posteriorProbability?: number;
+    decision: ExperimentSequentialDecision;
+}
+
 export interface ExperimentDesign {
     independentVariable: string;
     conditions: ExperimentCondition[];
@@ -26,6 +72,67 @@ export interface ExperimentDesign {
     segments: string;
     models: string;
     subjectQuestions: string;
+    /** Factor name → levels, for factorial designs run with `dtef experiment run` */
+    factors?: Record<string, Array<string | number>>;
+    powerAnalysis?: ExperimentPowerAnalysis;
+    sequential?: ExperimentSequentialDesign;
+}
+
+/** Evaluation progress of an experiment's configs, updated by `dtef experiment run` */
+export interface ExperimentProgress {
+    totalConfigs: number;
+    enqueuedConfigs: number;
+    completedConfigs: number;
+    byCondition: Record<string, { total: number; completed: number }>;
+    /** Configs already sent to the evaluation queue, so re-runs don't enqueue them twice */
+    enqueuedConfigIds: string[];
+    updatedAt: string;
+}
+
+/** One fixed-effect coefficient of the mixed model (treatment coding against the first level of each factor) */
+export interface ExperimentEffect {
+    /** e.g. `(Intercept)`, `reasoningMode=cot` or `contextFormat=narrative × reasoningMode=cot` */
+    term: string;
+    /** Factors involved: none for the intercept, one for a main effect, two for an interaction */
+    factors: string[];
+    estimate: number;
+    standardError: number;
+    ci95Low: number;
+    ci95High: number;
+    pValue: number;
+}
+
+/** Joint Wald test that all coefficients of a main effect or interaction are zero */
+export interface ExperimentTermTest {
+    /** e.g. `contextFormat` or `contextFormat × reasoningMode` */
+    term: string;
+    factors: string[];
+    df: number;
+    chiSquare: number;
+    pValue: number;
+}
+
+/** Observed mean score of one condition, used for interaction plots */
+export interface ExperimentCellMean {
+    condition: string;
+    levels: Record<string, string | number>;
+    mean: number;
+    n: number;
+}
+
+/** Linear mixed model fit for factorial experiments */
+export interface ExperimentMixedModel {
+    formula: string;
+    observations: number;
+    /** Reference level of each factor */
+    referenceLevels: Record<string, string | number>;
+    coefficients: ExperimentEffect[];
+    terms: ExperimentTermTest[];
+    /** Variance of the question and segment random intercepts, and the residual */
+    varianceComponents: { question: number; segment: number; residual: number };
+    cellMeans: ExperimentCellMean[];
+    converged: boolean;
+    iterations: number;
 }
 
 export interface ExperimentResults {
@@ -40,6 +147,10 @@ export interface ExperimentResults {
         n: number;
         scores: number[];
     }>;
+    /** Main effects and interactions, for experiments with a factorial design */
+    mixedModel?: ExperimentMixedModel;
+    /** Every interim look so far, oldest first (sequential experiments) */
+    sequentialLooks?: ExperimentSequentialLook[];
     analyzedAt?: string;
     configsAnalyzed?: number;
     configsMissing?: number;
@@ -58,6 +169,7 @@ export interface ExperimentRecord {
     results: ExperimentResults | null;
     conclusion: ExperimentConclusion;
     notes: string;
+    progress?: ExperimentProgress;
 }
 
 export interface ExperimentIndex {
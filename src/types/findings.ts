@@ -0,0 +1,125 @@
+/**
+ * DTEF Findings Types
+ *
+ * Shape of the findings artifact produced by `dtef findings` and rendered by
+ * the Findings page. Each run of the statistical analysis writes a new
+ * version; the latest lives at `live/aggregates/dtef_findings.json` and every
+ * version is also kept as a snapshot under `live/findings/`.
+ *
+ * @module types/findings
+ */
+
+export interface DTEFFindingsSurvey {
+    surveyId: string;
+    surveyName: string;
+    segmentCount: number;
+    questionCount: number;
+}
+
+/** Where the numbers came from, so a snapshot can be traced back to its inputs */
+export interface DTEFFindingsProvenance {
+    surveys: DTEFFindingsSurvey[];
+    /** Config IDs scanned in storage */
+    configCount: number;
+    /** DTEF evaluation results analysed (latest run per config) */
+    resultCount: number;
+    /** Ground-truth (segment, question) pairs across all surveys */
+    groundTruthPairs: number;
+    storageProvider: 's3' | 'local';
+    iterations: {
+        shuffle: number;
+        permutation: number;
+        bootstrap: number;
+    };
+}
+
+export interface DTEFFindingsModelScore {
+    modelId: string;
+    score: number;
+}
+
+export interface DTEFFindingsCategory {
+    /** Segment prefix, e.g. `gender` or `country` */
+    category: string;
+    avgSampleSize: number;
+    noiseFloor: number;
+    /** Percent of segment-question pairs whose noise floor clears the threshold */
+    percentReliable: number;
+}
+
+export interface DTEFFindingsContextModel {
+    modelId: string;
+    /** Mean score change per additional context question */
+    slope: number;
+    /** Category labels where this model's slope survives joint correction */
+    categories: string[];
+}
+
+export interface DTEFFindings {
+    schemaVersion: number;
+    /** Monotonically increasing per published analysis */
+    version: number;
+    generatedAt: string;
+    provenance: DTEFFindingsProvenance;
+
+    modelCount: number;
+    /** Segment-question score data points */
+    scoreDataPoints: number;
+
+    baselines: {
+        uniform: number;
+        populationMarginal: number;
+        /** Cross-segment similarity: each segment scored against another segment's answers */
+        shuffled: number;
+    };
+    bestModel: DTEFFindingsModelScore | null;
+    avgModelScore: number | null;
+    /** Highest-scoring models, best first */
+    topModels: DTEFFindingsModelScore[];
+
+    pairwise: {
+        significantPairs: number;
+        totalPairs: number;
+        percentage: number;
+        alpha: number;
+    };
+
+    context: {
+        testedModels: number;
+        responsiveModels: number;
+        /** Models whose mean slope is zero or negative */
+        nonPositiveSlopeModels: number;
+        significantModelCategoryPairs: number;
+        totalModelCategoryPairs: number;
+        topModels: DTEFFindingsContextModel[];
+    };
+
+    noiseThreshold: number;
+    categories: DTEFFindingsCategory[];
+
+    bootstrap: {
+        adjacentPairs: number;
+        /** Adjacent-rank model pairs whose 95% CIs overlap */
+        overlappingAdjacentPairs: number;
+    };
+    /** Models whose rank moves under √n sample-size weighting */
+    weightedRankChanges: number;
+}
+
+export interface DTEFFindingsHistoryEntry {
+    version: number;
+    generatedAt: string;
+    /** Storage key of the full snapshot */
+    key: string;
+    surveyIds: string[];
+    resultCount: number;
+    modelCount: number;
+    bestModel: DTEFFindingsModelScore | null;
+    populationMarginal: number;
+}
+
+export interface DTEFFindingsHistory {
+    /** Newest first */
+    snapshots: DTEFFindingsHistoryEntry[];
+    lastUpdated: string;
+}
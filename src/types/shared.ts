@@ -78,6 +78,8 @@ export interface PointAssessment {
     pathId?: string; // Used for alternative paths (OR logic)
     /** Indicates whether this assessment was computed by a function or judged by an LLM */
     evaluationType?: 'computational' | 'llm-judge';
+    /** Every similarity metric computed by the point function (e.g. distribution_metric), keyed by metric name */
+    metrics?: Record<string, number>;
 }
 
 // A container for the results of an llm-coverage evaluation for a single
@@ -108,10 +110,40 @@ export interface LLMCoverageScores {
     };
 }
 
+/**
+ * Embedding comparison of a model's generated answers with real free-text
+ * answers (open-ended prompts with `referenceResponses`). All values are 0-1.
+ */
+export interface OpenEndedScore {
+    /** Cosine similarity between the generated and reference centroids */
+    centroidSimilarity: number;
+    /** Mean, over reference answers, of the similarity to the closest generated answer */
+    neighbourCoverage: number;
+    /** Mean pairwise cosine distance among the generated answers */
+    diversity: number;
+    /** Mean pairwise cosine distance among the reference answers */
+    referenceDiversity: number;
+    /** How closely the generated diversity matches the reference diversity (min/max ratio) */
+    diversityMatch: number;
+    /** Mean of centroidSimilarity, neighbourCoverage and diversityMatch */
+    score: number;
+    /** Number of generated answers parsed from the response */
+    generatedCount: number;
+    /** Number of reference answers compared against */
+    referenceCount: number;
+}
+
+export interface OpenEndedScores {
+    [promptId: string]: {
+        [modelId: string]: OpenEndedScore;
+    };
+}
+
 export interface WevalEvaluationResults {
     similarityMatrix?: SimilarityScore;
     perPromptSimilarities?: Record<string, SimilarityScore>;
     llmCoverageScores?: LLMCoverageScores;
+    openEndedScores?: OpenEndedScores;
     promptStatistics?: any;
     perModelHybridScores?: any;
     perModelSemanticScores?: any;
@@ -161,6 +193,11 @@ export interface WevalPromptConfig {
     requiredTools?: string[];
     prohibitedTools?: string[];
     maxCalls?: number;
+    /**
+     * Real human answers to an open-ended prompt. When present, the embedding
+     * evaluator scores each model's answers against them (see OpenEndedScore).
+     */
+    referenceResponses?: string[];
 }
 
 // --- Tool-use (trace-only) types ---
@@ -388,6 +425,10 @@ export interface DTEFResultMetadata {
     reasoningMode?: string;
     /** Experiment ID if part of an experiment */
     experimentId?: string;
+    /** Survey round the evaluated data comes from */
+    roundId?: string;
+    /** Date the round's results were first published (YYYY-MM-DD) */
+    roundReleaseDate?: string;
 }
 
 // New structured executive summary types
@@ -2,7 +2,7 @@
  * Survey data structure types for generating evaluation blueprints
  */
 
-export type QuestionType = 'single-select' | 'multi-select' | 'open-ended' | 'text-content';
+export type QuestionType = 'single-select' | 'multi-select' | 'ranking' | 'open-ended' | 'text-content';
 
 export interface BaseQuestion {
     id: string;
@@ -21,6 +21,11 @@ export interface MultiSelectQuestion extends BaseQuestion {
     options: string[];
 }
 
+export interface RankingQuestion extends BaseQuestion {
+    type: 'ranking';
+    options: string[];
+}
+
 export interface OpenEndedQuestion extends BaseQuestion {
     type: 'open-ended';
 }
@@ -32,6 +37,7 @@ export interface TextContent extends BaseQuestion {
 export type SurveyQuestion = 
     | SingleSelectQuestion 
     | MultiSelectQuestion 
+    | RankingQuestion
     | OpenEndedQuestion 
     | TextContent;
 